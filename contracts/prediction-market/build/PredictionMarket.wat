@@ -1,23 +1,28 @@
 (module
- (type $0 (func (param i32) (result i32)))
- (type $1 (func (param i32 i32) (result i32)))
- (type $2 (func (param i32 i32)))
- (type $3 (func (param i32 i32 i32)))
- (type $4 (func (param i32)))
+ (type $0 (func (param i32 i32) (result i32)))
+ (type $1 (func (param i32) (result i32)))
+ (type $2 (func (param i32 i32 i32)))
+ (type $3 (func (param i32 i32)))
+ (type $4 (func (param i32 i32 i32) (result i32)))
  (type $5 (func (param i32 i32 i32 i32)))
- (type $6 (func (result i32)))
- (type $7 (func (param i32 i32 i32) (result i32)))
- (type $8 (func (param i32 i32 i32 i32) (result i32)))
- (type $9 (func))
- (type $10 (func (param i32 i32) (result i64)))
- (type $11 (func (param i64 i64) (result i32)))
- (type $12 (func (param i64 i64 i64 i64) (result i32)))
- (type $13 (func (param i64 i64)))
- (type $14 (func (param i64) (result i64)))
- (type $15 (func (param i32) (result i64)))
- (type $16 (func (param i32 i32 i64)))
- (type $17 (func (param i32 i64)))
- (type $18 (func (param i64 i64 i64 i64 i64 i64 i64 i64) (result i32)))
+ (type $6 (func (param i32 i32 i32 i32) (result i32)))
+ (type $7 (func (param i32)))
+ (type $8 (func (result i32)))
+ (type $9 (func (param i32) (result i64)))
+ (type $10 (func))
+ (type $11 (func (param i32 i32) (result i64)))
+ (type $12 (func (param i32 i32 i32 i32 i32)))
+ (type $13 (func (param i32 i32 i32 i32 i32 i32)))
+ (type $14 (func (param i32 i32 i32 i32 i32) (result i32)))
+ (type $15 (func (param i32 i32 i64)))
+ (type $16 (func (param i64 i64) (result i32)))
+ (type $17 (func (param i64 i64 i64 i64) (result i32)))
+ (type $18 (func (param i64 i64)))
+ (type $19 (func (param i64) (result i64)))
+ (type $20 (func (param i32 i64)))
+ (type $21 (func (param i64 i64) (result i64)))
+ (type $22 (func (param i32 i32 i64 i64 i32 i32 i32 i32 i32) (result i32)))
+ (type $23 (func (param i64 i64 i64 i64 i64 i64 i64 i64) (result i32)))
  (import "env" "exit" (func $~lib/@btc-vision/btc-runtime/runtime/env/global/env_exit (param i32 i32 i32)))
  (import "env" "sha256" (func $~lib/@btc-vision/btc-runtime/runtime/env/global/_sha256 (param i32 i32 i32)))
  (import "env" "environment" (func $~lib/@btc-vision/btc-runtime/runtime/env/global/getEnvironmentVariables (param i32 i32 i32)))
@@ -25,23 +30,39 @@
  (import "env" "load" (func $~lib/@btc-vision/btc-runtime/runtime/env/global/loadPointer (param i32 i32)))
  (import "env" "store" (func $~lib/@btc-vision/btc-runtime/runtime/env/global/storePointer (param i32 i32)))
  (import "env" "emit" (func $~lib/@btc-vision/btc-runtime/runtime/env/global/emit (param i32 i32)))
+ (import "env" "call" (func $~lib/@btc-vision/btc-runtime/runtime/env/global/callContract (param i32 i32 i32 i32) (result i32)))
+ (import "env" "callResult" (func $~lib/@btc-vision/btc-runtime/runtime/env/global/getCallResult (param i32 i32 i32)))
+ (import "env" "verifySignature" (func $~lib/@btc-vision/btc-runtime/runtime/env/global/verifySignature (param i32 i32 i32) (result i32)))
+ (import "env" "loadMLDSA" (func $~lib/@btc-vision/btc-runtime/runtime/env/global/loadMLDSA (param i32 i32)))
+ (global $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain (mut i32) (i32.const 0))
+ (global $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER (mut i32) (i32.const 0))
  (global $~argumentsLength (mut i32) (i32.const 0))
+ (global $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub (mut i64) (i64.const 0))
+ (global $src/PredictionMarket/OUTCOME_YES (mut i32) (i32.const 0))
+ (global $src/PredictionMarket/STATUS_OPEN (mut i32) (i32.const 0))
+ (global $~lib/@btc-vision/as-bignum/assembly/globals/__u256carry (mut i64) (i64.const 0))
  (global $~lib/rt/stub/offset (mut i32) (i32.const 0))
+ (global $src/PredictionMarket/OUTCOME_NO (mut i32) (i32.const 0))
+ (global $src/PredictionMarket/BPS_DENOMINATOR (mut i32) (i32.const 0))
+ (global $src/PredictionMarket/STATUS_PROPOSED (mut i32) (i32.const 0))
+ (global $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/FOUR_BYTES_UINT8ARRAY_MEMORY_CACHE (mut i32) (i32.const 0))
+ (global $src/PredictionMarket/STATUS_RESOLVED (mut i32) (i32.const 0))
+ (global $src/PredictionMarket/STATUS_CANCELLED (mut i32) (i32.const 0))
+ (global $src/PredictionMarket/STATUS_DISPUTED (mut i32) (i32.const 0))
+ (global $src/PredictionMarket/ORACLE_DISPUTE_SLASH_BPS (mut i32) (i32.const 0))
+ (global $src/PredictionMarket/MIN_EXIT_SPREAD_BPS (mut i32) (i32.const 0))
  (global $~lib/@btc-vision/btc-runtime/runtime/script/Networks/Network (mut i32) (i32.const 0))
  (global $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_BUFFER (mut i32) (i32.const 0))
- (global $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER (mut i32) (i32.const 0))
  (global $~lib/@btc-vision/btc-runtime/runtime/math/bytes/ONE_BUFFER (mut i32) (i32.const 0))
  (global $~lib/@btc-vision/btc-runtime/runtime/types/ExtendedAddressCache/_cachedDeadAddress (mut i32) (i32.const 0))
  (global $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/SCRATCH_BUF (mut i32) (i32.const 0))
- (global $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain (mut i32) (i32.const 0))
- (global $src/PredictionMarket/OUTCOME_YES (mut i32) (i32.const 0))
- (global $src/PredictionMarket/OUTCOME_NO (mut i32) (i32.const 0))
- (global $src/PredictionMarket/STATUS_OPEN (mut i32) (i32.const 0))
- (global $src/PredictionMarket/STATUS_RESOLVED (mut i32) (i32.const 0))
- (global $src/PredictionMarket/MAX_MARKETS (mut i32) (i32.const 0))
- (global $~lib/@btc-vision/as-bignum/assembly/globals/__u256carry (mut i64) (i64.const 0))
+ (global $src/PredictionMarket/DEFAULT_MAX_MARKETS (mut i32) (i32.const 0))
+ (global $src/PredictionMarket/BINARY_OUTCOME_COUNT (mut i32) (i32.const 0))
+ (global $src/PredictionMarket/MAX_PROTOCOL_FEE_BPS (mut i32) (i32.const 0))
+ (global $src/PredictionMarket/MAX_CREATOR_FEE_BPS (mut i32) (i32.const 0))
+ (global $src/PredictionMarket/DEFAULT_DISPUTE_BOND (mut i32) (i32.const 0))
+ (global $src/PredictionMarket/MAX_EXIT_SPREAD_BPS (mut i32) (i32.const 0))
  (global $~lib/@btc-vision/as-bignum/assembly/globals/__res128_hi (mut i64) (i64.const 0))
- (global $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub (mut i64) (i64.const 0))
  (global $~started (mut i32) (i32.const 0))
  (memory $0 1)
  (data $0 (i32.const 1036) "\1c")
@@ -130,247 +151,637 @@
  (data $41 (i32.const 4460) ",")
  (data $41.1 (i32.const 4472) "\n\00\00\00\10\00\00\00@\11\00\00@\11\00\00 \00\00\00 ")
  (data $42 (i32.const 4508) "<")
- (data $42.1 (i32.const 4520) "\01\00\00\00 \00\00\00Zd,\a2\d8\fd\e9\e1(\87|\f5]q\96\e3:\d4K\b3K\n\8d\85\8d\a8\04\bd;\86!\0e")
+ (data $42.1 (i32.const 4520) "\01\00\00\00 \00\00\00\fe\e8\"\925\1d\1a\8b\ab!\c4\ef\dd\15~1h\e8\f62:\d0L\ba\12\f7|\0b\dcF\"X")
  (data $43 (i32.const 4572) ",")
  (data $43.1 (i32.const 4584) "\n\00\00\00\10\00\00\00\b0\11\00\00\b0\11\00\00 \00\00\00 ")
  (data $44 (i32.const 4620) "<")
- (data $44.1 (i32.const 4632) "\01\00\00\00 \00\00\00{\f8\b69_\ea\cc\15\97\128\00\91\b9+\96gk+sF\ff)\'\bf\1aT\f8\fc\ef\9c\0b")
+ (data $44.1 (i32.const 4632) "\01\00\00\00 \00\00\00k\86\b2s\ff4\fc\e1\9dk\80N\ffZ?WG\ad\a4\ea\a2/\1dI\c0\1eR\dd\b7\87[K")
  (data $45 (i32.const 4684) ",")
  (data $45.1 (i32.const 4696) "\n\00\00\00\10\00\00\00 \12\00\00 \12\00\00 \00\00\00 ")
  (data $46 (i32.const 4732) "<")
- (data $46.1 (i32.const 4744) "\01\00\00\00 \00\00\00\fe\e8\"\925\1d\1a\8b\ab!\c4\ef\dd\15~1h\e8\f62:\d0L\ba\12\f7|\0b\dcF\"X")
+ (data $46.1 (i32.const 4744) "\01\00\00\00 \00\00\00\b8n\99\da\c0GKJ\9f\c32:\d6\ed/9U\e7\b8m\c6\8cbB\82\1c\bc\ac\a2\d8y\de")
  (data $47 (i32.const 4796) ",")
  (data $47.1 (i32.const 4808) "\n\00\00\00\10\00\00\00\90\12\00\00\90\12\00\00 \00\00\00 ")
  (data $48 (i32.const 4844) "<")
- (data $48.1 (i32.const 4856) "\01\00\00\00 \00\00\00k\86\b2s\ff4\fc\e1\9dk\80N\ffZ?WG\ad\a4\ea\a2/\1dI\c0\1eR\dd\b7\87[K")
+ (data $48.1 (i32.const 4856) "\01\00\00\00 \00\00\00OH\06]\9e\f1E%k\f7\7f\d2\e5\8by\e6\f6\0c\d0\d3Gp\1424P\c9e\b7K\80\ed")
  (data $49 (i32.const 4908) ",")
  (data $49.1 (i32.const 4920) "\n\00\00\00\10\00\00\00\00\13\00\00\00\13\00\00 \00\00\00 ")
  (data $50 (i32.const 4956) "<")
- (data $50.1 (i32.const 4968) "\01\00\00\00 \00\00\00\b8n\99\da\c0GKJ\9f\c32:\d6\ed/9U\e7\b8m\c6\8cbB\82\1c\bc\ac\a2\d8y\de")
+ (data $50.1 (i32.const 4968) "\01\00\00\00 \00\00\00\f9\03\d7\be\0c\a4\99\eem}F\"\c7\92\b2\ead\ab\a6\afhQ\03\fe\c4\ae\12\d7\a6\a9\b2\0f")
  (data $51 (i32.const 5020) ",")
  (data $51.1 (i32.const 5032) "\n\00\00\00\10\00\00\00p\13\00\00p\13\00\00 \00\00\00 ")
- (data $52 (i32.const 5068) "<")
- (data $52.1 (i32.const 5080) "\01\00\00\00 \00\00\00OH\06]\9e\f1E%k\f7\7f\d2\e5\8by\e6\f6\0c\d0\d3Gp\1424P\c9e\b7K\80\ed")
- (data $53 (i32.const 5132) ",")
- (data $53.1 (i32.const 5144) "\n\00\00\00\10\00\00\00\e0\13\00\00\e0\13\00\00 \00\00\00 ")
- (data $54 (i32.const 5180) "<")
- (data $54.1 (i32.const 5192) "\01\00\00\00 \00\00\00\f9\03\d7\be\0c\a4\99\eem}F\"\c7\92\b2\ead\ab\a6\afhQ\03\fe\c4\ae\12\d7\a6\a9\b2\0f")
- (data $55 (i32.const 5244) ",")
- (data $55.1 (i32.const 5256) "\n\00\00\00\10\00\00\00P\14\00\00P\14\00\00 \00\00\00 ")
- (data $56 (i32.const 5292) "L")
- (data $56.1 (i32.const 5304) "\02\00\00\00.\00\00\00O\00u\00t\00 \00o\00f\00 \00s\00t\00o\00r\00a\00g\00e\00 \00p\00o\00i\00n\00t\00e\00r\00.")
- (data $57 (i32.const 5372) "\9c")
- (data $57.1 (i32.const 5384) "\02\00\00\00\82\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00e\00n\00v\00/\00B\00l\00o\00c\00k\00c\00h\00a\00i\00n\00E\00n\00v\00i\00r\00o\00n\00m\00e\00n\00t\00.\00t\00s")
+ (data $52 (i32.const 5068) "L")
+ (data $52.1 (i32.const 5080) "\02\00\00\00.\00\00\00O\00u\00t\00 \00o\00f\00 \00s\00t\00o\00r\00a\00g\00e\00 \00p\00o\00i\00n\00t\00e\00r\00.")
+ (data $53 (i32.const 5148) "\9c")
+ (data $53.1 (i32.const 5160) "\02\00\00\00\82\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00e\00n\00v\00/\00B\00l\00o\00c\00k\00c\00h\00a\00i\00n\00E\00n\00v\00i\00r\00o\00n\00m\00e\00n\00t\00.\00t\00s")
+ (data $54 (i32.const 5308) "<")
+ (data $54.1 (i32.const 5320) "\01\00\00\00 \00\00\00/\fc\ff\ff\fe\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff")
+ (data $55 (i32.const 5372) ",")
+ (data $55.1 (i32.const 5384) "\n\00\00\00\10\00\00\00\d0\14\00\00\d0\14\00\00 \00\00\00 ")
+ (data $56 (i32.const 5420) "<")
+ (data $56.1 (i32.const 5432) "\01\00\00\00 \00\00\00\98\17\f8\16\b1[(\d9Y(\ce-\db\fc\9b\02p\b0\87\ce\95\a0bU\ac\bb\dc\f9\eff\bey")
+ (data $57 (i32.const 5484) ",")
+ (data $57.1 (i32.const 5496) "\n\00\00\00\10\00\00\00@\15\00\00@\15\00\00 \00\00\00 ")
  (data $58 (i32.const 5532) "<")
- (data $58.1 (i32.const 5544) "\01\00\00\00 \00\00\00/\fc\ff\ff\fe\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff\ff")
+ (data $58.1 (i32.const 5544) "\01\00\00\00 \00\00\00\b8\d4\10\fb\8f\d0G\9c\19T\85\a6H\b4\17\fd\a8\08\11\0e\fc\fb\a4]e\c4\a3&w\da:H")
  (data $59 (i32.const 5596) ",")
  (data $59.1 (i32.const 5608) "\n\00\00\00\10\00\00\00\b0\15\00\00\b0\15\00\00 \00\00\00 ")
- (data $60 (i32.const 5644) "<")
- (data $60.1 (i32.const 5656) "\01\00\00\00 \00\00\00\98\17\f8\16\b1[(\d9Y(\ce-\db\fc\9b\02p\b0\87\ce\95\a0bU\ac\bb\dc\f9\eff\bey")
- (data $61 (i32.const 5708) ",")
- (data $61.1 (i32.const 5720) "\n\00\00\00\10\00\00\00 \16\00\00 \16\00\00 \00\00\00 ")
- (data $62 (i32.const 5756) "<")
- (data $62.1 (i32.const 5768) "\01\00\00\00 \00\00\00\b8\d4\10\fb\8f\d0G\9c\19T\85\a6H\b4\17\fd\a8\08\11\0e\fc\fb\a4]e\c4\a3&w\da:H")
- (data $63 (i32.const 5820) ",")
- (data $63.1 (i32.const 5832) "\n\00\00\00\10\00\00\00\90\16\00\00\90\16\00\00 \00\00\00 ")
- (data $64 (i32.const 5868) "|")
- (data $64.1 (i32.const 5880) "\02\00\00\00f\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00a\00s\00-\00b\00i\00g\00n\00u\00m\00/\00a\00s\00s\00e\00m\00b\00l\00y\00/\00i\00n\00t\00e\00g\00e\00r\00/\00u\002\005\006\00.\00t\00s")
- (data $65 (i32.const 5996) "L")
- (data $65.1 (i32.const 6008) "\02\00\00\002\00\00\00t\00r\00a\00n\00s\00f\00e\00r\00(\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00)")
- (data $66 (i32.const 6076) "\\")
- (data $66.1 (i32.const 6088) "\02\00\00\00J\00\00\00t\00r\00a\00n\00s\00f\00e\00r\00F\00r\00o\00m\00(\00a\00d\00d\00r\00e\00s\00s\00,\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00)")
- (data $67 (i32.const 6172) "\\")
- (data $67.1 (i32.const 6184) "\02\00\00\00F\00\00\00s\00a\00f\00e\00T\00r\00a\00n\00s\00f\00e\00r\00(\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00,\00b\00y\00t\00e\00s\00)")
- (data $68 (i32.const 6268) "|")
- (data $68.1 (i32.const 6280) "\02\00\00\00^\00\00\00s\00a\00f\00e\00T\00r\00a\00n\00s\00f\00e\00r\00F\00r\00o\00m\00(\00a\00d\00d\00r\00e\00s\00s\00,\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00,\00b\00y\00t\00e\00s\00)")
- (data $69 (i32.const 6396) "\\")
- (data $69.1 (i32.const 6408) "\02\00\00\00D\00\00\00i\00n\00c\00r\00e\00a\00s\00e\00A\00l\00l\00o\00w\00a\00n\00c\00e\00(\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00)")
- (data $70 (i32.const 6492) "\\")
- (data $70.1 (i32.const 6504) "\02\00\00\00D\00\00\00d\00e\00c\00r\00e\00a\00s\00e\00A\00l\00l\00o\00w\00a\00n\00c\00e\00(\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00)")
- (data $71 (i32.const 6588) ",")
- (data $71.1 (i32.const 6600) "\02\00\00\00\1a\00\00\00b\00u\00r\00n\00(\00u\00i\00n\00t\002\005\006\00)")
- (data $72 (i32.const 6636) "|")
- (data $72.1 (i32.const 6648) "\01\00\00\00`")
- (data $72.2 (i32.const 6667) "\80\00\00\00\80")
- (data $72.3 (i32.const 6683) "\80\00\00\00\80")
- (data $72.4 (i32.const 6711) "\80\00\00\00\80\00\00\00\80\00\00\00\80\00\00\00\80\00\00\00\00\00\00\00\80\00\00\00\80\00\00\00\80\00\00\00\00\00\00\00\80")
- (data $73 (i32.const 6764) ",")
- (data $73.1 (i32.const 6776) "\"\00\00\00\10\00\00\00\00\1a\00\00\00\1a\00\00`\00\00\00\18")
- (data $74 (i32.const 6812) "|")
- (data $74.1 (i32.const 6824) "\01\00\00\00`\00\00\00\01\00\00\00\82\80\00\00\8a\80\00\00\00\80\00\80\8b\80\00\00\01\00\00\80\81\80\00\80\t\80\00\00\8a\00\00\00\88\00\00\00\t\80\00\80\n\00\00\80\8b\80\00\80\8b\00\00\00\89\80\00\00\03\80\00\00\02\80\00\00\80\00\00\00\n\80\00\00\n\00\00\80\81\80\00\80\80\80\00\00\01\00\00\80\08\80\00\80")
- (data $75 (i32.const 6940) ",")
- (data $75.1 (i32.const 6952) "\"\00\00\00\10\00\00\00\b0\1a\00\00\b0\1a\00\00`\00\00\00\18")
- (data $76 (i32.const 6988) "|")
- (data $76.1 (i32.const 7000) "\01\00\00\00`\00\00\00\01\00\00\00\03\00\00\00\06\00\00\00\n\00\00\00\0f\00\00\00\15\00\00\00\1c\00\00\00$\00\00\00-\00\00\007\00\00\00\02\00\00\00\0e\00\00\00\1b\00\00\00)\00\00\008\00\00\00\08\00\00\00\19\00\00\00+\00\00\00>\00\00\00\12\00\00\00\'\00\00\00=\00\00\00\14\00\00\00,")
- (data $77 (i32.const 7116) ",")
- (data $77.1 (i32.const 7128) "\0b\00\00\00\10\00\00\00`\1b\00\00`\1b\00\00`\00\00\00\18")
- (data $78 (i32.const 7164) "|")
- (data $78.1 (i32.const 7176) "\01\00\00\00`\00\00\00\n\00\00\00\07\00\00\00\0b\00\00\00\11\00\00\00\12\00\00\00\03\00\00\00\05\00\00\00\10\00\00\00\08\00\00\00\15\00\00\00\18\00\00\00\04\00\00\00\0f\00\00\00\17\00\00\00\13\00\00\00\r\00\00\00\0c\00\00\00\02\00\00\00\14\00\00\00\0e\00\00\00\16\00\00\00\t\00\00\00\06\00\00\00\01")
- (data $79 (i32.const 7292) ",")
- (data $79.1 (i32.const 7304) "\0b\00\00\00\10\00\00\00\10\1c\00\00\10\1c\00\00`\00\00\00\18")
- (data $80 (i32.const 7340) "\1c")
- (data $80.1 (i32.const 7352) "\01")
- (data $81 (i32.const 7372) "\\")
- (data $81.1 (i32.const 7384) "\02\00\00\00F\00\00\00c\00r\00e\00a\00t\00e\00M\00a\00r\00k\00e\00t\00(\00s\00t\00r\00i\00n\00g\00,\00u\00i\00n\00t\006\004\00,\00a\00d\00d\00r\00e\00s\00s\00)")
- (data $82 (i32.const 7468) "l")
- (data $82.1 (i32.const 7480) "\02\00\00\00T\00\00\00b\00y\00t\00e\00s\00T\00o\00U\003\002\00:\00 \00i\00n\00p\00u\00t\00 \00m\00u\00s\00t\00 \00b\00e\00 \00a\00t\00 \00l\00e\00a\00s\00t\00 \004\00 \00b\00y\00t\00e\00s")
- (data $83 (i32.const 7580) "|")
- (data $83.1 (i32.const 7592) "\02\00\00\00d\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00m\00a\00t\00h\00/\00b\00y\00t\00e\00s\00.\00t\00s")
- (data $84 (i32.const 7708) "\\")
- (data $84.1 (i32.const 7720) "\02\00\00\00B\00\00\00p\00l\00a\00c\00e\00B\00e\00t\00(\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00)")
- (data $85 (i32.const 7804) "L")
- (data $85.1 (i32.const 7816) "\02\00\00\00<\00\00\00r\00e\00s\00o\00l\00v\00e\00M\00a\00r\00k\00e\00t\00(\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00)")
- (data $86 (i32.const 7884) "<")
- (data $86.1 (i32.const 7896) "\02\00\00\00,\00\00\00c\00l\00a\00i\00m\00W\00i\00n\00n\00i\00n\00g\00s\00(\00u\00i\00n\00t\002\005\006\00)")
- (data $87 (i32.const 7948) "<")
- (data $87.1 (i32.const 7960) "\02\00\00\00$\00\00\00g\00e\00t\00M\00a\00r\00k\00e\00t\00(\00u\00i\00n\00t\002\005\006\00)")
- (data $88 (i32.const 8012) "\\")
- (data $88.1 (i32.const 8024) "\02\00\00\00@\00\00\00g\00e\00t\00U\00s\00e\00r\00P\00o\00s\00i\00t\00i\00o\00n\00(\00u\00i\00n\00t\002\005\006\00,\00a\00d\00d\00r\00e\00s\00s\00)")
- (data $89 (i32.const 8108) "<")
- (data $89.1 (i32.const 8120) "\02\00\00\00 \00\00\00g\00e\00t\00M\00a\00r\00k\00e\00t\00C\00o\00u\00n\00t\00(\00)")
- (data $90 (i32.const 8172) ",")
- (data $90.1 (i32.const 8184) "\02\00\00\00\14\00\00\00g\00e\00t\00O\00w\00n\00e\00r\00(\00)")
- (data $91 (i32.const 8220) "<")
- (data $91.1 (i32.const 8232) "\02\00\00\00$\00\00\00g\00e\00t\00C\00a\00l\00l\00e\00r\00A\00d\00d\00r\00e\00s\00s\00(\00)")
- (data $92 (i32.const 8284) ",")
- (data $92.1 (i32.const 8296) "\02\00\00\00\14\00\00\00S\00t\00o\00r\00e\00d\00U\002\005\006")
- (data $93 (i32.const 8332) "l")
- (data $93.1 (i32.const 8344) "\02\00\00\00N\00\00\00P\00o\00i\00n\00t\00e\00r\00s\00 \00m\00u\00s\00t\00 \00b\00e\00 \00e\00x\00a\00c\00t\00l\00y\00 \003\000\00 \00b\00y\00t\00e\00s\00.\00 \00G\00o\00t\00 ")
- (data $94 (i32.const 8444) ",")
- (data $94.1 (i32.const 8456) "\02\00\00\00\16\00\00\00,\00 \00c\00o\00n\00t\00e\00x\00t\00:\00 ")
- (data $95 (i32.const 8492) "\1c")
- (data $95.1 (i32.const 8504) "\02\00\00\00\02\00\00\00.")
- (data $96 (i32.const 8524) ",\00\00\00\03\00\00\00\00\00\00\00\05\00\00\00\14\00\00\00\a0 \00\00\00\00\00\00\10!\00\00\00\00\00\00@!")
- (data $97 (i32.const 8572) "|")
- (data $97.1 (i32.const 8584) "\02\00\00\00`\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00m\00a\00t\00h\00/\00a\00b\00i\00.\00t\00s")
- (data $98 (i32.const 8700) "\1c")
- (data $98.1 (i32.const 8712) "%\00\00\00\08\00\00\00\01")
- (data $99 (i32.const 8732) "<")
- (data $99.1 (i32.const 8744) "\02\00\00\00(\00\00\00C\00o\00n\00t\00r\00a\00c\00t\00 \00i\00s\00 \00r\00e\00q\00u\00i\00r\00e\00d")
- (data $100 (i32.const 8796) "\8c")
- (data $100.1 (i32.const 8808) "\02\00\00\00z\00\00\00A\00t\00t\00e\00m\00p\00t\00 \00t\00o\00 \00r\00e\00a\00d\00 \00b\00e\00y\00o\00n\00d\00 \00b\00u\00f\00f\00e\00r\00 \00l\00e\00n\00g\00t\00h\00.\00 \00R\00e\00q\00u\00e\00s\00t\00e\00d\00 \00u\00p\00 \00t\00o\00 \00o\00f\00f\00s\00e\00t\00 ")
- (data $101 (i32.const 8940) "\1c")
- (data $101.1 (i32.const 8952) "\02\00\00\00\04\00\00\00,\00 ")
- (data $102 (i32.const 8972) "\1c\00\00\00\03\00\00\00\00\00\00\00\05\00\00\00\0c\00\00\00p\"\00\00\00\00\00\00\00#")
- (data $103 (i32.const 9004) "<")
- (data $103.1 (i32.const 9016) "\02\00\00\00&\00\00\00b\00u\00t\00 \00b\00u\00f\00f\00e\00r\00 \00i\00s\00 \00o\00n\00l\00y\00 ")
- (data $104 (i32.const 9068) ",")
- (data $104.1 (i32.const 9080) "\02\00\00\00\0e\00\00\00 \00b\00y\00t\00e\00s\00.")
- (data $105 (i32.const 9116) "\1c\00\00\00\03\00\00\00\00\00\00\00\05\00\00\00\0c\00\00\00@#\00\00\00\00\00\00\80#")
- (data $106 (i32.const 9148) "\8c")
- (data $106.1 (i32.const 9160) "\02\00\00\00t\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00b\00u\00f\00f\00e\00r\00/\00B\00y\00t\00e\00s\00R\00e\00a\00d\00e\00r\00.\00t\00s")
- (data $107 (i32.const 9292) "\1c")
- (data $107.1 (i32.const 9304) "\01")
- (data $108 (i32.const 9324) "L")
- (data $108.1 (i32.const 9336) "\02\00\00\006\00\00\00C\00a\00n\00n\00o\00t\00 \00m\00o\00d\00i\00f\00y\00 \00a\00d\00d\00r\00e\00s\00s\00 \00d\00a\00t\00a\00.")
- (data $109 (i32.const 9404) "<")
- (data $109.1 (i32.const 9416) "\02\00\00\00(\00\00\00C\00h\00a\00i\00n\00 \00i\00d\00 \00i\00s\00 \00r\00e\00q\00u\00i\00r\00e\00d")
- (data $110 (i32.const 9468) "|")
- (data $110.1 (i32.const 9480) "\02\00\00\00^\00\00\00U\00n\00e\00x\00p\00e\00c\00t\00e\00d\00 \00\'\00n\00u\00l\00l\00\'\00 \00(\00n\00o\00t\00 \00a\00s\00s\00i\00g\00n\00e\00d\00 \00o\00r\00 \00f\00a\00i\00l\00e\00d\00 \00c\00a\00s\00t\00)")
- (data $111 (i32.const 9596) "L")
- (data $111.1 (i32.const 9608) "\02\00\00\00.\00\00\00I\00n\00v\00a\00l\00i\00d\00 \00c\00h\00a\00i\00n\00 \00i\00d\00 \00l\00e\00n\00g\00t\00h")
- (data $112 (i32.const 9676) "\8c")
- (data $112.1 (i32.const 9688) "\02\00\00\00n\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00s\00c\00r\00i\00p\00t\00/\00N\00e\00t\00w\00o\00r\00k\00s\00.\00t\00s")
- (data $113 (i32.const 9820) "<")
- (data $113.1 (i32.const 9832) "\02\00\00\00 \00\00\00U\00n\00k\00n\00o\00w\00n\00 \00c\00h\00a\00i\00n\00 \00i\00d")
- (data $114 (i32.const 9884) "|")
- (data $114.1 (i32.const 9896) "\02\00\00\00^\00\00\00E\00l\00e\00m\00e\00n\00t\00 \00t\00y\00p\00e\00 \00m\00u\00s\00t\00 \00b\00e\00 \00n\00u\00l\00l\00a\00b\00l\00e\00 \00i\00f\00 \00a\00r\00r\00a\00y\00 \00i\00s\00 \00h\00o\00l\00e\00y")
- (data $115 (i32.const 10012) ",")
- (data $115.1 (i32.const 10024) "\02\00\00\00\14\00\00\00d\00e\00p\00l\00o\00y\00e\00r\00(\00)")
- (data $116 (i32.const 10060) "<")
- (data $116.1 (i32.const 10072) "\02\00\00\00(\00\00\00D\00e\00p\00l\00o\00y\00e\00r\00 \00i\00s\00 \00r\00e\00q\00u\00i\00r\00e\00d")
- (data $117 (i32.const 10124) "<")
- (data $117.1 (i32.const 10136) "\02\00\00\00(\00\00\00A\00d\00d\00r\00e\00s\00s\00 \00i\00s\00 \00t\00o\00o\00 \00l\00o\00n\00g\00 ")
- (data $118 (i32.const 10188) "\1c")
- (data $118.1 (i32.const 10200) "\02\00\00\00\06\00\00\00 \00>\00 ")
- (data $119 (i32.const 10220) "\1c")
- (data $119.1 (i32.const 10232) "\02\00\00\00\0c\00\00\00 \00b\00y\00t\00e\00s")
- (data $120 (i32.const 10252) ",\00\00\00\03\00\00\00\00\00\00\00\05\00\00\00\14\00\00\00\a0\'\00\00\00\00\00\00\e0\'\00\00\00\00\00\00\00(")
- (data $121 (i32.const 10300) "\8c")
- (data $121.1 (i32.const 10312) "\02\00\00\00t\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00b\00u\00f\00f\00e\00r\00/\00B\00y\00t\00e\00s\00W\00r\00i\00t\00e\00r\00.\00t\00s")
- (data $122 (i32.const 10444) "L")
- (data $122.1 (i32.const 10456) "\02\00\00\008\00\00\00B\00y\00t\00e\00s\00W\00r\00i\00t\00e\00r\00:\00 \00o\00f\00f\00s\00e\00t\00 \00o\00v\00e\00r\00f\00l\00o\00w")
- (data $123 (i32.const 10524) "\8c")
- (data $123.1 (i32.const 10536) "\02\00\00\00p\00\00\00B\00u\00f\00f\00e\00r\00 \00i\00s\00 \00g\00e\00t\00t\00i\00n\00g\00 \00r\00e\00s\00i\00z\00e\00d\00.\00 \00T\00h\00i\00s\00 \00i\00s\00 \00b\00a\00d\00 \00f\00o\00r\00 \00p\00e\00r\00f\00o\00r\00m\00a\00n\00c\00e\00.\00 ")
- (data $124 (i32.const 10668) "<")
- (data $124.1 (i32.const 10680) "\02\00\00\00\1e\00\00\00E\00x\00p\00e\00c\00t\00e\00d\00 \00s\00i\00z\00e\00:\00 ")
- (data $125 (i32.const 10732) "\1c")
- (data $125.1 (i32.const 10744) "\02\00\00\00\06\00\00\00 \00-\00 ")
- (data $126 (i32.const 10764) "\1c\00\00\00\03\00\00\00\00\00\00\00\05\00\00\00\0c\00\00\00\c0)\00\00\00\00\00\00\00*")
- (data $127 (i32.const 10796) ",")
- (data $127.1 (i32.const 10808) "\02\00\00\00\1c\00\00\00C\00u\00r\00r\00e\00n\00t\00 \00s\00i\00z\00e\00:\00 ")
- (data $128 (i32.const 10844) "<")
- (data $128.1 (i32.const 10856) "\02\00\00\00$\00\00\00M\00e\00t\00h\00o\00d\00 \00n\00o\00t\00 \00f\00o\00u\00n\00d\00:\00 ")
- (data $129 (i32.const 10908) "\8c")
- (data $129.1 (i32.const 10920) "\02\00\00\00p\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00c\00o\00n\00t\00r\00a\00c\00t\00s\00/\00O\00P\00_\00N\00E\00T\00.\00t\00s")
- (data $130 (i32.const 11052) "<")
- (data $130.1 (i32.const 11064) "\02\00\00\00\"\00\00\00B\00l\00o\00c\00k\00 \00i\00s\00 \00r\00e\00q\00u\00i\00r\00e\00d")
- (data $131 (i32.const 11116) "\\")
- (data $131.1 (i32.const 11128) "\02\00\00\00>\00\00\00E\00n\00d\00 \00b\00l\00o\00c\00k\00 \00m\00u\00s\00t\00 \00b\00e\00 \00i\00n\00 \00t\00h\00e\00 \00f\00u\00t\00u\00r\00e")
- (data $132 (i32.const 11212) "L")
- (data $132.1 (i32.const 11224) "\02\00\00\00.\00\00\00s\00r\00c\00/\00P\00r\00e\00d\00i\00c\00t\00i\00o\00n\00M\00a\00r\00k\00e\00t\00.\00t\00s")
- (data $133 (i32.const 11292) "L")
- (data $133.1 (i32.const 11304) "\02\00\00\004\00\00\00Q\00u\00e\00s\00t\00i\00o\00n\00 \00m\00u\00s\00t\00 \00n\00o\00t\00 \00b\00e\00 \00e\00m\00p\00t\00y")
- (data $134 (i32.const 11372) "L")
- (data $134.1 (i32.const 11384) "\02\00\00\00:\00\00\00P\00o\00i\00n\00t\00e\00r\00 \00m\00u\00s\00t\00 \00b\00e\00 \003\002\00 \00b\00y\00t\00e\00s\00 \00l\00o\00n\00g")
- (data $135 (i32.const 11452) "\\")
- (data $135.1 (i32.const 11464) "\02\00\00\00B\00\00\00K\00e\00y\00 \00n\00o\00t\00 \00f\00o\00u\00n\00d\00 \00i\00n\00 \00m\00a\00p\00 \00(\00u\00i\00n\00t\008\00a\00r\00r\00a\00y\00)")
- (data $136 (i32.const 11548) "\8c")
- (data $136.1 (i32.const 11560) "\02\00\00\00z\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00g\00e\00n\00e\00r\00i\00c\00/\00M\00a\00p\00U\00i\00n\00t\008\00A\00r\00r\00a\00y\00.\00t\00s")
- (data $137 (i32.const 11692) "L")
- (data $137.1 (i32.const 11704) "\02\00\00\00.\00\00\00M\00a\00x\00i\00m\00u\00m\00 \00m\00a\00r\00k\00e\00t\00s\00 \00r\00e\00a\00c\00h\00e\00d")
- (data $138 (i32.const 11772) "L")
- (data $138.1 (i32.const 11784) "\02\00\00\006\00\00\00S\00a\00f\00e\00M\00a\00t\00h\00:\00 \00a\00d\00d\00i\00t\00i\00o\00n\00 \00o\00v\00e\00r\00f\00l\00o\00w")
- (data $139 (i32.const 11852) "|")
- (data $139.1 (i32.const 11864) "\02\00\00\00l\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00t\00y\00p\00e\00s\00/\00S\00a\00f\00e\00M\00a\00t\00h\00.\00t\00s")
- (data $140 (i32.const 11980) "L")
- (data $140.1 (i32.const 11992) "\02\00\00\00.\00\00\00T\00r\00a\00n\00s\00a\00c\00t\00i\00o\00n\00 \00i\00s\00 \00r\00e\00q\00u\00i\00r\00e\00d")
- (data $141 (i32.const 12060) ",")
- (data $141.1 (i32.const 12072) "\02\00\00\00\12\00\00\00S\00t\00o\00r\00e\00d\00U\006\004")
- (data $142 (i32.const 12108) "<")
- (data $142.1 (i32.const 12120) "\01\00\00\00 ")
- (data $143 (i32.const 12172) "l")
- (data $143.1 (i32.const 12184) "\02\00\00\00N\00\00\00I\00n\00d\00e\00x\00 \00o\00u\00t\00 \00o\00f\00 \00b\00o\00u\00n\00d\00s\00 \00f\00o\00r\00 \00S\00t\00o\00r\00e\00d\00U\006\004\00 \00(\000\00-\003\00)")
- (data $144 (i32.const 12284) "\8c")
- (data $144.1 (i32.const 12296) "\02\00\00\00r\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00s\00t\00o\00r\00a\00g\00e\00/\00S\00t\00o\00r\00e\00d\00U\006\004\00.\00t\00s")
- (data $145 (i32.const 12428) "l")
- (data $145.1 (i32.const 12440) "\02\00\00\00R\00\00\00E\00v\00e\00n\00t\00 \00d\00a\00t\00a\00 \00l\00e\00n\00g\00t\00h\00 \00e\00x\00c\00e\00e\00d\00s\00 \00m\00a\00x\00i\00m\00u\00m\00 \00l\00e\00n\00g\00t\00h\00.")
- (data $146 (i32.const 12540) "\8c")
- (data $146.1 (i32.const 12552) "\02\00\00\00n\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00e\00v\00e\00n\00t\00s\00/\00N\00e\00t\00E\00v\00e\00n\00t\00.\00t\00s")
- (data $147 (i32.const 12684) ",")
- (data $147.1 (i32.const 12696) "\02\00\00\00\1a\00\00\00M\00a\00r\00k\00e\00t\00C\00r\00e\00a\00t\00e\00d")
- (data $148 (i32.const 12732) "<")
- (data $148.1 (i32.const 12744) "\02\00\00\00*\00\00\00B\00u\00f\00f\00e\00r\00 \00i\00s\00 \00n\00o\00t\00 \00d\00e\00f\00i\00n\00e\00d")
- (data $149 (i32.const 12796) "l")
- (data $149.1 (i32.const 12808) "\02\00\00\00T\00\00\00I\00n\00v\00a\00l\00i\00d\00 \00o\00u\00t\00c\00o\00m\00e\00:\00 \00m\00u\00s\00t\00 \00b\00e\00 \001\00 \00(\00Y\00E\00S\00)\00 \00o\00r\00 \002\00 \00(\00N\00O\00)")
- (data $150 (i32.const 12908) "<")
- (data $150.1 (i32.const 12920) "\02\00\00\00$\00\00\00M\00a\00r\00k\00e\00t\00 \00i\00s\00 \00n\00o\00t\00 \00o\00p\00e\00n")
- (data $151 (i32.const 12972) "\\")
- (data $151.1 (i32.const 12984) "\02\00\00\00>\00\00\00M\00a\00r\00k\00e\00t\00 \00b\00e\00t\00t\00i\00n\00g\00 \00p\00e\00r\00i\00o\00d\00 \00h\00a\00s\00 \00e\00n\00d\00e\00d")
- (data $152 (i32.const 13068) "\\")
- (data $152.1 (i32.const 13080) "\02\00\00\00@\00\00\00A\00m\00o\00u\00n\00t\00 \00m\00u\00s\00t\00 \00b\00e\00 \00g\00r\00e\00a\00t\00e\00r\00 \00t\00h\00a\00n\00 \00z\00e\00r\00o")
- (data $153 (i32.const 13164) ",")
- (data $153.1 (i32.const 13176) "\02\00\00\00\12\00\00\00B\00e\00t\00P\00l\00a\00c\00e\00d")
- (data $154 (i32.const 13212) "\\")
- (data $154.1 (i32.const 13224) "\02\00\00\00L\00\00\00O\00n\00l\00y\00 \00t\00h\00e\00 \00d\00e\00s\00i\00g\00n\00a\00t\00e\00d\00 \00o\00r\00a\00c\00l\00e\00 \00c\00a\00n\00 \00r\00e\00s\00o\00l\00v\00e")
- (data $155 (i32.const 13308) "l")
- (data $155.1 (i32.const 13320) "\02\00\00\00N\00\00\00M\00a\00r\00k\00e\00t\00 \00b\00e\00t\00t\00i\00n\00g\00 \00p\00e\00r\00i\00o\00d\00 \00h\00a\00s\00 \00n\00o\00t\00 \00e\00n\00d\00e\00d\00 \00y\00e\00t")
- (data $156 (i32.const 13420) ",")
- (data $156.1 (i32.const 13432) "\02\00\00\00\1c\00\00\00M\00a\00r\00k\00e\00t\00R\00e\00s\00o\00l\00v\00e\00d")
- (data $157 (i32.const 13468) "L")
- (data $157.1 (i32.const 13480) "\02\00\00\004\00\00\00M\00a\00r\00k\00e\00t\00 \00i\00s\00 \00n\00o\00t\00 \00r\00e\00s\00o\00l\00v\00e\00d\00 \00y\00e\00t")
- (data $158 (i32.const 13548) "<")
- (data $158.1 (i32.const 13560) "\02\00\00\00\1e\00\00\00A\00l\00r\00e\00a\00d\00y\00 \00c\00l\00a\00i\00m\00e\00d")
- (data $159 (i32.const 13612) "<")
- (data $159.1 (i32.const 13624) "\02\00\00\00(\00\00\00N\00o\00 \00w\00i\00n\00n\00i\00n\00g\00 \00b\00e\00t\00 \00f\00o\00u\00n\00d")
- (data $160 (i32.const 13676) "<")
- (data $160.1 (i32.const 13688) "\02\00\00\00 \00\00\00D\00i\00v\00i\00s\00i\00o\00n\00 \00b\00y\00 \00z\00e\00r\00o")
- (data $161 (i32.const 13740) "\\")
- (data $161.1 (i32.const 13752) "\02\00\00\00B\00\00\00S\00a\00f\00e\00M\00a\00t\00h\00:\00 \00m\00u\00l\00t\00i\00p\00l\00i\00c\00a\00t\00i\00o\00n\00 \00o\00v\00e\00r\00f\00l\00o\00w")
- (data $162 (i32.const 13836) "L")
- (data $162.1 (i32.const 13848) "\02\00\00\004\00\00\00S\00a\00f\00e\00M\00a\00t\00h\00:\00 \00d\00i\00v\00i\00s\00i\00o\00n\00 \00b\00y\00 \00z\00e\00r\00o")
- (data $163 (i32.const 13916) "<")
- (data $163.1 (i32.const 13928) "\02\00\00\00\1e\00\00\00W\00i\00n\00n\00i\00n\00g\00s\00C\00l\00a\00i\00m\00e\00d")
+ (data $60 (i32.const 5644) "|")
+ (data $60.1 (i32.const 5656) "\02\00\00\00f\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00a\00s\00-\00b\00i\00g\00n\00u\00m\00/\00a\00s\00s\00e\00m\00b\00l\00y\00/\00i\00n\00t\00e\00g\00e\00r\00/\00u\002\005\006\00.\00t\00s")
+ (data $61 (i32.const 5772) "L")
+ (data $61.1 (i32.const 5784) "\02\00\00\002\00\00\00t\00r\00a\00n\00s\00f\00e\00r\00(\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $62 (i32.const 5852) "\\")
+ (data $62.1 (i32.const 5864) "\02\00\00\00J\00\00\00t\00r\00a\00n\00s\00f\00e\00r\00F\00r\00o\00m\00(\00a\00d\00d\00r\00e\00s\00s\00,\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $63 (i32.const 5948) "\\")
+ (data $63.1 (i32.const 5960) "\02\00\00\00F\00\00\00s\00a\00f\00e\00T\00r\00a\00n\00s\00f\00e\00r\00(\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00,\00b\00y\00t\00e\00s\00)")
+ (data $64 (i32.const 6044) "|")
+ (data $64.1 (i32.const 6056) "\02\00\00\00^\00\00\00s\00a\00f\00e\00T\00r\00a\00n\00s\00f\00e\00r\00F\00r\00o\00m\00(\00a\00d\00d\00r\00e\00s\00s\00,\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00,\00b\00y\00t\00e\00s\00)")
+ (data $65 (i32.const 6172) "\\")
+ (data $65.1 (i32.const 6184) "\02\00\00\00D\00\00\00i\00n\00c\00r\00e\00a\00s\00e\00A\00l\00l\00o\00w\00a\00n\00c\00e\00(\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $66 (i32.const 6268) "\\")
+ (data $66.1 (i32.const 6280) "\02\00\00\00D\00\00\00d\00e\00c\00r\00e\00a\00s\00e\00A\00l\00l\00o\00w\00a\00n\00c\00e\00(\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $67 (i32.const 6364) ",")
+ (data $67.1 (i32.const 6376) "\02\00\00\00\1a\00\00\00b\00u\00r\00n\00(\00u\00i\00n\00t\002\005\006\00)")
+ (data $68 (i32.const 6412) "|")
+ (data $68.1 (i32.const 6424) "\01\00\00\00`")
+ (data $68.2 (i32.const 6443) "\80\00\00\00\80")
+ (data $68.3 (i32.const 6459) "\80\00\00\00\80")
+ (data $68.4 (i32.const 6487) "\80\00\00\00\80\00\00\00\80\00\00\00\80\00\00\00\80\00\00\00\00\00\00\00\80\00\00\00\80\00\00\00\80\00\00\00\00\00\00\00\80")
+ (data $69 (i32.const 6540) ",")
+ (data $69.1 (i32.const 6552) "\"\00\00\00\10\00\00\00 \19\00\00 \19\00\00`\00\00\00\18")
+ (data $70 (i32.const 6588) "|")
+ (data $70.1 (i32.const 6600) "\01\00\00\00`\00\00\00\01\00\00\00\82\80\00\00\8a\80\00\00\00\80\00\80\8b\80\00\00\01\00\00\80\81\80\00\80\t\80\00\00\8a\00\00\00\88\00\00\00\t\80\00\80\n\00\00\80\8b\80\00\80\8b\00\00\00\89\80\00\00\03\80\00\00\02\80\00\00\80\00\00\00\n\80\00\00\n\00\00\80\81\80\00\80\80\80\00\00\01\00\00\80\08\80\00\80")
+ (data $71 (i32.const 6716) ",")
+ (data $71.1 (i32.const 6728) "\"\00\00\00\10\00\00\00\d0\19\00\00\d0\19\00\00`\00\00\00\18")
+ (data $72 (i32.const 6764) "|")
+ (data $72.1 (i32.const 6776) "\01\00\00\00`\00\00\00\01\00\00\00\03\00\00\00\06\00\00\00\n\00\00\00\0f\00\00\00\15\00\00\00\1c\00\00\00$\00\00\00-\00\00\007\00\00\00\02\00\00\00\0e\00\00\00\1b\00\00\00)\00\00\008\00\00\00\08\00\00\00\19\00\00\00+\00\00\00>\00\00\00\12\00\00\00\'\00\00\00=\00\00\00\14\00\00\00,")
+ (data $73 (i32.const 6892) ",")
+ (data $73.1 (i32.const 6904) "\0b\00\00\00\10\00\00\00\80\1a\00\00\80\1a\00\00`\00\00\00\18")
+ (data $74 (i32.const 6940) "|")
+ (data $74.1 (i32.const 6952) "\01\00\00\00`\00\00\00\n\00\00\00\07\00\00\00\0b\00\00\00\11\00\00\00\12\00\00\00\03\00\00\00\05\00\00\00\10\00\00\00\08\00\00\00\15\00\00\00\18\00\00\00\04\00\00\00\0f\00\00\00\17\00\00\00\13\00\00\00\r\00\00\00\0c\00\00\00\02\00\00\00\14\00\00\00\0e\00\00\00\16\00\00\00\t\00\00\00\06\00\00\00\01")
+ (data $75 (i32.const 7068) ",")
+ (data $75.1 (i32.const 7080) "\0b\00\00\00\10\00\00\000\1b\00\000\1b\00\00`\00\00\00\18")
+ (data $76 (i32.const 7116) "\1c")
+ (data $76.1 (i32.const 7128) "\01")
+ (data $77 (i32.const 7148) "\dc")
+ (data $77.1 (i32.const 7160) "\02\00\00\00\cc\00\00\00c\00r\00e\00a\00t\00e\00M\00a\00r\00k\00e\00t\00(\00s\00t\00r\00i\00n\00g\00,\00u\00i\00n\00t\006\004\00,\00u\00i\00n\00t\006\004\00,\00a\00d\00d\00r\00e\00s\00s\00,\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00,\00a\00d\00d\00r\00e\00s\00s\00[\00]\00,\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00,\00a\00d\00d\00r\00e\00s\00s\00[\00]\00)")
+ (data $78 (i32.const 7372) "l")
+ (data $78.1 (i32.const 7384) "\02\00\00\00T\00\00\00b\00y\00t\00e\00s\00T\00o\00U\003\002\00:\00 \00i\00n\00p\00u\00t\00 \00m\00u\00s\00t\00 \00b\00e\00 \00a\00t\00 \00l\00e\00a\00s\00t\00 \004\00 \00b\00y\00t\00e\00s")
+ (data $79 (i32.const 7484) "|")
+ (data $79.1 (i32.const 7496) "\02\00\00\00d\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00m\00a\00t\00h\00/\00b\00y\00t\00e\00s\00.\00t\00s")
+ (data $80 (i32.const 7612) "\0c\01")
+ (data $80.1 (i32.const 7624) "\02\00\00\00\f4\00\00\00c\00r\00e\00a\00t\00e\00C\00a\00t\00e\00g\00o\00r\00i\00c\00a\00l\00M\00a\00r\00k\00e\00t\00(\00s\00t\00r\00i\00n\00g\00,\00u\00i\00n\00t\006\004\00,\00u\00i\00n\00t\006\004\00,\00a\00d\00d\00r\00e\00s\00s\00,\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00,\00a\00d\00d\00r\00e\00s\00s\00[\00]\00,\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00,\00a\00d\00d\00r\00e\00s\00s\00[\00]\00,\00s\00t\00r\00i\00n\00g\00[\00]\00)")
+ (data $81 (i32.const 7884) "\ec")
+ (data $81.1 (i32.const 7896) "\02\00\00\00\d4\00\00\00c\00r\00e\00a\00t\00e\00S\00c\00a\00l\00a\00r\00M\00a\00r\00k\00e\00t\00(\00s\00t\00r\00i\00n\00g\00,\00u\00i\00n\00t\006\004\00,\00u\00i\00n\00t\006\004\00,\00a\00d\00d\00r\00e\00s\00s\00,\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00,\00a\00d\00d\00r\00e\00s\00s\00[\00]\00,\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $82 (i32.const 8124) "\\")
+ (data $82.1 (i32.const 8136) "\02\00\00\00B\00\00\00p\00l\00a\00c\00e\00B\00e\00t\00(\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $83 (i32.const 8220) "L")
+ (data $83.1 (i32.const 8232) "\02\00\00\00<\00\00\00r\00e\00s\00o\00l\00v\00e\00M\00a\00r\00k\00e\00t\00(\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $84 (i32.const 8300) "\\")
+ (data $84.1 (i32.const 8312) "\02\00\00\00H\00\00\00r\00e\00s\00o\00l\00v\00e\00S\00c\00a\00l\00a\00r\00M\00a\00r\00k\00e\00t\00(\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $85 (i32.const 8396) "\\")
+ (data $85.1 (i32.const 8408) "\02\00\00\00>\00\00\00s\00e\00t\00P\00r\00i\00c\00e\00T\00a\00r\00g\00e\00t\00(\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $86 (i32.const 8492) "\8c")
+ (data $86.1 (i32.const 8504) "\02\00\00\00|\00\00\00r\00e\00s\00o\00l\00v\00e\00W\00i\00t\00h\00P\00r\00i\00c\00e\00(\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\006\004\00,\00e\00x\00t\00e\00n\00d\00e\00d\00A\00d\00d\00r\00e\00s\00s\00,\00b\00y\00t\00e\00s\00)")
+ (data $87 (i32.const 8636) "L")
+ (data $87.1 (i32.const 8648) "\02\00\00\008\00\00\00v\00o\00t\00e\00O\00u\00t\00c\00o\00m\00e\00(\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $88 (i32.const 8716) "\\")
+ (data $88.1 (i32.const 8728) "\02\00\00\00>\00\00\00d\00i\00s\00p\00u\00t\00e\00O\00u\00t\00c\00o\00m\00e\00(\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $89 (i32.const 8812) "L")
+ (data $89.1 (i32.const 8824) "\02\00\00\00.\00\00\00f\00i\00n\00a\00l\00i\00z\00e\00M\00a\00r\00k\00e\00t\00(\00u\00i\00n\00t\002\005\006\00)")
+ (data $90 (i32.const 8892) "L")
+ (data $90.1 (i32.const 8904) "\02\00\00\008\00\00\00r\00u\00l\00e\00D\00i\00s\00p\00u\00t\00e\00(\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $91 (i32.const 8972) "l")
+ (data $91.1 (i32.const 8984) "\02\00\00\00Z\00\00\00s\00e\00l\00l\00P\00o\00s\00i\00t\00i\00o\00n\00(\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $92 (i32.const 9084) "|")
+ (data $92.1 (i32.const 9096) "\02\00\00\00b\00\00\00t\00r\00a\00n\00s\00f\00e\00r\00P\00o\00s\00i\00t\00i\00o\00n\00(\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00,\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $93 (i32.const 9212) "\8c")
+ (data $93.1 (i32.const 9224) "\02\00\00\00z\00\00\00t\00r\00a\00n\00s\00f\00e\00r\00P\00o\00s\00i\00t\00i\00o\00n\00F\00r\00o\00m\00(\00a\00d\00d\00r\00e\00s\00s\00,\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $94 (i32.const 9356) "\\")
+ (data $94.1 (i32.const 9368) "\02\00\00\00B\00\00\00s\00e\00t\00P\00o\00s\00i\00t\00i\00o\00n\00O\00p\00e\00r\00a\00t\00o\00r\00(\00a\00d\00d\00r\00e\00s\00s\00,\00b\00o\00o\00l\00)")
+ (data $95 (i32.const 9452) "<")
+ (data $95.1 (i32.const 9464) "\02\00\00\00,\00\00\00c\00l\00a\00i\00m\00W\00i\00n\00n\00i\00n\00g\00s\00(\00u\00i\00n\00t\002\005\006\00)")
+ (data $96 (i32.const 9516) "<")
+ (data $96.1 (i32.const 9528) "\02\00\00\00*\00\00\00c\00a\00n\00c\00e\00l\00M\00a\00r\00k\00e\00t\00(\00u\00i\00n\00t\002\005\006\00)")
+ (data $97 (i32.const 9580) "<")
+ (data $97.1 (i32.const 9592) "\02\00\00\00(\00\00\00c\00l\00a\00i\00m\00R\00e\00f\00u\00n\00d\00(\00u\00i\00n\00t\002\005\006\00)")
+ (data $98 (i32.const 9644) "L")
+ (data $98.1 (i32.const 9656) "\02\00\00\008\00\00\00s\00e\00t\00C\00a\00n\00c\00e\00l\00G\00r\00a\00c\00e\00P\00e\00r\00i\00o\00d\00(\00u\00i\00n\00t\006\004\00)")
+ (data $99 (i32.const 9724) "L")
+ (data $99.1 (i32.const 9736) "\02\00\00\008\00\00\00s\00e\00t\00R\00e\00s\00o\00l\00u\00t\00i\00o\00n\00T\00i\00m\00e\00o\00u\00t\00(\00u\00i\00n\00t\006\004\00)")
+ (data $100 (i32.const 9804) "L")
+ (data $100.1 (i32.const 9816) "\02\00\00\00.\00\00\00s\00e\00t\00P\00r\00o\00t\00o\00c\00o\00l\00F\00e\00e\00(\00u\00i\00n\00t\002\005\006\00)")
+ (data $101 (i32.const 9884) ",")
+ (data $101.1 (i32.const 9896) "\02\00\00\00\1c\00\00\00w\00i\00t\00h\00d\00r\00a\00w\00F\00e\00e\00s\00(\00)")
+ (data $102 (i32.const 9932) "L")
+ (data $102.1 (i32.const 9944) "\02\00\00\000\00\00\00s\00e\00t\00D\00i\00s\00p\00u\00t\00e\00W\00i\00n\00d\00o\00w\00(\00u\00i\00n\00t\006\004\00)")
+ (data $103 (i32.const 10012) "L")
+ (data $103.1 (i32.const 10024) "\02\00\00\00.\00\00\00s\00e\00t\00D\00i\00s\00p\00u\00t\00e\00B\00o\00n\00d\00(\00u\00i\00n\00t\002\005\006\00)")
+ (data $104 (i32.const 10092) "<")
+ (data $104.1 (i32.const 10104) "\02\00\00\00,\00\00\00s\00e\00t\00A\00r\00b\00i\00t\00r\00a\00t\00o\00r\00(\00a\00d\00d\00r\00e\00s\00s\00)")
+ (data $105 (i32.const 10156) "<")
+ (data $105.1 (i32.const 10168) "\02\00\00\00(\00\00\00s\00e\00t\00P\00a\00u\00s\00e\00d\00(\00b\00o\00o\00l\00,\00b\00o\00o\00l\00)")
+ (data $106 (i32.const 10220) "L")
+ (data $106.1 (i32.const 10232) "\02\00\00\004\00\00\00t\00r\00a\00n\00s\00f\00e\00r\00O\00w\00n\00e\00r\00s\00h\00i\00p\00(\00a\00d\00d\00r\00e\00s\00s\00)")
+ (data $107 (i32.const 10300) "<")
+ (data $107.1 (i32.const 10312) "\02\00\00\00\"\00\00\00a\00c\00c\00e\00p\00t\00O\00w\00n\00e\00r\00s\00h\00i\00p\00(\00)")
+ (data $108 (i32.const 10364) "<")
+ (data $108.1 (i32.const 10376) "\02\00\00\00,\00\00\00s\00e\00t\00M\00a\00x\00M\00a\00r\00k\00e\00t\00s\00(\00u\00i\00n\00t\002\005\006\00)")
+ (data $109 (i32.const 10428) "<")
+ (data $109.1 (i32.const 10440) "\02\00\00\00$\00\00\00s\00e\00t\00M\00i\00n\00B\00e\00t\00(\00u\00i\00n\00t\002\005\006\00)")
+ (data $110 (i32.const 10492) "\\")
+ (data $110.1 (i32.const 10504) "\02\00\00\00H\00\00\00s\00e\00t\00P\00r\00i\00c\00e\00S\00i\00g\00n\00e\00r\00(\00e\00x\00t\00e\00n\00d\00e\00d\00A\00d\00d\00r\00e\00s\00s\00,\00b\00o\00o\00l\00)")
+ (data $111 (i32.const 10588) "<")
+ (data $111.1 (i32.const 10600) "\02\00\00\00$\00\00\00g\00e\00t\00M\00a\00r\00k\00e\00t\00(\00u\00i\00n\00t\002\005\006\00)")
+ (data $112 (i32.const 10652) "\\")
+ (data $112.1 (i32.const 10664) "\02\00\00\00@\00\00\00g\00e\00t\00U\00s\00e\00r\00P\00o\00s\00i\00t\00i\00o\00n\00(\00u\00i\00n\00t\002\005\006\00,\00a\00d\00d\00r\00e\00s\00s\00)")
+ (data $113 (i32.const 10748) "<")
+ (data $113.1 (i32.const 10760) "\02\00\00\00 \00\00\00g\00e\00t\00M\00a\00r\00k\00e\00t\00C\00o\00u\00n\00t\00(\00)")
+ (data $114 (i32.const 10812) ",")
+ (data $114.1 (i32.const 10824) "\02\00\00\00\14\00\00\00g\00e\00t\00O\00w\00n\00e\00r\00(\00)")
+ (data $115 (i32.const 10860) "<")
+ (data $115.1 (i32.const 10872) "\02\00\00\00$\00\00\00g\00e\00t\00C\00a\00l\00l\00e\00r\00A\00d\00d\00r\00e\00s\00s\00(\00)")
+ (data $116 (i32.const 10924) "<")
+ (data $116.1 (i32.const 10936) "\02\00\00\00(\00\00\00g\00e\00t\00C\00o\00l\00l\00a\00t\00e\00r\00a\00l\00T\00o\00k\00e\00n\00(\00)")
+ (data $117 (i32.const 10988) "L")
+ (data $117.1 (i32.const 11000) "\02\00\00\000\00\00\00g\00e\00t\00O\00u\00t\00c\00o\00m\00e\00P\00o\00o\00l\00s\00(\00u\00i\00n\00t\002\005\006\00)")
+ (data $118 (i32.const 11068) "L")
+ (data $118.1 (i32.const 11080) "\02\00\00\00<\00\00\00g\00e\00t\00U\00s\00e\00r\00S\00t\00a\00k\00e\00s\00(\00u\00i\00n\00t\002\005\006\00,\00a\00d\00d\00r\00e\00s\00s\00)")
+ (data $119 (i32.const 11148) "<")
+ (data $119.1 (i32.const 11160) "\02\00\00\00,\00\00\00g\00e\00t\00C\00a\00n\00c\00e\00l\00G\00r\00a\00c\00e\00P\00e\00r\00i\00o\00d\00(\00)")
+ (data $120 (i32.const 11212) "<")
+ (data $120.1 (i32.const 11224) "\02\00\00\00,\00\00\00g\00e\00t\00R\00e\00s\00o\00l\00u\00t\00i\00o\00n\00T\00i\00m\00e\00o\00u\00t\00(\00)")
+ (data $121 (i32.const 11276) "<")
+ (data $121.1 (i32.const 11288) "\02\00\00\00 \00\00\00g\00e\00t\00F\00e\00e\00s\00(\00a\00d\00d\00r\00e\00s\00s\00)")
+ (data $122 (i32.const 11340) "<")
+ (data $122.1 (i32.const 11352) "\02\00\00\00,\00\00\00g\00e\00t\00R\00e\00s\00o\00l\00u\00t\00i\00o\00n\00(\00u\00i\00n\00t\002\005\006\00)")
+ (data $123 (i32.const 11404) "<")
+ (data $123.1 (i32.const 11416) "\02\00\00\00$\00\00\00g\00e\00t\00D\00i\00s\00p\00u\00t\00e\00C\00o\00n\00f\00i\00g\00(\00)")
+ (data $124 (i32.const 11468) "L")
+ (data $124.1 (i32.const 11480) "\02\00\00\00.\00\00\00g\00e\00t\00O\00r\00a\00c\00l\00e\00V\00o\00t\00e\00s\00(\00u\00i\00n\00t\002\005\006\00)")
+ (data $125 (i32.const 11548) "\\")
+ (data $125.1 (i32.const 11560) "\02\00\00\00D\00\00\00q\00u\00o\00t\00e\00S\00e\00l\00l\00(\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $126 (i32.const 11644) "\\")
+ (data $126.1 (i32.const 11656) "\02\00\00\00F\00\00\00i\00s\00P\00o\00s\00i\00t\00i\00o\00n\00O\00p\00e\00r\00a\00t\00o\00r\00(\00a\00d\00d\00r\00e\00s\00s\00,\00a\00d\00d\00r\00e\00s\00s\00)")
+ (data $127 (i32.const 11740) "l")
+ (data $127.1 (i32.const 11752) "\02\00\00\00X\00\00\00g\00e\00t\00M\00a\00r\00k\00e\00t\00s\00B\00y\00C\00r\00e\00a\00t\00o\00r\00(\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $128 (i32.const 11852) "l")
+ (data $128.1 (i32.const 11864) "\02\00\00\00V\00\00\00g\00e\00t\00M\00a\00r\00k\00e\00t\00s\00B\00y\00O\00r\00a\00c\00l\00e\00(\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $129 (i32.const 11964) "l")
+ (data $129.1 (i32.const 11976) "\02\00\00\00V\00\00\00g\00e\00t\00M\00a\00r\00k\00e\00t\00s\00B\00y\00B\00e\00t\00t\00o\00r\00(\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $130 (i32.const 12076) "L")
+ (data $130.1 (i32.const 12088) "\02\00\00\006\00\00\00g\00e\00t\00M\00a\00r\00k\00e\00t\00s\00(\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $131 (i32.const 12156) "\\")
+ (data $131.1 (i32.const 12168) "\02\00\00\00F\00\00\00g\00e\00t\00U\00s\00e\00r\00P\00o\00s\00i\00t\00i\00o\00n\00s\00(\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00[\00]\00)")
+ (data $132 (i32.const 12252) "<")
+ (data $132.1 (i32.const 12264) "\02\00\00\00 \00\00\00g\00e\00t\00A\00d\00m\00i\00n\00C\00o\00n\00f\00i\00g\00(\00)")
+ (data $133 (i32.const 12316) "L")
+ (data $133.1 (i32.const 12328) "\02\00\00\00.\00\00\00g\00e\00t\00P\00r\00i\00c\00e\00T\00a\00r\00g\00e\00t\00(\00u\00i\00n\00t\002\005\006\00)")
+ (data $134 (i32.const 12396) "L")
+ (data $134.1 (i32.const 12408) "\02\00\00\00<\00\00\00i\00s\00P\00r\00i\00c\00e\00S\00i\00g\00n\00e\00r\00(\00e\00x\00t\00e\00n\00d\00e\00d\00A\00d\00d\00r\00e\00s\00s\00)")
+ (data $135 (i32.const 12476) "\\")
+ (data $135.1 (i32.const 12488) "\02\00\00\00>\00\00\00r\00e\00g\00i\00s\00t\00e\00r\00O\00r\00a\00c\00l\00e\00(\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $136 (i32.const 12572) "<")
+ (data $136.1 (i32.const 12584) "\02\00\00\00,\00\00\00u\00n\00s\00t\00a\00k\00e\00O\00r\00a\00c\00l\00e\00(\00u\00i\00n\00t\002\005\006\00)")
+ (data $137 (i32.const 12636) "<")
+ (data $137.1 (i32.const 12648) "\02\00\00\00*\00\00\00w\00i\00t\00h\00d\00r\00a\00w\00O\00r\00a\00c\00l\00e\00S\00t\00a\00k\00e\00(\00)")
+ (data $138 (i32.const 12700) "L")
+ (data $138.1 (i32.const 12712) "\02\00\00\008\00\00\00s\00l\00a\00s\00h\00O\00r\00a\00c\00l\00e\00(\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $139 (i32.const 12780) "L")
+ (data $139.1 (i32.const 12792) "\02\00\00\004\00\00\00s\00e\00t\00M\00i\00n\00O\00r\00a\00c\00l\00e\00S\00t\00a\00k\00e\00(\00u\00i\00n\00t\002\005\006\00)")
+ (data $140 (i32.const 12860) "<")
+ (data $140.1 (i32.const 12872) "\02\00\00\00$\00\00\00g\00e\00t\00O\00r\00a\00c\00l\00e\00(\00a\00d\00d\00r\00e\00s\00s\00)")
+ (data $141 (i32.const 12924) "L")
+ (data $141.1 (i32.const 12936) "\02\00\00\006\00\00\00g\00e\00t\00O\00r\00a\00c\00l\00e\00s\00(\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $142 (i32.const 13004) "<")
+ (data $142.1 (i32.const 13016) "\02\00\00\00\"\00\00\00g\00e\00t\00O\00r\00a\00c\00l\00e\00C\00o\00n\00f\00i\00g\00(\00)")
+ (data $143 (i32.const 13068) "\\")
+ (data $143.1 (i32.const 13080) "\02\00\00\00B\00\00\00s\00e\00t\00A\00l\00l\00o\00w\00l\00i\00s\00t\00R\00o\00o\00t\00(\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00)")
+ (data $144 (i32.const 13164) "l")
+ (data $144.1 (i32.const 13176) "\02\00\00\00V\00\00\00s\00e\00t\00A\00l\00l\00o\00w\00l\00i\00s\00t\00M\00e\00m\00b\00e\00r\00s\00(\00u\00i\00n\00t\002\005\006\00,\00a\00d\00d\00r\00e\00s\00s\00[\00]\00,\00b\00o\00o\00l\00)")
+ (data $145 (i32.const 13276) "L")
+ (data $145.1 (i32.const 13288) "\02\00\00\00:\00\00\00j\00o\00i\00n\00M\00a\00r\00k\00e\00t\00(\00u\00i\00n\00t\002\005\006\00,\00u\00i\00n\00t\002\005\006\00[\00]\00)")
+ (data $146 (i32.const 13356) "l")
+ (data $146.1 (i32.const 13368) "\02\00\00\00P\00\00\00i\00s\00A\00l\00l\00o\00w\00l\00i\00s\00t\00e\00d\00(\00u\00i\00n\00t\002\005\006\00,\00a\00d\00d\00r\00e\00s\00s\00,\00u\00i\00n\00t\002\005\006\00[\00]\00)")
+ (data $147 (i32.const 13468) ",")
+ (data $147.1 (i32.const 13480) "\02\00\00\00\14\00\00\00S\00t\00o\00r\00e\00d\00U\002\005\006")
+ (data $148 (i32.const 13516) "l")
+ (data $148.1 (i32.const 13528) "\02\00\00\00N\00\00\00P\00o\00i\00n\00t\00e\00r\00s\00 \00m\00u\00s\00t\00 \00b\00e\00 \00e\00x\00a\00c\00t\00l\00y\00 \003\000\00 \00b\00y\00t\00e\00s\00.\00 \00G\00o\00t\00 ")
+ (data $149 (i32.const 13628) ",")
+ (data $149.1 (i32.const 13640) "\02\00\00\00\16\00\00\00,\00 \00c\00o\00n\00t\00e\00x\00t\00:\00 ")
+ (data $150 (i32.const 13676) "\1c")
+ (data $150.1 (i32.const 13688) "\02\00\00\00\02\00\00\00.")
+ (data $151 (i32.const 13708) ",\00\00\00\03\00\00\00\00\00\00\00\05\00\00\00\14\00\00\00\e04\00\00\00\00\00\00P5\00\00\00\00\00\00\805")
+ (data $152 (i32.const 13756) "|")
+ (data $152.1 (i32.const 13768) "\02\00\00\00`\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00m\00a\00t\00h\00/\00a\00b\00i\00.\00t\00s")
+ (data $153 (i32.const 13884) "\1c")
+ (data $153.1 (i32.const 13896) "%\00\00\00\08\00\00\00\01")
+ (data $154 (i32.const 13916) "<")
+ (data $154.1 (i32.const 13928) "\02\00\00\00(\00\00\00C\00o\00n\00t\00r\00a\00c\00t\00 \00i\00s\00 \00r\00e\00q\00u\00i\00r\00e\00d")
+ (data $155 (i32.const 13980) "\8c")
+ (data $155.1 (i32.const 13992) "\02\00\00\00z\00\00\00A\00t\00t\00e\00m\00p\00t\00 \00t\00o\00 \00r\00e\00a\00d\00 \00b\00e\00y\00o\00n\00d\00 \00b\00u\00f\00f\00e\00r\00 \00l\00e\00n\00g\00t\00h\00.\00 \00R\00e\00q\00u\00e\00s\00t\00e\00d\00 \00u\00p\00 \00t\00o\00 \00o\00f\00f\00s\00e\00t\00 ")
+ (data $156 (i32.const 14124) "\1c")
+ (data $156.1 (i32.const 14136) "\02\00\00\00\04\00\00\00,\00 ")
+ (data $157 (i32.const 14156) "\1c\00\00\00\03\00\00\00\00\00\00\00\05\00\00\00\0c\00\00\00\b06\00\00\00\00\00\00@7")
+ (data $158 (i32.const 14188) "<")
+ (data $158.1 (i32.const 14200) "\02\00\00\00&\00\00\00b\00u\00t\00 \00b\00u\00f\00f\00e\00r\00 \00i\00s\00 \00o\00n\00l\00y\00 ")
+ (data $159 (i32.const 14252) ",")
+ (data $159.1 (i32.const 14264) "\02\00\00\00\0e\00\00\00 \00b\00y\00t\00e\00s\00.")
+ (data $160 (i32.const 14300) "\1c\00\00\00\03\00\00\00\00\00\00\00\05\00\00\00\0c\00\00\00\807\00\00\00\00\00\00\c07")
+ (data $161 (i32.const 14332) "\8c")
+ (data $161.1 (i32.const 14344) "\02\00\00\00t\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00b\00u\00f\00f\00e\00r\00/\00B\00y\00t\00e\00s\00R\00e\00a\00d\00e\00r\00.\00t\00s")
+ (data $162 (i32.const 14476) "\1c")
+ (data $162.1 (i32.const 14488) "\01")
+ (data $163 (i32.const 14508) "L")
+ (data $163.1 (i32.const 14520) "\02\00\00\006\00\00\00C\00a\00n\00n\00o\00t\00 \00m\00o\00d\00i\00f\00y\00 \00a\00d\00d\00r\00e\00s\00s\00 \00d\00a\00t\00a\00.")
+ (data $164 (i32.const 14588) "<")
+ (data $164.1 (i32.const 14600) "\02\00\00\00(\00\00\00C\00h\00a\00i\00n\00 \00i\00d\00 \00i\00s\00 \00r\00e\00q\00u\00i\00r\00e\00d")
+ (data $165 (i32.const 14652) "|")
+ (data $165.1 (i32.const 14664) "\02\00\00\00^\00\00\00U\00n\00e\00x\00p\00e\00c\00t\00e\00d\00 \00\'\00n\00u\00l\00l\00\'\00 \00(\00n\00o\00t\00 \00a\00s\00s\00i\00g\00n\00e\00d\00 \00o\00r\00 \00f\00a\00i\00l\00e\00d\00 \00c\00a\00s\00t\00)")
+ (data $166 (i32.const 14780) "L")
+ (data $166.1 (i32.const 14792) "\02\00\00\00.\00\00\00I\00n\00v\00a\00l\00i\00d\00 \00c\00h\00a\00i\00n\00 \00i\00d\00 \00l\00e\00n\00g\00t\00h")
+ (data $167 (i32.const 14860) "\8c")
+ (data $167.1 (i32.const 14872) "\02\00\00\00n\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00s\00c\00r\00i\00p\00t\00/\00N\00e\00t\00w\00o\00r\00k\00s\00.\00t\00s")
+ (data $168 (i32.const 15004) "<")
+ (data $168.1 (i32.const 15016) "\02\00\00\00 \00\00\00U\00n\00k\00n\00o\00w\00n\00 \00c\00h\00a\00i\00n\00 \00i\00d")
+ (data $169 (i32.const 15068) "|")
+ (data $169.1 (i32.const 15080) "\02\00\00\00^\00\00\00E\00l\00e\00m\00e\00n\00t\00 \00t\00y\00p\00e\00 \00m\00u\00s\00t\00 \00b\00e\00 \00n\00u\00l\00l\00a\00b\00l\00e\00 \00i\00f\00 \00a\00r\00r\00a\00y\00 \00i\00s\00 \00h\00o\00l\00e\00y")
+ (data $170 (i32.const 15196) ",")
+ (data $170.1 (i32.const 15208) "\02\00\00\00\14\00\00\00d\00e\00p\00l\00o\00y\00e\00r\00(\00)")
+ (data $171 (i32.const 15244) "<")
+ (data $171.1 (i32.const 15256) "\02\00\00\00(\00\00\00D\00e\00p\00l\00o\00y\00e\00r\00 \00i\00s\00 \00r\00e\00q\00u\00i\00r\00e\00d")
+ (data $172 (i32.const 15308) "<")
+ (data $172.1 (i32.const 15320) "\02\00\00\00(\00\00\00A\00d\00d\00r\00e\00s\00s\00 \00i\00s\00 \00t\00o\00o\00 \00l\00o\00n\00g\00 ")
+ (data $173 (i32.const 15372) "\1c")
+ (data $173.1 (i32.const 15384) "\02\00\00\00\06\00\00\00 \00>\00 ")
+ (data $174 (i32.const 15404) "\1c")
+ (data $174.1 (i32.const 15416) "\02\00\00\00\0c\00\00\00 \00b\00y\00t\00e\00s")
+ (data $175 (i32.const 15436) ",\00\00\00\03\00\00\00\00\00\00\00\05\00\00\00\14\00\00\00\e0;\00\00\00\00\00\00 <\00\00\00\00\00\00@<")
+ (data $176 (i32.const 15484) "\8c")
+ (data $176.1 (i32.const 15496) "\02\00\00\00t\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00b\00u\00f\00f\00e\00r\00/\00B\00y\00t\00e\00s\00W\00r\00i\00t\00e\00r\00.\00t\00s")
+ (data $177 (i32.const 15628) "L")
+ (data $177.1 (i32.const 15640) "\02\00\00\008\00\00\00B\00y\00t\00e\00s\00W\00r\00i\00t\00e\00r\00:\00 \00o\00f\00f\00s\00e\00t\00 \00o\00v\00e\00r\00f\00l\00o\00w")
+ (data $178 (i32.const 15708) "\8c")
+ (data $178.1 (i32.const 15720) "\02\00\00\00p\00\00\00B\00u\00f\00f\00e\00r\00 \00i\00s\00 \00g\00e\00t\00t\00i\00n\00g\00 \00r\00e\00s\00i\00z\00e\00d\00.\00 \00T\00h\00i\00s\00 \00i\00s\00 \00b\00a\00d\00 \00f\00o\00r\00 \00p\00e\00r\00f\00o\00r\00m\00a\00n\00c\00e\00.\00 ")
+ (data $179 (i32.const 15852) "<")
+ (data $179.1 (i32.const 15864) "\02\00\00\00\1e\00\00\00E\00x\00p\00e\00c\00t\00e\00d\00 \00s\00i\00z\00e\00:\00 ")
+ (data $180 (i32.const 15916) "\1c")
+ (data $180.1 (i32.const 15928) "\02\00\00\00\06\00\00\00 \00-\00 ")
+ (data $181 (i32.const 15948) "\1c\00\00\00\03\00\00\00\00\00\00\00\05\00\00\00\0c\00\00\00\00>\00\00\00\00\00\00@>")
+ (data $182 (i32.const 15980) ",")
+ (data $182.1 (i32.const 15992) "\02\00\00\00\1c\00\00\00C\00u\00r\00r\00e\00n\00t\00 \00s\00i\00z\00e\00:\00 ")
+ (data $183 (i32.const 16028) "<")
+ (data $183.1 (i32.const 16040) "\02\00\00\00$\00\00\00M\00e\00t\00h\00o\00d\00 \00n\00o\00t\00 \00f\00o\00u\00n\00d\00:\00 ")
+ (data $184 (i32.const 16092) "\8c")
+ (data $184.1 (i32.const 16104) "\02\00\00\00p\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00c\00o\00n\00t\00r\00a\00c\00t\00s\00/\00O\00P\00_\00N\00E\00T\00.\00t\00s")
+ (data $185 (i32.const 16236) "L")
+ (data $185.1 (i32.const 16248) "\02\00\00\00:\00\00\00P\00o\00i\00n\00t\00e\00r\00 \00m\00u\00s\00t\00 \00b\00e\00 \003\002\00 \00b\00y\00t\00e\00s\00 \00l\00o\00n\00g")
+ (data $186 (i32.const 16316) "\\")
+ (data $186.1 (i32.const 16328) "\02\00\00\00B\00\00\00K\00e\00y\00 \00n\00o\00t\00 \00f\00o\00u\00n\00d\00 \00i\00n\00 \00m\00a\00p\00 \00(\00u\00i\00n\00t\008\00a\00r\00r\00a\00y\00)")
+ (data $187 (i32.const 16412) "\8c")
+ (data $187.1 (i32.const 16424) "\02\00\00\00z\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00g\00e\00n\00e\00r\00i\00c\00/\00M\00a\00p\00U\00i\00n\00t\008\00A\00r\00r\00a\00y\00.\00t\00s")
+ (data $188 (i32.const 16556) "L")
+ (data $188.1 (i32.const 16568) "\02\00\00\002\00\00\00M\00a\00r\00k\00e\00t\00 \00c\00r\00e\00a\00t\00i\00o\00n\00 \00i\00s\00 \00p\00a\00u\00s\00e\00d")
+ (data $189 (i32.const 16636) "L")
+ (data $189.1 (i32.const 16648) "\02\00\00\00.\00\00\00s\00r\00c\00/\00P\00r\00e\00d\00i\00c\00t\00i\00o\00n\00M\00a\00r\00k\00e\00t\00.\00t\00s")
+ (data $190 (i32.const 16716) "<")
+ (data $190.1 (i32.const 16728) "\02\00\00\00\"\00\00\00B\00l\00o\00c\00k\00 \00i\00s\00 \00r\00e\00q\00u\00i\00r\00e\00d")
+ (data $191 (i32.const 16780) "\\")
+ (data $191.1 (i32.const 16792) "\02\00\00\00B\00\00\00C\00l\00o\00s\00e\00 \00b\00l\00o\00c\00k\00 \00m\00u\00s\00t\00 \00b\00e\00 \00i\00n\00 \00t\00h\00e\00 \00f\00u\00t\00u\00r\00e")
+ (data $192 (i32.const 16876) "|")
+ (data $192.1 (i32.const 16888) "\02\00\00\00f\00\00\00R\00e\00s\00o\00l\00u\00t\00i\00o\00n\00 \00b\00l\00o\00c\00k\00 \00m\00u\00s\00t\00 \00n\00o\00t\00 \00b\00e\00 \00b\00e\00f\00o\00r\00e\00 \00t\00h\00e\00 \00c\00l\00o\00s\00e\00 \00b\00l\00o\00c\00k")
+ (data $193 (i32.const 17004) "L")
+ (data $193.1 (i32.const 17016) "\02\00\00\004\00\00\00Q\00u\00e\00s\00t\00i\00o\00n\00 \00m\00u\00s\00t\00 \00n\00o\00t\00 \00b\00e\00 \00e\00m\00p\00t\00y")
+ (data $194 (i32.const 17084) "L")
+ (data $194.1 (i32.const 17096) "\02\00\00\006\00\00\00C\00r\00e\00a\00t\00o\00r\00 \00f\00e\00e\00 \00e\00x\00c\00e\00e\00d\00s\00 \00m\00a\00x\00i\00m\00u\00m")
+ (data $195 (i32.const 17164) "L")
+ (data $195.1 (i32.const 17176) "\02\00\00\002\00\00\00M\00e\00t\00a\00d\00a\00t\00a\00 \00h\00a\00s\00h\00 \00m\00u\00s\00t\00 \00b\00e\00 \00s\00e\00t")
+ (data $196 (i32.const 17244) "L")
+ (data $196.1 (i32.const 17256) "\02\00\00\00.\00\00\00M\00a\00x\00i\00m\00u\00m\00 \00m\00a\00r\00k\00e\00t\00s\00 \00r\00e\00a\00c\00h\00e\00d")
+ (data $197 (i32.const 17324) "L")
+ (data $197.1 (i32.const 17336) "\02\00\00\006\00\00\00S\00a\00f\00e\00M\00a\00t\00h\00:\00 \00a\00d\00d\00i\00t\00i\00o\00n\00 \00o\00v\00e\00r\00f\00l\00o\00w")
+ (data $198 (i32.const 17404) "|")
+ (data $198.1 (i32.const 17416) "\02\00\00\00l\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00t\00y\00p\00e\00s\00/\00S\00a\00f\00e\00M\00a\00t\00h\00.\00t\00s")
+ (data $199 (i32.const 17532) "L")
+ (data $199.1 (i32.const 17544) "\02\00\00\00.\00\00\00T\00r\00a\00n\00s\00a\00c\00t\00i\00o\00n\00 \00i\00s\00 \00r\00e\00q\00u\00i\00r\00e\00d")
+ (data $200 (i32.const 17612) "l")
+ (data $200.1 (i32.const 17624) "\02\00\00\00V\00\00\00F\00a\00l\00l\00b\00a\00c\00k\00 \00o\00r\00a\00c\00l\00e\00 \00m\00u\00s\00t\00 \00d\00i\00f\00f\00e\00r\00 \00f\00r\00o\00m\00 \00t\00h\00e\00 \00o\00r\00a\00c\00l\00e")
+ (data $201 (i32.const 17724) "L")
+ (data $201.1 (i32.const 17736) "\02\00\00\000\00\00\00O\00r\00a\00c\00l\00e\00 \00i\00s\00 \00n\00o\00t\00 \00r\00e\00g\00i\00s\00t\00e\00r\00e\00d")
+ (data $202 (i32.const 17804) "<")
+ (data $202.1 (i32.const 17816) "\02\00\00\00&\00\00\00O\00r\00a\00c\00l\00e\00 \00i\00s\00 \00u\00n\00s\00t\00a\00k\00i\00n\00g")
+ (data $203 (i32.const 17868) "\\")
+ (data $203.1 (i32.const 17880) "\02\00\00\00B\00\00\00O\00r\00a\00c\00l\00e\00 \00s\00t\00a\00k\00e\00 \00i\00s\00 \00b\00e\00l\00o\00w\00 \00t\00h\00e\00 \00m\00i\00n\00i\00m\00u\00m")
+ (data $204 (i32.const 17964) ",")
+ (data $204.1 (i32.const 17976) "\02\00\00\00\12\00\00\00S\00t\00o\00r\00e\00d\00U\006\004")
+ (data $205 (i32.const 18012) "<")
+ (data $205.1 (i32.const 18024) "\01\00\00\00 ")
+ (data $206 (i32.const 18076) "l")
+ (data $206.1 (i32.const 18088) "\02\00\00\00N\00\00\00I\00n\00d\00e\00x\00 \00o\00u\00t\00 \00o\00f\00 \00b\00o\00u\00n\00d\00s\00 \00f\00o\00r\00 \00S\00t\00o\00r\00e\00d\00U\006\004\00 \00(\000\00-\003\00)")
+ (data $207 (i32.const 18188) "\8c")
+ (data $207.1 (i32.const 18200) "\02\00\00\00r\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00s\00t\00o\00r\00a\00g\00e\00/\00S\00t\00o\00r\00e\00d\00U\006\004\00.\00t\00s")
+ (data $208 (i32.const 18332) "l")
+ (data $208.1 (i32.const 18344) "\02\00\00\00R\00\00\00E\00v\00e\00n\00t\00 \00d\00a\00t\00a\00 \00l\00e\00n\00g\00t\00h\00 \00e\00x\00c\00e\00e\00d\00s\00 \00m\00a\00x\00i\00m\00u\00m\00 \00l\00e\00n\00g\00t\00h\00.")
+ (data $209 (i32.const 18444) "\8c")
+ (data $209.1 (i32.const 18456) "\02\00\00\00n\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00e\00v\00e\00n\00t\00s\00/\00N\00e\00t\00E\00v\00e\00n\00t\00.\00t\00s")
+ (data $210 (i32.const 18588) ",")
+ (data $210.1 (i32.const 18600) "\02\00\00\00\1a\00\00\00M\00a\00r\00k\00e\00t\00C\00r\00e\00a\00t\00e\00d")
+ (data $211 (i32.const 18636) "<")
+ (data $211.1 (i32.const 18648) "\02\00\00\00*\00\00\00B\00u\00f\00f\00e\00r\00 \00i\00s\00 \00n\00o\00t\00 \00d\00e\00f\00i\00n\00e\00d")
+ (data $212 (i32.const 18700) "\1c")
+ (data $212.1 (i32.const 18712) "\01")
+ (data $213 (i32.const 18732) "|")
+ (data $213.1 (i32.const 18744) "\02\00\00\00^\00\00\00O\00r\00a\00c\00l\00e\00 \00c\00o\00m\00m\00i\00t\00t\00e\00e\00s\00 \00n\00e\00e\00d\00 \00b\00e\00t\00w\00e\00e\00n\00 \002\00 \00a\00n\00d\00 \001\000\00 \00m\00e\00m\00b\00e\00r\00s")
+ (data $214 (i32.const 18860) "\8c")
+ (data $214.1 (i32.const 18872) "\02\00\00\00n\00\00\00V\00o\00t\00e\00 \00t\00h\00r\00e\00s\00h\00o\00l\00d\00 \00m\00u\00s\00t\00 \00b\00e\00 \00b\00e\00t\00w\00e\00e\00n\00 \001\00 \00a\00n\00d\00 \00t\00h\00e\00 \00c\00o\00m\00m\00i\00t\00t\00e\00e\00 \00s\00i\00z\00e")
+ (data $215 (i32.const 19004) "L")
+ (data $215.1 (i32.const 19016) "\02\00\00\00:\00\00\00C\00o\00m\00m\00i\00t\00t\00e\00e\00 \00m\00e\00m\00b\00e\00r\00s\00 \00m\00u\00s\00t\00 \00b\00e\00 \00s\00e\00t")
+ (data $216 (i32.const 19084) "\\")
+ (data $216.1 (i32.const 19096) "\02\00\00\00@\00\00\00C\00o\00m\00m\00i\00t\00t\00e\00e\00 \00m\00e\00m\00b\00e\00r\00s\00 \00m\00u\00s\00t\00 \00b\00e\00 \00u\00n\00i\00q\00u\00e")
+ (data $217 (i32.const 19180) "|")
+ (data $217.1 (i32.const 19192) "\02\00\00\00b\00\00\00A\00l\00l\00o\00w\00l\00i\00s\00t\00 \00u\00p\00d\00a\00t\00e\00s\00 \00t\00a\00k\00e\00 \00b\00e\00t\00w\00e\00e\00n\00 \001\00 \00a\00n\00d\00 \005\000\00 \00a\00d\00d\00r\00e\00s\00s\00e\00s")
+ (data $218 (i32.const 19308) "\\")
+ (data $218.1 (i32.const 19320) "\02\00\00\00B\00\00\00A\00l\00l\00o\00w\00l\00i\00s\00t\00e\00d\00 \00a\00d\00d\00r\00e\00s\00s\00e\00s\00 \00m\00u\00s\00t\00 \00b\00e\00 \00s\00e\00t")
+ (data $219 (i32.const 19404) "<")
+ (data $219.1 (i32.const 19416) "\02\00\00\00$\00\00\00A\00l\00l\00o\00w\00l\00i\00s\00t\00M\00e\00m\00b\00e\00r\00S\00e\00t")
+ (data $220 (i32.const 19468) "|")
+ (data $220.1 (i32.const 19480) "\02\00\00\00d\00\00\00C\00a\00t\00e\00g\00o\00r\00i\00c\00a\00l\00 \00m\00a\00r\00k\00e\00t\00s\00 \00n\00e\00e\00d\00 \00b\00e\00t\00w\00e\00e\00n\00 \003\00 \00a\00n\00d\00 \001\006\00 \00o\00u\00t\00c\00o\00m\00e\00s")
+ (data $221 (i32.const 19596) "\\")
+ (data $221.1 (i32.const 19608) "\02\00\00\00@\00\00\00O\00u\00t\00c\00o\00m\00e\00 \00l\00a\00b\00e\00l\00s\00 \00m\00u\00s\00t\00 \00n\00o\00t\00 \00b\00e\00 \00e\00m\00p\00t\00y")
+ (data $222 (i32.const 19692) "l")
+ (data $222.1 (i32.const 19704) "\02\00\00\00R\00\00\00U\00p\00p\00e\00r\00 \00b\00o\00u\00n\00d\00 \00m\00u\00s\00t\00 \00b\00e\00 \00a\00b\00o\00v\00e\00 \00t\00h\00e\00 \00l\00o\00w\00e\00r\00 \00b\00o\00u\00n\00d")
+ (data $223 (i32.const 19804) "<")
+ (data $223.1 (i32.const 19816) "\02\00\00\00\"\00\00\00B\00e\00t\00t\00i\00n\00g\00 \00i\00s\00 \00p\00a\00u\00s\00e\00d")
+ (data $224 (i32.const 19868) "l")
+ (data $224.1 (i32.const 19880) "\02\00\00\00T\00\00\00I\00n\00v\00a\00l\00i\00d\00 \00o\00u\00t\00c\00o\00m\00e\00:\00 \00m\00u\00s\00t\00 \00b\00e\00 \001\00 \00(\00Y\00E\00S\00)\00 \00o\00r\00 \002\00 \00(\00N\00O\00)")
+ (data $225 (i32.const 19980) "\\")
+ (data $225.1 (i32.const 19992) "\02\00\00\00>\00\00\00I\00n\00v\00a\00l\00i\00d\00 \00o\00u\00t\00c\00o\00m\00e\00 \00f\00o\00r\00 \00t\00h\00i\00s\00 \00m\00a\00r\00k\00e\00t")
+ (data $226 (i32.const 20076) "<")
+ (data $226.1 (i32.const 20088) "\02\00\00\00$\00\00\00M\00a\00r\00k\00e\00t\00 \00i\00s\00 \00n\00o\00t\00 \00o\00p\00e\00n")
+ (data $227 (i32.const 20140) "\\")
+ (data $227.1 (i32.const 20152) "\02\00\00\00>\00\00\00M\00a\00r\00k\00e\00t\00 \00b\00e\00t\00t\00i\00n\00g\00 \00p\00e\00r\00i\00o\00d\00 \00h\00a\00s\00 \00e\00n\00d\00e\00d")
+ (data $228 (i32.const 20236) "\\")
+ (data $228.1 (i32.const 20248) "\02\00\00\00@\00\00\00A\00m\00o\00u\00n\00t\00 \00m\00u\00s\00t\00 \00b\00e\00 \00g\00r\00e\00a\00t\00e\00r\00 \00t\00h\00a\00n\00 \00z\00e\00r\00o")
+ (data $229 (i32.const 20332) "<")
+ (data $229.1 (i32.const 20344) "\02\00\00\00\"\00\00\00B\00e\00t\00 \00b\00e\00l\00o\00w\00 \00m\00i\00n\00i\00m\00u\00m")
+ (data $230 (i32.const 20396) "\\")
+ (data $230.1 (i32.const 20408) "\02\00\00\00J\00\00\00B\00e\00t\00t\00o\00r\00 \00i\00s\00 \00n\00o\00t\00 \00o\00n\00 \00t\00h\00e\00 \00m\00a\00r\00k\00e\00t\00 \00a\00l\00l\00o\00w\00l\00i\00s\00t")
+ (data $231 (i32.const 20492) "L")
+ (data $231.1 (i32.const 20504) "\02\00\00\008\00\00\00C\00o\00n\00t\00r\00a\00c\00t\00 \00a\00d\00d\00r\00e\00s\00s\00 \00i\00s\00 \00r\00e\00q\00u\00i\00r\00e\00d")
+ (data $232 (i32.const 20572) "\\")
+ (data $232.1 (i32.const 20584) "\02\00\00\00@\00\00\00D\00e\00s\00t\00i\00n\00a\00t\00i\00o\00n\00 \00c\00o\00n\00t\00r\00a\00c\00t\00 \00i\00s\00 \00r\00e\00q\00u\00i\00r\00e\00d")
+ (data $233 (i32.const 20668) ",")
+ (data $233.1 (i32.const 20680) "\02\00\00\00\12\00\00\00B\00e\00t\00P\00l\00a\00c\00e\00d")
+ (data $234 (i32.const 20716) "|")
+ (data $234.1 (i32.const 20728) "\02\00\00\00^\00\00\00S\00c\00a\00l\00a\00r\00 \00m\00a\00r\00k\00e\00t\00s\00 \00r\00e\00s\00o\00l\00v\00e\00 \00w\00i\00t\00h\00 \00r\00e\00s\00o\00l\00v\00e\00S\00c\00a\00l\00a\00r\00M\00a\00r\00k\00e\00t")
+ (data $235 (i32.const 20844) "l")
+ (data $235.1 (i32.const 20856) "\02\00\00\00T\00\00\00M\00a\00r\00k\00e\00t\00 \00i\00s\00 \00r\00e\00s\00o\00l\00v\00e\00d\00 \00b\00y\00 \00i\00t\00s\00 \00o\00r\00a\00c\00l\00e\00 \00c\00o\00m\00m\00i\00t\00t\00e\00e")
+ (data $236 (i32.const 20956) "\\")
+ (data $236.1 (i32.const 20968) "\02\00\00\00L\00\00\00O\00n\00l\00y\00 \00t\00h\00e\00 \00d\00e\00s\00i\00g\00n\00a\00t\00e\00d\00 \00o\00r\00a\00c\00l\00e\00 \00c\00a\00n\00 \00r\00e\00s\00o\00l\00v\00e")
+ (data $237 (i32.const 21052) "L")
+ (data $237.1 (i32.const 21064) "\02\00\00\00:\00\00\00M\00a\00r\00k\00e\00t\00 \00c\00a\00n\00n\00o\00t\00 \00b\00e\00 \00r\00e\00s\00o\00l\00v\00e\00d\00 \00y\00e\00t")
+ (data $238 (i32.const 21132) "<")
+ (data $238.1 (i32.const 21144) "\02\00\00\00\1e\00\00\00O\00u\00t\00c\00o\00m\00e\00P\00r\00o\00p\00o\00s\00e\00d")
+ (data $239 (i32.const 21196) "L")
+ (data $239.1 (i32.const 21208) "\02\00\00\00:\00\00\00M\00a\00r\00k\00e\00t\00 \00i\00s\00 \00n\00o\00t\00 \00a\00 \00s\00c\00a\00l\00a\00r\00 \00m\00a\00r\00k\00e\00t")
+ (data $240 (i32.const 21276) "l")
+ (data $240.1 (i32.const 21288) "\02\00\00\00R\00\00\00O\00n\00l\00y\00 \00t\00h\00e\00 \00c\00r\00e\00a\00t\00o\00r\00 \00c\00a\00n\00 \00s\00e\00t\00 \00t\00h\00e\00 \00p\00r\00i\00c\00e\00 \00t\00a\00r\00g\00e\00t")
+ (data $241 (i32.const 21388) "|")
+ (data $241.1 (i32.const 21400) "\02\00\00\00b\00\00\00P\00r\00i\00c\00e\00 \00t\00a\00r\00g\00e\00t\00s\00 \00d\00o\00 \00n\00o\00t\00 \00a\00p\00p\00l\00y\00 \00t\00o\00 \00c\00a\00t\00e\00g\00o\00r\00i\00c\00a\00l\00 \00m\00a\00r\00k\00e\00t\00s")
+ (data $242 (i32.const 21516) "\\")
+ (data $242.1 (i32.const 21528) "\02\00\00\00L\00\00\00P\00r\00i\00c\00e\00 \00t\00a\00r\00g\00e\00t\00 \00m\00u\00s\00t\00 \00b\00e\00 \00g\00r\00e\00a\00t\00e\00r\00 \00t\00h\00a\00n\00 \00z\00e\00r\00o")
+ (data $243 (i32.const 21612) "L")
+ (data $243.1 (i32.const 21624) "\02\00\00\000\00\00\00P\00r\00i\00c\00e\00 \00t\00a\00r\00g\00e\00t\00 \00a\00l\00r\00e\00a\00d\00y\00 \00s\00e\00t")
+ (data $244 (i32.const 21692) "l")
+ (data $244.1 (i32.const 21704) "\02\00\00\00P\00\00\00P\00r\00i\00c\00e\00 \00t\00a\00r\00g\00e\00t\00 \00m\00u\00s\00t\00 \00b\00e\00 \00s\00e\00t\00 \00b\00e\00f\00o\00r\00e\00 \00a\00n\00y\00 \00b\00e\00t\00s")
+ (data $245 (i32.const 21804) ",")
+ (data $245.1 (i32.const 21816) "\02\00\00\00\1c\00\00\00P\00r\00i\00c\00e\00T\00a\00r\00g\00e\00t\00S\00e\00t")
+ (data $246 (i32.const 21852) "L")
+ (data $246.1 (i32.const 21864) "\02\00\00\004\00\00\00M\00a\00r\00k\00e\00t\00 \00h\00a\00s\00 \00n\00o\00 \00p\00r\00i\00c\00e\00 \00t\00a\00r\00g\00e\00t")
+ (data $247 (i32.const 21932) "\8c")
+ (data $247.1 (i32.const 21944) "\02\00\00\00v\00\00\00P\00r\00i\00c\00e\00 \00m\00u\00s\00t\00 \00b\00e\00 \00o\00b\00s\00e\00r\00v\00e\00d\00 \00b\00e\00t\00w\00e\00e\00n\00 \00t\00h\00e\00 \00r\00e\00s\00o\00l\00u\00t\00i\00o\00n\00 \00b\00l\00o\00c\00k\00 \00a\00n\00d\00 \00n\00o\00w")
+ (data $248 (i32.const 22076) "\\")
+ (data $248.1 (i32.const 22088) "\02\00\00\00L\00\00\00S\00i\00g\00n\00e\00r\00 \00i\00s\00 \00n\00o\00t\00 \00a\00n\00 \00a\00p\00p\00r\00o\00v\00e\00d\00 \00p\00r\00i\00c\00e\00 \00s\00i\00g\00n\00e\00r")
+ (data $249 (i32.const 22172) "L")
+ (data $249.1 (i32.const 22184) "\02\00\00\002\00\00\00I\00n\00v\00a\00l\00i\00d\00 \00s\00i\00g\00n\00a\00t\00u\00r\00e\00 \00l\00e\00n\00g\00t\00h\00.")
+ (data $250 (i32.const 22252) "<")
+ (data $250.1 (i32.const 22264) "\02\00\00\00(\00\00\00I\00n\00v\00a\00l\00i\00d\00 \00h\00a\00s\00h\00 \00l\00e\00n\00g\00t\00h\00.")
+ (data $251 (i32.const 22316) "\0c\01")
+ (data $251.1 (i32.const 22328) "\02\00\00\00\fc\00\00\00E\00C\00D\00S\00A\00 \00v\00e\00r\00i\00f\00i\00c\00a\00t\00i\00o\00n\00 \00i\00s\00 \00n\00o\00t\00 \00s\00u\00p\00p\00o\00r\00t\00e\00d\00 \00b\00y\00 \00v\00e\00r\00i\00f\00y\00S\00i\00g\00n\00a\00t\00u\00r\00e\00(\00)\00.\00 \00U\00s\00e\00 \00v\00e\00r\00i\00f\00y\00E\00C\00D\00S\00A\00S\00i\00g\00n\00a\00t\00u\00r\00e\00(\00)\00 \00o\00r\00 \00v\00e\00r\00i\00f\00y\00B\00i\00t\00c\00o\00i\00n\00E\00C\00D\00S\00A\00S\00i\00g\00n\00a\00t\00u\00r\00e\00(\00)\00 \00i\00n\00s\00t\00e\00a\00d\00.")
+ (data $252 (i32.const 22588) "L")
+ (data $252.1 (i32.const 22600) "\02\00\00\00:\00\00\00I\00n\00v\00a\00l\00i\00d\00 \00M\00L\00-\00D\00S\00A\00 \00s\00e\00c\00u\00r\00i\00t\00y\00 \00l\00e\00v\00e\00l")
+ (data $253 (i32.const 22668) "\9c")
+ (data $253.1 (i32.const 22680) "\02\00\00\00\86\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00e\00n\00v\00/\00c\00o\00n\00s\00e\00n\00s\00u\00s\00/\00M\00L\00D\00S\00A\00M\00e\00t\00a\00d\00a\00t\00a\00.\00t\00s")
+ (data $254 (i32.const 22828) "L")
+ (data $254.1 (i32.const 22840) "\02\00\00\006\00\00\00M\00L\00-\00D\00S\00A\00 \00p\00u\00b\00l\00i\00c\00 \00k\00e\00y\00 \00n\00o\00t\00 \00f\00o\00u\00n\00d")
+ (data $255 (i32.const 22908) "|")
+ (data $255.1 (i32.const 22920) "\02\00\00\00d\00\00\00~\00l\00i\00b\00/\00@\00b\00t\00c\00-\00v\00i\00s\00i\00o\00n\00/\00b\00t\00c\00-\00r\00u\00n\00t\00i\00m\00e\00/\00r\00u\00n\00t\00i\00m\00e\00/\00e\00n\00v\00/\00g\00l\00o\00b\00a\00l\00.\00t\00s")
+ (data $256 (i32.const 23036) "\\")
+ (data $256.1 (i32.const 23048) "\02\00\00\00B\00\00\00I\00n\00v\00a\00l\00i\00d\00 \00M\00L\00-\00D\00S\00A\00 \00p\00u\00b\00l\00i\00c\00 \00k\00e\00y\00 \00l\00e\00n\00g\00t\00h\00.")
+ (data $257 (i32.const 23132) "\\")
+ (data $257.1 (i32.const 23144) "\02\00\00\00@\00\00\00I\00n\00v\00a\00l\00i\00d\00 \00M\00L\00-\00D\00S\00A\00 \00s\00i\00g\00n\00a\00t\00u\00r\00e\00 \00l\00e\00n\00g\00t\00h\00.")
+ (data $258 (i32.const 23228) "\bc")
+ (data $258.1 (i32.const 23240) "\02\00\00\00\aa\00\00\00I\00n\00v\00a\00l\00i\00d\00 \00s\00i\00g\00n\00a\00t\00u\00r\00e\00 \00t\00y\00p\00e\00 \00o\00r\00 \00s\00i\00g\00n\00a\00t\00u\00r\00e\00s\00 \00s\00c\00h\00e\00m\00a\00 \00n\00o\00t\00 \00a\00l\00l\00o\00w\00e\00d\00 \00u\00n\00d\00e\00r\00 \00c\00u\00r\00r\00e\00n\00t\00 \00c\00o\00n\00s\00e\00n\00s\00u\00s\00 \00r\00u\00l\00e\00s")
+ (data $259 (i32.const 23420) "L")
+ (data $259.1 (i32.const 23432) "\02\00\00\00.\00\00\00I\00n\00v\00a\00l\00i\00d\00 \00p\00r\00i\00c\00e\00 \00s\00i\00g\00n\00a\00t\00u\00r\00e")
+ (data $260 (i32.const 23500) ",")
+ (data $260.1 (i32.const 23512) "\02\00\00\00\1a\00\00\00P\00r\00i\00c\00e\00A\00t\00t\00e\00s\00t\00e\00d")
+ (data $261 (i32.const 23548) "L")
+ (data $261.1 (i32.const 23560) "\02\00\00\00<\00\00\00M\00a\00r\00k\00e\00t\00 \00h\00a\00s\00 \00n\00o\00 \00o\00r\00a\00c\00l\00e\00 \00c\00o\00m\00m\00i\00t\00t\00e\00e")
+ (data $262 (i32.const 23628) "\\")
+ (data $262.1 (i32.const 23640) "\02\00\00\00>\00\00\00O\00n\00l\00y\00 \00c\00o\00m\00m\00i\00t\00t\00e\00e\00 \00m\00e\00m\00b\00e\00r\00s\00 \00c\00a\00n\00 \00v\00o\00t\00e")
+ (data $263 (i32.const 23724) ",")
+ (data $263.1 (i32.const 23736) "\02\00\00\00\1a\00\00\00A\00l\00r\00e\00a\00d\00y\00 \00v\00o\00t\00e\00d")
+ (data $264 (i32.const 23772) ",")
+ (data $264.1 (i32.const 23784) "\02\00\00\00\16\00\00\00O\00r\00a\00c\00l\00e\00V\00o\00t\00e\00d")
+ (data $265 (i32.const 23820) "L")
+ (data $265.1 (i32.const 23832) "\02\00\00\00<\00\00\00N\00o\00 \00p\00r\00o\00p\00o\00s\00e\00d\00 \00o\00u\00t\00c\00o\00m\00e\00 \00t\00o\00 \00d\00i\00s\00p\00u\00t\00e")
+ (data $266 (i32.const 23900) "L")
+ (data $266.1 (i32.const 23912) "\02\00\00\002\00\00\00D\00i\00s\00p\00u\00t\00e\00 \00w\00i\00n\00d\00o\00w\00 \00h\00a\00s\00 \00c\00l\00o\00s\00e\00d")
+ (data $267 (i32.const 23980) "l")
+ (data $267.1 (i32.const 23992) "\02\00\00\00P\00\00\00D\00i\00s\00p\00u\00t\00e\00 \00m\00u\00s\00t\00 \00p\00r\00o\00p\00o\00s\00e\00 \00a\00 \00d\00i\00f\00f\00e\00r\00e\00n\00t\00 \00o\00u\00t\00c\00o\00m\00e")
+ (data $268 (i32.const 24092) "<")
+ (data $268.1 (i32.const 24104) "\02\00\00\00\1e\00\00\00O\00u\00t\00c\00o\00m\00e\00D\00i\00s\00p\00u\00t\00e\00d")
+ (data $269 (i32.const 24156) "\\")
+ (data $269.1 (i32.const 24168) "\02\00\00\00D\00\00\00N\00o\00 \00u\00n\00d\00i\00s\00p\00u\00t\00e\00d\00 \00p\00r\00o\00p\00o\00s\00a\00l\00 \00t\00o\00 \00f\00i\00n\00a\00l\00i\00z\00e")
+ (data $270 (i32.const 24252) "L")
+ (data $270.1 (i32.const 24264) "\02\00\00\008\00\00\00D\00i\00s\00p\00u\00t\00e\00 \00w\00i\00n\00d\00o\00w\00 \00i\00s\00 \00s\00t\00i\00l\00l\00 \00o\00p\00e\00n")
+ (data $271 (i32.const 24332) ",")
+ (data $271.1 (i32.const 24344) "\02\00\00\00\1c\00\00\00M\00a\00r\00k\00e\00t\00R\00e\00s\00o\00l\00v\00e\00d")
+ (data $272 (i32.const 24380) "\\")
+ (data $272.1 (i32.const 24392) "\02\00\00\00>\00\00\00S\00a\00f\00e\00M\00a\00t\00h\00:\00 \00s\00u\00b\00t\00r\00a\00c\00t\00i\00o\00n\00 \00u\00n\00d\00e\00r\00f\00l\00o\00w")
+ (data $273 (i32.const 24476) "<")
+ (data $273.1 (i32.const 24488) "\02\00\00\00 \00\00\00D\00i\00v\00i\00s\00i\00o\00n\00 \00b\00y\00 \00z\00e\00r\00o")
+ (data $274 (i32.const 24540) "\\")
+ (data $274.1 (i32.const 24552) "\02\00\00\00B\00\00\00S\00a\00f\00e\00M\00a\00t\00h\00:\00 \00m\00u\00l\00t\00i\00p\00l\00i\00c\00a\00t\00i\00o\00n\00 \00o\00v\00e\00r\00f\00l\00o\00w")
+ (data $275 (i32.const 24636) "L")
+ (data $275.1 (i32.const 24648) "\02\00\00\004\00\00\00S\00a\00f\00e\00M\00a\00t\00h\00:\00 \00d\00i\00v\00i\00s\00i\00o\00n\00 \00b\00y\00 \00z\00e\00r\00o")
+ (data $276 (i32.const 24716) ",")
+ (data $276.1 (i32.const 24728) "\02\00\00\00\16\00\00\00F\00e\00e\00s\00A\00c\00c\00r\00u\00e\00d")
+ (data $277 (i32.const 24764) "<")
+ (data $277.1 (i32.const 24776) "\02\00\00\00,\00\00\00M\00a\00r\00k\00e\00t\00 \00i\00s\00 \00n\00o\00t\00 \00d\00i\00s\00p\00u\00t\00e\00d")
+ (data $278 (i32.const 24828) "l")
+ (data $278.1 (i32.const 24840) "\02\00\00\00P\00\00\00O\00n\00l\00y\00 \00t\00h\00e\00 \00a\00r\00b\00i\00t\00r\00a\00t\00o\00r\00 \00c\00a\00n\00 \00r\00u\00l\00e\00 \00o\00n\00 \00d\00i\00s\00p\00u\00t\00e\00s")
+ (data $279 (i32.const 24940) ",")
+ (data $279.1 (i32.const 24952) "\02\00\00\00\1a\00\00\00O\00r\00a\00c\00l\00e\00S\00l\00a\00s\00h\00e\00d")
+ (data $280 (i32.const 24988) ",")
+ (data $280.1 (i32.const 25000) "\02\00\00\00\18\00\00\00D\00i\00s\00p\00u\00t\00e\00R\00u\00l\00e\00d")
+ (data $281 (i32.const 25036) "\\")
+ (data $281.1 (i32.const 25048) "\02\00\00\00>\00\00\00S\00c\00a\00l\00a\00r\00 \00p\00o\00s\00i\00t\00i\00o\00n\00s\00 \00c\00a\00n\00n\00o\00t\00 \00b\00e\00 \00s\00o\00l\00d")
+ (data $282 (i32.const 25132) "\\")
+ (data $282.1 (i32.const 25144) "\02\00\00\00@\00\00\00S\00h\00a\00r\00e\00s\00 \00m\00u\00s\00t\00 \00b\00e\00 \00g\00r\00e\00a\00t\00e\00r\00 \00t\00h\00a\00n\00 \00z\00e\00r\00o")
+ (data $283 (i32.const 25228) "L")
+ (data $283.1 (i32.const 25240) "\02\00\00\002\00\00\00N\00o\00t\00 \00e\00n\00o\00u\00g\00h\00 \00s\00h\00a\00r\00e\00s\00 \00t\00o\00 \00s\00e\00l\00l")
+ (data $284 (i32.const 25308) "<")
+ (data $284.1 (i32.const 25320) "\02\00\00\00*\00\00\00S\00a\00l\00e\00 \00a\00m\00o\00u\00n\00t\00 \00t\00o\00o\00 \00s\00m\00a\00l\00l")
+ (data $285 (i32.const 25372) "L")
+ (data $285.1 (i32.const 25384) "\02\00\00\00<\00\00\00S\00l\00i\00p\00p\00a\00g\00e\00:\00 \00o\00u\00t\00p\00u\00t\00 \00b\00e\00l\00o\00w\00 \00m\00i\00n\00i\00m\00u\00m")
+ (data $286 (i32.const 25452) ",")
+ (data $286.1 (i32.const 25464) "\02\00\00\00\18\00\00\00P\00o\00s\00i\00t\00i\00o\00n\00S\00o\00l\00d")
+ (data $287 (i32.const 25500) "<")
+ (data $287.1 (i32.const 25512) "\02\00\00\00*\00\00\00M\00a\00r\00k\00e\00t\00 \00d\00o\00e\00s\00 \00n\00o\00t\00 \00e\00x\00i\00s\00t")
+ (data $288 (i32.const 25564) "<")
+ (data $288.1 (i32.const 25576) "\02\00\00\00*\00\00\00R\00e\00c\00i\00p\00i\00e\00n\00t\00 \00m\00u\00s\00t\00 \00b\00e\00 \00s\00e\00t")
+ (data $289 (i32.const 25628) "l")
+ (data $289.1 (i32.const 25640) "\02\00\00\00P\00\00\00C\00a\00n\00n\00o\00t\00 \00t\00r\00a\00n\00s\00f\00e\00r\00 \00a\00 \00p\00o\00s\00i\00t\00i\00o\00n\00 \00t\00o\00 \00i\00t\00s\00 \00h\00o\00l\00d\00e\00r")
+ (data $290 (i32.const 25740) "l")
+ (data $290.1 (i32.const 25752) "\02\00\00\00P\00\00\00R\00e\00c\00i\00p\00i\00e\00n\00t\00 \00i\00s\00 \00n\00o\00t\00 \00o\00n\00 \00t\00h\00e\00 \00m\00a\00r\00k\00e\00t\00 \00a\00l\00l\00o\00w\00l\00i\00s\00t")
+ (data $291 (i32.const 25852) "\\")
+ (data $291.1 (i32.const 25864) "\02\00\00\00B\00\00\00P\00o\00s\00i\00t\00i\00o\00n\00 \00h\00a\00s\00 \00a\00l\00r\00e\00a\00d\00y\00 \00b\00e\00e\00n\00 \00c\00l\00a\00i\00m\00e\00d")
+ (data $292 (i32.const 25948) "l")
+ (data $292.1 (i32.const 25960) "\02\00\00\00X\00\00\00R\00e\00c\00i\00p\00i\00e\00n\00t\00 \00h\00a\00s\00 \00a\00l\00r\00e\00a\00d\00y\00 \00c\00l\00a\00i\00m\00e\00d\00 \00o\00n\00 \00t\00h\00i\00s\00 \00m\00a\00r\00k\00e\00t")
+ (data $293 (i32.const 26060) "L")
+ (data $293.1 (i32.const 26072) "\02\00\00\00:\00\00\00N\00o\00t\00 \00e\00n\00o\00u\00g\00h\00 \00s\00h\00a\00r\00e\00s\00 \00t\00o\00 \00t\00r\00a\00n\00s\00f\00e\00r")
+ (data $294 (i32.const 26140) "<")
+ (data $294.1 (i32.const 26152) "\02\00\00\00&\00\00\00P\00o\00s\00i\00t\00i\00o\00n\00T\00r\00a\00n\00s\00f\00e\00r\00r\00e\00d")
+ (data $295 (i32.const 26204) "l")
+ (data $295.1 (i32.const 26216) "\02\00\00\00V\00\00\00C\00a\00l\00l\00e\00r\00 \00i\00s\00 \00n\00o\00t\00 \00a\00n\00 \00a\00p\00p\00r\00o\00v\00e\00d\00 \00p\00o\00s\00i\00t\00i\00o\00n\00 \00o\00p\00e\00r\00a\00t\00o\00r")
+ (data $296 (i32.const 26316) "<")
+ (data $296.1 (i32.const 26328) "\02\00\00\00 \00\00\00I\00n\00v\00a\00l\00i\00d\00 \00o\00p\00e\00r\00a\00t\00o\00r")
+ (data $297 (i32.const 26380) "<")
+ (data $297.1 (i32.const 26392) "\02\00\00\00&\00\00\00P\00o\00s\00i\00t\00i\00o\00n\00O\00p\00e\00r\00a\00t\00o\00r\00S\00e\00t")
+ (data $298 (i32.const 26444) "L")
+ (data $298.1 (i32.const 26456) "\02\00\00\004\00\00\00M\00a\00r\00k\00e\00t\00 \00i\00s\00 \00n\00o\00t\00 \00r\00e\00s\00o\00l\00v\00e\00d\00 \00y\00e\00t")
+ (data $299 (i32.const 26524) "<")
+ (data $299.1 (i32.const 26536) "\02\00\00\00\1e\00\00\00A\00l\00r\00e\00a\00d\00y\00 \00c\00l\00a\00i\00m\00e\00d")
+ (data $300 (i32.const 26588) "<")
+ (data $300.1 (i32.const 26600) "\02\00\00\00(\00\00\00N\00o\00 \00w\00i\00n\00n\00i\00n\00g\00 \00b\00e\00t\00 \00f\00o\00u\00n\00d")
+ (data $301 (i32.const 26652) "<")
+ (data $301.1 (i32.const 26664) "\02\00\00\00$\00\00\00N\00o\00 \00s\00t\00a\00k\00e\00 \00t\00o\00 \00r\00e\00f\00u\00n\00d")
+ (data $302 (i32.const 26716) "<")
+ (data $302.1 (i32.const 26728) "\02\00\00\00\1e\00\00\00W\00i\00n\00n\00i\00n\00g\00s\00C\00l\00a\00i\00m\00e\00d")
+ (data $303 (i32.const 26780) "\8c")
+ (data $303.1 (i32.const 26792) "\02\00\00\00n\00\00\00O\00n\00l\00y\00 \00t\00h\00e\00 \00o\00r\00a\00c\00l\00e\00 \00c\00a\00n\00 \00c\00a\00n\00c\00e\00l\00 \00b\00e\00f\00o\00r\00e\00 \00t\00h\00e\00 \00g\00r\00a\00c\00e\00 \00p\00e\00r\00i\00o\00d\00 \00e\00n\00d\00s")
+ (data $304 (i32.const 26924) "<")
+ (data $304.1 (i32.const 26936) "\02\00\00\00\1e\00\00\00M\00a\00r\00k\00e\00t\00C\00a\00n\00c\00e\00l\00l\00e\00d")
+ (data $305 (i32.const 26988) "L")
+ (data $305.1 (i32.const 27000) "\02\00\00\00.\00\00\00M\00a\00r\00k\00e\00t\00 \00i\00s\00 \00n\00o\00t\00 \00c\00a\00n\00c\00e\00l\00l\00e\00d")
+ (data $306 (i32.const 27068) ",")
+ (data $306.1 (i32.const 27080) "\02\00\00\00\1a\00\00\00R\00e\00f\00u\00n\00d\00C\00l\00a\00i\00m\00e\00d")
+ (data $307 (i32.const 27116) "l")
+ (data $307.1 (i32.const 27128) "\02\00\00\00N\00\00\00O\00n\00l\00y\00 \00t\00h\00e\00 \00o\00w\00n\00e\00r\00 \00c\00a\00n\00 \00s\00e\00t\00 \00t\00h\00e\00 \00g\00r\00a\00c\00e\00 \00p\00e\00r\00i\00o\00d")
+ (data $308 (i32.const 27228) "\\")
+ (data $308.1 (i32.const 27240) "\02\00\00\00L\00\00\00G\00r\00a\00c\00e\00 \00p\00e\00r\00i\00o\00d\00 \00m\00u\00s\00t\00 \00b\00e\00 \00g\00r\00e\00a\00t\00e\00r\00 \00t\00h\00a\00n\00 \00z\00e\00r\00o")
+ (data $309 (i32.const 27324) "l")
+ (data $309.1 (i32.const 27336) "\02\00\00\00Z\00\00\00O\00n\00l\00y\00 \00t\00h\00e\00 \00o\00w\00n\00e\00r\00 \00c\00a\00n\00 \00s\00e\00t\00 \00t\00h\00e\00 \00r\00e\00s\00o\00l\00u\00t\00i\00o\00n\00 \00t\00i\00m\00e\00o\00u\00t")
+ (data $310 (i32.const 27436) "l")
+ (data $310.1 (i32.const 27448) "\02\00\00\00X\00\00\00R\00e\00s\00o\00l\00u\00t\00i\00o\00n\00 \00t\00i\00m\00e\00o\00u\00t\00 \00m\00u\00s\00t\00 \00b\00e\00 \00g\00r\00e\00a\00t\00e\00r\00 \00t\00h\00a\00n\00 \00z\00e\00r\00o")
+ (data $311 (i32.const 27548) "l")
+ (data $311.1 (i32.const 27560) "\02\00\00\00N\00\00\00O\00n\00l\00y\00 \00t\00h\00e\00 \00o\00w\00n\00e\00r\00 \00c\00a\00n\00 \00s\00e\00t\00 \00t\00h\00e\00 \00p\00r\00o\00t\00o\00c\00o\00l\00 \00f\00e\00e")
+ (data $312 (i32.const 27660) "L")
+ (data $312.1 (i32.const 27672) "\02\00\00\008\00\00\00P\00r\00o\00t\00o\00c\00o\00l\00 \00f\00e\00e\00 \00e\00x\00c\00e\00e\00d\00s\00 \00m\00a\00x\00i\00m\00u\00m")
+ (data $313 (i32.const 27740) "<")
+ (data $313.1 (i32.const 27752) "\02\00\00\00$\00\00\00P\00r\00o\00t\00o\00c\00o\00l\00F\00e\00e\00U\00p\00d\00a\00t\00e\00d")
+ (data $314 (i32.const 27804) "<")
+ (data $314.1 (i32.const 27816) "\02\00\00\00&\00\00\00N\00o\00 \00f\00e\00e\00s\00 \00t\00o\00 \00w\00i\00t\00h\00d\00r\00a\00w")
+ (data $315 (i32.const 27868) ",")
+ (data $315.1 (i32.const 27880) "\02\00\00\00\1a\00\00\00F\00e\00e\00s\00W\00i\00t\00h\00d\00r\00a\00w\00n")
+ (data $316 (i32.const 27916) "l")
+ (data $316.1 (i32.const 27928) "\02\00\00\00R\00\00\00O\00n\00l\00y\00 \00t\00h\00e\00 \00o\00w\00n\00e\00r\00 \00c\00a\00n\00 \00s\00e\00t\00 \00t\00h\00e\00 \00d\00i\00s\00p\00u\00t\00e\00 \00w\00i\00n\00d\00o\00w")
+ (data $317 (i32.const 28028) "l")
+ (data $317.1 (i32.const 28040) "\02\00\00\00P\00\00\00D\00i\00s\00p\00u\00t\00e\00 \00w\00i\00n\00d\00o\00w\00 \00m\00u\00s\00t\00 \00b\00e\00 \00g\00r\00e\00a\00t\00e\00r\00 \00t\00h\00a\00n\00 \00z\00e\00r\00o")
+ (data $318 (i32.const 28140) "l")
+ (data $318.1 (i32.const 28152) "\02\00\00\00N\00\00\00O\00n\00l\00y\00 \00t\00h\00e\00 \00o\00w\00n\00e\00r\00 \00c\00a\00n\00 \00s\00e\00t\00 \00t\00h\00e\00 \00d\00i\00s\00p\00u\00t\00e\00 \00b\00o\00n\00d")
+ (data $319 (i32.const 28252) "\\")
+ (data $319.1 (i32.const 28264) "\02\00\00\00L\00\00\00D\00i\00s\00p\00u\00t\00e\00 \00b\00o\00n\00d\00 \00m\00u\00s\00t\00 \00b\00e\00 \00g\00r\00e\00a\00t\00e\00r\00 \00t\00h\00a\00n\00 \00z\00e\00r\00o")
+ (data $320 (i32.const 28348) "\\")
+ (data $320.1 (i32.const 28360) "\02\00\00\00J\00\00\00O\00n\00l\00y\00 \00t\00h\00e\00 \00o\00w\00n\00e\00r\00 \00c\00a\00n\00 \00s\00e\00t\00 \00t\00h\00e\00 \00a\00r\00b\00i\00t\00r\00a\00t\00o\00r")
+ (data $321 (i32.const 28444) "\\")
+ (data $321.1 (i32.const 28456) "\02\00\00\00J\00\00\00O\00n\00l\00y\00 \00t\00h\00e\00 \00o\00w\00n\00e\00r\00 \00c\00a\00n\00 \00p\00a\00u\00s\00e\00 \00t\00h\00e\00 \00c\00o\00n\00t\00r\00a\00c\00t")
+ (data $322 (i32.const 28540) ",")
+ (data $322.1 (i32.const 28552) "\02\00\00\00\18\00\00\00P\00a\00u\00s\00e\00U\00p\00d\00a\00t\00e\00d")
+ (data $323 (i32.const 28588) "\\")
+ (data $323.1 (i32.const 28600) "\02\00\00\00J\00\00\00O\00n\00l\00y\00 \00t\00h\00e\00 \00o\00w\00n\00e\00r\00 \00c\00a\00n\00 \00t\00r\00a\00n\00s\00f\00e\00r\00 \00o\00w\00n\00e\00r\00s\00h\00i\00p")
+ (data $324 (i32.const 28684) "L")
+ (data $324.1 (i32.const 28696) "\02\00\00\008\00\00\00A\00d\00d\00r\00e\00s\00s\00 \00i\00s\00 \00a\00l\00r\00e\00a\00d\00y\00 \00t\00h\00e\00 \00o\00w\00n\00e\00r")
+ (data $325 (i32.const 28764) "L")
+ (data $325.1 (i32.const 28776) "\02\00\00\000\00\00\00O\00w\00n\00e\00r\00s\00h\00i\00p\00T\00r\00a\00n\00s\00f\00e\00r\00S\00t\00a\00r\00t\00e\00d")
+ (data $326 (i32.const 28844) "l")
+ (data $326.1 (i32.const 28856) "\02\00\00\00V\00\00\00O\00n\00l\00y\00 \00t\00h\00e\00 \00p\00e\00n\00d\00i\00n\00g\00 \00o\00w\00n\00e\00r\00 \00c\00a\00n\00 \00a\00c\00c\00e\00p\00t\00 \00o\00w\00n\00e\00r\00s\00h\00i\00p")
+ (data $327 (i32.const 28956) "<")
+ (data $327.1 (i32.const 28968) "\02\00\00\00(\00\00\00O\00w\00n\00e\00r\00s\00h\00i\00p\00T\00r\00a\00n\00s\00f\00e\00r\00r\00e\00d")
+ (data $328 (i32.const 29020) "\\")
+ (data $328.1 (i32.const 29032) "\02\00\00\00J\00\00\00O\00n\00l\00y\00 \00t\00h\00e\00 \00o\00w\00n\00e\00r\00 \00c\00a\00n\00 \00s\00e\00t\00 \00t\00h\00e\00 \00m\00a\00r\00k\00e\00t\00 \00c\00a\00p")
+ (data $329 (i32.const 29116) "\\")
+ (data $329.1 (i32.const 29128) "\02\00\00\00H\00\00\00M\00a\00r\00k\00e\00t\00 \00c\00a\00p\00 \00m\00u\00s\00t\00 \00b\00e\00 \00g\00r\00e\00a\00t\00e\00r\00 \00t\00h\00a\00n\00 \00z\00e\00r\00o")
+ (data $330 (i32.const 29212) "l")
+ (data $330.1 (i32.const 29224) "\02\00\00\00X\00\00\00M\00a\00r\00k\00e\00t\00 \00c\00a\00p\00 \00i\00s\00 \00b\00e\00l\00o\00w\00 \00t\00h\00e\00 \00c\00u\00r\00r\00e\00n\00t\00 \00m\00a\00r\00k\00e\00t\00 \00c\00o\00u\00n\00t")
+ (data $331 (i32.const 29324) "<")
+ (data $331.1 (i32.const 29336) "\02\00\00\00\"\00\00\00M\00a\00x\00M\00a\00r\00k\00e\00t\00s\00U\00p\00d\00a\00t\00e\00d")
+ (data $332 (i32.const 29388) "\\")
+ (data $332.1 (i32.const 29400) "\02\00\00\00L\00\00\00O\00n\00l\00y\00 \00t\00h\00e\00 \00o\00w\00n\00e\00r\00 \00c\00a\00n\00 \00s\00e\00t\00 \00t\00h\00e\00 \00m\00i\00n\00i\00m\00u\00m\00 \00b\00e\00t")
+ (data $333 (i32.const 29484) ",")
+ (data $333.1 (i32.const 29496) "\02\00\00\00\1a\00\00\00M\00i\00n\00B\00e\00t\00U\00p\00d\00a\00t\00e\00d")
+ (data $334 (i32.const 29532) "\\")
+ (data $334.1 (i32.const 29544) "\02\00\00\00H\00\00\00O\00n\00l\00y\00 \00t\00h\00e\00 \00o\00w\00n\00e\00r\00 \00c\00a\00n\00 \00s\00e\00t\00 \00p\00r\00i\00c\00e\00 \00s\00i\00g\00n\00e\00r\00s")
+ (data $335 (i32.const 29628) "L")
+ (data $335.1 (i32.const 29640) "\02\00\00\000\00\00\00P\00r\00i\00c\00e\00 \00s\00i\00g\00n\00e\00r\00 \00m\00u\00s\00t\00 \00b\00e\00 \00s\00e\00t")
+ (data $336 (i32.const 29708) ",")
+ (data $336.1 (i32.const 29720) "\02\00\00\00\1c\00\00\00P\00r\00i\00c\00e\00S\00i\00g\00n\00e\00r\00S\00e\00t")
+ (data $337 (i32.const 29756) "L")
+ (data $337.1 (i32.const 29768) "\02\00\00\000\00\00\00P\00r\00o\00f\00i\00l\00e\00 \00h\00a\00s\00h\00 \00m\00u\00s\00t\00 \00b\00e\00 \00s\00e\00t")
+ (data $338 (i32.const 29836) "\\")
+ (data $338.1 (i32.const 29848) "\02\00\00\00B\00\00\00S\00t\00a\00k\00e\00 \00i\00s\00 \00b\00e\00l\00o\00w\00 \00t\00h\00e\00 \00o\00r\00a\00c\00l\00e\00 \00m\00i\00n\00i\00m\00u\00m")
+ (data $339 (i32.const 29932) "<")
+ (data $339.1 (i32.const 29944) "\02\00\00\00 \00\00\00O\00r\00a\00c\00l\00e\00R\00e\00g\00i\00s\00t\00e\00r\00e\00d")
+ (data $340 (i32.const 29996) "L")
+ (data $340.1 (i32.const 30008) "\02\00\00\00:\00\00\00O\00r\00a\00c\00l\00e\00 \00h\00a\00s\00 \00u\00n\00r\00e\00s\00o\00l\00v\00e\00d\00 \00m\00a\00r\00k\00e\00t\00s")
+ (data $341 (i32.const 30076) "\\")
+ (data $341.1 (i32.const 30088) "\02\00\00\00>\00\00\00A\00m\00o\00u\00n\00t\00 \00e\00x\00c\00e\00e\00d\00s\00 \00t\00h\00e\00 \00o\00r\00a\00c\00l\00e\00 \00s\00t\00a\00k\00e")
+ (data $342 (i32.const 30172) ",")
+ (data $342.1 (i32.const 30184) "\02\00\00\00\1c\00\00\00O\00r\00a\00c\00l\00e\00U\00n\00s\00t\00a\00k\00e\00d")
+ (data $343 (i32.const 30220) "\\")
+ (data $343.1 (i32.const 30232) "\02\00\00\00D\00\00\00N\00o\00 \00u\00n\00s\00t\00a\00k\00e\00d\00 \00c\00o\00l\00l\00a\00t\00e\00r\00a\00l\00 \00t\00o\00 \00w\00i\00t\00h\00d\00r\00a\00w")
+ (data $344 (i32.const 30316) "L")
+ (data $344.1 (i32.const 30328) "\02\00\00\000\00\00\00S\00t\00a\00k\00e\00 \00i\00s\00 \00s\00t\00i\00l\00l\00 \00u\00n\00b\00o\00n\00d\00i\00n\00g")
+ (data $345 (i32.const 30396) "<")
+ (data $345.1 (i32.const 30408) "\02\00\00\00(\00\00\00O\00r\00a\00c\00l\00e\00S\00t\00a\00k\00e\00W\00i\00t\00h\00d\00r\00a\00w\00n")
+ (data $346 (i32.const 30460) "\\")
+ (data $346.1 (i32.const 30472) "\02\00\00\00@\00\00\00O\00n\00l\00y\00 \00t\00h\00e\00 \00o\00w\00n\00e\00r\00 \00c\00a\00n\00 \00s\00l\00a\00s\00h\00 \00o\00r\00a\00c\00l\00e\00s")
+ (data $347 (i32.const 30556) "L")
+ (data $347.1 (i32.const 30568) "\02\00\00\008\00\00\00O\00r\00a\00c\00l\00e\00 \00h\00a\00s\00 \00n\00o\00 \00s\00t\00a\00k\00e\00 \00t\00o\00 \00s\00l\00a\00s\00h")
+ (data $348 (i32.const 30636) "|")
+ (data $348.1 (i32.const 30648) "\02\00\00\00^\00\00\00O\00n\00l\00y\00 \00t\00h\00e\00 \00o\00w\00n\00e\00r\00 \00c\00a\00n\00 \00s\00e\00t\00 \00t\00h\00e\00 \00m\00i\00n\00i\00m\00u\00m\00 \00o\00r\00a\00c\00l\00e\00 \00s\00t\00a\00k\00e")
+ (data $349 (i32.const 30764) "<")
+ (data $349.1 (i32.const 30776) "\02\00\00\00*\00\00\00M\00i\00n\00O\00r\00a\00c\00l\00e\00S\00t\00a\00k\00e\00U\00p\00d\00a\00t\00e\00d")
+ (data $350 (i32.const 30828) "l")
+ (data $350.1 (i32.const 30840) "\02\00\00\00R\00\00\00O\00n\00l\00y\00 \00t\00h\00e\00 \00c\00r\00e\00a\00t\00o\00r\00 \00c\00a\00n\00 \00m\00a\00n\00a\00g\00e\00 \00t\00h\00e\00 \00a\00l\00l\00o\00w\00l\00i\00s\00t")
+ (data $351 (i32.const 30940) "<")
+ (data $351.1 (i32.const 30952) "\02\00\00\00*\00\00\00M\00a\00r\00k\00e\00t\00 \00i\00s\00 \00n\00o\00t\00 \00p\00r\00i\00v\00a\00t\00e")
+ (data $352 (i32.const 31004) "<")
+ (data $352.1 (i32.const 31016) "\02\00\00\00(\00\00\00A\00l\00l\00o\00w\00l\00i\00s\00t\00R\00o\00o\00t\00U\00p\00d\00a\00t\00e\00d")
+ (data $353 (i32.const 31068) "L")
+ (data $353.1 (i32.const 31080) "\02\00\00\008\00\00\00M\00a\00r\00k\00e\00t\00 \00h\00a\00s\00 \00n\00o\00 \00a\00l\00l\00o\00w\00l\00i\00s\00t\00 \00r\00o\00o\00t")
+ (data $354 (i32.const 31148) "L")
+ (data $354.1 (i32.const 31160) "\02\00\00\006\00\00\00A\00l\00l\00o\00w\00l\00i\00s\00t\00 \00p\00r\00o\00o\00f\00 \00i\00s\00 \00t\00o\00o\00 \00l\00o\00n\00g")
+ (data $355 (i32.const 31228) "L")
+ (data $355.1 (i32.const 31240) "\02\00\00\006\00\00\00N\00o\00t\00 \00o\00n\00 \00t\00h\00e\00 \00m\00a\00r\00k\00e\00t\00 \00a\00l\00l\00o\00w\00l\00i\00s\00t")
+ (data $356 (i32.const 31308) ",")
+ (data $356.1 (i32.const 31320) "\02\00\00\00\18\00\00\00M\00a\00r\00k\00e\00t\00J\00o\00i\00n\00e\00d")
+ (data $357 (i32.const 31356) "L")
+ (data $357.1 (i32.const 31368) "\02\00\00\004\00\00\00T\00o\00o\00 \00m\00a\00n\00y\00 \00m\00a\00r\00k\00e\00t\00s\00 \00r\00e\00q\00u\00e\00s\00t\00e\00d")
+ (data $358 (i32.const 31436) "L")
+ (data $358.1 (i32.const 31448) "\02\00\00\008\00\00\00C\00o\00l\00l\00a\00t\00e\00r\00a\00l\00 \00t\00o\00k\00e\00n\00 \00m\00u\00s\00t\00 \00b\00e\00 \00s\00e\00t")
  (table $0 2 2 funcref)
  (elem $0 (i32.const 1) $start:src/index~anonymous|0)
  (export "abort" (func $src/index/abort))
@@ -523,7 +934,7 @@
   (local $3 i32)
   (local $4 i32)
   (local $5 i32)
-  block $__inlined_func$~lib/util/string/joinReferenceArray<~lib/string/String>$9 (result i32)
+  block $__inlined_func$~lib/util/string/joinReferenceArray<~lib/string/String>$15 (result i32)
    i32.const 2032
    local.get $0
    local.tee $1
@@ -537,7 +948,7 @@
    local.tee $2
    i32.const 0
    i32.lt_s
-   br_if $__inlined_func$~lib/util/string/joinReferenceArray<~lib/string/String>$9
+   br_if $__inlined_func$~lib/util/string/joinReferenceArray<~lib/string/String>$15
    drop
    local.get $2
    i32.eqz
@@ -548,7 +959,7 @@
     i32.const 2032
     local.get $0
     select
-    br $__inlined_func$~lib/util/string/joinReferenceArray<~lib/string/String>$9
+    br $__inlined_func$~lib/util/string/joinReferenceArray<~lib/string/String>$15
    end
    i32.const 2032
    local.set $0
@@ -913,7 +1324,7 @@
    if
     i32.const 2304
     i32.const 2240
-    i32.const 1869
+    i32.const 1876
     i32.const 7
     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
     unreachable
@@ -927,7 +1338,7 @@
    if
     i32.const 2304
     i32.const 2240
-    i32.const 1874
+    i32.const 1881
     i32.const 7
     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
     unreachable
@@ -1077,7 +1488,7 @@
   if
    i32.const 2176
    i32.const 2240
-   i32.const 167
+   i32.const 168
    i32.const 45
    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
    unreachable
@@ -1435,7 +1846,7 @@
   if
    i32.const 2176
    i32.const 2240
-   i32.const 1902
+   i32.const 1911
    i32.const 5
    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
    unreachable
@@ -1547,7 +1958,7 @@
   if
    i32.const 2176
    i32.const 2240
-   i32.const 1902
+   i32.const 1911
    i32.const 5
    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
    unreachable
@@ -1589,7 +2000,7 @@
   if
    i32.const 2176
    i32.const 2240
-   i32.const 178
+   i32.const 179
    i32.const 45
    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
    unreachable
@@ -1661,7 +2072,7 @@
   if
    i32.const 2304
    i32.const 4192
-   i32.const 70
+   i32.const 72
    i32.const 60
    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
    unreachable
@@ -1905,7 +2316,7 @@
    if
     i32.const 2176
     i32.const 4192
-    i32.const 130
+    i32.const 132
     i32.const 22
     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
     unreachable
@@ -1928,26 +2339,149 @@
   local.get $2
   i32.store8
  )
- (func $~lib/@btc-vision/btc-runtime/runtime/types/ExtendedAddress/ExtendedAddress#clone (param $0 i32) (result i32)
+ (func $~lib/typedarray/Uint8Array#slice@varargs (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  block $2of2
+   block $1of2
+    block $0of2
+     block $outOfRange
+      global.get $~argumentsLength
+      br_table $0of2 $1of2 $2of2 $outOfRange
+     end
+     unreachable
+    end
+    i32.const 0
+    local.set $1
+   end
+   i32.const 2147483647
+   local.set $2
+  end
+  i32.const 0
+  local.get $2
+  local.get $0
+  i32.load offset=8
+  local.tee $3
+  local.get $2
+  local.get $3
+  i32.lt_s
+  select
+  local.get $1
+  i32.const 0
+  i32.lt_s
+  if (result i32)
+   local.get $1
+   local.get $3
+   i32.add
+   local.tee $1
+   i32.const 0
+   local.get $1
+   i32.const 0
+   i32.gt_s
+   select
+  else
+   local.get $1
+   local.get $3
+   local.get $1
+   local.get $3
+   i32.lt_s
+   select
+  end
+  local.tee $1
+  i32.sub
+  local.tee $2
+  i32.const 0
+  local.get $2
+  i32.const 0
+  i32.gt_s
+  select
+  local.tee $2
+  call $~lib/typedarray/Uint8Array#constructor
+  local.tee $3
+  i32.load offset=4
+  local.get $0
+  i32.load offset=4
+  local.get $1
+  i32.add
+  local.get $2
+  memory.copy
+  local.get $3
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#constructor (result i32)
+  (local $0 i32)
+  i32.const 12
+  i32.const 17
+  call $~lib/rt/stub/__new
+  local.tee $0
+  i32.eqz
+  if
+   i32.const 0
+   i32.const 0
+   call $~lib/rt/stub/__new
+   local.set $0
+  end
+  local.get $0
+  i32.const 0
+  i32.const 2
+  i32.const 19
+  i32.const 4240
+  call $~lib/rt/__newArray
+  i32.store
+  local.get $0
+  i32.const 0
+  i32.const 2
+  i32.const 19
+  i32.const 4272
+  call $~lib/rt/__newArray
+  i32.store offset=4
+  local.get $0
+  i32.const -1
+  i32.store offset=8
+  local.get $0
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#constructor (result i32)
+  (local $0 i32)
   (local $1 i32)
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
-  local.get $0
+  (local $5 i32)
+  i32.const 52
+  i32.const 16
+  call $~lib/rt/stub/__new
+  local.tee $0
+  i32.eqz
+  if
+   i32.const 0
+   i32.const 0
+   call $~lib/rt/stub/__new
+   local.set $0
+  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/types/ExtendedAddressCache/_cachedDeadAddress
+  local.tee $2
+  i32.eqz
+  if
+   i32.const 3776
+   i32.const 3888
+   call $~lib/@btc-vision/btc-runtime/runtime/types/ExtendedAddress/ExtendedAddress#constructor
+   local.tee $2
+   global.set $~lib/@btc-vision/btc-runtime/runtime/types/ExtendedAddressCache/_cachedDeadAddress
+  end
+  local.get $2
   i32.load offset=20
   i32.load offset=8
   call $~lib/array/Array<u8>#constructor
-  local.set $3
+  local.set $4
   loop $for-loop|0
    local.get $1
-   local.get $0
+   local.get $2
    i32.load offset=20
    i32.load offset=8
    i32.lt_s
    if
-    local.get $3
+    local.get $4
     local.get $1
-    local.get $0
+    local.get $2
     i32.load offset=20
     local.get $1
     call $~lib/typedarray/Uint8Array#__get
@@ -1961,100 +2495,79 @@
   end
   i32.const 1
   global.set $~argumentsLength
-  local.get $0
-  i32.load offset=8
-  local.tee $1
-  i32.const 0
-  local.get $1
-  i32.const 0
-  i32.le_s
-  select
-  local.set $4
-  i32.const 0
-  local.get $1
-  local.get $4
-  i32.sub
-  local.tee $1
-  i32.const 0
-  local.get $1
+  local.get $2
   i32.const 0
-  i32.gt_s
-  select
+  call $~lib/typedarray/Uint8Array#slice@varargs
   local.tee $1
-  call $~lib/typedarray/Uint8Array#constructor
-  local.tee $2
-  i32.load offset=4
-  local.get $0
-  i32.load offset=4
-  local.get $4
-  i32.add
-  local.get $1
-  memory.copy
-  local.get $2
   i32.load offset=8
   call $~lib/array/Array<u8>#constructor
-  local.set $4
-  i32.const 0
-  local.set $1
+  local.set $5
   loop $for-loop|1
+   local.get $3
    local.get $1
-   local.get $2
    i32.load offset=8
    i32.lt_s
    if
-    local.get $4
-    local.get $1
-    local.get $2
+    local.get $5
+    local.get $3
     local.get $1
+    local.get $3
     call $~lib/typedarray/Uint8Array#__get
     call $~lib/array/Array<u8>#__set
-    local.get $1
+    local.get $3
     i32.const 1
     i32.add
-    local.set $1
+    local.set $3
     br $for-loop|1
    end
   end
-  local.get $3
   local.get $4
+  local.get $5
   call $~lib/@btc-vision/btc-runtime/runtime/types/ExtendedAddress/ExtendedAddress#constructor
   local.tee $1
-  local.get $0
+  local.get $2
   i32.load8_u offset=12
   i32.store8 offset=12
-  local.get $1
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#constructor (result i32)
-  (local $0 i32)
-  i32.const 12
-  i32.const 17
-  call $~lib/rt/stub/__new
-  local.tee $0
-  i32.eqz
-  if
-   i32.const 0
-   i32.const 0
-   call $~lib/rt/stub/__new
-   local.set $0
-  end
   local.get $0
-  i32.const 0
-  i32.const 2
-  i32.const 19
-  i32.const 4240
-  call $~lib/rt/__newArray
+  local.get $1
   i32.store
   local.get $0
-  i32.const 0
-  i32.const 2
-  i32.const 19
-  i32.const 4272
-  call $~lib/rt/__newArray
+  call $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#constructor
   i32.store offset=4
   local.get $0
-  i32.const -1
+  call $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#constructor
   i32.store offset=8
   local.get $0
+  i32.const 0
+  i32.store offset=12
+  local.get $0
+  i32.const -1
+  i32.store offset=16
+  local.get $0
+  i32.const 0
+  i32.store offset=20
+  local.get $0
+  i32.const 0
+  i32.store offset=24
+  local.get $0
+  i32.const 0
+  i32.store offset=28
+  local.get $0
+  i32.const 0
+  i32.store16 offset=32
+  local.get $0
+  i32.const 0
+  i32.store offset=36
+  local.get $0
+  i32.const 0
+  i32.store offset=40
+  local.get $0
+  i32.const 0
+  i32.store offset=44
+  local.get $0
+  i32.const 0
+  i32.store offset=48
+  local.get $0
  )
  (func $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor (param $0 i64) (param $1 i64) (param $2 i64) (param $3 i64) (result i32)
   (local $4 i32)
@@ -2081,8 +2594,8 @@
   i32.const 65535
   i32.eq
   if
-   i32.const 5312
-   i32.const 5392
+   i32.const 5088
+   i32.const 5168
    i32.const 189
    i32.const 13
    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
@@ -2115,7 +2628,7 @@
   (local $2 i32)
   (local $3 i32)
   (local $4 i32)
-  i32.const 13980
+  i32.const 31516
   global.set $~lib/rt/stub/offset
   i64.const 0
   i64.const 0
@@ -2140,22 +2653,22 @@
   i32.const 16
   i32.const 12
   call $~lib/rt/stub/__new
-  local.tee $1
+  local.tee $3
   i32.const 0
   i32.store
-  local.get $1
+  local.get $3
   i32.const 0
   i32.store offset=4
-  local.get $1
+  local.get $3
   i32.const 0
   i32.store offset=8
-  local.get $1
+  local.get $3
   i32.const 0
   i32.store offset=12
   i32.const 0
   i32.const 32
   call $~lib/typedarray/Uint8Array#constructor
-  local.tee $2
+  local.tee $4
   i32.const 32
   i32.const 2
   i32.const 11
@@ -2165,7 +2678,7 @@
   i32.const 0
   i32.const 32
   call $~lib/typedarray/Uint8Array#constructor
-  local.tee $3
+  local.tee $0
   i32.const 32
   i32.const 2
   i32.const 11
@@ -2175,7 +2688,7 @@
   i32.const 0
   i32.const 32
   call $~lib/typedarray/Uint8Array#constructor
-  local.tee $4
+  local.tee $1
   i32.const 32
   i32.const 2
   i32.const 11
@@ -2185,26 +2698,26 @@
   i32.const 0
   i32.const 32
   call $~lib/typedarray/Uint8Array#constructor
-  local.tee $0
+  local.tee $2
   i32.const 32
   i32.const 2
   i32.const 11
   i32.const 3392
   call $~lib/rt/__newArray
   call $~lib/typedarray/Uint8Array#set<~lib/array/Array<i32>>
-  local.get $1
-  local.get $2
+  local.get $3
+  local.get $4
   i32.store
-  local.get $1
   local.get $3
-  i32.store offset=4
-  local.get $1
   local.get $0
+  i32.store offset=4
+  local.get $3
+  local.get $2
   i32.store offset=8
+  local.get $3
   local.get $1
-  local.get $4
   i32.store offset=12
-  local.get $1
+  local.get $3
   global.set $~lib/@btc-vision/btc-runtime/runtime/script/Networks/Network
   i32.const 0
   i32.const 32
@@ -2241,69 +2754,8 @@
   i32.const 0
   i32.const 4
   call $~lib/typedarray/Uint8Array#constructor
-  drop
-  i32.const 52
-  i32.const 16
-  call $~lib/rt/stub/__new
-  local.tee $0
-  i32.eqz
-  if
-   i32.const 0
-   i32.const 0
-   call $~lib/rt/stub/__new
-   local.set $0
-  end
-  global.get $~lib/@btc-vision/btc-runtime/runtime/types/ExtendedAddressCache/_cachedDeadAddress
-  local.tee $1
-  i32.eqz
-  if
-   i32.const 3776
-   i32.const 3888
-   call $~lib/@btc-vision/btc-runtime/runtime/types/ExtendedAddress/ExtendedAddress#constructor
-   local.tee $1
-   global.set $~lib/@btc-vision/btc-runtime/runtime/types/ExtendedAddressCache/_cachedDeadAddress
-  end
-  local.get $0
-  local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/types/ExtendedAddress/ExtendedAddress#clone
-  i32.store
-  local.get $0
-  call $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#constructor
-  i32.store offset=4
-  local.get $0
-  call $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#constructor
-  i32.store offset=8
-  local.get $0
-  i32.const 0
-  i32.store offset=12
-  local.get $0
-  i32.const -1
-  i32.store offset=16
-  local.get $0
-  i32.const 0
-  i32.store offset=20
-  local.get $0
-  i32.const 0
-  i32.store offset=24
-  local.get $0
-  i32.const 0
-  i32.store offset=28
-  local.get $0
-  i32.const 0
-  i32.store16 offset=32
-  local.get $0
-  i32.const 0
-  i32.store offset=36
-  local.get $0
-  i32.const 0
-  i32.store offset=40
-  local.get $0
-  i32.const 0
-  i32.store offset=44
-  local.get $0
-  i32.const 0
-  i32.store offset=48
-  local.get $0
+  global.set $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/FOUR_BYTES_UINT8ARRAY_MEMORY_CACHE
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#constructor
   global.set $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
   i64.const 0
   i64.const 0
@@ -2406,12 +2858,12 @@
   call $~lib/@btc-vision/as-bignum/assembly/integer/i128/i128#constructor
   block $__inlined_func$start:~lib/@btc-vision/btc-runtime/runtime/secp256k1/ECPoint$40
    block $folding-inner0
-    i32.const 5628
+    i32.const 5404
     i32.load
     i32.const 32
     i32.ne
     br_if $folding-inner0
-    i32.const 5620
+    i32.const 5396
     i32.load
     local.tee $0
     i64.load
@@ -2423,12 +2875,12 @@
     i64.load offset=24
     call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
     drop
-    i32.const 5740
+    i32.const 5516
     i32.load
     i32.const 32
     i32.ne
     br_if $folding-inner0
-    i32.const 5732
+    i32.const 5508
     i32.load
     local.tee $0
     i64.load
@@ -2440,12 +2892,12 @@
     i64.load offset=24
     call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
     drop
-    i32.const 5852
+    i32.const 5628
     i32.load
     i32.const 32
     i32.ne
     br_if $folding-inner0
-    i32.const 5844
+    i32.const 5620
     i32.load
     local.tee $0
     i64.load
@@ -2460,7 +2912,7 @@
     br $__inlined_func$start:~lib/@btc-vision/btc-runtime/runtime/secp256k1/ECPoint$40
    end
    i32.const 2304
-   i32.const 5888
+   i32.const 5664
    i32.const 169
    i32.const 30
    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
@@ -2515,6 +2967,104 @@
   call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
   drop
  )
+ (func $start:src/PredictionMarket
+  i64.const 1
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  global.set $src/PredictionMarket/OUTCOME_YES
+  i64.const 2
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  global.set $src/PredictionMarket/OUTCOME_NO
+  i64.const 1
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  global.set $src/PredictionMarket/STATUS_OPEN
+  i64.const 2
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  global.set $src/PredictionMarket/STATUS_RESOLVED
+  i64.const 3
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  global.set $src/PredictionMarket/STATUS_CANCELLED
+  i64.const 4
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  global.set $src/PredictionMarket/STATUS_PROPOSED
+  i64.const 5
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  global.set $src/PredictionMarket/STATUS_DISPUTED
+  i64.const 10000
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  global.set $src/PredictionMarket/DEFAULT_MAX_MARKETS
+  i64.const 2
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  global.set $src/PredictionMarket/BINARY_OUTCOME_COUNT
+  i64.const 10000
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  global.set $src/PredictionMarket/BPS_DENOMINATOR
+  i64.const 1000
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  global.set $src/PredictionMarket/MAX_PROTOCOL_FEE_BPS
+  i64.const 1000
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  global.set $src/PredictionMarket/MAX_CREATOR_FEE_BPS
+  i64.const 100000
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  global.set $src/PredictionMarket/DEFAULT_DISPUTE_BOND
+  i64.const 1000
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  global.set $src/PredictionMarket/ORACLE_DISPUTE_SLASH_BPS
+  i64.const 100
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  global.set $src/PredictionMarket/MIN_EXIT_SPREAD_BPS
+  i64.const 1000
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  global.set $src/PredictionMarket/MAX_EXIT_SPREAD_BPS
+ )
  (func $~lib/@btc-vision/btc-runtime/runtime/env/global/sha256 (param $0 i32) (result i32)
   (local $1 i32)
   i32.const 32
@@ -2545,8 +3095,8 @@
   i32.const 4
   i32.lt_s
   if
-   i32.const 7488
-   i32.const 7600
+   i32.const 7392
+   i32.const 7504
    i32.const 12
    i32.const 9
    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
@@ -2616,19 +3166,19 @@
    i32.const 30
    i32.ne
    if
-    i32.const 8544
+    i32.const 13728
     i32.const 1
     local.get $1
     i32.load offset=8
     call $~lib/util/number/itoa32
     call $~lib/staticarray/StaticArray<~lib/string/String>#__uset
-    i32.const 8544
+    i32.const 13728
     i32.const 3
     local.get $3
     call $~lib/staticarray/StaticArray<~lib/string/String>#__uset
-    i32.const 8544
+    i32.const 13728
     call $~lib/staticarray/StaticArray<~lib/string/String>#join
-    i32.const 8592
+    i32.const 13776
     i32.const 101
     i32.const 9
     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
@@ -2699,3018 +3249,1485 @@
   local.get $0
   local.get $1
   i32.const 1
-  i32.const 8304
+  i32.const 13488
   call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodePointer
   i32.store
   local.get $2
  )
  (func $src/PredictionMarket/PredictionMarket#constructor (result i32)
   (local $0 i32)
-  i32.const 72
+  i32.const 480
   i32.const 35
   call $~lib/rt/stub/__new
   local.tee $0
-  i32.const 7392
+  i32.const 7168
   call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
   i32.store offset=4
   local.get $0
-  i32.const 7728
+  i32.const 7632
   call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
   i32.store offset=8
   local.get $0
-  i32.const 7824
+  i32.const 7904
   call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
   i32.store offset=12
   local.get $0
-  i32.const 7904
+  i32.const 8144
   call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
   i32.store offset=16
   local.get $0
-  i32.const 7968
+  i32.const 8240
   call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
   i32.store offset=20
   local.get $0
-  i32.const 8032
+  i32.const 8320
   call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
   i32.store offset=24
   local.get $0
-  i32.const 8128
+  i32.const 8416
   call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
   i32.store offset=28
   local.get $0
-  i32.const 8192
+  i32.const 8512
   call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
   i32.store offset=32
   local.get $0
-  i32.const 8240
+  i32.const 8656
   call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
   i32.store offset=36
   local.get $0
-  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
-  i32.store16 offset=40
+  i32.const 8736
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=40
   local.get $0
-  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
-  i32.store16 offset=42
+  i32.const 8832
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=44
   local.get $0
+  i32.const 8912
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=48
   local.get $0
-  i32.load16_u offset=40
-  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-  i32.store offset=44
+  i32.const 8992
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=52
   local.get $0
+  i32.const 9104
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=56
   local.get $0
-  i32.load16_u offset=42
-  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-  i32.store offset=48
+  i32.const 9232
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=60
   local.get $0
-  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
-  i32.store16 offset=52
+  i32.const 9376
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=64
   local.get $0
-  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
-  i32.store16 offset=54
+  i32.const 9472
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=68
   local.get $0
-  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
-  i32.store16 offset=56
+  i32.const 9536
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=72
   local.get $0
-  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
-  i32.store16 offset=58
+  i32.const 9600
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=76
   local.get $0
-  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
-  i32.store16 offset=60
+  i32.const 9664
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=80
   local.get $0
-  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
-  i32.store16 offset=62
+  i32.const 9744
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=84
   local.get $0
-  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
-  i32.store16 offset=64
+  i32.const 9824
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=88
   local.get $0
-  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
-  i32.store16 offset=66
+  i32.const 9904
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=92
   local.get $0
-  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
-  i32.store16 offset=68
+  i32.const 9952
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=96
   local.get $0
-  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
-  i32.store16 offset=70
+  i32.const 10032
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=100
   local.get $0
-  i32.eqz
-  if
-   i32.const 4
-   i32.const 20
-   call $~lib/rt/stub/__new
-   local.set $0
-  end
+  i32.const 10112
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=104
   local.get $0
-  i32.eqz
-  if
-   i32.const 0
-   i32.const 0
-   call $~lib/rt/stub/__new
-   local.set $0
-  end
+  i32.const 10176
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=108
   local.get $0
-  i32.const 0
-  i32.const 2
-  i32.const 23
-  i32.const 7360
-  call $~lib/rt/__newArray
-  i32.store
+  i32.const 10240
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=112
   local.get $0
- )
- (func $start:src/index~anonymous|0 (result i32)
-  call $src/PredictionMarket/PredictionMarket#constructor
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#createContractIfNotExists (param $0 i32)
+  i32.const 10320
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=116
   local.get $0
-  i32.load offset=28
-  i32.eqz
-  if
-   i32.const 8752
-   i32.const 5392
-   i32.const 1324
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
+  i32.const 10384
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=120
   local.get $0
-  i32.load offset=12
-  i32.eqz
-  if
-   i32.const 0
-   global.set $~argumentsLength
-   local.get $0
-   local.get $0
-   i32.load offset=28
-   i32.load
-   call_indirect $0 (type $6)
-   i32.store offset=12
-  end
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#constructor (param $0 i32) (result i32)
-  (local $1 i32)
-  i32.const 8
-  i32.const 38
-  call $~lib/rt/stub/__new
-  local.tee $1
-  i32.const 0
-  i32.store
-  local.get $1
-  i32.const 0
-  i32.store offset=4
+  i32.const 10448
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=124
   local.get $0
-  i32.load
-  local.set $0
-  i32.const 1
-  global.set $~argumentsLength
-  local.get $1
+  i32.const 10512
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=128
   local.get $0
-  call $~lib/dataview/DataView#constructor@varargs
-  i32.store
-  local.get $1
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#verifyEnd (param $0 i32) (param $1 i32)
-  local.get $1
+  i32.const 10608
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=132
   local.get $0
-  i32.load
-  i32.load offset=8
-  i32.gt_s
-  if
-   i32.const 8992
-   i32.const 1
-   local.get $1
-   call $~lib/util/number/itoa32
-   call $~lib/staticarray/StaticArray<~lib/string/String>#__uset
-   i32.const 8992
-   call $~lib/staticarray/StaticArray<~lib/string/String>#join
-   i32.const 9136
-   i32.const 1
-   local.get $0
-   i32.load
-   i32.load offset=8
-   call $~lib/util/number/itoa32
-   call $~lib/staticarray/StaticArray<~lib/string/String>#__uset
-   i32.const 9136
-   call $~lib/staticarray/StaticArray<~lib/string/String>#join
-   call $~lib/string/String#concat
-   i32.const 9168
-   i32.const 442
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU8 (param $0 i32) (result i32)
-  (local $1 i32)
-  (local $2 i32)
+  i32.const 10672
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=136
   local.get $0
+  i32.const 10768
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=140
   local.get $0
-  i32.load offset=4
-  i32.const 1
-  i32.add
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#verifyEnd
+  i32.const 10832
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=144
   local.get $0
-  i32.load offset=4
-  local.tee $1
+  i32.const 10880
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=148
   local.get $0
-  i32.load
-  local.tee $2
-  i32.load offset=8
-  i32.ge_u
-  if
-   i32.const 2176
-   i32.const 2416
-   i32.const 72
-   i32.const 50
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  local.get $1
-  local.get $2
-  i32.load offset=4
-  i32.add
-  i32.load8_u
+  i32.const 10944
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=152
   local.get $0
+  i32.const 11008
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=156
   local.get $0
-  i32.load offset=4
-  i32.const 1
-  i32.add
-  i32.store offset=4
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readBytes (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  i32.const 0
-  local.get $1
-  call $~lib/typedarray/Uint8Array#constructor
-  local.set $3
-  loop $for-loop|0
-   local.get $1
-   local.get $4
-   i32.gt_u
-   if
-    block $for-break0
-     local.get $0
-     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU8
-     local.tee $5
-     i32.const 1
-     local.get $2
-     select
-     i32.eqz
-     if
-      local.get $3
-      local.tee $0
-      i32.load offset=8
-      local.tee $1
-      i32.const 0
-      local.get $1
-      i32.const 0
-      i32.le_s
-      select
-      local.set $2
-      i32.const 12
-      i32.const 7
-      call $~lib/rt/stub/__new
-      local.tee $3
-      local.get $0
-      i32.load
-      i32.store
-      local.get $3
-      local.get $0
-      i32.load offset=4
-      local.get $2
-      i32.add
-      i32.store offset=4
-      local.get $3
-      local.get $4
-      i32.const 0
-      i32.lt_s
-      if (result i32)
-       local.get $1
-       local.get $4
-       i32.add
-       local.tee $0
-       i32.const 0
-       local.get $0
-       i32.const 0
-       i32.gt_s
-       select
-      else
-       local.get $4
-       local.get $1
-       local.get $1
-       local.get $4
-       i32.gt_s
-       select
-      end
-      local.tee $0
-      local.get $2
-      local.get $0
-      local.get $2
-      i32.gt_s
-      select
-      local.get $2
-      i32.sub
-      i32.store offset=8
-      br $for-break0
-     end
-     local.get $3
-     local.get $4
-     local.get $5
-     call $~lib/typedarray/Uint8Array#__set
-     local.get $4
-     i32.const 1
-     i32.add
-     local.set $4
-     br $for-loop|0
-    end
-   end
-  end
-  local.get $3
- )
- (func $~lib/polyfills/bswap<u64> (param $0 i64) (result i64)
+  i32.const 11088
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=160
   local.get $0
-  i64.const 8
-  i64.shr_u
-  i64.const 71777214294589695
-  i64.and
+  i32.const 11168
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=164
   local.get $0
-  i64.const 71777214294589695
-  i64.and
-  i64.const 8
-  i64.shl
-  i64.or
-  local.tee $0
-  i64.const 16
-  i64.shr_u
-  i64.const 281470681808895
-  i64.and
+  i32.const 11232
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=168
   local.get $0
-  i64.const 281470681808895
-  i64.and
-  i64.const 16
-  i64.shl
-  i64.or
-  i64.const 32
-  i64.rotr
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64 (param $0 i32) (result i64)
-  (local $1 i32)
-  (local $2 i32)
-  (local $3 i64)
+  i32.const 11296
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=172
   local.get $0
+  i32.const 11360
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=176
   local.get $0
-  i32.load offset=4
-  i32.const 8
-  i32.add
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#verifyEnd
+  i32.const 11424
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=180
   local.get $0
-  i32.load offset=4
-  local.tee $1
-  i32.const 31
-  i32.shr_u
+  i32.const 11488
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=184
   local.get $0
-  i32.load
-  local.tee $2
-  i32.load offset=8
-  local.get $1
-  i32.const 8
-  i32.add
-  i32.lt_s
-  i32.or
-  if
-   i32.const 2176
-   i32.const 2416
-   i32.const 159
-   i32.const 7
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  local.get $1
-  local.get $2
-  i32.load offset=4
-  i32.add
-  i64.load
-  call $~lib/polyfills/bswap<u64>
+  i32.const 11568
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=188
   local.get $0
+  i32.const 11664
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=192
   local.get $0
-  i32.load offset=4
-  i32.const 8
-  i32.add
-  i32.store offset=4
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress (param $0 i32) (result i32)
-  (local $1 i32)
-  (local $2 i32)
-  (local $3 i32)
+  i32.const 11760
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=196
   local.get $0
+  i32.const 11872
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=200
   local.get $0
-  i32.load offset=4
-  i32.const 32
-  i32.add
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#verifyEnd
-  i32.const 0
-  i32.const 0
-  i32.const 0
-  i32.const 10
-  i32.const 9312
-  call $~lib/rt/__newArray
-  call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#constructor
-  local.set $1
-  loop $for-loop|0
-   local.get $2
-   i32.const 32
-   i32.lt_s
-   if
-    local.get $0
-    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU8
-    local.set $3
-    local.get $1
-    i32.load8_u offset=12
-    if
-     i32.const 9344
-     i32.const 2752
-     i32.const 378
-     i32.const 13
-     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-     unreachable
-    end
-    local.get $2
-    local.get $1
-    i32.load offset=8
-    i32.ge_u
-    if
-     i32.const 2176
-     i32.const 2752
-     i32.const 382
-     i32.const 13
-     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-     unreachable
-    end
-    local.get $2
-    local.get $1
-    i32.load offset=4
-    i32.add
-    local.get $3
-    i32.store8
-    local.get $2
-    i32.const 1
-    i32.add
-    local.set $2
-    br $for-loop|0
-   end
-  end
-  local.get $1
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/script/Networks/NetworkManager#equals (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
+  i32.const 11984
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=204
   local.get $0
-  i32.load offset=8
-  local.get $1
-  i32.load offset=8
-  i32.ne
-  if
-   i32.const 0
-   return
-  end
-  loop $for-loop|0
-   local.get $2
-   local.get $0
-   i32.load offset=8
-   i32.lt_s
-   if
-    local.get $0
-    local.get $2
-    call $~lib/typedarray/Uint8Array#__get
-    local.get $1
-    local.get $2
-    call $~lib/typedarray/Uint8Array#__get
-    i32.ne
-    if
-     i32.const 0
-     return
-    end
-    local.get $2
-    i32.const 1
-    i32.add
-    local.set $2
-    br $for-loop|0
-   end
-  end
-  i32.const 1
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#setEnvironmentVariables (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i64)
-  (local $4 i32)
-  (local $5 i64)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (local $9 i32)
-  (local $10 i32)
-  (local $11 i64)
-  (local $12 i32)
-  (local $13 i32)
-  (local $14 i32)
-  (local $15 i32)
-  local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#constructor
-  local.tee $12
-  i32.const 32
-  i32.const 0
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readBytes
-  local.set $4
-  local.get $12
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
-  local.set $3
-  local.get $12
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
-  local.set $5
-  local.get $12
-  i32.const 32
-  i32.const 0
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readBytes
-  local.set $14
-  local.get $12
-  i32.const 32
-  i32.const 0
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readBytes
-  local.set $1
-  local.get $12
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
-  local.set $6
-  local.get $12
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
-  local.set $7
-  local.get $12
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
-  local.set $8
-  i32.const 32
-  call $~lib/array/Array<u8>#constructor
-  local.set $13
-  loop $for-loop|0
-   local.get $2
-   i32.const 32
-   i32.lt_s
-   if
-    local.get $13
-    local.get $2
-    local.get $12
-    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU8
-    call $~lib/array/Array<u8>#__set
-    local.get $2
-    i32.const 1
-    i32.add
-    local.set $2
-    br $for-loop|0
-   end
-  end
-  local.get $12
-  i32.const 32
-  i32.const 0
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readBytes
-  local.set $9
-  local.get $12
-  i32.const 32
-  i32.const 0
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readBytes
-  local.set $10
-  i32.const 32
-  call $~lib/array/Array<u8>#constructor
-  local.set $15
-  i32.const 0
-  local.set $2
-  loop $for-loop|1
-   local.get $2
-   i32.const 32
-   i32.lt_s
-   if
-    local.get $15
-    local.get $2
-    local.get $12
-    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU8
-    call $~lib/array/Array<u8>#__set
-    local.get $2
-    i32.const 1
-    i32.add
-    local.set $2
-    br $for-loop|1
-   end
-  end
-  local.get $12
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
-  local.set $11
-  local.get $15
-  local.get $13
-  call $~lib/@btc-vision/btc-runtime/runtime/types/ExtendedAddress/ExtendedAddress#constructor
-  local.set $2
-  i32.const 32
-  i32.const 26
-  call $~lib/rt/stub/__new
-  local.tee $12
-  local.get $14
-  i32.store offset=16
-  local.get $12
-  local.get $1
-  i32.store offset=20
-  local.get $12
-  i32.const 0
-  i32.store
-  local.get $12
-  i32.const 0
-  i32.store offset=4
-  local.get $12
-  i32.const 0
-  i32.store offset=8
-  local.get $12
-  i32.const 0
-  i32.const 28
-  call $~lib/rt/stub/__new
-  local.tee $1
-  if (result i32)
-   local.get $1
-  else
-   i32.const 0
-   i32.const 0
-   call $~lib/rt/stub/__new
-  end
-  i32.store offset=12
-  local.get $12
-  i32.const 0
-  i32.store offset=24
-  local.get $12
-  i32.const 0
-  i32.store offset=28
-  local.get $12
-  local.get $8
-  i32.store offset=4
-  local.get $12
-  local.get $2
-  i32.store offset=8
-  i32.const 8
-  i32.const 27
-  call $~lib/rt/stub/__new
-  local.tee $1
-  i64.const 0
-  i64.store
-  local.get $1
-  local.get $11
-  i64.store
-  local.get $12
-  local.get $1
-  i32.store
+  i32.const 12096
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=208
   local.get $0
-  local.get $12
-  i32.store offset=24
+  i32.const 12176
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=212
   local.get $0
-  local.get $7
-  i32.store offset=36
+  i32.const 12272
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=216
   local.get $0
-  local.get $6
-  i32.store offset=40
+  i32.const 12336
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=220
   local.get $0
-  local.get $9
-  i32.store offset=44
+  i32.const 12416
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=224
   local.get $0
-  local.get $10
-  i32.store offset=48
-  global.get $~lib/@btc-vision/btc-runtime/runtime/script/Networks/Network
-  local.set $2
+  i32.const 12496
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=228
   local.get $0
-  i32.load offset=44
-  i32.eqz
-  if
-   i32.const 9424
-   i32.const 5392
-   i32.const 249
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
+  i32.const 12592
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=232
   local.get $0
-  i32.load offset=44
-  local.tee $6
-  i32.eqz
-  if
-   i32.const 9488
-   i32.const 5392
-   i32.const 251
-   i32.const 16
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  local.get $6
-  i32.load offset=8
-  i32.const 32
-  i32.ne
-  if
-   i32.const 9616
-   i32.const 9696
-   i32.const 89
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
+  i32.const 12656
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=236
   local.get $0
-  local.set $1
-  i32.const 0
-  local.set $0
-  block $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/script/Networks/NetworkManager#fromChainId$68
-   local.get $6
-   local.get $2
-   i32.load
-   call $~lib/@btc-vision/btc-runtime/runtime/script/Networks/NetworkManager#equals
-   br_if $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/script/Networks/NetworkManager#fromChainId$68
-   i32.const 1
-   local.set $0
-   local.get $6
-   local.get $2
-   i32.load offset=4
-   call $~lib/@btc-vision/btc-runtime/runtime/script/Networks/NetworkManager#equals
-   br_if $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/script/Networks/NetworkManager#fromChainId$68
-   i32.const 2
-   local.set $0
-   local.get $6
-   local.get $2
-   i32.load offset=12
-   call $~lib/@btc-vision/btc-runtime/runtime/script/Networks/NetworkManager#equals
-   br_if $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/script/Networks/NetworkManager#fromChainId$68
-   i32.const 3
-   local.set $0
-   local.get $6
-   local.get $2
-   i32.load offset=8
-   call $~lib/@btc-vision/btc-runtime/runtime/script/Networks/NetworkManager#equals
-   br_if $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/script/Networks/NetworkManager#fromChainId$68
-   i32.const 9840
-   i32.const 9696
-   i32.const 97
-   i32.const 9
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  local.get $1
+  i32.const 12720
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=240
   local.get $0
-  i32.store offset=16
-  i32.const 24
-  i32.const 24
-  call $~lib/rt/stub/__new
-  local.tee $0
-  local.get $4
-  i32.store offset=4
+  i32.const 12800
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=244
   local.get $0
-  local.get $3
-  i64.store offset=8
+  i32.const 12880
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=248
   local.get $0
-  local.get $5
-  i64.store offset=16
+  i32.const 12944
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=252
   local.get $0
-  i32.const 0
-  i32.store
+  i32.const 13024
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=256
   local.get $0
-  block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU64|inlined.0 (result i32)
-   local.get $3
-   i64.eqz
-   if
-    i64.const 0
-    i64.const 0
-    i64.const 0
-    i64.const 0
-    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU64|inlined.0
-   end
-   local.get $3
-   i64.const 1
-   i64.eq
-   if
-    i64.const 1
-    i64.const 0
-    i64.const 0
-    i64.const 0
-    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU64|inlined.0
-   end
-   local.get $3
-   i64.const 0
-   i64.const 0
-   i64.const 0
-   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-  end
-  i32.store
-  local.get $1
+  i32.const 13088
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=260
   local.get $0
-  i32.store offset=20
-  local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#createContractIfNotExists
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU32 (param $0 i32) (result i32)
-  (local $1 i32)
-  (local $2 i32)
+  i32.const 13184
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=264
   local.get $0
+  i32.const 13296
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=268
   local.get $0
-  i32.load offset=4
-  i32.const 4
-  i32.add
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#verifyEnd
+  i32.const 13376
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  i32.store offset=272
   local.get $0
-  i32.load offset=4
-  local.tee $1
-  i32.const 31
-  i32.shr_u
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=276
   local.get $0
-  i32.load
-  local.tee $2
-  i32.load offset=8
-  local.get $1
-  i32.const 4
-  i32.add
-  i32.lt_s
-  i32.or
-  if
-   i32.const 2176
-   i32.const 2416
-   i32.const 87
-   i32.const 7
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  local.get $1
-  local.get $2
-  i32.load offset=4
-  i32.add
-  i32.load
-  call $~lib/polyfills/bswap<u32>
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=278
   local.get $0
   local.get $0
-  i32.load offset=4
-  i32.const 4
-  i32.add
-  i32.store offset=4
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:contract (param $0 i32) (result i32)
+  i32.load16_u offset=276
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  i32.store offset=280
   local.get $0
-  i32.load offset=12
-  local.tee $0
-  i32.eqz
-  if
-   i32.const 9488
-   i32.const 5392
-   i32.const 158
-   i32.const 16
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
   local.get $0
- )
- (func $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/plugins/Plugin/Plugin>#__get (param $0 i32) (param $1 i32) (result i32)
-  local.get $1
+  i32.load16_u offset=278
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  i32.store offset=284
   local.get $0
-  i32.load offset=12
-  i32.ge_u
-  if
-   i32.const 2176
-   i32.const 4192
-   i32.const 114
-   i32.const 42
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=288
   local.get $0
-  i32.load offset=4
-  local.get $1
-  i32.const 2
-  i32.shl
-  i32.add
-  i32.load
-  local.tee $0
-  i32.eqz
-  if
-   i32.const 9904
-   i32.const 4192
-   i32.const 118
-   i32.const 40
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=290
   local.get $0
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#onExecutionStarted (param $0 i32)
-  (local $1 i32)
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=292
   local.get $0
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:contract
-  local.tee $0
-  i32.const 8
-  i32.sub
-  i32.load
-  drop
-  loop $for-loop|0
-   local.get $1
-   local.get $0
-   i32.load
-   i32.load offset=12
-   i32.lt_s
-   if
-    local.get $0
-    i32.load
-    local.get $1
-    call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/plugins/Plugin/Plugin>#__get
-    drop
-    local.get $1
-    i32.const 1
-    i32.add
-    local.set $1
-    br $for-loop|0
-   end
-  end
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor (param $0 i32) (result i32)
-  (local $1 i32)
-  i32.const 12
-  i32.const 39
-  call $~lib/rt/stub/__new
-  local.tee $1
-  i32.const 0
-  i32.store
-  local.get $1
-  i32.const 0
-  i32.store offset=4
-  local.get $1
-  i32.const 0
-  i32.store offset=8
-  local.get $1
-  i32.const 0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=294
   local.get $0
-  call $~lib/typedarray/Uint8Array#constructor
-  local.tee $0
-  i32.store offset=8
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=296
   local.get $0
-  i32.load
-  local.set $0
-  i32.const 1
-  global.set $~argumentsLength
-  local.get $1
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=298
   local.get $0
-  call $~lib/dataview/DataView#constructor@varargs
-  i32.store offset=4
-  local.get $1
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#allocSafe (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  local.get $1
-  i32.const -1
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=300
   local.get $0
-  i32.load
-  i32.sub
-  i32.gt_u
-  if
-   i32.const 10464
-   i32.const 10320
-   i32.const 480
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=302
   local.get $0
-  i32.load offset=4
-  i32.load offset=8
-  local.tee $2
-  local.get $1
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=304
   local.get $0
-  i32.load
-  i32.add
-  local.tee $1
-  i32.lt_u
-  if
-   i32.const 10784
-   i32.const 1
-   local.get $1
-   local.get $2
-   i32.sub
-   local.get $2
-   i32.add
-   call $~lib/util/number/itoa32
-   call $~lib/staticarray/StaticArray<~lib/string/String>#__uset
-   i32.const 10544
-   i32.const 10784
-   call $~lib/staticarray/StaticArray<~lib/string/String>#join
-   call $~lib/string/String#concat
-   i32.const 10816
-   local.get $0
-   i32.load offset=4
-   i32.load offset=8
-   call $~lib/util/number/itoa32
-   call $~lib/string/String#concat
-   call $~lib/string/String#concat
-   i32.const 10320
-   i32.const 505
-   i32.const 9
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8 (param $0 i32) (param $1 i32)
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=306
   local.get $0
-  i32.const 1
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#allocSafe
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=308
   local.get $0
-  i32.load offset=4
   local.get $0
-  i32.load
-  local.get $1
-  call $~lib/dataview/DataView#setUint8
+  i32.load16_u offset=308
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  i32.store offset=312
   local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=316
   local.get $0
-  i32.load
-  i32.const 1
-  i32.add
-  i32.store
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeBytes (param $0 i32) (param $1 i32)
-  (local $2 i32)
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=318
   local.get $0
-  local.get $1
-  i32.load offset=8
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#allocSafe
-  loop $for-loop|0
-   local.get $2
-   local.get $1
-   i32.load offset=8
-   i32.lt_s
-   if
-    local.get $0
-    local.get $1
-    local.get $2
-    call $~lib/typedarray/Uint8Array#__get
-    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
-    local.get $2
-    i32.const 1
-    i32.add
-    local.set $2
-    br $for-loop|0
-   end
-  end
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress (param $0 i32) (param $1 i32)
-  local.get $1
-  i32.load offset=8
-  i32.const 32
-  i32.gt_s
-  if
-   local.get $1
-   i32.load offset=8
-   call $~lib/util/number/itoa32
-   local.set $0
-   i32.const 32
-   call $~lib/util/number/itoa32
-   local.set $1
-   i32.const 10272
-   i32.const 1
-   local.get $0
-   call $~lib/staticarray/StaticArray<~lib/string/String>#__uset
-   i32.const 10272
-   i32.const 3
-   local.get $1
-   call $~lib/staticarray/StaticArray<~lib/string/String>#__uset
-   i32.const 10272
-   call $~lib/staticarray/StaticArray<~lib/string/String>#join
-   i32.const 10320
-   i32.const 492
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=320
   local.get $0
-  local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeBytes
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#execute (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
-  (local $3 i32)
-  (local $4 i32)
-  i32.const 10032
-  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
-  local.get $1
-  i32.eq
-  if
-   i32.const 32
-   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
-   local.set $0
-   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-   local.tee $1
-   i32.load offset=36
-   i32.eqz
-   if
-    i32.const 10080
-    i32.const 5392
-    i32.const 208
-    i32.const 13
-    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-    unreachable
-   end
-   local.get $1
-   i32.load offset=36
-   local.tee $1
-   i32.eqz
-   if
-    i32.const 9488
-    i32.const 5392
-    i32.const 210
-    i32.const 16
-    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-    unreachable
-   end
-   local.get $0
-   local.get $1
-   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
-   local.get $0
-   return
-  end
-  local.get $2
-  i32.load offset=4
-  local.set $4
-  loop $for-loop|1
-   local.get $3
-   local.get $0
-   i32.load
-   i32.load offset=12
-   i32.lt_s
-   if
-    local.get $0
-    i32.load
-    local.get $3
-    call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/plugins/Plugin/Plugin>#__get
-    i32.const 8
-    i32.sub
-    i32.load
-    drop
-    local.get $2
-    local.get $4
-    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#verifyEnd
-    local.get $2
-    local.get $4
-    i32.store offset=4
-    local.get $3
-    i32.const 1
-    i32.add
-    local.set $3
-    br $for-loop|1
-   end
-  end
-  i32.const 10864
-  local.get $1
-  call $~lib/util/number/utoa32
-  call $~lib/string/String#concat
-  i32.const 10928
-  i32.const 92
-  i32.const 9
-  call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-  unreachable
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/exports/index/execute (param $0 i32) (result i32)
-  (local $1 i64)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  i32.const 0
-  i32.const 512
-  i32.const 512
-  call $~lib/arraybuffer/ArrayBuffer#constructor
-  local.tee $2
-  call $~lib/@btc-vision/btc-runtime/runtime/env/global/getEnvironmentVariables
-  i32.const 1
-  global.set $~argumentsLength
   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  local.get $2
-  call $~lib/typedarray/Uint8Array.wrap@varargs
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#setEnvironmentVariables
-  i32.const 0
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=322
   local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=324
   local.get $0
-  call $~lib/arraybuffer/ArrayBuffer#constructor
-  local.tee $0
-  call $~lib/@btc-vision/btc-runtime/runtime/env/global/getCalldata
-  i32.const 1
-  global.set $~argumentsLength
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=326
+  local.get $0
+  local.get $0
+  i32.load16_u offset=324
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  i32.store offset=328
+  local.get $0
+  local.get $0
+  i32.load16_u offset=326
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  i32.store offset=332
   local.get $0
-  call $~lib/typedarray/Uint8Array.wrap@varargs
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#constructor
-  local.tee $0
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU32
-  local.set $2
   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#onExecutionStarted
-  block $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#execute@override$293
-   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-   call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:contract
-   local.tee $4
-   i32.const 8
-   i32.sub
-   i32.load
-   i32.const 35
-   i32.eq
-   if
-    local.get $2
-    i32.const -2061091769
-    i32.eq
-    if
-     local.get $4
-     local.get $0
-     call $src/PredictionMarket/PredictionMarket#createMarket
-     local.set $0
-     br $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#execute@override$293
-    end
-    local.get $2
-    i32.const -1678459728
-    i32.eq
-    if
-     local.get $4
-     local.get $0
-     call $src/PredictionMarket/PredictionMarket#placeBet
-     local.set $0
-     br $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#execute@override$293
-    end
-    local.get $2
-    i32.const 1164343772
-    i32.eq
-    if
-     local.get $4
-     local.get $0
-     call $src/PredictionMarket/PredictionMarket#resolveMarket
-     local.set $0
-     br $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#execute@override$293
-    end
-    local.get $2
-    i32.const -587005880
-    i32.eq
-    if
-     local.get $4
-     local.get $0
-     call $src/PredictionMarket/PredictionMarket#claimWinnings
-     local.set $0
-     br $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#execute@override$293
-    end
-    local.get $2
-    i32.const 567178589
-    i32.eq
-    if
-     local.get $0
-     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
-     call $src/PredictionMarket/PredictionMarket#toSubPointer
-     local.set $0
-     local.get $4
-     i32.load16_u offset=52
-     local.get $0
-     call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-     call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
-     local.set $5
-     local.get $4
-     local.get $0
-     call $src/PredictionMarket/PredictionMarket#getMarketEndBlock
-     local.set $1
-     local.get $4
-     i32.load16_u offset=56
-     local.get $0
-     call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-     call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
-     local.set $2
-     local.get $4
-     i32.load16_u offset=58
-     local.get $0
-     call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-     call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
-     local.set $3
-     local.get $4
-     i32.load16_u offset=60
-     local.get $0
-     call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-     call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
-     local.set $6
-     local.get $4
-     i32.load16_u offset=62
-     local.get $0
-     call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-     call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
-     local.set $7
-     local.get $4
-     i32.load16_u offset=64
-     local.get $0
-     call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-     call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
-     local.set $4
-     i32.const 232
-     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
-     local.tee $0
-     local.get $5
-     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
-     local.get $0
-     local.get $1
-     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
-     local.get $0
-     local.get $2
-     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
-     local.get $0
-     local.get $3
-     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
-     local.get $0
-     local.get $6
-     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
-     local.get $0
-     local.get $7
-     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
-     local.get $0
-     local.get $4
-     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
-     br $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#execute@override$293
-    end
-    local.get $2
-    i32.const 744674593
-    i32.eq
-    if
-     local.get $0
-     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
-     local.get $0
-     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
-     local.set $0
-     call $src/PredictionMarket/PredictionMarket#toSubPointer
-     local.set $2
-     local.get $4
-     i32.load16_u offset=66
-     local.get $2
-     local.get $0
-     call $src/PredictionMarket/PredictionMarket#getUserBet
-     local.set $3
-     local.get $4
-     i32.load16_u offset=68
-     local.get $2
-     local.get $0
-     call $src/PredictionMarket/PredictionMarket#getUserBet
-     local.set $5
-     local.get $4
-     i32.load16_u offset=70
-     local.get $2
-     local.get $0
-     call $src/PredictionMarket/PredictionMarket#getUserBet
-     local.set $2
-     i32.const 65
-     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
-     local.tee $0
-     local.get $3
-     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
-     local.get $0
-     local.get $5
-     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
-     i64.const 0
-     i64.const 0
-     i64.const 0
-     i64.const 0
-     call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-     local.set $3
-     local.get $0
-     local.get $2
-     i64.load
-     local.get $3
-     i64.load
-     i64.eq
-     if (result i32)
-      local.get $2
-      i64.load offset=8
-      local.get $3
-      i64.load offset=8
-      i64.eq
-     else
-      i32.const 0
-     end
-     if (result i32)
-      local.get $2
-      i64.load offset=16
-      local.get $3
-      i64.load offset=16
-      i64.eq
-     else
-      i32.const 0
-     end
-     if (result i32)
-      local.get $2
-      i64.load offset=24
-      local.get $3
-      i64.load offset=24
-      i64.eq
-     else
-      i32.const 0
-     end
-     i32.eqz
-     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
-     br $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#execute@override$293
-    end
-    local.get $2
-    i32.const -1354626788
-    i32.eq
-    if
-     i32.const 32
-     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
-     local.tee $0
-     local.get $4
-     i32.load offset=44
-     call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
-     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
-     br $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#execute@override$293
-    end
-    local.get $2
-    i32.const 337851433
-    i32.eq
-    if
-     i32.const 32
-     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
-     local.tee $0
-     local.get $4
-     i32.load offset=48
-     call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
-     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
-     br $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#execute@override$293
-    end
-    local.get $2
-    i32.const -1839686031
-    i32.eq
-    if
-     i32.const 32
-     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
-     local.set $0
-     global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-     local.tee $2
-     i32.load offset=24
-     i32.eqz
-     if
-      i32.const 12000
-      i32.const 5392
-      i32.const 145
-      i32.const 13
-      call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-      unreachable
-     end
-     local.get $2
-     i32.load offset=24
-     local.tee $2
-     i32.eqz
-     if
-      i32.const 9488
-      i32.const 5392
-      i32.const 147
-      i32.const 16
-      call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-      unreachable
-     end
-     local.get $2
-     i32.load offset=4
-     local.tee $2
-     i32.load offset=8
-     i32.const 32
-     i32.ne
-     if
-      i32.const 2304
-      i32.const 5888
-      i32.const 220
-      i32.const 30
-      call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-      unreachable
-     end
-     local.get $0
-     local.get $2
-     i32.load offset=4
-     local.tee $2
-     i64.load offset=24
-     call $~lib/polyfills/bswap<u64>
-     local.get $2
-     i64.load offset=16
-     call $~lib/polyfills/bswap<u64>
-     local.get $2
-     i64.load offset=8
-     call $~lib/polyfills/bswap<u64>
-     local.get $2
-     i64.load
-     call $~lib/polyfills/bswap<u64>
-     call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
-     br $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#execute@override$293
-    end
-    local.get $4
-    local.get $2
-    local.get $0
-    call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#execute
-    local.set $0
-    br $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#execute@override$293
-   end
-   local.get $4
-   local.get $2
-   local.get $0
-   call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#execute
-   local.set $0
-  end
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=336
+  local.get $0
   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#onExecutionStarted
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=338
   local.get $0
-  i32.load offset=8
-  i32.load
-  local.tee $0
-  i32.const 20
-  i32.sub
-  i32.load offset=16
-  local.tee $2
-  i32.const 0
-  i32.gt_s
-  if
-   i32.const 0
-   local.get $0
-   local.get $2
-   call $~lib/@btc-vision/btc-runtime/runtime/env/global/env_exit
-  end
-  i32.const 0
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#onDeployment (param $0 i32)
-  (local $1 i32)
-  loop $for-loop|0
-   local.get $1
-   local.get $0
-   i32.load
-   i32.load offset=12
-   i32.lt_s
-   if
-    local.get $0
-    i32.load
-    local.get $1
-    call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/plugins/Plugin/Plugin>#__get
-    drop
-    local.get $1
-    i32.const 1
-    i32.add
-    local.set $1
-    br $for-loop|0
-   end
-  end
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/exports/index/onDeploy (param $0 i32) (result i32)
-  (local $1 i32)
-  i32.const 0
-  i32.const 512
-  i32.const 512
-  call $~lib/arraybuffer/ArrayBuffer#constructor
-  local.tee $1
-  call $~lib/@btc-vision/btc-runtime/runtime/env/global/getEnvironmentVariables
-  i32.const 1
-  global.set $~argumentsLength
   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  local.get $1
-  call $~lib/typedarray/Uint8Array.wrap@varargs
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#setEnvironmentVariables
-  i32.const 0
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=340
   local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=342
   local.get $0
-  call $~lib/arraybuffer/ArrayBuffer#constructor
-  local.tee $0
-  call $~lib/@btc-vision/btc-runtime/runtime/env/global/getCalldata
-  i32.const 1
-  global.set $~argumentsLength
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=344
   local.get $0
-  call $~lib/typedarray/Uint8Array.wrap@varargs
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#constructor
-  drop
   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#onExecutionStarted
-  block $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#onDeployment@override$298
-   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-   call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:contract
-   local.tee $0
-   i32.const 8
-   i32.sub
-   i32.load
-   i32.const 35
-   i32.eq
-   if
-    global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-    local.tee $1
-    i32.load offset=24
-    i32.eqz
-    if
-     i32.const 12000
-     i32.const 5392
-     i32.const 145
-     i32.const 13
-     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-     unreachable
-    end
-    local.get $1
-    i32.load offset=24
-    local.tee $1
-    i32.eqz
-    if
-     i32.const 9488
-     i32.const 5392
-     i32.const 147
-     i32.const 16
-     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-     unreachable
-    end
-    local.get $0
-    i32.load offset=48
-    local.get $1
-    i32.load offset=4
-    local.tee $1
-    i32.load offset=8
-    i32.const 32
-    i32.ne
-    if
-     i32.const 2304
-     i32.const 5888
-     i32.const 220
-     i32.const 30
-     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-     unreachable
-    end
-    local.get $1
-    i32.load offset=4
-    local.tee $0
-    i64.load offset=24
-    call $~lib/polyfills/bswap<u64>
-    local.get $0
-    i64.load offset=16
-    call $~lib/polyfills/bswap<u64>
-    local.get $0
-    i64.load offset=8
-    call $~lib/polyfills/bswap<u64>
-    local.get $0
-    i64.load
-    call $~lib/polyfills/bswap<u64>
-    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-    call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
-    br $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#onDeployment@override$298
-   end
-   local.get $0
-   call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#onDeployment
-  end
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=346
+  local.get $0
   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#onExecutionStarted
-  i32.const 0
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/exports/index/onUpdate (param $0 i32) (result i32)
-  (local $1 i32)
-  i32.const 0
-  i32.const 512
-  i32.const 512
-  call $~lib/arraybuffer/ArrayBuffer#constructor
-  local.tee $1
-  call $~lib/@btc-vision/btc-runtime/runtime/env/global/getEnvironmentVariables
-  i32.const 1
-  global.set $~argumentsLength
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=348
+  local.get $0
   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  local.get $1
-  call $~lib/typedarray/Uint8Array.wrap@varargs
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#setEnvironmentVariables
-  i32.const 0
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=350
   local.get $0
   local.get $0
-  call $~lib/arraybuffer/ArrayBuffer#constructor
-  local.tee $0
-  call $~lib/@btc-vision/btc-runtime/runtime/env/global/getCalldata
-  i32.const 1
-  global.set $~argumentsLength
+  i32.load16_u offset=348
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  i32.store offset=352
+  local.get $0
+  local.get $0
+  i32.load16_u offset=350
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  i32.store offset=356
   local.get $0
-  call $~lib/typedarray/Uint8Array.wrap@varargs
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#constructor
-  drop
   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#onExecutionStarted
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=360
+  local.get $0
   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:contract
-  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#onDeployment
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=362
+  local.get $0
   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#onExecutionStarted
-  i32.const 0
- )
- (func $~lib/string/String.UTF8.decodeUnsafe (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=364
   local.get $0
-  local.get $1
-  i32.add
-  local.tee $3
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=366
   local.get $0
-  i32.lt_u
-  if
-   i32.const 0
-   i32.const 2128
-   i32.const 770
-   i32.const 7
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  local.get $1
-  i32.const 1
-  i32.shl
-  i32.const 2
-  call $~lib/rt/stub/__new
-  local.tee $4
-  local.set $1
-  loop $while-continue|0
-   local.get $0
-   local.get $3
-   i32.lt_u
-   if
-    block $while-break|0
-     local.get $0
-     i32.load8_u
-     local.set $5
-     local.get $0
-     i32.const 1
-     i32.add
-     local.set $0
-     local.get $5
-     i32.const 128
-     i32.and
-     if
-      local.get $0
-      local.get $3
-      i32.eq
-      br_if $while-break|0
-      local.get $0
-      i32.load8_u
-      i32.const 63
-      i32.and
-      local.set $6
-      local.get $0
-      i32.const 1
-      i32.add
-      local.set $0
-      local.get $5
-      i32.const 224
-      i32.and
-      i32.const 192
-      i32.eq
-      if
-       local.get $1
-       local.get $5
-       i32.const 31
-       i32.and
-       i32.const 6
-       i32.shl
-       local.get $6
-       i32.or
-       i32.store16
-      else
-       local.get $0
-       local.get $3
-       i32.eq
-       br_if $while-break|0
-       local.get $0
-       i32.load8_u
-       i32.const 63
-       i32.and
-       local.set $2
-       local.get $0
-       i32.const 1
-       i32.add
-       local.set $0
-       local.get $5
-       i32.const 240
-       i32.and
-       i32.const 224
-       i32.eq
-       if
-        local.get $5
-        i32.const 15
-        i32.and
-        i32.const 12
-        i32.shl
-        local.get $6
-        i32.const 6
-        i32.shl
-        i32.or
-        local.get $2
-        i32.or
-        local.set $2
-       else
-        local.get $0
-        local.get $3
-        i32.eq
-        br_if $while-break|0
-        local.get $0
-        i32.load8_u
-        i32.const 63
-        i32.and
-        local.get $5
-        i32.const 7
-        i32.and
-        i32.const 18
-        i32.shl
-        local.get $6
-        i32.const 12
-        i32.shl
-        i32.or
-        local.get $2
-        i32.const 6
-        i32.shl
-        i32.or
-        i32.or
-        local.set $2
-        local.get $0
-        i32.const 1
-        i32.add
-        local.set $0
-       end
-       local.get $2
-       i32.const 65536
-       i32.lt_u
-       if
-        local.get $1
-        local.get $2
-        i32.store16
-       else
-        local.get $1
-        local.get $2
-        i32.const 65536
-        i32.sub
-        local.tee $2
-        i32.const 10
-        i32.shr_u
-        i32.const 55296
-        i32.or
-        local.get $2
-        i32.const 1023
-        i32.and
-        i32.const 56320
-        i32.or
-        i32.const 16
-        i32.shl
-        i32.or
-        i32.store
-        local.get $1
-        i32.const 2
-        i32.add
-        local.set $1
-       end
-      end
-     else
-      local.get $1
-      local.get $5
-      i32.store16
-     end
-     local.get $1
-     i32.const 2
-     i32.add
-     local.set $1
-     br $while-continue|0
-    end
-   end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=368
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=370
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=372
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=374
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=376
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=378
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=380
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=382
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=384
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=386
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=388
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=390
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=392
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=394
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=396
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=398
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=400
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=402
+  local.get $0
+  local.get $0
+  i32.load16_u offset=394
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  i32.store offset=404
+  local.get $0
+  local.get $0
+  i32.load16_u offset=396
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  i32.store offset=408
+  local.get $0
+  local.get $0
+  i32.load16_u offset=398
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  i32.store offset=412
+  local.get $0
+  local.get $0
+  i32.load16_u offset=400
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  i32.store offset=416
+  local.get $0
+  local.get $0
+  i32.load16_u offset=402
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  i32.store offset=420
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=424
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=426
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=428
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=430
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=432
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=434
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=436
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=438
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=440
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=442
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=444
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=446
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=448
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=450
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=452
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=454
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=456
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=458
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=460
+  local.get $0
+  local.get $0
+  i32.load16_u offset=442
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  i32.store offset=464
+  local.get $0
+  local.get $0
+  i32.load16_u offset=444
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  i32.store offset=468
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=472
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=474
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=476
+  local.get $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:nextPointer
+  i32.store16 offset=478
+  local.get $0
+  i32.eqz
+  if
+   i32.const 4
+   i32.const 20
+   call $~lib/rt/stub/__new
+   local.set $0
   end
-  local.get $4
-  local.get $1
-  local.get $4
-  i32.sub
-  call $~lib/rt/stub/__renew
- )
- (func $~lib/array/Array<~lib/typedarray/Uint8Array>#__uget (param $0 i32) (param $1 i32) (result i32)
   local.get $0
-  i32.load offset=4
-  local.get $1
+  i32.eqz
+  if
+   i32.const 0
+   i32.const 0
+   call $~lib/rt/stub/__new
+   local.set $0
+  end
+  local.get $0
+  i32.const 0
   i32.const 2
-  i32.shl
-  i32.add
-  i32.load
+  i32.const 23
+  i32.const 7136
+  call $~lib/rt/__newArray
+  i32.store
+  local.get $0
  )
- (func $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#isLastIndex (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
+ (func $start:src/index~anonymous|0 (result i32)
+  call $src/PredictionMarket/PredictionMarket#constructor
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#createContractIfNotExists (param $0 i32)
   local.get $0
-  i32.load offset=8
-  i32.const -1
-  i32.ne
+  i32.load offset=28
+  i32.eqz
+  if
+   i32.const 13936
+   i32.const 5168
+   i32.const 1324
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load offset=12
+  i32.eqz
   if
+   i32.const 0
+   global.set $~argumentsLength
    local.get $0
-   i32.load
    local.get $0
-   i32.load offset=8
-   call $~lib/array/Array<~lib/typedarray/Uint8Array>#__uget
-   local.tee $2
-   i32.load offset=8
-   local.get $1
-   i32.load offset=8
-   i32.eq
-   if
-    local.get $1
-    i32.load offset=8
-    local.set $0
-    local.get $1
-    i32.load offset=4
-    local.set $3
-    i32.const 0
-    local.set $1
-    block $~lib/util/memory/memcmp|inlined.0
-     local.get $3
-     local.get $2
-     i32.load offset=4
-     local.tee $2
-     i32.eq
-     br_if $~lib/util/memory/memcmp|inlined.0
-     local.get $2
-     i32.const 7
-     i32.and
-     local.get $3
-     i32.const 7
-     i32.and
-     i32.eq
-     if
-      loop $while-continue|0
-       local.get $2
-       i32.const 7
-       i32.and
-       if
-        i32.const 0
-        local.set $1
-        local.get $0
-        i32.eqz
-        br_if $~lib/util/memory/memcmp|inlined.0
-        local.get $2
-        i32.load8_u
-        local.tee $4
-        local.get $3
-        i32.load8_u
-        local.tee $5
-        i32.sub
-        local.set $1
-        local.get $4
-        local.get $5
-        i32.ne
-        br_if $~lib/util/memory/memcmp|inlined.0
-        local.get $0
-        i32.const 1
-        i32.sub
-        local.set $0
-        local.get $2
-        i32.const 1
-        i32.add
-        local.set $2
-        local.get $3
-        i32.const 1
-        i32.add
-        local.set $3
-        br $while-continue|0
-       end
-      end
-      loop $while-continue|1
-       local.get $0
-       i32.const 8
-       i32.ge_u
-       if
-        local.get $2
-        i64.load
-        local.get $3
-        i64.load
-        i64.eq
-        if
-         local.get $2
-         i32.const 8
-         i32.add
-         local.set $2
-         local.get $3
-         i32.const 8
-         i32.add
-         local.set $3
-         local.get $0
-         i32.const 8
-         i32.sub
-         local.set $0
-         br $while-continue|1
-        end
-       end
-      end
-     end
-     loop $while-continue|2
-      local.get $0
-      local.tee $1
-      i32.const 1
-      i32.sub
-      local.set $0
-      local.get $1
-      if
-       local.get $2
-       i32.load8_u
-       local.tee $4
-       local.get $3
-       i32.load8_u
-       local.tee $5
-       i32.sub
-       local.set $1
-       local.get $4
-       local.get $5
-       i32.ne
-       br_if $~lib/util/memory/memcmp|inlined.0
-       local.get $2
-       i32.const 1
-       i32.add
-       local.set $2
-       local.get $3
-       i32.const 1
-       i32.add
-       local.set $3
-       br $while-continue|2
-      end
-     end
-     i32.const 0
-     local.set $1
-    end
-    local.get $1
-    i32.eqz
-    if
-     i32.const 1
-     return
-    end
-   end
+   i32.load offset=28
+   i32.load
+   call_indirect $0 (type $8)
+   i32.store offset=12
   end
-  i32.const 0
  )
- (func $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#indexOf (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (local $9 i32)
-  (local $10 i64)
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#constructor (param $0 i32) (result i32)
+  (local $1 i32)
+  i32.const 8
+  i32.const 38
+  call $~lib/rt/stub/__new
+  local.tee $1
+  i32.const 0
+  i32.store
+  local.get $1
+  i32.const 0
+  i32.store offset=4
   local.get $0
+  i32.load
+  local.set $0
+  i32.const 1
+  global.set $~argumentsLength
   local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#isLastIndex
+  local.get $0
+  call $~lib/dataview/DataView#constructor@varargs
+  i32.store
+  local.get $1
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#verifyEnd (param $0 i32) (param $1 i32)
+  local.get $1
+  local.get $0
+  i32.load
+  i32.load offset=8
+  i32.gt_s
   if
+   i32.const 14176
+   i32.const 1
+   local.get $1
+   call $~lib/util/number/itoa32
+   call $~lib/staticarray/StaticArray<~lib/string/String>#__uset
+   i32.const 14176
+   call $~lib/staticarray/StaticArray<~lib/string/String>#join
+   i32.const 14320
+   i32.const 1
    local.get $0
+   i32.load
    i32.load offset=8
-   return
+   call $~lib/util/number/itoa32
+   call $~lib/staticarray/StaticArray<~lib/string/String>#__uset
+   i32.const 14320
+   call $~lib/staticarray/StaticArray<~lib/string/String>#join
+   call $~lib/string/String#concat
+   i32.const 14352
+   i32.const 442
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
   end
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU8 (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  local.get $0
+  local.get $0
+  i32.load offset=4
+  i32.const 1
+  i32.add
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#verifyEnd
+  local.get $0
+  i32.load offset=4
+  local.tee $1
   local.get $0
   i32.load
-  i32.load offset=12
   local.tee $2
-  i32.eqz
+  i32.load offset=8
+  i32.ge_u
   if
-   i32.const -1
-   return
+   i32.const 2176
+   i32.const 2416
+   i32.const 72
+   i32.const 50
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
   end
   local.get $1
+  local.get $2
   i32.load offset=4
-  local.set $4
-  local.get $1
-  i32.load offset=8
-  local.tee $3
-  i32.const 8
-  i32.ge_s
-  if
-   local.get $4
-   i64.load
-   local.set $10
-   local.get $2
-   i32.const 1
-   i32.sub
-   local.set $9
-   loop $for-loop|0
-    local.get $9
-    i32.const 0
-    i32.ge_s
-    if
-     block $for-continue|0
-      local.get $0
+  i32.add
+  i32.load8_u
+  local.get $0
+  local.get $0
+  i32.load offset=4
+  i32.const 1
+  i32.add
+  i32.store offset=4
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readBytes (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  i32.const 0
+  local.get $1
+  call $~lib/typedarray/Uint8Array#constructor
+  local.set $3
+  loop $for-loop|0
+   local.get $1
+   local.get $4
+   i32.gt_u
+   if
+    block $for-break0
+     local.get $0
+     call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU8
+     local.tee $5
+     i32.const 1
+     local.get $2
+     select
+     i32.eqz
+     if
+      local.get $3
+      i32.load offset=8
+      local.set $1
+      i32.const 12
+      i32.const 7
+      call $~lib/rt/stub/__new
+      local.tee $0
+      local.get $3
       i32.load
-      local.get $9
-      call $~lib/array/Array<~lib/typedarray/Uint8Array>#__uget
+      i32.store
+      local.get $0
+      local.get $1
+      i32.const 0
+      local.get $1
+      i32.const 0
+      i32.le_s
+      select
       local.tee $2
-      i32.load offset=8
       local.get $3
-      i32.ne
-      br_if $for-continue|0
-      local.get $2
       i32.load offset=4
-      i64.load
-      local.get $10
-      i64.ne
-      br_if $for-continue|0
-      local.get $3
-      local.set $1
+      i32.add
+      i32.store offset=4
+      local.get $0
+      local.get $4
       i32.const 0
-      local.set $8
-      block $~lib/util/memory/memcmp|inlined.1
-       local.get $2
-       i32.load offset=4
-       local.tee $7
+      i32.lt_s
+      if (result i32)
+       local.get $1
        local.get $4
-       local.tee $2
-       i32.eq
-       br_if $~lib/util/memory/memcmp|inlined.1
-       local.get $7
-       i32.const 7
-       i32.and
-       local.get $2
-       i32.const 7
-       i32.and
-       i32.eq
-       if
-        loop $while-continue|1
-         local.get $7
-         i32.const 7
-         i32.and
-         if
-          i32.const 0
-          local.set $8
-          local.get $1
-          i32.eqz
-          br_if $~lib/util/memory/memcmp|inlined.1
-          local.get $7
-          i32.load8_u
-          local.tee $6
-          local.get $2
-          i32.load8_u
-          local.tee $5
-          i32.sub
-          local.set $8
-          local.get $5
-          local.get $6
-          i32.ne
-          br_if $~lib/util/memory/memcmp|inlined.1
-          local.get $1
-          i32.const 1
-          i32.sub
-          local.set $1
-          local.get $7
-          i32.const 1
-          i32.add
-          local.set $7
-          local.get $2
-          i32.const 1
-          i32.add
-          local.set $2
-          br $while-continue|1
-         end
-        end
-        loop $while-continue|2
-         local.get $1
-         i32.const 8
-         i32.ge_u
-         if
-          local.get $7
-          i64.load
-          local.get $2
-          i64.load
-          i64.eq
-          if
-           local.get $7
-           i32.const 8
-           i32.add
-           local.set $7
-           local.get $2
-           i32.const 8
-           i32.add
-           local.set $2
-           local.get $1
-           i32.const 8
-           i32.sub
-           local.set $1
-           br $while-continue|2
-          end
-         end
-        end
-       end
-       loop $while-continue|3
-        local.get $1
-        local.tee $5
-        i32.const 1
-        i32.sub
-        local.set $1
-        local.get $5
-        if
-         local.get $7
-         i32.load8_u
-         local.tee $6
-         local.get $2
-         i32.load8_u
-         local.tee $5
-         i32.sub
-         local.set $8
-         local.get $5
-         local.get $6
-         i32.ne
-         br_if $~lib/util/memory/memcmp|inlined.1
-         local.get $7
-         i32.const 1
-         i32.add
-         local.set $7
-         local.get $2
-         i32.const 1
-         i32.add
-         local.set $2
-         br $while-continue|3
-        end
-       end
+       i32.add
+       local.tee $1
        i32.const 0
-       local.set $8
-      end
-      local.get $8
-      i32.eqz
-      if
-       local.get $0
-       local.get $9
-       i32.store offset=8
-       local.get $9
-       return
+       local.get $1
+       i32.const 0
+       i32.gt_s
+       select
+      else
+       local.get $4
+       local.get $1
+       local.get $1
+       local.get $4
+       i32.gt_s
+       select
       end
+      local.tee $1
+      local.get $2
+      local.get $1
+      local.get $2
+      i32.gt_s
+      select
+      local.get $2
+      i32.sub
+      i32.store offset=8
+      local.get $0
+      local.set $3
+      br $for-break0
      end
-     local.get $9
+     local.get $3
+     local.get $4
+     local.get $5
+     call $~lib/typedarray/Uint8Array#__set
+     local.get $4
      i32.const 1
-     i32.sub
-     local.set $9
+     i32.add
+     local.set $4
      br $for-loop|0
     end
    end
-  else
-   local.get $2
-   i32.const 1
-   i32.sub
-   local.set $9
-   loop $for-loop|4
-    local.get $9
-    i32.const 0
-    i32.ge_s
-    if
-     local.get $3
-     local.get $0
-     i32.load
-     local.get $9
-     call $~lib/array/Array<~lib/typedarray/Uint8Array>#__uget
-     local.tee $2
-     i32.load offset=8
-     i32.eq
-     if
-      local.get $3
-      local.set $1
-      i32.const 0
-      local.set $8
-      block $~lib/util/memory/memcmp|inlined.2
-       local.get $2
-       i32.load offset=4
-       local.tee $7
-       local.get $4
-       local.tee $2
-       i32.eq
-       br_if $~lib/util/memory/memcmp|inlined.2
-       local.get $7
-       i32.const 7
-       i32.and
-       local.get $2
-       i32.const 7
-       i32.and
-       i32.eq
-       if
-        loop $while-continue|5
-         local.get $7
-         i32.const 7
-         i32.and
-         if
-          i32.const 0
-          local.set $8
-          local.get $1
-          i32.eqz
-          br_if $~lib/util/memory/memcmp|inlined.2
-          local.get $7
-          i32.load8_u
-          local.tee $6
-          local.get $2
-          i32.load8_u
-          local.tee $5
-          i32.sub
-          local.set $8
-          local.get $5
-          local.get $6
-          i32.ne
-          br_if $~lib/util/memory/memcmp|inlined.2
-          local.get $1
-          i32.const 1
-          i32.sub
-          local.set $1
-          local.get $7
-          i32.const 1
-          i32.add
-          local.set $7
-          local.get $2
-          i32.const 1
-          i32.add
-          local.set $2
-          br $while-continue|5
-         end
-        end
-        loop $while-continue|6
-         local.get $1
-         i32.const 8
-         i32.ge_u
-         if
-          local.get $7
-          i64.load
-          local.get $2
-          i64.load
-          i64.eq
-          if
-           local.get $7
-           i32.const 8
-           i32.add
-           local.set $7
-           local.get $2
-           i32.const 8
-           i32.add
-           local.set $2
-           local.get $1
-           i32.const 8
-           i32.sub
-           local.set $1
-           br $while-continue|6
-          end
-         end
-        end
-       end
-       loop $while-continue|7
-        local.get $1
-        local.tee $5
-        i32.const 1
-        i32.sub
-        local.set $1
-        local.get $5
-        if
-         local.get $7
-         i32.load8_u
-         local.tee $6
-         local.get $2
-         i32.load8_u
-         local.tee $5
-         i32.sub
-         local.set $8
-         local.get $5
-         local.get $6
-         i32.ne
-         br_if $~lib/util/memory/memcmp|inlined.2
-         local.get $7
-         i32.const 1
-         i32.add
-         local.set $7
-         local.get $2
-         i32.const 1
-         i32.add
-         local.set $2
-         br $while-continue|7
-        end
-       end
-       i32.const 0
-       local.set $8
-      end
-      local.get $8
-      i32.eqz
-      if
-       local.get $0
-       local.get $9
-       i32.store offset=8
-       local.get $9
-       return
-      end
-     end
-     local.get $9
-     i32.const 1
-     i32.sub
-     local.set $9
-     br $for-loop|4
-    end
-   end
   end
-  i32.const -1
+  local.get $3
  )
- (func $~lib/array/Array<~lib/typedarray/Uint8Array>#push (param $0 i32) (param $1 i32)
+ (func $~lib/polyfills/bswap<u64> (param $0 i64) (result i64)
+  local.get $0
+  i64.const 8
+  i64.shr_u
+  i64.const 71777214294589695
+  i64.and
+  local.get $0
+  i64.const 71777214294589695
+  i64.and
+  i64.const 8
+  i64.shl
+  i64.or
+  local.tee $0
+  i64.const 16
+  i64.shr_u
+  i64.const 281470681808895
+  i64.and
+  local.get $0
+  i64.const 281470681808895
+  i64.and
+  i64.const 16
+  i64.shl
+  i64.or
+  i64.const 32
+  i64.rotr
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64 (param $0 i32) (result i64)
+  (local $1 i32)
   (local $2 i32)
-  (local $3 i32)
+  (local $3 i64)
   local.get $0
   local.get $0
-  i32.load offset=12
-  local.tee $2
-  i32.const 1
+  i32.load offset=4
+  i32.const 8
   i32.add
-  local.tee $3
-  i32.const 2
-  call $~lib/array/ensureCapacity
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#verifyEnd
   local.get $0
   i32.load offset=4
-  local.get $2
-  i32.const 2
-  i32.shl
+  local.tee $1
+  i32.const 31
+  i32.shr_u
+  local.get $0
+  i32.load
+  local.tee $2
+  i32.load offset=8
+  local.get $1
+  i32.const 8
   i32.add
+  i32.lt_s
+  i32.or
+  if
+   i32.const 2176
+   i32.const 2416
+   i32.const 159
+   i32.const 7
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
   local.get $1
-  i32.store
+  local.get $2
+  i32.load offset=4
+  i32.add
+  i64.load
+  call $~lib/polyfills/bswap<u64>
   local.get $0
-  local.get $3
-  i32.store offset=12
+  local.get $0
+  i32.load offset=4
+  i32.const 8
+  i32.add
+  i32.store offset=4
  )
- (func $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#set (param $0 i32) (param $1 i32) (param $2 i32)
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
   (local $3 i32)
-  (local $4 i32)
   local.get $0
-  local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#indexOf
-  local.tee $3
-  i32.const -1
-  i32.eq
-  if
-   local.get $0
-   i32.load
-   local.get $1
-   call $~lib/array/Array<~lib/typedarray/Uint8Array>#push
-   local.get $0
-   i32.load offset=4
+  local.get $0
+  i32.load offset=4
+  i32.const 32
+  i32.add
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#verifyEnd
+  i32.const 0
+  i32.const 0
+  i32.const 0
+  i32.const 10
+  i32.const 14496
+  call $~lib/rt/__newArray
+  call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#constructor
+  local.set $1
+  loop $for-loop|0
    local.get $2
-   call $~lib/array/Array<~lib/typedarray/Uint8Array>#push
-   local.get $0
-   local.get $0
-   i32.load
-   i32.load offset=12
-   i32.const 1
-   i32.sub
-   i32.store offset=8
-  else
-   local.get $3
-   local.get $0
-   i32.load offset=4
-   local.tee $1
-   i32.load offset=12
-   i32.ge_u
+   i32.const 32
+   i32.lt_s
    if
-    local.get $3
-    i32.const 0
-    i32.lt_s
+    local.get $0
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU8
+    local.set $3
+    local.get $1
+    i32.load8_u offset=12
+    if
+     i32.const 14528
+     i32.const 2752
+     i32.const 378
+     i32.const 13
+     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+     unreachable
+    end
+    local.get $2
+    local.get $1
+    i32.load offset=8
+    i32.ge_u
     if
      i32.const 2176
-     i32.const 4192
-     i32.const 130
-     i32.const 22
+     i32.const 2752
+     i32.const 382
+     i32.const 13
      call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
      unreachable
     end
+    local.get $2
     local.get $1
+    i32.load offset=4
+    i32.add
     local.get $3
+    i32.store8
+    local.get $2
     i32.const 1
     i32.add
-    local.tee $4
-    i32.const 2
-    call $~lib/array/ensureCapacity
-    local.get $1
-    local.get $4
-    i32.store offset=12
+    local.set $2
+    br $for-loop|0
    end
-   local.get $1
-   i32.load offset=4
-   local.get $3
-   i32.const 2
-   i32.shl
-   i32.add
-   local.get $2
-   i32.store
-   local.get $0
-   local.get $3
-   i32.store offset=8
   end
+  local.get $1
  )
- (func $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#hasPointerStorageHash (param $0 i32) (param $1 i32)
+ (func $~lib/@btc-vision/btc-runtime/runtime/script/Networks/NetworkManager#equals (param $0 i32) (param $1 i32) (result i32)
   (local $2 i32)
-  (local $3 i32)
-  local.get $1
-  i32.load
-  i32.const 20
-  i32.sub
-  i32.load offset=16
-  i32.const 32
-  i32.ne
-  if
-   i32.const 11392
-   i32.const 5392
-   i32.const 1361
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
   local.get $0
-  i32.load offset=4
+  i32.load offset=8
   local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#indexOf
-  i32.const -1
+  i32.load offset=8
   i32.ne
   if
+   i32.const 0
    return
   end
-  i32.const 32
-  call $~lib/arraybuffer/ArrayBuffer#constructor
-  local.set $2
-  local.get $1
-  i32.load
-  local.get $2
-  call $~lib/@btc-vision/btc-runtime/runtime/env/global/loadPointer
-  i32.const 1
-  global.set $~argumentsLength
-  local.get $2
-  call $~lib/typedarray/Uint8Array.wrap@varargs
-  local.set $2
-  local.get $0
-  i32.load offset=4
-  local.get $1
-  local.get $2
-  call $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#set
-  local.get $2
-  i32.load offset=8
-  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_BUFFER
-  local.tee $1
-  i32.load offset=8
-  i32.eq
-  if
+  loop $for-loop|0
    local.get $2
+   local.get $0
    i32.load offset=8
-   local.set $0
-   block $~lib/util/memory/memcmp|inlined.3
+   i32.lt_s
+   if
+    local.get $0
     local.get $2
-    i32.load offset=4
-    local.tee $2
+    call $~lib/typedarray/Uint8Array#__get
     local.get $1
-    i32.load offset=4
-    local.tee $3
-    i32.eq
-    br_if $~lib/util/memory/memcmp|inlined.3
     local.get $2
-    i32.const 7
-    i32.and
-    local.get $3
-    i32.const 7
-    i32.and
-    i32.eq
+    call $~lib/typedarray/Uint8Array#__get
+    i32.ne
     if
-     loop $while-continue|0
-      local.get $2
-      i32.const 7
-      i32.and
-      if
-       local.get $0
-       i32.eqz
-       br_if $~lib/util/memory/memcmp|inlined.3
-       local.get $3
-       i32.load8_u
-       local.get $2
-       i32.load8_u
-       i32.ne
-       br_if $~lib/util/memory/memcmp|inlined.3
-       local.get $0
-       i32.const 1
-       i32.sub
-       local.set $0
-       local.get $2
-       i32.const 1
-       i32.add
-       local.set $2
-       local.get $3
-       i32.const 1
-       i32.add
-       local.set $3
-       br $while-continue|0
-      end
-     end
-     loop $while-continue|1
-      local.get $0
-      i32.const 8
-      i32.ge_u
-      if
-       local.get $2
-       i64.load
-       local.get $3
-       i64.load
-       i64.eq
-       if
-        local.get $2
-        i32.const 8
-        i32.add
-        local.set $2
-        local.get $3
-        i32.const 8
-        i32.add
-        local.set $3
-        local.get $0
-        i32.const 8
-        i32.sub
-        local.set $0
-        br $while-continue|1
-       end
-      end
-     end
-    end
-    loop $while-continue|2
-     local.get $0
-     local.tee $1
-     i32.const 1
-     i32.sub
-     local.set $0
-     local.get $1
-     if
-      local.get $3
-      i32.load8_u
-      local.get $2
-      i32.load8_u
-      i32.ne
-      br_if $~lib/util/memory/memcmp|inlined.3
-      local.get $2
-      i32.const 1
-      i32.add
-      local.set $2
-      local.get $3
-      i32.const 1
-      i32.add
-      local.set $3
-      br $while-continue|2
-     end
+     i32.const 0
+     return
     end
+    local.get $2
+    i32.const 1
+    i32.add
+    local.set $2
+    br $for-loop|0
    end
   end
+  i32.const 1
  )
- (func $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#getStorageAt (param $0 i32) (param $1 i32) (result i32)
-  local.get $0
-  local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#hasPointerStorageHash
-  local.get $0
-  i32.load offset=4
+ (func $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#setEnvironmentVariables (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i64)
+  (local $4 i32)
+  (local $5 i64)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i64)
+  (local $12 i32)
+  (local $13 i32)
+  (local $14 i32)
+  (local $15 i32)
   local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#indexOf
-  i32.const -1
-  i32.ne
-  if
-   local.get $0
-   i32.load offset=4
-   local.tee $0
-   local.get $1
-   call $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#indexOf
-   local.tee $1
-   i32.const -1
-   i32.eq
-   if
-    i32.const 11472
-    i32.const 11568
-    i32.const 118
-    i32.const 13
-    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-    unreachable
-   end
-   local.get $0
-   i32.load offset=4
-   local.get $1
-   call $~lib/array/Array<~lib/typedarray/Uint8Array>#__uget
-   return
-  end
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#constructor
+  local.tee $12
+  i32.const 32
   i32.const 0
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readBytes
+  local.set $4
+  local.get $12
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
+  local.set $3
+  local.get $12
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
+  local.set $5
+  local.get $12
   i32.const 32
-  call $~lib/typedarray/Uint8Array#constructor
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value (param $0 i32) (result i32)
-  (local $1 i32)
-  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  local.get $0
-  i32.load
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#getStorageAt
-  local.tee $1
-  i32.load offset=8
+  i32.const 0
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readBytes
+  local.set $14
+  local.get $12
   i32.const 32
-  i32.ne
-  if
-   i32.const 2304
-   i32.const 5888
-   i32.const 220
-   i32.const 30
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
+  i32.const 0
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readBytes
+  local.set $1
+  local.get $12
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+  local.set $6
+  local.get $12
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+  local.set $7
+  local.get $12
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+  local.set $8
+  i32.const 32
+  call $~lib/array/Array<u8>#constructor
+  local.set $13
+  loop $for-loop|0
+   local.get $2
+   i32.const 32
+   i32.lt_s
+   if
+    local.get $13
+    local.get $2
+    local.get $12
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU8
+    call $~lib/array/Array<u8>#__set
+    local.get $2
+    i32.const 1
+    i32.add
+    local.set $2
+    br $for-loop|0
+   end
   end
-  local.get $0
+  local.get $12
+  i32.const 32
+  i32.const 0
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readBytes
+  local.set $9
+  local.get $12
+  i32.const 32
+  i32.const 0
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readBytes
+  local.set $10
+  i32.const 32
+  call $~lib/array/Array<u8>#constructor
+  local.set $15
+  i32.const 0
+  local.set $2
+  loop $for-loop|1
+   local.get $2
+   i32.const 32
+   i32.lt_s
+   if
+    local.get $15
+    local.get $2
+    local.get $12
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU8
+    call $~lib/array/Array<u8>#__set
+    local.get $2
+    i32.const 1
+    i32.add
+    local.set $2
+    br $for-loop|1
+   end
+  end
+  local.get $12
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
+  local.set $11
+  local.get $15
+  local.get $13
+  call $~lib/@btc-vision/btc-runtime/runtime/types/ExtendedAddress/ExtendedAddress#constructor
+  local.set $2
+  i32.const 32
+  i32.const 26
+  call $~lib/rt/stub/__new
+  local.tee $12
+  local.get $14
+  i32.store offset=16
+  local.get $12
   local.get $1
-  i32.load offset=4
+  i32.store offset=20
+  local.get $12
+  i32.const 0
+  i32.store
+  local.get $12
+  i32.const 0
+  i32.store offset=4
+  local.get $12
+  i32.const 0
+  i32.store offset=8
+  local.get $12
+  i32.const 0
+  i32.const 28
+  call $~lib/rt/stub/__new
   local.tee $1
-  i64.load offset=24
-  call $~lib/polyfills/bswap<u64>
-  local.get $1
-  i64.load offset=16
-  call $~lib/polyfills/bswap<u64>
+  if (result i32)
+   local.get $1
+  else
+   i32.const 0
+   i32.const 0
+   call $~lib/rt/stub/__new
+  end
+  i32.store offset=12
+  local.get $12
+  i32.const 0
+  i32.store offset=24
+  local.get $12
+  i32.const 0
+  i32.store offset=28
+  local.get $12
+  local.get $8
+  i32.store offset=4
+  local.get $12
+  local.get $2
+  i32.store offset=8
+  i32.const 8
+  i32.const 27
+  call $~lib/rt/stub/__new
+  local.tee $1
+  i64.const 0
+  i64.store
   local.get $1
-  i64.load offset=8
-  call $~lib/polyfills/bswap<u64>
+  local.get $11
+  i64.store
+  local.get $12
   local.get $1
-  i64.load
-  call $~lib/polyfills/bswap<u64>
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-  i32.store offset=12
+  i32.store
   local.get $0
-  i32.load offset=12
- )
- (func $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt (param $0 i32) (param $1 i32) (result i32)
+  local.get $12
+  i32.store offset=24
   local.get $0
-  i64.load offset=24
-  local.get $1
-  i64.load offset=24
-  i64.ne
+  local.get $7
+  i32.store offset=36
+  local.get $0
+  local.get $6
+  i32.store offset=40
+  local.get $0
+  local.get $9
+  i32.store offset=44
+  local.get $0
+  local.get $10
+  i32.store offset=48
+  global.get $~lib/@btc-vision/btc-runtime/runtime/script/Networks/Network
+  local.set $2
+  local.get $0
+  i32.load offset=44
+  i32.eqz
   if
-   local.get $0
-   i64.load offset=24
-   local.get $1
-   i64.load offset=24
-   i64.lt_u
-   return
+   i32.const 14608
+   i32.const 5168
+   i32.const 249
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
   end
   local.get $0
-  i64.load offset=16
-  local.get $1
-  i64.load offset=16
-  i64.ne
+  i32.load offset=44
+  local.tee $6
+  i32.eqz
   if
-   local.get $0
-   i64.load offset=16
-   local.get $1
-   i64.load offset=16
-   i64.lt_u
-   return
+   i32.const 14672
+   i32.const 5168
+   i32.const 251
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
   end
-  local.get $0
-  i64.load offset=8
-  local.get $1
-  i64.load offset=8
-  i64.ne
+  local.get $6
+  i32.load offset=8
+  i32.const 32
+  i32.ne
   if
-   local.get $0
-   i64.load offset=8
-   local.get $1
-   i64.load offset=8
-   i64.lt_u
-   return
+   i32.const 14800
+   i32.const 14880
+   i32.const 89
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
   end
   local.get $0
-  i64.load
+  local.set $1
+  i32.const 0
+  local.set $0
+  block $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/script/Networks/NetworkManager#fromChainId$66
+   local.get $6
+   local.get $2
+   i32.load
+   call $~lib/@btc-vision/btc-runtime/runtime/script/Networks/NetworkManager#equals
+   br_if $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/script/Networks/NetworkManager#fromChainId$66
+   i32.const 1
+   local.set $0
+   local.get $6
+   local.get $2
+   i32.load offset=4
+   call $~lib/@btc-vision/btc-runtime/runtime/script/Networks/NetworkManager#equals
+   br_if $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/script/Networks/NetworkManager#fromChainId$66
+   i32.const 2
+   local.set $0
+   local.get $6
+   local.get $2
+   i32.load offset=12
+   call $~lib/@btc-vision/btc-runtime/runtime/script/Networks/NetworkManager#equals
+   br_if $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/script/Networks/NetworkManager#fromChainId$66
+   i32.const 3
+   local.set $0
+   local.get $6
+   local.get $2
+   i32.load offset=8
+   call $~lib/@btc-vision/btc-runtime/runtime/script/Networks/NetworkManager#equals
+   br_if $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/script/Networks/NetworkManager#fromChainId$66
+   i32.const 15024
+   i32.const 14880
+   i32.const 97
+   i32.const 9
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
   local.get $1
-  i64.load
-  i64.lt_u
- )
- (func $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.add (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i64)
-  (local $3 i64)
-  (local $4 i64)
-  (local $5 i64)
-  (local $6 i64)
-  (local $7 i64)
   local.get $0
-  i64.load
-  local.tee $3
-  local.get $1
-  i64.load
-  i64.add
-  local.set $2
-  local.get $2
-  local.get $3
-  i64.lt_u
-  i64.extend_i32_s
-  global.set $~lib/@btc-vision/as-bignum/assembly/globals/__u256carry
+  i32.store offset=16
+  i32.const 24
+  i32.const 24
+  call $~lib/rt/stub/__new
+  local.tee $0
+  local.get $4
+  i32.store offset=4
   local.get $0
-  i64.load offset=8
-  local.tee $3
-  global.get $~lib/@btc-vision/as-bignum/assembly/globals/__u256carry
-  i64.add
-  local.tee $4
-  local.get $1
-  i64.load offset=8
-  i64.add
-  local.set $5
   local.get $3
-  local.get $4
-  i64.gt_u
-  local.get $4
+  i64.store offset=8
+  local.get $0
   local.get $5
-  i64.gt_u
-  i32.add
-  i64.extend_i32_s
-  global.set $~lib/@btc-vision/as-bignum/assembly/globals/__u256carry
+  i64.store offset=16
   local.get $0
-  i64.load offset=16
-  local.tee $3
-  global.get $~lib/@btc-vision/as-bignum/assembly/globals/__u256carry
-  i64.add
-  local.tee $4
+  i32.const 0
+  i32.store
+  local.get $0
+  block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU64|inlined.1 (result i32)
+   local.get $3
+   i64.eqz
+   if
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU64|inlined.1
+   end
+   local.get $3
+   i64.const 1
+   i64.eq
+   if
+    i64.const 1
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU64|inlined.1
+   end
+   local.get $3
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  end
+  i32.store
   local.get $1
-  i64.load offset=16
-  i64.add
-  local.set $6
-  local.get $3
-  local.get $4
-  i64.gt_u
-  local.get $4
-  local.get $6
-  i64.gt_u
-  i32.add
-  i64.extend_i32_s
-  global.set $~lib/@btc-vision/as-bignum/assembly/globals/__u256carry
   local.get $0
-  i64.load offset=24
-  local.tee $4
-  global.get $~lib/@btc-vision/as-bignum/assembly/globals/__u256carry
-  i64.add
-  local.tee $3
+  i32.store offset=20
   local.get $1
-  i64.load offset=24
-  i64.add
-  local.set $7
-  local.get $3
-  local.get $4
-  i64.lt_u
-  local.get $3
-  local.get $7
-  i64.gt_u
-  i32.add
-  i64.extend_i32_s
-  global.set $~lib/@btc-vision/as-bignum/assembly/globals/__u256carry
-  local.get $2
-  local.get $5
-  local.get $6
-  local.get $7
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#createContractIfNotExists
  )
- (func $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU32 (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
   local.get $0
-  local.get $1
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.add
+  local.get $0
+  i32.load offset=4
+  i32.const 4
+  i32.add
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#verifyEnd
+  local.get $0
+  i32.load offset=4
   local.tee $1
+  i32.const 31
+  i32.shr_u
   local.get $0
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  i32.load
+  local.tee $2
+  i32.load offset=8
+  local.get $1
+  i32.const 4
+  i32.add
+  i32.lt_s
+  i32.or
   if
-   i32.const 11792
-   i32.const 11872
-   i32.const 55
-   i32.const 13
+   i32.const 2176
+   i32.const 2416
+   i32.const 87
+   i32.const 7
    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
    unreachable
   end
   local.get $1
+  local.get $2
+  i32.load offset=4
+  i32.add
+  i32.load
+  call $~lib/polyfills/bswap<u32>
+  local.get $0
+  local.get $0
+  i32.load offset=4
+  i32.const 4
+  i32.add
+  i32.store offset=4
  )
- (func $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#_internalSetStorageAt (param $0 i32) (param $1 i32) (param $2 i32)
-  (local $3 i32)
-  local.get $1
-  i32.load offset=8
-  i32.const 32
-  i32.ne
+ (func $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:contract (param $0 i32) (result i32)
+  local.get $0
+  i32.load offset=12
+  local.tee $0
+  i32.eqz
   if
-   i32.const 11392
-   i32.const 5392
-   i32.const 1334
-   i32.const 13
+   i32.const 14672
+   i32.const 5168
+   i32.const 158
+   i32.const 16
    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
    unreachable
   end
-  local.get $2
-  local.set $3
-  local.get $2
-  i32.load offset=8
-  i32.const 32
-  i32.ne
+  local.get $0
+ )
+ (func $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/plugins/Plugin/Plugin>#__get (param $0 i32) (param $1 i32) (result i32)
+  local.get $1
+  local.get $0
+  i32.load offset=12
+  i32.ge_u
   if
-   i32.const 0
-   i32.const 32
-   call $~lib/typedarray/Uint8Array#constructor
-   local.tee $3
-   i32.load offset=4
-   local.get $2
-   i32.load offset=4
-   local.get $2
-   i32.load offset=8
-   i32.const 32
-   i32.lt_s
-   if (result i32)
-    local.get $2
-    i32.load offset=8
-   else
-    i32.const 32
-   end
-   memory.copy
+   i32.const 2176
+   i32.const 4192
+   i32.const 116
+   i32.const 42
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
   end
   local.get $0
   i32.load offset=4
   local.get $1
-  local.get $3
-  call $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#set
-  local.get $1
-  i32.load
-  local.get $3
+  i32.const 2
+  i32.shl
+  i32.add
   i32.load
-  call $~lib/@btc-vision/btc-runtime/runtime/env/global/storePointer
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value (param $0 i32) (param $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
+  local.tee $0
+  i32.eqz
+  if
+   i32.const 15088
+   i32.const 4192
+   i32.const 120
+   i32.const 40
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
   local.get $0
-  local.get $1
-  i32.store offset=12
-  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#onExecutionStarted (param $0 i32)
+  (local $1 i32)
   local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:contract
+  local.tee $0
+  i32.const 8
+  i32.sub
   i32.load
-  local.get $0
-  i32.load offset=12
-  local.set $0
-  i32.const 0
-  i32.const 32
-  call $~lib/typedarray/Uint8Array#constructor
-  local.tee $4
-  i32.load offset=4
-  local.tee $2
-  local.get $0
-  i64.load offset=24
-  call $~lib/polyfills/bswap<u64>
-  i64.store
-  local.get $2
-  local.get $0
-  i64.load offset=16
-  call $~lib/polyfills/bswap<u64>
-  i64.store offset=8
-  local.get $2
-  local.get $0
-  i64.load offset=8
-  call $~lib/polyfills/bswap<u64>
-  i64.store offset=16
-  local.get $2
-  local.get $0
-  i64.load
-  call $~lib/polyfills/bswap<u64>
-  i64.store offset=24
-  local.get $4
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#_internalSetStorageAt
- )
- (func $src/PredictionMarket/PredictionMarket#toSubPointer (param $0 i32) (result i32)
-  (local $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  i32.const 0
-  i32.const 32
-  call $~lib/typedarray/Uint8Array#constructor
-  local.tee $3
-  i32.load offset=4
-  local.tee $2
-  local.get $0
-  i64.load offset=24
-  call $~lib/polyfills/bswap<u64>
-  i64.store
-  local.get $2
-  local.get $0
-  i64.load offset=16
-  call $~lib/polyfills/bswap<u64>
-  i64.store offset=8
-  local.get $2
-  local.get $0
-  i64.load offset=8
-  call $~lib/polyfills/bswap<u64>
-  i64.store offset=16
-  local.get $2
-  local.get $0
-  i64.load
-  call $~lib/polyfills/bswap<u64>
-  i64.store offset=24
-  i32.const 0
-  i32.const 30
-  call $~lib/typedarray/Uint8Array#constructor
-  local.set $0
+  drop
   loop $for-loop|0
    local.get $1
-   i32.const 30
+   local.get $0
+   i32.load
+   i32.load offset=12
    i32.lt_s
    if
     local.get $0
+    i32.load
     local.get $1
-    local.get $3
-    local.get $1
-    i32.const 2
-    i32.add
-    call $~lib/typedarray/Uint8Array#__get
-    call $~lib/typedarray/Uint8Array#__set
+    call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/plugins/Plugin/Plugin>#__get
+    drop
     local.get $1
     i32.const 1
     i32.add
@@ -5718,266 +4735,334 @@
     br $for-loop|0
    end
   end
-  local.get $0
  )
- (func $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#constructor (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  i32.const 16
-  i32.const 40
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor (param $0 i32) (result i32)
+  (local $1 i32)
+  i32.const 12
+  i32.const 39
   call $~lib/rt/stub/__new
-  local.tee $2
-  local.get $0
-  i32.store16 offset=10
-  local.get $2
-  local.get $1
-  i32.store offset=12
-  local.get $2
+  local.tee $1
   i32.const 0
   i32.store
-  local.get $2
-  i32.const 4
-  i32.const 3
-  i32.const 41
-  i32.const 12128
-  call $~lib/rt/__newArray
+  local.get $1
+  i32.const 0
   i32.store offset=4
-  local.get $2
+  local.get $1
   i32.const 0
-  i32.store8 offset=8
-  local.get $2
+  i32.store offset=8
+  local.get $1
   i32.const 0
-  i32.store8 offset=9
-  local.get $2
   local.get $0
-  local.get $1
+  call $~lib/typedarray/Uint8Array#constructor
+  local.tee $0
+  i32.store offset=8
+  local.get $0
+  i32.load
+  local.set $0
   i32.const 1
-  i32.const 12080
-  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodePointer
-  i32.store
-  local.get $2
+  global.set $~argumentsLength
+  local.get $1
+  local.get $0
+  call $~lib/dataview/DataView#constructor@varargs
+  i32.store offset=4
+  local.get $1
  )
- (func $~lib/array/Array<u64>#__set (param $0 i32) (param $1 i32) (param $2 i64)
-  (local $3 i32)
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#allocSafe (param $0 i32) (param $1 i32)
+  (local $2 i32)
   local.get $1
+  i32.const -1
   local.get $0
-  i32.load offset=12
-  i32.ge_u
+  i32.load
+  i32.sub
+  i32.gt_u
   if
-   local.get $1
-   i32.const 0
-   i32.lt_s
-   if
-    i32.const 2176
-    i32.const 4192
-    i32.const 130
-    i32.const 22
-    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-    unreachable
-   end
-   local.get $0
-   local.get $1
-   i32.const 1
-   i32.add
-   local.tee $3
-   i32.const 3
-   call $~lib/array/ensureCapacity
-   local.get $0
-   local.get $3
-   i32.store offset=12
+   i32.const 15648
+   i32.const 15504
+   i32.const 480
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
   end
   local.get $0
   i32.load offset=4
+  i32.load offset=8
+  local.tee $2
   local.get $1
-  i32.const 3
-  i32.shl
-  i32.add
-  local.get $2
-  i64.store
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#ensureValues (param $0 i32)
-  (local $1 i32)
   local.get $0
-  i32.load8_u offset=8
-  i32.eqz
+  i32.load
+  i32.add
+  local.tee $1
+  i32.lt_u
   if
-   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-   local.get $0
-   i32.load
-   call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#getStorageAt
-   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#constructor
-   local.set $1
-   local.get $0
-   i32.load offset=4
-   i32.const 0
-   local.get $1
-   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
-   call $~lib/array/Array<u64>#__set
-   local.get $0
-   i32.load offset=4
+   i32.const 15968
    i32.const 1
    local.get $1
-   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
-   call $~lib/array/Array<u64>#__set
-   local.get $0
-   i32.load offset=4
-   i32.const 2
-   local.get $1
-   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
-   call $~lib/array/Array<u64>#__set
+   local.get $2
+   i32.sub
+   local.get $2
+   i32.add
+   call $~lib/util/number/itoa32
+   call $~lib/staticarray/StaticArray<~lib/string/String>#__uset
+   i32.const 15728
+   i32.const 15968
+   call $~lib/staticarray/StaticArray<~lib/string/String>#join
+   call $~lib/string/String#concat
+   i32.const 16000
    local.get $0
    i32.load offset=4
-   i32.const 3
-   local.get $1
-   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
-   call $~lib/array/Array<u64>#__set
-   local.get $0
-   i32.const 1
-   i32.store8 offset=8
-  end
- )
- (func $~lib/array/Array<u64>#__get (param $0 i32) (param $1 i32) (result i64)
-  local.get $1
-  local.get $0
-  i32.load offset=12
-  i32.ge_u
-  if
-   i32.const 2176
-   i32.const 4192
-   i32.const 114
-   i32.const 42
+   i32.load offset=8
+   call $~lib/util/number/itoa32
+   call $~lib/string/String#concat
+   call $~lib/string/String#concat
+   i32.const 15504
+   i32.const 505
+   i32.const 9
    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
    unreachable
   end
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8 (param $0 i32) (param $1 i32)
+  local.get $0
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#allocSafe
   local.get $0
   i32.load offset=4
+  local.get $0
+  i32.load
   local.get $1
-  i32.const 3
-  i32.shl
-  i32.add
-  i64.load
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64 (param $0 i32) (param $1 i64)
-  (local $2 i32)
-  (local $3 i32)
+  call $~lib/dataview/DataView#setUint8
   local.get $0
-  i32.const 8
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#allocSafe
   local.get $0
   i32.load
-  local.tee $2
-  i32.const 31
-  i32.shr_u
+  i32.const 1
+  i32.add
+  i32.store
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeBytes (param $0 i32) (param $1 i32)
+  (local $2 i32)
   local.get $0
-  i32.load offset=4
-  local.tee $3
+  local.get $1
   i32.load offset=8
-  local.get $2
-  i32.const 8
-  i32.add
-  i32.lt_s
-  i32.or
-  if
-   i32.const 2176
-   i32.const 2416
-   i32.const 174
-   i32.const 7
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#allocSafe
+  loop $for-loop|0
+   local.get $2
+   local.get $1
+   i32.load offset=8
+   i32.lt_s
+   if
+    local.get $0
+    local.get $1
+    local.get $2
+    call $~lib/typedarray/Uint8Array#__get
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+    local.get $2
+    i32.const 1
+    i32.add
+    local.set $2
+    br $for-loop|0
+   end
   end
-  local.get $2
-  local.get $3
-  i32.load offset=4
-  i32.add
-  local.get $1
-  call $~lib/polyfills/bswap<u64>
-  i64.store
-  local.get $0
-  local.get $0
-  i32.load
-  i32.const 8
-  i32.add
-  i32.store
  )
- (func $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
-  local.get $0
-  i32.eqz
-  if
-   i32.const 12
-   i32.const 42
-   call $~lib/rt/stub/__new
-   local.set $0
-  end
-  local.get $0
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress (param $0 i32) (param $1 i32)
   local.get $1
-  i32.store offset=4
-  local.get $0
-  local.get $2
-  i32.store offset=8
-  local.get $0
-  i32.const 0
-  i32.store
-  local.get $2
-  i32.load offset=4
   i32.load offset=8
-  i32.const 352
-  i32.gt_u
+  i32.const 32
+  i32.gt_s
   if
-   i32.const 12448
-   i32.const 12560
-   i32.const 14
+   local.get $1
+   i32.load offset=8
+   call $~lib/util/number/itoa32
+   local.set $0
+   i32.const 32
+   call $~lib/util/number/itoa32
+   local.set $1
+   i32.const 15456
+   i32.const 1
+   local.get $0
+   call $~lib/staticarray/StaticArray<~lib/string/String>#__uset
+   i32.const 15456
+   i32.const 3
+   local.get $1
+   call $~lib/staticarray/StaticArray<~lib/string/String>#__uset
+   i32.const 15456
+   call $~lib/staticarray/StaticArray<~lib/string/String>#join
+   i32.const 15504
+   i32.const 492
    i32.const 13
    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
    unreachable
   end
   local.get $0
-  local.get $2
-  i32.load offset=8
-  i32.store
-  local.get $0
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeBytes
  )
- (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256 (param $0 i32) (param $1 i32)
-  (local $2 i32)
+ (func $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#execute (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
   (local $3 i32)
-  local.get $0
-  i32.const 32
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#allocSafe
-  i32.const 0
-  i32.const 32
-  call $~lib/typedarray/Uint8Array#constructor
-  local.tee $3
-  i32.load offset=4
-  local.tee $2
-  local.get $1
-  i64.load offset=24
-  call $~lib/polyfills/bswap<u64>
-  i64.store
-  local.get $2
+  (local $4 i32)
+  i32.const 15216
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
   local.get $1
-  i64.load offset=16
-  call $~lib/polyfills/bswap<u64>
-  i64.store offset=8
+  i32.eq
+  if
+   i32.const 32
+   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+   local.set $0
+   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+   local.tee $1
+   i32.load offset=36
+   i32.eqz
+   if
+    i32.const 15264
+    i32.const 5168
+    i32.const 208
+    i32.const 13
+    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+    unreachable
+   end
+   local.get $1
+   i32.load offset=36
+   local.tee $1
+   i32.eqz
+   if
+    i32.const 14672
+    i32.const 5168
+    i32.const 210
+    i32.const 16
+    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+    unreachable
+   end
+   local.get $0
+   local.get $1
+   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
+   local.get $0
+   return
+  end
   local.get $2
+  i32.load offset=4
+  local.set $4
+  loop $for-loop|1
+   local.get $3
+   local.get $0
+   i32.load
+   i32.load offset=12
+   i32.lt_s
+   if
+    local.get $0
+    i32.load
+    local.get $3
+    call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/plugins/Plugin/Plugin>#__get
+    i32.const 8
+    i32.sub
+    i32.load
+    drop
+    local.get $2
+    local.get $4
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#verifyEnd
+    local.get $2
+    local.get $4
+    i32.store offset=4
+    local.get $3
+    i32.const 1
+    i32.add
+    local.set $3
+    br $for-loop|1
+   end
+  end
+  i32.const 16048
   local.get $1
-  i64.load offset=8
-  call $~lib/polyfills/bswap<u64>
-  i64.store offset=16
-  local.get $2
+  call $~lib/util/number/utoa32
+  call $~lib/string/String#concat
+  i32.const 16112
+  i32.const 92
+  i32.const 9
+  call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+  unreachable
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/exports/index/execute (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  i32.const 0
+  i32.const 512
+  i32.const 512
+  call $~lib/arraybuffer/ArrayBuffer#constructor
+  local.tee $1
+  call $~lib/@btc-vision/btc-runtime/runtime/env/global/getEnvironmentVariables
+  i32.const 1
+  global.set $~argumentsLength
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
   local.get $1
-  i64.load
-  call $~lib/polyfills/bswap<u64>
-  i64.store offset=24
+  call $~lib/typedarray/Uint8Array.wrap@varargs
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#setEnvironmentVariables
   i32.const 0
-  local.set $1
+  local.get $0
+  local.get $0
+  call $~lib/arraybuffer/ArrayBuffer#constructor
+  local.tee $0
+  call $~lib/@btc-vision/btc-runtime/runtime/env/global/getCalldata
+  i32.const 1
+  global.set $~argumentsLength
+  local.get $0
+  call $~lib/typedarray/Uint8Array.wrap@varargs
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#constructor
+  local.tee $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU32
+  local.set $2
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#onExecutionStarted
+  block $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#execute@override$437 (result i32)
+   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+   call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:contract
+   local.tee $0
+   i32.const 8
+   i32.sub
+   i32.load
+   i32.const 35
+   i32.eq
+   if
+    local.get $0
+    local.get $2
+    local.get $1
+    call $src/PredictionMarket/PredictionMarket#execute
+    br $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#execute@override$437
+   end
+   local.get $0
+   local.get $2
+   local.get $1
+   call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#execute
+  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#onExecutionStarted
+  i32.load offset=8
+  i32.load
+  local.tee $0
+  i32.const 20
+  i32.sub
+  i32.load offset=16
+  local.tee $1
+  i32.const 0
+  i32.gt_s
+  if
+   i32.const 0
+   local.get $0
+   local.get $1
+   call $~lib/@btc-vision/btc-runtime/runtime/env/global/env_exit
+  end
+  i32.const 0
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#onDeployment (param $0 i32)
+  (local $1 i32)
   loop $for-loop|0
    local.get $1
-   i32.const 32
+   local.get $0
+   i32.load
+   i32.load offset=12
    i32.lt_s
    if
     local.get $0
-    local.get $3
+    i32.load
     local.get $1
-    call $~lib/typedarray/Uint8Array#__get
-    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+    call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/plugins/Plugin/Plugin>#__get
+    drop
     local.get $1
     i32.const 1
     i32.add
@@ -5986,484 +5071,303 @@
    end
   end
  )
- (func $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent (param $0 i32)
+ (func $~lib/@btc-vision/btc-runtime/runtime/exports/index/onDeploy (param $0 i32) (result i32)
   (local $1 i32)
-  (local $2 i32)
-  (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
+  i32.const 0
+  i32.const 512
+  i32.const 512
+  call $~lib/arraybuffer/ArrayBuffer#constructor
+  local.tee $1
+  call $~lib/@btc-vision/btc-runtime/runtime/env/global/getEnvironmentVariables
+  i32.const 1
+  global.set $~argumentsLength
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.get $1
+  call $~lib/typedarray/Uint8Array.wrap@varargs
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#setEnvironmentVariables
+  i32.const 0
   local.get $0
-  i32.load
-  i32.eqz
-  if
-   i32.const 12752
-   i32.const 12560
-   i32.const 22
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
   local.get $0
-  i32.load
-  i32.load offset=8
-  i32.const 352
-  i32.gt_u
-  if
-   i32.const 12448
-   i32.const 10928
-   i32.const 115
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
+  call $~lib/arraybuffer/ArrayBuffer#constructor
+  local.tee $0
+  call $~lib/@btc-vision/btc-runtime/runtime/env/global/getCalldata
+  i32.const 1
+  global.set $~argumentsLength
   local.get $0
-  i32.load
-  i32.eqz
-  if
-   i32.const 12752
-   i32.const 12560
-   i32.const 30
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
+  call $~lib/typedarray/Uint8Array.wrap@varargs
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#constructor
+  local.set $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#onExecutionStarted
+  block $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#onDeployment@override$442
+   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+   call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:contract
+   local.tee $1
+   i32.const 8
+   i32.sub
+   i32.load
+   i32.const 35
+   i32.eq
+   if
+    local.get $1
+    local.get $0
+    call $src/PredictionMarket/PredictionMarket#onDeployment
+    br $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#onDeployment@override$442
+   end
+   local.get $1
+   call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#onDeployment
   end
-  local.get $0
-  i32.load
-  local.set $1
-  local.get $0
-  i32.load offset=4
-  local.tee $5
-  call $~lib/string/String.UTF8.byteLength
-  local.set $6
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#onExecutionStarted
   i32.const 0
-  local.get $1
-  i32.load offset=8
-  local.get $6
-  i32.const 8
-  i32.add
-  i32.add
-  local.tee $2
-  call $~lib/typedarray/Uint8Array#constructor
-  local.tee $3
-  i32.load offset=4
-  local.tee $0
-  local.get $6
-  call $~lib/polyfills/bswap<u32>
-  i32.store
-  local.get $5
-  i32.const 20
-  i32.sub
-  i32.load offset=16
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/exports/index/onUpdate (param $0 i32) (result i32)
+  (local $1 i32)
+  i32.const 0
+  i32.const 512
+  i32.const 512
+  call $~lib/arraybuffer/ArrayBuffer#constructor
+  local.tee $1
+  call $~lib/@btc-vision/btc-runtime/runtime/env/global/getEnvironmentVariables
   i32.const 1
-  i32.shr_u
-  local.set $4
-  i32.const 3
   global.set $~argumentsLength
-  local.get $5
-  local.get $4
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.get $1
+  call $~lib/typedarray/Uint8Array.wrap@varargs
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#setEnvironmentVariables
+  i32.const 0
   local.get $0
-  i32.const 4
-  i32.add
-  call $~lib/string/String.UTF8.encodeUnsafe
-  local.get $6
-  i32.const 4
-  i32.add
   local.get $0
-  i32.add
+  call $~lib/arraybuffer/ArrayBuffer#constructor
   local.tee $0
-  local.get $1
-  i32.load offset=8
-  call $~lib/polyfills/bswap<u32>
-  i32.store
+  call $~lib/@btc-vision/btc-runtime/runtime/env/global/getCalldata
+  i32.const 1
+  global.set $~argumentsLength
   local.get $0
-  i32.const 4
-  i32.add
-  local.get $1
-  i32.load offset=4
-  local.get $1
-  i32.load offset=8
-  memory.copy
-  local.get $3
-  i32.load
-  local.get $2
-  call $~lib/@btc-vision/btc-runtime/runtime/env/global/emit
+  call $~lib/typedarray/Uint8Array.wrap@varargs
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#constructor
+  drop
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#onExecutionStarted
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:contract
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#onDeployment
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#onExecutionStarted
+  i32.const 0
  )
- (func $src/PredictionMarket/PredictionMarket#createMarket (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i64)
+ (func $~lib/string/String.UTF8.decodeUnsafe (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
   (local $3 i32)
   (local $4 i32)
   (local $5 i32)
   (local $6 i32)
-  (local $7 i32)
-  (local $8 i32)
-  (local $9 i32)
-  local.get $1
-  local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU32
-  i32.const 1
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readBytes
-  i32.load
-  local.tee $3
-  local.get $3
-  i32.const 20
-  i32.sub
-  i32.load offset=16
-  call $~lib/string/String.UTF8.decodeUnsafe
-  local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
-  local.set $2
-  local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
-  local.set $5
-  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  local.tee $1
-  i32.load offset=20
-  i32.eqz
-  if
-   i32.const 11072
-   i32.const 5392
-   i32.const 118
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  local.get $1
-  i32.load offset=20
-  local.tee $1
-  i32.eqz
-  if
-   i32.const 9488
-   i32.const 5392
-   i32.const 120
-   i32.const 16
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  local.get $2
-  local.get $1
-  i64.load offset=8
-  i64.le_u
-  if
-   i32.const 11136
-   i32.const 11232
-   i32.const 163
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  i32.const 20
-  i32.sub
-  i32.load offset=16
-  i32.const 1
-  i32.shr_u
-  i32.eqz
-  if
-   i32.const 11312
-   i32.const 11232
-   i32.const 167
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
   local.get $0
-  i32.load offset=44
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
-  local.tee $1
-  global.get $src/PredictionMarket/MAX_MARKETS
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
-  i32.eqz
-  if
-   i32.const 11712
-   i32.const 11232
-   i32.const 172
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
   local.get $1
-  i64.const 1
-  i64.const 0
-  i64.const 0
-  i64.const 0
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
-  local.set $7
+  i32.add
+  local.tee $3
   local.get $0
-  i32.load offset=44
-  local.get $7
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
-  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  local.tee $1
-  i32.load offset=24
-  i32.eqz
+  i32.lt_u
   if
-   i32.const 12000
-   i32.const 5392
-   i32.const 145
-   i32.const 13
+   i32.const 0
+   i32.const 2128
+   i32.const 773
+   i32.const 7
    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
    unreachable
   end
   local.get $1
-  i32.load offset=24
-  local.tee $1
-  i32.eqz
-  if
-   i32.const 9488
-   i32.const 5392
-   i32.const 147
-   i32.const 16
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
+  i32.const 1
+  i32.shl
+  i32.const 2
+  call $~lib/rt/stub/__new
+  local.tee $4
+  local.set $1
+  loop $while-continue|0
+   local.get $0
+   local.get $3
+   i32.lt_u
+   if
+    block $while-break|0
+     local.get $0
+     i32.load8_u
+     local.set $5
+     local.get $0
+     i32.const 1
+     i32.add
+     local.set $0
+     local.get $5
+     i32.const 128
+     i32.and
+     if
+      local.get $0
+      local.get $3
+      i32.eq
+      br_if $while-break|0
+      local.get $0
+      i32.load8_u
+      i32.const 63
+      i32.and
+      local.set $6
+      local.get $0
+      i32.const 1
+      i32.add
+      local.set $0
+      local.get $5
+      i32.const 224
+      i32.and
+      i32.const 192
+      i32.eq
+      if
+       local.get $1
+       local.get $5
+       i32.const 31
+       i32.and
+       i32.const 6
+       i32.shl
+       local.get $6
+       i32.or
+       i32.store16
+      else
+       local.get $0
+       local.get $3
+       i32.eq
+       br_if $while-break|0
+       local.get $0
+       i32.load8_u
+       i32.const 63
+       i32.and
+       local.set $2
+       local.get $0
+       i32.const 1
+       i32.add
+       local.set $0
+       local.get $5
+       i32.const 240
+       i32.and
+       i32.const 224
+       i32.eq
+       if
+        local.get $5
+        i32.const 15
+        i32.and
+        i32.const 12
+        i32.shl
+        local.get $6
+        i32.const 6
+        i32.shl
+        i32.or
+        local.get $2
+        i32.or
+        local.set $2
+       else
+        local.get $0
+        local.get $3
+        i32.eq
+        br_if $while-break|0
+        local.get $0
+        i32.load8_u
+        i32.const 63
+        i32.and
+        local.get $5
+        i32.const 7
+        i32.and
+        i32.const 18
+        i32.shl
+        local.get $6
+        i32.const 12
+        i32.shl
+        i32.or
+        local.get $2
+        i32.const 6
+        i32.shl
+        i32.or
+        i32.or
+        local.set $2
+        local.get $0
+        i32.const 1
+        i32.add
+        local.set $0
+       end
+       local.get $2
+       i32.const 65536
+       i32.lt_u
+       if
+        local.get $1
+        local.get $2
+        i32.store16
+       else
+        local.get $1
+        local.get $2
+        i32.const 65536
+        i32.sub
+        local.tee $2
+        i32.const 10
+        i32.shr_u
+        i32.const 55296
+        i32.or
+        local.get $2
+        i32.const 1023
+        i32.and
+        i32.const 56320
+        i32.or
+        i32.const 16
+        i32.shl
+        i32.or
+        i32.store
+        local.get $1
+        i32.const 2
+        i32.add
+        local.set $1
+       end
+      end
+     else
+      local.get $1
+      local.get $5
+      i32.store16
+     end
+     local.get $1
+     i32.const 2
+     i32.add
+     local.set $1
+     br $while-continue|0
+    end
+   end
   end
+  local.get $4
   local.get $1
+  local.get $4
+  i32.sub
+  call $~lib/rt/stub/__renew
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readStringWithLength (param $0 i32) (result i32)
+  local.get $0
+  local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU32
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readBytes
+  i32.load
+  local.tee $0
+  local.get $0
+  i32.const 20
+  i32.sub
+  i32.load offset=16
+  call $~lib/string/String.UTF8.decodeUnsafe
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256 (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  local.get $0
+  local.get $0
   i32.load offset=4
+  i32.const 32
+  i32.add
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#verifyEnd
+  i32.const 32
+  call $~lib/array/Array<u8>#constructor
   local.set $1
-  local.get $7
-  call $src/PredictionMarket/PredictionMarket#toSubPointer
-  local.set $4
-  block $folding-inner0
-   local.get $5
-   i32.load offset=8
-   i32.const 32
-   i32.ne
-   br_if $folding-inner0
-   local.get $5
-   i32.load offset=4
-   local.tee $3
-   i64.load offset=24
-   call $~lib/polyfills/bswap<u64>
-   local.get $3
-   i64.load offset=16
-   call $~lib/polyfills/bswap<u64>
-   local.get $3
-   i64.load offset=8
-   call $~lib/polyfills/bswap<u64>
-   local.get $3
-   i64.load
-   call $~lib/polyfills/bswap<u64>
-   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-   local.set $5
-   local.get $1
-   i32.load offset=8
-   i32.const 32
-   i32.ne
-   br_if $folding-inner0
-   local.get $1
-   i32.load offset=4
-   local.tee $3
-   i64.load offset=24
-   call $~lib/polyfills/bswap<u64>
-   local.get $3
-   i64.load offset=16
-   call $~lib/polyfills/bswap<u64>
-   local.get $3
-   i64.load offset=8
-   call $~lib/polyfills/bswap<u64>
-   local.get $3
-   i64.load
-   call $~lib/polyfills/bswap<u64>
-   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-   local.set $8
-   i64.const 0
-   i64.const 0
-   i64.const 0
-   i64.const 0
-   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-   local.set $3
-   local.get $5
-   i64.load
-   local.get $3
-   i64.load
-   i64.eq
-   if (result i32)
-    local.get $5
-    i64.load offset=8
-    local.get $3
-    i64.load offset=8
-    i64.eq
-   else
-    i32.const 0
-   end
-   if (result i32)
-    local.get $5
-    i64.load offset=16
-    local.get $3
-    i64.load offset=16
-    i64.eq
-   else
-    i32.const 0
-   end
-   if (result i32)
-    local.get $5
-    i64.load offset=24
-    local.get $3
-    i64.load offset=24
-    i64.eq
-   else
-    i32.const 0
-   end
-   local.set $3
-   local.get $0
-   i32.load16_u offset=52
-   local.get $4
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-   local.get $8
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
-   local.get $0
-   i32.load16_u offset=54
-   local.get $4
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#constructor
-   local.tee $6
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#ensureValues
-   local.get $6
-   i32.load offset=4
-   i32.const 0
-   call $~lib/array/Array<u64>#__get
-   local.get $2
-   i64.ne
-   if
-    local.get $6
-    i32.load offset=4
-    i32.const 0
-    local.get $2
-    call $~lib/array/Array<u64>#__set
-    local.get $6
-    i32.const 1
-    i32.store8 offset=9
-   end
-   local.get $6
-   i32.load8_u offset=9
-   if
-    i32.const 32
-    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
-    local.tee $9
-    local.get $6
-    i32.load offset=4
-    i32.const 0
-    call $~lib/array/Array<u64>#__get
-    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
-    local.get $9
-    local.get $6
-    i32.load offset=4
-    i32.const 1
-    call $~lib/array/Array<u64>#__get
-    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
-    local.get $9
-    local.get $6
-    i32.load offset=4
-    i32.const 2
-    call $~lib/array/Array<u64>#__get
-    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
-    local.get $9
-    local.get $6
-    i32.load offset=4
-    i32.const 3
-    call $~lib/array/Array<u64>#__get
-    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
-    global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-    local.get $6
-    i32.load
-    local.get $9
-    i32.load offset=8
-    call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#_internalSetStorageAt
-    local.get $6
-    i32.const 0
-    i32.store8 offset=9
-   end
-   local.get $0
-   i32.load16_u offset=56
-   local.get $4
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-   local.get $8
-   local.get $5
-   local.get $3
-   select
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
-   local.get $0
-   i32.load16_u offset=58
-   local.get $4
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-   global.get $src/PredictionMarket/STATUS_OPEN
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
-   local.get $0
-   i32.load16_u offset=60
-   local.get $4
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-   i64.const 0
-   i64.const 0
-   i64.const 0
-   i64.const 0
-   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
-   local.get $0
-   i32.load16_u offset=62
-   local.get $4
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-   i64.const 0
-   i64.const 0
-   i64.const 0
-   i64.const 0
-   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
-   local.get $0
-   i32.load16_u offset=64
-   local.get $4
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-   i64.const 0
-   i64.const 0
-   i64.const 0
-   i64.const 0
-   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
-   i32.const 12
-   i32.const 43
-   call $~lib/rt/stub/__new
-   i32.const 72
-   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
-   local.tee $3
-   local.get $7
-   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
-   local.get $3
-   local.get $1
-   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
-   local.get $3
-   local.get $2
-   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
-   i32.const 12704
-   local.get $3
-   call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
-   call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
-   i32.const 32
-   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
-   local.tee $0
-   local.get $7
-   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
-   local.get $0
-   return
-  end
-  i32.const 2304
-  i32.const 5888
-  i32.const 220
-  i32.const 30
-  call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-  unreachable
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256 (param $0 i32) (result i32)
-  (local $1 i32)
-  (local $2 i32)
-  local.get $0
-  local.get $0
-  i32.load offset=4
-  i32.const 32
-  i32.add
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#verifyEnd
-  i32.const 32
-  call $~lib/array/Array<u8>#constructor
-  local.set $1
-  loop $for-loop|0
-   local.get $2
+  loop $for-loop|0
+   local.get $2
    i32.const 32
    i32.lt_s
    if
@@ -6485,7 +5389,7 @@
   i32.ne
   if
    i32.const 2304
-   i32.const 5888
+   i32.const 5664
    i32.const 186
    i32.const 30
    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
@@ -6507,2094 +5411,18217 @@
   call $~lib/polyfills/bswap<u64>
   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
  )
- (func $src/PredictionMarket/PredictionMarket#getMarketEndBlock (param $0 i32) (param $1 i32) (result i64)
+ (func $~lib/polyfills/bswap<u16> (param $0 i32) (result i32)
+  local.get $0
+  i32.const 8
+  i32.shl
+  local.get $0
+  i32.const 65535
+  i32.and
+  i32.const 8
+  i32.shr_u
+  i32.or
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU16 (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  local.get $0
+  local.get $0
+  i32.load offset=4
+  i32.const 2
+  i32.add
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#verifyEnd
+  local.get $0
+  i32.load offset=4
+  local.tee $1
+  i32.const 31
+  i32.shr_u
   local.get $0
-  i32.load16_u offset=54
+  i32.load
+  local.tee $2
+  i32.load offset=8
   local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#constructor
-  local.tee $0
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#ensureValues
+  i32.const 2
+  i32.add
+  i32.lt_s
+  i32.or
+  if
+   i32.const 2176
+   i32.const 2416
+   i32.const 79
+   i32.const 7
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  local.get $2
+  i32.load offset=4
+  i32.add
+  i32.load16_u
+  call $~lib/polyfills/bswap<u16>
+  local.get $0
   local.get $0
   i32.load offset=4
-  i32.const 0
-  call $~lib/array/Array<u64>#__get
+  i32.const 2
+  i32.add
+  i32.store offset=4
  )
- (func $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/types/Address/Address>#constructor (param $0 i32) (result i32)
+  (local $1 i32)
   (local $2 i32)
-  i32.const 8
-  i32.const 44
+  (local $3 i32)
+  i32.const 16
+  i32.const 40
   call $~lib/rt/stub/__new
-  local.tee $2
+  local.tee $1
   i32.const 0
-  i32.store16
-  local.get $2
+  i32.store
+  local.get $1
   i32.const 0
   i32.store offset=4
-  local.get $2
+  local.get $1
+  i32.const 0
+  i32.store offset=8
+  local.get $1
+  i32.const 0
+  i32.store offset=12
   local.get $0
-  i32.store16
+  i32.const 268435455
+  i32.gt_u
+  if
+   i32.const 2304
+   i32.const 4192
+   i32.const 72
+   i32.const 60
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  i32.const 8
+  local.get $0
+  local.get $0
+  i32.const 8
+  i32.le_u
+  select
+  i32.const 2
+  i32.shl
+  local.tee $2
+  i32.const 1
+  call $~lib/rt/stub/__new
+  local.tee $3
+  i32.const 0
   local.get $2
+  memory.fill
   local.get $1
+  local.get $3
+  i32.store
+  local.get $1
+  local.get $3
   i32.store offset=4
+  local.get $1
   local.get $2
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#getKeyPointer (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  i32.const 64
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
-  local.tee $2
-  local.get $0
-  i32.load offset=4
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeBytes
-  local.get $2
+  i32.store offset=8
   local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
   local.get $0
-  i32.load16_u
-  local.get $2
-  i32.load offset=8
-  call $~lib/@btc-vision/btc-runtime/runtime/env/global/sha256
-  i32.const 0
-  i32.const 2032
-  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodePointer
+  i32.store offset=12
+  local.get $1
  )
- (func $src/PredictionMarket/PredictionMarket#getUserBet (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
-  local.get $0
+ (func $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/types/Address/Address>#__set (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
   local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
-  local.set $0
-  block $folding-inner0
-   local.get $2
-   i32.load offset=8
-   i32.const 32
-   i32.ne
-   br_if $folding-inner0
-   local.get $0
-   local.get $2
-   i32.load offset=4
-   local.tee $0
-   i64.load offset=24
-   call $~lib/polyfills/bswap<u64>
-   local.get $0
-   i64.load offset=16
-   call $~lib/polyfills/bswap<u64>
-   local.get $0
-   i64.load offset=8
-   call $~lib/polyfills/bswap<u64>
-   local.get $0
-   i64.load
-   call $~lib/polyfills/bswap<u64>
-   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#getKeyPointer
-   local.set $0
-   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-   local.get $0
-   call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#getStorageAt
-   local.tee $0
-   i32.load offset=8
-   i32.const 32
-   i32.ne
-   br_if $folding-inner0
-   local.get $0
-   i32.load offset=4
-   local.tee $0
-   i64.load offset=24
-   call $~lib/polyfills/bswap<u64>
-   local.get $0
-   i64.load offset=16
-   call $~lib/polyfills/bswap<u64>
+  local.get $0
+  i32.load offset=12
+  i32.ge_u
+  if
+   local.get $1
+   i32.const 0
+   i32.lt_s
+   if
+    i32.const 2176
+    i32.const 4192
+    i32.const 132
+    i32.const 22
+    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+    unreachable
+   end
    local.get $0
-   i64.load offset=8
-   call $~lib/polyfills/bswap<u64>
+   local.get $1
+   i32.const 1
+   i32.add
+   local.tee $3
+   i32.const 2
+   call $~lib/array/ensureCapacity
    local.get $0
-   i64.load
-   call $~lib/polyfills/bswap<u64>
-   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-   return
+   local.get $3
+   i32.store offset=12
   end
-  i32.const 2304
-  i32.const 5888
-  i32.const 220
-  i32.const 30
-  call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-  unreachable
- )
- (func $src/PredictionMarket/PredictionMarket#setUserBet (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32)
-  (local $4 i32)
   local.get $0
+  i32.load offset=4
   local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  i32.const 2
+  i32.shl
+  i32.add
   local.get $2
-  i32.load offset=8
-  i32.const 32
-  i32.ne
-  if
-   i32.const 2304
-   i32.const 5888
-   i32.const 220
-   i32.const 30
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
+  i32.store
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddressArray (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU16
+  local.tee $3
+  i32.const 65535
+  i32.and
+  call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/types/Address/Address>#constructor
+  local.set $2
+  loop $for-loop|0
+   local.get $1
+   local.get $3
+   i32.const 65535
+   i32.and
+   i32.lt_u
+   if
+    local.get $2
+    local.get $1
+    local.get $0
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+    call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/types/Address/Address>#__set
+    local.get $1
+    i32.const 1
+    i32.add
+    local.set $1
+    br $for-loop|0
+   end
   end
   local.get $2
-  i32.load offset=4
+ )
+ (func $~lib/array/Array<~lib/string/String>#constructor (result i32)
+  (local $0 i32)
+  (local $1 i32)
+  i32.const 16
+  i32.const 41
+  call $~lib/rt/stub/__new
   local.tee $0
-  i64.load offset=24
-  call $~lib/polyfills/bswap<u64>
+  i32.const 0
+  i32.store
   local.get $0
-  i64.load offset=16
-  call $~lib/polyfills/bswap<u64>
+  i32.const 0
+  i32.store offset=4
   local.get $0
-  i64.load offset=8
-  call $~lib/polyfills/bswap<u64>
+  i32.const 0
+  i32.store offset=8
   local.get $0
-  i64.load
-  call $~lib/polyfills/bswap<u64>
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#getKeyPointer
-  local.set $1
-  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
   i32.const 0
+  i32.store offset=12
   i32.const 32
-  call $~lib/typedarray/Uint8Array#constructor
-  local.tee $4
-  i32.load offset=4
-  local.tee $0
-  local.get $3
-  i64.load offset=24
-  call $~lib/polyfills/bswap<u64>
-  i64.store
-  local.get $0
-  local.get $3
-  i64.load offset=16
-  call $~lib/polyfills/bswap<u64>
-  i64.store offset=8
-  local.get $0
-  local.get $3
-  i64.load offset=8
-  call $~lib/polyfills/bswap<u64>
-  i64.store offset=16
+  i32.const 1
+  call $~lib/rt/stub/__new
+  local.tee $1
+  i32.const 0
+  i32.const 32
+  memory.fill
   local.get $0
-  local.get $3
-  i64.load
-  call $~lib/polyfills/bswap<u64>
-  i64.store offset=24
   local.get $1
-  local.get $4
-  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#_internalSetStorageAt
- )
- (func $src/PredictionMarket/PredictionMarket#addUserBet (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32)
+  i32.store
   local.get $0
   local.get $1
-  local.get $2
+  i32.store offset=4
+  local.get $0
+  i32.const 32
+  i32.store offset=8
+  local.get $0
+  i32.const 0
+  i32.store offset=12
+  local.get $0
+ )
+ (func $~lib/array/Array<~lib/typedarray/Uint8Array>#__uget (param $0 i32) (param $1 i32) (result i32)
   local.get $0
+  i32.load offset=4
   local.get $1
-  local.get $2
-  call $src/PredictionMarket/PredictionMarket#getUserBet
-  local.get $3
-  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
-  call $src/PredictionMarket/PredictionMarket#setUserBet
+  i32.const 2
+  i32.shl
+  i32.add
+  i32.load
  )
- (func $src/PredictionMarket/PredictionMarket#placeBet (param $0 i32) (param $1 i32) (result i32)
+ (func $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#isLastIndex (param $0 i32) (param $1 i32) (result i32)
   (local $2 i32)
   (local $3 i32)
-  (local $4 i64)
+  (local $4 i32)
   (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
-  local.set $3
-  local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
-  local.set $2
-  local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
-  local.set $1
-  local.get $2
-  i64.load
-  global.get $src/PredictionMarket/OUTCOME_YES
-  local.tee $5
-  i64.load
-  i64.eq
-  if (result i32)
-   local.get $2
-   i64.load offset=8
-   local.get $5
-   i64.load offset=8
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $2
-   i64.load offset=16
-   local.get $5
-   i64.load offset=16
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $2
-   i64.load offset=24
-   local.get $5
-   i64.load offset=24
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   i32.const 1
-  else
-   local.get $2
-   i64.load
-   global.get $src/PredictionMarket/OUTCOME_NO
-   local.tee $5
-   i64.load
-   i64.eq
-   if (result i32)
-    local.get $2
-    i64.load offset=8
-    local.get $5
-    i64.load offset=8
-    i64.eq
-   else
-    i32.const 0
-   end
-   if (result i32)
-    local.get $2
-    i64.load offset=16
-    local.get $5
-    i64.load offset=16
-    i64.eq
-   else
-    i32.const 0
-   end
-   if (result i32)
-    local.get $2
-    i64.load offset=24
-    local.get $5
-    i64.load offset=24
-    i64.eq
-   else
+  local.get $0
+  i32.load offset=8
+  i32.const -1
+  i32.ne
+  if
+   local.get $0
+   i32.load
+   local.get $0
+   i32.load offset=8
+   call $~lib/array/Array<~lib/typedarray/Uint8Array>#__uget
+   local.tee $2
+   i32.load offset=8
+   local.get $1
+   i32.load offset=8
+   i32.eq
+   if
+    local.get $1
+    i32.load offset=8
+    local.set $0
+    local.get $1
+    i32.load offset=4
+    local.set $3
     i32.const 0
+    local.set $1
+    block $~lib/util/memory/memcmp|inlined.0
+     local.get $3
+     local.get $2
+     i32.load offset=4
+     local.tee $2
+     i32.eq
+     br_if $~lib/util/memory/memcmp|inlined.0
+     local.get $2
+     i32.const 7
+     i32.and
+     local.get $3
+     i32.const 7
+     i32.and
+     i32.eq
+     if
+      loop $while-continue|0
+       local.get $2
+       i32.const 7
+       i32.and
+       if
+        i32.const 0
+        local.set $1
+        local.get $0
+        i32.eqz
+        br_if $~lib/util/memory/memcmp|inlined.0
+        local.get $2
+        i32.load8_u
+        local.tee $4
+        local.get $3
+        i32.load8_u
+        local.tee $5
+        i32.sub
+        local.set $1
+        local.get $4
+        local.get $5
+        i32.ne
+        br_if $~lib/util/memory/memcmp|inlined.0
+        local.get $0
+        i32.const 1
+        i32.sub
+        local.set $0
+        local.get $2
+        i32.const 1
+        i32.add
+        local.set $2
+        local.get $3
+        i32.const 1
+        i32.add
+        local.set $3
+        br $while-continue|0
+       end
+      end
+      loop $while-continue|1
+       local.get $0
+       i32.const 8
+       i32.ge_u
+       if
+        local.get $2
+        i64.load
+        local.get $3
+        i64.load
+        i64.eq
+        if
+         local.get $2
+         i32.const 8
+         i32.add
+         local.set $2
+         local.get $3
+         i32.const 8
+         i32.add
+         local.set $3
+         local.get $0
+         i32.const 8
+         i32.sub
+         local.set $0
+         br $while-continue|1
+        end
+       end
+      end
+     end
+     loop $while-continue|2
+      local.get $0
+      local.tee $1
+      i32.const 1
+      i32.sub
+      local.set $0
+      local.get $1
+      if
+       local.get $2
+       i32.load8_u
+       local.tee $4
+       local.get $3
+       i32.load8_u
+       local.tee $5
+       i32.sub
+       local.set $1
+       local.get $4
+       local.get $5
+       i32.ne
+       br_if $~lib/util/memory/memcmp|inlined.0
+       local.get $2
+       i32.const 1
+       i32.add
+       local.set $2
+       local.get $3
+       i32.const 1
+       i32.add
+       local.set $3
+       br $while-continue|2
+      end
+     end
+     i32.const 0
+     local.set $1
+    end
+    local.get $1
+    i32.eqz
+    if
+     i32.const 1
+     return
+    end
    end
   end
-  i32.eqz
+  i32.const 0
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#indexOf (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i64)
+  local.get $0
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#isLastIndex
   if
-   i32.const 12816
-   i32.const 11232
-   i32.const 217
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
+   local.get $0
+   i32.load offset=8
+   return
   end
-  local.get $3
-  call $src/PredictionMarket/PredictionMarket#toSubPointer
-  local.set $5
   local.get $0
-  i32.load16_u offset=58
-  local.get $5
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
-  local.tee $6
-  i64.load
-  global.get $src/PredictionMarket/STATUS_OPEN
-  local.tee $7
-  i64.load
-  i64.eq
-  if (result i32)
-   local.get $6
-   i64.load offset=8
-   local.get $7
-   i64.load offset=8
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $6
-   i64.load offset=16
-   local.get $7
-   i64.load offset=16
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $6
-   i64.load offset=24
-   local.get $7
-   i64.load offset=24
-   i64.eq
-  else
-   i32.const 0
-  end
+  i32.load
+  i32.load offset=12
+  local.tee $2
   i32.eqz
   if
-   i32.const 12928
-   i32.const 11232
-   i32.const 224
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
+   i32.const -1
+   return
   end
-  local.get $0
-  local.get $5
-  call $src/PredictionMarket/PredictionMarket#getMarketEndBlock
-  local.set $4
-  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  local.tee $6
-  i32.load offset=20
-  i32.eqz
-  if
-   i32.const 11072
-   i32.const 5392
-   i32.const 118
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  local.get $6
-  i32.load offset=20
-  local.tee $6
-  i32.eqz
-  if
-   i32.const 9488
-   i32.const 5392
-   i32.const 120
-   i32.const 16
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  local.get $6
-  i64.load offset=8
-  local.get $4
-  i64.ge_u
-  if
-   i32.const 12992
-   i32.const 11232
-   i32.const 229
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  i64.const 0
-  i64.const 0
-  i64.const 0
-  i64.const 0
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-  local.set $6
   local.get $1
-  i64.load
-  local.get $6
-  i64.load
-  i64.eq
-  if (result i32)
-   local.get $1
-   i64.load offset=8
-   local.get $6
-   i64.load offset=8
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $1
-   i64.load offset=16
-   local.get $6
-   i64.load offset=16
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $1
-   i64.load offset=24
-   local.get $6
-   i64.load offset=24
-   i64.eq
-  else
-   i32.const 0
-  end
-  if
-   i32.const 13088
-   i32.const 11232
-   i32.const 233
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  local.tee $6
-  i32.load offset=24
-  i32.eqz
-  if
-   i32.const 12000
-   i32.const 5392
-   i32.const 145
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  local.get $6
-  i32.load offset=24
-  local.tee $6
-  i32.eqz
-  if
-   i32.const 9488
-   i32.const 5392
-   i32.const 147
-   i32.const 16
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  local.get $6
   i32.load offset=4
-  local.set $6
-  local.get $2
-  i64.load
-  global.get $src/PredictionMarket/OUTCOME_YES
-  local.tee $7
-  i64.load
-  i64.eq
-  if (result i32)
-   local.get $2
-   i64.load offset=8
-   local.get $7
-   i64.load offset=8
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $2
-   i64.load offset=16
-   local.get $7
-   i64.load offset=16
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $2
-   i64.load offset=24
-   local.get $7
-   i64.load offset=24
-   i64.eq
-  else
-   i32.const 0
-  end
-  if
-   local.get $0
-   i32.load16_u offset=62
-   local.get $5
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-   local.tee $7
-   local.get $7
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
-   local.get $1
-   call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
-   local.get $0
-   i32.load16_u offset=66
-   local.get $5
-   local.get $6
-   local.get $1
-   call $src/PredictionMarket/PredictionMarket#addUserBet
-  else
-   local.get $0
-   i32.load16_u offset=64
-   local.get $5
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-   local.tee $7
-   local.get $7
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
-   local.get $1
-   call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
-   local.get $0
-   i32.load16_u offset=68
-   local.get $5
-   local.get $6
-   local.get $1
-   call $src/PredictionMarket/PredictionMarket#addUserBet
-  end
-  i32.const 12
-  i32.const 45
-  call $~lib/rt/stub/__new
-  i32.const 128
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
-  local.tee $5
-  local.get $3
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
-  local.get $5
-  local.get $6
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
-  local.get $5
-  local.get $2
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
-  local.get $5
-  local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
-  i32.const 13184
-  local.get $5
-  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
-  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
-  i32.const 1
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
-  local.tee $0
-  i32.const 1
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
-  local.get $0
- )
- (func $src/PredictionMarket/PredictionMarket#resolveMarket (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  (local $3 i64)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
-  local.set $2
+  local.set $4
   local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
-  local.tee $1
-  i64.load
-  global.get $src/PredictionMarket/OUTCOME_YES
-  local.tee $4
-  i64.load
-  i64.eq
-  if (result i32)
-   local.get $1
-   i64.load offset=8
-   local.get $4
-   i64.load offset=8
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $1
-   i64.load offset=16
-   local.get $4
-   i64.load offset=16
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $1
-   i64.load offset=24
+  i32.load offset=8
+  local.tee $3
+  i32.const 8
+  i32.ge_s
+  if
    local.get $4
-   i64.load offset=24
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   i32.const 1
-  else
-   local.get $1
-   i64.load
-   global.get $src/PredictionMarket/OUTCOME_NO
-   local.tee $4
    i64.load
-   i64.eq
-   if (result i32)
-    local.get $1
-    i64.load offset=8
-    local.get $4
-    i64.load offset=8
-    i64.eq
-   else
-    i32.const 0
-   end
-   if (result i32)
-    local.get $1
-    i64.load offset=16
-    local.get $4
-    i64.load offset=16
-    i64.eq
-   else
-    i32.const 0
-   end
-   if (result i32)
-    local.get $1
-    i64.load offset=24
-    local.get $4
-    i64.load offset=24
-    i64.eq
-   else
+   local.set $10
+   local.get $2
+   i32.const 1
+   i32.sub
+   local.set $9
+   loop $for-loop|0
+    local.get $9
     i32.const 0
+    i32.ge_s
+    if
+     block $for-continue|0
+      local.get $0
+      i32.load
+      local.get $9
+      call $~lib/array/Array<~lib/typedarray/Uint8Array>#__uget
+      local.tee $2
+      i32.load offset=8
+      local.get $3
+      i32.ne
+      br_if $for-continue|0
+      local.get $2
+      i32.load offset=4
+      i64.load
+      local.get $10
+      i64.ne
+      br_if $for-continue|0
+      local.get $3
+      local.set $1
+      i32.const 0
+      local.set $8
+      block $~lib/util/memory/memcmp|inlined.1
+       local.get $2
+       i32.load offset=4
+       local.tee $7
+       local.get $4
+       local.tee $2
+       i32.eq
+       br_if $~lib/util/memory/memcmp|inlined.1
+       local.get $7
+       i32.const 7
+       i32.and
+       local.get $2
+       i32.const 7
+       i32.and
+       i32.eq
+       if
+        loop $while-continue|1
+         local.get $7
+         i32.const 7
+         i32.and
+         if
+          i32.const 0
+          local.set $8
+          local.get $1
+          i32.eqz
+          br_if $~lib/util/memory/memcmp|inlined.1
+          local.get $7
+          i32.load8_u
+          local.tee $6
+          local.get $2
+          i32.load8_u
+          local.tee $5
+          i32.sub
+          local.set $8
+          local.get $5
+          local.get $6
+          i32.ne
+          br_if $~lib/util/memory/memcmp|inlined.1
+          local.get $1
+          i32.const 1
+          i32.sub
+          local.set $1
+          local.get $7
+          i32.const 1
+          i32.add
+          local.set $7
+          local.get $2
+          i32.const 1
+          i32.add
+          local.set $2
+          br $while-continue|1
+         end
+        end
+        loop $while-continue|2
+         local.get $1
+         i32.const 8
+         i32.ge_u
+         if
+          local.get $7
+          i64.load
+          local.get $2
+          i64.load
+          i64.eq
+          if
+           local.get $7
+           i32.const 8
+           i32.add
+           local.set $7
+           local.get $2
+           i32.const 8
+           i32.add
+           local.set $2
+           local.get $1
+           i32.const 8
+           i32.sub
+           local.set $1
+           br $while-continue|2
+          end
+         end
+        end
+       end
+       loop $while-continue|3
+        local.get $1
+        local.tee $5
+        i32.const 1
+        i32.sub
+        local.set $1
+        local.get $5
+        if
+         local.get $7
+         i32.load8_u
+         local.tee $6
+         local.get $2
+         i32.load8_u
+         local.tee $5
+         i32.sub
+         local.set $8
+         local.get $5
+         local.get $6
+         i32.ne
+         br_if $~lib/util/memory/memcmp|inlined.1
+         local.get $7
+         i32.const 1
+         i32.add
+         local.set $7
+         local.get $2
+         i32.const 1
+         i32.add
+         local.set $2
+         br $while-continue|3
+        end
+       end
+       i32.const 0
+       local.set $8
+      end
+      local.get $8
+      i32.eqz
+      if
+       local.get $0
+       local.get $9
+       i32.store offset=8
+       local.get $9
+       return
+      end
+     end
+     local.get $9
+     i32.const 1
+     i32.sub
+     local.set $9
+     br $for-loop|0
+    end
    end
-  end
-  i32.eqz
-  if
-   i32.const 12816
-   i32.const 11232
-   i32.const 268
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  local.get $2
-  call $src/PredictionMarket/PredictionMarket#toSubPointer
-  local.set $4
-  local.get $0
-  i32.load16_u offset=58
-  local.get $4
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
-  local.tee $5
-  i64.load
-  global.get $src/PredictionMarket/STATUS_OPEN
-  local.tee $6
-  i64.load
-  i64.eq
-  if (result i32)
-   local.get $5
-   i64.load offset=8
-   local.get $6
-   i64.load offset=8
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $5
-   i64.load offset=16
-   local.get $6
-   i64.load offset=16
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $5
-   i64.load offset=24
-   local.get $6
-   i64.load offset=24
-   i64.eq
   else
-   i32.const 0
-  end
-  i32.eqz
-  if
-   i32.const 12928
-   i32.const 11232
-   i32.const 275
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  local.get $0
-  i32.load16_u offset=56
-  local.get $4
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
-  local.set $5
-  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  local.tee $6
-  i32.load offset=24
-  i32.eqz
-  if
-   i32.const 12000
-   i32.const 5392
-   i32.const 145
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  local.get $6
-  i32.load offset=24
-  local.tee $6
-  i32.eqz
-  if
-   i32.const 9488
-   i32.const 5392
-   i32.const 147
-   i32.const 16
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  local.get $6
-  i32.load offset=4
-  local.tee $6
-  i32.load offset=8
-  i32.const 32
-  i32.ne
-  if
-   i32.const 2304
-   i32.const 5888
-   i32.const 220
-   i32.const 30
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
+   local.get $2
+   i32.const 1
+   i32.sub
+   local.set $9
+   loop $for-loop|4
+    local.get $9
+    i32.const 0
+    i32.ge_s
+    if
+     local.get $3
+     local.get $0
+     i32.load
+     local.get $9
+     call $~lib/array/Array<~lib/typedarray/Uint8Array>#__uget
+     local.tee $2
+     i32.load offset=8
+     i32.eq
+     if
+      local.get $3
+      local.set $1
+      i32.const 0
+      local.set $8
+      block $~lib/util/memory/memcmp|inlined.2
+       local.get $2
+       i32.load offset=4
+       local.tee $7
+       local.get $4
+       local.tee $2
+       i32.eq
+       br_if $~lib/util/memory/memcmp|inlined.2
+       local.get $7
+       i32.const 7
+       i32.and
+       local.get $2
+       i32.const 7
+       i32.and
+       i32.eq
+       if
+        loop $while-continue|5
+         local.get $7
+         i32.const 7
+         i32.and
+         if
+          i32.const 0
+          local.set $8
+          local.get $1
+          i32.eqz
+          br_if $~lib/util/memory/memcmp|inlined.2
+          local.get $7
+          i32.load8_u
+          local.tee $6
+          local.get $2
+          i32.load8_u
+          local.tee $5
+          i32.sub
+          local.set $8
+          local.get $5
+          local.get $6
+          i32.ne
+          br_if $~lib/util/memory/memcmp|inlined.2
+          local.get $1
+          i32.const 1
+          i32.sub
+          local.set $1
+          local.get $7
+          i32.const 1
+          i32.add
+          local.set $7
+          local.get $2
+          i32.const 1
+          i32.add
+          local.set $2
+          br $while-continue|5
+         end
+        end
+        loop $while-continue|6
+         local.get $1
+         i32.const 8
+         i32.ge_u
+         if
+          local.get $7
+          i64.load
+          local.get $2
+          i64.load
+          i64.eq
+          if
+           local.get $7
+           i32.const 8
+           i32.add
+           local.set $7
+           local.get $2
+           i32.const 8
+           i32.add
+           local.set $2
+           local.get $1
+           i32.const 8
+           i32.sub
+           local.set $1
+           br $while-continue|6
+          end
+         end
+        end
+       end
+       loop $while-continue|7
+        local.get $1
+        local.tee $5
+        i32.const 1
+        i32.sub
+        local.set $1
+        local.get $5
+        if
+         local.get $7
+         i32.load8_u
+         local.tee $6
+         local.get $2
+         i32.load8_u
+         local.tee $5
+         i32.sub
+         local.set $8
+         local.get $5
+         local.get $6
+         i32.ne
+         br_if $~lib/util/memory/memcmp|inlined.2
+         local.get $7
+         i32.const 1
+         i32.add
+         local.set $7
+         local.get $2
+         i32.const 1
+         i32.add
+         local.set $2
+         br $while-continue|7
+        end
+       end
+       i32.const 0
+       local.set $8
+      end
+      local.get $8
+      i32.eqz
+      if
+       local.get $0
+       local.get $9
+       i32.store offset=8
+       local.get $9
+       return
+      end
+     end
+     local.get $9
+     i32.const 1
+     i32.sub
+     local.set $9
+     br $for-loop|4
+    end
+   end
   end
-  local.get $6
+  i32.const -1
+ )
+ (func $~lib/array/Array<~lib/typedarray/Uint8Array>#push (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  local.get $0
+  local.get $0
+  i32.load offset=12
+  local.tee $2
+  i32.const 1
+  i32.add
+  local.tee $3
+  i32.const 2
+  call $~lib/array/ensureCapacity
+  local.get $0
   i32.load offset=4
-  local.tee $6
-  i64.load offset=24
-  call $~lib/polyfills/bswap<u64>
-  local.get $6
-  i64.load offset=16
-  call $~lib/polyfills/bswap<u64>
-  local.get $6
-  i64.load offset=8
-  call $~lib/polyfills/bswap<u64>
-  local.get $6
-  i64.load
-  call $~lib/polyfills/bswap<u64>
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-  local.tee $6
-  i64.load
-  local.get $5
-  i64.load
-  i64.eq
-  if (result i32)
-   local.get $6
-   i64.load offset=8
-   local.get $5
-   i64.load offset=8
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $6
-   i64.load offset=16
-   local.get $5
-   i64.load offset=16
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $6
-   i64.load offset=24
-   local.get $5
-   i64.load offset=24
-   i64.eq
-  else
-   i32.const 0
-  end
-  i32.eqz
-  if
-   i32.const 13232
-   i32.const 11232
-   i32.const 281
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
+  local.get $2
+  i32.const 2
+  i32.shl
+  i32.add
+  local.get $1
+  i32.store
   local.get $0
-  local.get $4
-  call $src/PredictionMarket/PredictionMarket#getMarketEndBlock
-  local.set $3
-  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  local.tee $5
-  i32.load offset=20
-  i32.eqz
-  if
-   i32.const 11072
-   i32.const 5392
-   i32.const 118
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  local.get $5
-  i32.load offset=20
-  local.tee $5
-  i32.eqz
-  if
-   i32.const 9488
-   i32.const 5392
-   i32.const 120
-   i32.const 16
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  local.get $5
-  i64.load offset=8
   local.get $3
-  i64.lt_u
+  i32.store offset=12
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#set (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  local.get $0
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#indexOf
+  local.tee $3
+  i32.const -1
+  i32.eq
+  if
+   local.get $0
+   i32.load
+   local.get $1
+   call $~lib/array/Array<~lib/typedarray/Uint8Array>#push
+   local.get $0
+   i32.load offset=4
+   local.get $2
+   call $~lib/array/Array<~lib/typedarray/Uint8Array>#push
+   local.get $0
+   local.get $0
+   i32.load
+   i32.load offset=12
+   i32.const 1
+   i32.sub
+   i32.store offset=8
+  else
+   local.get $0
+   i32.load offset=4
+   local.get $3
+   local.get $2
+   call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/types/Address/Address>#__set
+   local.get $0
+   local.get $3
+   i32.store offset=8
+  end
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#hasPointerStorageHash (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  local.get $1
+  i32.load
+  i32.const 20
+  i32.sub
+  i32.load offset=16
+  i32.const 32
+  i32.ne
   if
-   i32.const 13328
-   i32.const 11232
-   i32.const 286
+   i32.const 16256
+   i32.const 5168
+   i32.const 1361
    i32.const 13
    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
    unreachable
   end
   local.get $0
-  i32.load16_u offset=58
-  local.get $4
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-  global.get $src/PredictionMarket/STATUS_RESOLVED
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
-  local.get $0
-  i32.load16_u offset=60
-  local.get $4
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  i32.load offset=4
   local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
-  i32.const 12
-  i32.const 46
-  call $~lib/rt/stub/__new
-  i32.const 64
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
-  local.tee $4
-  local.get $2
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
-  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#indexOf
+  i32.const -1
+  i32.ne
+  if
+   return
+  end
+  i32.const 32
+  call $~lib/arraybuffer/ArrayBuffer#constructor
+  local.set $2
   local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
-  i32.const 13440
-  local.get $4
-  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
-  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
-  i32.const 1
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
-  local.tee $0
+  i32.load
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/env/global/loadPointer
   i32.const 1
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  global.set $~argumentsLength
+  local.get $2
+  call $~lib/typedarray/Uint8Array.wrap@varargs
+  local.set $2
   local.get $0
+  i32.load offset=4
+  local.get $1
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#set
+  local.get $2
+  i32.load offset=8
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_BUFFER
+  local.tee $1
+  i32.load offset=8
+  i32.eq
+  if
+   local.get $2
+   i32.load offset=8
+   local.set $0
+   block $~lib/util/memory/memcmp|inlined.3
+    local.get $2
+    i32.load offset=4
+    local.tee $2
+    local.get $1
+    i32.load offset=4
+    local.tee $3
+    i32.eq
+    br_if $~lib/util/memory/memcmp|inlined.3
+    local.get $2
+    i32.const 7
+    i32.and
+    local.get $3
+    i32.const 7
+    i32.and
+    i32.eq
+    if
+     loop $while-continue|0
+      local.get $2
+      i32.const 7
+      i32.and
+      if
+       local.get $0
+       i32.eqz
+       br_if $~lib/util/memory/memcmp|inlined.3
+       local.get $3
+       i32.load8_u
+       local.get $2
+       i32.load8_u
+       i32.ne
+       br_if $~lib/util/memory/memcmp|inlined.3
+       local.get $0
+       i32.const 1
+       i32.sub
+       local.set $0
+       local.get $2
+       i32.const 1
+       i32.add
+       local.set $2
+       local.get $3
+       i32.const 1
+       i32.add
+       local.set $3
+       br $while-continue|0
+      end
+     end
+     loop $while-continue|1
+      local.get $0
+      i32.const 8
+      i32.ge_u
+      if
+       local.get $2
+       i64.load
+       local.get $3
+       i64.load
+       i64.eq
+       if
+        local.get $2
+        i32.const 8
+        i32.add
+        local.set $2
+        local.get $3
+        i32.const 8
+        i32.add
+        local.set $3
+        local.get $0
+        i32.const 8
+        i32.sub
+        local.set $0
+        br $while-continue|1
+       end
+      end
+     end
+    end
+    loop $while-continue|2
+     local.get $0
+     local.tee $1
+     i32.const 1
+     i32.sub
+     local.set $0
+     local.get $1
+     if
+      local.get $3
+      i32.load8_u
+      local.get $2
+      i32.load8_u
+      i32.ne
+      br_if $~lib/util/memory/memcmp|inlined.3
+      local.get $2
+      i32.const 1
+      i32.add
+      local.set $2
+      local.get $3
+      i32.const 1
+      i32.add
+      local.set $3
+      br $while-continue|2
+     end
+    end
+   end
+  end
  )
- (func $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#clone (param $0 i32) (result i32)
-  local.get $0
-  i64.load
-  local.get $0
-  i64.load offset=8
+ (func $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#getStorageAt (param $0 i32) (param $1 i32) (result i32)
   local.get $0
-  i64.load offset=16
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#hasPointerStorageHash
   local.get $0
-  i64.load offset=24
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
- )
- (func $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.shl (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i64)
-  (local $3 i64)
-  (local $4 i64)
-  (local $5 i64)
-  (local $6 i64)
-  (local $7 i32)
-  (local $8 i64)
-  (local $9 i32)
-  (local $10 i64)
+  i32.load offset=4
   local.get $1
-  i32.const 0
-  i32.le_s
+  call $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#indexOf
+  i32.const -1
+  i32.ne
   if
+   local.get $0
+   i32.load offset=4
+   local.tee $0
    local.get $1
-   if (result i32)
-    i64.const 0
-    i64.const 0
-    i64.const 0
-    i64.const 0
-    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-   else
-    local.get $0
-    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#clone
+   call $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#indexOf
+   local.tee $1
+   i32.const -1
+   i32.eq
+   if
+    i32.const 16336
+    i32.const 16432
+    i32.const 118
+    i32.const 13
+    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+    unreachable
    end
+   local.get $0
+   i32.load offset=4
+   local.get $1
+   call $~lib/array/Array<~lib/typedarray/Uint8Array>#__uget
    return
   end
+  i32.const 0
+  i32.const 32
+  call $~lib/typedarray/Uint8Array#constructor
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value (param $0 i32) (result i32)
+  (local $1 i32)
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.get $0
+  i32.load
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#getStorageAt
+  local.tee $1
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
   local.get $1
-  i32.const 256
-  i32.ge_s
+  i32.load offset=4
+  local.tee $1
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  local.get $1
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  local.get $1
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  local.get $1
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  i32.store offset=12
+  local.get $0
+  i32.load offset=12
+ )
+ (func $src/PredictionMarket/PredictionMarket#isFlagSet (param $0 i32) (result i32)
+  (local $1 i32)
+  local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $1
+  local.get $0
+  i64.load
+  local.get $1
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $0
+   i64.load offset=8
+   local.get $1
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=16
+   local.get $1
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=24
+   local.get $1
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+ )
+ (func $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt (param $0 i32) (param $1 i32) (result i32)
+  local.get $0
+  i64.load offset=24
+  local.get $1
+  i64.load offset=24
+  i64.ne
   if
-   i64.const 0
-   i64.const 0
-   i64.const 0
-   i64.const 0
-   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   local.get $0
+   i64.load offset=24
+   local.get $1
+   i64.load offset=24
+   i64.lt_u
    return
   end
+  local.get $0
+  i64.load offset=16
   local.get $1
-  i32.const 255
-  i32.and
-  local.tee $7
-  i32.const 6
-  i32.shr_u
+  i64.load offset=16
+  i64.ne
+  if
+   local.get $0
+   i64.load offset=16
+   local.get $1
+   i64.load offset=16
+   i64.lt_u
+   return
+  end
+  local.get $0
+  i64.load offset=8
+  local.get $1
+  i64.load offset=8
+  i64.ne
+  if
+   local.get $0
+   i64.load offset=8
+   local.get $1
+   i64.load offset=8
+   i64.lt_u
+   return
+  end
+  local.get $0
+  i64.load
+  local.get $1
+  i64.load
+  i64.lt_u
+ )
+ (func $src/PredictionMarket/PredictionMarket#getMaxMarkets (param $0 i32) (result i32)
+  (local $1 i32)
+  local.get $0
+  i32.load offset=416
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
   local.set $1
-  i32.const 64
-  local.get $7
-  i32.const 63
-  i32.and
-  local.tee $7
-  i32.sub
-  local.set $9
+  global.get $src/PredictionMarket/DEFAULT_MAX_MARKETS
+  local.get $0
   local.get $0
   i64.load
-  local.set $8
+  local.get $1
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $0
+   i64.load offset=8
+   local.get $1
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=16
+   local.get $1
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=24
+   local.get $1
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  select
+ )
+ (func $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.add (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i64)
+  (local $3 i64)
+  (local $4 i64)
+  (local $5 i64)
+  (local $6 i64)
+  (local $7 i64)
+  local.get $0
+  i64.load
+  local.tee $3
+  local.get $1
+  i64.load
+  i64.add
+  local.set $2
+  local.get $2
+  local.get $3
+  i64.lt_u
+  i64.extend_i32_s
+  global.set $~lib/@btc-vision/as-bignum/assembly/globals/__u256carry
   local.get $0
   i64.load offset=8
-  local.set $10
+  local.tee $3
+  global.get $~lib/@btc-vision/as-bignum/assembly/globals/__u256carry
+  i64.add
+  local.tee $4
+  local.get $1
+  i64.load offset=8
+  i64.add
+  local.set $5
+  local.get $3
+  local.get $4
+  i64.gt_u
+  local.get $4
+  local.get $5
+  i64.gt_u
+  i32.add
+  i64.extend_i32_s
+  global.set $~lib/@btc-vision/as-bignum/assembly/globals/__u256carry
   local.get $0
   i64.load offset=16
-  local.set $2
+  local.tee $3
+  global.get $~lib/@btc-vision/as-bignum/assembly/globals/__u256carry
+  i64.add
+  local.tee $4
+  local.get $1
+  i64.load offset=16
+  i64.add
+  local.set $6
+  local.get $3
+  local.get $4
+  i64.gt_u
+  local.get $4
+  local.get $6
+  i64.gt_u
+  i32.add
+  i64.extend_i32_s
+  global.set $~lib/@btc-vision/as-bignum/assembly/globals/__u256carry
   local.get $0
   i64.load offset=24
-  local.set $5
+  local.tee $4
+  global.get $~lib/@btc-vision/as-bignum/assembly/globals/__u256carry
+  i64.add
+  local.tee $3
   local.get $1
-  if (result i64)
-   local.get $1
-   i32.const 1
-   i32.eq
-   if (result i64)
-    local.get $8
-    local.get $7
-    i64.extend_i32_s
-    i64.shl
-    local.set $4
-    local.get $10
-    local.get $7
-    i64.extend_i32_s
-    i64.shl
-    local.get $8
-    local.get $9
-    i64.extend_i32_s
-    i64.shr_u
-    i64.const 0
-    local.get $7
-    select
-    i64.or
-    local.set $3
-    local.get $2
-    local.get $7
-    i64.extend_i32_s
-    i64.shl
-    local.get $10
-    local.get $9
-    i64.extend_i32_s
-    i64.shr_u
-    i64.const 0
-    local.get $7
-    select
-    i64.or
-   else
-    local.get $1
-    i32.const 2
-    i32.eq
-    if (result i64)
-     local.get $8
-     local.get $7
-     i64.extend_i32_s
-     i64.shl
-     local.set $3
-     local.get $10
-     local.get $7
-     i64.extend_i32_s
-     i64.shl
-     local.get $8
-     local.get $9
-     i64.extend_i32_s
-     i64.shr_u
-     i64.const 0
-     local.get $7
-     select
-     i64.or
-    else
-     local.get $8
-     local.get $7
-     i64.extend_i32_s
-     i64.shl
-     i64.const 0
-     local.get $1
-     i32.const 3
-     i32.eq
-     select
-    end
-   end
-  else
-   local.get $8
-   local.get $7
-   i64.extend_i32_s
-   i64.shl
-   local.set $6
-   local.get $10
-   local.get $7
-   i64.extend_i32_s
-   i64.shl
-   local.get $8
-   local.get $9
-   i64.extend_i32_s
-   i64.shr_u
-   i64.const 0
-   local.get $7
-   select
-   i64.or
-   local.set $4
-   local.get $2
-   local.get $7
-   i64.extend_i32_s
-   i64.shl
-   local.get $10
-   local.get $9
-   i64.extend_i32_s
-   i64.shr_u
-   i64.const 0
-   local.get $7
-   select
-   i64.or
-   local.set $3
-   local.get $5
-   local.get $7
-   i64.extend_i32_s
-   i64.shl
-   local.get $2
-   local.get $9
-   i64.extend_i32_s
-   i64.shr_u
-   i64.const 0
-   local.get $7
-   select
-   i64.or
-  end
-  local.set $2
-  local.get $6
+  i64.load offset=24
+  i64.add
+  local.set $7
+  local.get $3
   local.get $4
+  i64.lt_u
   local.get $3
+  local.get $7
+  i64.gt_u
+  i32.add
+  i64.extend_i32_s
+  global.set $~lib/@btc-vision/as-bignum/assembly/globals/__u256carry
   local.get $2
+  local.get $5
+  local.get $6
+  local.get $7
   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
  )
- (func $~lib/@btc-vision/as-bignum/assembly/globals/__mul256 (param $0 i64) (param $1 i64) (param $2 i64) (param $3 i64) (param $4 i64) (param $5 i64) (param $6 i64) (param $7 i64) (result i32)
-  (local $8 i32)
-  (local $9 i32)
-  (local $10 i32)
-  (local $11 i32)
-  (local $12 i32)
-  (local $13 i32)
-  (local $14 i32)
-  i64.const 0
-  i64.const 0
-  i64.const 0
-  i64.const 0
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-  local.set $8
-  i32.const 4
-  i32.const 3
-  i32.const 41
-  i32.const 0
-  call $~lib/rt/__newArray
-  local.tee $10
-  i32.const 0
+ (func $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add (param $0 i32) (param $1 i32) (result i32)
   local.get $0
-  call $~lib/array/Array<u64>#__set
-  local.get $10
-  i32.const 1
   local.get $1
-  call $~lib/array/Array<u64>#__set
-  local.get $10
-  i32.const 2
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.add
+  local.tee $1
+  local.get $0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  if
+   i32.const 17344
+   i32.const 17424
+   i32.const 55
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#_internalSetStorageAt (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  local.get $1
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 16256
+   i32.const 5168
+   i32.const 1334
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
   local.get $2
-  call $~lib/array/Array<u64>#__set
-  local.get $10
-  i32.const 3
+  local.set $3
+  local.get $2
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 0
+   i32.const 32
+   call $~lib/typedarray/Uint8Array#constructor
+   local.tee $3
+   i32.load offset=4
+   local.get $2
+   i32.load offset=4
+   local.get $2
+   i32.load offset=8
+   i32.const 32
+   i32.lt_s
+   if (result i32)
+    local.get $2
+    i32.load offset=8
+   else
+    i32.const 32
+   end
+   memory.copy
+  end
+  local.get $0
+  i32.load offset=4
+  local.get $1
   local.get $3
-  call $~lib/array/Array<u64>#__set
-  i32.const 4
-  i32.const 3
-  i32.const 41
-  i32.const 0
-  call $~lib/rt/__newArray
-  local.tee $11
+  call $~lib/@btc-vision/btc-runtime/runtime/generic/MapUint8Array/MapUint8Array#set
+  local.get $1
+  i32.load
+  local.get $3
+  i32.load
+  call $~lib/@btc-vision/btc-runtime/runtime/env/global/storePointer
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  local.get $0
+  local.get $1
+  i32.store offset=12
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.get $0
+  i32.load
+  local.get $0
+  i32.load offset=12
+  local.set $0
   i32.const 0
+  i32.const 32
+  call $~lib/typedarray/Uint8Array#constructor
+  local.tee $4
+  i32.load offset=4
+  local.tee $2
+  local.get $0
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  i64.store
+  local.get $2
+  local.get $0
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=8
+  local.get $2
+  local.get $0
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=16
+  local.get $2
+  local.get $0
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=24
   local.get $4
-  call $~lib/array/Array<u64>#__set
-  local.get $11
-  i32.const 1
-  local.get $5
-  call $~lib/array/Array<u64>#__set
-  local.get $11
-  i32.const 2
-  local.get $6
-  call $~lib/array/Array<u64>#__set
-  local.get $11
-  i32.const 3
-  local.get $7
-  call $~lib/array/Array<u64>#__set
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#_internalSetStorageAt
+ )
+ (func $src/PredictionMarket/PredictionMarket#toSubPointer (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  i32.const 0
+  i32.const 32
+  call $~lib/typedarray/Uint8Array#constructor
+  local.tee $3
+  i32.load offset=4
+  local.tee $2
+  local.get $0
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  i64.store
+  local.get $2
+  local.get $0
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=8
+  local.get $2
+  local.get $0
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=16
+  local.get $2
+  local.get $0
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=24
+  i32.const 0
+  i32.const 30
+  call $~lib/typedarray/Uint8Array#constructor
+  local.set $0
   loop $for-loop|0
-   local.get $12
-   i32.const 4
+   local.get $1
+   i32.const 30
    i32.lt_s
    if
-    i32.const 0
-    local.set $9
-    loop $for-loop|1
-     local.get $9
-     i32.const 4
-     i32.lt_s
-     if
-      local.get $9
-      local.get $12
-      i32.add
-      i32.const 6
-      i32.shl
-      local.tee $13
-      i32.const 256
-      i32.lt_s
-      if
-       local.get $10
-       local.get $12
-       call $~lib/array/Array<u64>#__get
-       local.tee $0
-       i64.const 32
-       i64.shr_u
-       local.set $1
-       local.get $11
-       local.get $9
-       call $~lib/array/Array<u64>#__get
-       local.tee $2
-       i64.const 4294967295
-       i64.and
-       local.tee $3
-       local.get $0
-       i64.const 4294967295
-       i64.and
-       local.tee $0
-       i64.mul
-       local.set $4
-       local.get $2
-       i64.const 32
-       i64.shr_u
-       local.tee $2
-       local.get $0
-       i64.mul
-       local.get $1
-       local.get $3
-       i64.mul
-       local.get $4
-       i64.const 32
-       i64.shr_u
-       i64.add
-       local.tee $0
-       i64.const 4294967295
-       i64.and
-       i64.add
-       local.set $3
-       local.get $1
-       local.get $2
-       i64.mul
-       local.get $0
-       i64.const 32
-       i64.shr_u
-       i64.add
-       local.get $3
-       i64.const 32
-       i64.shr_u
-       i64.add
-       global.set $~lib/@btc-vision/as-bignum/assembly/globals/__res128_hi
-       local.get $4
-       i64.const 4294967295
-       i64.and
-       local.get $3
-       i64.const 32
-       i64.shl
-       i64.or
-       global.get $~lib/@btc-vision/as-bignum/assembly/globals/__res128_hi
-       call $~lib/@btc-vision/as-bignum/assembly/integer/u128/u128#constructor
-       local.tee $14
-       i64.load
-       local.get $14
-       i64.load offset=8
-       i64.const 0
-       i64.const 0
-       call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-       local.set $14
-       local.get $8
-       local.get $13
-       if (result i32)
-        local.get $14
-        local.get $13
-        call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.shl
-       else
-        local.get $14
-       end
-       call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.add
-       local.set $8
-      end
-      local.get $9
-      i32.const 1
-      i32.add
-      local.set $9
-      br $for-loop|1
-     end
-    end
-    local.get $12
+    local.get $0
+    local.get $1
+    local.get $3
+    local.get $1
+    i32.const 2
+    i32.add
+    call $~lib/typedarray/Uint8Array#__get
+    call $~lib/typedarray/Uint8Array#__set
+    local.get $1
     i32.const 1
     i32.add
-    local.set $12
+    local.set $1
     br $for-loop|0
    end
   end
-  local.get $8
+  local.get $0
  )
- (func $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.div (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i64)
+ (func $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  i32.const 8
+  i32.const 42
+  call $~lib/rt/stub/__new
+  local.tee $2
+  i32.const 0
+  i32.store16
+  local.get $2
+  i32.const 0
+  i32.store offset=4
+  local.get $2
+  local.get $0
+  i32.store16
+  local.get $2
+  local.get $1
+  i32.store offset=4
+  local.get $2
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256 (param $0 i32) (param $1 i32)
+  (local $2 i32)
   (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i64)
-  (local $7 i64)
-  (local $8 i64)
-  (local $9 i64)
-  (local $10 i64)
+  local.get $0
+  i32.const 32
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#allocSafe
+  i32.const 0
+  i32.const 32
+  call $~lib/typedarray/Uint8Array#constructor
+  local.tee $3
+  i32.load offset=4
+  local.tee $2
   local.get $1
   i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  i64.store
+  local.get $2
   local.get $1
   i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=8
+  local.get $2
   local.get $1
-  i64.load
-  local.get $1
-  i64.load offset=8
-  i64.or
-  i64.or
-  i64.or
-  i64.eqz
-  if
-   i32.const 13696
-   i32.const 5888
-   i32.const 353
-   i32.const 21
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  local.get $0
-  i64.load offset=24
-  local.get $0
-  i64.load offset=16
-  local.get $0
-  i64.load
-  local.get $0
   i64.load offset=8
-  i64.or
-  i64.or
-  i64.or
-  i64.eqz
-  if (result i32)
-   i32.const 1
-  else
-   local.get $0
-   local.get $1
-   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
-  end
-  if
-   i64.const 0
-   i64.const 0
-   i64.const 0
-   i64.const 0
-   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-   return
-  end
-  local.get $0
-  i64.load
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=16
+  local.get $2
   local.get $1
   i64.load
-  i64.eq
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=24
+  i32.const 0
+  local.set $1
+  loop $for-loop|0
+   local.get $1
+   i32.const 32
+   i32.lt_s
+   if
+    local.get $0
+    local.get $3
+    local.get $1
+    call $~lib/typedarray/Uint8Array#__get
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+    local.get $1
+    i32.const 1
+    i32.add
+    local.set $1
+    br $for-loop|0
+   end
+  end
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#getKeyPointer (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  i32.const 64
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $2
+  local.get $0
+  i32.load offset=4
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeBytes
+  local.get $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $0
+  i32.load16_u
+  local.get $2
+  i32.load offset=8
+  call $~lib/@btc-vision/btc-runtime/runtime/env/global/sha256
+  i32.const 0
+  i32.const 2032
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodePointer
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get (param $0 i32) (param $1 i32) (result i32)
+  local.get $0
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#getKeyPointer
+  local.set $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#getStorageAt
+  local.tee $0
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load offset=4
+  local.tee $0
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  local.get $0
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  local.get $0
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  local.get $0
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#set (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  local.get $0
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#getKeyPointer
+  local.set $3
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  i32.const 0
+  i32.const 32
+  call $~lib/typedarray/Uint8Array#constructor
+  local.tee $0
+  i32.load offset=4
+  local.tee $1
+  local.get $2
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  i64.store
+  local.get $1
+  local.get $2
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=8
+  local.get $1
+  local.get $2
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=16
+  local.get $1
+  local.get $2
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=24
+  local.get $3
+  local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#_internalSetStorageAt
+ )
+ (func $src/PredictionMarket/PredictionMarket#bindOracle (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  local.get $0
+  i32.load16_u offset=458
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  local.set $2
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $3
+  local.get $2
+  i64.load
+  local.get $3
+  i64.load
+  i64.eq
   if (result i32)
-   local.get $0
+   local.get $2
    i64.load offset=8
-   local.get $1
+   local.get $3
    i64.load offset=8
    i64.eq
   else
    i32.const 0
   end
   if (result i32)
-   local.get $0
+   local.get $2
    i64.load offset=16
-   local.get $1
+   local.get $3
    i64.load offset=16
    i64.eq
   else
    i32.const 0
   end
   if (result i32)
-   local.get $0
+   local.get $2
    i64.load offset=24
-   local.get $1
+   local.get $3
    i64.load offset=24
    i64.eq
   else
    i32.const 0
   end
   if
-   i64.const 1
-   i64.const 0
-   i64.const 0
-   i64.const 0
-   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-   return
+   i32.const 17744
+   i32.const 16656
+   i32.const 3464
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
   end
   local.get $0
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#clone
-  local.set $5
+  i32.load16_u offset=450
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
   local.get $1
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#clone
-  local.set $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  local.set $2
   i64.const 0
   i64.const 0
   i64.const 0
   i64.const 0
   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#clone
-  local.set $0
-  local.get $1
-  block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.clz|inlined.0 (result i32)
-   local.get $1
-   i64.load offset=24
-   i64.const 0
-   i64.ne
-   if
-    local.get $1
-    i64.load offset=24
-    i64.clz
-    i32.wrap_i64
-    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.clz|inlined.0
-   end
-   local.get $1
-   i64.load offset=16
-   i64.const 0
-   i64.ne
-   if
-    local.get $1
-    i64.load offset=16
-    i64.clz
-    i64.const -64
-    i64.sub
-    i32.wrap_i64
-    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.clz|inlined.0
-   end
-   local.get $1
+  local.set $3
+  local.get $2
+  i64.load
+  local.get $3
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $2
    i64.load offset=8
-   i64.const 0
-   i64.ne
-   if
-    local.get $1
-    i64.load offset=8
-    i64.clz
-    i64.const 128
-    i64.add
-    i32.wrap_i64
-    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.clz|inlined.0
-   end
-   local.get $1
-   i64.load
-   i64.const 0
-   i64.ne
-   if
-    local.get $1
-    i64.load
-    i64.clz
-    i64.const 192
-    i64.add
-    i32.wrap_i64
-    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.clz|inlined.0
-   end
-   i32.const 256
+   local.get $3
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
   end
-  block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.clz|inlined.1 (result i32)
-   local.get $5
-   i64.load offset=24
-   i64.const 0
-   i64.ne
-   if
-    local.get $5
-    i64.load offset=24
-    i64.clz
-    i32.wrap_i64
-    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.clz|inlined.1
-   end
-   local.get $5
+  if (result i32)
+   local.get $2
    i64.load offset=16
-   i64.const 0
-   i64.ne
-   if
-    local.get $5
-    i64.load offset=16
-    i64.clz
-    i64.const -64
-    i64.sub
-    i32.wrap_i64
-    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.clz|inlined.1
-   end
-   local.get $5
-   i64.load offset=8
-   i64.const 0
-   i64.ne
-   if
-    local.get $5
-    i64.load offset=8
-    i64.clz
-    i64.const 128
-    i64.add
-    i32.wrap_i64
-    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.clz|inlined.1
-   end
-   local.get $5
-   i64.load
-   i64.const 0
-   i64.ne
-   if
-    local.get $5
-    i64.load
-    i64.clz
-    i64.const 192
-    i64.add
-    i32.wrap_i64
-    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.clz|inlined.1
-   end
-   i32.const 256
+   local.get $3
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
   end
-  i32.sub
-  local.tee $1
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.shl
-  local.set $4
-  loop $for-loop|0
+  if (result i32)
+   local.get $2
+   i64.load offset=24
+   local.get $3
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 17824
+   i32.const 16656
+   i32.const 3468
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=448
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  local.set $2
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $3
+  local.get $2
+  i64.load
+  local.get $3
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $2
+   i64.load offset=8
+   local.get $3
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $2
+   i64.load offset=16
+   local.get $3
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $2
+   i64.load offset=24
+   local.get $3
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   i32.const 1
+  else
+   local.get $2
+   local.get $0
+   i32.load offset=464
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  end
+  if
+   i32.const 17888
+   i32.const 16656
+   i32.const 3473
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=460
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.tee $0
+  local.get $1
+  local.get $0
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  i64.const 1
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#set
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#constructor (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  i32.const 16
+  i32.const 43
+  call $~lib/rt/stub/__new
+  local.tee $2
+  local.get $0
+  i32.store16 offset=10
+  local.get $2
+  local.get $1
+  i32.store offset=12
+  local.get $2
+  i32.const 0
+  i32.store
+  local.get $2
+  i32.const 4
+  i32.const 3
+  i32.const 44
+  i32.const 18032
+  call $~lib/rt/__newArray
+  i32.store offset=4
+  local.get $2
+  i32.const 0
+  i32.store8 offset=8
+  local.get $2
+  i32.const 0
+  i32.store8 offset=9
+  local.get $2
+  local.get $0
+  local.get $1
+  i32.const 1
+  i32.const 17984
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodePointer
+  i32.store
+  local.get $2
+ )
+ (func $~lib/array/Array<u64>#__set (param $0 i32) (param $1 i32) (param $2 i64)
+  (local $3 i32)
+  local.get $1
+  local.get $0
+  i32.load offset=12
+  i32.ge_u
+  if
    local.get $1
    i32.const 0
-   i32.ge_s
+   i32.lt_s
    if
-    local.get $5
-    local.get $4
-    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
-    i32.eqz
-    if
-     local.get $5
-     i64.load
-     local.tee $2
-     local.get $4
-     i64.load
-     i64.sub
-     local.set $6
-     local.get $2
-     local.get $6
-     i64.lt_u
-     i64.extend_i32_s
-     global.set $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub
-     local.get $5
-     i64.load offset=8
-     local.tee $2
-     local.get $4
-     i64.load offset=8
-     i64.sub
-     local.tee $7
-     global.get $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub
-     i64.sub
-     local.set $8
-     local.get $7
-     local.get $8
-     i64.lt_u
-     local.get $2
-     local.get $7
-     i64.lt_u
-     i32.add
-     i64.extend_i32_s
-     global.set $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub
-     local.get $5
-     i64.load offset=16
-     local.tee $2
-     local.get $4
-     i64.load offset=16
-     i64.sub
-     local.tee $7
-     global.get $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub
-     i64.sub
-     local.set $9
-     local.get $7
-     local.get $9
-     i64.lt_u
-     local.get $2
-     local.get $7
-     i64.lt_u
-     i32.add
-     i64.extend_i32_s
-     global.set $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub
-     local.get $5
-     i64.load offset=24
-     local.tee $7
-     local.get $4
-     i64.load offset=24
-     i64.sub
-     local.tee $2
-     global.get $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub
-     i64.sub
-     local.set $10
-     local.get $2
-     local.get $10
-     i64.lt_u
-     local.get $2
-     local.get $7
-     i64.gt_u
-     i32.add
-     i64.extend_i32_s
-     global.set $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub
-     local.get $5
-     local.get $6
-     i64.store
-     local.get $5
-     local.get $8
-     i64.store offset=8
-     local.get $5
-     local.get $9
-     i64.store offset=16
-     local.get $5
-     local.get $10
-     i64.store offset=24
-     i64.const 1
-     local.get $1
-     i32.const 64
-     i32.rem_s
-     i64.extend_i32_s
-     i64.shl
-     local.set $2
-     local.get $1
-     i32.const 64
-     i32.div_s
-     local.tee $3
+    i32.const 2176
+    i32.const 4192
+    i32.const 132
+    i32.const 22
+    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+    unreachable
+   end
+   local.get $0
+   local.get $1
+   i32.const 1
+   i32.add
+   local.tee $3
+   i32.const 3
+   call $~lib/array/ensureCapacity
+   local.get $0
+   local.get $3
+   i32.store offset=12
+  end
+  local.get $0
+  i32.load offset=4
+  local.get $1
+  i32.const 3
+  i32.shl
+  i32.add
+  local.get $2
+  i64.store
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#ensureValues (param $0 i32)
+  (local $1 i32)
+  local.get $0
+  i32.load8_u offset=8
+  i32.eqz
+  if
+   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+   local.get $0
+   i32.load
+   call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#getStorageAt
+   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#constructor
+   local.set $1
+   local.get $0
+   i32.load offset=4
+   i32.const 0
+   local.get $1
+   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
+   call $~lib/array/Array<u64>#__set
+   local.get $0
+   i32.load offset=4
+   i32.const 1
+   local.get $1
+   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
+   call $~lib/array/Array<u64>#__set
+   local.get $0
+   i32.load offset=4
+   i32.const 2
+   local.get $1
+   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
+   call $~lib/array/Array<u64>#__set
+   local.get $0
+   i32.load offset=4
+   i32.const 3
+   local.get $1
+   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
+   call $~lib/array/Array<u64>#__set
+   local.get $0
+   i32.const 1
+   i32.store8 offset=8
+  end
+ )
+ (func $~lib/array/Array<u64>#__get (param $0 i32) (param $1 i32) (result i64)
+  local.get $1
+  local.get $0
+  i32.load offset=12
+  i32.ge_u
+  if
+   i32.const 2176
+   i32.const 4192
+   i32.const 116
+   i32.const 42
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load offset=4
+  local.get $1
+  i32.const 3
+  i32.shl
+  i32.add
+  i64.load
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64 (param $0 i32) (param $1 i64)
+  (local $2 i32)
+  (local $3 i32)
+  local.get $0
+  i32.const 8
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#allocSafe
+  local.get $0
+  i32.load
+  local.tee $2
+  i32.const 31
+  i32.shr_u
+  local.get $0
+  i32.load offset=4
+  local.tee $3
+  i32.load offset=8
+  local.get $2
+  i32.const 8
+  i32.add
+  i32.lt_s
+  i32.or
+  if
+   i32.const 2176
+   i32.const 2416
+   i32.const 174
+   i32.const 7
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $2
+  local.get $3
+  i32.load offset=4
+  i32.add
+  local.get $1
+  call $~lib/polyfills/bswap<u64>
+  i64.store
+  local.get $0
+  local.get $0
+  i32.load
+  i32.const 8
+  i32.add
+  i32.store
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#save (param $0 i32)
+  (local $1 i32)
+  local.get $0
+  i32.load8_u offset=9
+  if
+   i32.const 32
+   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+   local.tee $1
+   local.get $0
+   i32.load offset=4
+   i32.const 0
+   call $~lib/array/Array<u64>#__get
+   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+   local.get $1
+   local.get $0
+   i32.load offset=4
+   i32.const 1
+   call $~lib/array/Array<u64>#__get
+   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+   local.get $1
+   local.get $0
+   i32.load offset=4
+   i32.const 2
+   call $~lib/array/Array<u64>#__get
+   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+   local.get $1
+   local.get $0
+   i32.load offset=4
+   i32.const 3
+   call $~lib/array/Array<u64>#__get
+   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+   local.get $0
+   i32.load
+   local.get $1
+   i32.load offset=8
+   call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#_internalSetStorageAt
+   local.get $0
+   i32.const 0
+   i32.store8 offset=9
+  end
+ )
+ (func $src/PredictionMarket/PredictionMarket#setMarketBlock (param $0 i32) (param $1 i32) (param $2 i64)
+  local.get $0
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#constructor
+  local.tee $0
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#ensureValues
+  local.get $0
+  i32.load offset=4
+  i32.const 0
+  call $~lib/array/Array<u64>#__get
+  local.get $2
+  i64.ne
+  if
+   local.get $0
+   i32.load offset=4
+   i32.const 0
+   local.get $2
+   call $~lib/array/Array<u64>#__set
+   local.get $0
+   i32.const 1
+   i32.store8 offset=9
+  end
+  local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#save
+ )
+ (func $src/PredictionMarket/PredictionMarket#getResolutionTimeout (param $0 i32) (result i64)
+  (local $1 i64)
+  local.get $0
+  i32.load16_u offset=434
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#constructor
+  local.tee $0
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#ensureValues
+  i64.const 432
+  local.get $0
+  i32.load offset=4
+  i32.const 0
+  call $~lib/array/Array<u64>#__get
+  local.tee $1
+  local.get $1
+  i64.eqz
+  select
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add64 (param $0 i64) (param $1 i64) (result i64)
+  local.get $0
+  local.get $1
+  i64.add
+  local.tee $1
+  local.get $0
+  i64.lt_u
+  if
+   i32.const 17344
+   i32.const 17424
+   i32.const 95
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+ )
+ (func $~lib/typedarray/Uint8Array#set<~lib/typedarray/Uint8Array> (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  local.get $1
+  i32.load offset=8
+  local.set $3
+  local.get $2
+  i32.const 0
+  i32.lt_s
+  if (result i32)
+   i32.const 1
+  else
+   local.get $0
+   i32.load offset=8
+   local.get $2
+   local.get $3
+   i32.add
+   i32.lt_s
+  end
+  if
+   i32.const 2176
+   i32.const 2240
+   i32.const 1911
+   i32.const 5
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load offset=4
+  local.get $2
+  i32.add
+  local.get $1
+  i32.load offset=4
+  local.get $3
+  memory.copy
+ )
+ (func $src/PredictionMarket/PredictionMarket#computeContentHash (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  i32.const 0
+  local.get $1
+  i32.load offset=12
+  i32.const 2
+  i32.add
+  i32.const 5
+  i32.shl
+  call $~lib/typedarray/Uint8Array#constructor
+  local.set $4
+  i32.const 1
+  global.set $~argumentsLength
+  local.get $0
+  call $~lib/string/String.UTF8.encode@varargs
+  local.set $0
+  i32.const 1
+  global.set $~argumentsLength
+  local.get $4
+  local.get $0
+  call $~lib/typedarray/Uint8Array.wrap@varargs
+  call $~lib/@btc-vision/btc-runtime/runtime/env/global/sha256
+  i32.const 0
+  call $~lib/typedarray/Uint8Array#set<~lib/typedarray/Uint8Array>
+  loop $for-loop|0
+   local.get $3
+   local.get $1
+   i32.load offset=12
+   i32.lt_s
+   if
+    local.get $1
+    local.get $3
+    call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/plugins/Plugin/Plugin>#__get
+    i32.const 1
+    global.set $~argumentsLength
+    call $~lib/string/String.UTF8.encode@varargs
+    local.set $0
+    i32.const 1
+    global.set $~argumentsLength
+    local.get $4
+    local.get $0
+    call $~lib/typedarray/Uint8Array.wrap@varargs
+    call $~lib/@btc-vision/btc-runtime/runtime/env/global/sha256
+    local.get $3
+    i32.const 1
+    i32.add
+    local.tee $3
+    i32.const 5
+    i32.shl
+    call $~lib/typedarray/Uint8Array#set<~lib/typedarray/Uint8Array>
+    br $for-loop|0
+   end
+  end
+  i32.const 0
+  i32.const 32
+  call $~lib/typedarray/Uint8Array#constructor
+  local.tee $0
+  i32.load offset=4
+  local.tee $3
+  local.get $2
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  i64.store
+  local.get $3
+  local.get $2
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=8
+  local.get $3
+  local.get $2
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=16
+  local.get $3
+  local.get $2
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=24
+  local.get $4
+  local.get $0
+  local.get $1
+  i32.load offset=12
+  i32.const 1
+  i32.add
+  i32.const 5
+  i32.shl
+  call $~lib/typedarray/Uint8Array#set<~lib/typedarray/Uint8Array>
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/env/global/sha256
+  local.tee $0
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load offset=4
+  local.tee $0
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  local.get $0
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  local.get $0
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  local.get $0
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+ )
+ (func $src/PredictionMarket/PredictionMarket#getUserBet (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  local.get $0
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.get $2
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $2
+  i32.load offset=4
+  local.tee $0
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  local.get $0
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  local.get $0
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  local.get $0
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+ )
+ (func $src/PredictionMarket/PredictionMarket#getIndexLength (param $0 i32) (param $1 i32) (result i32)
+  local.get $0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.get $1
+  call $src/PredictionMarket/PredictionMarket#getUserBet
+ )
+ (func $src/PredictionMarket/PredictionMarket#setUserBet (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32)
+  local.get $0
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.get $2
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $2
+  i32.load offset=4
+  local.tee $0
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  local.get $0
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  local.get $0
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  local.get $0
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#set
+ )
+ (func $src/PredictionMarket/PredictionMarket#appendToIndex (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  local.get $0
+  local.get $0
+  local.get $1
+  call $src/PredictionMarket/PredictionMarket#getIndexLength
+  i64.const 1
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+  local.tee $3
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.get $1
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#setUserBet
+  local.get $0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.get $1
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#setUserBet
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  local.get $0
+  i32.eqz
+  if
+   i32.const 12
+   i32.const 45
+   call $~lib/rt/stub/__new
+   local.set $0
+  end
+  local.get $0
+  local.get $1
+  i32.store offset=4
+  local.get $0
+  local.get $2
+  i32.store offset=8
+  local.get $0
+  i32.const 0
+  i32.store
+  local.get $2
+  i32.load offset=4
+  i32.load offset=8
+  i32.const 352
+  i32.gt_u
+  if
+   i32.const 18352
+   i32.const 18464
+   i32.const 14
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $2
+  i32.load offset=8
+  i32.store
+  local.get $0
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent (param $0 i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  local.get $0
+  i32.load
+  i32.eqz
+  if
+   i32.const 18656
+   i32.const 18464
+   i32.const 22
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load
+  i32.load offset=8
+  i32.const 352
+  i32.gt_u
+  if
+   i32.const 18352
+   i32.const 16112
+   i32.const 115
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load
+  i32.eqz
+  if
+   i32.const 18656
+   i32.const 18464
+   i32.const 30
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load
+  local.set $1
+  local.get $0
+  i32.load offset=4
+  local.tee $5
+  call $~lib/string/String.UTF8.byteLength
+  local.set $6
+  i32.const 0
+  local.get $1
+  i32.load offset=8
+  local.get $6
+  i32.const 8
+  i32.add
+  i32.add
+  local.tee $2
+  call $~lib/typedarray/Uint8Array#constructor
+  local.tee $3
+  i32.load offset=4
+  local.tee $0
+  local.get $6
+  call $~lib/polyfills/bswap<u32>
+  i32.store
+  local.get $5
+  i32.const 20
+  i32.sub
+  i32.load offset=16
+  i32.const 1
+  i32.shr_u
+  local.set $4
+  i32.const 3
+  global.set $~argumentsLength
+  local.get $5
+  local.get $4
+  local.get $0
+  i32.const 4
+  i32.add
+  call $~lib/string/String.UTF8.encodeUnsafe
+  local.get $6
+  i32.const 4
+  i32.add
+  local.get $0
+  i32.add
+  local.tee $0
+  local.get $1
+  i32.load offset=8
+  call $~lib/polyfills/bswap<u32>
+  i32.store
+  local.get $0
+  i32.const 4
+  i32.add
+  local.get $1
+  i32.load offset=4
+  local.get $1
+  i32.load offset=8
+  memory.copy
+  local.get $3
+  i32.load
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/env/global/emit
+ )
+ (func $src/PredictionMarket/PredictionMarket#registerMarket (param $0 i32) (param $1 i32) (param $2 i64) (param $3 i64) (param $4 i32) (param $5 i32) (param $6 i32) (param $7 i32) (param $8 i32) (result i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (local $13 i32)
+  local.get $0
+  i32.load offset=408
+  call $src/PredictionMarket/PredictionMarket#isFlagSet
+  if
+   i32.const 16576
+   i32.const 16656
+   i32.const 2977
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $9
+  i32.load offset=20
+  i32.eqz
+  if
+   i32.const 16736
+   i32.const 5168
+   i32.const 118
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $9
+  i32.load offset=20
+  local.tee $9
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 120
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $2
+  local.get $9
+  i64.load offset=8
+  i64.le_u
+  if
+   i32.const 16800
+   i32.const 16656
+   i32.const 2981
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $2
+  local.get $3
+  i64.gt_u
+  if
+   i32.const 16896
+   i32.const 16656
+   i32.const 2986
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  i32.const 20
+  i32.sub
+  i32.load offset=16
+  i32.const 1
+  i32.shr_u
+  i32.eqz
+  if
+   i32.const 17024
+   i32.const 16656
+   i32.const 2990
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  global.get $src/PredictionMarket/MAX_CREATOR_FEE_BPS
+  local.get $6
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  if
+   i32.const 17104
+   i32.const 16656
+   i32.const 2994
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $9
+  local.get $7
+  i64.load
+  local.get $9
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $7
+   i64.load offset=8
+   local.get $9
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $7
+   i64.load offset=16
+   local.get $9
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $7
+   i64.load offset=24
+   local.get $9
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   i32.const 17184
+   i32.const 16656
+   i32.const 2998
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load offset=280
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.tee $9
+  local.get $0
+  call $src/PredictionMarket/PredictionMarket#getMaxMarkets
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  i32.eqz
+  if
+   i32.const 17264
+   i32.const 16656
+   i32.const 3003
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $9
+  i64.const 1
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+  local.set $9
+  local.get $0
+  i32.load offset=280
+  local.get $9
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $10
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $10
+  i32.load offset=24
+  local.tee $10
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $10
+  i32.load offset=4
+  local.set $10
+  local.get $9
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.set $11
+  block $folding-inner0
+   local.get $4
+   i32.load offset=8
+   i32.const 32
+   i32.ne
+   br_if $folding-inner0
+   local.get $4
+   i32.load offset=4
+   local.tee $4
+   i64.load offset=24
+   call $~lib/polyfills/bswap<u64>
+   local.get $4
+   i64.load offset=16
+   call $~lib/polyfills/bswap<u64>
+   local.get $4
+   i64.load offset=8
+   call $~lib/polyfills/bswap<u64>
+   local.get $4
+   i64.load
+   call $~lib/polyfills/bswap<u64>
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   local.set $4
+   local.get $10
+   i32.load offset=8
+   i32.const 32
+   i32.ne
+   br_if $folding-inner0
+   local.get $10
+   i32.load offset=4
+   local.tee $12
+   i64.load offset=24
+   call $~lib/polyfills/bswap<u64>
+   local.get $12
+   i64.load offset=16
+   call $~lib/polyfills/bswap<u64>
+   local.get $12
+   i64.load offset=8
+   call $~lib/polyfills/bswap<u64>
+   local.get $12
+   i64.load
+   call $~lib/polyfills/bswap<u64>
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   local.set $12
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   local.set $13
+   local.get $12
+   local.get $4
+   local.get $4
+   i64.load
+   local.get $13
+   i64.load
+   i64.eq
+   if (result i32)
+    local.get $4
+    i64.load offset=8
+    local.get $13
+    i64.load offset=8
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $4
+    i64.load offset=16
+    local.get $13
+    i64.load offset=16
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $4
+    i64.load offset=24
+    local.get $13
+    i64.load offset=24
+    i64.eq
+   else
+    i32.const 0
+   end
+   select
+   local.set $4
+   local.get $5
+   i32.load offset=8
+   i32.const 32
+   i32.ne
+   br_if $folding-inner0
+   local.get $5
+   i32.load offset=4
+   local.tee $5
+   i64.load offset=24
+   call $~lib/polyfills/bswap<u64>
+   local.get $5
+   i64.load offset=16
+   call $~lib/polyfills/bswap<u64>
+   local.get $5
+   i64.load offset=8
+   call $~lib/polyfills/bswap<u64>
+   local.get $5
+   i64.load
+   call $~lib/polyfills/bswap<u64>
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   local.tee $5
+   i64.load
+   local.get $4
+   i64.load
+   i64.eq
+   if (result i32)
+    local.get $5
+    i64.load offset=8
+    local.get $4
+    i64.load offset=8
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $5
+    i64.load offset=16
+    local.get $4
+    i64.load offset=16
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $5
+    i64.load offset=24
+    local.get $4
+    i64.load offset=24
+    i64.eq
+   else
+    i32.const 0
+   end
+   if
+    i32.const 17632
+    i32.const 16656
+    i32.const 3023
+    i32.const 13
+    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+    unreachable
+   end
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   local.set $13
+   local.get $5
+   i64.load
+   local.get $13
+   i64.load
+   i64.eq
+   if (result i32)
+    local.get $5
+    i64.load offset=8
+    local.get $13
+    i64.load offset=8
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $5
+    i64.load offset=16
+    local.get $13
+    i64.load offset=16
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $5
+    i64.load offset=24
+    local.get $13
+    i64.load offset=24
+    i64.eq
+   else
+    i32.const 0
+   end
+   i32.eqz
+   if
+    local.get $0
+    local.get $5
+    call $src/PredictionMarket/PredictionMarket#bindOracle
+   end
+   local.get $0
+   i32.load16_u offset=288
+   local.get $11
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+   local.get $12
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+   local.get $0
+   i32.load16_u offset=290
+   local.get $11
+   local.get $2
+   call $src/PredictionMarket/PredictionMarket#setMarketBlock
+   local.get $0
+   i32.load16_u offset=432
+   local.get $11
+   local.get $3
+   call $src/PredictionMarket/PredictionMarket#setMarketBlock
+   local.get $0
+   i32.load16_u offset=438
+   local.get $11
+   local.get $3
+   local.get $0
+   call $src/PredictionMarket/PredictionMarket#getResolutionTimeout
+   call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add64
+   call $src/PredictionMarket/PredictionMarket#setMarketBlock
+   local.get $0
+   i32.load16_u offset=436
+   local.get $11
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+   local.get $5
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+   local.get $0
+   i32.load16_u offset=292
+   local.get $11
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+   local.get $4
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+   local.get $0
+   i32.load16_u offset=294
+   local.get $11
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+   global.get $src/PredictionMarket/STATUS_OPEN
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+   local.get $0
+   i32.load16_u offset=296
+   local.get $11
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+   local.get $0
+   i32.load16_u offset=298
+   local.get $11
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+   local.get $0
+   i32.load16_u offset=300
+   local.get $11
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+   local.get $0
+   i32.load16_u offset=336
+   local.get $11
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+   local.get $0
+   i32.load offset=328
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+   local.get $0
+   i32.load16_u offset=338
+   local.get $11
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+   local.get $6
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+   local.get $0
+   i32.load16_u offset=392
+   local.get $11
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+   local.get $1
+   local.get $8
+   local.get $7
+   call $src/PredictionMarket/PredictionMarket#computeContentHash
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+   local.get $0
+   i32.load16_u offset=384
+   local.get $10
+   local.get $9
+   call $src/PredictionMarket/PredictionMarket#appendToIndex
+   i32.const 12
+   i32.const 46
+   call $~lib/rt/stub/__new
+   i32.const 80
+   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+   local.tee $1
+   local.get $9
+   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+   local.get $1
+   local.get $10
+   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
+   local.get $1
+   local.get $2
+   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+   local.get $1
+   local.get $3
+   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+   i32.const 18608
+   local.get $1
+   call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+   call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+   local.get $9
+   return
+  end
+  i32.const 2304
+  i32.const 5664
+  i32.const 220
+  i32.const 30
+  call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+  unreachable
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address.fromUint8Array (param $0 i32) (result i32)
+  (local $1 i32)
+  i32.const 0
+  i32.const 0
+  i32.const 0
+  i32.const 10
+  i32.const 18720
+  call $~lib/rt/__newArray
+  call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#constructor
+  local.tee $1
+  i32.load offset=4
+  local.get $0
+  i32.load offset=4
+  i32.const 32
+  memory.copy
+  local.get $1
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#___get (param $0 i32) (param $1 i32) (result i32)
+  local.get $1
+  local.get $0
+  i32.load offset=8
+  i32.ge_u
+  if
+   i32.const 2176
+   i32.const 2752
+   i32.const 357
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load offset=4
+  local.get $1
+  i32.add
+  i32.load8_u
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#isZero (param $0 i32) (result i32)
+  (local $1 i32)
+  loop $for-loop|0
+   local.get $1
+   local.get $0
+   i32.load offset=8
+   i32.lt_s
+   if
+    local.get $0
+    local.get $1
+    call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#___get
+    if
+     i32.const 0
+     return
+    end
+    local.get $1
+    i32.const 1
+    i32.add
+    local.set $1
+    br $for-loop|0
+   end
+  end
+  i32.const 1
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#equals (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  local.get $1
+  i32.load offset=8
+  local.get $0
+  i32.load offset=8
+  i32.ne
+  if
+   i32.const 0
+   return
+  end
+  loop $for-loop|0
+   local.get $2
+   local.get $0
+   i32.load offset=8
+   i32.lt_s
+   if
+    local.get $0
+    local.get $2
+    call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#___get
+    local.get $1
+    local.get $2
+    call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#___get
+    i32.ne
+    if
+     i32.const 0
+     return
+    end
+    local.get $2
+    i32.const 1
+    i32.add
+    local.set $2
+    br $for-loop|0
+   end
+  end
+  i32.const 1
+ )
+ (func $src/PredictionMarket/PredictionMarket#toOutcomeSubPointer (param $0 i32) (param $1 i32) (result i32)
+  local.get $0
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.tee $0
+  i32.const 0
+  local.get $1
+  i64.load
+  i32.wrap_i64
+  i32.const 255
+  i32.and
+  call $~lib/typedarray/Uint8Array#__set
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#registerCommittee (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  local.get $2
+  i32.load offset=12
+  local.tee $7
+  i32.eqz
+  if
+   local.get $0
+   local.get $0
+   i32.load16_u offset=292
+   local.get $1
+   call $src/PredictionMarket/PredictionMarket#toSubPointer
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+   local.tee $2
+   call $src/PredictionMarket/PredictionMarket#bindOracle
+   local.get $0
+   i32.load16_u offset=386
+   i32.const 0
+   i32.const 32
+   call $~lib/typedarray/Uint8Array#constructor
+   local.tee $3
+   i32.load offset=4
+   local.tee $4
+   local.get $2
+   i64.load offset=24
+   call $~lib/polyfills/bswap<u64>
+   i64.store
+   local.get $4
+   local.get $2
+   i64.load offset=16
+   call $~lib/polyfills/bswap<u64>
+   i64.store offset=8
+   local.get $4
+   local.get $2
+   i64.load offset=8
+   call $~lib/polyfills/bswap<u64>
+   i64.store offset=16
+   local.get $4
+   local.get $2
+   i64.load
+   call $~lib/polyfills/bswap<u64>
+   i64.store offset=24
+   local.get $3
+   call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address.fromUint8Array
+   local.get $1
+   call $src/PredictionMarket/PredictionMarket#appendToIndex
+   return
+  end
+  local.get $7
+  i32.const 2
+  i32.lt_s
+  local.get $7
+  i32.const 10
+  i32.gt_s
+  i32.or
+  if
+   i32.const 18752
+   i32.const 16656
+   i32.const 3090
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $4
+  local.get $3
+  i64.load
+  local.get $4
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $3
+   i64.load offset=8
+   local.get $4
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $3
+   i64.load offset=16
+   local.get $4
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $3
+   i64.load offset=24
+   local.get $4
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   i32.const 1
+  else
+   block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.17 (result i32)
+    local.get $7
+    i32.eqz
+    if
+     i64.const 0
+     i64.const 0
+     i64.const 0
+     i64.const 0
+     call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+     br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.17
+    end
+    local.get $7
+    i32.const 1
+    i32.eq
+    if
+     i64.const 1
+     i64.const 0
+     i64.const 0
+     i64.const 0
+     call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+     br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.17
+    end
+    local.get $7
+    i64.extend_i32_u
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   end
+   local.get $3
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  end
+  if
+   i32.const 18880
+   i32.const 16656
+   i32.const 3094
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.set $6
+  loop $for-loop|0
+   local.get $5
+   local.get $7
+   i32.lt_s
+   if
+    local.get $2
+    local.get $5
+    call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/plugins/Plugin/Plugin>#__get
+    local.tee $8
+    call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#isZero@override
+    if
+     i32.const 19024
+     i32.const 16656
+     i32.const 3101
+     i32.const 17
+     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+     unreachable
+    end
+    i32.const 0
+    local.set $4
+    loop $for-loop|1
+     local.get $4
+     local.get $5
+     i32.lt_s
+     if
+      local.get $8
+      local.get $2
+      local.get $4
+      call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/plugins/Plugin/Plugin>#__get
+      call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#equals
+      if
+       i32.const 19104
+       i32.const 16656
+       i32.const 3106
+       i32.const 21
+       call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+       unreachable
+      end
+      local.get $4
+      i32.const 1
+      i32.add
+      local.set $4
+      br $for-loop|1
+     end
+    end
+    local.get $8
+    i32.load offset=8
+    i32.const 32
+    i32.ne
+    if
+     i32.const 2304
+     i32.const 5664
+     i32.const 220
+     i32.const 30
+     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+     unreachable
+    end
+    local.get $0
+    local.get $8
+    i32.load offset=4
+    local.tee $4
+    i64.load offset=24
+    call $~lib/polyfills/bswap<u64>
+    local.get $4
+    i64.load offset=16
+    call $~lib/polyfills/bswap<u64>
+    local.get $4
+    i64.load offset=8
+    call $~lib/polyfills/bswap<u64>
+    local.get $4
+    i64.load
+    call $~lib/polyfills/bswap<u64>
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    local.tee $4
+    call $src/PredictionMarket/PredictionMarket#bindOracle
+    local.get $1
+    block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.18 (result i32)
+     local.get $5
+     i32.const 1
+     i32.add
+     local.tee $9
+     i32.eqz
+     if
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+      br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.18
+     end
+     local.get $9
+     i32.const 1
+     i32.eq
+     if
+      i64.const 1
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+      br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.18
+     end
+     local.get $9
+     i64.extend_i32_u
+     i64.const 0
+     i64.const 0
+     i64.const 0
+     call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    end
+    call $src/PredictionMarket/PredictionMarket#toOutcomeSubPointer
+    local.set $9
+    local.get $0
+    i32.load16_u offset=374
+    local.get $9
+    call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+    local.get $4
+    call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+    local.get $0
+    i32.load16_u offset=386
+    local.get $8
+    local.get $1
+    call $src/PredictionMarket/PredictionMarket#appendToIndex
+    local.get $5
+    i32.const 1
+    i32.add
+    local.set $5
+    br $for-loop|0
+   end
+  end
+  local.get $0
+  i32.load16_u offset=370
+  local.get $6
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.19 (result i32)
+   local.get $7
+   i32.eqz
+   if
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.19
+   end
+   local.get $7
+   i32.const 1
+   i32.eq
+   if
+    i64.const 1
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.19
+   end
+   local.get $7
+   i64.extend_i32_u
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  end
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  i32.load16_u offset=372
+  local.get $6
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  i32.load16_u offset=292
+  local.get $6
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+ )
+ (func $src/PredictionMarket/PredictionMarket#setAllowlistMember (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32)
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#isZero@override
+  if
+   i32.const 19328
+   i32.const 16656
+   i32.const 3147
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=476
+  local.get $2
+  local.get $3
+  local.get $4
+  if (result i32)
+   i64.const 1
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  else
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  end
+  call $src/PredictionMarket/PredictionMarket#setUserBet
+  i32.const 12
+  i32.const 47
+  call $~lib/rt/stub/__new
+  i32.const 65
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $2
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
+  local.get $2
+  local.get $4
+  i32.eqz
+  i32.eqz
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  i32.const 19424
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+ )
+ (func $src/PredictionMarket/PredictionMarket#registerAllowlist (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32)
+  (local $4 i32)
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $4
+  local.get $2
+  i64.load
+  local.get $4
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $2
+   i64.load offset=8
+   local.get $4
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $2
+   i64.load offset=16
+   local.get $4
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $2
+   i64.load offset=24
+   local.get $4
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $3
+   i32.load offset=12
+  else
+   i32.const 1
+  end
+  i32.eqz
+  if
+   return
+  end
+  local.get $3
+  i32.load offset=12
+  i32.const 50
+  i32.gt_s
+  if
+   i32.const 19200
+   i32.const 16656
+   i32.const 3134
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.set $4
+  local.get $0
+  i32.load16_u offset=472
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  i64.const 1
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  i32.load16_u offset=474
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  i32.const 0
+  local.set $2
+  loop $for-loop|0
+   local.get $2
+   local.get $3
+   i32.load offset=12
+   i32.lt_s
+   if
+    local.get $0
+    local.get $1
+    local.get $4
+    local.get $3
+    local.get $2
+    call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/plugins/Plugin/Plugin>#__get
+    i32.const 1
+    call $src/PredictionMarket/PredictionMarket#setAllowlistMember
+    local.get $2
+    i32.const 1
+    i32.add
+    local.set $2
+    br $for-loop|0
+   end
+  end
+ )
+ (func $src/PredictionMarket/PredictionMarket#createCategoricalMarket (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i64)
+  (local $5 i64)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (local $13 i32)
+  (local $14 i32)
+  (local $15 i32)
+  (local $16 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readStringWithLength
+  local.set $3
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
+  local.set $4
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
+  local.set $5
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+  local.set $6
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+  local.set $7
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $8
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddressArray
+  local.set $9
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $10
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $11
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $12
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddressArray
+  local.set $13
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU16
+  local.tee $14
+  i32.const 65535
+  i32.and
+  local.tee $15
+  i32.const 3
+  i32.lt_u
+  local.get $15
+  i32.const 16
+  i32.gt_u
+  i32.or
+  if
+   i32.const 19488
+   i32.const 16656
+   i32.const 1018
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  call $~lib/array/Array<~lib/string/String>#constructor
+  local.set $15
+  loop $for-loop|0
+   local.get $2
+   local.get $14
+   i32.const 65535
+   i32.and
+   i32.lt_u
+   if
+    local.get $1
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readStringWithLength
+    local.tee $16
+    i32.const 20
+    i32.sub
+    i32.load offset=16
+    i32.const 1
+    i32.shr_u
+    i32.eqz
+    if
+     i32.const 19616
+     i32.const 16656
+     i32.const 1025
+     i32.const 17
+     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+     unreachable
+    end
+    local.get $15
+    local.get $16
+    call $~lib/array/Array<~lib/typedarray/Uint8Array>#push
+    local.get $2
+    i32.const 1
+    i32.add
+    local.set $2
+    br $for-loop|0
+   end
+  end
+  local.get $0
+  local.get $3
+  local.get $4
+  local.get $5
+  local.get $6
+  local.get $7
+  local.get $8
+  local.get $11
+  local.get $15
+  call $src/PredictionMarket/PredictionMarket#registerMarket
+  local.tee $1
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.set $2
+  local.get $0
+  i32.load16_u offset=316
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.20 (result i32)
+   local.get $14
+   i32.const 65535
+   i32.and
+   local.tee $2
+   i32.eqz
+   if
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.20
+   end
+   local.get $2
+   i32.const 1
+   i32.eq
+   if
+    i64.const 1
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.20
+   end
+   local.get $2
+   i64.extend_i32_u
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  end
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  local.get $1
+  local.get $9
+  local.get $10
+  call $src/PredictionMarket/PredictionMarket#registerCommittee
+  local.get $0
+  local.get $1
+  local.get $12
+  local.get $13
+  call $src/PredictionMarket/PredictionMarket#registerAllowlist
+  i32.const 32
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#createScalarMarket (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i64)
+  (local $3 i64)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readStringWithLength
+  local.set $9
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
+  local.set $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
+  local.set $3
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+  local.set $10
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+  local.set $11
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $4
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $5
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $6
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddressArray
+  local.set $7
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.tee $8
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.tee $1
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  i32.eqz
+  if
+   i32.const 19712
+   i32.const 16656
+   i32.const 1086
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $9
+  local.get $2
+  local.get $3
+  local.get $10
+  local.get $11
+  local.get $4
+  local.get $5
+  call $~lib/array/Array<~lib/string/String>#constructor
+  call $src/PredictionMarket/PredictionMarket#registerMarket
+  local.tee $4
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.set $5
+  local.get $0
+  i32.load16_u offset=428
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  local.get $8
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  i32.load16_u offset=430
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  local.get $4
+  i32.const 0
+  call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/types/Address/Address>#constructor
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  call $src/PredictionMarket/PredictionMarket#registerCommittee
+  local.get $0
+  local.get $4
+  local.get $6
+  local.get $7
+  call $src/PredictionMarket/PredictionMarket#registerAllowlist
+  i32.const 32
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#isCategorical (param $0 i32) (param $1 i32) (result i32)
+  local.get $0
+  i32.load16_u offset=316
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $1
+  local.get $0
+  i64.load
+  local.get $1
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $0
+   i64.load offset=8
+   local.get $1
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=16
+   local.get $1
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=24
+   local.get $1
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+ )
+ (func $src/PredictionMarket/PredictionMarket#getOutcomeCount (param $0 i32) (param $1 i32) (result i32)
+  local.get $0
+  i32.load16_u offset=316
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $1
+  global.get $src/PredictionMarket/BINARY_OUTCOME_COUNT
+  local.get $0
+  local.get $0
+  i64.load
+  local.get $1
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $0
+   i64.load offset=8
+   local.get $1
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=16
+   local.get $1
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=24
+   local.get $1
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  select
+ )
+ (func $src/PredictionMarket/PredictionMarket#assertValidOutcome (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  local.get $0
+  local.get $1
+  call $src/PredictionMarket/PredictionMarket#isCategorical
+  i32.eqz
+  if
+   local.get $2
+   i64.load
+   global.get $src/PredictionMarket/OUTCOME_YES
+   local.tee $0
+   i64.load
+   i64.eq
+   if (result i32)
+    local.get $2
+    i64.load offset=8
+    local.get $0
+    i64.load offset=8
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $2
+    i64.load offset=16
+    local.get $0
+    i64.load offset=16
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $2
+    i64.load offset=24
+    local.get $0
+    i64.load offset=24
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    i32.const 1
+   else
+    local.get $2
+    i64.load
+    global.get $src/PredictionMarket/OUTCOME_NO
+    local.tee $0
+    i64.load
+    i64.eq
+    if (result i32)
+     local.get $2
+     i64.load offset=8
+     local.get $0
+     i64.load offset=8
+     i64.eq
+    else
+     i32.const 0
+    end
+    if (result i32)
+     local.get $2
+     i64.load offset=16
+     local.get $0
+     i64.load offset=16
+     i64.eq
+    else
+     i32.const 0
+    end
+    if (result i32)
+     local.get $2
+     i64.load offset=24
+     local.get $0
+     i64.load offset=24
+     i64.eq
+    else
+     i32.const 0
+    end
+   end
+   i32.eqz
+   if
+    i32.const 19888
+    i32.const 16656
+    i32.const 3752
+    i32.const 17
+    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+    unreachable
+   end
+   return
+  end
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $3
+  local.get $2
+  i64.load
+  local.get $3
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $2
+   i64.load offset=8
+   local.get $3
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $2
+   i64.load offset=16
+   local.get $3
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $2
+   i64.load offset=24
+   local.get $3
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   i32.const 1
+  else
+   local.get $0
+   local.get $1
+   call $src/PredictionMarket/PredictionMarket#getOutcomeCount
+   local.get $2
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  end
+  if
+   i32.const 20000
+   i32.const 16656
+   i32.const 3758
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+ )
+ (func $src/PredictionMarket/PredictionMarket#getMarketBlock (param $0 i32) (param $1 i32) (result i64)
+  local.get $0
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#constructor
+  local.tee $0
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#ensureValues
+  local.get $0
+  i32.load offset=4
+  i32.const 0
+  call $~lib/array/Array<u64>#__get
+ )
+ (func $src/PredictionMarket/PredictionMarket#isPrivate (param $0 i32) (param $1 i32) (result i32)
+  local.get $0
+  i32.load16_u offset=472
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $1
+  local.get $0
+  i64.load
+  local.get $1
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $0
+   i64.load offset=8
+   local.get $1
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=16
+   local.get $1
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=24
+   local.get $1
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+ )
+ (func $src/PredictionMarket/PredictionMarket#isAllowlistMember (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  local.get $0
+  i32.load16_u offset=476
+  local.get $1
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#getUserBet
+  local.set $3
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $4
+  local.get $3
+  i64.load
+  local.get $4
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $3
+   i64.load offset=8
+   local.get $4
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $3
+   i64.load offset=16
+   local.get $4
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $3
+   i64.load offset=24
+   local.get $4
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 1
+   return
+  end
+  local.get $0
+  i32.load16_u offset=474
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $3
+  local.get $0
+  i32.load16_u offset=478
+  local.get $1
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#getUserBet
+  local.set $0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $1
+  local.get $3
+  i64.load
+  local.get $1
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $3
+   i64.load offset=8
+   local.get $1
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $3
+   i64.load offset=16
+   local.get $1
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $3
+   i64.load offset=24
+   local.get $1
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   i32.const 0
+  else
+   local.get $0
+   i64.load
+   local.get $3
+   i64.load
+   i64.eq
+   if (result i32)
+    local.get $0
+    i64.load offset=8
+    local.get $3
+    i64.load offset=8
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $0
+    i64.load offset=16
+    local.get $3
+    i64.load offset=16
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $0
+    i64.load offset=24
+    local.get $3
+    i64.load offset=24
+    i64.eq
+   else
+    i32.const 0
+   end
+  end
+ )
+ (func $src/PredictionMarket/PredictionMarket#getOutcomePoolStore (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  local.get $0
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#isCategorical
+  i32.eqz
+  if
+   local.get $3
+   i64.load
+   global.get $src/PredictionMarket/OUTCOME_YES
+   local.tee $1
+   i64.load
+   i64.eq
+   if (result i32)
+    local.get $3
+    i64.load offset=8
+    local.get $1
+    i64.load offset=8
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $3
+    i64.load offset=16
+    local.get $1
+    i64.load offset=16
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $3
+    i64.load offset=24
+    local.get $1
+    i64.load offset=24
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $0
+    i32.load16_u offset=298
+   else
+    local.get $0
+    i32.load16_u offset=300
+   end
+   local.get $2
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+   return
+  end
+  local.get $0
+  i32.load16_u offset=318
+  local.get $1
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#toOutcomeSubPointer
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+ )
+ (func $src/PredictionMarket/PredictionMarket#addUserBet (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32)
+  local.get $0
+  local.get $1
+  local.get $2
+  local.get $0
+  local.get $1
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#getUserBet
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+  call $src/PredictionMarket/PredictionMarket#setUserBet
+ )
+ (func $src/PredictionMarket/PredictionMarket#addUserStake (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32) (param $5 i32)
+  local.get $0
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#isCategorical
+  i32.eqz
+  if
+   local.get $3
+   i64.load
+   global.get $src/PredictionMarket/OUTCOME_YES
+   local.tee $1
+   i64.load
+   i64.eq
+   if (result i32)
+    local.get $3
+    i64.load offset=8
+    local.get $1
+    i64.load offset=8
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $3
+    i64.load offset=16
+    local.get $1
+    i64.load offset=16
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $3
+    i64.load offset=24
+    local.get $1
+    i64.load offset=24
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $0
+    i32.load16_u offset=302
+   else
+    local.get $0
+    i32.load16_u offset=304
+   end
+   local.get $2
+   local.get $4
+   local.get $5
+   call $src/PredictionMarket/PredictionMarket#addUserBet
+   return
+  end
+  local.get $0
+  i32.load16_u offset=320
+  local.get $1
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#toOutcomeSubPointer
+  local.get $4
+  local.get $5
+  call $src/PredictionMarket/PredictionMarket#addUserBet
+ )
+ (func $src/PredictionMarket/PredictionMarket#indexBettor (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  local.get $0
+  i32.load16_u offset=390
+  local.get $2
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#getUserBet
+  local.set $4
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $5
+  local.get $4
+  i64.load
+  local.get $5
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $4
+   i64.load offset=8
+   local.get $5
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=16
+   local.get $5
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=24
+   local.get $5
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   return
+  end
+  local.get $0
+  i32.load16_u offset=390
+  local.get $2
+  local.get $3
+  i64.const 1
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  call $src/PredictionMarket/PredictionMarket#setUserBet
+  local.get $0
+  i32.load16_u offset=388
+  local.get $3
+  local.get $1
+  call $src/PredictionMarket/PredictionMarket#appendToIndex
+ )
+ (func $src/PredictionMarket/PredictionMarket#getCollateralToken (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  local.get $0
+  i32.load offset=312
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $1
+  i32.const 0
+  i32.const 32
+  call $~lib/typedarray/Uint8Array#constructor
+  local.tee $0
+  i32.load offset=4
+  local.tee $2
+  local.get $1
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  i64.store
+  local.get $2
+  local.get $1
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=8
+  local.get $2
+  local.get $1
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=16
+  local.get $2
+  local.get $1
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=24
+  local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address.fromUint8Array
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:contractAddress (param $0 i32) (result i32)
+  local.get $0
+  i32.load offset=40
+  i32.eqz
+  if
+   i32.const 20512
+   i32.const 5168
+   i32.const 231
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load offset=40
+  local.tee $0
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 233
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU32 (param $0 i32) (param $1 i32)
+  local.get $0
+  i32.const 4
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#allocSafe
+  local.get $0
+  i32.load offset=4
+  local.get $0
+  i32.load
+  local.get $1
+  call $~lib/dataview/DataView#setUint32
+  local.get $0
+  local.get $0
+  i32.load
+  i32.const 4
+  i32.add
+  i32.store
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#call (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  local.get $0
+  i32.eqz
+  if
+   i32.const 20592
+   i32.const 5168
+   i32.const 400
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load
+  local.get $1
+  i32.load offset=8
+  i32.load
+  local.get $1
+  i32.load offset=4
+  i32.load offset=8
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/FOUR_BYTES_UINT8ARRAY_MEMORY_CACHE
+  i32.load
+  call $~lib/@btc-vision/btc-runtime/runtime/env/global/callContract
+  local.set $0
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/FOUR_BYTES_UINT8ARRAY_MEMORY_CACHE
+  i32.load offset=4
+  i32.load
+  call $~lib/polyfills/bswap<u32>
+  local.tee $1
+  call $~lib/arraybuffer/ArrayBuffer#constructor
+  local.set $2
+  i32.const 0
+  local.get $1
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/env/global/getCallResult
+  local.get $0
+  if
+   local.get $0
+   local.get $2
+   local.get $1
+   call $~lib/@btc-vision/btc-runtime/runtime/env/global/env_exit
+  end
+  i32.const 1
+  global.set $~argumentsLength
+  local.get $2
+  call $~lib/typedarray/Uint8Array.wrap@varargs
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#constructor
+  local.set $1
+  i32.const 8
+  i32.const 48
+  call $~lib/rt/stub/__new
+  local.tee $2
+  local.get $0
+  i32.eqz
+  i32.store8
+  local.get $2
+  local.get $1
+  i32.store offset=4
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/shared-libraries/TransferHelper/TransferHelper.transferFrom (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32)
+  (local $4 i32)
+  i32.const 100
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $4
+  i32.const 5872
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU32
+  local.get $4
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
+  local.get $4
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
+  local.get $4
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $0
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#call
+ )
+ (func $src/PredictionMarket/encodeBetPlacedEvent (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  i32.const 128
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $4
+  local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $4
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
+  local.get $4
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $4
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $4
+ )
+ (func $src/PredictionMarket/PredictionMarket#placeBet (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $3
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $1
+  local.get $0
+  i32.load offset=404
+  call $src/PredictionMarket/PredictionMarket#isFlagSet
+  if
+   i32.const 19824
+   i32.const 16656
+   i32.const 1123
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.tee $4
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#assertValidOutcome
+  local.get $0
+  i32.load16_u offset=294
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.tee $5
+  i64.load
+  global.get $src/PredictionMarket/STATUS_OPEN
+  local.tee $6
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $5
+   i64.load offset=8
+   local.get $6
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $5
+   i64.load offset=16
+   local.get $6
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $5
+   i64.load offset=24
+   local.get $6
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 20096
+   i32.const 16656
+   i32.const 1131
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $5
+  i32.load offset=20
+  i32.eqz
+  if
+   i32.const 16736
+   i32.const 5168
+   i32.const 118
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $5
+  i32.load offset=20
+  local.tee $5
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 120
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $5
+  i64.load offset=8
+  local.get $0
+  i32.load16_u offset=290
+  local.get $4
+  call $src/PredictionMarket/PredictionMarket#getMarketBlock
+  i64.ge_u
+  if
+   i32.const 20160
+   i32.const 16656
+   i32.const 1135
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $5
+  local.get $1
+  i64.load
+  local.get $5
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $1
+   i64.load offset=8
+   local.get $5
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=16
+   local.get $5
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=24
+   local.get $5
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   i32.const 20256
+   i32.const 16656
+   i32.const 1139
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  local.get $0
+  i32.load offset=420
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  if
+   i32.const 20352
+   i32.const 16656
+   i32.const 1143
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $5
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $5
+  i32.load offset=24
+  local.tee $5
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $5
+  i32.load offset=4
+  local.set $5
+  local.get $0
+  local.get $4
+  call $src/PredictionMarket/PredictionMarket#isPrivate
+  if (result i32)
+   local.get $0
+   local.get $4
+   local.get $5
+   call $src/PredictionMarket/PredictionMarket#isAllowlistMember
+  else
+   i32.const 1
+  end
+  i32.eqz
+  if
+   i32.const 20416
+   i32.const 16656
+   i32.const 1149
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $2
+  local.get $4
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#getOutcomePoolStore
+  local.tee $6
+  local.get $6
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  local.get $2
+  local.get $4
+  local.get $3
+  local.get $5
+  local.get $1
+  call $src/PredictionMarket/PredictionMarket#addUserStake
+  local.get $0
+  local.get $2
+  local.get $4
+  local.get $5
+  call $src/PredictionMarket/PredictionMarket#indexBettor
+  local.get $0
+  call $src/PredictionMarket/PredictionMarket#getCollateralToken
+  local.get $5
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:contractAddress
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/shared-libraries/TransferHelper/TransferHelper.transferFrom
+  i32.const 12
+  i32.const 49
+  call $~lib/rt/stub/__new
+  i32.const 20688
+  local.get $2
+  local.get $5
+  local.get $3
+  local.get $1
+  call $src/PredictionMarket/encodeBetPlacedEvent
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#isScalar (param $0 i32) (param $1 i32) (result i32)
+  local.get $0
+  i32.load16_u offset=430
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $1
+  local.get $0
+  i64.load
+  local.get $1
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $0
+   i64.load offset=8
+   local.get $1
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=16
+   local.get $1
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=24
+   local.get $1
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+ )
+ (func $src/PredictionMarket/PredictionMarket#hasCommittee (param $0 i32) (param $1 i32) (result i32)
+  local.get $0
+  i32.load16_u offset=370
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $1
+  local.get $0
+  i64.load
+  local.get $1
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $0
+   i64.load offset=8
+   local.get $1
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=16
+   local.get $1
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=24
+   local.get $1
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+ )
+ (func $src/PredictionMarket/PredictionMarket#isOwner (param $0 i32) (param $1 i32) (result i32)
+  local.get $1
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  i32.load offset=4
+  local.tee $1
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  local.get $1
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  local.get $1
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  local.get $1
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $1
+  local.get $0
+  i32.load offset=284
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $0
+  local.get $1
+  i64.load
+  local.get $0
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $1
+   i64.load offset=8
+   local.get $0
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=16
+   local.get $0
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=24
+   local.get $0
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+ )
+ (func $src/PredictionMarket/PredictionMarket#getResolverAuthority (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  local.get $2
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $2
+  i32.load offset=4
+  local.tee $3
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  local.get $3
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  local.get $3
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  local.get $3
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $3
+  local.get $0
+  local.get $1
+  call $src/PredictionMarket/PredictionMarket#hasCommittee
+  local.set $4
+  local.get $0
+  i32.load16_u offset=292
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $5
+  local.get $4
+  if (result i32)
+   i32.const 0
+  else
+   local.get $3
+   i64.load
+   local.get $5
+   i64.load
+   i64.eq
+   if (result i32)
+    local.get $3
+    i64.load offset=8
+    local.get $5
+    i64.load offset=8
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $3
+    i64.load offset=16
+    local.get $5
+    i64.load offset=16
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $3
+    i64.load offset=24
+    local.get $5
+    i64.load offset=24
+    i64.eq
+   else
+    i32.const 0
+   end
+  end
+  if
+   i32.const 1
+   return
+  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $5
+  i32.load offset=20
+  i32.eqz
+  if
+   i32.const 16736
+   i32.const 5168
+   i32.const 118
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $5
+  i32.load offset=20
+  local.tee $5
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 120
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $5
+  i64.load offset=8
+  local.get $0
+  i32.load16_u offset=438
+  local.get $1
+  call $src/PredictionMarket/PredictionMarket#getMarketBlock
+  i64.ge_u
+  if
+   local.get $0
+   i32.load16_u offset=436
+   local.get $1
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+   local.set $1
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   local.set $5
+   local.get $1
+   i64.load
+   local.get $5
+   i64.load
+   i64.eq
+   if (result i32)
+    local.get $1
+    i64.load offset=8
+    local.get $5
+    i64.load offset=8
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $1
+    i64.load offset=16
+    local.get $5
+    i64.load offset=16
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $1
+    i64.load offset=24
+    local.get $5
+    i64.load offset=24
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    i32.const 0
+   else
+    local.get $3
+    i64.load
+    local.get $1
+    i64.load
+    i64.eq
+    if (result i32)
+     local.get $3
+     i64.load offset=8
+     local.get $1
+     i64.load offset=8
+     i64.eq
+    else
+     i32.const 0
+    end
+    if (result i32)
+     local.get $3
+     i64.load offset=16
+     local.get $1
+     i64.load offset=16
+     i64.eq
+    else
+     i32.const 0
+    end
+    if (result i32)
+     local.get $3
+     i64.load offset=24
+     local.get $1
+     i64.load offset=24
+     i64.eq
+    else
+     i32.const 0
+    end
+   end
+   if
+    i32.const 4
+    return
+   end
+   local.get $0
+   local.get $2
+   call $src/PredictionMarket/PredictionMarket#isOwner
+   if
+    i32.const 5
+    return
+   end
+  end
+  local.get $4
+  if
+   i32.const 20864
+   i32.const 16656
+   i32.const 3232
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  i32.const 20976
+  i32.const 16656
+  i32.const 3234
+  i32.const 9
+  call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+  unreachable
+ )
+ (func $src/PredictionMarket/PredictionMarket#getDisputeWindow (param $0 i32) (result i64)
+  (local $1 i64)
+  local.get $0
+  i32.load16_u offset=346
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#constructor
+  local.tee $0
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#ensureValues
+  i64.const 144
+  local.get $0
+  i32.load offset=4
+  i32.const 0
+  call $~lib/array/Array<u64>#__get
+  local.tee $1
+  local.get $1
+  i64.eqz
+  select
+ )
+ (func $src/PredictionMarket/PredictionMarket#proposeOutcome (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32)
+  (local $5 i64)
+  (local $6 i32)
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $6
+  i32.load offset=20
+  i32.eqz
+  if
+   i32.const 16736
+   i32.const 5168
+   i32.const 118
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $6
+  i32.load offset=20
+  local.tee $6
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 120
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $6
+  i64.load offset=8
+  local.set $5
+  local.get $0
+  i32.load16_u offset=440
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.21 (result i32)
+   local.get $4
+   i32.const 255
+   i32.and
+   local.tee $4
+   i32.eqz
+   if
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.21
+   end
+   local.get $4
+   i32.const 1
+   i32.eq
+   if
+    i64.const 1
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.21
+   end
+   local.get $4
+   i64.extend_i32_u
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  end
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  i32.load16_u offset=294
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  global.get $src/PredictionMarket/STATUS_PROPOSED
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  i32.load16_u offset=296
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  i32.load16_u offset=362
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  i32.load16_u offset=360
+  local.get $2
+  local.get $5
+  call $src/PredictionMarket/PredictionMarket#setMarketBlock
+  local.get $5
+  local.get $0
+  call $src/PredictionMarket/PredictionMarket#getDisputeWindow
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add64
+  local.set $5
+  i32.const 12
+  i32.const 50
+  call $~lib/rt/stub/__new
+  i32.const 72
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $2
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $2
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+  i32.const 21152
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+ )
+ (func $src/PredictionMarket/PredictionMarket#resolveMarket (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $3
+  local.get $0
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.tee $1
+  call $src/PredictionMarket/PredictionMarket#isScalar
+  if
+   i32.const 20736
+   i32.const 16656
+   i32.const 1181
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $1
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#assertValidOutcome
+  local.get $0
+  i32.load16_u offset=294
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.tee $4
+  i64.load
+  global.get $src/PredictionMarket/STATUS_OPEN
+  local.tee $5
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $4
+   i64.load offset=8
+   local.get $5
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=16
+   local.get $5
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=24
+   local.get $5
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 20096
+   i32.const 16656
+   i32.const 1187
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $4
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $4
+  i32.load offset=24
+  local.tee $4
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $1
+  local.get $4
+  i32.load offset=4
+  call $src/PredictionMarket/PredictionMarket#getResolverAuthority
+  local.set $4
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $5
+  i32.load offset=20
+  i32.eqz
+  if
+   i32.const 16736
+   i32.const 5168
+   i32.const 118
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $5
+  i32.load offset=20
+  local.tee $5
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 120
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $5
+  i64.load offset=8
+  local.get $0
+  i32.load16_u offset=432
+  local.get $1
+  call $src/PredictionMarket/PredictionMarket#getMarketBlock
+  i64.lt_u
+  if
+   i32.const 21072
+   i32.const 16656
+   i32.const 1193
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $2
+  local.get $1
+  local.get $3
+  local.get $4
+  call $src/PredictionMarket/PredictionMarket#proposeOutcome
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#clampToBounds (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  local.get $0
+  i32.load16_u offset=428
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $3
+  local.get $0
+  i32.load16_u offset=430
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $0
+  local.get $2
+  local.get $3
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  if
+   local.get $3
+   return
+  end
+  local.get $0
+  local.get $2
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  if
+   local.get $0
+   return
+  end
+  local.get $2
+ )
+ (func $src/PredictionMarket/PredictionMarket#resolveScalarMarket (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $3
+  local.get $0
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.tee $1
+  call $src/PredictionMarket/PredictionMarket#isScalar
+  i32.eqz
+  if
+   i32.const 21216
+   i32.const 16656
+   i32.const 1220
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=294
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.tee $4
+  i64.load
+  global.get $src/PredictionMarket/STATUS_OPEN
+  local.tee $5
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $4
+   i64.load offset=8
+   local.get $5
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=16
+   local.get $5
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=24
+   local.get $5
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 20096
+   i32.const 16656
+   i32.const 1225
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $4
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $4
+  i32.load offset=24
+  local.tee $4
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $1
+  local.get $4
+  i32.load offset=4
+  call $src/PredictionMarket/PredictionMarket#getResolverAuthority
+  local.set $4
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $5
+  i32.load offset=20
+  i32.eqz
+  if
+   i32.const 16736
+   i32.const 5168
+   i32.const 118
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $5
+  i32.load offset=20
+  local.tee $5
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 120
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $5
+  i64.load offset=8
+  local.get $0
+  i32.load16_u offset=432
+  local.get $1
+  call $src/PredictionMarket/PredictionMarket#getMarketBlock
+  i64.lt_u
+  if
+   i32.const 21072
+   i32.const 16656
+   i32.const 1231
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $2
+  local.get $1
+  local.get $0
+  local.get $1
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#clampToBounds
+  local.get $4
+  call $src/PredictionMarket/PredictionMarket#proposeOutcome
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#getTotalPool (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  local.get $0
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#getOutcomeCount
+  i64.load
+  i32.wrap_i64
+  local.set $5
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $4
+  i32.const 1
+  local.set $3
+  loop $for-loop|0
+   local.get $3
+   local.get $5
+   i32.le_u
+   if
+    local.get $4
+    local.get $0
+    local.get $1
+    local.get $2
+    block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.22 (result i32)
+     local.get $3
+     i32.eqz
+     if
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+      br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.22
+     end
+     local.get $3
+     i32.const 1
+     i32.eq
+     if
+      i64.const 1
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+      br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.22
+     end
+     local.get $3
+     i64.extend_i32_u
+     i64.const 0
+     i64.const 0
+     i64.const 0
+     call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    end
+    call $src/PredictionMarket/PredictionMarket#getOutcomePoolStore
+    call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+    call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+    local.set $4
+    local.get $3
+    i32.const 1
+    i32.add
+    local.set $3
+    br $for-loop|0
+   end
+  end
+  local.get $4
+ )
+ (func $src/PredictionMarket/encodePriceTargetSetEvent (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  i32.const 64
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $2
+  local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $2
+ )
+ (func $src/PredictionMarket/PredictionMarket#setPriceTarget (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $1
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.set $4
+  local.get $0
+  i32.load16_u offset=288
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $3
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $5
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $5
+  i32.load offset=24
+  local.tee $5
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $5
+  i32.load offset=4
+  local.tee $5
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $5
+  i32.load offset=4
+  local.tee $5
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  local.get $5
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  local.get $5
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  local.get $5
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.tee $5
+  i64.load
+  local.get $3
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $5
+   i64.load offset=8
+   local.get $3
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $5
+   i64.load offset=16
+   local.get $3
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $5
+   i64.load offset=24
+   local.get $3
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 21296
+   i32.const 16656
+   i32.const 1254
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=294
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.tee $3
+  i64.load
+  global.get $src/PredictionMarket/STATUS_OPEN
+  local.tee $5
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $3
+   i64.load offset=8
+   local.get $5
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $3
+   i64.load offset=16
+   local.get $5
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $3
+   i64.load offset=24
+   local.get $5
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 20096
+   i32.const 16656
+   i32.const 1259
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $4
+  call $src/PredictionMarket/PredictionMarket#isCategorical
+  if
+   i32.const 21408
+   i32.const 16656
+   i32.const 1265
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $3
+  local.get $1
+  i64.load
+  local.get $3
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $1
+   i64.load offset=8
+   local.get $3
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=16
+   local.get $3
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=24
+   local.get $3
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   i32.const 21536
+   i32.const 16656
+   i32.const 1269
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=424
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  local.tee $5
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $6
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $3
+  local.get $6
+  i64.load
+  local.get $3
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $6
+   i64.load offset=8
+   local.get $3
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $6
+   i64.load offset=16
+   local.get $3
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $6
+   i64.load offset=24
+   local.get $3
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 21632
+   i32.const 16656
+   i32.const 1276
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $2
+  local.get $4
+  call $src/PredictionMarket/PredictionMarket#getTotalPool
+  local.set $0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $3
+  local.get $0
+  i64.load
+  local.get $3
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $0
+   i64.load offset=8
+   local.get $3
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=16
+   local.get $3
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=24
+   local.get $3
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 21712
+   i32.const 16656
+   i32.const 1279
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $5
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  i32.const 12
+  i32.const 51
+  call $~lib/rt/stub/__new
+  i32.const 21824
+  local.get $2
+  local.get $1
+  call $src/PredictionMarket/encodePriceTargetSetEvent
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $0
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readExtendedAddress (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  local.get $0
+  local.get $0
+  i32.load offset=4
+  i32.const -64
+  i32.sub
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#verifyEnd
+  i32.const 32
+  call $~lib/array/Array<u8>#constructor
+  local.set $2
+  loop $for-loop|0
+   local.get $1
+   i32.const 32
+   i32.lt_s
+   if
+    local.get $2
+    local.get $1
+    local.get $0
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU8
+    call $~lib/array/Array<u8>#__set
+    local.get $1
+    i32.const 1
+    i32.add
+    local.set $1
+    br $for-loop|0
+   end
+  end
+  i32.const 32
+  call $~lib/array/Array<u8>#constructor
+  local.set $3
+  i32.const 0
+  local.set $1
+  loop $for-loop|1
+   local.get $1
+   i32.const 32
+   i32.lt_s
+   if
+    local.get $3
+    local.get $1
+    local.get $0
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU8
+    call $~lib/array/Array<u8>#__set
+    local.get $1
+    i32.const 1
+    i32.add
+    local.set $1
+    br $for-loop|1
+   end
+  end
+  local.get $2
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/types/ExtendedAddress/ExtendedAddress#constructor
+ )
+ (func $src/PredictionMarket/PredictionMarket#toPriceSignerKey (param $0 i32) (result i32)
+  (local $1 i32)
+  i32.const 0
+  i32.const 64
+  call $~lib/typedarray/Uint8Array#constructor
+  local.tee $1
+  local.get $0
+  i32.const 0
+  call $~lib/typedarray/Uint8Array#set<~lib/typedarray/Uint8Array>
+  local.get $1
+  local.get $0
+  i32.load offset=20
+  i32.const 32
+  call $~lib/typedarray/Uint8Array#set<~lib/typedarray/Uint8Array>
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/env/global/sha256
+  local.tee $0
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load offset=4
+  local.tee $0
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  local.get $0
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  local.get $0
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  local.get $0
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+ )
+ (func $src/PredictionMarket/PredictionMarket#hasPriceSigner (param $0 i32) (param $1 i32) (result i32)
+  local.get $0
+  i32.load16_u offset=426
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  local.set $0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $1
+  local.get $0
+  i64.load
+  local.get $1
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $0
+   i64.load offset=8
+   local.get $1
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=16
+   local.get $1
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=24
+   local.get $1
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#verifySignature (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  local.get $0
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load offset=24
+  local.tee $0
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load
+  i64.load
+  i64.const 1
+  i64.and
+  i32.wrap_i64
+  if (result i32)
+   local.get $2
+   i32.load offset=8
+   i32.const 64
+   i32.ne
+   if
+    i32.const 22192
+    i32.const 5168
+    i32.const 1307
+    i32.const 38
+    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+    unreachable
+   end
+   local.get $3
+   i32.load offset=8
+   i32.const 32
+   i32.ne
+   if
+    i32.const 22272
+    i32.const 5168
+    i32.const 1308
+    i32.const 33
+    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+    unreachable
+   end
+   i32.const 0
+   i32.const 33
+   call $~lib/typedarray/Uint8Array#constructor
+   local.tee $0
+   i32.load offset=4
+   local.tee $4
+   i32.const 1
+   i32.store8
+   local.get $4
+   i32.const 1
+   i32.add
+   local.get $1
+   i32.load offset=20
+   i32.load offset=4
+   i32.const 32
+   memory.copy
+   local.get $0
+   i32.load
+   local.get $2
+   i32.load
+   local.get $3
+   i32.load
+   call $~lib/@btc-vision/btc-runtime/runtime/env/global/verifySignature
+   i32.const 1
+   i32.eq
+  else
+   local.get $1
+   i32.load offset=16
+   i32.eqz
+   if
+    i32.const 0
+    i32.const 33
+    call $~lib/typedarray/Uint8Array#constructor
+    local.tee $0
+    i32.load offset=4
+    local.tee $4
+    i32.const 0
+    i32.store8
+    local.get $4
+    i32.const 1
+    i32.add
+    local.get $1
+    i32.load offset=4
+    i32.const 32
+    memory.copy
+    i32.const 0
+    i32.const 1313
+    call $~lib/typedarray/Uint8Array#constructor
+    local.set $4
+    local.get $0
+    i32.load
+    local.get $4
+    i32.load
+    call $~lib/@btc-vision/btc-runtime/runtime/env/global/loadMLDSA
+    local.get $4
+    i32.load offset=4
+    i32.load8_u
+    i32.eqz
+    if
+     i32.const 22848
+     i32.const 22928
+     i32.const 377
+     i32.const 9
+     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+     unreachable
+    end
+    i32.const 1
+    global.set $~argumentsLength
+    local.get $1
+    local.get $4
+    i32.const 1
+    call $~lib/typedarray/Uint8Array#slice@varargs
+    i32.store offset=16
+   end
+   local.get $1
+   i32.load offset=16
+   local.tee $0
+   i32.eqz
+   if
+    i32.const 14672
+    i32.const 2752
+    i32.const 87
+    i32.const 16
+    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+    unreachable
+   end
+   local.get $0
+   i32.load offset=8
+   i32.const 1312
+   i32.ne
+   if
+    i32.const 23056
+    i32.const 5168
+    i32.const 867
+    i32.const 13
+    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+    unreachable
+   end
+   local.get $2
+   i32.load offset=8
+   i32.const 2420
+   i32.ne
+   if
+    i32.const 23152
+    i32.const 5168
+    i32.const 871
+    i32.const 13
+    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+    unreachable
+   end
+   local.get $3
+   i32.load offset=8
+   i32.const 32
+   i32.ne
+   if
+    i32.const 22272
+    i32.const 5168
+    i32.const 875
+    i32.const 13
+    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+    unreachable
+   end
+   i32.const 0
+   local.get $0
+   i32.load offset=8
+   i32.const 2
+   i32.add
+   call $~lib/typedarray/Uint8Array#constructor
+   local.tee $1
+   i32.load offset=4
+   local.tee $4
+   i32.const 2
+   i32.store8
+   local.get $4
+   i32.const 0
+   i32.store8 offset=1
+   local.get $4
+   i32.const 2
+   i32.add
+   local.get $0
+   i32.load offset=4
+   local.get $0
+   i32.load offset=8
+   memory.copy
+   local.get $1
+   i32.load
+   local.get $2
+   i32.load
+   local.get $3
+   i32.load
+   call $~lib/@btc-vision/btc-runtime/runtime/env/global/verifySignature
+   i32.const 1
+   i32.eq
+  end
+ )
+ (func $src/PredictionMarket/PredictionMarket#resolveWithPrice (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i64)
+  (local $6 i64)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $3
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $4
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
+  local.set $5
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readExtendedAddress
+  local.set $7
+  local.get $1
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU32
+  i32.const 0
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readBytes
+  local.set $8
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.set $2
+  local.get $0
+  i32.load16_u offset=294
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.tee $1
+  i64.load
+  global.get $src/PredictionMarket/STATUS_OPEN
+  local.tee $9
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $1
+   i64.load offset=8
+   local.get $9
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=16
+   local.get $9
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=24
+   local.get $9
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 20096
+   i32.const 16656
+   i32.const 1310
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#hasCommittee
+  if
+   i32.const 20864
+   i32.const 16656
+   i32.const 1314
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#isScalar
+  local.set $9
+  local.get $0
+  i32.load16_u offset=424
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $1
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $10
+  local.get $1
+  i64.load
+  local.get $10
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $1
+   i64.load offset=8
+   local.get $10
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=16
+   local.get $10
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=24
+   local.get $10
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   i32.const 21872
+   i32.const 16656
+   i32.const 1323
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=432
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#getMarketBlock
+  local.set $6
+  block $folding-inner1
+   block $folding-inner0
+    global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+    local.tee $10
+    i32.load offset=20
+    i32.eqz
+    br_if $folding-inner0
+    local.get $10
+    i32.load offset=20
+    local.tee $10
+    i32.eqz
+    br_if $folding-inner1
+    local.get $6
+    local.get $10
+    i64.load offset=8
+    i64.gt_u
+    if
+     i32.const 21072
+     i32.const 16656
+     i32.const 1328
+     i32.const 13
+     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+     unreachable
+    end
+    local.get $5
+    local.get $6
+    i64.lt_u
+    if (result i32)
+     i32.const 1
+    else
+     global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+     local.tee $10
+     i32.load offset=20
+     i32.eqz
+     br_if $folding-inner0
+     local.get $10
+     i32.load offset=20
+     local.tee $10
+     i32.eqz
+     br_if $folding-inner1
+     local.get $5
+     local.get $10
+     i64.load offset=8
+     i64.gt_u
+    end
+    if
+     i32.const 21952
+     i32.const 16656
+     i32.const 1332
+     i32.const 13
+     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+     unreachable
+    end
+    local.get $0
+    local.get $7
+    call $src/PredictionMarket/PredictionMarket#toPriceSignerKey
+    local.tee $10
+    call $src/PredictionMarket/PredictionMarket#hasPriceSigner
+    i32.eqz
+    if
+     i32.const 22096
+     i32.const 16656
+     i32.const 1337
+     i32.const 13
+     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+     unreachable
+    end
+    i32.const 104
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+    local.tee $11
+    global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+    call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:contractAddress
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
+    local.get $11
+    local.get $3
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+    local.get $11
+    local.get $4
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+    local.get $11
+    local.get $5
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+    local.get $11
+    i32.load offset=8
+    call $~lib/@btc-vision/btc-runtime/runtime/env/global/sha256
+    local.set $11
+    i32.const 3
+    global.set $~argumentsLength
+    global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+    local.get $7
+    local.get $8
+    local.get $11
+    call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#verifySignature
+    i32.eqz
+    if
+     i32.const 23440
+     i32.const 16656
+     i32.const 1342
+     i32.const 13
+     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+     unreachable
+    end
+    local.get $4
+    local.get $1
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+    if (result i32)
+     global.get $src/PredictionMarket/OUTCOME_NO
+    else
+     global.get $src/PredictionMarket/OUTCOME_YES
+    end
+    local.set $1
+    local.get $9
+    if
+     local.get $0
+     local.get $2
+     local.get $4
+     call $src/PredictionMarket/PredictionMarket#clampToBounds
+     local.set $1
+    end
+    i32.const 12
+    i32.const 52
+    call $~lib/rt/stub/__new
+    i32.const 104
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+    local.tee $8
+    local.get $3
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+    local.get $8
+    local.get $4
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+    local.get $8
+    local.get $5
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+    local.get $8
+    local.get $10
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+    i32.const 23520
+    local.get $8
+    call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+    call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+    local.get $0
+    local.get $3
+    local.get $2
+    local.get $1
+    i32.const 3
+    call $src/PredictionMarket/PredictionMarket#proposeOutcome
+    i32.const 32
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+    local.tee $0
+    local.get $1
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+    local.get $0
+    return
+   end
+   i32.const 16736
+   i32.const 5168
+   i32.const 118
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  i32.const 14672
+  i32.const 5168
+  i32.const 120
+  i32.const 16
+  call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+  unreachable
+ )
+ (func $src/PredictionMarket/PredictionMarket#getCommitteeMember (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  local.get $0
+  i32.load16_u offset=374
+  local.get $1
+  block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.23 (result i32)
+   local.get $2
+   i32.const 1
+   i32.add
+   local.tee $0
+   i32.eqz
+   if
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.23
+   end
+   local.get $0
+   i32.const 1
+   i32.eq
+   if
+    i64.const 1
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.23
+   end
+   local.get $0
+   i64.extend_i32_u
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  end
+  call $src/PredictionMarket/PredictionMarket#toOutcomeSubPointer
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $0
+  i32.const 0
+  i32.const 32
+  call $~lib/typedarray/Uint8Array#constructor
+  local.tee $1
+  i32.load offset=4
+  local.tee $2
+  local.get $0
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  i64.store
+  local.get $2
+  local.get $0
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=8
+  local.get $2
+  local.get $0
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=16
+  local.get $2
+  local.get $0
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=24
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address.fromUint8Array
+ )
+ (func $src/PredictionMarket/encodeOracleVotedEvent (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  i32.const 96
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $3
+  local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $3
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
+  local.get $3
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $3
+ )
+ (func $src/PredictionMarket/PredictionMarket#voteOutcome (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $3
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $4
+  local.get $0
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.tee $1
+  local.get $4
+  call $src/PredictionMarket/PredictionMarket#assertValidOutcome
+  local.get $0
+  local.get $1
+  call $src/PredictionMarket/PredictionMarket#hasCommittee
+  i32.eqz
+  if
+   i32.const 23568
+   i32.const 16656
+   i32.const 1373
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=294
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.tee $5
+  i64.load
+  global.get $src/PredictionMarket/STATUS_OPEN
+  local.tee $6
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $5
+   i64.load offset=8
+   local.get $6
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $5
+   i64.load offset=16
+   local.get $6
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $5
+   i64.load offset=24
+   local.get $6
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 20096
+   i32.const 16656
+   i32.const 1378
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $5
+  i32.load offset=20
+  i32.eqz
+  if
+   i32.const 16736
+   i32.const 5168
+   i32.const 118
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $5
+  i32.load offset=20
+  local.tee $5
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 120
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $5
+  i64.load offset=8
+  local.get $0
+  i32.load16_u offset=432
+  local.get $1
+  call $src/PredictionMarket/PredictionMarket#getMarketBlock
+  i64.lt_u
+  if
+   i32.const 21072
+   i32.const 16656
+   i32.const 1382
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  block $__inlined_func$src/PredictionMarket/PredictionMarket#isCommitteeMember$2936 (result i32)
+   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+   local.tee $5
+   i32.load offset=24
+   i32.eqz
+   if
+    i32.const 17552
+    i32.const 5168
+    i32.const 145
+    i32.const 13
+    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+    unreachable
+   end
+   local.get $5
+   i32.load offset=24
+   local.tee $5
+   i32.eqz
+   if
+    i32.const 14672
+    i32.const 5168
+    i32.const 147
+    i32.const 16
+    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+    unreachable
+   end
+   local.get $5
+   i32.load offset=4
+   local.set $5
+   local.get $0
+   i32.load16_u offset=370
+   local.get $1
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+   i64.load
+   i32.wrap_i64
+   local.set $6
+   loop $for-loop|0
+    local.get $2
+    local.get $6
+    i32.lt_u
+    if
+     i32.const 1
+     local.get $0
+     local.get $3
+     local.get $2
+     call $src/PredictionMarket/PredictionMarket#getCommitteeMember
+     local.get $5
+     call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#equals
+     br_if $__inlined_func$src/PredictionMarket/PredictionMarket#isCommitteeMember$2936
+     drop
+     local.get $2
+     i32.const 1
+     i32.add
+     local.set $2
+     br $for-loop|0
+    end
+   end
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 23648
+   i32.const 16656
+   i32.const 1387
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=376
+  local.get $1
+  local.get $5
+  call $src/PredictionMarket/PredictionMarket#getUserBet
+  local.set $2
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $6
+  local.get $2
+  i64.load
+  local.get $6
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $2
+   i64.load offset=8
+   local.get $6
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $2
+   i64.load offset=16
+   local.get $6
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $2
+   i64.load offset=24
+   local.get $6
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 23744
+   i32.const 16656
+   i32.const 1392
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=376
+  local.get $1
+  local.get $5
+  local.get $4
+  call $src/PredictionMarket/PredictionMarket#setUserBet
+  local.get $0
+  i32.load16_u offset=378
+  local.get $3
+  local.get $4
+  call $src/PredictionMarket/PredictionMarket#toOutcomeSubPointer
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  local.tee $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  i64.const 1
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+  local.set $6
+  local.get $2
+  local.get $6
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  i32.const 12
+  i32.const 53
+  call $~lib/rt/stub/__new
+  i32.const 23792
+  local.get $3
+  local.get $5
+  local.get $4
+  call $src/PredictionMarket/encodeOracleVotedEvent
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+  local.get $6
+  local.get $0
+  i32.load16_u offset=372
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  i32.eqz
+  if
+   local.get $0
+   local.get $3
+   local.get $1
+   local.get $4
+   i32.const 2
+   call $src/PredictionMarket/PredictionMarket#proposeOutcome
+  end
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#toResolutionOutcome (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  local.get $0
+  local.get $1
+  call $src/PredictionMarket/PredictionMarket#isScalar
+  if
+   local.get $0
+   local.get $1
+   local.get $2
+   call $src/PredictionMarket/PredictionMarket#clampToBounds
+   return
+  end
+  local.get $0
+  local.get $1
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#assertValidOutcome
+  local.get $2
+ )
+ (func $src/PredictionMarket/PredictionMarket#getDisputeEndBlock (param $0 i32) (param $1 i32) (result i64)
+  local.get $0
+  i32.load16_u offset=360
+  local.get $1
+  call $src/PredictionMarket/PredictionMarket#getMarketBlock
+  local.get $0
+  call $src/PredictionMarket/PredictionMarket#getDisputeWindow
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add64
+ )
+ (func $src/PredictionMarket/PredictionMarket#disputeOutcome (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  local.get $0
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.tee $3
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.tee $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  call $src/PredictionMarket/PredictionMarket#toResolutionOutcome
+  local.set $1
+  local.get $0
+  i32.load16_u offset=294
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.tee $4
+  i64.load
+  global.get $src/PredictionMarket/STATUS_PROPOSED
+  local.tee $5
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $4
+   i64.load offset=8
+   local.get $5
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=16
+   local.get $5
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=24
+   local.get $5
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 23840
+   i32.const 16656
+   i32.const 1430
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $4
+  i32.load offset=20
+  i32.eqz
+  if
+   i32.const 16736
+   i32.const 5168
+   i32.const 118
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $4
+  i32.load offset=20
+  local.tee $4
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 120
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $4
+  i64.load offset=8
+  local.get $0
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#getDisputeEndBlock
+  i64.ge_u
+  if
+   i32.const 23920
+   i32.const 16656
+   i32.const 1434
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=362
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $4
+  local.get $1
+  i64.load
+  local.get $4
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $1
+   i64.load offset=8
+   local.get $4
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=16
+   local.get $4
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=24
+   local.get $4
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   i32.const 24000
+   i32.const 16656
+   i32.const 1439
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $4
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $4
+  i32.load offset=24
+  local.tee $4
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $4
+  i32.load offset=4
+  local.set $4
+  local.get $0
+  i32.load offset=352
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $5
+  local.get $0
+  i32.load16_u offset=294
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  global.get $src/PredictionMarket/STATUS_DISPUTED
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  i32.load16_u offset=364
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  local.get $4
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $4
+  i32.load offset=4
+  local.tee $6
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  local.get $6
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  local.get $6
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  local.get $6
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  i32.load16_u offset=366
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  i32.load16_u offset=368
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  call $src/PredictionMarket/PredictionMarket#getCollateralToken
+  local.get $4
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:contractAddress
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/shared-libraries/TransferHelper/TransferHelper.transferFrom
+  i32.const 12
+  i32.const 54
+  call $~lib/rt/stub/__new
+  i32.const 24112
+  local.get $3
+  local.get $4
+  local.get $1
+  local.get $5
+  call $src/PredictionMarket/encodeBetPlacedEvent
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $0
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i64)
+  (local $3 i64)
+  (local $4 i64)
+  (local $5 i64)
+  (local $6 i64)
+  (local $7 i64)
+  local.get $0
+  local.get $1
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  if
+   i32.const 24400
+   i32.const 17424
+   i32.const 125
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i64.load
+  local.tee $3
+  local.get $1
+  i64.load
+  i64.sub
+  local.set $2
+  local.get $2
+  local.get $3
+  i64.gt_u
+  i64.extend_i32_s
+  global.set $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub
+  local.get $0
+  i64.load offset=8
+  local.tee $3
+  local.get $1
+  i64.load offset=8
+  i64.sub
+  local.tee $4
+  global.get $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub
+  i64.sub
+  local.set $5
+  local.get $4
+  local.get $5
+  i64.lt_u
+  local.get $3
+  local.get $4
+  i64.lt_u
+  i32.add
+  i64.extend_i32_s
+  global.set $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub
+  local.get $0
+  i64.load offset=16
+  local.tee $3
+  local.get $1
+  i64.load offset=16
+  i64.sub
+  local.tee $4
+  global.get $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub
+  i64.sub
+  local.set $6
+  local.get $4
+  local.get $6
+  i64.lt_u
+  local.get $3
+  local.get $4
+  i64.lt_u
+  i32.add
+  i64.extend_i32_s
+  global.set $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub
+  local.get $0
+  i64.load offset=24
+  local.tee $4
+  local.get $1
+  i64.load offset=24
+  i64.sub
+  local.tee $3
+  global.get $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub
+  i64.sub
+  local.set $7
+  local.get $3
+  local.get $7
+  i64.lt_u
+  local.get $3
+  local.get $4
+  i64.gt_u
+  i32.add
+  i64.extend_i32_s
+  global.set $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub
+  local.get $2
+  local.get $5
+  local.get $6
+  local.get $7
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+ )
+ (func $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#clone (param $0 i32) (result i32)
+  local.get $0
+  i64.load
+  local.get $0
+  i64.load offset=8
+  local.get $0
+  i64.load offset=16
+  local.get $0
+  i64.load offset=24
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+ )
+ (func $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.shl (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i64)
+  (local $3 i64)
+  (local $4 i64)
+  (local $5 i64)
+  (local $6 i64)
+  (local $7 i32)
+  (local $8 i64)
+  (local $9 i32)
+  (local $10 i64)
+  local.get $1
+  i32.const 0
+  i32.le_s
+  if
+   local.get $1
+   if (result i32)
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   else
+    local.get $0
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#clone
+   end
+   return
+  end
+  local.get $1
+  i32.const 256
+  i32.ge_s
+  if
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   return
+  end
+  local.get $1
+  i32.const 255
+  i32.and
+  local.tee $7
+  i32.const 6
+  i32.shr_u
+  local.set $1
+  i32.const 64
+  local.get $7
+  i32.const 63
+  i32.and
+  local.tee $7
+  i32.sub
+  local.set $9
+  local.get $0
+  i64.load
+  local.set $8
+  local.get $0
+  i64.load offset=8
+  local.set $10
+  local.get $0
+  i64.load offset=16
+  local.set $2
+  local.get $0
+  i64.load offset=24
+  local.set $5
+  local.get $1
+  if (result i64)
+   local.get $1
+   i32.const 1
+   i32.eq
+   if (result i64)
+    local.get $8
+    local.get $7
+    i64.extend_i32_s
+    i64.shl
+    local.set $4
+    local.get $10
+    local.get $7
+    i64.extend_i32_s
+    i64.shl
+    local.get $8
+    local.get $9
+    i64.extend_i32_s
+    i64.shr_u
+    i64.const 0
+    local.get $7
+    select
+    i64.or
+    local.set $3
+    local.get $2
+    local.get $7
+    i64.extend_i32_s
+    i64.shl
+    local.get $10
+    local.get $9
+    i64.extend_i32_s
+    i64.shr_u
+    i64.const 0
+    local.get $7
+    select
+    i64.or
+   else
+    local.get $1
+    i32.const 2
+    i32.eq
+    if (result i64)
+     local.get $8
+     local.get $7
+     i64.extend_i32_s
+     i64.shl
+     local.set $3
+     local.get $10
+     local.get $7
+     i64.extend_i32_s
+     i64.shl
+     local.get $8
+     local.get $9
+     i64.extend_i32_s
+     i64.shr_u
+     i64.const 0
+     local.get $7
+     select
+     i64.or
+    else
+     local.get $8
+     local.get $7
+     i64.extend_i32_s
+     i64.shl
+     i64.const 0
+     local.get $1
+     i32.const 3
+     i32.eq
+     select
+    end
+   end
+  else
+   local.get $8
+   local.get $7
+   i64.extend_i32_s
+   i64.shl
+   local.set $6
+   local.get $10
+   local.get $7
+   i64.extend_i32_s
+   i64.shl
+   local.get $8
+   local.get $9
+   i64.extend_i32_s
+   i64.shr_u
+   i64.const 0
+   local.get $7
+   select
+   i64.or
+   local.set $4
+   local.get $2
+   local.get $7
+   i64.extend_i32_s
+   i64.shl
+   local.get $10
+   local.get $9
+   i64.extend_i32_s
+   i64.shr_u
+   i64.const 0
+   local.get $7
+   select
+   i64.or
+   local.set $3
+   local.get $5
+   local.get $7
+   i64.extend_i32_s
+   i64.shl
+   local.get $2
+   local.get $9
+   i64.extend_i32_s
+   i64.shr_u
+   i64.const 0
+   local.get $7
+   select
+   i64.or
+  end
+  local.set $2
+  local.get $6
+  local.get $4
+  local.get $3
+  local.get $2
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+ )
+ (func $~lib/@btc-vision/as-bignum/assembly/globals/__mul256 (param $0 i64) (param $1 i64) (param $2 i64) (param $3 i64) (param $4 i64) (param $5 i64) (param $6 i64) (param $7 i64) (result i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (local $13 i32)
+  (local $14 i32)
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $8
+  i32.const 4
+  i32.const 3
+  i32.const 44
+  i32.const 0
+  call $~lib/rt/__newArray
+  local.tee $10
+  i32.const 0
+  local.get $0
+  call $~lib/array/Array<u64>#__set
+  local.get $10
+  i32.const 1
+  local.get $1
+  call $~lib/array/Array<u64>#__set
+  local.get $10
+  i32.const 2
+  local.get $2
+  call $~lib/array/Array<u64>#__set
+  local.get $10
+  i32.const 3
+  local.get $3
+  call $~lib/array/Array<u64>#__set
+  i32.const 4
+  i32.const 3
+  i32.const 44
+  i32.const 0
+  call $~lib/rt/__newArray
+  local.tee $11
+  i32.const 0
+  local.get $4
+  call $~lib/array/Array<u64>#__set
+  local.get $11
+  i32.const 1
+  local.get $5
+  call $~lib/array/Array<u64>#__set
+  local.get $11
+  i32.const 2
+  local.get $6
+  call $~lib/array/Array<u64>#__set
+  local.get $11
+  i32.const 3
+  local.get $7
+  call $~lib/array/Array<u64>#__set
+  loop $for-loop|0
+   local.get $12
+   i32.const 4
+   i32.lt_s
+   if
+    i32.const 0
+    local.set $9
+    loop $for-loop|1
+     local.get $9
+     i32.const 4
+     i32.lt_s
+     if
+      local.get $9
+      local.get $12
+      i32.add
+      i32.const 6
+      i32.shl
+      local.tee $13
+      i32.const 256
+      i32.lt_s
+      if
+       local.get $10
+       local.get $12
+       call $~lib/array/Array<u64>#__get
+       local.tee $0
+       i64.const 32
+       i64.shr_u
+       local.set $1
+       local.get $11
+       local.get $9
+       call $~lib/array/Array<u64>#__get
+       local.tee $2
+       i64.const 4294967295
+       i64.and
+       local.tee $3
+       local.get $0
+       i64.const 4294967295
+       i64.and
+       local.tee $0
+       i64.mul
+       local.set $4
+       local.get $2
+       i64.const 32
+       i64.shr_u
+       local.tee $2
+       local.get $0
+       i64.mul
+       local.get $1
+       local.get $3
+       i64.mul
+       local.get $4
+       i64.const 32
+       i64.shr_u
+       i64.add
+       local.tee $0
+       i64.const 4294967295
+       i64.and
+       i64.add
+       local.set $3
+       local.get $1
+       local.get $2
+       i64.mul
+       local.get $0
+       i64.const 32
+       i64.shr_u
+       i64.add
+       local.get $3
+       i64.const 32
+       i64.shr_u
+       i64.add
+       global.set $~lib/@btc-vision/as-bignum/assembly/globals/__res128_hi
+       local.get $4
+       i64.const 4294967295
+       i64.and
+       local.get $3
+       i64.const 32
+       i64.shl
+       i64.or
+       global.get $~lib/@btc-vision/as-bignum/assembly/globals/__res128_hi
+       call $~lib/@btc-vision/as-bignum/assembly/integer/u128/u128#constructor
+       local.tee $14
+       i64.load
+       local.get $14
+       i64.load offset=8
+       i64.const 0
+       i64.const 0
+       call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+       local.set $14
+       local.get $8
+       local.get $13
+       if (result i32)
+        local.get $14
+        local.get $13
+        call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.shl
+       else
+        local.get $14
+       end
+       call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.add
+       local.set $8
+      end
+      local.get $9
+      i32.const 1
+      i32.add
+      local.set $9
+      br $for-loop|1
+     end
+    end
+    local.get $12
+    i32.const 1
+    i32.add
+    local.set $12
+    br $for-loop|0
+   end
+  end
+  local.get $8
+ )
+ (func $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.div (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i64)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i64)
+  (local $7 i64)
+  (local $8 i64)
+  (local $9 i64)
+  (local $10 i64)
+  local.get $1
+  i64.load offset=24
+  local.get $1
+  i64.load offset=16
+  local.get $1
+  i64.load
+  local.get $1
+  i64.load offset=8
+  i64.or
+  i64.or
+  i64.or
+  i64.eqz
+  if
+   i32.const 24496
+   i32.const 5664
+   i32.const 353
+   i32.const 21
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i64.load offset=24
+  local.get $0
+  i64.load offset=16
+  local.get $0
+  i64.load
+  local.get $0
+  i64.load offset=8
+  i64.or
+  i64.or
+  i64.or
+  i64.eqz
+  if (result i32)
+   i32.const 1
+  else
+   local.get $0
+   local.get $1
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  end
+  if
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   return
+  end
+  local.get $0
+  i64.load
+  local.get $1
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $0
+   i64.load offset=8
+   local.get $1
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=16
+   local.get $1
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=24
+   local.get $1
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   i64.const 1
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   return
+  end
+  local.get $0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#clone
+  local.set $5
+  local.get $1
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#clone
+  local.set $1
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#clone
+  local.set $0
+  local.get $1
+  block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.clz|inlined.0 (result i32)
+   local.get $1
+   i64.load offset=24
+   i64.const 0
+   i64.ne
+   if
+    local.get $1
+    i64.load offset=24
+    i64.clz
+    i32.wrap_i64
+    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.clz|inlined.0
+   end
+   local.get $1
+   i64.load offset=16
+   i64.const 0
+   i64.ne
+   if
+    local.get $1
+    i64.load offset=16
+    i64.clz
+    i64.const -64
+    i64.sub
+    i32.wrap_i64
+    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.clz|inlined.0
+   end
+   local.get $1
+   i64.load offset=8
+   i64.const 0
+   i64.ne
+   if
+    local.get $1
+    i64.load offset=8
+    i64.clz
+    i64.const 128
+    i64.add
+    i32.wrap_i64
+    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.clz|inlined.0
+   end
+   local.get $1
+   i64.load
+   i64.const 0
+   i64.ne
+   if
+    local.get $1
+    i64.load
+    i64.clz
+    i64.const 192
+    i64.add
+    i32.wrap_i64
+    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.clz|inlined.0
+   end
+   i32.const 256
+  end
+  block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.clz|inlined.1 (result i32)
+   local.get $5
+   i64.load offset=24
+   i64.const 0
+   i64.ne
+   if
+    local.get $5
+    i64.load offset=24
+    i64.clz
+    i32.wrap_i64
+    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.clz|inlined.1
+   end
+   local.get $5
+   i64.load offset=16
+   i64.const 0
+   i64.ne
+   if
+    local.get $5
+    i64.load offset=16
+    i64.clz
+    i64.const -64
+    i64.sub
+    i32.wrap_i64
+    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.clz|inlined.1
+   end
+   local.get $5
+   i64.load offset=8
+   i64.const 0
+   i64.ne
+   if
+    local.get $5
+    i64.load offset=8
+    i64.clz
+    i64.const 128
+    i64.add
+    i32.wrap_i64
+    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.clz|inlined.1
+   end
+   local.get $5
+   i64.load
+   i64.const 0
+   i64.ne
+   if
+    local.get $5
+    i64.load
+    i64.clz
+    i64.const 192
+    i64.add
+    i32.wrap_i64
+    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.clz|inlined.1
+   end
+   i32.const 256
+  end
+  i32.sub
+  local.tee $1
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.shl
+  local.set $4
+  loop $for-loop|0
+   local.get $1
+   i32.const 0
+   i32.ge_s
+   if
+    local.get $5
+    local.get $4
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+    i32.eqz
+    if
+     local.get $5
+     i64.load
+     local.tee $2
+     local.get $4
+     i64.load
+     i64.sub
+     local.set $6
+     local.get $2
+     local.get $6
+     i64.lt_u
+     i64.extend_i32_s
+     global.set $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub
+     local.get $5
+     i64.load offset=8
+     local.tee $2
+     local.get $4
+     i64.load offset=8
+     i64.sub
+     local.tee $7
+     global.get $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub
+     i64.sub
+     local.set $8
+     local.get $7
+     local.get $8
+     i64.lt_u
+     local.get $2
+     local.get $7
+     i64.lt_u
+     i32.add
+     i64.extend_i32_s
+     global.set $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub
+     local.get $5
+     i64.load offset=16
+     local.tee $2
+     local.get $4
+     i64.load offset=16
+     i64.sub
+     local.tee $7
+     global.get $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub
+     i64.sub
+     local.set $9
+     local.get $7
+     local.get $9
+     i64.lt_u
+     local.get $2
+     local.get $7
+     i64.lt_u
+     i32.add
+     i64.extend_i32_s
+     global.set $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub
+     local.get $5
+     i64.load offset=24
+     local.tee $7
+     local.get $4
+     i64.load offset=24
+     i64.sub
+     local.tee $2
+     global.get $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub
+     i64.sub
+     local.set $10
+     local.get $2
+     local.get $10
+     i64.lt_u
+     local.get $2
+     local.get $7
+     i64.gt_u
+     i32.add
+     i64.extend_i32_s
+     global.set $~lib/@btc-vision/as-bignum/assembly/globals/__u256carrySub
+     local.get $5
+     local.get $6
+     i64.store
+     local.get $5
+     local.get $8
+     i64.store offset=8
+     local.get $5
+     local.get $9
+     i64.store offset=16
+     local.get $5
+     local.get $10
+     i64.store offset=24
+     i64.const 1
+     local.get $1
+     i32.const 64
+     i32.rem_s
+     i64.extend_i32_s
+     i64.shl
+     local.set $2
+     local.get $1
+     i32.const 64
+     i32.div_s
+     local.tee $3
+     if
+      local.get $3
+      i32.const 1
+      i32.eq
+      if
+       local.get $0
+       local.get $0
+       i64.load offset=8
+       local.get $2
+       i64.or
+       i64.store offset=8
+      else
+       local.get $3
+       i32.const 2
+       i32.eq
+       if
+        local.get $0
+        local.get $0
+        i64.load offset=16
+        local.get $2
+        i64.or
+        i64.store offset=16
+       else
+        local.get $3
+        i32.const 3
+        i32.eq
+        if
+         local.get $0
+         local.get $0
+         i64.load offset=24
+         local.get $2
+         i64.or
+         i64.store offset=24
+        end
+       end
+      end
+     else
+      local.get $0
+      local.get $0
+      i64.load
+      local.get $2
+      i64.or
+      i64.store
+     end
+    end
+    local.get $4
+    local.get $4
+    i64.load offset=8
+    i64.const 63
+    i64.shl
+    local.get $4
+    i64.load
+    i64.const 1
+    i64.shr_u
+    i64.or
+    i64.store
+    local.get $4
+    local.get $4
+    i64.load offset=16
+    i64.const 63
+    i64.shl
+    local.get $4
+    i64.load offset=8
+    i64.const 1
+    i64.shr_u
+    i64.or
+    i64.store offset=8
+    local.get $4
+    local.get $4
+    i64.load offset=24
+    i64.const 63
+    i64.shl
+    local.get $4
+    i64.load offset=16
+    i64.const 1
+    i64.shr_u
+    i64.or
+    i64.store offset=16
+    local.get $4
+    local.get $4
+    i64.load offset=24
+    i64.const 1
+    i64.shr_u
+    i64.store offset=24
+    local.get $1
+    i32.const 1
+    i32.sub
+    local.set $1
+    br $for-loop|0
+   end
+  end
+  local.get $0
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.mul (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  local.get $0
+  i64.load offset=24
+  local.get $0
+  i64.load offset=16
+  local.get $0
+  i64.load
+  local.get $0
+  i64.load offset=8
+  i64.or
+  i64.or
+  i64.or
+  i64.eqz
+  if (result i64)
+   i64.const 0
+  else
+   local.get $1
+   i64.load offset=24
+   local.get $1
+   i64.load offset=16
+   local.get $1
+   i64.load
+   local.get $1
+   i64.load offset=8
+   i64.or
+   i64.or
+   i64.or
+  end
+  i64.eqz
+  if
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   return
+  end
+  local.get $0
+  i64.load
+  local.get $0
+  i64.load offset=8
+  local.get $0
+  i64.load offset=16
+  local.get $0
+  i64.load offset=24
+  local.get $1
+  i64.load
+  local.get $1
+  i64.load offset=8
+  local.get $1
+  i64.load offset=16
+  local.get $1
+  i64.load offset=24
+  call $~lib/@btc-vision/as-bignum/assembly/globals/__mul256
+  local.tee $2
+  local.get $0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.div
+  local.tee $0
+  i64.load
+  local.get $1
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $0
+   i64.load offset=8
+   local.get $1
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=16
+   local.get $1
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=24
+   local.get $1
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 24560
+   i32.const 17424
+   i32.const 190
+   i32.const 28
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $2
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.div (param $0 i32) (param $1 i32) (result i32)
+  local.get $1
+  i64.load offset=24
+  local.get $1
+  i64.load offset=16
+  local.get $1
+  i64.load
+  local.get $1
+  i64.load offset=8
+  i64.or
+  i64.or
+  i64.or
+  i64.eqz
+  if
+   i32.const 24656
+   i32.const 17424
+   i32.const 265
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i64.load offset=24
+  local.get $0
+  i64.load offset=16
+  local.get $0
+  i64.load
+  local.get $0
+  i64.load offset=8
+  i64.or
+  i64.or
+  i64.or
+  i64.eqz
+  if
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   return
+  end
+  local.get $0
+  local.get $1
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.div
+ )
+ (func $src/PredictionMarket/PredictionMarket#getScalarLongShare (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  local.get $0
+  local.get $1
+  local.get $2
+  global.get $src/PredictionMarket/OUTCOME_YES
+  call $src/PredictionMarket/PredictionMarket#getOutcomePoolStore
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $4
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $5
+  local.get $4
+  i64.load
+  local.get $5
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $4
+   i64.load offset=8
+   local.get $5
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=16
+   local.get $5
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=24
+   local.get $5
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   return
+  end
+  local.get $0
+  local.get $1
+  local.get $2
+  global.get $src/PredictionMarket/OUTCOME_NO
+  call $src/PredictionMarket/PredictionMarket#getOutcomePoolStore
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $1
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $4
+  local.get $1
+  i64.load
+  local.get $4
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $1
+   i64.load offset=8
+   local.get $4
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=16
+   local.get $4
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=24
+   local.get $4
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   local.get $3
+   return
+  end
+  local.get $0
+  i32.load16_u offset=428
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $1
+  local.get $0
+  i32.load16_u offset=430
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $4
+  local.get $3
+  local.get $0
+  i32.load16_u offset=296
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.mul
+  local.get $4
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.div
+ )
+ (func $src/PredictionMarket/PredictionMarket#takeFees (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  block $__inlined_func$src/PredictionMarket/PredictionMarket#getLosingStake$1589 (result i32)
+   local.get $0
+   local.get $1
+   local.get $2
+   call $src/PredictionMarket/PredictionMarket#getTotalPool
+   local.set $4
+   local.get $0
+   local.get $2
+   call $src/PredictionMarket/PredictionMarket#isScalar
+   i32.eqz
+   if
+    local.get $4
+    local.get $0
+    local.get $1
+    local.get $2
+    local.get $3
+    call $src/PredictionMarket/PredictionMarket#getOutcomePoolStore
+    call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+    call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+    br $__inlined_func$src/PredictionMarket/PredictionMarket#getLosingStake$1589
+   end
+   local.get $0
+   local.get $1
+   local.get $2
+   global.get $src/PredictionMarket/OUTCOME_YES
+   call $src/PredictionMarket/PredictionMarket#getOutcomePoolStore
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+   local.tee $3
+   local.get $0
+   local.get $1
+   local.get $2
+   local.get $4
+   call $src/PredictionMarket/PredictionMarket#getScalarLongShare
+   local.tee $4
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+   if (result i32)
+    local.get $4
+    local.get $3
+    call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+   else
+    local.get $3
+    local.get $4
+    call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+   end
+  end
+  local.set $3
+  local.get $0
+  i32.load16_u offset=336
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $4
+  local.get $0
+  i32.load16_u offset=338
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $5
+  local.get $3
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.mul
+  global.get $src/PredictionMarket/BPS_DENOMINATOR
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.div
+  local.set $4
+  local.get $3
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.mul
+  global.get $src/PredictionMarket/BPS_DENOMINATOR
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.div
+  local.set $3
+  local.get $0
+  i32.load16_u offset=340
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  i32.load16_u offset=342
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  i32.load offset=332
+  local.get $0
+  i32.load offset=332
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  i32.load16_u offset=344
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.tee $5
+  local.get $0
+  i32.load16_u offset=288
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.tee $0
+  local.get $5
+  local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#set
+  i32.const 12
+  i32.const 56
+  call $~lib/rt/stub/__new
+  i32.const 96
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $2
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $2
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  i32.const 24736
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+ )
+ (func $src/PredictionMarket/PredictionMarket#releaseOracles (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  local.get $0
+  i32.load16_u offset=460
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.set $3
+  local.get $0
+  i32.load16_u offset=370
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  i64.load
+  i32.wrap_i64
+  local.tee $5
+  i32.eqz
+  if
+   local.get $3
+   local.get $0
+   i32.load16_u offset=292
+   local.get $2
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+   local.tee $6
+   local.get $3
+   local.get $6
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+   i64.const 1
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#set
+  end
+  loop $for-loop|0
+   local.get $4
+   local.get $5
+   i32.lt_u
+   if
+    local.get $0
+    local.get $1
+    local.get $4
+    call $src/PredictionMarket/PredictionMarket#getCommitteeMember
+    local.tee $6
+    i32.load offset=8
+    i32.const 32
+    i32.ne
+    if
+     i32.const 2304
+     i32.const 5664
+     i32.const 220
+     i32.const 30
+     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+     unreachable
+    end
+    local.get $3
+    local.get $6
+    i32.load offset=4
+    local.tee $6
+    i64.load offset=24
+    call $~lib/polyfills/bswap<u64>
+    local.get $6
+    i64.load offset=16
+    call $~lib/polyfills/bswap<u64>
+    local.get $6
+    i64.load offset=8
+    call $~lib/polyfills/bswap<u64>
+    local.get $6
+    i64.load
+    call $~lib/polyfills/bswap<u64>
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    local.tee $6
+    local.get $3
+    local.get $6
+    call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+    i64.const 1
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+    call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#set
+    local.get $4
+    i32.const 1
+    i32.add
+    local.set $4
+    br $for-loop|0
+   end
+  end
+  local.get $0
+  i32.load16_u offset=436
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $1
+  local.get $0
+  i64.load
+  local.get $1
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $0
+   i64.load offset=8
+   local.get $1
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=16
+   local.get $1
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=24
+   local.get $1
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   local.get $3
+   local.get $0
+   local.get $3
+   local.get $0
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+   i64.const 1
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#set
+  end
+ )
+ (func $src/PredictionMarket/PredictionMarket#settleMarket (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  local.get $0
+  i32.load16_u offset=294
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  global.get $src/PredictionMarket/STATUS_RESOLVED
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  i32.load16_u offset=296
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  i32.load16_u offset=440
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.24 (result i32)
+   local.get $4
+   i32.const 255
+   i32.and
+   local.tee $5
+   i32.eqz
+   if
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.24
+   end
+   local.get $5
+   i32.const 1
+   i32.eq
+   if
+    i64.const 1
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.24
+   end
+   local.get $5
+   i64.extend_i32_u
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  end
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  i32.const 12
+  i32.const 55
+  call $~lib/rt/stub/__new
+  i32.const 65
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $5
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $5
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $5
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  i32.const 24352
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+  local.get $0
+  local.get $1
+  local.get $2
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#takeFees
+  local.get $0
+  local.get $1
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#releaseOracles
+ )
+ (func $src/PredictionMarket/PredictionMarket#finalizeMarket (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.tee $1
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.set $2
+  local.get $0
+  i32.load16_u offset=294
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.tee $3
+  i64.load
+  global.get $src/PredictionMarket/STATUS_PROPOSED
+  local.tee $4
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $3
+   i64.load offset=8
+   local.get $4
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $3
+   i64.load offset=16
+   local.get $4
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $3
+   i64.load offset=24
+   local.get $4
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 24176
+   i32.const 16656
+   i32.const 1470
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $3
+  i32.load offset=20
+  i32.eqz
+  if
+   i32.const 16736
+   i32.const 5168
+   i32.const 118
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $3
+  i32.load offset=20
+  local.tee $3
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 120
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $3
+  i64.load offset=8
+  local.get $0
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#getDisputeEndBlock
+  i64.lt_u
+  if
+   i32.const 24272
+   i32.const 16656
+   i32.const 1474
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $1
+  local.get $2
+  local.get $0
+  i32.load16_u offset=296
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.get $0
+  i32.load16_u offset=440
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  i64.load
+  i32.wrap_i64
+  call $src/PredictionMarket/PredictionMarket#settleMarket
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#getArbitrator (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  local.get $0
+  i32.load offset=356
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $1
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $2
+  local.get $1
+  i64.load
+  local.get $2
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $1
+   i64.load offset=8
+   local.get $2
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=16
+   local.get $2
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=24
+   local.get $2
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i32.load offset=284
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  else
+   local.get $1
+  end
+ )
+ (func $src/PredictionMarket/PredictionMarket#slashOracleStake (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  local.get $0
+  i32.load16_u offset=448
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.set $5
+  local.get $0
+  i32.load16_u offset=450
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.set $6
+  local.get $2
+  local.get $5
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  local.tee $7
+  local.get $2
+  local.get $7
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  select
+  local.set $3
+  local.get $6
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  local.set $4
+  local.get $2
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+  local.tee $2
+  local.get $4
+  local.get $2
+  local.get $4
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  select
+  local.set $2
+  local.get $5
+  local.get $1
+  local.get $7
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#set
+  local.get $6
+  local.get $1
+  local.get $4
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#set
+  local.get $3
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+  local.set $2
+  local.get $0
+  i32.load16_u offset=454
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.tee $0
+  local.get $1
+  local.get $0
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#set
+  local.get $2
+ )
+ (func $src/PredictionMarket/encodeOracleSlashedEvent (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  i32.const 96
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $3
+  local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
+  local.get $3
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $3
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $3
+ )
+ (func $src/PredictionMarket/OracleSlashed#constructor (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  i32.const 12
+  i32.const 57
+  call $~lib/rt/stub/__new
+  i32.const 24960
+  local.get $0
+  local.get $1
+  local.get $2
+  call $src/PredictionMarket/encodeOracleSlashedEvent
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+ )
+ (func $src/PredictionMarket/PredictionMarket#slashProposer (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  local.get $0
+  i32.load16_u offset=440
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  i64.load
+  i32.wrap_i64
+  local.set $3
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  drop
+  block $folding-inner0
+   local.get $3
+   i32.const 255
+   i32.and
+   i32.const 1
+   i32.eq
+   if (result i32)
+    local.get $0
+    i32.load16_u offset=292
+    local.get $2
+    call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+    call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+   else
+    local.get $3
+    i32.const 255
+    i32.and
+    i32.const 4
+    i32.ne
+    br_if $folding-inner0
+    local.get $0
+    i32.load16_u offset=436
+    local.get $2
+    call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+    call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+   end
+   local.set $2
+   local.get $0
+   i32.load16_u offset=448
+   global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+   local.get $2
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+   local.get $0
+   i32.load16_u offset=450
+   global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+   local.get $2
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+   call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+   global.get $src/PredictionMarket/ORACLE_DISPUTE_SLASH_BPS
+   call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.mul
+   global.get $src/PredictionMarket/BPS_DENOMINATOR
+   call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.div
+   local.set $3
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   local.set $4
+   local.get $3
+   i64.load
+   local.get $4
+   i64.load
+   i64.eq
+   if (result i32)
+    local.get $3
+    i64.load offset=8
+    local.get $4
+    i64.load offset=8
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $3
+    i64.load offset=16
+    local.get $4
+    i64.load offset=16
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $3
+    i64.load offset=24
+    local.get $4
+    i64.load offset=24
+    i64.eq
+   else
+    i32.const 0
+   end
+   br_if $folding-inner0
+   local.get $0
+   local.get $2
+   local.get $3
+   call $src/PredictionMarket/PredictionMarket#slashOracleStake
+   local.set $0
+   i32.const 0
+   i32.const 32
+   call $~lib/typedarray/Uint8Array#constructor
+   local.tee $3
+   i32.load offset=4
+   local.tee $4
+   local.get $2
+   i64.load offset=24
+   call $~lib/polyfills/bswap<u64>
+   i64.store
+   local.get $4
+   local.get $2
+   i64.load offset=16
+   call $~lib/polyfills/bswap<u64>
+   i64.store offset=8
+   local.get $4
+   local.get $2
+   i64.load offset=8
+   call $~lib/polyfills/bswap<u64>
+   i64.store offset=16
+   local.get $4
+   local.get $2
+   i64.load
+   call $~lib/polyfills/bswap<u64>
+   i64.store offset=24
+   local.get $3
+   call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address.fromUint8Array
+   local.get $0
+   local.get $1
+   call $src/PredictionMarket/OracleSlashed#constructor
+   call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+   local.get $0
+   return
+  end
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/shared-libraries/TransferHelper/TransferHelper.transfer (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  i32.const 68
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $3
+  i32.const 5792
+  call $~lib/@btc-vision/btc-runtime/runtime/math/abi/encodeSelector
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU32
+  local.get $3
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
+  local.get $3
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $0
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#call
+ )
+ (func $src/PredictionMarket/PredictionMarket#ruleDispute (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  local.get $0
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.tee $3
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.tee $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  call $src/PredictionMarket/PredictionMarket#toResolutionOutcome
+  local.set $1
+  local.get $0
+  i32.load16_u offset=294
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.tee $4
+  i64.load
+  global.get $src/PredictionMarket/STATUS_DISPUTED
+  local.tee $5
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $4
+   i64.load offset=8
+   local.get $5
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=16
+   local.get $5
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=24
+   local.get $5
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 24784
+   i32.const 16656
+   i32.const 1499
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $4
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $4
+  i32.load offset=24
+  local.tee $4
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $4
+  i32.load offset=4
+  local.tee $4
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $4
+  i32.load offset=4
+  local.tee $4
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  local.get $4
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  local.get $4
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  local.get $4
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $4
+  local.get $0
+  call $src/PredictionMarket/PredictionMarket#getArbitrator
+  local.set $5
+  local.get $4
+  i64.load
+  local.get $5
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $4
+   i64.load offset=8
+   local.get $5
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=16
+   local.get $5
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=24
+   local.get $5
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 24848
+   i32.const 16656
+   i32.const 1503
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=362
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $4
+  local.get $0
+  i32.load16_u offset=366
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $5
+  local.get $0
+  i32.load16_u offset=368
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $6
+  local.get $1
+  i64.load
+  local.get $5
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $1
+   i64.load offset=8
+   local.get $5
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=16
+   local.get $5
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=24
+   local.get $5
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  local.set $5
+  local.get $1
+  i64.load
+  local.get $4
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $1
+   i64.load offset=8
+   local.get $4
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=16
+   local.get $4
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=24
+   local.get $4
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   local.get $0
+   i32.load offset=332
+   local.get $0
+   i32.load offset=332
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+   local.get $6
+   call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  else
+   local.get $0
+   i32.load16_u offset=364
+   local.get $2
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+   local.set $7
+   i32.const 0
+   i32.const 32
+   call $~lib/typedarray/Uint8Array#constructor
+   local.tee $8
+   i32.load offset=4
+   local.tee $4
+   local.get $7
+   i64.load offset=24
+   call $~lib/polyfills/bswap<u64>
+   i64.store
+   local.get $4
+   local.get $7
+   i64.load offset=16
+   call $~lib/polyfills/bswap<u64>
+   i64.store offset=8
+   local.get $4
+   local.get $7
+   i64.load offset=8
+   call $~lib/polyfills/bswap<u64>
+   i64.store offset=16
+   local.get $4
+   local.get $7
+   i64.load
+   call $~lib/polyfills/bswap<u64>
+   i64.store offset=24
+   local.get $8
+   call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address.fromUint8Array
+   local.set $4
+   local.get $0
+   local.get $3
+   local.get $2
+   call $src/PredictionMarket/PredictionMarket#slashProposer
+   local.set $7
+   local.get $5
+   if
+    local.get $0
+    call $src/PredictionMarket/PredictionMarket#getCollateralToken
+    local.get $4
+    local.get $6
+    local.get $7
+    call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+    call $~lib/@btc-vision/btc-runtime/runtime/shared-libraries/TransferHelper/TransferHelper.transfer
+   else
+    local.get $0
+    i32.load offset=332
+    local.get $0
+    i32.load offset=332
+    call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+    local.get $7
+    call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+    call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+    local.get $0
+    call $src/PredictionMarket/PredictionMarket#getCollateralToken
+    local.get $4
+    local.get $6
+    call $~lib/@btc-vision/btc-runtime/runtime/shared-libraries/TransferHelper/TransferHelper.transfer
+   end
+  end
+  i32.const 12
+  i32.const 58
+  call $~lib/rt/stub/__new
+  i32.const 65
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $6
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $6
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $6
+  local.get $5
+  i32.eqz
+  i32.eqz
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  i32.const 25008
+  local.get $6
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+  local.get $0
+  local.get $3
+  local.get $2
+  local.get $1
+  i32.const 6
+  call $src/PredictionMarket/PredictionMarket#settleMarket
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#assertSellable (param $0 i32) (param $1 i32) (param $2 i32)
+  local.get $0
+  local.get $1
+  call $src/PredictionMarket/PredictionMarket#isScalar
+  if
+   i32.const 25056
+   i32.const 16656
+   i32.const 3303
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $1
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#assertValidOutcome
+ )
+ (func $src/PredictionMarket/PredictionMarket#getUserStake (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32) (result i32)
+  local.get $0
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#isCategorical
+  i32.eqz
+  if
+   local.get $3
+   i64.load
+   global.get $src/PredictionMarket/OUTCOME_YES
+   local.tee $1
+   i64.load
+   i64.eq
+   if (result i32)
+    local.get $3
+    i64.load offset=8
+    local.get $1
+    i64.load offset=8
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $3
+    i64.load offset=16
+    local.get $1
+    i64.load offset=16
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $3
+    i64.load offset=24
+    local.get $1
+    i64.load offset=24
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $0
+    i32.load16_u offset=302
+   else
+    local.get $0
+    i32.load16_u offset=304
+   end
+   local.get $2
+   local.get $4
+   call $src/PredictionMarket/PredictionMarket#getUserBet
+   return
+  end
+  local.get $0
+  i32.load16_u offset=320
+  local.get $1
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#toOutcomeSubPointer
+  local.get $4
+  call $src/PredictionMarket/PredictionMarket#getUserBet
+ )
+ (func $src/PredictionMarket/PredictionMarket#getSellQuote (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32) (result i32)
+  (local $5 i32)
+  local.get $0
+  local.get $1
+  local.get $2
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#getOutcomePoolStore
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $5
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $3
+  local.get $4
+  i64.load
+  local.get $3
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $4
+   i64.load offset=8
+   local.get $3
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=16
+   local.get $3
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=24
+   local.get $3
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   i32.const 1
+  else
+   local.get $5
+   local.get $4
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  end
+  if
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   return
+  end
+  local.get $0
+  local.get $1
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#getTotalPool
+  local.tee $0
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+  local.set $1
+  global.get $src/PredictionMarket/MAX_EXIT_SPREAD_BPS
+  global.get $src/PredictionMarket/MIN_EXIT_SPREAD_BPS
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.mul
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.div
+  local.set $2
+  global.get $src/PredictionMarket/MIN_EXIT_SPREAD_BPS
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+  local.set $2
+  local.get $4
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.mul
+  global.get $src/PredictionMarket/BPS_DENOMINATOR
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.mul
+  local.get $0
+  global.get $src/PredictionMarket/BPS_DENOMINATOR
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.mul
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.div
+ )
+ (func $src/PredictionMarket/PredictionMarket#setUserStake (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32) (param $5 i32)
+  local.get $0
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#isCategorical
+  i32.eqz
+  if
+   local.get $3
+   i64.load
+   global.get $src/PredictionMarket/OUTCOME_YES
+   local.tee $1
+   i64.load
+   i64.eq
+   if (result i32)
+    local.get $3
+    i64.load offset=8
+    local.get $1
+    i64.load offset=8
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $3
+    i64.load offset=16
+    local.get $1
+    i64.load offset=16
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $3
+    i64.load offset=24
+    local.get $1
+    i64.load offset=24
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $0
+    i32.load16_u offset=302
+   else
+    local.get $0
+    i32.load16_u offset=304
+   end
+   local.get $2
+   local.get $4
+   local.get $5
+   call $src/PredictionMarket/PredictionMarket#setUserBet
+   return
+  end
+  local.get $0
+  i32.load16_u offset=320
+  local.get $1
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#toOutcomeSubPointer
+  local.get $4
+  local.get $5
+  call $src/PredictionMarket/PredictionMarket#setUserBet
+ )
+ (func $src/PredictionMarket/PredictionMarket#sellPosition (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $3
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $4
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $7
+  local.get $0
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.tee $1
+  local.get $4
+  call $src/PredictionMarket/PredictionMarket#assertSellable
+  local.get $0
+  i32.load16_u offset=294
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.tee $5
+  i64.load
+  global.get $src/PredictionMarket/STATUS_OPEN
+  local.tee $6
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $5
+   i64.load offset=8
+   local.get $6
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $5
+   i64.load offset=16
+   local.get $6
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $5
+   i64.load offset=24
+   local.get $6
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 20096
+   i32.const 16656
+   i32.const 1557
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $5
+  i32.load offset=20
+  i32.eqz
+  if
+   i32.const 16736
+   i32.const 5168
+   i32.const 118
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $5
+  i32.load offset=20
+  local.tee $5
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 120
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $5
+  i64.load offset=8
+  local.get $0
+  i32.load16_u offset=290
+  local.get $1
+  call $src/PredictionMarket/PredictionMarket#getMarketBlock
+  i64.ge_u
+  if
+   i32.const 20160
+   i32.const 16656
+   i32.const 1561
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $5
+  local.get $2
+  i64.load
+  local.get $5
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $2
+   i64.load offset=8
+   local.get $5
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $2
+   i64.load offset=16
+   local.get $5
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $2
+   i64.load offset=24
+   local.get $5
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   i32.const 25152
+   i32.const 16656
+   i32.const 1565
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $5
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $5
+  i32.load offset=24
+  local.tee $5
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $3
+  local.get $1
+  local.get $4
+  local.get $5
+  i32.load offset=4
+  local.tee $8
+  call $src/PredictionMarket/PredictionMarket#getUserStake
+  local.tee $9
+  local.get $2
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  if
+   i32.const 25248
+   i32.const 16656
+   i32.const 1571
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $3
+  local.get $1
+  local.get $4
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#getSellQuote
+  local.set $5
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $6
+  local.get $5
+  i64.load
+  local.get $6
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $5
+   i64.load offset=8
+   local.get $6
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $5
+   i64.load offset=16
+   local.get $6
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $5
+   i64.load offset=24
+   local.get $6
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   i32.const 25328
+   i32.const 16656
+   i32.const 1576
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $5
+  local.get $7
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  if
+   i32.const 25392
+   i32.const 16656
+   i32.const 1580
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $3
+  local.get $1
+  local.get $4
+  call $src/PredictionMarket/PredictionMarket#getOutcomePoolStore
+  local.tee $6
+  local.get $6
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  local.get $3
+  local.get $1
+  local.get $4
+  local.get $8
+  local.get $9
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+  call $src/PredictionMarket/PredictionMarket#setUserStake
+  local.get $0
+  i32.load16_u offset=380
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  local.tee $1
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.get $2
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  call $src/PredictionMarket/PredictionMarket#getCollateralToken
+  local.get $8
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/shared-libraries/TransferHelper/TransferHelper.transfer
+  i32.const 12
+  i32.const 59
+  call $~lib/rt/stub/__new
+  i32.const 160
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $1
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $8
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
+  local.get $1
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  i32.const 25472
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+  i32.const 32
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#moveStake (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32) (param $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  local.get $0
+  local.get $1
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.tee $6
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#assertValidOutcome
+  local.get $0
+  i32.load16_u offset=294
+  local.get $6
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $7
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $8
+  local.get $7
+  i64.load
+  local.get $8
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $7
+   i64.load offset=8
+   local.get $8
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $7
+   i64.load offset=16
+   local.get $8
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $7
+   i64.load offset=24
+   local.get $8
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   i32.const 25520
+   i32.const 16656
+   i32.const 3329
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#isZero@override
+  if
+   i32.const 25584
+   i32.const 16656
+   i32.const 3333
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $4
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#equals
+  if
+   i32.const 25648
+   i32.const 16656
+   i32.const 3337
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $6
+  call $src/PredictionMarket/PredictionMarket#isPrivate
+  if (result i32)
+   local.get $0
+   local.get $6
+   local.get $4
+   call $src/PredictionMarket/PredictionMarket#isAllowlistMember
+  else
+   i32.const 1
+  end
+  i32.eqz
+  if
+   i32.const 25760
+   i32.const 16656
+   i32.const 3341
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $7
+  local.get $5
+  i64.load
+  local.get $7
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $5
+   i64.load offset=8
+   local.get $7
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $5
+   i64.load offset=16
+   local.get $7
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $5
+   i64.load offset=24
+   local.get $7
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   i32.const 25152
+   i32.const 16656
+   i32.const 3345
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=306
+  local.get $6
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#getUserBet
+  local.set $7
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $8
+  local.get $7
+  i64.load
+  local.get $8
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $7
+   i64.load offset=8
+   local.get $8
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $7
+   i64.load offset=16
+   local.get $8
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $7
+   i64.load offset=24
+   local.get $8
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 25872
+   i32.const 16656
+   i32.const 3349
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=306
+  local.get $6
+  local.get $4
+  call $src/PredictionMarket/PredictionMarket#getUserBet
+  local.set $7
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $8
+  local.get $7
+  i64.load
+  local.get $8
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $7
+   i64.load offset=8
+   local.get $8
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $7
+   i64.load offset=16
+   local.get $8
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $7
+   i64.load offset=24
+   local.get $8
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 25968
+   i32.const 16656
+   i32.const 3353
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $1
+  local.get $6
+  local.get $2
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#getUserStake
+  local.tee $7
+  local.get $5
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  if
+   i32.const 26080
+   i32.const 16656
+   i32.const 3358
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $1
+  local.get $6
+  local.get $2
+  local.get $3
+  local.get $7
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+  call $src/PredictionMarket/PredictionMarket#setUserStake
+  local.get $0
+  local.get $1
+  local.get $6
+  local.get $2
+  local.get $4
+  local.get $5
+  call $src/PredictionMarket/PredictionMarket#addUserStake
+  local.get $0
+  local.get $1
+  local.get $6
+  local.get $4
+  call $src/PredictionMarket/PredictionMarket#indexBettor
+  i32.const 12
+  i32.const 60
+  call $~lib/rt/stub/__new
+  i32.const 160
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $6
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $6
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
+  local.get $6
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
+  local.get $6
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $6
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  i32.const 26160
+  local.get $6
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+ )
+ (func $src/PredictionMarket/PredictionMarket#toOperatorKey (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  i32.const 0
+  i32.const 64
+  call $~lib/typedarray/Uint8Array#constructor
+  local.tee $2
+  local.get $0
+  i32.const 0
+  call $~lib/typedarray/Uint8Array#set<~lib/typedarray/Uint8Array>
+  local.get $2
+  local.get $1
+  i32.const 32
+  call $~lib/typedarray/Uint8Array#set<~lib/typedarray/Uint8Array>
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/env/global/sha256
+  local.tee $0
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load offset=4
+  local.tee $0
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  local.get $0
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  local.get $0
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  local.get $0
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+ )
+ (func $src/PredictionMarket/PredictionMarket#hasPositionOperator (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  local.get $0
+  i32.load16_u offset=382
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.get $1
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#toOperatorKey
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  local.set $0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $1
+  local.get $0
+  i64.load
+  local.get $1
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $0
+   i64.load offset=8
+   local.get $1
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=16
+   local.get $1
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=24
+   local.get $1
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+ )
+ (func $src/PredictionMarket/PredictionMarket#setPositionOperator (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+  local.set $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU8
+  i32.const 0
+  i32.ne
+  local.set $1
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $3
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $3
+  i32.load offset=24
+  local.tee $3
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $3
+  i32.load offset=4
+  local.set $3
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#isZero@override
+  if (result i32)
+   i32.const 1
+  else
+   local.get $2
+   local.get $3
+   call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#equals
+  end
+  if
+   i32.const 26336
+   i32.const 16656
+   i32.const 1661
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=382
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.get $3
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#toOperatorKey
+  local.get $1
+  if (result i32)
+   i64.const 1
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  else
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  end
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#set
+  i32.const 12
+  i32.const 61
+  call $~lib/rt/stub/__new
+  i32.const 65
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
+  local.get $0
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
+  local.get $0
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  i32.const 26400
+  local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#getScalarPayout (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (param $4 i32) (result i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  local.get $4
+  local.get $0
+  local.get $1
+  local.get $2
+  local.get $4
+  call $src/PredictionMarket/PredictionMarket#getScalarLongShare
+  local.tee $5
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+  local.set $6
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $4
+  local.get $0
+  local.get $1
+  local.get $2
+  global.get $src/PredictionMarket/OUTCOME_YES
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#getUserStake
+  local.set $7
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $8
+  local.get $7
+  i64.load
+  local.get $8
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $7
+   i64.load offset=8
+   local.get $8
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $7
+   i64.load offset=16
+   local.get $8
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $7
+   i64.load offset=24
+   local.get $8
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   local.get $0
+   local.get $1
+   local.get $2
+   global.get $src/PredictionMarket/OUTCOME_YES
+   call $src/PredictionMarket/PredictionMarket#getOutcomePoolStore
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+   local.set $4
+   local.get $7
+   local.get $5
+   call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.mul
+   local.get $4
+   call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.div
+   local.set $4
+  end
+  local.get $0
+  local.get $1
+  local.get $2
+  global.get $src/PredictionMarket/OUTCOME_NO
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#getUserStake
+  local.set $3
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $5
+  local.get $3
+  i64.load
+  local.get $5
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $3
+   i64.load offset=8
+   local.get $5
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $3
+   i64.load offset=16
+   local.get $5
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $3
+   i64.load offset=24
+   local.get $5
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+  else
+   local.get $0
+   local.get $1
+   local.get $2
+   global.get $src/PredictionMarket/OUTCOME_NO
+   call $src/PredictionMarket/PredictionMarket#getOutcomePoolStore
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+   local.set $0
+   local.get $4
+   local.get $3
+   local.get $6
+   call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.mul
+   local.get $0
+   call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.div
+   call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+  end
+ )
+ (func $src/PredictionMarket/PredictionMarket#getUserTotalStake (param $0 i32) (param $1 i32) (param $2 i32) (param $3 i32) (result i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  local.get $0
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#getOutcomeCount
+  i64.load
+  i32.wrap_i64
+  local.set $6
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $5
+  i32.const 1
+  local.set $4
+  loop $for-loop|0
+   local.get $4
+   local.get $6
+   i32.le_u
+   if
+    local.get $5
+    local.get $0
+    local.get $1
+    local.get $2
+    block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.25 (result i32)
+     local.get $4
+     i32.eqz
+     if
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+      br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.25
+     end
+     local.get $4
+     i32.const 1
+     i32.eq
+     if
+      i64.const 1
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+      br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.25
+     end
+     local.get $4
+     i64.extend_i32_u
+     i64.const 0
+     i64.const 0
+     i64.const 0
+     call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    end
+    local.get $3
+    call $src/PredictionMarket/PredictionMarket#getUserStake
+    call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+    local.set $5
+    local.get $4
+    i32.const 1
+    i32.add
+    local.set $4
+    br $for-loop|0
+   end
+  end
+  local.get $5
+ )
+ (func $src/PredictionMarket/PredictionMarket#claimWinnings (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.tee $3
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.set $2
+  local.get $0
+  i32.load16_u offset=294
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.tee $1
+  i64.load
+  global.get $src/PredictionMarket/STATUS_RESOLVED
+  local.tee $4
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $1
+   i64.load offset=8
+   local.get $4
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=16
+   local.get $4
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=24
+   local.get $4
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 26464
+   i32.const 16656
+   i32.const 1683
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $1
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  i32.load offset=24
+  local.tee $1
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=306
+  local.get $2
+  local.get $1
+  i32.load offset=4
+  local.tee $4
+  call $src/PredictionMarket/PredictionMarket#getUserBet
+  local.set $1
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $5
+  local.get $1
+  i64.load
+  local.get $5
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $1
+   i64.load offset=8
+   local.get $5
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=16
+   local.get $5
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=24
+   local.get $5
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 26544
+   i32.const 16656
+   i32.const 1689
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $3
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#getTotalPool
+  local.get $0
+  i32.load16_u offset=380
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+  local.get $0
+  i32.load16_u offset=340
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.get $0
+  i32.load16_u offset=342
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+  local.set $1
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  drop
+  local.get $0
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#isScalar
+  if
+   local.get $0
+   local.get $3
+   local.get $2
+   local.get $4
+   local.get $1
+   call $src/PredictionMarket/PredictionMarket#getScalarPayout
+   local.set $1
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   local.set $5
+   local.get $1
+   i64.load
+   local.get $5
+   i64.load
+   i64.eq
+   if (result i32)
+    local.get $1
+    i64.load offset=8
+    local.get $5
+    i64.load offset=8
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $1
+    i64.load offset=16
+    local.get $5
+    i64.load offset=16
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $1
+    i64.load offset=24
+    local.get $5
+    i64.load offset=24
+    i64.eq
+   else
+    i32.const 0
+   end
+   if
+    i32.const 26608
+    i32.const 16656
+    i32.const 1699
+    i32.const 17
+    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+    unreachable
+   end
+  else
+   local.get $0
+   local.get $3
+   local.get $2
+   local.get $0
+   i32.load16_u offset=296
+   local.get $2
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+   local.tee $5
+   call $src/PredictionMarket/PredictionMarket#getOutcomePoolStore
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+   local.set $6
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   local.set $7
+   local.get $6
+   i64.load
+   local.get $7
+   i64.load
+   i64.eq
+   if (result i32)
+    local.get $6
+    i64.load offset=8
+    local.get $7
+    i64.load offset=8
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $6
+    i64.load offset=16
+    local.get $7
+    i64.load offset=16
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $6
+    i64.load offset=24
+    local.get $7
+    i64.load offset=24
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $0
+    local.get $3
+    local.get $2
+    local.get $4
+    call $src/PredictionMarket/PredictionMarket#getUserTotalStake
+    local.set $5
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    local.set $6
+    local.get $5
+    i64.load
+    local.get $6
+    i64.load
+    i64.eq
+    if (result i32)
+     local.get $5
+     i64.load offset=8
+     local.get $6
+     i64.load offset=8
+     i64.eq
+    else
+     i32.const 0
+    end
+    if (result i32)
+     local.get $5
+     i64.load offset=16
+     local.get $6
+     i64.load offset=16
+     i64.eq
+    else
+     i32.const 0
+    end
+    if (result i32)
+     local.get $5
+     i64.load offset=24
+     local.get $6
+     i64.load offset=24
+     i64.eq
+    else
+     i32.const 0
+    end
+    if
+     i32.const 26672
+     i32.const 16656
+     i32.const 1709
+     i32.const 21
+     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+     unreachable
+    end
+    local.get $5
+    local.get $1
+    call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.mul
+    local.get $0
+    local.get $3
+    local.get $2
+    call $src/PredictionMarket/PredictionMarket#getTotalPool
+    call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.div
+   else
+    local.get $0
+    local.get $3
+    local.get $2
+    local.get $5
+    local.get $4
+    call $src/PredictionMarket/PredictionMarket#getUserStake
+    local.set $5
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    local.set $7
+    local.get $5
+    i64.load
+    local.get $7
+    i64.load
+    i64.eq
+    if (result i32)
+     local.get $5
+     i64.load offset=8
+     local.get $7
+     i64.load offset=8
+     i64.eq
+    else
+     i32.const 0
+    end
+    if (result i32)
+     local.get $5
+     i64.load offset=16
+     local.get $7
+     i64.load offset=16
+     i64.eq
+    else
+     i32.const 0
+    end
+    if (result i32)
+     local.get $5
+     i64.load offset=24
+     local.get $7
+     i64.load offset=24
+     i64.eq
+    else
+     i32.const 0
+    end
+    if
+     i32.const 26608
+     i32.const 16656
+     i32.const 1715
+     i32.const 21
+     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+     unreachable
+    end
+    local.get $5
+    local.get $1
+    call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.mul
+    local.get $6
+    call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.div
+   end
+   local.set $1
+  end
+  local.get $0
+  i32.load16_u offset=306
+  local.get $2
+  local.get $4
+  i64.const 1
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  call $src/PredictionMarket/PredictionMarket#setUserBet
+  local.get $0
+  call $src/PredictionMarket/PredictionMarket#getCollateralToken
+  local.get $4
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/shared-libraries/TransferHelper/TransferHelper.transfer
+  i32.const 12
+  i32.const 62
+  call $~lib/rt/stub/__new
+  i32.const 26736
+  local.get $3
+  local.get $4
+  local.get $1
+  call $src/PredictionMarket/encodeOracleVotedEvent
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+  i32.const 32
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#getCancelGracePeriod (param $0 i32) (result i64)
+  (local $1 i64)
+  local.get $0
+  i32.load16_u offset=322
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#constructor
+  local.tee $0
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#ensureValues
+  i64.const 1008
+  local.get $0
+  i32.load offset=4
+  i32.const 0
+  call $~lib/array/Array<u64>#__get
+  local.tee $1
+  local.get $1
+  i64.eqz
+  select
+ )
+ (func $src/PredictionMarket/PredictionMarket#cancelMarket (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i64)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.tee $1
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.set $3
+  local.get $0
+  i32.load16_u offset=294
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.tee $4
+  i64.load
+  global.get $src/PredictionMarket/STATUS_OPEN
+  local.tee $5
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $4
+   i64.load offset=8
+   local.get $5
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=16
+   local.get $5
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=24
+   local.get $5
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 20096
+   i32.const 16656
+   i32.const 1741
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $4
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $4
+  i32.load offset=24
+  local.tee $4
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $4
+  i32.load offset=4
+  local.set $4
+  local.get $0
+  i32.load16_u offset=292
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $5
+  local.get $4
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $4
+  i32.load offset=4
+  local.tee $6
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  local.get $6
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  local.get $6
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  local.get $6
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.tee $6
+  i64.load
+  local.get $5
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $6
+   i64.load offset=8
+   local.get $5
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $6
+   i64.load offset=16
+   local.get $5
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $6
+   i64.load offset=24
+   local.get $5
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   local.get $0
+   i32.load16_u offset=432
+   local.get $3
+   call $src/PredictionMarket/PredictionMarket#getMarketBlock
+   local.get $0
+   call $src/PredictionMarket/PredictionMarket#getCancelGracePeriod
+   call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add64
+   local.set $2
+   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+   local.tee $5
+   i32.load offset=20
+   i32.eqz
+   if
+    i32.const 16736
+    i32.const 5168
+    i32.const 118
+    i32.const 13
+    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+    unreachable
+   end
+   local.get $5
+   i32.load offset=20
+   local.tee $5
+   i32.eqz
+   if
+    i32.const 14672
+    i32.const 5168
+    i32.const 120
+    i32.const 16
+    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+    unreachable
+   end
+   local.get $5
+   i64.load offset=8
+   local.get $2
+   i64.lt_u
+   if
+    i32.const 26800
+    i32.const 16656
+    i32.const 1754
+    i32.const 17
+    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+    unreachable
+   end
+  end
+  local.get $0
+  i32.load16_u offset=294
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  global.get $src/PredictionMarket/STATUS_CANCELLED
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  local.get $1
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#releaseOracles
+  local.get $0
+  i32.load16_u offset=380
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $3
+  local.get $0
+  i32.load offset=332
+  local.get $0
+  i32.load offset=332
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  i32.const 12
+  i32.const 63
+  call $~lib/rt/stub/__new
+  i32.const 64
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $3
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $3
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
+  i32.const 26944
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#claimRefund (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.tee $1
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.set $2
+  local.get $0
+  i32.load16_u offset=294
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.tee $3
+  i64.load
+  global.get $src/PredictionMarket/STATUS_CANCELLED
+  local.tee $4
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $3
+   i64.load offset=8
+   local.get $4
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $3
+   i64.load offset=16
+   local.get $4
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $3
+   i64.load offset=24
+   local.get $4
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 27008
+   i32.const 16656
+   i32.const 1782
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $3
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $3
+  i32.load offset=24
+  local.tee $3
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=306
+  local.get $2
+  local.get $3
+  i32.load offset=4
+  local.tee $3
+  call $src/PredictionMarket/PredictionMarket#getUserBet
+  local.set $4
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $5
+  local.get $4
+  i64.load
+  local.get $5
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $4
+   i64.load offset=8
+   local.get $5
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=16
+   local.get $5
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=24
+   local.get $5
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 26544
+   i32.const 16656
+   i32.const 1788
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $1
+  local.get $2
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#getUserTotalStake
+  local.set $4
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $5
+  local.get $4
+  i64.load
+  local.get $5
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $4
+   i64.load offset=8
+   local.get $5
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=16
+   local.get $5
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=24
+   local.get $5
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   i32.const 26672
+   i32.const 16656
+   i32.const 1794
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=306
+  local.get $2
+  local.get $3
+  i64.const 1
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  call $src/PredictionMarket/PredictionMarket#setUserBet
+  local.get $0
+  call $src/PredictionMarket/PredictionMarket#getCollateralToken
+  local.get $3
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/shared-libraries/TransferHelper/TransferHelper.transfer
+  i32.const 12
+  i32.const 64
+  call $~lib/rt/stub/__new
+  i32.const 27088
+  local.get $1
+  local.get $3
+  local.get $4
+  call $src/PredictionMarket/encodeOracleVotedEvent
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+  i32.const 32
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#setCancelGracePeriod (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i64)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
+  local.set $2
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $1
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  i32.load offset=24
+  local.tee $1
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $1
+  i32.load offset=4
+  call $src/PredictionMarket/PredictionMarket#isOwner
+  i32.eqz
+  if
+   i32.const 27136
+   i32.const 16656
+   i32.const 1814
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $2
+  i64.eqz
+  if
+   i32.const 27248
+   i32.const 16656
+   i32.const 1818
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=322
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#constructor
+  local.tee $0
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#ensureValues
+  local.get $0
+  i32.load offset=4
+  i32.const 0
+  call $~lib/array/Array<u64>#__get
+  local.get $2
+  i64.ne
+  if
+   local.get $0
+   i32.load offset=4
+   i32.const 0
+   local.get $2
+   call $~lib/array/Array<u64>#__set
+   local.get $0
+   i32.const 1
+   i32.store8 offset=9
+  end
+  local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#save
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#setResolutionTimeout (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i64)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
+  local.set $2
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $1
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  i32.load offset=24
+  local.tee $1
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $1
+  i32.load offset=4
+  call $src/PredictionMarket/PredictionMarket#isOwner
+  i32.eqz
+  if
+   i32.const 27344
+   i32.const 16656
+   i32.const 1837
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $2
+  i64.eqz
+  if
+   i32.const 27456
+   i32.const 16656
+   i32.const 1841
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=434
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#constructor
+  local.tee $0
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#ensureValues
+  local.get $0
+  i32.load offset=4
+  i32.const 0
+  call $~lib/array/Array<u64>#__get
+  local.get $2
+  i64.ne
+  if
+   local.get $0
+   i32.load offset=4
+   i32.const 0
+   local.get $2
+   call $~lib/array/Array<u64>#__set
+   local.get $0
+   i32.const 1
+   i32.store8 offset=9
+  end
+  local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#save
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $0
+ )
+ (func $src/PredictionMarket/encodeProtocolFeeUpdatedEvent (param $0 i32) (result i32)
+  (local $1 i32)
+  i32.const 32
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $1
+  local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+ )
+ (func $src/PredictionMarket/encodeFeesWithdrawnEvent (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  i32.const 64
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $2
+  local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
+  local.get $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $2
+ )
+ (func $src/PredictionMarket/PredictionMarket#withdrawFees (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $1
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  i32.load offset=24
+  local.tee $1
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  i32.load offset=4
+  local.set $2
+  local.get $0
+  i32.load16_u offset=344
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.set $3
+  local.get $2
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $3
+  local.get $2
+  i32.load offset=4
+  local.tee $1
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  local.get $1
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  local.get $1
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  local.get $1
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.tee $4
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  local.set $1
+  local.get $3
+  local.get $4
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#set
+  local.get $0
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#isOwner
+  if
+   local.get $1
+   local.get $0
+   i32.load offset=332
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+   call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+   local.set $1
+   local.get $0
+   i32.load offset=332
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  end
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $3
+  local.get $1
+  i64.load
+  local.get $3
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $1
+   i64.load offset=8
+   local.get $3
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=16
+   local.get $3
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=24
+   local.get $3
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   i32.const 27824
+   i32.const 16656
+   i32.const 1896
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  call $src/PredictionMarket/PredictionMarket#getCollateralToken
+  local.get $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/shared-libraries/TransferHelper/TransferHelper.transfer
+  i32.const 12
+  i32.const 66
+  call $~lib/rt/stub/__new
+  i32.const 27888
+  local.get $2
+  local.get $1
+  call $src/PredictionMarket/encodeFeesWithdrawnEvent
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+  i32.const 32
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#setDisputeWindow (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i64)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
+  local.set $2
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $1
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  i32.load offset=24
+  local.tee $1
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $1
+  i32.load offset=4
+  call $src/PredictionMarket/PredictionMarket#isOwner
+  i32.eqz
+  if
+   i32.const 27936
+   i32.const 16656
+   i32.const 1914
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $2
+  i64.eqz
+  if
+   i32.const 28048
+   i32.const 16656
+   i32.const 1918
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=346
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#constructor
+  local.tee $0
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#ensureValues
+  local.get $0
+  i32.load offset=4
+  i32.const 0
+  call $~lib/array/Array<u64>#__get
+  local.get $2
+  i64.ne
+  if
+   local.get $0
+   i32.load offset=4
+   i32.const 0
+   local.get $2
+   call $~lib/array/Array<u64>#__set
+   local.get $0
+   i32.const 1
+   i32.store8 offset=9
+  end
+  local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU64/StoredU64#save
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#setDisputeBond (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $1
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $2
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $2
+  i32.load offset=24
+  local.tee $2
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $2
+  i32.load offset=4
+  call $src/PredictionMarket/PredictionMarket#isOwner
+  i32.eqz
+  if
+   i32.const 28160
+   i32.const 16656
+   i32.const 1936
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $2
+  local.get $1
+  i64.load
+  local.get $2
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $1
+   i64.load offset=8
+   local.get $2
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=16
+   local.get $2
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=24
+   local.get $2
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   i32.const 28272
+   i32.const 16656
+   i32.const 1940
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load offset=352
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#setPaused (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU8
+  i32.const 0
+  i32.ne
+  local.set $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU8
+  i32.const 0
+  i32.ne
+  local.set $1
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $3
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $3
+  i32.load offset=24
+  local.tee $3
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $3
+  i32.load offset=4
+  call $src/PredictionMarket/PredictionMarket#isOwner
+  i32.eqz
+  if
+   i32.const 28464
+   i32.const 16656
+   i32.const 1978
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load offset=404
+  local.get $2
+  if (result i32)
+   i64.const 1
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  else
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  end
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  i32.load offset=408
+  local.get $1
+  if (result i32)
+   i64.const 1
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  else
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  end
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  i32.const 12
+  i32.const 67
+  call $~lib/rt/stub/__new
+  i32.const 2
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $3
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $3
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  i32.const 28560
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $0
+ )
+ (func $src/PredictionMarket/encodeOwnershipTransferStartedEvent (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  i32.const 64
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $2
+  local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
+  local.get $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
+  local.get $2
+ )
+ (func $src/PredictionMarket/PredictionMarket#transferOwnership (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+  local.set $1
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $2
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $2
+  i32.load offset=24
+  local.tee $2
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $2
+  i32.load offset=4
+  local.tee $2
+  call $src/PredictionMarket/PredictionMarket#isOwner
+  i32.eqz
+  if
+   i32.const 28608
+   i32.const 16656
+   i32.const 2000
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#isZero@override
+  if (result i32)
+   i32.const 0
+  else
+   local.get $0
+   local.get $1
+   call $src/PredictionMarket/PredictionMarket#isOwner
+  end
+  if
+   i32.const 28704
+   i32.const 16656
+   i32.const 2004
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load offset=412
+  local.get $1
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  i32.load offset=4
+  local.tee $0
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  local.get $0
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  local.get $0
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  local.get $0
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  i32.const 12
+  i32.const 68
+  call $~lib/rt/stub/__new
+  i32.const 28784
+  local.get $2
+  local.get $1
+  call $src/PredictionMarket/encodeOwnershipTransferStartedEvent
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#acceptOwnership (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $1
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  i32.load offset=24
+  local.tee $1
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  i32.load offset=4
+  local.tee $1
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  i32.load offset=4
+  local.tee $2
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  local.get $2
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  local.get $2
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  local.get $2
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $3
+  local.get $0
+  i32.load offset=412
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $2
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $4
+  local.get $2
+  i64.load
+  local.get $4
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $2
+   i64.load offset=8
+   local.get $4
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $2
+   i64.load offset=16
+   local.get $4
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $2
+   i64.load offset=24
+   local.get $4
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   i32.const 0
+  else
+   local.get $2
+   i64.load
+   local.get $3
+   i64.load
+   i64.eq
+   if (result i32)
+    local.get $2
+    i64.load offset=8
+    local.get $3
+    i64.load offset=8
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $2
+    i64.load offset=16
+    local.get $3
+    i64.load offset=16
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $2
+    i64.load offset=24
+    local.get $3
+    i64.load offset=24
+    i64.eq
+   else
+    i32.const 0
+   end
+  end
+  i32.eqz
+  if
+   i32.const 28864
+   i32.const 16656
+   i32.const 2027
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load offset=284
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $4
+  i32.const 0
+  i32.const 32
+  call $~lib/typedarray/Uint8Array#constructor
+  local.tee $5
+  i32.load offset=4
+  local.tee $2
+  local.get $4
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  i64.store
+  local.get $2
+  local.get $4
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=8
+  local.get $2
+  local.get $4
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=16
+  local.get $2
+  local.get $4
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  i64.store offset=24
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address.fromUint8Array
+  local.set $2
+  local.get $0
+  i32.load offset=284
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $0
+  i32.load offset=412
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  i32.const 12
+  i32.const 69
+  call $~lib/rt/stub/__new
+  i32.const 28976
+  local.get $2
+  local.get $1
+  call $src/PredictionMarket/encodeOwnershipTransferStartedEvent
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#setMaxMarkets (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $1
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $2
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $2
+  i32.load offset=24
+  local.tee $2
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $2
+  i32.load offset=4
+  call $src/PredictionMarket/PredictionMarket#isOwner
+  i32.eqz
+  if
+   i32.const 29040
+   i32.const 16656
+   i32.const 2048
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $2
+  local.get $1
+  i64.load
+  local.get $2
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $1
+   i64.load offset=8
+   local.get $2
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=16
+   local.get $2
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=24
+   local.get $2
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   i32.const 29136
+   i32.const 16656
+   i32.const 2052
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  local.get $0
+  i32.load offset=280
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  if
+   i32.const 29232
+   i32.const 16656
+   i32.const 2056
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load offset=416
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  i32.const 12
+  i32.const 70
+  call $~lib/rt/stub/__new
+  i32.const 29344
+  local.get $1
+  call $src/PredictionMarket/encodeProtocolFeeUpdatedEvent
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#setPriceSigner (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readExtendedAddress
+  local.set $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU8
+  i32.const 0
+  i32.ne
+  local.set $3
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $1
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  i32.load offset=24
+  local.tee $1
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $1
+  i32.load offset=4
+  call $src/PredictionMarket/PredictionMarket#isOwner
+  i32.eqz
+  if
+   i32.const 29552
+   i32.const 16656
+   i32.const 2099
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#isZero
+  if (result i32)
+   i32.const 1
+  else
+   local.get $2
+   i32.load offset=20
+   local.tee $1
+   i32.load offset=8
+   i32.const 32
+   i32.ne
+   if
+    i32.const 2304
+    i32.const 5664
+    i32.const 220
+    i32.const 30
+    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+    unreachable
+   end
+   local.get $1
+   i32.load offset=4
+   local.tee $1
+   i64.load offset=24
+   call $~lib/polyfills/bswap<u64>
+   local.get $1
+   i64.load offset=16
+   call $~lib/polyfills/bswap<u64>
+   local.get $1
+   i64.load offset=8
+   call $~lib/polyfills/bswap<u64>
+   local.get $1
+   i64.load
+   call $~lib/polyfills/bswap<u64>
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   local.set $4
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   local.set $1
+   local.get $4
+   i64.load
+   local.get $1
+   i64.load
+   i64.eq
+   if (result i32)
+    local.get $4
+    i64.load offset=8
+    local.get $1
+    i64.load offset=8
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $4
+    i64.load offset=16
+    local.get $1
+    i64.load offset=16
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $4
+    i64.load offset=24
+    local.get $1
+    i64.load offset=24
+    i64.eq
+   else
+    i32.const 0
+   end
+  end
+  if
+   i32.const 29648
+   i32.const 16656
+   i32.const 2103
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#toPriceSignerKey
+  local.set $1
+  local.get $0
+  i32.load16_u offset=426
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.get $1
+  local.get $3
+  if (result i32)
+   i64.const 1
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  else
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  end
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#set
+  i32.const 12
+  i32.const 72
+  call $~lib/rt/stub/__new
+  i32.const 33
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $2
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  i32.const 29728
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#registerOracle (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i64)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $1
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $3
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $3
+  i32.load offset=24
+  local.tee $3
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $3
+  i32.load offset=4
+  local.tee $3
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $3
+  i32.load offset=4
+  local.tee $5
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  local.get $5
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  local.get $5
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  local.get $5
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $8
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $5
+  local.get $1
+  i64.load
+  local.get $5
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $1
+   i64.load offset=8
+   local.get $5
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=16
+   local.get $5
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=24
+   local.get $5
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   i32.const 29776
+   i32.const 16656
+   i32.const 2137
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=448
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.tee $5
+  local.get $8
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+  local.set $9
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $6
+  local.get $9
+  i64.load
+  local.get $6
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $9
+   i64.load offset=8
+   local.get $6
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $9
+   i64.load offset=16
+   local.get $6
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $9
+   i64.load offset=24
+   local.get $6
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   i32.const 1
+  else
+   local.get $9
+   local.get $0
+   i32.load offset=464
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  end
+  if
+   i32.const 29856
+   i32.const 16656
+   i32.const 2143
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=458
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.tee $6
+  local.get $8
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  local.set $7
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $10
+  local.get $7
+  i64.load
+  local.get $10
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $7
+   i64.load offset=8
+   local.get $10
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $7
+   i64.load offset=16
+   local.get $10
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $7
+   i64.load offset=24
+   local.get $10
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   local.get $6
+   local.get $8
+   block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU64|inlined.2 (result i32)
+    global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+    local.tee $6
+    i32.load offset=20
+    i32.eqz
+    if
+     i32.const 16736
+     i32.const 5168
+     i32.const 118
+     i32.const 13
+     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+     unreachable
+    end
+    local.get $6
+    i32.load offset=20
+    local.tee $6
+    i32.eqz
+    if
+     i32.const 14672
+     i32.const 5168
+     i32.const 120
+     i32.const 16
+     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+     unreachable
+    end
+    local.get $6
+    i64.load offset=8
+    local.tee $4
+    i64.eqz
+    if
+     i64.const 0
+     i64.const 0
+     i64.const 0
+     i64.const 0
+     call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+     br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU64|inlined.2
+    end
+    local.get $4
+    i64.const 1
+    i64.eq
+    if
+     i64.const 1
+     i64.const 0
+     i64.const 0
+     i64.const 0
+     call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+     br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU64|inlined.2
+    end
+    local.get $4
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   end
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#set
+   local.get $0
+   i32.load offset=468
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+   i64.const 1
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+   local.set $6
+   local.get $0
+   i32.load16_u offset=446
+   local.get $6
+   call $src/PredictionMarket/PredictionMarket#toSubPointer
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+   local.get $8
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+   local.get $0
+   i32.load offset=468
+   local.get $6
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  end
+  local.get $5
+  local.get $8
+  local.get $9
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#set
+  local.get $0
+  i32.load16_u offset=456
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.get $8
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#set
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $5
+  local.get $2
+  i64.load
+  local.get $5
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $2
+   i64.load offset=8
+   local.get $5
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $2
+   i64.load offset=16
+   local.get $5
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $2
+   i64.load offset=24
+   local.get $5
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   local.get $0
+   call $src/PredictionMarket/PredictionMarket#getCollateralToken
+   local.get $3
+   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+   call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#get:contractAddress
+   local.get $2
+   call $~lib/@btc-vision/btc-runtime/runtime/shared-libraries/TransferHelper/TransferHelper.transferFrom
+  end
+  i32.const 12
+  i32.const 73
+  call $~lib/rt/stub/__new
+  i32.const 29952
+  local.get $3
+  local.get $9
+  local.get $1
+  call $src/PredictionMarket/encodeOracleSlashedEvent
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#assertNoOpenMarkets (param $0 i32) (param $1 i32)
+  local.get $0
+  i32.load16_u offset=460
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  local.set $0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $1
+  local.get $0
+  i64.load
+  local.get $1
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $0
+   i64.load offset=8
+   local.get $1
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=16
+   local.get $1
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=24
+   local.get $1
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 30016
+   i32.const 16656
+   i32.const 3501
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+ )
+ (func $src/PredictionMarket/PredictionMarket#unstakeOracle (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i64)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $5
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $1
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  i32.load offset=24
+  local.tee $1
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  i32.load offset=4
+  local.tee $6
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $6
+  i32.load offset=4
+  local.tee $1
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  local.get $1
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  local.get $1
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  local.get $1
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $3
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $1
+  local.get $5
+  i64.load
+  local.get $1
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $5
+   i64.load offset=8
+   local.get $1
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $5
+   i64.load offset=16
+   local.get $1
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $5
+   i64.load offset=24
+   local.get $1
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   i32.const 20256
+   i32.const 16656
+   i32.const 2183
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#assertNoOpenMarkets
+  local.get $0
+  i32.load16_u offset=448
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.tee $4
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  local.tee $1
+  local.get $5
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  if
+   i32.const 30096
+   i32.const 16656
+   i32.const 2191
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=450
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.set $7
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $8
+  i32.load offset=20
+  i32.eqz
+  if
+   i32.const 16736
+   i32.const 5168
+   i32.const 118
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $8
+  i32.load offset=20
+  local.tee $8
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 120
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $8
+  i64.load offset=8
+  i64.const 2016
+  i64.add
+  local.set $2
+  local.get $4
+  local.get $3
+  local.get $1
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#set
+  local.get $7
+  local.get $3
+  local.get $7
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#set
+  local.get $0
+  i32.load16_u offset=452
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.get $3
+  block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU64|inlined.3 (result i32)
+   local.get $2
+   i64.eqz
+   if
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU64|inlined.3
+   end
+   local.get $2
+   i64.const 1
+   i64.eq
+   if
+    i64.const 1
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU64|inlined.3
+   end
+   local.get $2
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  end
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#set
+  i32.const 12
+  i32.const 74
+  call $~lib/rt/stub/__new
+  i32.const 72
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $1
+  local.get $6
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
+  local.get $1
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+  i32.const 30192
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+  i32.const 8
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#withdrawOracleStake (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i64)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $1
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  i32.load offset=24
+  local.tee $1
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  i32.load offset=4
+  local.tee $1
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  i32.load offset=4
+  local.tee $2
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  local.get $2
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  local.get $2
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  local.get $2
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $5
+  local.get $0
+  i32.load16_u offset=450
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.tee $2
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  local.set $4
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $6
+  local.get $4
+  i64.load
+  local.get $6
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $4
+   i64.load offset=8
+   local.get $6
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=16
+   local.get $6
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $4
+   i64.load offset=24
+   local.get $6
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   i32.const 30240
+   i32.const 16656
+   i32.const 2217
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=452
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  i64.load
+  local.set $3
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $6
+  i32.load offset=20
+  i32.eqz
+  if
+   i32.const 16736
+   i32.const 5168
+   i32.const 118
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $6
+  i32.load offset=20
+  local.tee $6
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 120
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $6
+  i64.load offset=8
+  local.get $3
+  i64.lt_u
+  if
+   i32.const 30336
+   i32.const 16656
+   i32.const 2222
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $5
+  call $src/PredictionMarket/PredictionMarket#assertNoOpenMarkets
+  local.get $2
+  local.get $5
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#set
+  local.get $0
+  call $src/PredictionMarket/PredictionMarket#getCollateralToken
+  local.get $1
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/shared-libraries/TransferHelper/TransferHelper.transfer
+  i32.const 12
+  i32.const 75
+  call $~lib/rt/stub/__new
+  i32.const 30416
+  local.get $1
+  local.get $4
+  call $src/PredictionMarket/encodeFeesWithdrawnEvent
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+  i32.const 32
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#slashOracle (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+  local.set $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $1
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $3
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $3
+  i32.load offset=24
+  local.tee $3
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $3
+  i32.load offset=4
+  call $src/PredictionMarket/PredictionMarket#isOwner
+  i32.eqz
+  if
+   i32.const 30480
+   i32.const 16656
+   i32.const 2253
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $3
+  local.get $1
+  i64.load
+  local.get $3
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $1
+   i64.load offset=8
+   local.get $3
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=16
+   local.get $3
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=24
+   local.get $3
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   i32.const 20256
+   i32.const 16656
+   i32.const 2257
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $2
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $2
+  i32.load offset=4
+  local.tee $3
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  local.get $3
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  local.get $3
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  local.get $3
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.get $1
+  call $src/PredictionMarket/PredictionMarket#slashOracleStake
+  local.set $1
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $3
+  local.get $1
+  i64.load
+  local.get $3
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $1
+   i64.load offset=8
+   local.get $3
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=16
+   local.get $3
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $1
+   i64.load offset=24
+   local.get $3
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   i32.const 30576
+   i32.const 16656
+   i32.const 2262
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load offset=332
+  local.get $0
+  i32.load offset=332
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+  local.get $2
+  local.get $1
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  call $src/PredictionMarket/OracleSlashed#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+  i32.const 32
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#assertAllowlistManager (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  local.get $0
+  i32.load16_u offset=288
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $2
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $3
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $3
+  i32.load offset=24
+  local.tee $3
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $3
+  i32.load offset=4
+  local.tee $3
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $3
+  i32.load offset=4
+  local.tee $3
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  local.get $3
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  local.get $3
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  local.get $3
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.tee $3
+  i64.load
+  local.get $2
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $3
+   i64.load offset=8
+   local.get $2
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $3
+   i64.load offset=16
+   local.get $2
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $3
+   i64.load offset=24
+   local.get $2
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 30848
+   i32.const 16656
+   i32.const 3158
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $1
+  call $src/PredictionMarket/PredictionMarket#isPrivate
+  i32.eqz
+  if
+   i32.const 30960
+   i32.const 16656
+   i32.const 3162
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=294
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.tee $0
+  i64.load
+  global.get $src/PredictionMarket/STATUS_OPEN
+  local.tee $1
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $0
+   i64.load offset=8
+   local.get $1
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=16
+   local.get $1
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=24
+   local.get $1
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  if
+   i32.const 20096
+   i32.const 16656
+   i32.const 3167
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+ )
+ (func $~lib/array/Array<~lib/@btc-vision/as-bignum/assembly/integer/u256/u256>#constructor (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  i32.const 16
+  i32.const 78
+  call $~lib/rt/stub/__new
+  local.tee $1
+  i32.const 0
+  i32.store
+  local.get $1
+  i32.const 0
+  i32.store offset=4
+  local.get $1
+  i32.const 0
+  i32.store offset=8
+  local.get $1
+  i32.const 0
+  i32.store offset=12
+  local.get $0
+  i32.const 268435455
+  i32.gt_u
+  if
+   i32.const 2304
+   i32.const 4192
+   i32.const 72
+   i32.const 60
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  i32.const 8
+  local.get $0
+  local.get $0
+  i32.const 8
+  i32.le_u
+  select
+  i32.const 2
+  i32.shl
+  local.tee $2
+  i32.const 1
+  call $~lib/rt/stub/__new
+  local.tee $3
+  i32.const 0
+  local.get $2
+  memory.fill
+  local.get $1
+  local.get $3
+  i32.store
+  local.get $1
+  local.get $3
+  i32.store offset=4
+  local.get $1
+  local.get $2
+  i32.store offset=8
+  local.get $1
+  local.get $0
+  i32.store offset=12
+  local.get $1
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256Array (param $0 i32) (result i32)
+  (local $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU16
+  local.tee $3
+  i32.const 65535
+  i32.and
+  call $~lib/array/Array<~lib/@btc-vision/as-bignum/assembly/integer/u256/u256>#constructor
+  local.set $2
+  loop $for-loop|0
+   local.get $1
+   local.get $3
+   i32.const 65535
+   i32.and
+   i32.lt_u
+   if
+    local.get $2
+    local.get $1
+    local.get $0
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+    call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/types/Address/Address>#__set
+    local.get $1
+    i32.const 1
+    i32.add
+    local.set $1
+    br $for-loop|0
+   end
+  end
+  local.get $2
+ )
+ (func $src/PredictionMarket/PredictionMarket#verifyAllowlistProof (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  local.get $2
+  i32.load offset=12
+  i32.const 32
+  i32.gt_s
+  if
+   i32.const 31168
+   i32.const 16656
+   i32.const 3188
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  block $folding-inner0
+   local.get $1
+   call $~lib/@btc-vision/btc-runtime/runtime/env/global/sha256
+   local.tee $1
+   i32.load offset=8
+   i32.const 32
+   i32.ne
+   br_if $folding-inner0
+   local.get $1
+   i32.load offset=4
+   local.tee $1
+   i64.load offset=24
+   call $~lib/polyfills/bswap<u64>
+   local.get $1
+   i64.load offset=16
+   call $~lib/polyfills/bswap<u64>
+   local.get $1
+   i64.load offset=8
+   call $~lib/polyfills/bswap<u64>
+   local.get $1
+   i64.load
+   call $~lib/polyfills/bswap<u64>
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   local.set $1
+   loop $for-loop|0
+    local.get $4
+    local.get $2
+    i32.load offset=12
+    i32.lt_s
+    if
+     local.get $2
+     local.get $4
+     call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/plugins/Plugin/Plugin>#__get
+     local.set $6
+     i32.const 0
+     i32.const 64
+     call $~lib/typedarray/Uint8Array#constructor
+     local.set $5
+     local.get $1
+     local.get $6
+     call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+     if
+      i32.const 0
+      i32.const 32
+      call $~lib/typedarray/Uint8Array#constructor
+      local.tee $3
+      i32.load offset=4
+      local.tee $7
+      local.get $1
+      i64.load offset=24
+      call $~lib/polyfills/bswap<u64>
+      i64.store
+      local.get $7
+      local.get $1
+      i64.load offset=16
+      call $~lib/polyfills/bswap<u64>
+      i64.store offset=8
+      local.get $7
+      local.get $1
+      i64.load offset=8
+      call $~lib/polyfills/bswap<u64>
+      i64.store offset=16
+      local.get $7
+      local.get $1
+      i64.load
+      call $~lib/polyfills/bswap<u64>
+      i64.store offset=24
+     else
+      i32.const 0
+      i32.const 32
+      call $~lib/typedarray/Uint8Array#constructor
+      local.tee $3
+      i32.load offset=4
+      local.tee $7
+      local.get $6
+      i64.load offset=24
+      call $~lib/polyfills/bswap<u64>
+      i64.store
+      local.get $7
+      local.get $6
+      i64.load offset=16
+      call $~lib/polyfills/bswap<u64>
+      i64.store offset=8
+      local.get $7
+      local.get $6
+      i64.load offset=8
+      call $~lib/polyfills/bswap<u64>
+      i64.store offset=16
+      local.get $7
+      local.get $6
+      i64.load
+      call $~lib/polyfills/bswap<u64>
+      i64.store offset=24
+     end
+     local.get $5
+     local.get $3
+     i32.const 0
+     call $~lib/typedarray/Uint8Array#set<~lib/typedarray/Uint8Array>
+     local.get $1
+     local.get $6
+     call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+     if
+      i32.const 0
+      i32.const 32
+      call $~lib/typedarray/Uint8Array#constructor
+      local.tee $3
+      i32.load offset=4
+      local.tee $1
+      local.get $6
+      i64.load offset=24
+      call $~lib/polyfills/bswap<u64>
+      i64.store
+      local.get $1
+      local.get $6
+      i64.load offset=16
+      call $~lib/polyfills/bswap<u64>
+      i64.store offset=8
+      local.get $1
+      local.get $6
+      i64.load offset=8
+      call $~lib/polyfills/bswap<u64>
+      i64.store offset=16
+      local.get $1
+      local.get $6
+      i64.load
+      call $~lib/polyfills/bswap<u64>
+      i64.store offset=24
+     else
+      i32.const 0
+      i32.const 32
+      call $~lib/typedarray/Uint8Array#constructor
+      local.tee $3
+      i32.load offset=4
+      local.tee $6
+      local.get $1
+      i64.load offset=24
+      call $~lib/polyfills/bswap<u64>
+      i64.store
+      local.get $6
+      local.get $1
+      i64.load offset=16
+      call $~lib/polyfills/bswap<u64>
+      i64.store offset=8
+      local.get $6
+      local.get $1
+      i64.load offset=8
+      call $~lib/polyfills/bswap<u64>
+      i64.store offset=16
+      local.get $6
+      local.get $1
+      i64.load
+      call $~lib/polyfills/bswap<u64>
+      i64.store offset=24
+     end
+     local.get $5
+     local.get $3
+     i32.const 32
+     call $~lib/typedarray/Uint8Array#set<~lib/typedarray/Uint8Array>
+     local.get $5
+     call $~lib/@btc-vision/btc-runtime/runtime/env/global/sha256
+     local.tee $1
+     i32.load offset=8
+     i32.const 32
+     i32.ne
+     br_if $folding-inner0
+     local.get $1
+     i32.load offset=4
+     local.tee $1
+     i64.load offset=24
+     call $~lib/polyfills/bswap<u64>
+     local.get $1
+     i64.load offset=16
+     call $~lib/polyfills/bswap<u64>
+     local.get $1
+     i64.load offset=8
+     call $~lib/polyfills/bswap<u64>
+     local.get $1
+     i64.load
+     call $~lib/polyfills/bswap<u64>
+     call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+     local.set $1
+     local.get $4
+     i32.const 1
+     i32.add
+     local.set $4
+     br $for-loop|0
+    end
+   end
+   local.get $1
+   i64.load
+   local.get $0
+   i64.load
+   i64.eq
+   if (result i32)
+    local.get $1
+    i64.load offset=8
+    local.get $0
+    i64.load offset=8
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $1
+    i64.load offset=16
+    local.get $0
+    i64.load offset=16
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $1
+    i64.load offset=24
+    local.get $0
+    i64.load offset=24
+    i64.eq
+   else
+    i32.const 0
+   end
+   return
+  end
+  i32.const 2304
+  i32.const 5664
+  i32.const 220
+  i32.const 30
+  call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+  unreachable
+ )
+ (func $src/PredictionMarket/PredictionMarket#joinMarket (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256Array
+  local.set $1
+  local.get $0
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.tee $4
+  call $src/PredictionMarket/PredictionMarket#isPrivate
+  i32.eqz
+  if
+   i32.const 30960
+   i32.const 16656
+   i32.const 2371
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=474
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $3
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $5
+  local.get $3
+  i64.load
+  local.get $5
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $3
+   i64.load offset=8
+   local.get $5
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $3
+   i64.load offset=16
+   local.get $5
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $3
+   i64.load offset=24
+   local.get $5
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  if
+   i32.const 31088
+   i32.const 16656
+   i32.const 2376
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $5
+  i32.load offset=24
+  i32.eqz
+  if
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $5
+  i32.load offset=24
+  local.tee $5
+  i32.eqz
+  if
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $3
+  local.get $5
+  i32.load offset=4
+  local.tee $5
+  local.get $1
+  call $src/PredictionMarket/PredictionMarket#verifyAllowlistProof
+  i32.eqz
+  if
+   i32.const 31248
+   i32.const 16656
+   i32.const 2381
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  i32.load16_u offset=478
+  local.get $4
+  local.get $5
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#setUserBet
+  i32.const 12
+  i32.const 79
+  call $~lib/rt/stub/__new
+  i32.const 31328
+  local.get $2
+  local.get $5
+  local.get $3
+  call $src/PredictionMarket/encodeOracleVotedEvent
+  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  i32.const 1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#getMarket (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i64)
+  (local $3 i64)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  (local $12 i32)
+  (local $13 i32)
+  (local $14 i32)
+  (local $15 i32)
+  (local $16 i32)
+  (local $17 i32)
+  (local $18 i32)
+  (local $19 i64)
+  (local $20 i32)
+  (local $21 i32)
+  (local $22 i32)
+  (local $23 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.set $22
+  local.get $0
+  i32.load16_u offset=288
+  local.get $22
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $23
+  local.get $0
+  i32.load16_u offset=290
+  local.get $22
+  call $src/PredictionMarket/PredictionMarket#getMarketBlock
+  local.set $2
+  local.get $0
+  i32.load16_u offset=432
+  local.get $22
+  call $src/PredictionMarket/PredictionMarket#getMarketBlock
+  local.set $3
+  local.get $0
+  i32.load16_u offset=292
+  local.get $22
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $1
+  local.get $0
+  i32.load16_u offset=294
+  local.get $22
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $4
+  local.get $0
+  i32.load16_u offset=296
+  local.get $22
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $5
+  local.get $0
+  i32.load16_u offset=298
+  local.get $22
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $6
+  local.get $0
+  i32.load16_u offset=300
+  local.get $22
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $7
+  local.get $0
+  local.get $22
+  call $src/PredictionMarket/PredictionMarket#getOutcomeCount
+  local.set $8
+  local.get $0
+  i32.load16_u offset=336
+  local.get $22
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $9
+  local.get $0
+  i32.load16_u offset=338
+  local.get $22
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $10
+  local.get $0
+  i32.load16_u offset=340
+  local.get $22
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $11
+  local.get $0
+  i32.load16_u offset=342
+  local.get $22
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $12
+  local.get $0
+  i32.load16_u offset=370
+  local.get $22
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $13
+  local.get $0
+  i32.load16_u offset=380
+  local.get $22
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $14
+  local.get $0
+  i32.load16_u offset=392
+  local.get $22
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $15
+  local.get $0
+  i32.load16_u offset=428
+  local.get $22
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $16
+  local.get $0
+  i32.load16_u offset=430
+  local.get $22
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $17
+  local.get $0
+  i32.load16_u offset=436
+  local.get $22
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $18
+  local.get $0
+  i32.load16_u offset=438
+  local.get $22
+  call $src/PredictionMarket/PredictionMarket#getMarketBlock
+  local.set $19
+  local.get $0
+  i32.load16_u offset=440
+  local.get $22
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  i64.load
+  i32.wrap_i64
+  local.set $20
+  local.get $0
+  local.get $22
+  call $src/PredictionMarket/PredictionMarket#isPrivate
+  local.set $21
+  local.get $0
+  i32.load16_u offset=474
+  local.get $22
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $0
+  i32.const 634
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $22
+  local.get $23
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $22
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+  local.get $22
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+  local.get $22
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $22
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $22
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $22
+  local.get $6
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $22
+  local.get $7
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $22
+  local.get $8
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $22
+  local.get $9
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $22
+  local.get $10
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $22
+  local.get $11
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $22
+  local.get $12
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $22
+  local.get $13
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $22
+  local.get $14
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $22
+  local.get $15
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $22
+  local.get $16
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $22
+  local.get $17
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $22
+  local.get $18
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $22
+  local.get $19
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+  local.get $22
+  local.get $20
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $22
+  local.get $21
+  i32.eqz
+  i32.eqz
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $22
+  local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $22
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU16 (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  local.get $0
+  i32.const 2
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#allocSafe
+  local.get $0
+  i32.load
+  local.tee $2
+  i32.const 31
+  i32.shr_u
+  local.get $0
+  i32.load offset=4
+  local.tee $3
+  i32.load offset=8
+  local.get $2
+  i32.const 2
+  i32.add
+  i32.lt_s
+  i32.or
+  if
+   i32.const 2176
+   i32.const 2416
+   i32.const 135
+   i32.const 7
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $2
+  local.get $3
+  i32.load offset=4
+  i32.add
+  local.get $1
+  call $~lib/polyfills/bswap<u16>
+  i32.store16
+  local.get $0
+  local.get $0
+  i32.load
+  i32.const 2
+  i32.add
+  i32.store
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256Array (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  local.get $1
+  i32.load offset=12
+  i32.const 65535
+  i32.gt_s
+  if
+   i32.const 3552
+   i32.const 15504
+   i32.const 284
+   i32.const 35
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $0
+  local.get $1
+  i32.load offset=12
+  i32.const 5
+  i32.shl
+  i32.const 2
+  i32.add
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#allocSafe
+  local.get $0
+  local.get $1
+  i32.load offset=12
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU16
+  loop $for-loop|0
+   local.get $2
+   local.get $1
+   i32.load offset=12
+   i32.lt_s
+   if
+    local.get $0
+    local.get $1
+    local.get $2
+    call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/plugins/Plugin/Plugin>#__get
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+    local.get $2
+    i32.const 1
+    i32.add
+    local.set $2
+    br $for-loop|0
+   end
+  end
+ )
+ (func $src/PredictionMarket/PredictionMarket#getUserStakes (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $3
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+  local.set $7
+  local.get $0
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.tee $1
+  call $src/PredictionMarket/PredictionMarket#getOutcomeCount
+  i64.load
+  i32.wrap_i64
+  local.tee $4
+  call $~lib/array/Array<~lib/@btc-vision/as-bignum/assembly/integer/u256/u256>#constructor
+  local.set $6
+  loop $for-loop|0
+   local.get $2
+   local.get $4
+   i32.lt_u
+   if
+    local.get $6
+    local.get $2
+    local.get $0
+    local.get $3
+    local.get $1
+    block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.27 (result i32)
+     local.get $2
+     i32.const 1
+     i32.add
+     local.tee $5
+     i32.eqz
+     if
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+      br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.27
+     end
+     local.get $5
+     i32.const 1
+     i32.eq
+     if
+      i64.const 1
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+      br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.27
+     end
+     local.get $5
+     i64.extend_i32_u
+     i64.const 0
+     i64.const 0
+     i64.const 0
+     call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    end
+    local.get $7
+    call $src/PredictionMarket/PredictionMarket#getUserStake
+    call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/types/Address/Address>#__set
+    local.get $2
+    i32.const 1
+    i32.add
+    local.set $2
+    br $for-loop|0
+   end
+  end
+  local.get $0
+  i32.load16_u offset=306
+  local.get $1
+  local.get $7
+  call $src/PredictionMarket/PredictionMarket#getUserBet
+  local.set $0
+  local.get $4
+  i32.const 5
+  i32.shl
+  i32.const 3
+  i32.add
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $1
+  local.get $6
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256Array
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  i64.const 0
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $2
+  local.get $1
+  local.get $0
+  i64.load
+  local.get $2
+  i64.load
+  i64.eq
+  if (result i32)
+   local.get $0
+   i64.load offset=8
+   local.get $2
+   i64.load offset=8
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=16
+   local.get $2
+   i64.load offset=16
+   i64.eq
+  else
+   i32.const 0
+  end
+  if (result i32)
+   local.get $0
+   i64.load offset=24
+   local.get $2
+   i64.load offset=24
+   i64.eq
+  else
+   i32.const 0
+  end
+  i32.eqz
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $1
+ )
+ (func $src/PredictionMarket/PredictionMarket#getOracleVotes (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.tee $6
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.set $3
+  local.get $0
+  i32.load16_u offset=370
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  i64.load
+  i32.wrap_i64
+  local.tee $4
+  call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/types/Address/Address>#constructor
+  local.set $2
+  local.get $4
+  call $~lib/array/Array<~lib/@btc-vision/as-bignum/assembly/integer/u256/u256>#constructor
+  local.set $5
+  i32.const 0
+  local.set $1
+  loop $for-loop|0
+   local.get $1
+   local.get $4
+   i32.lt_u
+   if
+    local.get $2
+    local.get $1
+    local.get $0
+    local.get $6
+    local.get $1
+    call $src/PredictionMarket/PredictionMarket#getCommitteeMember
+    local.tee $7
+    call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/types/Address/Address>#__set
+    local.get $5
+    local.get $1
+    local.get $0
+    i32.load16_u offset=376
+    local.get $3
+    local.get $7
+    call $src/PredictionMarket/PredictionMarket#getUserBet
+    call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/types/Address/Address>#__set
+    local.get $1
+    i32.const 1
+    i32.add
+    local.set $1
+    br $for-loop|0
+   end
+  end
+  local.get $4
+  i32.const 6
+  i32.shl
+  i32.const 36
+  i32.add
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $1
+  local.get $0
+  i32.load16_u offset=372
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $2
+  i32.load offset=12
+  i32.const 65535
+  i32.gt_s
+  if
+   i32.const 3552
+   i32.const 15504
+   i32.const 294
+   i32.const 35
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $1
+  local.get $2
+  i32.load offset=12
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU16
+  i32.const 0
+  local.set $0
+  loop $for-loop|00
+   local.get $0
+   local.get $2
+   i32.load offset=12
+   i32.lt_s
+   if
+    local.get $1
+    local.get $2
+    local.get $0
+    call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/plugins/Plugin/Plugin>#__get
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
+    local.get $0
+    i32.const 1
+    i32.add
+    local.set $0
+    br $for-loop|00
+   end
+  end
+  local.get $1
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256Array
+  local.get $1
+ )
+ (func $src/PredictionMarket/PredictionMarket#readIndexPage (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+  local.set $3
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $1
+  local.get $2
+  local.get $0
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#getIndexLength
+  local.tee $4
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  if (result i32)
+   local.get $4
+   local.get $2
+   call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+   local.tee $5
+   i64.const 100
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   local.tee $6
+   local.get $1
+   local.get $6
+   local.get $1
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+   select
+   local.tee $1
+   local.get $5
+   local.get $1
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+   select
+   i64.load
+   i32.wrap_i64
+  else
+   i32.const 0
+  end
+  local.tee $6
+  call $~lib/array/Array<~lib/@btc-vision/as-bignum/assembly/integer/u256/u256>#constructor
+  local.set $7
+  i32.const 0
+  local.set $1
+  loop $for-loop|0
+   local.get $1
+   local.get $6
+   i32.lt_u
+   if
+    local.get $7
+    local.get $1
+    local.get $0
+    local.get $2
+    block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.29 (result i32)
+     local.get $1
+     i32.const 1
+     i32.add
+     local.tee $5
+     i32.eqz
+     if
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+      br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.29
+     end
+     local.get $5
+     i32.const 1
+     i32.eq
+     if
+      i64.const 1
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+      br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.29
+     end
+     local.get $5
+     i64.extend_i32_u
+     i64.const 0
+     i64.const 0
+     i64.const 0
+     call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    end
+    call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+    call $src/PredictionMarket/PredictionMarket#toSubPointer
+    local.get $3
+    call $src/PredictionMarket/PredictionMarket#getUserBet
+    call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/types/Address/Address>#__set
+    local.get $1
+    i32.const 1
+    i32.add
+    local.set $1
+    br $for-loop|0
+   end
+  end
+  local.get $6
+  i32.const 5
+  i32.shl
+  i32.const 34
+  i32.add
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $0
+  local.get $7
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256Array
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#writeMarketRecord (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  local.get $0
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.tee $3
+  call $src/PredictionMarket/PredictionMarket#getOutcomeCount
+  i64.load
+  i32.wrap_i64
+  local.set $5
+  local.get $1
+  local.get $2
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $0
+  i32.load16_u offset=288
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $0
+  i32.load16_u offset=290
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#getMarketBlock
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+  local.get $1
+  local.get $0
+  i32.load16_u offset=432
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#getMarketBlock
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+  local.get $1
+  local.get $0
+  i32.load16_u offset=292
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $0
+  i32.load16_u offset=294
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $0
+  i32.load16_u offset=296
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $0
+  i32.load16_u offset=336
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $0
+  i32.load16_u offset=338
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $0
+  i32.load16_u offset=340
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $0
+  i32.load16_u offset=342
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $0
+  i32.load16_u offset=370
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $0
+  i32.load16_u offset=380
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $0
+  i32.load16_u offset=392
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $0
+  i32.load16_u offset=428
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $0
+  i32.load16_u offset=430
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $0
+  i32.load16_u offset=436
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $0
+  i32.load16_u offset=438
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#getMarketBlock
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+  local.get $1
+  local.get $0
+  i32.load16_u offset=440
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  i64.load
+  i32.wrap_i64
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $1
+  local.get $0
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#isPrivate
+  i32.eqz
+  i32.eqz
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $1
+  local.get $0
+  i32.load16_u offset=474
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $5
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU16
+  i32.const 1
+  local.set $4
+  loop $for-loop|0
+   local.get $4
+   local.get $5
+   i32.le_u
+   if
+    local.get $1
+    local.get $0
+    local.get $2
+    local.get $3
+    block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.33 (result i32)
+     local.get $4
+     i32.eqz
+     if
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+      br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.33
+     end
+     local.get $4
+     i32.const 1
+     i32.eq
+     if
+      i64.const 1
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+      br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.33
+     end
+     local.get $4
+     i64.extend_i32_u
+     i64.const 0
+     i64.const 0
+     i64.const 0
+     call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    end
+    call $src/PredictionMarket/PredictionMarket#getOutcomePoolStore
+    call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+    local.get $4
+    i32.const 1
+    i32.add
+    local.set $4
+    br $for-loop|0
+   end
+  end
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeBytesWithLength (param $0 i32) (param $1 i32)
+  (local $2 i32)
+  (local $3 i32)
+  local.get $0
+  local.get $1
+  i32.load offset=8
+  local.tee $3
+  i32.const 4
+  i32.add
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#allocSafe
+  local.get $0
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU32
+  loop $for-loop|0
+   local.get $2
+   local.get $3
+   i32.lt_u
+   if
+    local.get $0
+    local.get $1
+    local.get $2
+    call $~lib/typedarray/Uint8Array#__get
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+    local.get $2
+    i32.const 1
+    i32.add
+    local.set $2
+    br $for-loop|0
+   end
+  end
+ )
+ (func $src/PredictionMarket/PredictionMarket#getMarkets (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $3
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $1
+  local.get $3
+  local.get $0
+  i32.load offset=280
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.tee $4
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  if (result i32)
+   local.get $4
+   local.get $3
+   call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+   local.tee $5
+   i64.const 50
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   local.tee $6
+   local.get $1
+   local.get $6
+   local.get $1
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+   select
+   local.tee $1
+   local.get $5
+   local.get $1
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+   select
+   i64.load
+   i32.wrap_i64
+  else
+   i32.const 0
+  end
+  local.set $6
+  i32.const 0
+  local.set $1
+  loop $for-loop|0
+   local.get $2
+   local.get $6
+   i32.lt_u
+   if
+    local.get $1
+    local.get $0
+    local.get $3
+    block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.31 (result i32)
+     local.get $2
+     i32.const 1
+     i32.add
+     local.tee $1
+     i32.eqz
+     if
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+      br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.31
+     end
+     local.get $1
+     i32.const 1
+     i32.eq
+     if
+      i64.const 1
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+      br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.31
+     end
+     local.get $1
+     i64.extend_i32_u
+     i64.const 0
+     i64.const 0
+     i64.const 0
+     call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    end
+    call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+    call $src/PredictionMarket/PredictionMarket#toSubPointer
+    call $src/PredictionMarket/PredictionMarket#getOutcomeCount
+    i64.load
+    i32.wrap_i64
+    i32.const 5
+    i32.shl
+    i32.const 540
+    i32.add
+    i32.add
+    local.set $1
+    local.get $2
+    i32.const 1
+    i32.add
+    local.set $2
+    br $for-loop|0
+   end
+  end
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.set $5
+  i32.const 0
+  local.set $2
+  loop $for-loop|1
+   local.get $2
+   local.get $6
+   i32.lt_u
+   if
+    local.get $0
+    local.get $5
+    local.get $3
+    block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.32 (result i32)
+     local.get $2
+     i32.const 1
+     i32.add
+     local.tee $7
+     i32.eqz
+     if
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+      br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.32
+     end
+     local.get $7
+     i32.const 1
+     i32.eq
+     if
+      i64.const 1
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+      br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.32
+     end
+     local.get $7
+     i64.extend_i32_u
+     i64.const 0
+     i64.const 0
+     i64.const 0
+     call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    end
+    call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+    call $src/PredictionMarket/PredictionMarket#writeMarketRecord
+    local.get $2
+    i32.const 1
+    i32.add
+    local.set $2
+    br $for-loop|1
+   end
+  end
+  local.get $1
+  i32.const 36
+  i32.add
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $0
+  local.get $5
+  i32.load offset=8
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeBytesWithLength
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#getUserPositions (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  (local $9 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+  local.set $6
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256Array
+  local.tee $2
+  i32.load offset=12
+  i32.const 50
+  i32.gt_u
+  if
+   i32.const 31376
+   i32.const 16656
+   i32.const 2829
+   i32.const 13
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  i32.const 0
+  local.set $1
+  loop $for-loop|0
+   local.get $1
+   local.get $2
+   i32.load offset=12
+   i32.lt_s
+   if
+    local.get $4
+    local.get $0
+    local.get $2
+    local.get $1
+    call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/plugins/Plugin/Plugin>#__get
+    call $src/PredictionMarket/PredictionMarket#toSubPointer
+    call $src/PredictionMarket/PredictionMarket#getOutcomeCount
+    i64.load
+    i32.wrap_i64
+    i32.const 5
+    i32.shl
+    i32.const 3
+    i32.add
+    i32.add
+    local.set $4
+    local.get $1
+    i32.const 1
+    i32.add
+    local.set $1
+    br $for-loop|0
+   end
+  end
+  local.get $4
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.set $3
+  loop $for-loop|1
+   local.get $5
+   local.get $2
+   i32.load offset=12
+   i32.lt_s
+   if
+    local.get $3
+    local.get $0
+    local.get $2
+    local.get $5
+    call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/plugins/Plugin/Plugin>#__get
+    local.tee $9
+    call $src/PredictionMarket/PredictionMarket#toSubPointer
+    local.tee $8
+    call $src/PredictionMarket/PredictionMarket#getOutcomeCount
+    i64.load
+    i32.wrap_i64
+    local.tee $7
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU16
+    i32.const 1
+    local.set $1
+    loop $for-loop|2
+     local.get $1
+     local.get $7
+     i32.le_u
+     if
+      local.get $3
+      local.get $0
+      local.get $9
+      local.get $8
+      block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.34 (result i32)
+       local.get $1
+       i32.eqz
+       if
+        i64.const 0
+        i64.const 0
+        i64.const 0
+        i64.const 0
+        call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+        br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.34
+       end
+       local.get $1
+       i32.const 1
+       i32.eq
+       if
+        i64.const 1
+        i64.const 0
+        i64.const 0
+        i64.const 0
+        call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+        br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.34
+       end
+       local.get $1
+       i64.extend_i32_u
+       i64.const 0
+       i64.const 0
+       i64.const 0
+       call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+      end
+      local.get $6
+      call $src/PredictionMarket/PredictionMarket#getUserStake
+      call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+      local.get $1
+      i32.const 1
+      i32.add
+      local.set $1
+      br $for-loop|2
+     end
+    end
+    local.get $0
+    i32.load16_u offset=306
+    local.get $8
+    local.get $6
+    call $src/PredictionMarket/PredictionMarket#getUserBet
+    local.set $1
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    i64.const 0
+    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    local.set $7
+    local.get $3
+    local.get $1
+    i64.load
+    local.get $7
+    i64.load
+    i64.eq
+    if (result i32)
+     local.get $1
+     i64.load offset=8
+     local.get $7
+     i64.load offset=8
+     i64.eq
+    else
+     i32.const 0
+    end
+    if (result i32)
+     local.get $1
+     i64.load offset=16
+     local.get $7
+     i64.load offset=16
+     i64.eq
+    else
+     i32.const 0
+    end
+    if (result i32)
+     local.get $1
+     i64.load offset=24
+     local.get $7
+     i64.load offset=24
+     i64.eq
+    else
+     i32.const 0
+    end
+    i32.eqz
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+    local.get $5
+    i32.const 1
+    i32.add
+    local.set $5
+    br $for-loop|1
+   end
+  end
+  local.get $4
+  i32.const 4
+  i32.add
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  local.get $3
+  i32.load offset=8
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeBytesWithLength
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#writeOracleRecord (param $0 i32) (param $1 i32) (param $2 i32)
+  (local $3 i32)
+  local.get $2
+  i32.load offset=8
+  i32.const 32
+  i32.ne
+  if
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
+   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+   unreachable
+  end
+  local.get $2
+  i32.load offset=4
+  local.tee $3
+  i64.load offset=24
+  call $~lib/polyfills/bswap<u64>
+  local.get $3
+  i64.load offset=16
+  call $~lib/polyfills/bswap<u64>
+  local.get $3
+  i64.load offset=8
+  call $~lib/polyfills/bswap<u64>
+  local.get $3
+  i64.load
+  call $~lib/polyfills/bswap<u64>
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+  local.set $3
+  local.get $1
+  local.get $0
+  i32.load16_u offset=448
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $0
+  i32.load16_u offset=450
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $0
+  i32.load16_u offset=452
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  i64.load
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+  local.get $1
+  local.get $0
+  i32.load16_u offset=454
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $0
+  i32.load16_u offset=456
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $1
+  local.get $0
+  i32.load16_u offset=458
+  global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+  i64.load
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+  local.get $1
+  local.get $0
+  i32.load16_u offset=386
+  local.get $2
+  call $src/PredictionMarket/PredictionMarket#getIndexLength
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+ )
+ (func $src/PredictionMarket/PredictionMarket#getOracles (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i32)
+  (local $8 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $4
+  local.get $2
+  local.get $0
+  i32.load offset=468
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.tee $1
+  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+  if (result i32)
+   local.get $1
+   local.get $2
+   call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.sub
+   local.tee $5
+   i64.const 50
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   local.tee $6
+   local.get $4
+   local.get $6
+   local.get $4
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+   select
+   local.tee $4
+   local.get $5
+   local.get $4
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+   select
+   i64.load
+   i32.wrap_i64
+  else
+   i32.const 0
+  end
+  local.tee $6
+  i32.const 208
+  i32.mul
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.set $7
+  loop $for-loop|0
+   local.get $3
+   local.get $6
+   i32.lt_u
+   if
+    local.get $2
+    block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.36 (result i32)
+     local.get $3
+     i32.const 1
+     i32.add
+     local.tee $4
+     i32.eqz
+     if
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+      br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.36
+     end
+     local.get $4
+     i32.const 1
+     i32.eq
+     if
+      i64.const 1
+      i64.const 0
+      i64.const 0
+      i64.const 0
+      call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+      br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.36
+     end
+     local.get $4
+     i64.extend_i32_u
+     i64.const 0
+     i64.const 0
+     i64.const 0
+     call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+    end
+    call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
+    local.set $4
+    local.get $7
+    local.get $0
+    i32.load16_u offset=446
+    local.get $4
+    call $src/PredictionMarket/PredictionMarket#toSubPointer
+    call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+    call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+    local.tee $4
+    call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+    i32.const 0
+    i32.const 32
+    call $~lib/typedarray/Uint8Array#constructor
+    local.tee $8
+    i32.load offset=4
+    local.tee $5
+    local.get $4
+    i64.load offset=24
+    call $~lib/polyfills/bswap<u64>
+    i64.store
+    local.get $5
+    local.get $4
+    i64.load offset=16
+    call $~lib/polyfills/bswap<u64>
+    i64.store offset=8
+    local.get $5
+    local.get $4
+    i64.load offset=8
+    call $~lib/polyfills/bswap<u64>
+    i64.store offset=16
+    local.get $5
+    local.get $4
+    i64.load
+    call $~lib/polyfills/bswap<u64>
+    i64.store offset=24
+    local.get $0
+    local.get $7
+    local.get $8
+    call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address.fromUint8Array
+    call $src/PredictionMarket/PredictionMarket#writeOracleRecord
+    local.get $3
+    i32.const 1
+    i32.add
+    local.set $3
+    br $for-loop|0
+   end
+  end
+  local.get $6
+  i32.const 208
+  i32.mul
+  i32.const 36
+  i32.add
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $0
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  local.get $0
+  local.get $7
+  i32.load offset=8
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeBytesWithLength
+  local.get $0
+ )
+ (func $src/PredictionMarket/PredictionMarket#isAllowlisted (param $0 i32) (param $1 i32) (result i32)
+  (local $2 i32)
+  (local $3 i32)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+  local.set $3
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+  local.set $2
+  local.get $1
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256Array
+  local.set $4
+  local.get $0
+  local.get $3
+  call $src/PredictionMarket/PredictionMarket#toSubPointer
+  local.tee $3
+  call $src/PredictionMarket/PredictionMarket#isPrivate
+  local.set $5
+  local.get $0
+  i32.load16_u offset=474
+  local.get $3
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+  local.set $6
+  local.get $5
+  if (result i32)
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   i64.const 0
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   local.set $1
+   local.get $6
+   i64.load
+   local.get $1
+   i64.load
+   i64.eq
+   if (result i32)
+    local.get $6
+    i64.load offset=8
+    local.get $1
+    i64.load offset=8
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $6
+    i64.load offset=16
+    local.get $1
+    i64.load offset=16
+    i64.eq
+   else
+    i32.const 0
+   end
+   if (result i32)
+    local.get $6
+    i64.load offset=24
+    local.get $1
+    i64.load offset=24
+    i64.eq
+   else
+    i32.const 0
+   end
+  else
+   i32.const 1
+  end
+  if (result i32)
+   i32.const 0
+  else
+   local.get $4
+   i32.load offset=12
+   i32.const 32
+   i32.le_s
+  end
+  if (result i32)
+   local.get $6
+   local.get $2
+   local.get $4
+   call $src/PredictionMarket/PredictionMarket#verifyAllowlistProof
+  else
+   i32.const 0
+  end
+  local.set $1
+  i32.const 3
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+  local.tee $4
+  local.get $5
+  i32.eqz
+  i32.eqz
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $4
+  local.get $5
+  if (result i32)
+   local.get $0
+   local.get $3
+   local.get $2
+   call $src/PredictionMarket/PredictionMarket#isAllowlistMember
+  else
+   i32.const 1
+  end
+  i32.eqz
+  i32.eqz
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $4
+  local.get $1
+  i32.eqz
+  i32.eqz
+  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+  local.get $4
+ )
+ (func $src/PredictionMarket/PredictionMarket#execute (param $0 i32) (param $1 i32) (param $2 i32) (result i32)
+  (local $3 i64)
+  (local $4 i32)
+  (local $5 i32)
+  (local $6 i32)
+  (local $7 i64)
+  (local $8 i32)
+  (local $9 i32)
+  (local $10 i32)
+  (local $11 i32)
+  block $folding-inner6
+   block $folding-inner5
+    block $folding-inner4
+     local.get $1
+     i32.const 917786265
+     i32.eq
      if
+      local.get $2
+      call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readStringWithLength
+      local.set $6
+      local.get $2
+      call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
+      local.set $3
+      local.get $2
+      call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU64
+      local.set $7
+      local.get $2
+      call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+      local.set $8
+      local.get $2
+      call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+      local.set $1
+      local.get $2
+      call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+      local.set $4
+      local.get $2
+      call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddressArray
+      local.set $5
+      local.get $2
+      call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+      local.set $9
+      local.get $2
+      call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+      local.set $10
+      local.get $2
+      call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+      local.set $11
+      local.get $2
+      call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddressArray
+      local.set $2
+      local.get $0
+      local.get $0
+      local.get $6
       local.get $3
-      i32.const 1
-      i32.eq
-      if
-       local.get $0
-       local.get $0
-       i64.load offset=8
-       local.get $2
-       i64.or
-       i64.store offset=8
-      else
-       local.get $3
-       i32.const 2
-       i32.eq
-       if
-        local.get $0
-        local.get $0
-        i64.load offset=16
-        local.get $2
-        i64.or
-        i64.store offset=16
-       else
-        local.get $3
-        i32.const 3
+      local.get $7
+      local.get $8
+      local.get $1
+      local.get $4
+      local.get $10
+      call $~lib/array/Array<~lib/string/String>#constructor
+      call $src/PredictionMarket/PredictionMarket#registerMarket
+      local.tee $1
+      local.get $5
+      local.get $9
+      call $src/PredictionMarket/PredictionMarket#registerCommittee
+      local.get $0
+      local.get $1
+      local.get $11
+      local.get $2
+      call $src/PredictionMarket/PredictionMarket#registerAllowlist
+      i32.const 32
+      call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+      local.tee $0
+      local.get $1
+      call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+      br $folding-inner4
+     end
+     local.get $1
+     i32.const 1719018948
+     i32.eq
+     if
+      local.get $0
+      local.get $2
+      call $src/PredictionMarket/PredictionMarket#createCategoricalMarket
+      return
+     end
+     local.get $1
+     i32.const 666091719
+     i32.eq
+     if
+      local.get $0
+      local.get $2
+      call $src/PredictionMarket/PredictionMarket#createScalarMarket
+      return
+     end
+     local.get $1
+     i32.const -1678459728
+     i32.eq
+     if
+      local.get $0
+      local.get $2
+      call $src/PredictionMarket/PredictionMarket#placeBet
+      return
+     end
+     local.get $1
+     i32.const 1164343772
+     i32.eq
+     if
+      local.get $0
+      local.get $2
+      call $src/PredictionMarket/PredictionMarket#resolveMarket
+      return
+     end
+     local.get $1
+     i32.const -1615842865
+     i32.eq
+     if
+      local.get $0
+      local.get $2
+      call $src/PredictionMarket/PredictionMarket#resolveScalarMarket
+      return
+     end
+     local.get $1
+     i32.const 2066156470
+     i32.eq
+     if
+      local.get $0
+      local.get $2
+      call $src/PredictionMarket/PredictionMarket#setPriceTarget
+      return
+     end
+     local.get $1
+     i32.const 1691890273
+     i32.eq
+     if
+      local.get $0
+      local.get $2
+      call $src/PredictionMarket/PredictionMarket#resolveWithPrice
+      return
+     end
+     local.get $1
+     i32.const -932381863
+     i32.eq
+     if
+      local.get $0
+      local.get $2
+      call $src/PredictionMarket/PredictionMarket#voteOutcome
+      return
+     end
+     local.get $1
+     i32.const -678984874
+     i32.eq
+     if
+      local.get $0
+      local.get $2
+      call $src/PredictionMarket/PredictionMarket#disputeOutcome
+      return
+     end
+     local.get $1
+     i32.const 626760055
+     i32.eq
+     if
+      local.get $0
+      local.get $2
+      call $src/PredictionMarket/PredictionMarket#finalizeMarket
+      return
+     end
+     local.get $1
+     i32.const -311120363
+     i32.eq
+     if
+      local.get $0
+      local.get $2
+      call $src/PredictionMarket/PredictionMarket#ruleDispute
+      return
+     end
+     local.get $1
+     i32.const 625288761
+     i32.eq
+     if
+      local.get $0
+      local.get $2
+      call $src/PredictionMarket/PredictionMarket#sellPosition
+      return
+     end
+     block $folding-inner3
+      block $folding-inner2
+       block $folding-inner1
+        local.get $1
+        i32.const -1840519886
+        i32.eq
+        if
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+         local.set $1
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+         local.set $4
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+         local.set $5
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+         local.set $2
+         global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+         local.tee $6
+         i32.load offset=24
+         i32.eqz
+         br_if $folding-inner1
+         local.get $6
+         i32.load offset=24
+         local.tee $6
+         i32.eqz
+         br_if $folding-inner3
+         local.get $0
+         local.get $1
+         local.get $4
+         local.get $6
+         i32.load offset=4
+         local.get $5
+         local.get $2
+         call $src/PredictionMarket/PredictionMarket#moveStake
+         br $folding-inner2
+        end
+        local.get $1
+        i32.const -1007709642
+        i32.eq
+        if
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+         local.set $1
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+         local.set $4
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+         local.set $5
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+         local.set $6
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+         local.set $2
+         global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+         local.tee $8
+         i32.load offset=24
+         i32.eqz
+         br_if $folding-inner1
+         local.get $8
+         i32.load offset=24
+         local.tee $8
+         i32.eqz
+         br_if $folding-inner3
+         local.get $8
+         i32.load offset=4
+         local.tee $8
+         local.get $1
+         call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#equals
+         if (result i32)
+          i32.const 1
+         else
+          local.get $0
+          local.get $1
+          local.get $8
+          call $src/PredictionMarket/PredictionMarket#hasPositionOperator
+         end
+         i32.eqz
+         if
+          i32.const 26224
+          i32.const 16656
+          i32.const 1639
+          i32.const 13
+          call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+          unreachable
+         end
+         local.get $0
+         local.get $5
+         local.get $6
+         local.get $1
+         local.get $4
+         local.get $2
+         call $src/PredictionMarket/PredictionMarket#moveStake
+         i32.const 1
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+         local.tee $0
+         i32.const 1
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+         br $folding-inner4
+        end
+        local.get $1
+        i32.const 315157332
+        i32.eq
+        if
+         local.get $0
+         local.get $2
+         call $src/PredictionMarket/PredictionMarket#setPositionOperator
+         return
+        end
+        local.get $1
+        i32.const -587005880
+        i32.eq
+        if
+         local.get $0
+         local.get $2
+         call $src/PredictionMarket/PredictionMarket#claimWinnings
+         return
+        end
+        local.get $1
+        i32.const -1746131546
+        i32.eq
+        if
+         local.get $0
+         local.get $2
+         call $src/PredictionMarket/PredictionMarket#cancelMarket
+         return
+        end
+        local.get $1
+        i32.const 41045857
+        i32.eq
+        if
+         local.get $0
+         local.get $2
+         call $src/PredictionMarket/PredictionMarket#claimRefund
+         return
+        end
+        local.get $1
+        i32.const -1289709567
+        i32.eq
+        if
+         local.get $0
+         local.get $2
+         call $src/PredictionMarket/PredictionMarket#setCancelGracePeriod
+         return
+        end
+        local.get $1
+        i32.const -1944917463
+        i32.eq
+        if
+         local.get $0
+         local.get $2
+         call $src/PredictionMarket/PredictionMarket#setResolutionTimeout
+         return
+        end
+        local.get $1
+        i32.const -1975001581
+        i32.eq
+        if
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+         local.set $1
+         global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+         local.tee $2
+         i32.load offset=24
+         i32.eqz
+         br_if $folding-inner1
+         local.get $2
+         i32.load offset=24
+         local.tee $2
+         i32.eqz
+         br_if $folding-inner3
+         local.get $0
+         local.get $2
+         i32.load offset=4
+         call $src/PredictionMarket/PredictionMarket#isOwner
+         i32.eqz
+         if
+          i32.const 27568
+          i32.const 16656
+          i32.const 1860
+          i32.const 13
+          call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+          unreachable
+         end
+         global.get $src/PredictionMarket/MAX_PROTOCOL_FEE_BPS
+         local.get $1
+         call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.lt
+         if
+          i32.const 27680
+          i32.const 16656
+          i32.const 1864
+          i32.const 13
+          call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+          unreachable
+         end
+         local.get $0
+         i32.load offset=328
+         local.get $1
+         call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+         i32.const 12
+         i32.const 65
+         call $~lib/rt/stub/__new
+         i32.const 27760
+         local.get $1
+         call $src/PredictionMarket/encodeProtocolFeeUpdatedEvent
+         call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+         call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+         br $folding-inner2
+        end
+        local.get $1
+        i32.const -745552428
+        i32.eq
+        if
+         local.get $0
+         call $src/PredictionMarket/PredictionMarket#withdrawFees
+         return
+        end
+        local.get $1
+        i32.const 922112913
+        i32.eq
+        if
+         local.get $0
+         local.get $2
+         call $src/PredictionMarket/PredictionMarket#setDisputeWindow
+         return
+        end
+        local.get $1
+        i32.const 21699818
+        i32.eq
+        if
+         local.get $0
+         local.get $2
+         call $src/PredictionMarket/PredictionMarket#setDisputeBond
+         return
+        end
+        local.get $1
+        i32.const 1734609436
+        i32.eq
+        if
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+         local.set $1
+         global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+         local.tee $2
+         i32.load offset=24
+         i32.eqz
+         br_if $folding-inner1
+         local.get $2
+         i32.load offset=24
+         local.tee $2
+         i32.eqz
+         br_if $folding-inner3
+         local.get $0
+         local.get $2
+         i32.load offset=4
+         call $src/PredictionMarket/PredictionMarket#isOwner
+         i32.eqz
+         if
+          i32.const 28368
+          i32.const 16656
+          i32.const 1956
+          i32.const 13
+          call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+          unreachable
+         end
+         local.get $0
+         i32.load offset=356
+         local.get $1
+         i32.load offset=8
+         i32.const 32
+         i32.ne
+         br_if $folding-inner5
+         local.get $1
+         i32.load offset=4
+         local.tee $0
+         i64.load offset=24
+         call $~lib/polyfills/bswap<u64>
+         local.get $0
+         i64.load offset=16
+         call $~lib/polyfills/bswap<u64>
+         local.get $0
+         i64.load offset=8
+         call $~lib/polyfills/bswap<u64>
+         local.get $0
+         i64.load
+         call $~lib/polyfills/bswap<u64>
+         call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+         call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+         i32.const 1
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+         local.tee $0
+         i32.const 1
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+         br $folding-inner4
+        end
+        local.get $1
+        i32.const 758073078
+        i32.eq
+        if
+         local.get $0
+         local.get $2
+         call $src/PredictionMarket/PredictionMarket#setPaused
+         return
+        end
+        local.get $1
+        i32.const -237196135
+        i32.eq
+        if
+         local.get $0
+         local.get $2
+         call $src/PredictionMarket/PredictionMarket#transferOwnership
+         return
+        end
+        local.get $1
+        i32.const 889843840
+        i32.eq
+        if
+         local.get $0
+         call $src/PredictionMarket/PredictionMarket#acceptOwnership
+         return
+        end
+        local.get $1
+        i32.const -932124025
+        i32.eq
+        if
+         local.get $0
+         local.get $2
+         call $src/PredictionMarket/PredictionMarket#setMaxMarkets
+         return
+        end
+        local.get $1
+        i32.const -2066447691
+        i32.eq
+        if
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+         local.set $1
+         global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+         local.tee $2
+         i32.load offset=24
+         i32.eqz
+         br_if $folding-inner1
+         local.get $2
+         i32.load offset=24
+         local.tee $2
+         i32.eqz
+         br_if $folding-inner3
+         local.get $0
+         local.get $2
+         i32.load offset=4
+         call $src/PredictionMarket/PredictionMarket#isOwner
+         i32.eqz
+         if
+          i32.const 29408
+          i32.const 16656
+          i32.const 2075
+          i32.const 13
+          call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+          unreachable
+         end
+         local.get $0
+         i32.load offset=420
+         local.get $1
+         call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+         i32.const 12
+         i32.const 71
+         call $~lib/rt/stub/__new
+         i32.const 29504
+         local.get $1
+         call $src/PredictionMarket/encodeProtocolFeeUpdatedEvent
+         call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+         call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+         br $folding-inner2
+        end
+        local.get $1
+        i32.const -1206878794
+        i32.eq
+        if
+         local.get $0
+         local.get $2
+         call $src/PredictionMarket/PredictionMarket#setPriceSigner
+         return
+        end
+        local.get $1
+        i32.const -1237797148
+        i32.eq
+        if
+         local.get $0
+         local.get $2
+         call $src/PredictionMarket/PredictionMarket#registerOracle
+         return
+        end
+        local.get $1
+        i32.const -628183644
+        i32.eq
+        if
+         local.get $0
+         local.get $2
+         call $src/PredictionMarket/PredictionMarket#unstakeOracle
+         return
+        end
+        local.get $1
+        i32.const 1880084695
+        i32.eq
+        if
+         local.get $0
+         call $src/PredictionMarket/PredictionMarket#withdrawOracleStake
+         return
+        end
+        local.get $1
+        i32.const 1622054282
+        i32.eq
+        if
+         local.get $0
+         local.get $2
+         call $src/PredictionMarket/PredictionMarket#slashOracle
+         return
+        end
+        local.get $1
+        i32.const -1613543047
+        i32.eq
+        if
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+         local.set $1
+         global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+         local.tee $2
+         i32.load offset=24
+         i32.eqz
+         br_if $folding-inner1
+         local.get $2
+         i32.load offset=24
+         local.tee $2
+         i32.eqz
+         br_if $folding-inner3
+         local.get $0
+         local.get $2
+         i32.load offset=4
+         call $src/PredictionMarket/PredictionMarket#isOwner
+         i32.eqz
+         if
+          i32.const 30656
+          i32.const 16656
+          i32.const 2281
+          i32.const 13
+          call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+          unreachable
+         end
+         local.get $0
+         i32.load offset=464
+         local.get $1
+         call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+         i32.const 12
+         i32.const 76
+         call $~lib/rt/stub/__new
+         i32.const 30784
+         local.get $1
+         call $src/PredictionMarket/encodeProtocolFeeUpdatedEvent
+         call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+         call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+         br $folding-inner2
+        end
+        local.get $1
+        i32.const 1586846441
+        i32.eq
+        if
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+         local.set $1
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+         local.set $2
+         local.get $0
+         local.get $1
+         call $src/PredictionMarket/PredictionMarket#toSubPointer
+         local.tee $4
+         call $src/PredictionMarket/PredictionMarket#assertAllowlistManager
+         local.get $0
+         i32.load16_u offset=474
+         local.get $4
+         call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+         i32.const 12
+         i32.const 77
+         call $~lib/rt/stub/__new
+         i32.const 31024
+         local.get $1
+         local.get $2
+         call $src/PredictionMarket/encodePriceTargetSetEvent
+         call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
+         call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
+         br $folding-inner2
+        end
+        local.get $1
+        i32.const 1670601283
+        i32.eq
+        if
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+         local.set $1
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddressArray
+         local.set $4
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU8
+         i32.const 0
+         i32.ne
+         local.set $5
+         local.get $0
+         local.get $1
+         call $src/PredictionMarket/PredictionMarket#toSubPointer
+         local.tee $6
+         call $src/PredictionMarket/PredictionMarket#assertAllowlistManager
+         local.get $4
+         i32.load offset=12
+         if (result i32)
+          local.get $4
+          i32.load offset=12
+          i32.const 50
+          i32.gt_s
+         else
+          i32.const 1
+         end
+         if
+          i32.const 19200
+          i32.const 16656
+          i32.const 2342
+          i32.const 13
+          call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+          unreachable
+         end
+         i32.const 0
+         local.set $2
+         loop $for-loop|0
+          local.get $2
+          local.get $4
+          i32.load offset=12
+          i32.lt_s
+          if
+           local.get $0
+           local.get $1
+           local.get $6
+           local.get $4
+           local.get $2
+           call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/plugins/Plugin/Plugin>#__get
+           local.get $5
+           call $src/PredictionMarket/PredictionMarket#setAllowlistMember
+           local.get $2
+           i32.const 1
+           i32.add
+           local.set $2
+           br $for-loop|0
+          end
+         end
+         br $folding-inner2
+        end
+        local.get $1
+        i32.const -1434209303
+        i32.eq
+        if
+         local.get $0
+         local.get $2
+         call $src/PredictionMarket/PredictionMarket#joinMarket
+         return
+        end
+        local.get $1
+        i32.const 567178589
         i32.eq
         if
          local.get $0
+         local.get $2
+         call $src/PredictionMarket/PredictionMarket#getMarket
+         return
+        end
+        local.get $1
+        i32.const 744674593
+        i32.eq
+        if
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+         local.set $2
+         call $src/PredictionMarket/PredictionMarket#toSubPointer
+         local.set $1
          local.get $0
-         i64.load offset=24
+         i32.load16_u offset=302
+         local.get $1
          local.get $2
-         i64.or
-         i64.store offset=24
+         call $src/PredictionMarket/PredictionMarket#getUserBet
+         local.set $4
+         local.get $0
+         i32.load16_u offset=304
+         local.get $1
+         local.get $2
+         call $src/PredictionMarket/PredictionMarket#getUserBet
+         local.set $5
+         local.get $0
+         i32.load16_u offset=306
+         local.get $1
+         local.get $2
+         call $src/PredictionMarket/PredictionMarket#getUserBet
+         local.set $1
+         i32.const 65
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+         local.tee $0
+         local.get $4
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+         local.get $0
+         local.get $5
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+         i64.const 0
+         i64.const 0
+         i64.const 0
+         i64.const 0
+         call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+         local.set $2
+         local.get $0
+         local.get $1
+         i64.load
+         local.get $2
+         i64.load
+         i64.eq
+         if (result i32)
+          local.get $1
+          i64.load offset=8
+          local.get $2
+          i64.load offset=8
+          i64.eq
+         else
+          i32.const 0
+         end
+         if (result i32)
+          local.get $1
+          i64.load offset=16
+          local.get $2
+          i64.load offset=16
+          i64.eq
+         else
+          i32.const 0
+         end
+         if (result i32)
+          local.get $1
+          i64.load offset=24
+          local.get $2
+          i64.load offset=24
+          i64.eq
+         else
+          i32.const 0
+         end
+         i32.eqz
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+         br $folding-inner4
         end
-       end
-      end
-     else
-      local.get $0
-      local.get $0
-      i64.load
-      local.get $2
-      i64.or
-      i64.store
-     end
-    end
-    local.get $4
-    local.get $4
-    i64.load offset=8
-    i64.const 63
-    i64.shl
-    local.get $4
-    i64.load
-    i64.const 1
-    i64.shr_u
-    i64.or
-    i64.store
-    local.get $4
-    local.get $4
-    i64.load offset=16
-    i64.const 63
-    i64.shl
-    local.get $4
-    i64.load offset=8
-    i64.const 1
-    i64.shr_u
-    i64.or
-    i64.store offset=8
-    local.get $4
-    local.get $4
-    i64.load offset=24
-    i64.const 63
-    i64.shl
-    local.get $4
-    i64.load offset=16
-    i64.const 1
-    i64.shr_u
-    i64.or
-    i64.store offset=16
-    local.get $4
-    local.get $4
-    i64.load offset=24
-    i64.const 1
-    i64.shr_u
-    i64.store offset=24
-    local.get $1
-    i32.const 1
-    i32.sub
-    local.set $1
-    br $for-loop|0
+        local.get $1
+        i32.const -429150995
+        i32.eq
+        if
+         i32.const 0
+         local.set $1
+         local.get $0
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+         local.tee $2
+         call $src/PredictionMarket/PredictionMarket#toSubPointer
+         local.tee $4
+         call $src/PredictionMarket/PredictionMarket#getOutcomeCount
+         i64.load
+         i32.wrap_i64
+         local.tee $5
+         call $~lib/array/Array<~lib/@btc-vision/as-bignum/assembly/integer/u256/u256>#constructor
+         local.set $6
+         loop $for-loop|00
+          local.get $1
+          local.get $5
+          i32.lt_u
+          if
+           local.get $6
+           local.get $1
+           local.get $0
+           local.get $2
+           local.get $4
+           block $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.26 (result i32)
+            local.get $1
+            i32.const 1
+            i32.add
+            local.tee $8
+            i32.eqz
+            if
+             i64.const 0
+             i64.const 0
+             i64.const 0
+             i64.const 0
+             call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+             br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.26
+            end
+            local.get $8
+            i32.const 1
+            i32.eq
+            if
+             i64.const 1
+             i64.const 0
+             i64.const 0
+             i64.const 0
+             call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+             br $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.fromU32|inlined.26
+            end
+            local.get $8
+            i64.extend_i32_u
+            i64.const 0
+            i64.const 0
+            i64.const 0
+            call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+           end
+           call $src/PredictionMarket/PredictionMarket#getOutcomePoolStore
+           call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+           call $~lib/array/Array<~lib/@btc-vision/btc-runtime/runtime/types/Address/Address>#__set
+           local.get $1
+           i32.const 1
+           i32.add
+           local.set $1
+           br $for-loop|00
+          end
+         end
+         local.get $5
+         i32.const 5
+         i32.shl
+         i32.const 2
+         i32.add
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+         local.tee $0
+         local.get $6
+         call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256Array
+         br $folding-inner4
+        end
+        local.get $1
+        i32.const -1350218681
+        i32.eq
+        if
+         local.get $0
+         local.get $2
+         call $src/PredictionMarket/PredictionMarket#getUserStakes
+         return
+        end
+        block $folding-inner0
+         local.get $1
+         i32.const -1354626788
+         i32.eq
+         if
+          i32.const 32
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+          local.tee $1
+          local.get $0
+          i32.load offset=280
+          call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+          br $folding-inner0
+         end
+         local.get $1
+         i32.const 337851433
+         i32.eq
+         if
+          i32.const 32
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+          local.tee $1
+          local.get $0
+          i32.load offset=284
+          call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+          br $folding-inner0
+         end
+         local.get $1
+         i32.const 589867283
+         i32.eq
+         if
+          i32.const 130
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+          local.tee $1
+          local.get $0
+          i32.load offset=284
+          call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+          local.get $1
+          local.get $0
+          i32.load offset=412
+          call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+          local.get $1
+          local.get $0
+          i32.load offset=404
+          call $src/PredictionMarket/PredictionMarket#isFlagSet
+          i32.eqz
+          i32.eqz
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+          local.get $1
+          local.get $0
+          i32.load offset=408
+          call $src/PredictionMarket/PredictionMarket#isFlagSet
+          i32.eqz
+          i32.eqz
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+          local.get $1
+          local.get $0
+          call $src/PredictionMarket/PredictionMarket#getMaxMarkets
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+          local.get $1
+          local.get $0
+          i32.load offset=420
+          call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+          br $folding-inner0
+         end
+         local.get $1
+         i32.const -1839686031
+         i32.eq
+         if
+          i32.const 32
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+          local.set $1
+          global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+          local.tee $0
+          i32.load offset=24
+          i32.eqz
+          br_if $folding-inner1
+          local.get $0
+          i32.load offset=24
+          local.tee $0
+          i32.eqz
+          br_if $folding-inner3
+          local.get $0
+          i32.load offset=4
+          local.tee $0
+          i32.load offset=8
+          i32.const 32
+          i32.ne
+          br_if $folding-inner5
+          local.get $1
+          local.get $0
+          i32.load offset=4
+          local.tee $0
+          i64.load offset=24
+          call $~lib/polyfills/bswap<u64>
+          local.get $0
+          i64.load offset=16
+          call $~lib/polyfills/bswap<u64>
+          local.get $0
+          i64.load offset=8
+          call $~lib/polyfills/bswap<u64>
+          local.get $0
+          i64.load
+          call $~lib/polyfills/bswap<u64>
+          call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+          br $folding-inner6
+         end
+         local.get $1
+         i32.const 2097034041
+         i32.eq
+         if
+          i32.const 32
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+          local.tee $1
+          local.get $0
+          i32.load offset=312
+          call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+          br $folding-inner0
+         end
+         local.get $1
+         i32.const -1601623524
+         i32.eq
+         if
+          local.get $2
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+          local.set $2
+          local.get $0
+          i32.load16_u offset=344
+          global.get $~lib/@btc-vision/btc-runtime/runtime/math/bytes/EMPTY_POINTER
+          call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#constructor
+          local.set $4
+          i32.const 96
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+          local.tee $1
+          local.get $0
+          i32.load offset=328
+          call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+          local.get $1
+          local.get $0
+          i32.load offset=332
+          call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+          local.get $2
+          i32.load offset=8
+          i32.const 32
+          i32.ne
+          br_if $folding-inner5
+          local.get $1
+          local.get $4
+          local.get $2
+          i32.load offset=4
+          local.tee $0
+          i64.load offset=24
+          call $~lib/polyfills/bswap<u64>
+          local.get $0
+          i64.load offset=16
+          call $~lib/polyfills/bswap<u64>
+          local.get $0
+          i64.load offset=8
+          call $~lib/polyfills/bswap<u64>
+          local.get $0
+          i64.load
+          call $~lib/polyfills/bswap<u64>
+          call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+          call $~lib/@btc-vision/btc-runtime/runtime/storage/maps/StoredMapU256/StoredMapU256#get
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+          br $folding-inner6
+         end
+         local.get $1
+         i32.const -291362122
+         i32.eq
+         if
+          local.get $2
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+          call $src/PredictionMarket/PredictionMarket#toSubPointer
+          local.set $2
+          local.get $0
+          i32.load16_u offset=360
+          local.get $2
+          call $src/PredictionMarket/PredictionMarket#getMarketBlock
+          local.tee $3
+          i64.eqz
+          if (result i64)
+           i64.const 0
+          else
+           local.get $0
+           local.get $2
+           call $src/PredictionMarket/PredictionMarket#getDisputeEndBlock
+          end
+          local.set $7
+          i32.const 144
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+          local.tee $1
+          local.get $0
+          i32.load16_u offset=362
+          local.get $2
+          call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+          call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+          local.get $1
+          local.get $3
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+          local.get $1
+          local.get $7
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+          local.get $1
+          local.get $0
+          i32.load16_u offset=364
+          local.get $2
+          call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+          call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+          local.get $1
+          local.get $0
+          i32.load16_u offset=366
+          local.get $2
+          call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+          call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+          local.get $1
+          local.get $0
+          i32.load16_u offset=368
+          local.get $2
+          call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+          call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+          br $folding-inner6
+         end
+         local.get $1
+         i32.const -1859987086
+         i32.eq
+         if
+          i32.const 72
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+          local.tee $1
+          local.get $0
+          call $src/PredictionMarket/PredictionMarket#getDisputeWindow
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+          local.get $1
+          local.get $0
+          i32.load offset=352
+          call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+          local.get $1
+          local.get $0
+          call $src/PredictionMarket/PredictionMarket#getArbitrator
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+          br $folding-inner0
+         end
+         local.get $1
+         i32.const 222628961
+         i32.eq
+         if
+          local.get $0
+          local.get $2
+          call $src/PredictionMarket/PredictionMarket#getOracleVotes
+          return
+         end
+         local.get $1
+         i32.const 1573706233
+         i32.eq
+         if
+          local.get $2
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+          local.set $1
+          local.get $2
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+          local.set $4
+          local.get $2
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+          local.set $2
+          local.get $0
+          local.get $1
+          call $src/PredictionMarket/PredictionMarket#toSubPointer
+          local.tee $5
+          local.get $4
+          call $src/PredictionMarket/PredictionMarket#assertSellable
+          local.get $0
+          local.get $1
+          local.get $5
+          local.get $4
+          local.get $2
+          call $src/PredictionMarket/PredictionMarket#getSellQuote
+          local.set $0
+          i32.const 32
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+          local.tee $1
+          local.get $0
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+          br $folding-inner0
+         end
+         local.get $1
+         i32.const 497260235
+         i32.eq
+         if
+          local.get $2
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+          local.set $4
+          local.get $2
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+          local.set $2
+          i32.const 1
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+          local.tee $1
+          local.get $0
+          local.get $4
+          local.get $2
+          call $src/PredictionMarket/PredictionMarket#hasPositionOperator
+          i32.eqz
+          i32.eqz
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+          br $folding-inner6
+         end
+         local.get $1
+         i32.const -211438908
+         i32.eq
+         if
+          local.get $2
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
+          call $src/PredictionMarket/PredictionMarket#toSubPointer
+          local.set $2
+          i32.const 32
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+          local.tee $1
+          local.get $0
+          i32.load16_u offset=424
+          local.get $2
+          call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
+          call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+          br $folding-inner6
+         end
+         local.get $1
+         i32.const -1549029887
+         i32.eq
+         if
+          local.get $2
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readExtendedAddress
+          local.set $2
+          i32.const 1
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+          local.tee $1
+          local.get $0
+          local.get $2
+          call $src/PredictionMarket/PredictionMarket#toPriceSignerKey
+          call $src/PredictionMarket/PredictionMarket#hasPriceSigner
+          i32.eqz
+          i32.eqz
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+          br $folding-inner6
+         end
+         local.get $1
+         i32.const -1987869658
+         i32.eq
+         if
+          local.get $0
+          i32.load16_u offset=384
+          local.get $2
+          call $src/PredictionMarket/PredictionMarket#readIndexPage
+          return
+         end
+         local.get $1
+         i32.const -1798159441
+         i32.eq
+         if
+          local.get $0
+          i32.load16_u offset=386
+          local.get $2
+          call $src/PredictionMarket/PredictionMarket#readIndexPage
+          return
+         end
+         local.get $1
+         i32.const -1168823558
+         i32.eq
+         if
+          local.get $0
+          i32.load16_u offset=388
+          local.get $2
+          call $src/PredictionMarket/PredictionMarket#readIndexPage
+          return
+         end
+         local.get $1
+         i32.const 1343142942
+         i32.eq
+         if
+          local.get $0
+          local.get $2
+          call $src/PredictionMarket/PredictionMarket#getMarkets
+          return
+         end
+         local.get $1
+         i32.const 97437172
+         i32.eq
+         if
+          local.get $0
+          local.get $2
+          call $src/PredictionMarket/PredictionMarket#getUserPositions
+          return
+         end
+         local.get $1
+         i32.const 1381663819
+         i32.eq
+         if
+          local.get $2
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+          local.set $1
+          local.get $0
+          i32.const 176
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+          local.tee $0
+          local.get $1
+          call $src/PredictionMarket/PredictionMarket#writeOracleRecord
+          br $folding-inner4
+         end
+         local.get $1
+         i32.const 315468920
+         i32.eq
+         if
+          local.get $0
+          local.get $2
+          call $src/PredictionMarket/PredictionMarket#getOracles
+          return
+         end
+         local.get $1
+         i32.const 902036132
+         i32.eq
+         if
+          i32.const 72
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+          local.tee $1
+          local.get $0
+          i32.load offset=464
+          call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+          local.get $1
+          i64.const 2016
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+          local.get $1
+          global.get $src/PredictionMarket/ORACLE_DISPUTE_SLASH_BPS
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+          br $folding-inner0
+         end
+         local.get $1
+         i32.const -1933020078
+         i32.eq
+         if
+          local.get $0
+          local.get $2
+          call $src/PredictionMarket/PredictionMarket#isAllowlisted
+          return
+         end
+         local.get $1
+         i32.const 1617976684
+         i32.eq
+         if
+          i32.const 8
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+          local.tee $1
+          local.get $0
+          call $src/PredictionMarket/PredictionMarket#getCancelGracePeriod
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+          br $folding-inner0
+         end
+         local.get $1
+         i32.const 674194888
+         i32.eq
+         if
+          i32.const 8
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+          local.tee $1
+          local.get $0
+          call $src/PredictionMarket/PredictionMarket#getResolutionTimeout
+          call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU64
+          br $folding-inner0
+         end
+         local.get $0
+         local.get $1
+         local.get $2
+         call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#execute
+         return
+        end
+        br $folding-inner6
+       end
+       i32.const 17552
+       i32.const 5168
+       i32.const 145
+       i32.const 13
+       call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+       unreachable
+      end
+      i32.const 1
+      call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
+      local.tee $0
+      i32.const 1
+      call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU8
+      br $folding-inner4
+     end
+     i32.const 14672
+     i32.const 5168
+     i32.const 147
+     i32.const 16
+     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+     unreachable
+    end
+    local.get $0
+    return
    end
-  end
-  local.get $0
- )
- (func $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.mul (param $0 i32) (param $1 i32) (result i32)
-  (local $2 i32)
-  local.get $0
-  i64.load offset=24
-  local.get $0
-  i64.load offset=16
-  local.get $0
-  i64.load
-  local.get $0
-  i64.load offset=8
-  i64.or
-  i64.or
-  i64.or
-  i64.eqz
-  if (result i64)
-   i64.const 0
-  else
-   local.get $1
-   i64.load offset=24
-   local.get $1
-   i64.load offset=16
-   local.get $1
-   i64.load
-   local.get $1
-   i64.load offset=8
-   i64.or
-   i64.or
-   i64.or
-  end
-  i64.eqz
-  if
-   i64.const 0
-   i64.const 0
-   i64.const 0
-   i64.const 0
-   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-   return
-  end
-  local.get $0
-  i64.load
-  local.get $0
-  i64.load offset=8
-  local.get $0
-  i64.load offset=16
-  local.get $0
-  i64.load offset=24
-  local.get $1
-  i64.load
-  local.get $1
-  i64.load offset=8
-  local.get $1
-  i64.load offset=16
-  local.get $1
-  i64.load offset=24
-  call $~lib/@btc-vision/as-bignum/assembly/globals/__mul256
-  local.tee $2
-  local.get $0
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.div
-  local.tee $0
-  i64.load
-  local.get $1
-  i64.load
-  i64.eq
-  if (result i32)
-   local.get $0
-   i64.load offset=8
-   local.get $1
-   i64.load offset=8
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $0
-   i64.load offset=16
-   local.get $1
-   i64.load offset=16
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $0
-   i64.load offset=24
-   local.get $1
-   i64.load offset=24
-   i64.eq
-  else
-   i32.const 0
-  end
-  i32.eqz
-  if
-   i32.const 13760
-   i32.const 11872
-   i32.const 190
-   i32.const 28
+   i32.const 2304
+   i32.const 5664
+   i32.const 220
+   i32.const 30
    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
    unreachable
   end
-  local.get $2
+  local.get $1
  )
- (func $src/PredictionMarket/PredictionMarket#claimWinnings (param $0 i32) (param $1 i32) (result i32)
+ (func $src/PredictionMarket/PredictionMarket#onDeployment (param $0 i32) (param $1 i32)
   (local $2 i32)
   (local $3 i32)
-  (local $4 i32)
-  (local $5 i32)
-  (local $6 i32)
-  (local $7 i32)
-  local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readU256
-  local.tee $5
-  call $src/PredictionMarket/PredictionMarket#toSubPointer
-  local.set $7
-  local.get $0
-  i32.load16_u offset=58
-  local.get $7
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
-  local.tee $1
-  i64.load
-  global.get $src/PredictionMarket/STATUS_RESOLVED
-  local.tee $2
-  i64.load
-  i64.eq
-  if (result i32)
-   local.get $1
-   i64.load offset=8
-   local.get $2
-   i64.load offset=8
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $1
-   i64.load offset=16
-   local.get $2
-   i64.load offset=16
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $1
-   i64.load offset=24
-   local.get $2
-   i64.load offset=24
-   i64.eq
-  else
-   i32.const 0
-  end
-  i32.eqz
-  if
-   i32.const 13488
-   i32.const 11232
-   i32.const 308
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
-  local.tee $1
-  i32.load offset=24
-  i32.eqz
-  if
-   i32.const 12000
-   i32.const 5392
-   i32.const 145
-   i32.const 13
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  local.get $1
-  i32.load offset=24
-  local.tee $1
-  i32.eqz
-  if
-   i32.const 9488
-   i32.const 5392
-   i32.const 147
-   i32.const 16
-   call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
-   unreachable
-  end
-  local.get $0
-  i32.load16_u offset=70
-  local.get $7
-  local.get $1
-  i32.load offset=4
-  local.tee $3
-  call $src/PredictionMarket/PredictionMarket#getUserBet
-  local.set $1
-  i64.const 0
-  i64.const 0
-  i64.const 0
-  i64.const 0
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-  local.set $2
-  local.get $1
-  i64.load
-  local.get $2
-  i64.load
-  i64.eq
-  if (result i32)
-   local.get $1
-   i64.load offset=8
-   local.get $2
-   i64.load offset=8
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $1
-   i64.load offset=16
-   local.get $2
-   i64.load offset=16
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $1
-   i64.load offset=24
-   local.get $2
-   i64.load offset=24
-   i64.eq
-  else
-   i32.const 0
-  end
+  global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
+  local.tee $2
+  i32.load offset=24
   i32.eqz
   if
-   i32.const 13568
-   i32.const 11232
-   i32.const 314
+   i32.const 17552
+   i32.const 5168
+   i32.const 145
    i32.const 13
    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
    unreachable
   end
-  local.get $0
-  i32.load16_u offset=60
-  local.get $7
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-  call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
-  local.tee $1
-  i64.load
-  global.get $src/PredictionMarket/OUTCOME_YES
+  local.get $2
+  i32.load offset=24
   local.tee $2
-  i64.load
-  i64.eq
-  if (result i32)
-   local.get $1
-   i64.load offset=8
-   local.get $2
-   i64.load offset=8
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $1
-   i64.load offset=16
-   local.get $2
-   i64.load offset=16
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $1
-   i64.load offset=24
-   local.get $2
-   i64.load offset=24
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $0
-   i32.load16_u offset=66
-   local.get $7
-   local.get $3
-   call $src/PredictionMarket/PredictionMarket#getUserBet
-   local.set $1
-   local.get $0
-   i32.load16_u offset=62
-   local.get $7
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
-   local.set $2
-   local.get $0
-   i32.load16_u offset=64
-   local.get $7
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
-  else
-   local.get $0
-   i32.load16_u offset=68
-   local.get $7
-   local.get $3
-   call $src/PredictionMarket/PredictionMarket#getUserBet
-   local.set $1
-   local.get $0
-   i32.load16_u offset=64
-   local.get $7
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
-   local.set $2
-   local.get $0
-   i32.load16_u offset=62
-   local.get $7
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#constructor
-   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#get:value
-  end
-  local.set $6
-  i64.const 0
-  i64.const 0
-  i64.const 0
-  i64.const 0
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-  local.set $4
-  local.get $1
-  i64.load
-  local.get $4
-  i64.load
-  i64.eq
-  if (result i32)
-   local.get $1
-   i64.load offset=8
-   local.get $4
-   i64.load offset=8
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $1
-   i64.load offset=16
-   local.get $4
-   i64.load offset=16
-   i64.eq
-  else
-   i32.const 0
-  end
-  if (result i32)
-   local.get $1
-   i64.load offset=24
-   local.get $4
-   i64.load offset=24
-   i64.eq
-  else
-   i32.const 0
-  end
+  i32.eqz
   if
-   i32.const 13632
-   i32.const 11232
-   i32.const 334
-   i32.const 13
+   i32.const 14672
+   i32.const 5168
+   i32.const 147
+   i32.const 16
    call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
    unreachable
   end
-  block $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.div$100 (result i32)
-   local.get $1
+  local.get $0
+  i32.load offset=284
+  local.set $3
+  block $folding-inner0
    local.get $2
-   local.get $6
-   call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.add
-   call $~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.mul
-   local.set $1
+   i32.load offset=4
+   local.tee $2
+   i32.load offset=8
+   i32.const 32
+   i32.ne
+   br_if $folding-inner0
+   local.get $3
    local.get $2
+   i32.load offset=4
+   local.tee $2
    i64.load offset=24
+   call $~lib/polyfills/bswap<u64>
    local.get $2
    i64.load offset=16
-   local.get $2
-   i64.load
+   call $~lib/polyfills/bswap<u64>
    local.get $2
    i64.load offset=8
-   i64.or
-   i64.or
-   i64.or
-   i64.eqz
+   call $~lib/polyfills/bswap<u64>
+   local.get $2
+   i64.load
+   call $~lib/polyfills/bswap<u64>
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+   local.get $1
+   call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesReader/BytesReader#readAddress
+   local.tee $1
+   call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#isZero@override
    if
-    i32.const 13856
-    i32.const 11872
-    i32.const 265
+    i32.const 31456
+    i32.const 16656
+    i32.const 788
     i32.const 13
     call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
     unreachable
    end
+   local.get $0
+   i32.load offset=312
+   local.get $1
+   i32.load offset=8
+   i32.const 32
+   i32.ne
+   br_if $folding-inner0
    local.get $1
+   i32.load offset=4
+   local.tee $1
    i64.load offset=24
+   call $~lib/polyfills/bswap<u64>
    local.get $1
    i64.load offset=16
-   local.get $1
-   i64.load
+   call $~lib/polyfills/bswap<u64>
    local.get $1
    i64.load offset=8
-   i64.or
-   i64.or
-   i64.or
-   i64.eqz
-   if
-    i64.const 0
-    i64.const 0
-    i64.const 0
-    i64.const 0
-    call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-    br $__inlined_func$~lib/@btc-vision/btc-runtime/runtime/types/SafeMath/SafeMath.div$100
-   end
+   call $~lib/polyfills/bswap<u64>
    local.get $1
-   local.get $2
-   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256.div
+   i64.load
+   call $~lib/polyfills/bswap<u64>
+   call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+   local.get $0
+   i32.load offset=352
+   global.get $src/PredictionMarket/DEFAULT_DISPUTE_BOND
+   call $~lib/@btc-vision/btc-runtime/runtime/storage/StoredU256/StoredU256#set:value
+   return
   end
-  local.set $1
+  i32.const 2304
+  i32.const 5664
+  i32.const 220
+  i32.const 30
+  call $~lib/@btc-vision/btc-runtime/runtime/abort/abort/revertOnError
+  unreachable
+ )
+ (func $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#isZero@override (param $0 i32) (result i32)
   local.get $0
-  i32.load16_u offset=70
-  local.get $7
-  local.get $3
-  i64.const 1
-  i64.const 0
-  i64.const 0
-  i64.const 0
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-  call $src/PredictionMarket/PredictionMarket#setUserBet
-  i32.const 12
-  i32.const 47
-  call $~lib/rt/stub/__new
-  i32.const 96
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
-  local.tee $2
-  local.get $5
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
-  local.get $2
-  local.get $3
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeAddress
-  local.get $2
-  local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
-  i32.const 13936
-  local.get $2
-  call $~lib/@btc-vision/btc-runtime/runtime/events/NetEvent/NetEvent#constructor
-  call $~lib/@btc-vision/btc-runtime/runtime/contracts/OP_NET/OP_NET#emitEvent
-  i32.const 32
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#constructor
-  local.tee $0
-  local.get $1
-  call $~lib/@btc-vision/btc-runtime/runtime/buffer/BytesWriter/BytesWriter#writeU256
+  i32.const 8
+  i32.sub
+  i32.load
+  i32.const 15
+  i32.eq
+  if
+   local.get $0
+   call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#isZero
+   return
+  end
   local.get $0
+  call $~lib/@btc-vision/btc-runtime/runtime/types/Address/Address#isZero
  )
  (func $~start
   (local $0 i32)
@@ -8605,39 +23632,10 @@
   i32.const 1
   global.set $~started
   call $start:~lib/@btc-vision/btc-runtime/runtime/index
-  i64.const 1
-  i64.const 0
-  i64.const 0
-  i64.const 0
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-  global.set $src/PredictionMarket/OUTCOME_YES
-  i64.const 2
-  i64.const 0
-  i64.const 0
-  i64.const 0
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-  global.set $src/PredictionMarket/OUTCOME_NO
-  i64.const 1
-  i64.const 0
-  i64.const 0
-  i64.const 0
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-  global.set $src/PredictionMarket/STATUS_OPEN
-  i64.const 2
-  i64.const 0
-  i64.const 0
-  i64.const 0
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-  global.set $src/PredictionMarket/STATUS_RESOLVED
-  i64.const 10000
-  i64.const 0
-  i64.const 0
-  i64.const 0
-  call $~lib/@btc-vision/as-bignum/assembly/integer/u256/u256#constructor
-  global.set $src/PredictionMarket/MAX_MARKETS
+  call $start:src/PredictionMarket
   global.get $~lib/@btc-vision/btc-runtime/runtime/env/index/Blockchain
   local.tee $0
-  i32.const 8720
+  i32.const 13904
   i32.store offset=28
   local.get $0
   call $~lib/@btc-vision/btc-runtime/runtime/env/BlockchainEnvironment/BlockchainEnvironment#createContractIfNotExists
@@ -15,19 +15,83 @@ import {
     AddressMemoryMap,
     StoredMapU256,
     EMPTY_POINTER,
+    ExtendedAddress,
+    TransferHelper,
 } from '@btc-vision/btc-runtime/runtime';
 
 const OUTCOME_YES: u256 = u256.One;
 const OUTCOME_NO: u256 = u256.fromU32(2);
 const STATUS_OPEN: u256 = u256.One;
 const STATUS_RESOLVED: u256 = u256.fromU32(2);
-const MAX_MARKETS: u256 = u256.fromU32(10000);
-
-function encodeMarketCreatedEvent(marketId: u256, creator: Address, endBlock: u64): BytesWriter {
-    const writer: BytesWriter = new BytesWriter(72);
+const STATUS_CANCELLED: u256 = u256.fromU32(3);
+// The oracle has proposed an outcome and the dispute window is running
+const STATUS_PROPOSED: u256 = u256.fromU32(4);
+// The proposal was challenged and awaits the arbitrator's ruling
+const STATUS_DISPUTED: u256 = u256.fromU32(5);
+// Market cap until the owner sets one with setMaxMarkets
+const DEFAULT_MAX_MARKETS: u256 = u256.fromU32(10000);
+const BINARY_OUTCOME_COUNT: u256 = u256.fromU32(2);
+const MIN_CATEGORICAL_OUTCOMES: u16 = 3;
+const MAX_CATEGORICAL_OUTCOMES: u16 = 16;
+// Blocks after resolveAfterBlock before anyone may cancel an unresolved market (~1 week)
+const DEFAULT_CANCEL_GRACE_BLOCKS: u64 = 1008;
+// Blocks after resolveAfterBlock before the fallback oracle or the owner may
+// resolve in place of a silent oracle (~3 days), inside the cancel grace period
+const DEFAULT_RESOLUTION_TIMEOUT_BLOCKS: u64 = 432;
+// Who proposed (or ruled on) a market's outcome, as recorded in MarketResolved
+const RESOLVED_BY_ORACLE: u8 = 1;
+const RESOLVED_BY_COMMITTEE: u8 = 2;
+const RESOLVED_BY_PRICE_SIGNER: u8 = 3;
+const RESOLVED_BY_FALLBACK_ORACLE: u8 = 4;
+const RESOLVED_BY_OWNER: u8 = 5;
+const RESOLVED_BY_ARBITRATOR: u8 = 6;
+// Fees are in basis points of the losing pools, taken at resolution
+const BPS_DENOMINATOR: u256 = u256.fromU32(10000);
+const MAX_PROTOCOL_FEE_BPS: u256 = u256.fromU32(1000);
+const MAX_CREATOR_FEE_BPS: u256 = u256.fromU32(1000);
+// Blocks a proposed outcome stays open to challenge (~1 day)
+const DEFAULT_DISPUTE_WINDOW_BLOCKS: u64 = 144;
+// Collateral a challenger posts when disputing a proposed outcome
+const DEFAULT_DISPUTE_BOND: u256 = u256.fromU64(100000);
+// Oracle committees: an M-of-N vote replaces the single oracle's proposal
+const MIN_COMMITTEE_SIZE: u16 = 2;
+const MAX_COMMITTEE_SIZE: u16 = 10;
+// Largest page the per-address market indexes return in one call
+const MAX_INDEX_PAGE: u32 = 100;
+// Most markets packed into one getMarkets / getUserPositions response
+const MAX_BATCH_SIZE: u32 = 50;
+// Signed price attestations: contract address, market id, price and the
+// observed block, hashed and Schnorr-signed by an approved price signer.
+// Prices and targets are fixed-point with 8 decimals.
+const PRICE_ATTESTATION_LENGTH: i32 = 104;
+// Blocks unstaked oracle collateral stays slashable before it can be
+// withdrawn (~2 weeks), longer than a proposal's dispute window
+const ORACLE_UNBONDING_BLOCKS: u64 = 2016;
+// Share of an oracle's stake slashed when the arbitrator overturns that
+// oracle's proposal, in basis points; the challenger gets it when the ruling
+// is the outcome they disputed with
+const ORACLE_DISPUTE_SLASH_BPS: u256 = u256.fromU32(1000);
+// Early exits pay the stake at the pool odds less a spread in basis points,
+// growing linearly with the share of the outcome pool sold: 1% for a small
+// sale, 10% for the whole pool
+const MIN_EXIT_SPREAD_BPS: u256 = u256.fromU32(100);
+const MAX_EXIT_SPREAD_BPS: u256 = u256.fromU32(1000);
+// Private markets: most addresses the creator can add or remove in one call,
+// and the deepest Merkle proof accepted (2^32 allowlisted addresses)
+const MAX_ALLOWLIST_BATCH: i32 = 50;
+const MAX_ALLOWLIST_PROOF_DEPTH: i32 = 32;
+
+function encodeMarketCreatedEvent(
+    marketId: u256,
+    creator: Address,
+    closeBlock: u64,
+    resolveAfterBlock: u64,
+): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(80);
     writer.writeU256(marketId);
     writer.writeAddress(creator);
-    writer.writeU64(endBlock);
+    writer.writeU64(closeBlock);
+    writer.writeU64(resolveAfterBlock);
     return writer;
 }
 
@@ -40,10 +104,11 @@ function encodeBetPlacedEvent(marketId: u256, bettor: Address, outcome: u256, am
     return writer;
 }
 
-function encodeMarketResolvedEvent(marketId: u256, outcome: u256): BytesWriter {
-    const writer: BytesWriter = new BytesWriter(64);
+function encodeMarketResolvedEvent(marketId: u256, outcome: u256, resolvedBy: u8): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(65);
     writer.writeU256(marketId);
     writer.writeU256(outcome);
+    writer.writeU8(resolvedBy);
     return writer;
 }
 
@@ -55,9 +120,234 @@ function encodeWingsClaimedEvent(marketId: u256, claimant: Address, amount: u256
     return writer;
 }
 
+function encodeMarketCancelledEvent(marketId: u256, cancelledBy: Address): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(64);
+    writer.writeU256(marketId);
+    writer.writeAddress(cancelledBy);
+    return writer;
+}
+
+function encodeRefundClaimedEvent(marketId: u256, claimant: Address, amount: u256): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(96);
+    writer.writeU256(marketId);
+    writer.writeAddress(claimant);
+    writer.writeU256(amount);
+    return writer;
+}
+
+function encodeFeesAccruedEvent(marketId: u256, protocolFee: u256, creatorFee: u256): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(96);
+    writer.writeU256(marketId);
+    writer.writeU256(protocolFee);
+    writer.writeU256(creatorFee);
+    return writer;
+}
+
+function encodeFeesWithdrawnEvent(recipient: Address, amount: u256): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(64);
+    writer.writeAddress(recipient);
+    writer.writeU256(amount);
+    return writer;
+}
+
+function encodeProtocolFeeUpdatedEvent(feeBps: u256): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(32);
+    writer.writeU256(feeBps);
+    return writer;
+}
+
+function encodeOutcomeProposedEvent(marketId: u256, outcome: u256, disputeEndBlock: u64): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(72);
+    writer.writeU256(marketId);
+    writer.writeU256(outcome);
+    writer.writeU64(disputeEndBlock);
+    return writer;
+}
+
+function encodeOutcomeDisputedEvent(marketId: u256, disputer: Address, outcome: u256, bond: u256): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(128);
+    writer.writeU256(marketId);
+    writer.writeAddress(disputer);
+    writer.writeU256(outcome);
+    writer.writeU256(bond);
+    return writer;
+}
+
+function encodeDisputeRuledEvent(marketId: u256, outcome: u256, disputerWon: bool): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(65);
+    writer.writeU256(marketId);
+    writer.writeU256(outcome);
+    writer.writeBoolean(disputerWon);
+    return writer;
+}
+
+function encodeOracleVotedEvent(marketId: u256, oracle: Address, outcome: u256): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(96);
+    writer.writeU256(marketId);
+    writer.writeAddress(oracle);
+    writer.writeU256(outcome);
+    return writer;
+}
+
+function encodePositionSoldEvent(
+    marketId: u256,
+    seller: Address,
+    outcome: u256,
+    shares: u256,
+    amountOut: u256,
+): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(160);
+    writer.writeU256(marketId);
+    writer.writeAddress(seller);
+    writer.writeU256(outcome);
+    writer.writeU256(shares);
+    writer.writeU256(amountOut);
+    return writer;
+}
+
+function encodePositionTransferredEvent(
+    marketId: u256,
+    from: Address,
+    to: Address,
+    outcome: u256,
+    shares: u256,
+): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(160);
+    writer.writeU256(marketId);
+    writer.writeAddress(from);
+    writer.writeAddress(to);
+    writer.writeU256(outcome);
+    writer.writeU256(shares);
+    return writer;
+}
+
+function encodePositionOperatorSetEvent(owner: Address, operator: Address, approved: bool): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(65);
+    writer.writeAddress(owner);
+    writer.writeAddress(operator);
+    writer.writeBoolean(approved);
+    return writer;
+}
+
+function encodePauseUpdatedEvent(bettingPaused: bool, creationPaused: bool): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(2);
+    writer.writeBoolean(bettingPaused);
+    writer.writeBoolean(creationPaused);
+    return writer;
+}
+
+function encodeOwnershipTransferStartedEvent(owner: Address, pendingOwner: Address): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(64);
+    writer.writeAddress(owner);
+    writer.writeAddress(pendingOwner);
+    return writer;
+}
+
+function encodeOwnershipTransferredEvent(previousOwner: Address, newOwner: Address): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(64);
+    writer.writeAddress(previousOwner);
+    writer.writeAddress(newOwner);
+    return writer;
+}
+
+function encodeMaxMarketsUpdatedEvent(maxMarkets: u256): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(32);
+    writer.writeU256(maxMarkets);
+    return writer;
+}
+
+function encodeMinBetUpdatedEvent(minBet: u256): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(32);
+    writer.writeU256(minBet);
+    return writer;
+}
+
+function encodePriceTargetSetEvent(marketId: u256, targetPrice: u256): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(64);
+    writer.writeU256(marketId);
+    writer.writeU256(targetPrice);
+    return writer;
+}
+
+function encodePriceSignerSetEvent(signerKey: u256, approved: bool): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(33);
+    writer.writeU256(signerKey);
+    writer.writeBoolean(approved);
+    return writer;
+}
+
+function encodePriceAttestedEvent(marketId: u256, price: u256, observedBlock: u64, signerKey: u256): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(104);
+    writer.writeU256(marketId);
+    writer.writeU256(price);
+    writer.writeU64(observedBlock);
+    writer.writeU256(signerKey);
+    return writer;
+}
+
+function encodeOracleRegisteredEvent(oracle: Address, stake: u256, profileHash: u256): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(96);
+    writer.writeAddress(oracle);
+    writer.writeU256(stake);
+    writer.writeU256(profileHash);
+    return writer;
+}
+
+function encodeOracleUnstakedEvent(oracle: Address, amount: u256, unlockBlock: u64): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(72);
+    writer.writeAddress(oracle);
+    writer.writeU256(amount);
+    writer.writeU64(unlockBlock);
+    return writer;
+}
+
+function encodeOracleStakeWithdrawnEvent(oracle: Address, amount: u256): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(64);
+    writer.writeAddress(oracle);
+    writer.writeU256(amount);
+    return writer;
+}
+
+function encodeOracleSlashedEvent(oracle: Address, amount: u256, marketId: u256): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(96);
+    writer.writeAddress(oracle);
+    writer.writeU256(amount);
+    writer.writeU256(marketId);
+    return writer;
+}
+
+function encodeMinOracleStakeUpdatedEvent(minStake: u256): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(32);
+    writer.writeU256(minStake);
+    return writer;
+}
+
+function encodeAllowlistRootUpdatedEvent(marketId: u256, root: u256): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(64);
+    writer.writeU256(marketId);
+    writer.writeU256(root);
+    return writer;
+}
+
+function encodeAllowlistMemberSetEvent(marketId: u256, member: Address, allowed: bool): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(65);
+    writer.writeU256(marketId);
+    writer.writeAddress(member);
+    writer.writeBoolean(allowed);
+    return writer;
+}
+
+function encodeMarketJoinedEvent(marketId: u256, member: Address, root: u256): BytesWriter {
+    const writer: BytesWriter = new BytesWriter(96);
+    writer.writeU256(marketId);
+    writer.writeAddress(member);
+    writer.writeU256(root);
+    return writer;
+}
+
 class MarketCreated extends NetEvent {
-    public constructor(marketId: u256, creator: Address, endBlock: u64) {
-        super('MarketCreated', encodeMarketCreatedEvent(marketId, creator, endBlock));
+    public constructor(marketId: u256, creator: Address, closeBlock: u64, resolveAfterBlock: u64) {
+        super('MarketCreated', encodeMarketCreatedEvent(marketId, creator, closeBlock, resolveAfterBlock));
     }
 }
 
@@ -68,8 +358,8 @@ class BetPlaced extends NetEvent {
 }
 
 class MarketResolved extends NetEvent {
-    public constructor(marketId: u256, outcome: u256) {
-        super('MarketResolved', encodeMarketResolvedEvent(marketId, outcome));
+    public constructor(marketId: u256, outcome: u256, resolvedBy: u8) {
+        super('MarketResolved', encodeMarketResolvedEvent(marketId, outcome, resolvedBy));
     }
 }
 
@@ -79,17 +369,261 @@ class WinningsClaimed extends NetEvent {
     }
 }
 
+class MarketCancelled extends NetEvent {
+    public constructor(marketId: u256, cancelledBy: Address) {
+        super('MarketCancelled', encodeMarketCancelledEvent(marketId, cancelledBy));
+    }
+}
+
+class RefundClaimed extends NetEvent {
+    public constructor(marketId: u256, claimant: Address, amount: u256) {
+        super('RefundClaimed', encodeRefundClaimedEvent(marketId, claimant, amount));
+    }
+}
+
+class FeesAccrued extends NetEvent {
+    public constructor(marketId: u256, protocolFee: u256, creatorFee: u256) {
+        super('FeesAccrued', encodeFeesAccruedEvent(marketId, protocolFee, creatorFee));
+    }
+}
+
+class FeesWithdrawn extends NetEvent {
+    public constructor(recipient: Address, amount: u256) {
+        super('FeesWithdrawn', encodeFeesWithdrawnEvent(recipient, amount));
+    }
+}
+
+class ProtocolFeeUpdated extends NetEvent {
+    public constructor(feeBps: u256) {
+        super('ProtocolFeeUpdated', encodeProtocolFeeUpdatedEvent(feeBps));
+    }
+}
+
+class PauseUpdated extends NetEvent {
+    public constructor(bettingPaused: bool, creationPaused: bool) {
+        super('PauseUpdated', encodePauseUpdatedEvent(bettingPaused, creationPaused));
+    }
+}
+
+class OwnershipTransferStarted extends NetEvent {
+    public constructor(owner: Address, pendingOwner: Address) {
+        super('OwnershipTransferStarted', encodeOwnershipTransferStartedEvent(owner, pendingOwner));
+    }
+}
+
+class OwnershipTransferred extends NetEvent {
+    public constructor(previousOwner: Address, newOwner: Address) {
+        super('OwnershipTransferred', encodeOwnershipTransferredEvent(previousOwner, newOwner));
+    }
+}
+
+class MaxMarketsUpdated extends NetEvent {
+    public constructor(maxMarkets: u256) {
+        super('MaxMarketsUpdated', encodeMaxMarketsUpdatedEvent(maxMarkets));
+    }
+}
+
+class MinBetUpdated extends NetEvent {
+    public constructor(minBet: u256) {
+        super('MinBetUpdated', encodeMinBetUpdatedEvent(minBet));
+    }
+}
+
+class PriceTargetSet extends NetEvent {
+    public constructor(marketId: u256, targetPrice: u256) {
+        super('PriceTargetSet', encodePriceTargetSetEvent(marketId, targetPrice));
+    }
+}
+
+class PriceSignerSet extends NetEvent {
+    public constructor(signerKey: u256, approved: bool) {
+        super('PriceSignerSet', encodePriceSignerSetEvent(signerKey, approved));
+    }
+}
+
+class PriceAttested extends NetEvent {
+    public constructor(marketId: u256, price: u256, observedBlock: u64, signerKey: u256) {
+        super('PriceAttested', encodePriceAttestedEvent(marketId, price, observedBlock, signerKey));
+    }
+}
+
+class OutcomeProposed extends NetEvent {
+    public constructor(marketId: u256, outcome: u256, disputeEndBlock: u64) {
+        super('OutcomeProposed', encodeOutcomeProposedEvent(marketId, outcome, disputeEndBlock));
+    }
+}
+
+class OutcomeDisputed extends NetEvent {
+    public constructor(marketId: u256, disputer: Address, outcome: u256, bond: u256) {
+        super('OutcomeDisputed', encodeOutcomeDisputedEvent(marketId, disputer, outcome, bond));
+    }
+}
+
+class DisputeRuled extends NetEvent {
+    public constructor(marketId: u256, outcome: u256, disputerWon: bool) {
+        super('DisputeRuled', encodeDisputeRuledEvent(marketId, outcome, disputerWon));
+    }
+}
+
+class OracleVoted extends NetEvent {
+    public constructor(marketId: u256, oracle: Address, outcome: u256) {
+        super('OracleVoted', encodeOracleVotedEvent(marketId, oracle, outcome));
+    }
+}
+
+class PositionSold extends NetEvent {
+    public constructor(marketId: u256, seller: Address, outcome: u256, shares: u256, amountOut: u256) {
+        super('PositionSold', encodePositionSoldEvent(marketId, seller, outcome, shares, amountOut));
+    }
+}
+
+class PositionTransferred extends NetEvent {
+    public constructor(marketId: u256, from: Address, to: Address, outcome: u256, shares: u256) {
+        super('PositionTransferred', encodePositionTransferredEvent(marketId, from, to, outcome, shares));
+    }
+}
+
+class PositionOperatorSet extends NetEvent {
+    public constructor(owner: Address, operator: Address, approved: bool) {
+        super('PositionOperatorSet', encodePositionOperatorSetEvent(owner, operator, approved));
+    }
+}
+
+class OracleRegistered extends NetEvent {
+    public constructor(oracle: Address, stake: u256, profileHash: u256) {
+        super('OracleRegistered', encodeOracleRegisteredEvent(oracle, stake, profileHash));
+    }
+}
+
+class OracleUnstaked extends NetEvent {
+    public constructor(oracle: Address, amount: u256, unlockBlock: u64) {
+        super('OracleUnstaked', encodeOracleUnstakedEvent(oracle, amount, unlockBlock));
+    }
+}
+
+class OracleStakeWithdrawn extends NetEvent {
+    public constructor(oracle: Address, amount: u256) {
+        super('OracleStakeWithdrawn', encodeOracleStakeWithdrawnEvent(oracle, amount));
+    }
+}
+
+/** Emitted for owner slashes with a zero market id. */
+class OracleSlashed extends NetEvent {
+    public constructor(oracle: Address, amount: u256, marketId: u256) {
+        super('OracleSlashed', encodeOracleSlashedEvent(oracle, amount, marketId));
+    }
+}
+
+class MinOracleStakeUpdated extends NetEvent {
+    public constructor(minStake: u256) {
+        super('MinOracleStakeUpdated', encodeMinOracleStakeUpdatedEvent(minStake));
+    }
+}
+
+class AllowlistRootUpdated extends NetEvent {
+    public constructor(marketId: u256, root: u256) {
+        super('AllowlistRootUpdated', encodeAllowlistRootUpdatedEvent(marketId, root));
+    }
+}
+
+class AllowlistMemberSet extends NetEvent {
+    public constructor(marketId: u256, member: Address, allowed: bool) {
+        super('AllowlistMemberSet', encodeAllowlistMemberSetEvent(marketId, member, allowed));
+    }
+}
+
+class MarketJoined extends NetEvent {
+    public constructor(marketId: u256, member: Address, root: u256) {
+        super('MarketJoined', encodeMarketJoinedEvent(marketId, member, root));
+    }
+}
+
 @final
 export class PredictionMarket extends OP_NET {
-    private readonly createMarketSelector: Selector = encodeSelector('createMarket(string,uint64,address)');
+    private readonly createMarketSelector: Selector = encodeSelector(
+        'createMarket(string,uint64,uint64,address,address,uint256,address[],uint256,uint256,uint256,address[])',
+    );
+    private readonly createCategoricalMarketSelector: Selector = encodeSelector(
+        'createCategoricalMarket(string,uint64,uint64,address,address,uint256,address[],uint256,uint256,uint256,address[],string[])',
+    );
+    private readonly createScalarMarketSelector: Selector = encodeSelector(
+        'createScalarMarket(string,uint64,uint64,address,address,uint256,uint256,uint256,address[],uint256,uint256)',
+    );
     private readonly placeBetSelector: Selector = encodeSelector('placeBet(uint256,uint256,uint256)');
     private readonly resolveMarketSelector: Selector = encodeSelector('resolveMarket(uint256,uint256)');
+    private readonly resolveScalarMarketSelector: Selector = encodeSelector('resolveScalarMarket(uint256,uint256)');
+    private readonly setPriceTargetSelector: Selector = encodeSelector('setPriceTarget(uint256,uint256)');
+    private readonly resolveWithPriceSelector: Selector = encodeSelector(
+        'resolveWithPrice(uint256,uint256,uint64,extendedAddress,bytes)',
+    );
+    private readonly voteOutcomeSelector: Selector = encodeSelector('voteOutcome(uint256,uint256)');
+    private readonly disputeOutcomeSelector: Selector = encodeSelector('disputeOutcome(uint256,uint256)');
+    private readonly finalizeMarketSelector: Selector = encodeSelector('finalizeMarket(uint256)');
+    private readonly ruleDisputeSelector: Selector = encodeSelector('ruleDispute(uint256,uint256)');
+    private readonly sellPositionSelector: Selector = encodeSelector('sellPosition(uint256,uint256,uint256,uint256)');
+    private readonly transferPositionSelector: Selector = encodeSelector(
+        'transferPosition(uint256,uint256,address,uint256)',
+    );
+    private readonly transferPositionFromSelector: Selector = encodeSelector(
+        'transferPositionFrom(address,address,uint256,uint256,uint256)',
+    );
+    private readonly setPositionOperatorSelector: Selector = encodeSelector('setPositionOperator(address,bool)');
     private readonly claimWinningsSelector: Selector = encodeSelector('claimWinnings(uint256)');
+    private readonly cancelMarketSelector: Selector = encodeSelector('cancelMarket(uint256)');
+    private readonly claimRefundSelector: Selector = encodeSelector('claimRefund(uint256)');
+    private readonly setCancelGracePeriodSelector: Selector = encodeSelector('setCancelGracePeriod(uint64)');
+    private readonly setResolutionTimeoutSelector: Selector = encodeSelector('setResolutionTimeout(uint64)');
+    private readonly setProtocolFeeSelector: Selector = encodeSelector('setProtocolFee(uint256)');
+    private readonly withdrawFeesSelector: Selector = encodeSelector('withdrawFees()');
+    private readonly setDisputeWindowSelector: Selector = encodeSelector('setDisputeWindow(uint64)');
+    private readonly setDisputeBondSelector: Selector = encodeSelector('setDisputeBond(uint256)');
+    private readonly setArbitratorSelector: Selector = encodeSelector('setArbitrator(address)');
+    private readonly setPausedSelector: Selector = encodeSelector('setPaused(bool,bool)');
+    private readonly transferOwnershipSelector: Selector = encodeSelector('transferOwnership(address)');
+    private readonly acceptOwnershipSelector: Selector = encodeSelector('acceptOwnership()');
+    private readonly setMaxMarketsSelector: Selector = encodeSelector('setMaxMarkets(uint256)');
+    private readonly setMinBetSelector: Selector = encodeSelector('setMinBet(uint256)');
+    private readonly setPriceSignerSelector: Selector = encodeSelector('setPriceSigner(extendedAddress,bool)');
     private readonly getMarketSelector: Selector = encodeSelector('getMarket(uint256)');
     private readonly getUserPositionSelector: Selector = encodeSelector('getUserPosition(uint256,address)');
     private readonly getMarketCountSelector: Selector = encodeSelector('getMarketCount()');
     private readonly getOwnerSelector: Selector = encodeSelector('getOwner()');
     private readonly getCallerAddressSelector: Selector = encodeSelector('getCallerAddress()');
+    private readonly getCollateralTokenSelector: Selector = encodeSelector('getCollateralToken()');
+    private readonly getOutcomePoolsSelector: Selector = encodeSelector('getOutcomePools(uint256)');
+    private readonly getUserStakesSelector: Selector = encodeSelector('getUserStakes(uint256,address)');
+    private readonly getCancelGracePeriodSelector: Selector = encodeSelector('getCancelGracePeriod()');
+    private readonly getResolutionTimeoutSelector: Selector = encodeSelector('getResolutionTimeout()');
+    private readonly getFeesSelector: Selector = encodeSelector('getFees(address)');
+    private readonly getResolutionSelector: Selector = encodeSelector('getResolution(uint256)');
+    private readonly getDisputeConfigSelector: Selector = encodeSelector('getDisputeConfig()');
+    private readonly getOracleVotesSelector: Selector = encodeSelector('getOracleVotes(uint256)');
+    private readonly quoteSellSelector: Selector = encodeSelector('quoteSell(uint256,uint256,uint256)');
+    private readonly isPositionOperatorSelector: Selector = encodeSelector('isPositionOperator(address,address)');
+    private readonly getMarketsByCreatorSelector: Selector = encodeSelector(
+        'getMarketsByCreator(address,uint256,uint256)',
+    );
+    private readonly getMarketsByOracleSelector: Selector = encodeSelector('getMarketsByOracle(address,uint256,uint256)');
+    private readonly getMarketsByBettorSelector: Selector = encodeSelector('getMarketsByBettor(address,uint256,uint256)');
+    private readonly getMarketsSelector: Selector = encodeSelector('getMarkets(uint256,uint256)');
+    private readonly getUserPositionsSelector: Selector = encodeSelector('getUserPositions(address,uint256[])');
+    private readonly getAdminConfigSelector: Selector = encodeSelector('getAdminConfig()');
+    private readonly getPriceTargetSelector: Selector = encodeSelector('getPriceTarget(uint256)');
+    private readonly isPriceSignerSelector: Selector = encodeSelector('isPriceSigner(extendedAddress)');
+    private readonly registerOracleSelector: Selector = encodeSelector('registerOracle(uint256,uint256)');
+    private readonly unstakeOracleSelector: Selector = encodeSelector('unstakeOracle(uint256)');
+    private readonly withdrawOracleStakeSelector: Selector = encodeSelector('withdrawOracleStake()');
+    private readonly slashOracleSelector: Selector = encodeSelector('slashOracle(address,uint256)');
+    private readonly setMinOracleStakeSelector: Selector = encodeSelector('setMinOracleStake(uint256)');
+    private readonly getOracleSelector: Selector = encodeSelector('getOracle(address)');
+    private readonly getOraclesSelector: Selector = encodeSelector('getOracles(uint256,uint256)');
+    private readonly getOracleConfigSelector: Selector = encodeSelector('getOracleConfig()');
+    private readonly setAllowlistRootSelector: Selector = encodeSelector('setAllowlistRoot(uint256,uint256)');
+    private readonly setAllowlistMembersSelector: Selector = encodeSelector(
+        'setAllowlistMembers(uint256,address[],bool)',
+    );
+    private readonly joinMarketSelector: Selector = encodeSelector('joinMarket(uint256,uint256[])');
+    private readonly isAllowlistedSelector: Selector = encodeSelector('isAllowlisted(uint256,address,uint256[])');
 
     // Global storage
     private readonly marketCountPointer: u16 = Blockchain.nextPointer;
@@ -99,7 +633,7 @@ export class PredictionMarket extends OP_NET {
 
     // Per-market storage base pointers
     private readonly marketCreatorPointer: u16 = Blockchain.nextPointer;
-    private readonly marketEndBlockPointer: u16 = Blockchain.nextPointer;
+    private readonly marketCloseBlockPointer: u16 = Blockchain.nextPointer;
     private readonly marketOraclePointer: u16 = Blockchain.nextPointer;
     private readonly marketStatusPointer: u16 = Blockchain.nextPointer;
     private readonly marketOutcomePointer: u16 = Blockchain.nextPointer;
@@ -111,13 +645,150 @@ export class PredictionMarket extends OP_NET {
     private readonly userNoBetsPointer: u16 = Blockchain.nextPointer;
     private readonly userClaimedPointer: u16 = Blockchain.nextPointer;
 
+    // OP20 token that bets are escrowed in and winnings are paid out of
+    private readonly collateralTokenPointer: u16 = Blockchain.nextPointer;
+    private readonly _collateralToken: StoredU256 = new StoredU256(this.collateralTokenPointer, EMPTY_POINTER);
+
+    // Categorical markets: outcome count per market (zero for binary YES/NO
+    // markets), plus pools and user stakes keyed by an outcome sub-pointer
+    private readonly marketOutcomeCountPointer: u16 = Blockchain.nextPointer;
+    private readonly outcomePoolPointer: u16 = Blockchain.nextPointer;
+    private readonly userOutcomeBetsPointer: u16 = Blockchain.nextPointer;
+
+    // Blocks past resolveAfterBlock after which anyone may cancel an unresolved market
+    private readonly cancelGracePeriodPointer: u16 = Blockchain.nextPointer;
+
+    // Fees: the global protocol rate and unwithdrawn protocol fees, per-market
+    // rates snapshotted at creation and amounts taken at resolution, and
+    // unwithdrawn creator fees per creator address
+    private readonly protocolFeeBpsPointer: u16 = Blockchain.nextPointer;
+    private readonly accruedProtocolFeesPointer: u16 = Blockchain.nextPointer;
+    private readonly _protocolFeeBps: StoredU256 = new StoredU256(this.protocolFeeBpsPointer, EMPTY_POINTER);
+    private readonly _accruedProtocolFees: StoredU256 = new StoredU256(this.accruedProtocolFeesPointer, EMPTY_POINTER);
+    private readonly marketProtocolFeeBpsPointer: u16 = Blockchain.nextPointer;
+    private readonly marketCreatorFeeBpsPointer: u16 = Blockchain.nextPointer;
+    private readonly marketProtocolFeePointer: u16 = Blockchain.nextPointer;
+    private readonly marketCreatorFeePointer: u16 = Blockchain.nextPointer;
+    private readonly creatorFeesPointer: u16 = Blockchain.nextPointer;
+
+    // Optimistic resolution: dispute settings, plus per market the proposal
+    // (block and outcome) and the challenger, their outcome and bond
+    private readonly disputeWindowPointer: u16 = Blockchain.nextPointer;
+    private readonly disputeBondPointer: u16 = Blockchain.nextPointer;
+    private readonly arbitratorPointer: u16 = Blockchain.nextPointer;
+    private readonly _disputeBond: StoredU256 = new StoredU256(this.disputeBondPointer, EMPTY_POINTER);
+    private readonly _arbitrator: StoredU256 = new StoredU256(this.arbitratorPointer, EMPTY_POINTER);
+    private readonly marketProposedAtPointer: u16 = Blockchain.nextPointer;
+    private readonly marketProposedOutcomePointer: u16 = Blockchain.nextPointer;
+    private readonly marketDisputerPointer: u16 = Blockchain.nextPointer;
+    private readonly marketDisputedOutcomePointer: u16 = Blockchain.nextPointer;
+    private readonly marketDisputeBondPointer: u16 = Blockchain.nextPointer;
+
+    // Oracle committees: per market the member count (zero for single-oracle
+    // markets) and vote threshold, members keyed by a 1-based index in the
+    // outcome sub-pointer slot, each member's vote, and the tally per outcome
+    private readonly marketCommitteeSizePointer: u16 = Blockchain.nextPointer;
+    private readonly marketVoteThresholdPointer: u16 = Blockchain.nextPointer;
+    private readonly marketCommitteePointer: u16 = Blockchain.nextPointer;
+    private readonly marketOracleVotesPointer: u16 = Blockchain.nextPointer;
+    private readonly marketVoteTallyPointer: u16 = Blockchain.nextPointer;
+
+    // Early exits: the spread sellers leave behind per market. It is not part
+    // of any outcome pool but is paid out to the winners with the pools.
+    private readonly marketExitSpreadPointer: u16 = Blockchain.nextPointer;
+
+    // Transferable positions: operators an owner lets move any of their
+    // stakes, keyed by a hash of the (owner, operator) pair
+    private readonly positionOperatorsPointer: u16 = Blockchain.nextPointer;
+
+    // Append-only market indexes per address. Each list keeps its length at
+    // index 0 and market ids at 1-based indices, keyed by the address; the
+    // bettor flag stops a market being listed twice for the same bettor.
+    private readonly creatorMarketsPointer: u16 = Blockchain.nextPointer;
+    private readonly oracleMarketsPointer: u16 = Blockchain.nextPointer;
+    private readonly bettorMarketsPointer: u16 = Blockchain.nextPointer;
+    private readonly bettorIndexedPointer: u16 = Blockchain.nextPointer;
+
+    // Hash over the question, outcome labels and the creator's metadata hash,
+    // derived at creation so off-chain copies of them can be checked
+    private readonly marketContentHashPointer: u16 = Blockchain.nextPointer;
+
+    // Owner administration: pause flags, the proposed next owner, and the
+    // market cap and minimum bet (zero means the default cap / no minimum)
+    private readonly bettingPausedPointer: u16 = Blockchain.nextPointer;
+    private readonly creationPausedPointer: u16 = Blockchain.nextPointer;
+    private readonly pendingOwnerPointer: u16 = Blockchain.nextPointer;
+    private readonly maxMarketsPointer: u16 = Blockchain.nextPointer;
+    private readonly minBetPointer: u16 = Blockchain.nextPointer;
+    private readonly _bettingPaused: StoredU256 = new StoredU256(this.bettingPausedPointer, EMPTY_POINTER);
+    private readonly _creationPaused: StoredU256 = new StoredU256(this.creationPausedPointer, EMPTY_POINTER);
+    private readonly _pendingOwner: StoredU256 = new StoredU256(this.pendingOwnerPointer, EMPTY_POINTER);
+    private readonly _maxMarkets: StoredU256 = new StoredU256(this.maxMarketsPointer, EMPTY_POINTER);
+    private readonly _minBet: StoredU256 = new StoredU256(this.minBetPointer, EMPTY_POINTER);
+
+    // Signed price resolution: the target a binary price market resolves
+    // YES at or above (on a scalar market only its creator's opt-in), and
+    // the signers whose attestations are accepted, keyed by the hash of
+    // their ML-DSA key hash and tweaked public key
+    private readonly marketPriceTargetPointer: u16 = Blockchain.nextPointer;
+    private readonly priceSignersPointer: u16 = Blockchain.nextPointer;
+
+    // Scalar markets: the range a LONG/SHORT market pays out across. The
+    // upper bound is zero for every other kind of market.
+    private readonly marketScalarLowerPointer: u16 = Blockchain.nextPointer;
+    private readonly marketScalarUpperPointer: u16 = Blockchain.nextPointer;
+
+    // Block from which a market can be resolved. Betting closes earlier, at
+    // the block stored under marketCloseBlockPointer.
+    private readonly marketResolveAfterBlockPointer: u16 = Blockchain.nextPointer;
+
+    // Resolution timeout: the global setting, and per market the fallback
+    // oracle (zero for none), the block the timeout runs out at (snapshotted
+    // at creation) and the authority behind the final outcome
+    private readonly resolutionTimeoutPointer: u16 = Blockchain.nextPointer;
+    private readonly marketFallbackOraclePointer: u16 = Blockchain.nextPointer;
+    private readonly marketTimeoutBlockPointer: u16 = Blockchain.nextPointer;
+    private readonly marketResolvedByPointer: u16 = Blockchain.nextPointer;
+
+    // Oracle registry: the minimum stake, the registered oracles in order of
+    // registration (1-based, like the market ids), and per oracle address its
+    // active stake, unbonding stake and unlock block, total slashed, profile
+    // hash, registration block and the unresolved markets it is named on
+    private readonly minOracleStakePointer: u16 = Blockchain.nextPointer;
+    private readonly oracleCountPointer: u16 = Blockchain.nextPointer;
+    private readonly oracleListPointer: u16 = Blockchain.nextPointer;
+    private readonly oracleStakePointer: u16 = Blockchain.nextPointer;
+    private readonly oracleUnbondingPointer: u16 = Blockchain.nextPointer;
+    private readonly oracleUnlockBlockPointer: u16 = Blockchain.nextPointer;
+    private readonly oracleSlashedPointer: u16 = Blockchain.nextPointer;
+    private readonly oracleProfileHashPointer: u16 = Blockchain.nextPointer;
+    private readonly oracleRegisteredAtPointer: u16 = Blockchain.nextPointer;
+    private readonly oracleOpenMarketsPointer: u16 = Blockchain.nextPointer;
+    private readonly _minOracleStake: StoredU256 = new StoredU256(this.minOracleStakePointer, EMPTY_POINTER);
+    private readonly _oracleCount: StoredU256 = new StoredU256(this.oracleCountPointer, EMPTY_POINTER);
+
+    // Private markets: whether betting is restricted (fixed at creation), the
+    // creator's Merkle root of allowlisted addresses, and per market and user
+    // the creator's explicit allow flag and the root a user joined under
+    private readonly marketPrivatePointer: u16 = Blockchain.nextPointer;
+    private readonly marketAllowlistRootPointer: u16 = Blockchain.nextPointer;
+    private readonly allowlistMembersPointer: u16 = Blockchain.nextPointer;
+    private readonly allowlistJoinedRootPointer: u16 = Blockchain.nextPointer;
+
     public constructor() {
         super();
     }
 
-    public override onDeployment(_calldata: Calldata): void {
+    public override onDeployment(calldata: Calldata): void {
         const deployer: Address = Blockchain.tx.sender;
         this._ownerAddress.value = u256.fromUint8ArrayBE(deployer);
+
+        const collateralToken: Address = calldata.readAddress();
+        if (collateralToken.isZero()) {
+            throw new Revert('Collateral token must be set');
+        }
+        this._collateralToken.value = u256.fromUint8ArrayBE(collateralToken);
+        this._disputeBond.value = DEFAULT_DISPUTE_BOND;
     }
 
     public callMethod(calldata: Calldata): BytesWriter {
@@ -126,12 +797,68 @@ export class PredictionMarket extends OP_NET {
         switch (selector) {
             case this.createMarketSelector:
                 return this.createMarket(calldata);
+            case this.createCategoricalMarketSelector:
+                return this.createCategoricalMarket(calldata);
+            case this.createScalarMarketSelector:
+                return this.createScalarMarket(calldata);
             case this.placeBetSelector:
                 return this.placeBet(calldata);
             case this.resolveMarketSelector:
                 return this.resolveMarket(calldata);
+            case this.resolveScalarMarketSelector:
+                return this.resolveScalarMarket(calldata);
+            case this.setPriceTargetSelector:
+                return this.setPriceTarget(calldata);
+            case this.resolveWithPriceSelector:
+                return this.resolveWithPrice(calldata);
+            case this.voteOutcomeSelector:
+                return this.voteOutcome(calldata);
+            case this.disputeOutcomeSelector:
+                return this.disputeOutcome(calldata);
+            case this.finalizeMarketSelector:
+                return this.finalizeMarket(calldata);
+            case this.ruleDisputeSelector:
+                return this.ruleDispute(calldata);
+            case this.sellPositionSelector:
+                return this.sellPosition(calldata);
+            case this.transferPositionSelector:
+                return this.transferPosition(calldata);
+            case this.transferPositionFromSelector:
+                return this.transferPositionFrom(calldata);
+            case this.setPositionOperatorSelector:
+                return this.setPositionOperator(calldata);
             case this.claimWinningsSelector:
                 return this.claimWinnings(calldata);
+            case this.cancelMarketSelector:
+                return this.cancelMarket(calldata);
+            case this.claimRefundSelector:
+                return this.claimRefund(calldata);
+            case this.setCancelGracePeriodSelector:
+                return this.setCancelGracePeriod(calldata);
+            case this.setResolutionTimeoutSelector:
+                return this.setResolutionTimeout(calldata);
+            case this.setProtocolFeeSelector:
+                return this.setProtocolFee(calldata);
+            case this.withdrawFeesSelector:
+                return this.withdrawFees(calldata);
+            case this.setDisputeWindowSelector:
+                return this.setDisputeWindow(calldata);
+            case this.setDisputeBondSelector:
+                return this.setDisputeBond(calldata);
+            case this.setArbitratorSelector:
+                return this.setArbitrator(calldata);
+            case this.setPausedSelector:
+                return this.setPaused(calldata);
+            case this.transferOwnershipSelector:
+                return this.transferOwnership(calldata);
+            case this.acceptOwnershipSelector:
+                return this.acceptOwnership(calldata);
+            case this.setMaxMarketsSelector:
+                return this.setMaxMarkets(calldata);
+            case this.setMinBetSelector:
+                return this.setMinBet(calldata);
+            case this.setPriceSignerSelector:
+                return this.setPriceSigner(calldata);
             case this.getMarketSelector:
                 return this.getMarket(calldata);
             case this.getUserPositionSelector:
@@ -142,6 +869,68 @@ export class PredictionMarket extends OP_NET {
                 return this.getOwnerView();
             case this.getCallerAddressSelector:
                 return this.getCallerAddressView();
+            case this.getCollateralTokenSelector:
+                return this.getCollateralTokenView();
+            case this.getOutcomePoolsSelector:
+                return this.getOutcomePools(calldata);
+            case this.getUserStakesSelector:
+                return this.getUserStakes(calldata);
+            case this.getCancelGracePeriodSelector:
+                return this.getCancelGracePeriodView();
+            case this.getResolutionTimeoutSelector:
+                return this.getResolutionTimeoutView();
+            case this.getFeesSelector:
+                return this.getFees(calldata);
+            case this.getResolutionSelector:
+                return this.getResolution(calldata);
+            case this.getDisputeConfigSelector:
+                return this.getDisputeConfigView();
+            case this.getOracleVotesSelector:
+                return this.getOracleVotes(calldata);
+            case this.quoteSellSelector:
+                return this.quoteSell(calldata);
+            case this.isPositionOperatorSelector:
+                return this.isPositionOperator(calldata);
+            case this.getMarketsByCreatorSelector:
+                return this.getMarketsByCreator(calldata);
+            case this.getMarketsByOracleSelector:
+                return this.getMarketsByOracle(calldata);
+            case this.getMarketsByBettorSelector:
+                return this.getMarketsByBettor(calldata);
+            case this.getMarketsSelector:
+                return this.getMarkets(calldata);
+            case this.getUserPositionsSelector:
+                return this.getUserPositions(calldata);
+            case this.getAdminConfigSelector:
+                return this.getAdminConfigView();
+            case this.getPriceTargetSelector:
+                return this.getPriceTarget(calldata);
+            case this.isPriceSignerSelector:
+                return this.isPriceSigner(calldata);
+            case this.registerOracleSelector:
+                return this.registerOracle(calldata);
+            case this.unstakeOracleSelector:
+                return this.unstakeOracle(calldata);
+            case this.withdrawOracleStakeSelector:
+                return this.withdrawOracleStake(calldata);
+            case this.slashOracleSelector:
+                return this.slashOracle(calldata);
+            case this.setMinOracleStakeSelector:
+                return this.setMinOracleStake(calldata);
+            case this.getOracleSelector:
+                return this.getOracle(calldata);
+            case this.getOraclesSelector:
+                return this.getOracles(calldata);
+            case this.getOracleConfigSelector:
+                return this.getOracleConfigView();
+            case this.setAllowlistRootSelector:
+                return this.setAllowlistRoot(calldata);
+            case this.setAllowlistMembersSelector:
+                return this.setAllowlistMembers(calldata);
+            case this.joinMarketSelector:
+                return this.joinMarket(calldata);
+            case this.isAllowlistedSelector:
+                return this.isAllowlisted(calldata);
             default:
                 return super.callMethod(calldata);
         }
@@ -149,61 +938,178 @@ export class PredictionMarket extends OP_NET {
 
     @method(
         { name: 'question', type: ABIDataTypes.STRING },
-        { name: 'endBlock', type: ABIDataTypes.UINT64 },
+        { name: 'closeBlock', type: ABIDataTypes.UINT64 },
+        { name: 'resolveAfterBlock', type: ABIDataTypes.UINT64 },
         { name: 'oracle', type: ABIDataTypes.ADDRESS },
+        { name: 'fallbackOracle', type: ABIDataTypes.ADDRESS },
+        { name: 'creatorFeeBps', type: ABIDataTypes.UINT256 },
+        { name: 'committee', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+        { name: 'threshold', type: ABIDataTypes.UINT256 },
+        { name: 'metadataHash', type: ABIDataTypes.UINT256 },
+        { name: 'allowlistRoot', type: ABIDataTypes.UINT256 },
+        { name: 'allowlist', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
     )
     @returns({ name: 'marketId', type: ABIDataTypes.UINT256 })
-    @emit('MarketCreated')
+    @emit('MarketCreated', 'AllowlistMemberSet')
     public createMarket(calldata: Calldata): BytesWriter {
         const question: string = calldata.readStringWithLength();
-        const endBlock: u64 = calldata.readU64();
+        const closeBlock: u64 = calldata.readU64();
+        const resolveAfterBlock: u64 = calldata.readU64();
         const oracleParam: Address = calldata.readAddress();
+        const fallbackOracle: Address = calldata.readAddress();
+        const creatorFeeBps: u256 = calldata.readU256();
+        const committee: Address[] = calldata.readAddressArray();
+        const threshold: u256 = calldata.readU256();
+        const metadataHash: u256 = calldata.readU256();
+        const allowlistRoot: u256 = calldata.readU256();
+        const allowlist: Address[] = calldata.readAddressArray();
+
+        const marketId: u256 = this.registerMarket(
+            question,
+            closeBlock,
+            resolveAfterBlock,
+            oracleParam,
+            fallbackOracle,
+            creatorFeeBps,
+            metadataHash,
+            new Array<string>(),
+        );
+        this.registerCommittee(marketId, committee, threshold);
+        this.registerAllowlist(marketId, allowlistRoot, allowlist);
 
-        if (endBlock <= Blockchain.block.number) {
-            throw new Revert('End block must be in the future');
-        }
+        const writer: BytesWriter = new BytesWriter(32);
+        writer.writeU256(marketId);
+        return writer;
+    }
 
-        if (question.length == 0) {
-            throw new Revert('Question must not be empty');
+    @method(
+        { name: 'question', type: ABIDataTypes.STRING },
+        { name: 'closeBlock', type: ABIDataTypes.UINT64 },
+        { name: 'resolveAfterBlock', type: ABIDataTypes.UINT64 },
+        { name: 'oracle', type: ABIDataTypes.ADDRESS },
+        { name: 'fallbackOracle', type: ABIDataTypes.ADDRESS },
+        { name: 'creatorFeeBps', type: ABIDataTypes.UINT256 },
+        { name: 'committee', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+        { name: 'threshold', type: ABIDataTypes.UINT256 },
+        { name: 'metadataHash', type: ABIDataTypes.UINT256 },
+        { name: 'allowlistRoot', type: ABIDataTypes.UINT256 },
+        { name: 'allowlist', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+        { name: 'outcomes', type: ABIDataTypes.ARRAY_OF_STRING },
+    )
+    @returns({ name: 'marketId', type: ABIDataTypes.UINT256 })
+    @emit('MarketCreated', 'AllowlistMemberSet')
+    public createCategoricalMarket(calldata: Calldata): BytesWriter {
+        const question: string = calldata.readStringWithLength();
+        const closeBlock: u64 = calldata.readU64();
+        const resolveAfterBlock: u64 = calldata.readU64();
+        const oracleParam: Address = calldata.readAddress();
+        const fallbackOracle: Address = calldata.readAddress();
+        const creatorFeeBps: u256 = calldata.readU256();
+        const committee: Address[] = calldata.readAddressArray();
+        const threshold: u256 = calldata.readU256();
+        const metadataHash: u256 = calldata.readU256();
+        const allowlistRoot: u256 = calldata.readU256();
+        const allowlist: Address[] = calldata.readAddressArray();
+
+        // Outcome labels live off-chain next to the question text; only their
+        // count is stored, and their hashes go into the content hash.
+        const outcomeCount: u16 = calldata.readU16();
+        if (outcomeCount < MIN_CATEGORICAL_OUTCOMES || outcomeCount > MAX_CATEGORICAL_OUTCOMES) {
+            throw new Revert('Categorical markets need between 3 and 16 outcomes');
         }
 
-        const currentCount: u256 = this._marketCount.value;
-        if (currentCount >= MAX_MARKETS) {
-            throw new Revert('Maximum markets reached');
+        const labels: string[] = new Array<string>();
+        for (let i: u16 = 0; i < outcomeCount; i++) {
+            const label: string = calldata.readStringWithLength();
+            if (label.length == 0) {
+                throw new Revert('Outcome labels must not be empty');
+            }
+            labels.push(label);
         }
 
-        const marketId: u256 = SafeMath.add(currentCount, u256.One);
-        this._marketCount.value = marketId;
-
-        const creator: Address = Blockchain.tx.sender;
+        const marketId: u256 = this.registerMarket(
+            question,
+            closeBlock,
+            resolveAfterBlock,
+            oracleParam,
+            fallbackOracle,
+            creatorFeeBps,
+            metadataHash,
+            labels,
+        );
         const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
-
-        // Use tx.sender as oracle if the passed oracle matches the sender's
-        // WalletConnect address (which differs from tx.sender). To handle this,
-        // always use tx.sender when oracle param equals the default.
-        // If the oracle param is all zeros or matches tx.sender, use tx.sender.
-        const oracleU256: u256 = u256.fromUint8ArrayBE(oracleParam);
-        const senderU256: u256 = u256.fromUint8ArrayBE(creator);
-        const effectiveOracle: u256 = u256.eq(oracleU256, u256.Zero) ? senderU256 : oracleU256;
-
-        this.getMarketStore(this.marketCreatorPointer, marketIdBytes).value = senderU256;
-        this.setMarketEndBlock(marketIdBytes, endBlock);
-        this.getMarketStore(this.marketOraclePointer, marketIdBytes).value = effectiveOracle;
-        this.getMarketStore(this.marketStatusPointer, marketIdBytes).value = STATUS_OPEN;
-        this.getMarketStore(this.marketOutcomePointer, marketIdBytes).value = u256.Zero;
-        this.getMarketStore(this.marketYesPoolPointer, marketIdBytes).value = u256.Zero;
-        this.getMarketStore(this.marketNoPoolPointer, marketIdBytes).value = u256.Zero;
-
-        this.emitEvent(new MarketCreated(marketId, creator, endBlock));
+        this.getMarketStore(this.marketOutcomeCountPointer, marketIdBytes).value = u256.fromU32(<u32>outcomeCount);
+        this.registerCommittee(marketId, committee, threshold);
+        this.registerAllowlist(marketId, allowlistRoot, allowlist);
 
         const writer: BytesWriter = new BytesWriter(32);
         writer.writeU256(marketId);
         return writer;
     }
 
+    /**
+     * Scalar market on a numeric value: LONG (outcome 1) and SHORT (outcome
+     * 2) split the pot according to where the resolved value lands between
+     * the bounds. Bounds and values share one unit, 8-decimal fixed point
+     * for prices. Committees vote on outcome indexes, so scalar markets are
+     * always resolved by a single oracle or a signed price.
+     */
     @method(
-        { name: 'marketId', type: ABIDataTypes.UINT256 },
-        { name: 'outcome', type: ABIDataTypes.UINT256 },
+        { name: 'question', type: ABIDataTypes.STRING },
+        { name: 'closeBlock', type: ABIDataTypes.UINT64 },
+        { name: 'resolveAfterBlock', type: ABIDataTypes.UINT64 },
+        { name: 'oracle', type: ABIDataTypes.ADDRESS },
+        { name: 'fallbackOracle', type: ABIDataTypes.ADDRESS },
+        { name: 'creatorFeeBps', type: ABIDataTypes.UINT256 },
+        { name: 'metadataHash', type: ABIDataTypes.UINT256 },
+        { name: 'allowlistRoot', type: ABIDataTypes.UINT256 },
+        { name: 'allowlist', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+        { name: 'lowerBound', type: ABIDataTypes.UINT256 },
+        { name: 'upperBound', type: ABIDataTypes.UINT256 },
+    )
+    @returns({ name: 'marketId', type: ABIDataTypes.UINT256 })
+    @emit('MarketCreated', 'AllowlistMemberSet')
+    public createScalarMarket(calldata: Calldata): BytesWriter {
+        const question: string = calldata.readStringWithLength();
+        const closeBlock: u64 = calldata.readU64();
+        const resolveAfterBlock: u64 = calldata.readU64();
+        const oracleParam: Address = calldata.readAddress();
+        const fallbackOracle: Address = calldata.readAddress();
+        const creatorFeeBps: u256 = calldata.readU256();
+        const metadataHash: u256 = calldata.readU256();
+        const allowlistRoot: u256 = calldata.readU256();
+        const allowlist: Address[] = calldata.readAddressArray();
+        const lowerBound: u256 = calldata.readU256();
+        const upperBound: u256 = calldata.readU256();
+
+        if (upperBound <= lowerBound) {
+            throw new Revert('Upper bound must be above the lower bound');
+        }
+
+        const marketId: u256 = this.registerMarket(
+            question,
+            closeBlock,
+            resolveAfterBlock,
+            oracleParam,
+            fallbackOracle,
+            creatorFeeBps,
+            metadataHash,
+            new Array<string>(),
+        );
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+        this.getMarketStore(this.marketScalarLowerPointer, marketIdBytes).value = lowerBound;
+        this.getMarketStore(this.marketScalarUpperPointer, marketIdBytes).value = upperBound;
+        this.registerCommittee(marketId, new Array<Address>(), u256.Zero);
+        this.registerAllowlist(marketId, allowlistRoot, allowlist);
+
+        const writer: BytesWriter = new BytesWriter(32);
+        writer.writeU256(marketId);
+        return writer;
+    }
+
+    @method(
+        { name: 'marketId', type: ABIDataTypes.UINT256 },
+        { name: 'outcome', type: ABIDataTypes.UINT256 },
         { name: 'amount', type: ABIDataTypes.UINT256 },
     )
     @returns({ name: 'success', type: ABIDataTypes.BOOL })
@@ -213,19 +1119,19 @@ export class PredictionMarket extends OP_NET {
         const outcome: u256 = calldata.readU256();
         const amount: u256 = calldata.readU256();
 
-        if (!u256.eq(outcome, OUTCOME_YES) && !u256.eq(outcome, OUTCOME_NO)) {
-            throw new Revert('Invalid outcome: must be 1 (YES) or 2 (NO)');
+        if (this.isFlagSet(this._bettingPaused)) {
+            throw new Revert('Betting is paused');
         }
 
         const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+        this.assertValidOutcome(marketIdBytes, outcome);
 
         const status: u256 = this.getMarketStore(this.marketStatusPointer, marketIdBytes).value;
         if (!u256.eq(status, STATUS_OPEN)) {
             throw new Revert('Market is not open');
         }
 
-        const endBlock: u64 = this.getMarketEndBlock(marketIdBytes);
-        if (Blockchain.block.number >= endBlock) {
+        if (Blockchain.block.number >= this.getMarketCloseBlock(marketIdBytes)) {
             throw new Revert('Market betting period has ended');
         }
 
@@ -233,19 +1139,25 @@ export class PredictionMarket extends OP_NET {
             throw new Revert('Amount must be greater than zero');
         }
 
+        if (amount < this._minBet.value) {
+            throw new Revert('Bet below minimum');
+        }
+
         const bettor: Address = Blockchain.tx.sender;
 
-        if (u256.eq(outcome, OUTCOME_YES)) {
-            const poolStore: StoredU256 = this.getMarketStore(this.marketYesPoolPointer, marketIdBytes);
-            poolStore.value = SafeMath.add(poolStore.value, amount);
+        if (this.isPrivate(marketIdBytes) && !this.isAllowlistMember(marketIdBytes, bettor)) {
+            throw new Revert('Bettor is not on the market allowlist');
+        }
 
-            this.addUserBet(this.userYesBetsPointer, marketIdBytes, bettor, amount);
-        } else {
-            const poolStore: StoredU256 = this.getMarketStore(this.marketNoPoolPointer, marketIdBytes);
-            poolStore.value = SafeMath.add(poolStore.value, amount);
+        const poolStore: StoredU256 = this.getOutcomePoolStore(marketId, marketIdBytes, outcome);
+        poolStore.value = SafeMath.add(poolStore.value, amount);
 
-            this.addUserBet(this.userNoBetsPointer, marketIdBytes, bettor, amount);
-        }
+        this.addUserStake(marketId, marketIdBytes, outcome, bettor, amount);
+        this.indexBettor(marketId, marketIdBytes, bettor);
+
+        // Pull the stake into escrow. Reverts (and rolls back the pool update)
+        // if the bettor has not approved enough collateral for this contract.
+        TransferHelper.transferFrom(this.getCollateralToken(), bettor, Blockchain.contractAddress, amount);
 
         this.emitEvent(new BetPlaced(marketId, bettor, outcome, amount));
 
@@ -259,178 +1171,2722 @@ export class PredictionMarket extends OP_NET {
         { name: 'outcome', type: ABIDataTypes.UINT256 },
     )
     @returns({ name: 'success', type: ABIDataTypes.BOOL })
-    @emit('MarketResolved')
+    @emit('OutcomeProposed')
     public resolveMarket(calldata: Calldata): BytesWriter {
         const marketId: u256 = calldata.readU256();
         const outcome: u256 = calldata.readU256();
 
-        if (!u256.eq(outcome, OUTCOME_YES) && !u256.eq(outcome, OUTCOME_NO)) {
-            throw new Revert('Invalid outcome: must be 1 (YES) or 2 (NO)');
-        }
-
         const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+        if (this.isScalar(marketIdBytes)) {
+            throw new Revert('Scalar markets resolve with resolveScalarMarket');
+        }
+        this.assertValidOutcome(marketIdBytes, outcome);
 
         const status: u256 = this.getMarketStore(this.marketStatusPointer, marketIdBytes).value;
         if (!u256.eq(status, STATUS_OPEN)) {
             throw new Revert('Market is not open');
         }
 
-        const oracleU256: u256 = this.getMarketStore(this.marketOraclePointer, marketIdBytes).value;
-        const caller: Address = Blockchain.tx.sender;
-        if (!u256.eq(u256.fromUint8ArrayBE(caller), oracleU256)) {
-            throw new Revert('Only the designated oracle can resolve');
+        const resolvedBy: u8 = this.getResolverAuthority(marketIdBytes, Blockchain.tx.sender);
+
+        if (Blockchain.block.number < this.getResolveAfterBlock(marketIdBytes)) {
+            throw new Revert('Market cannot be resolved yet');
+        }
+
+        this.proposeOutcome(marketId, marketIdBytes, outcome, resolvedBy);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * The oracle's proposal for a scalar market. The proposed outcome is the
+     * value itself, clamped to the bounds, and goes through the same dispute
+     * window as any other proposal.
+     */
+    @method(
+        { name: 'marketId', type: ABIDataTypes.UINT256 },
+        { name: 'value', type: ABIDataTypes.UINT256 },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('OutcomeProposed')
+    public resolveScalarMarket(calldata: Calldata): BytesWriter {
+        const marketId: u256 = calldata.readU256();
+        const value: u256 = calldata.readU256();
+
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+        if (!this.isScalar(marketIdBytes)) {
+            throw new Revert('Market is not a scalar market');
         }
 
-        const endBlock: u64 = this.getMarketEndBlock(marketIdBytes);
-        if (Blockchain.block.number < endBlock) {
-            throw new Revert('Market betting period has not ended yet');
+        const status: u256 = this.getMarketStore(this.marketStatusPointer, marketIdBytes).value;
+        if (!u256.eq(status, STATUS_OPEN)) {
+            throw new Revert('Market is not open');
         }
 
-        this.getMarketStore(this.marketStatusPointer, marketIdBytes).value = STATUS_RESOLVED;
-        this.getMarketStore(this.marketOutcomePointer, marketIdBytes).value = outcome;
+        const resolvedBy: u8 = this.getResolverAuthority(marketIdBytes, Blockchain.tx.sender);
+
+        if (Blockchain.block.number < this.getResolveAfterBlock(marketIdBytes)) {
+            throw new Revert('Market cannot be resolved yet');
+        }
 
-        this.emitEvent(new MarketResolved(marketId, outcome));
+        this.proposeOutcome(marketId, marketIdBytes, this.clampToBounds(marketIdBytes, value), resolvedBy);
 
         const writer: BytesWriter = new BytesWriter(1);
         writer.writeBoolean(true);
         return writer;
     }
 
-    @method({ name: 'marketId', type: ABIDataTypes.UINT256 })
-    @returns({ name: 'amount', type: ABIDataTypes.UINT256 })
-    @emit('WinningsClaimed')
-    public claimWinnings(calldata: Calldata): BytesWriter {
+    @method(
+        { name: 'marketId', type: ABIDataTypes.UINT256 },
+        { name: 'targetPrice', type: ABIDataTypes.UINT256 },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('PriceTargetSet')
+    public setPriceTarget(calldata: Calldata): BytesWriter {
         const marketId: u256 = calldata.readU256();
+        const targetPrice: u256 = calldata.readU256();
+
         const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+        const creatorU256: u256 = this.getMarketStore(this.marketCreatorPointer, marketIdBytes).value;
+        if (!u256.eq(u256.fromUint8ArrayBE(Blockchain.tx.sender), creatorU256)) {
+            throw new Revert('Only the creator can set the price target');
+        }
 
         const status: u256 = this.getMarketStore(this.marketStatusPointer, marketIdBytes).value;
-        if (!u256.eq(status, STATUS_RESOLVED)) {
-            throw new Revert('Market is not resolved yet');
+        if (!u256.eq(status, STATUS_OPEN)) {
+            throw new Revert('Market is not open');
         }
 
-        const claimant: Address = Blockchain.tx.sender;
-        const claimedVal: u256 = this.getUserBet(this.userClaimedPointer, marketIdBytes, claimant);
-        if (!u256.eq(claimedVal, u256.Zero)) {
-            throw new Revert('Already claimed');
+        // A scalar market resolves at the attested price itself, so there
+        // the target only opts it in to signed prices
+        if (this.isCategorical(marketIdBytes)) {
+            throw new Revert('Price targets do not apply to categorical markets');
+        }
+
+        if (u256.eq(targetPrice, u256.Zero)) {
+            throw new Revert('Price target must be greater than zero');
         }
 
-        const winningOutcome: u256 = this.getMarketStore(this.marketOutcomePointer, marketIdBytes).value;
+        // Fixed before anyone bets, so nobody stakes against a target that
+        // can still move
+        const targetStore: StoredU256 = this.getMarketStore(this.marketPriceTargetPointer, marketIdBytes);
+        if (!u256.eq(targetStore.value, u256.Zero)) {
+            throw new Revert('Price target already set');
+        }
+        if (!u256.eq(this.getTotalPool(marketId, marketIdBytes), u256.Zero)) {
+            throw new Revert('Price target must be set before any bets');
+        }
 
-        let userBet: u256;
-        let winningPool: u256;
-        let losingPool: u256;
+        targetStore.value = targetPrice;
 
-        if (u256.eq(winningOutcome, OUTCOME_YES)) {
-            userBet = this.getUserBet(this.userYesBetsPointer, marketIdBytes, claimant);
-            winningPool = this.getMarketStore(this.marketYesPoolPointer, marketIdBytes).value;
-            losingPool = this.getMarketStore(this.marketNoPoolPointer, marketIdBytes).value;
-        } else {
-            userBet = this.getUserBet(this.userNoBetsPointer, marketIdBytes, claimant);
-            winningPool = this.getMarketStore(this.marketNoPoolPointer, marketIdBytes).value;
-            losingPool = this.getMarketStore(this.marketYesPoolPointer, marketIdBytes).value;
+        this.emitEvent(new PriceTargetSet(marketId, targetPrice));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    @method(
+        { name: 'marketId', type: ABIDataTypes.UINT256 },
+        { name: 'price', type: ABIDataTypes.UINT256 },
+        { name: 'observedBlock', type: ABIDataTypes.UINT64 },
+        { name: 'signer', type: ABIDataTypes.EXTENDED_ADDRESS },
+        { name: 'signature', type: ABIDataTypes.BYTES },
+    )
+    @returns({ name: 'outcome', type: ABIDataTypes.UINT256 })
+    @emit('PriceAttested', 'OutcomeProposed')
+    public resolveWithPrice(calldata: Calldata): BytesWriter {
+        const marketId: u256 = calldata.readU256();
+        const price: u256 = calldata.readU256();
+        const observedBlock: u64 = calldata.readU64();
+        const signer: ExtendedAddress = calldata.readExtendedAddress();
+        const signature: Uint8Array = calldata.readBytesWithLength();
+
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+        const status: u256 = this.getMarketStore(this.marketStatusPointer, marketIdBytes).value;
+        if (!u256.eq(status, STATUS_OPEN)) {
+            throw new Revert('Market is not open');
         }
 
-        if (u256.eq(userBet, u256.Zero)) {
-            throw new Revert('No winning bet found');
+        if (this.hasCommittee(marketIdBytes)) {
+            throw new Revert('Market is resolved by its oracle committee');
         }
 
-        const totalPool: u256 = SafeMath.add(winningPool, losingPool);
-        const payout: u256 = SafeMath.div(SafeMath.mul(userBet, totalPool), winningPool);
+        // Only markets whose creator set a target take signed prices. Scalar
+        // markets resolve at the attested price itself, binary ones against
+        // the target
+        const scalar: bool = this.isScalar(marketIdBytes);
+        const targetPrice: u256 = this.getMarketStore(this.marketPriceTargetPointer, marketIdBytes).value;
+        if (u256.eq(targetPrice, u256.Zero)) {
+            throw new Revert('Market has no price target');
+        }
 
-        this.setUserBet(this.userClaimedPointer, marketIdBytes, claimant, u256.One);
+        const resolveAfterBlock: u64 = this.getResolveAfterBlock(marketIdBytes);
+        if (Blockchain.block.number < resolveAfterBlock) {
+            throw new Revert('Market cannot be resolved yet');
+        }
 
-        this.emitEvent(new WinningsClaimed(marketId, claimant, payout));
+        if (observedBlock < resolveAfterBlock || observedBlock > Blockchain.block.number) {
+            throw new Revert('Price must be observed between the resolution block and now');
+        }
+
+        const signerKey: u256 = this.toPriceSignerKey(signer);
+        if (!this.hasPriceSigner(signerKey)) {
+            throw new Revert('Signer is not an approved price signer');
+        }
+
+        const digest: Uint8Array = Blockchain.sha256(this.encodePriceAttestation(marketId, price, observedBlock));
+        if (!Blockchain.verifySignature(signer, signature, digest)) {
+            throw new Revert('Invalid price signature');
+        }
+
+        // Anyone may relay an attestation; it still goes through the dispute
+        // window like an oracle's proposal
+        let outcome: u256 = price >= targetPrice ? OUTCOME_YES : OUTCOME_NO;
+        if (scalar) {
+            outcome = this.clampToBounds(marketIdBytes, price);
+        }
+        this.emitEvent(new PriceAttested(marketId, price, observedBlock, signerKey));
+        this.proposeOutcome(marketId, marketIdBytes, outcome, RESOLVED_BY_PRICE_SIGNER);
 
         const writer: BytesWriter = new BytesWriter(32);
-        writer.writeU256(payout);
+        writer.writeU256(outcome);
         return writer;
     }
 
-    @method({ name: 'marketId', type: ABIDataTypes.UINT256 })
-    @returns(
-        { name: 'creator', type: ABIDataTypes.UINT256 },
-        { name: 'endBlock', type: ABIDataTypes.UINT64 },
-        { name: 'oracle', type: ABIDataTypes.UINT256 },
-        { name: 'status', type: ABIDataTypes.UINT256 },
+    @method(
+        { name: 'marketId', type: ABIDataTypes.UINT256 },
         { name: 'outcome', type: ABIDataTypes.UINT256 },
-        { name: 'yesPool', type: ABIDataTypes.UINT256 },
-        { name: 'noPool', type: ABIDataTypes.UINT256 },
     )
-    public getMarket(calldata: Calldata): BytesWriter {
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('OracleVoted', 'OutcomeProposed')
+    public voteOutcome(calldata: Calldata): BytesWriter {
         const marketId: u256 = calldata.readU256();
+        const outcome: u256 = calldata.readU256();
+
         const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+        this.assertValidOutcome(marketIdBytes, outcome);
+
+        if (!this.hasCommittee(marketIdBytes)) {
+            throw new Revert('Market has no oracle committee');
+        }
 
-        const creator: u256 = this.getMarketStore(this.marketCreatorPointer, marketIdBytes).value;
-        const endBlock: u64 = this.getMarketEndBlock(marketIdBytes);
-        const oracle: u256 = this.getMarketStore(this.marketOraclePointer, marketIdBytes).value;
         const status: u256 = this.getMarketStore(this.marketStatusPointer, marketIdBytes).value;
-        const outcome: u256 = this.getMarketStore(this.marketOutcomePointer, marketIdBytes).value;
-        const yesPool: u256 = this.getMarketStore(this.marketYesPoolPointer, marketIdBytes).value;
-        const noPool: u256 = this.getMarketStore(this.marketNoPoolPointer, marketIdBytes).value;
+        if (!u256.eq(status, STATUS_OPEN)) {
+            throw new Revert('Market is not open');
+        }
 
-        const writer: BytesWriter = new BytesWriter(232);
-        writer.writeU256(creator);
-        writer.writeU64(endBlock);
-        writer.writeU256(oracle);
-        writer.writeU256(status);
-        writer.writeU256(outcome);
-        writer.writeU256(yesPool);
-        writer.writeU256(noPool);
+        if (Blockchain.block.number < this.getResolveAfterBlock(marketIdBytes)) {
+            throw new Revert('Market cannot be resolved yet');
+        }
+
+        const voter: Address = Blockchain.tx.sender;
+        if (!this.isCommitteeMember(marketId, marketIdBytes, voter)) {
+            throw new Revert('Only committee members can vote');
+        }
+
+        // Votes are final, so a member can't move the tally once others have voted
+        if (!u256.eq(this.getUserBet(this.marketOracleVotesPointer, marketIdBytes, voter), u256.Zero)) {
+            throw new Revert('Already voted');
+        }
+
+        this.setUserBet(this.marketOracleVotesPointer, marketIdBytes, voter, outcome);
+
+        const tallyStore: StoredU256 = this.getMarketStore(
+            this.marketVoteTallyPointer,
+            this.toOutcomeSubPointer(marketId, outcome),
+        );
+        const tally: u256 = SafeMath.add(tallyStore.value, u256.One);
+        tallyStore.value = tally;
+
+        this.emitEvent(new OracleVoted(marketId, voter, outcome));
+
+        // The committee's agreed outcome goes through the same dispute window
+        // as a single oracle's proposal
+        if (tally >= this.getMarketStore(this.marketVoteThresholdPointer, marketIdBytes).value) {
+            this.proposeOutcome(marketId, marketIdBytes, outcome, RESOLVED_BY_COMMITTEE);
+        }
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
         return writer;
     }
 
     @method(
         { name: 'marketId', type: ABIDataTypes.UINT256 },
-        { name: 'user', type: ABIDataTypes.ADDRESS },
-    )
-    @returns(
-        { name: 'yesBet', type: ABIDataTypes.UINT256 },
-        { name: 'noBet', type: ABIDataTypes.UINT256 },
-        { name: 'claimed', type: ABIDataTypes.BOOL },
+        { name: 'outcome', type: ABIDataTypes.UINT256 },
     )
-    public getUserPosition(calldata: Calldata): BytesWriter {
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('OutcomeDisputed')
+    public disputeOutcome(calldata: Calldata): BytesWriter {
         const marketId: u256 = calldata.readU256();
-        const user: Address = calldata.readAddress();
         const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+        const outcome: u256 = this.toResolutionOutcome(marketIdBytes, calldata.readU256());
 
-        const yesBet: u256 = this.getUserBet(this.userYesBetsPointer, marketIdBytes, user);
-        const noBet: u256 = this.getUserBet(this.userNoBetsPointer, marketIdBytes, user);
-        const claimed: u256 = this.getUserBet(this.userClaimedPointer, marketIdBytes, user);
+        const status: u256 = this.getMarketStore(this.marketStatusPointer, marketIdBytes).value;
+        if (!u256.eq(status, STATUS_PROPOSED)) {
+            throw new Revert('No proposed outcome to dispute');
+        }
 
-        const writer: BytesWriter = new BytesWriter(65);
-        writer.writeU256(yesBet);
-        writer.writeU256(noBet);
-        writer.writeBoolean(!u256.eq(claimed, u256.Zero));
+        if (Blockchain.block.number >= this.getDisputeEndBlock(marketIdBytes)) {
+            throw new Revert('Dispute window has closed');
+        }
+
+        const proposed: u256 = this.getMarketStore(this.marketProposedOutcomePointer, marketIdBytes).value;
+        if (u256.eq(outcome, proposed)) {
+            throw new Revert('Dispute must propose a different outcome');
+        }
+
+        const disputer: Address = Blockchain.tx.sender;
+        const bond: u256 = this._disputeBond.value;
+
+        this.getMarketStore(this.marketStatusPointer, marketIdBytes).value = STATUS_DISPUTED;
+        this.getMarketStore(this.marketDisputerPointer, marketIdBytes).value = u256.fromUint8ArrayBE(disputer);
+        this.getMarketStore(this.marketDisputedOutcomePointer, marketIdBytes).value = outcome;
+        // Record the bond actually posted so later setting changes don't
+        // affect what is returned or slashed
+        this.getMarketStore(this.marketDisputeBondPointer, marketIdBytes).value = bond;
+
+        TransferHelper.transferFrom(this.getCollateralToken(), disputer, Blockchain.contractAddress, bond);
+
+        this.emitEvent(new OutcomeDisputed(marketId, disputer, outcome, bond));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
         return writer;
     }
 
-    @method()
-    @returns({ name: 'count', type: ABIDataTypes.UINT256 })
-    public getMarketCountView(_calldata: Calldata): BytesWriter {
-        const writer: BytesWriter = new BytesWriter(32);
-        writer.writeU256(this._marketCount.value);
+    @method({ name: 'marketId', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('MarketResolved', 'FeesAccrued')
+    public finalizeMarket(calldata: Calldata): BytesWriter {
+        const marketId: u256 = calldata.readU256();
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+
+        const status: u256 = this.getMarketStore(this.marketStatusPointer, marketIdBytes).value;
+        if (!u256.eq(status, STATUS_PROPOSED)) {
+            throw new Revert('No undisputed proposal to finalize');
+        }
+
+        if (Blockchain.block.number < this.getDisputeEndBlock(marketIdBytes)) {
+            throw new Revert('Dispute window is still open');
+        }
+
+        const outcome: u256 = this.getMarketStore(this.marketOutcomePointer, marketIdBytes).value;
+        const resolvedBy: u8 = <u8>this.getMarketStore(this.marketResolvedByPointer, marketIdBytes).value.toU32();
+        this.settleMarket(marketId, marketIdBytes, outcome, resolvedBy);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
         return writer;
     }
 
-    @method()
-    @returns({ name: 'owner', type: ABIDataTypes.UINT256 })
-    public getOwnerView(_calldata: Calldata): BytesWriter {
-        const writer: BytesWriter = new BytesWriter(32);
-        writer.writeU256(this._ownerAddress.value);
+    @method(
+        { name: 'marketId', type: ABIDataTypes.UINT256 },
+        { name: 'outcome', type: ABIDataTypes.UINT256 },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('DisputeRuled', 'OracleSlashed', 'MarketResolved', 'FeesAccrued')
+    public ruleDispute(calldata: Calldata): BytesWriter {
+        const marketId: u256 = calldata.readU256();
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+        const outcome: u256 = this.toResolutionOutcome(marketIdBytes, calldata.readU256());
+
+        const status: u256 = this.getMarketStore(this.marketStatusPointer, marketIdBytes).value;
+        if (!u256.eq(status, STATUS_DISPUTED)) {
+            throw new Revert('Market is not disputed');
+        }
+
+        if (!u256.eq(u256.fromUint8ArrayBE(Blockchain.tx.sender), this.getArbitrator())) {
+            throw new Revert('Only the arbitrator can rule on disputes');
+        }
+
+        // An upheld proposal slashes the challenger's bond into protocol fees.
+        // An overturned one slashes the proposing oracle: the challenger gets
+        // their bond back, plus the slashed stake only when the ruling is the
+        // outcome they disputed with. On categorical markets the arbitrator
+        // can find both sides wrong, and the slash then goes to protocol fees.
+        const proposed: u256 = this.getMarketStore(this.marketProposedOutcomePointer, marketIdBytes).value;
+        const disputed: u256 = this.getMarketStore(this.marketDisputedOutcomePointer, marketIdBytes).value;
+        const bond: u256 = this.getMarketStore(this.marketDisputeBondPointer, marketIdBytes).value;
+        const disputerWon: bool = u256.eq(outcome, disputed);
+        if (u256.eq(outcome, proposed)) {
+            this._accruedProtocolFees.value = SafeMath.add(this._accruedProtocolFees.value, bond);
+        } else {
+            const disputerU256: u256 = this.getMarketStore(this.marketDisputerPointer, marketIdBytes).value;
+            const disputer: Address = Address.fromUint8Array(disputerU256.toUint8Array(true));
+            const slashed: u256 = this.slashProposer(marketId, marketIdBytes);
+            if (disputerWon) {
+                TransferHelper.transfer(this.getCollateralToken(), disputer, SafeMath.add(bond, slashed));
+            } else {
+                this._accruedProtocolFees.value = SafeMath.add(this._accruedProtocolFees.value, slashed);
+                TransferHelper.transfer(this.getCollateralToken(), disputer, bond);
+            }
+        }
+
+        this.emitEvent(new DisputeRuled(marketId, outcome, disputerWon));
+
+        this.settleMarket(marketId, marketIdBytes, outcome, RESOLVED_BY_ARBITRATOR);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
         return writer;
     }
 
-    @method()
-    @returns({ name: 'callerAddress', type: ABIDataTypes.UINT256 })
-    public getCallerAddressView(_calldata: Calldata): BytesWriter {
+    @method(
+        { name: 'marketId', type: ABIDataTypes.UINT256 },
+        { name: 'outcome', type: ABIDataTypes.UINT256 },
+        { name: 'shares', type: ABIDataTypes.UINT256 },
+        { name: 'minOut', type: ABIDataTypes.UINT256 },
+    )
+    @returns({ name: 'amountOut', type: ABIDataTypes.UINT256 })
+    @emit('PositionSold')
+    public sellPosition(calldata: Calldata): BytesWriter {
+        const marketId: u256 = calldata.readU256();
+        const outcome: u256 = calldata.readU256();
+        const shares: u256 = calldata.readU256();
+        const minOut: u256 = calldata.readU256();
+
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+        this.assertSellable(marketIdBytes, outcome);
+
+        const status: u256 = this.getMarketStore(this.marketStatusPointer, marketIdBytes).value;
+        if (!u256.eq(status, STATUS_OPEN)) {
+            throw new Revert('Market is not open');
+        }
+
+        if (Blockchain.block.number >= this.getMarketCloseBlock(marketIdBytes)) {
+            throw new Revert('Market betting period has ended');
+        }
+
+        if (u256.eq(shares, u256.Zero)) {
+            throw new Revert('Shares must be greater than zero');
+        }
+
+        const seller: Address = Blockchain.tx.sender;
+        const stake: u256 = this.getUserStake(marketId, marketIdBytes, outcome, seller);
+        if (shares > stake) {
+            throw new Revert('Not enough shares to sell');
+        }
+
+        const amountOut: u256 = this.getSellQuote(marketId, marketIdBytes, outcome, shares);
+        if (u256.eq(amountOut, u256.Zero)) {
+            throw new Revert('Sale amount too small');
+        }
+
+        if (amountOut < minOut) {
+            throw new Revert('Slippage: output below minimum');
+        }
+
+        const poolStore: StoredU256 = this.getOutcomePoolStore(marketId, marketIdBytes, outcome);
+        poolStore.value = SafeMath.sub(poolStore.value, shares);
+
+        this.setUserStake(marketId, marketIdBytes, outcome, seller, SafeMath.sub(stake, shares));
+
+        const spreadStore: StoredU256 = this.getMarketStore(this.marketExitSpreadPointer, marketIdBytes);
+        spreadStore.value = SafeMath.add(spreadStore.value, SafeMath.sub(shares, amountOut));
+
+        TransferHelper.transfer(this.getCollateralToken(), seller, amountOut);
+
+        this.emitEvent(new PositionSold(marketId, seller, outcome, shares, amountOut));
+
         const writer: BytesWriter = new BytesWriter(32);
-        writer.writeU256(u256.fromUint8ArrayBE(Blockchain.tx.sender));
+        writer.writeU256(amountOut);
         return writer;
     }
 
-    private toSubPointer(marketId: u256): Uint8Array {
-        const full: Uint8Array = marketId.toUint8Array(true);
-        const sub: Uint8Array = new Uint8Array(30);
+    @method(
+        { name: 'marketId', type: ABIDataTypes.UINT256 },
+        { name: 'outcome', type: ABIDataTypes.UINT256 },
+        { name: 'to', type: ABIDataTypes.ADDRESS },
+        { name: 'shares', type: ABIDataTypes.UINT256 },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('PositionTransferred')
+    public transferPosition(calldata: Calldata): BytesWriter {
+        const marketId: u256 = calldata.readU256();
+        const outcome: u256 = calldata.readU256();
+        const to: Address = calldata.readAddress();
+        const shares: u256 = calldata.readU256();
+
+        this.moveStake(marketId, outcome, Blockchain.tx.sender, to, shares);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    @method(
+        { name: 'from', type: ABIDataTypes.ADDRESS },
+        { name: 'to', type: ABIDataTypes.ADDRESS },
+        { name: 'marketId', type: ABIDataTypes.UINT256 },
+        { name: 'outcome', type: ABIDataTypes.UINT256 },
+        { name: 'shares', type: ABIDataTypes.UINT256 },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('PositionTransferred')
+    public transferPositionFrom(calldata: Calldata): BytesWriter {
+        const from: Address = calldata.readAddress();
+        const to: Address = calldata.readAddress();
+        const marketId: u256 = calldata.readU256();
+        const outcome: u256 = calldata.readU256();
+        const shares: u256 = calldata.readU256();
+
+        const caller: Address = Blockchain.tx.sender;
+        if (!caller.equals(from) && !this.hasPositionOperator(from, caller)) {
+            throw new Revert('Caller is not an approved position operator');
+        }
+
+        this.moveStake(marketId, outcome, from, to, shares);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    @method(
+        { name: 'operator', type: ABIDataTypes.ADDRESS },
+        { name: 'approved', type: ABIDataTypes.BOOL },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('PositionOperatorSet')
+    public setPositionOperator(calldata: Calldata): BytesWriter {
+        const operator: Address = calldata.readAddress();
+        const approved: bool = calldata.readBoolean();
+
+        const owner: Address = Blockchain.tx.sender;
+        if (operator.isZero() || operator.equals(owner)) {
+            throw new Revert('Invalid operator');
+        }
+
+        const operators: StoredMapU256 = new StoredMapU256(this.positionOperatorsPointer, EMPTY_POINTER);
+        operators.set(this.toOperatorKey(owner, operator), approved ? u256.One : u256.Zero);
+
+        this.emitEvent(new PositionOperatorSet(owner, operator, approved));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    @method({ name: 'marketId', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'amount', type: ABIDataTypes.UINT256 })
+    @emit('WinningsClaimed')
+    public claimWinnings(calldata: Calldata): BytesWriter {
+        const marketId: u256 = calldata.readU256();
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+
+        const status: u256 = this.getMarketStore(this.marketStatusPointer, marketIdBytes).value;
+        if (!u256.eq(status, STATUS_RESOLVED)) {
+            throw new Revert('Market is not resolved yet');
+        }
+
+        const claimant: Address = Blockchain.tx.sender;
+        const claimedVal: u256 = this.getUserBet(this.userClaimedPointer, marketIdBytes, claimant);
+        if (!u256.eq(claimedVal, u256.Zero)) {
+            throw new Revert('Already claimed');
+        }
+
+        // Parimutuel: winners split every outcome pool and the exit spread, less
+        // the fees taken at resolution, pro rata to their stake
+        const payoutPool: u256 = SafeMath.sub(this.getPayoutPot(marketId, marketIdBytes), this.getMarketFees(marketIdBytes));
+        let payout: u256 = u256.Zero;
+        if (this.isScalar(marketIdBytes)) {
+            payout = this.getScalarPayout(marketId, marketIdBytes, claimant, payoutPool);
+            if (u256.eq(payout, u256.Zero)) {
+                throw new Revert('No winning bet found');
+            }
+        } else {
+            const winningOutcome: u256 = this.getMarketStore(this.marketOutcomePointer, marketIdBytes).value;
+            const winningPool: u256 = this.getOutcomePoolStore(marketId, marketIdBytes, winningOutcome).value;
+            if (u256.eq(winningPool, u256.Zero)) {
+                // Nobody backed the outcome, so every bettor gets the payout
+                // pool back pro rata to their stake instead
+                const userStake: u256 = this.getUserTotalStake(marketId, marketIdBytes, claimant);
+                if (u256.eq(userStake, u256.Zero)) {
+                    throw new Revert('No stake to refund');
+                }
+                payout = SafeMath.div(SafeMath.mul(userStake, payoutPool), this.getTotalPool(marketId, marketIdBytes));
+            } else {
+                const userBet: u256 = this.getUserStake(marketId, marketIdBytes, winningOutcome, claimant);
+                if (u256.eq(userBet, u256.Zero)) {
+                    throw new Revert('No winning bet found');
+                }
+                payout = SafeMath.div(SafeMath.mul(userBet, payoutPool), winningPool);
+            }
+        }
+
+        this.setUserBet(this.userClaimedPointer, marketIdBytes, claimant, u256.One);
+
+        TransferHelper.transfer(this.getCollateralToken(), claimant, payout);
+
+        this.emitEvent(new WinningsClaimed(marketId, claimant, payout));
+
+        const writer: BytesWriter = new BytesWriter(32);
+        writer.writeU256(payout);
+        return writer;
+    }
+
+    @method({ name: 'marketId', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('MarketCancelled')
+    public cancelMarket(calldata: Calldata): BytesWriter {
+        const marketId: u256 = calldata.readU256();
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+
+        const status: u256 = this.getMarketStore(this.marketStatusPointer, marketIdBytes).value;
+        if (!u256.eq(status, STATUS_OPEN)) {
+            throw new Revert('Market is not open');
+        }
+
+        // The oracle may cancel at any time (e.g. an invalid question). Anyone
+        // else has to wait out the grace period past resolveAfterBlock, which covers an
+        // oracle that never shows up. Committee markets store no single oracle,
+        // so they can only be cancelled after the grace period.
+        const caller: Address = Blockchain.tx.sender;
+        const oracleU256: u256 = this.getMarketStore(this.marketOraclePointer, marketIdBytes).value;
+        if (!u256.eq(u256.fromUint8ArrayBE(caller), oracleU256)) {
+            const resolveAfterBlock: u64 = this.getResolveAfterBlock(marketIdBytes);
+            const cancellableAt: u64 = SafeMath.add64(resolveAfterBlock, this.getCancelGracePeriod());
+            if (Blockchain.block.number < cancellableAt) {
+                throw new Revert('Only the oracle can cancel before the grace period ends');
+            }
+        }
+
+        this.getMarketStore(this.marketStatusPointer, marketIdBytes).value = STATUS_CANCELLED;
+        this.releaseOracles(marketId, marketIdBytes);
+
+        // Refunds only cover stakes still in the pools, so any exit spread
+        // would otherwise be stranded; it goes to the protocol instead
+        const spread: u256 = this.getMarketStore(this.marketExitSpreadPointer, marketIdBytes).value;
+        this._accruedProtocolFees.value = SafeMath.add(this._accruedProtocolFees.value, spread);
+
+        this.emitEvent(new MarketCancelled(marketId, caller));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    @method({ name: 'marketId', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'amount', type: ABIDataTypes.UINT256 })
+    @emit('RefundClaimed')
+    public claimRefund(calldata: Calldata): BytesWriter {
+        const marketId: u256 = calldata.readU256();
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+
+        const status: u256 = this.getMarketStore(this.marketStatusPointer, marketIdBytes).value;
+        if (!u256.eq(status, STATUS_CANCELLED)) {
+            throw new Revert('Market is not cancelled');
+        }
+
+        const claimant: Address = Blockchain.tx.sender;
+        const claimedVal: u256 = this.getUserBet(this.userClaimedPointer, marketIdBytes, claimant);
+        if (!u256.eq(claimedVal, u256.Zero)) {
+            throw new Revert('Already claimed');
+        }
+
+        // Refund the full stake across every outcome
+        const refund: u256 = this.getUserTotalStake(marketId, marketIdBytes, claimant);
+        if (u256.eq(refund, u256.Zero)) {
+            throw new Revert('No stake to refund');
+        }
+
+        this.setUserBet(this.userClaimedPointer, marketIdBytes, claimant, u256.One);
+
+        TransferHelper.transfer(this.getCollateralToken(), claimant, refund);
+
+        this.emitEvent(new RefundClaimed(marketId, claimant, refund));
+
+        const writer: BytesWriter = new BytesWriter(32);
+        writer.writeU256(refund);
+        return writer;
+    }
+
+    @method({ name: 'blocks', type: ABIDataTypes.UINT64 })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public setCancelGracePeriod(calldata: Calldata): BytesWriter {
+        const blocks: u64 = calldata.readU64();
+
+        if (!this.isOwner(Blockchain.tx.sender)) {
+            throw new Revert('Only the owner can set the grace period');
+        }
+
+        if (blocks == 0) {
+            throw new Revert('Grace period must be greater than zero');
+        }
+
+        const stored: StoredU64 = new StoredU64(this.cancelGracePeriodPointer, EMPTY_POINTER);
+        stored.set(0, blocks);
+        stored.save();
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /** Applies to markets created afterwards; existing markets keep their timeout block. */
+    @method({ name: 'blocks', type: ABIDataTypes.UINT64 })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public setResolutionTimeout(calldata: Calldata): BytesWriter {
+        const blocks: u64 = calldata.readU64();
+
+        if (!this.isOwner(Blockchain.tx.sender)) {
+            throw new Revert('Only the owner can set the resolution timeout');
+        }
+
+        if (blocks == 0) {
+            throw new Revert('Resolution timeout must be greater than zero');
+        }
+
+        const stored: StoredU64 = new StoredU64(this.resolutionTimeoutPointer, EMPTY_POINTER);
+        stored.set(0, blocks);
+        stored.save();
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    @method({ name: 'feeBps', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('ProtocolFeeUpdated')
+    public setProtocolFee(calldata: Calldata): BytesWriter {
+        const feeBps: u256 = calldata.readU256();
+
+        if (!this.isOwner(Blockchain.tx.sender)) {
+            throw new Revert('Only the owner can set the protocol fee');
+        }
+
+        if (feeBps > MAX_PROTOCOL_FEE_BPS) {
+            throw new Revert('Protocol fee exceeds maximum');
+        }
+
+        // Only applies to markets created from now on
+        this._protocolFeeBps.value = feeBps;
+
+        this.emitEvent(new ProtocolFeeUpdated(feeBps));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    @method()
+    @returns({ name: 'amount', type: ABIDataTypes.UINT256 })
+    @emit('FeesWithdrawn')
+    public withdrawFees(_calldata: Calldata): BytesWriter {
+        const caller: Address = Blockchain.tx.sender;
+
+        // Creator fees accrue per creator; protocol fees go to whoever is
+        // owner at withdrawal time
+        const creatorFees: StoredMapU256 = new StoredMapU256(this.creatorFeesPointer, EMPTY_POINTER);
+        const callerKey: u256 = u256.fromUint8ArrayBE(caller);
+        let amount: u256 = creatorFees.get(callerKey);
+        creatorFees.set(callerKey, u256.Zero);
+
+        if (this.isOwner(caller)) {
+            amount = SafeMath.add(amount, this._accruedProtocolFees.value);
+            this._accruedProtocolFees.value = u256.Zero;
+        }
+
+        if (u256.eq(amount, u256.Zero)) {
+            throw new Revert('No fees to withdraw');
+        }
+
+        TransferHelper.transfer(this.getCollateralToken(), caller, amount);
+
+        this.emitEvent(new FeesWithdrawn(caller, amount));
+
+        const writer: BytesWriter = new BytesWriter(32);
+        writer.writeU256(amount);
+        return writer;
+    }
+
+    @method({ name: 'blocks', type: ABIDataTypes.UINT64 })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public setDisputeWindow(calldata: Calldata): BytesWriter {
+        const blocks: u64 = calldata.readU64();
+
+        if (!this.isOwner(Blockchain.tx.sender)) {
+            throw new Revert('Only the owner can set the dispute window');
+        }
+
+        if (blocks == 0) {
+            throw new Revert('Dispute window must be greater than zero');
+        }
+
+        const stored: StoredU64 = new StoredU64(this.disputeWindowPointer, EMPTY_POINTER);
+        stored.set(0, blocks);
+        stored.save();
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    @method({ name: 'bond', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public setDisputeBond(calldata: Calldata): BytesWriter {
+        const bond: u256 = calldata.readU256();
+
+        if (!this.isOwner(Blockchain.tx.sender)) {
+            throw new Revert('Only the owner can set the dispute bond');
+        }
+
+        if (u256.eq(bond, u256.Zero)) {
+            throw new Revert('Dispute bond must be greater than zero');
+        }
+
+        this._disputeBond.value = bond;
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    @method({ name: 'arbitrator', type: ABIDataTypes.ADDRESS })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    public setArbitrator(calldata: Calldata): BytesWriter {
+        const arbitrator: Address = calldata.readAddress();
+
+        if (!this.isOwner(Blockchain.tx.sender)) {
+            throw new Revert('Only the owner can set the arbitrator');
+        }
+
+        // Zero hands arbitration back to the owner
+        this._arbitrator.value = u256.fromUint8ArrayBE(arbitrator);
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    @method(
+        { name: 'bettingPaused', type: ABIDataTypes.BOOL },
+        { name: 'creationPaused', type: ABIDataTypes.BOOL },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('PauseUpdated')
+    public setPaused(calldata: Calldata): BytesWriter {
+        const bettingPaused: bool = calldata.readBoolean();
+        const creationPaused: bool = calldata.readBoolean();
+
+        if (!this.isOwner(Blockchain.tx.sender)) {
+            throw new Revert('Only the owner can pause the contract');
+        }
+
+        // Resolution, claims, refunds and exits stay available while paused
+        this._bettingPaused.value = bettingPaused ? u256.One : u256.Zero;
+        this._creationPaused.value = creationPaused ? u256.One : u256.Zero;
+
+        this.emitEvent(new PauseUpdated(bettingPaused, creationPaused));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    @method({ name: 'newOwner', type: ABIDataTypes.ADDRESS })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('OwnershipTransferStarted')
+    public transferOwnership(calldata: Calldata): BytesWriter {
+        const newOwner: Address = calldata.readAddress();
+        const caller: Address = Blockchain.tx.sender;
+
+        if (!this.isOwner(caller)) {
+            throw new Revert('Only the owner can transfer ownership');
+        }
+
+        if (!newOwner.isZero() && this.isOwner(newOwner)) {
+            throw new Revert('Address is already the owner');
+        }
+
+        // Ownership only moves once the new owner accepts; zero cancels a
+        // pending transfer
+        this._pendingOwner.value = u256.fromUint8ArrayBE(newOwner);
+
+        this.emitEvent(new OwnershipTransferStarted(caller, newOwner));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    @method()
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('OwnershipTransferred')
+    public acceptOwnership(_calldata: Calldata): BytesWriter {
+        const caller: Address = Blockchain.tx.sender;
+        const callerU256: u256 = u256.fromUint8ArrayBE(caller);
+        const pending: u256 = this._pendingOwner.value;
+
+        if (u256.eq(pending, u256.Zero) || !u256.eq(pending, callerU256)) {
+            throw new Revert('Only the pending owner can accept ownership');
+        }
+
+        const previousOwner: Address = Address.fromUint8Array(this._ownerAddress.value.toUint8Array(true));
+        this._ownerAddress.value = callerU256;
+        this._pendingOwner.value = u256.Zero;
+
+        this.emitEvent(new OwnershipTransferred(previousOwner, caller));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    @method({ name: 'maxMarkets', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('MaxMarketsUpdated')
+    public setMaxMarkets(calldata: Calldata): BytesWriter {
+        const maxMarkets: u256 = calldata.readU256();
+
+        if (!this.isOwner(Blockchain.tx.sender)) {
+            throw new Revert('Only the owner can set the market cap');
+        }
+
+        if (u256.eq(maxMarkets, u256.Zero)) {
+            throw new Revert('Market cap must be greater than zero');
+        }
+
+        if (maxMarkets < this._marketCount.value) {
+            throw new Revert('Market cap is below the current market count');
+        }
+
+        this._maxMarkets.value = maxMarkets;
+
+        this.emitEvent(new MaxMarketsUpdated(maxMarkets));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    @method({ name: 'minBet', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('MinBetUpdated')
+    public setMinBet(calldata: Calldata): BytesWriter {
+        const minBet: u256 = calldata.readU256();
+
+        if (!this.isOwner(Blockchain.tx.sender)) {
+            throw new Revert('Only the owner can set the minimum bet');
+        }
+
+        // Zero removes the minimum; bets still have to be non-zero
+        this._minBet.value = minBet;
+
+        this.emitEvent(new MinBetUpdated(minBet));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    @method(
+        { name: 'signer', type: ABIDataTypes.EXTENDED_ADDRESS },
+        { name: 'approved', type: ABIDataTypes.BOOL },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('PriceSignerSet')
+    public setPriceSigner(calldata: Calldata): BytesWriter {
+        const signer: ExtendedAddress = calldata.readExtendedAddress();
+        const approved: bool = calldata.readBoolean();
+
+        if (!this.isOwner(Blockchain.tx.sender)) {
+            throw new Revert('Only the owner can set price signers');
+        }
+
+        if (signer.isZero() || u256.eq(u256.fromUint8ArrayBE(signer.tweakedPublicKey), u256.Zero)) {
+            throw new Revert('Price signer must be set');
+        }
+
+        const signerKey: u256 = this.toPriceSignerKey(signer);
+
+        const signers: StoredMapU256 = new StoredMapU256(this.priceSignersPointer, EMPTY_POINTER);
+        signers.set(signerKey, approved ? u256.One : u256.Zero);
+
+        this.emitEvent(new PriceSignerSet(signerKey, approved));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Registers the caller as an oracle, or updates a registered oracle's
+     * profile and adds to its stake. The display name and metadata live
+     * off-chain; the profile hash commits to them the way a market's content
+     * hash commits to its question.
+     */
+    @method(
+        { name: 'stake', type: ABIDataTypes.UINT256 },
+        { name: 'profileHash', type: ABIDataTypes.UINT256 },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('OracleRegistered')
+    public registerOracle(calldata: Calldata): BytesWriter {
+        const amount: u256 = calldata.readU256();
+        const profileHash: u256 = calldata.readU256();
+        const oracle: Address = Blockchain.tx.sender;
+        const oracleKey: u256 = u256.fromUint8ArrayBE(oracle);
+
+        if (u256.eq(profileHash, u256.Zero)) {
+            throw new Revert('Profile hash must be set');
+        }
+
+        const stakes: StoredMapU256 = new StoredMapU256(this.oracleStakePointer, EMPTY_POINTER);
+        const stake: u256 = SafeMath.add(stakes.get(oracleKey), amount);
+        if (u256.eq(stake, u256.Zero) || stake < this._minOracleStake.value) {
+            throw new Revert('Stake is below the oracle minimum');
+        }
+
+        const registeredAt: StoredMapU256 = new StoredMapU256(this.oracleRegisteredAtPointer, EMPTY_POINTER);
+        if (u256.eq(registeredAt.get(oracleKey), u256.Zero)) {
+            registeredAt.set(oracleKey, u256.fromU64(Blockchain.block.number));
+            const index: u256 = SafeMath.add(this._oracleCount.value, u256.One);
+            this.getMarketStore(this.oracleListPointer, this.toSubPointer(index)).value = oracleKey;
+            this._oracleCount.value = index;
+        }
+
+        stakes.set(oracleKey, stake);
+        new StoredMapU256(this.oracleProfileHashPointer, EMPTY_POINTER).set(oracleKey, profileHash);
+
+        if (!u256.eq(amount, u256.Zero)) {
+            TransferHelper.transferFrom(this.getCollateralToken(), oracle, Blockchain.contractAddress, amount);
+        }
+
+        this.emitEvent(new OracleRegistered(oracle, stake, profileHash));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Moves part of the caller's stake into unbonding. It stays slashable
+     * until the unlock block, which restarts with every unstake so stake
+     * can't be pulled out from under a proposal that is still in dispute.
+     * Oracles named on an unresolved market can't unstake at all.
+     */
+    @method({ name: 'amount', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'unlockBlock', type: ABIDataTypes.UINT64 })
+    @emit('OracleUnstaked')
+    public unstakeOracle(calldata: Calldata): BytesWriter {
+        const amount: u256 = calldata.readU256();
+        const oracle: Address = Blockchain.tx.sender;
+        const oracleKey: u256 = u256.fromUint8ArrayBE(oracle);
+
+        if (u256.eq(amount, u256.Zero)) {
+            throw new Revert('Amount must be greater than zero');
+        }
+
+        this.assertNoOpenMarkets(oracleKey);
+
+        const stakes: StoredMapU256 = new StoredMapU256(this.oracleStakePointer, EMPTY_POINTER);
+        const stake: u256 = stakes.get(oracleKey);
+        if (amount > stake) {
+            throw new Revert('Amount exceeds the oracle stake');
+        }
+
+        const unbonding: StoredMapU256 = new StoredMapU256(this.oracleUnbondingPointer, EMPTY_POINTER);
+        const unlockBlock: u64 = Blockchain.block.number + ORACLE_UNBONDING_BLOCKS;
+        stakes.set(oracleKey, SafeMath.sub(stake, amount));
+        unbonding.set(oracleKey, SafeMath.add(unbonding.get(oracleKey), amount));
+        new StoredMapU256(this.oracleUnlockBlockPointer, EMPTY_POINTER).set(oracleKey, u256.fromU64(unlockBlock));
+
+        this.emitEvent(new OracleUnstaked(oracle, amount, unlockBlock));
+
+        const writer: BytesWriter = new BytesWriter(8);
+        writer.writeU64(unlockBlock);
+        return writer;
+    }
+
+    @method()
+    @returns({ name: 'amount', type: ABIDataTypes.UINT256 })
+    @emit('OracleStakeWithdrawn')
+    public withdrawOracleStake(_calldata: Calldata): BytesWriter {
+        const oracle: Address = Blockchain.tx.sender;
+        const oracleKey: u256 = u256.fromUint8ArrayBE(oracle);
+
+        const unbonding: StoredMapU256 = new StoredMapU256(this.oracleUnbondingPointer, EMPTY_POINTER);
+        const amount: u256 = unbonding.get(oracleKey);
+        if (u256.eq(amount, u256.Zero)) {
+            throw new Revert('No unstaked collateral to withdraw');
+        }
+
+        const unlockBlock: u64 = new StoredMapU256(this.oracleUnlockBlockPointer, EMPTY_POINTER).get(oracleKey).toU64();
+        if (Blockchain.block.number < unlockBlock) {
+            throw new Revert('Stake is still unbonding');
+        }
+
+        this.assertNoOpenMarkets(oracleKey);
+
+        unbonding.set(oracleKey, u256.Zero);
+        TransferHelper.transfer(this.getCollateralToken(), oracle, amount);
+
+        this.emitEvent(new OracleStakeWithdrawn(oracle, amount));
+
+        const writer: BytesWriter = new BytesWriter(32);
+        writer.writeU256(amount);
+        return writer;
+    }
+
+    /**
+     * Owner slash for misconduct outside a dispute. Takes up to `amount`
+     * from the oracle's active stake, then from its unbonding stake, into
+     * protocol fees.
+     */
+    @method(
+        { name: 'oracle', type: ABIDataTypes.ADDRESS },
+        { name: 'amount', type: ABIDataTypes.UINT256 },
+    )
+    @returns({ name: 'slashed', type: ABIDataTypes.UINT256 })
+    @emit('OracleSlashed')
+    public slashOracle(calldata: Calldata): BytesWriter {
+        const oracle: Address = calldata.readAddress();
+        const amount: u256 = calldata.readU256();
+
+        if (!this.isOwner(Blockchain.tx.sender)) {
+            throw new Revert('Only the owner can slash oracles');
+        }
+
+        if (u256.eq(amount, u256.Zero)) {
+            throw new Revert('Amount must be greater than zero');
+        }
+
+        const slashed: u256 = this.slashOracleStake(u256.fromUint8ArrayBE(oracle), amount);
+        if (u256.eq(slashed, u256.Zero)) {
+            throw new Revert('Oracle has no stake to slash');
+        }
+
+        this._accruedProtocolFees.value = SafeMath.add(this._accruedProtocolFees.value, slashed);
+
+        this.emitEvent(new OracleSlashed(oracle, slashed, u256.Zero));
+
+        const writer: BytesWriter = new BytesWriter(32);
+        writer.writeU256(slashed);
+        return writer;
+    }
+
+    @method({ name: 'minStake', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('MinOracleStakeUpdated')
+    public setMinOracleStake(calldata: Calldata): BytesWriter {
+        const minStake: u256 = calldata.readU256();
+
+        if (!this.isOwner(Blockchain.tx.sender)) {
+            throw new Revert('Only the owner can set the minimum oracle stake');
+        }
+
+        // Applies to new registrations and top-ups; existing stakes below it
+        // stay registered but can't be named on new markets until topped up
+        this._minOracleStake.value = minStake;
+
+        this.emitEvent(new MinOracleStakeUpdated(minStake));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Replaces a private market's Merkle root. Users who joined under the old
+     * root must join again with a proof against the new one; zero leaves
+     * only the explicitly allowlisted addresses.
+     */
+    @method(
+        { name: 'marketId', type: ABIDataTypes.UINT256 },
+        { name: 'root', type: ABIDataTypes.UINT256 },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('AllowlistRootUpdated')
+    public setAllowlistRoot(calldata: Calldata): BytesWriter {
+        const marketId: u256 = calldata.readU256();
+        const root: u256 = calldata.readU256();
+
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+        this.assertAllowlistManager(marketIdBytes);
+
+        this.getMarketStore(this.marketAllowlistRootPointer, marketIdBytes).value = root;
+
+        this.emitEvent(new AllowlistRootUpdated(marketId, root));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Adds addresses to (or removes them from) a private market's explicit
+     * allowlist. Stakes already placed by a removed address stay in the pool.
+     */
+    @method(
+        { name: 'marketId', type: ABIDataTypes.UINT256 },
+        { name: 'members', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+        { name: 'allowed', type: ABIDataTypes.BOOL },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('AllowlistMemberSet')
+    public setAllowlistMembers(calldata: Calldata): BytesWriter {
+        const marketId: u256 = calldata.readU256();
+        const members: Address[] = calldata.readAddressArray();
+        const allowed: bool = calldata.readBoolean();
+
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+        this.assertAllowlistManager(marketIdBytes);
+
+        if (members.length == 0 || members.length > MAX_ALLOWLIST_BATCH) {
+            throw new Revert('Allowlist updates take between 1 and 50 addresses');
+        }
+
+        for (let i: i32 = 0; i < members.length; i++) {
+            this.setAllowlistMember(marketId, marketIdBytes, members[i], allowed);
+        }
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    /**
+     * Proves the sender is in a private market's Merkle allowlist so they can
+     * bet. Leaves are sha256 of the 32-byte address and each level hashes the
+     * sorted pair, so proofs need no left/right flags.
+     */
+    @method(
+        { name: 'marketId', type: ABIDataTypes.UINT256 },
+        { name: 'proof', type: ABIDataTypes.ARRAY_OF_UINT256 },
+    )
+    @returns({ name: 'success', type: ABIDataTypes.BOOL })
+    @emit('MarketJoined')
+    public joinMarket(calldata: Calldata): BytesWriter {
+        const marketId: u256 = calldata.readU256();
+        const proof: u256[] = calldata.readU256Array();
+
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+        if (!this.isPrivate(marketIdBytes)) {
+            throw new Revert('Market is not private');
+        }
+
+        const root: u256 = this.getMarketStore(this.marketAllowlistRootPointer, marketIdBytes).value;
+        if (u256.eq(root, u256.Zero)) {
+            throw new Revert('Market has no allowlist root');
+        }
+
+        const member: Address = Blockchain.tx.sender;
+        if (!this.verifyAllowlistProof(root, member, proof)) {
+            throw new Revert('Not on the market allowlist');
+        }
+
+        this.setUserBet(this.allowlistJoinedRootPointer, marketIdBytes, member, root);
+
+        this.emitEvent(new MarketJoined(marketId, member, root));
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(true);
+        return writer;
+    }
+
+    @method({ name: 'marketId', type: ABIDataTypes.UINT256 })
+    @returns(
+        { name: 'creator', type: ABIDataTypes.UINT256 },
+        { name: 'closeBlock', type: ABIDataTypes.UINT64 },
+        { name: 'resolveAfterBlock', type: ABIDataTypes.UINT64 },
+        { name: 'oracle', type: ABIDataTypes.UINT256 },
+        { name: 'status', type: ABIDataTypes.UINT256 },
+        { name: 'outcome', type: ABIDataTypes.UINT256 },
+        { name: 'yesPool', type: ABIDataTypes.UINT256 },
+        { name: 'noPool', type: ABIDataTypes.UINT256 },
+        { name: 'outcomeCount', type: ABIDataTypes.UINT256 },
+        { name: 'protocolFeeBps', type: ABIDataTypes.UINT256 },
+        { name: 'creatorFeeBps', type: ABIDataTypes.UINT256 },
+        { name: 'protocolFee', type: ABIDataTypes.UINT256 },
+        { name: 'creatorFee', type: ABIDataTypes.UINT256 },
+        { name: 'committeeSize', type: ABIDataTypes.UINT256 },
+        { name: 'exitSpread', type: ABIDataTypes.UINT256 },
+        { name: 'contentHash', type: ABIDataTypes.UINT256 },
+        { name: 'lowerBound', type: ABIDataTypes.UINT256 },
+        { name: 'upperBound', type: ABIDataTypes.UINT256 },
+        { name: 'fallbackOracle', type: ABIDataTypes.UINT256 },
+        { name: 'timeoutBlock', type: ABIDataTypes.UINT64 },
+        { name: 'resolvedBy', type: ABIDataTypes.UINT8 },
+        { name: 'isPrivate', type: ABIDataTypes.BOOL },
+        { name: 'allowlistRoot', type: ABIDataTypes.UINT256 },
+    )
+    public getMarket(calldata: Calldata): BytesWriter {
+        const marketId: u256 = calldata.readU256();
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+
+        const creator: u256 = this.getMarketStore(this.marketCreatorPointer, marketIdBytes).value;
+        const closeBlock: u64 = this.getMarketCloseBlock(marketIdBytes);
+        const resolveAfterBlock: u64 = this.getResolveAfterBlock(marketIdBytes);
+        const oracle: u256 = this.getMarketStore(this.marketOraclePointer, marketIdBytes).value;
+        const status: u256 = this.getMarketStore(this.marketStatusPointer, marketIdBytes).value;
+        const outcome: u256 = this.getMarketStore(this.marketOutcomePointer, marketIdBytes).value;
+        const yesPool: u256 = this.getMarketStore(this.marketYesPoolPointer, marketIdBytes).value;
+        const noPool: u256 = this.getMarketStore(this.marketNoPoolPointer, marketIdBytes).value;
+        const outcomeCount: u256 = this.getOutcomeCount(marketIdBytes);
+        const protocolFeeBps: u256 = this.getMarketStore(this.marketProtocolFeeBpsPointer, marketIdBytes).value;
+        const creatorFeeBps: u256 = this.getMarketStore(this.marketCreatorFeeBpsPointer, marketIdBytes).value;
+        const protocolFee: u256 = this.getMarketStore(this.marketProtocolFeePointer, marketIdBytes).value;
+        const creatorFee: u256 = this.getMarketStore(this.marketCreatorFeePointer, marketIdBytes).value;
+        const committeeSize: u256 = this.getMarketStore(this.marketCommitteeSizePointer, marketIdBytes).value;
+        const exitSpread: u256 = this.getMarketStore(this.marketExitSpreadPointer, marketIdBytes).value;
+        const contentHash: u256 = this.getMarketStore(this.marketContentHashPointer, marketIdBytes).value;
+        const lowerBound: u256 = this.getMarketStore(this.marketScalarLowerPointer, marketIdBytes).value;
+        const upperBound: u256 = this.getMarketStore(this.marketScalarUpperPointer, marketIdBytes).value;
+        const fallbackOracle: u256 = this.getMarketStore(this.marketFallbackOraclePointer, marketIdBytes).value;
+        const timeoutBlock: u64 = this.getMarketBlock(this.marketTimeoutBlockPointer, marketIdBytes);
+        const resolvedBy: u8 = <u8>this.getMarketStore(this.marketResolvedByPointer, marketIdBytes).value.toU32();
+        const isPrivate: bool = this.isPrivate(marketIdBytes);
+        const allowlistRoot: u256 = this.getMarketStore(this.marketAllowlistRootPointer, marketIdBytes).value;
+
+        const writer: BytesWriter = new BytesWriter(634);
+        writer.writeU256(creator);
+        writer.writeU64(closeBlock);
+        writer.writeU64(resolveAfterBlock);
+        writer.writeU256(oracle);
+        writer.writeU256(status);
+        writer.writeU256(outcome);
+        writer.writeU256(yesPool);
+        writer.writeU256(noPool);
+        writer.writeU256(outcomeCount);
+        writer.writeU256(protocolFeeBps);
+        writer.writeU256(creatorFeeBps);
+        writer.writeU256(protocolFee);
+        writer.writeU256(creatorFee);
+        writer.writeU256(committeeSize);
+        writer.writeU256(exitSpread);
+        writer.writeU256(contentHash);
+        writer.writeU256(lowerBound);
+        writer.writeU256(upperBound);
+        writer.writeU256(fallbackOracle);
+        writer.writeU64(timeoutBlock);
+        writer.writeU8(resolvedBy);
+        writer.writeBoolean(isPrivate);
+        writer.writeU256(allowlistRoot);
+        return writer;
+    }
+
+    @method(
+        { name: 'marketId', type: ABIDataTypes.UINT256 },
+        { name: 'user', type: ABIDataTypes.ADDRESS },
+    )
+    @returns(
+        { name: 'yesBet', type: ABIDataTypes.UINT256 },
+        { name: 'noBet', type: ABIDataTypes.UINT256 },
+        { name: 'claimed', type: ABIDataTypes.BOOL },
+    )
+    public getUserPosition(calldata: Calldata): BytesWriter {
+        const marketId: u256 = calldata.readU256();
+        const user: Address = calldata.readAddress();
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+
+        const yesBet: u256 = this.getUserBet(this.userYesBetsPointer, marketIdBytes, user);
+        const noBet: u256 = this.getUserBet(this.userNoBetsPointer, marketIdBytes, user);
+        const claimed: u256 = this.getUserBet(this.userClaimedPointer, marketIdBytes, user);
+
+        const writer: BytesWriter = new BytesWriter(65);
+        writer.writeU256(yesBet);
+        writer.writeU256(noBet);
+        writer.writeBoolean(!u256.eq(claimed, u256.Zero));
+        return writer;
+    }
+
+    @method({ name: 'marketId', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'pools', type: ABIDataTypes.ARRAY_OF_UINT256 })
+    public getOutcomePools(calldata: Calldata): BytesWriter {
+        const marketId: u256 = calldata.readU256();
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+
+        const count: u32 = this.getOutcomeCount(marketIdBytes).toU32();
+        const pools: u256[] = new Array<u256>(count);
+        for (let i: u32 = 0; i < count; i++) {
+            pools[i] = this.getOutcomePoolStore(marketId, marketIdBytes, u256.fromU32(i + 1)).value;
+        }
+
+        const writer: BytesWriter = new BytesWriter(2 + 32 * count);
+        writer.writeU256Array(pools);
+        return writer;
+    }
+
+    @method(
+        { name: 'marketId', type: ABIDataTypes.UINT256 },
+        { name: 'user', type: ABIDataTypes.ADDRESS },
+    )
+    @returns(
+        { name: 'stakes', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        { name: 'claimed', type: ABIDataTypes.BOOL },
+    )
+    public getUserStakes(calldata: Calldata): BytesWriter {
+        const marketId: u256 = calldata.readU256();
+        const user: Address = calldata.readAddress();
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+
+        const count: u32 = this.getOutcomeCount(marketIdBytes).toU32();
+        const stakes: u256[] = new Array<u256>(count);
+        for (let i: u32 = 0; i < count; i++) {
+            stakes[i] = this.getUserStake(marketId, marketIdBytes, u256.fromU32(i + 1), user);
+        }
+        const claimed: u256 = this.getUserBet(this.userClaimedPointer, marketIdBytes, user);
+
+        const writer: BytesWriter = new BytesWriter(3 + 32 * count);
+        writer.writeU256Array(stakes);
+        writer.writeBoolean(!u256.eq(claimed, u256.Zero));
+        return writer;
+    }
+
+    @method()
+    @returns({ name: 'count', type: ABIDataTypes.UINT256 })
+    public getMarketCountView(_calldata: Calldata): BytesWriter {
+        const writer: BytesWriter = new BytesWriter(32);
+        writer.writeU256(this._marketCount.value);
+        return writer;
+    }
+
+    @method()
+    @returns({ name: 'owner', type: ABIDataTypes.UINT256 })
+    public getOwnerView(_calldata: Calldata): BytesWriter {
+        const writer: BytesWriter = new BytesWriter(32);
+        writer.writeU256(this._ownerAddress.value);
+        return writer;
+    }
+
+    @method()
+    @returns(
+        { name: 'owner', type: ABIDataTypes.UINT256 },
+        { name: 'pendingOwner', type: ABIDataTypes.UINT256 },
+        { name: 'bettingPaused', type: ABIDataTypes.BOOL },
+        { name: 'creationPaused', type: ABIDataTypes.BOOL },
+        { name: 'maxMarkets', type: ABIDataTypes.UINT256 },
+        { name: 'minBet', type: ABIDataTypes.UINT256 },
+    )
+    public getAdminConfigView(_calldata: Calldata): BytesWriter {
+        const writer: BytesWriter = new BytesWriter(130);
+        writer.writeU256(this._ownerAddress.value);
+        writer.writeU256(this._pendingOwner.value);
+        writer.writeBoolean(this.isFlagSet(this._bettingPaused));
+        writer.writeBoolean(this.isFlagSet(this._creationPaused));
+        writer.writeU256(this.getMaxMarkets());
+        writer.writeU256(this._minBet.value);
+        return writer;
+    }
+
+    @method()
+    @returns({ name: 'callerAddress', type: ABIDataTypes.UINT256 })
+    public getCallerAddressView(_calldata: Calldata): BytesWriter {
+        const writer: BytesWriter = new BytesWriter(32);
+        writer.writeU256(u256.fromUint8ArrayBE(Blockchain.tx.sender));
+        return writer;
+    }
+
+    @method()
+    @returns({ name: 'token', type: ABIDataTypes.UINT256 })
+    public getCollateralTokenView(_calldata: Calldata): BytesWriter {
+        const writer: BytesWriter = new BytesWriter(32);
+        writer.writeU256(this._collateralToken.value);
+        return writer;
+    }
+
+    @method({ name: 'account', type: ABIDataTypes.ADDRESS })
+    @returns(
+        { name: 'protocolFeeBps', type: ABIDataTypes.UINT256 },
+        { name: 'protocolFees', type: ABIDataTypes.UINT256 },
+        { name: 'creatorFees', type: ABIDataTypes.UINT256 },
+    )
+    public getFees(calldata: Calldata): BytesWriter {
+        const account: Address = calldata.readAddress();
+        const creatorFees: StoredMapU256 = new StoredMapU256(this.creatorFeesPointer, EMPTY_POINTER);
+
+        const writer: BytesWriter = new BytesWriter(96);
+        writer.writeU256(this._protocolFeeBps.value);
+        writer.writeU256(this._accruedProtocolFees.value);
+        writer.writeU256(creatorFees.get(u256.fromUint8ArrayBE(account)));
+        return writer;
+    }
+
+    @method({ name: 'marketId', type: ABIDataTypes.UINT256 })
+    @returns(
+        { name: 'proposedOutcome', type: ABIDataTypes.UINT256 },
+        { name: 'proposedAtBlock', type: ABIDataTypes.UINT64 },
+        { name: 'disputeEndBlock', type: ABIDataTypes.UINT64 },
+        { name: 'disputer', type: ABIDataTypes.UINT256 },
+        { name: 'disputedOutcome', type: ABIDataTypes.UINT256 },
+        { name: 'bond', type: ABIDataTypes.UINT256 },
+    )
+    public getResolution(calldata: Calldata): BytesWriter {
+        const marketId: u256 = calldata.readU256();
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+
+        const proposedAt: u64 = this.getMarketBlock(this.marketProposedAtPointer, marketIdBytes);
+        const disputeEnd: u64 = proposedAt == 0 ? 0 : this.getDisputeEndBlock(marketIdBytes);
+
+        const writer: BytesWriter = new BytesWriter(144);
+        writer.writeU256(this.getMarketStore(this.marketProposedOutcomePointer, marketIdBytes).value);
+        writer.writeU64(proposedAt);
+        writer.writeU64(disputeEnd);
+        writer.writeU256(this.getMarketStore(this.marketDisputerPointer, marketIdBytes).value);
+        writer.writeU256(this.getMarketStore(this.marketDisputedOutcomePointer, marketIdBytes).value);
+        writer.writeU256(this.getMarketStore(this.marketDisputeBondPointer, marketIdBytes).value);
+        return writer;
+    }
+
+    @method()
+    @returns(
+        { name: 'windowBlocks', type: ABIDataTypes.UINT64 },
+        { name: 'bond', type: ABIDataTypes.UINT256 },
+        { name: 'arbitrator', type: ABIDataTypes.UINT256 },
+    )
+    public getDisputeConfigView(_calldata: Calldata): BytesWriter {
+        const writer: BytesWriter = new BytesWriter(72);
+        writer.writeU64(this.getDisputeWindow());
+        writer.writeU256(this._disputeBond.value);
+        writer.writeU256(this.getArbitrator());
+        return writer;
+    }
+
+    @method({ name: 'marketId', type: ABIDataTypes.UINT256 })
+    @returns(
+        { name: 'threshold', type: ABIDataTypes.UINT256 },
+        { name: 'members', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+        { name: 'votes', type: ABIDataTypes.ARRAY_OF_UINT256 },
+    )
+    public getOracleVotes(calldata: Calldata): BytesWriter {
+        const marketId: u256 = calldata.readU256();
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+
+        const size: u32 = this.getMarketStore(this.marketCommitteeSizePointer, marketIdBytes).value.toU32();
+        const members: Address[] = new Array<Address>(size);
+        const votes: u256[] = new Array<u256>(size);
+        for (let i: u32 = 0; i < size; i++) {
+            const member: Address = this.getCommitteeMember(marketId, i);
+            members[i] = member;
+            votes[i] = this.getUserBet(this.marketOracleVotesPointer, marketIdBytes, member);
+        }
+
+        const writer: BytesWriter = new BytesWriter(36 + 64 * size);
+        writer.writeU256(this.getMarketStore(this.marketVoteThresholdPointer, marketIdBytes).value);
+        writer.writeAddressArray(members);
+        writer.writeU256Array(votes);
+        return writer;
+    }
+
+    @method(
+        { name: 'marketId', type: ABIDataTypes.UINT256 },
+        { name: 'outcome', type: ABIDataTypes.UINT256 },
+        { name: 'shares', type: ABIDataTypes.UINT256 },
+    )
+    @returns({ name: 'amountOut', type: ABIDataTypes.UINT256 })
+    public quoteSell(calldata: Calldata): BytesWriter {
+        const marketId: u256 = calldata.readU256();
+        const outcome: u256 = calldata.readU256();
+        const shares: u256 = calldata.readU256();
+
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+        this.assertSellable(marketIdBytes, outcome);
+
+        const amountOut: u256 = this.getSellQuote(marketId, marketIdBytes, outcome, shares);
+
+        const writer: BytesWriter = new BytesWriter(32);
+        writer.writeU256(amountOut);
+        return writer;
+    }
+
+    @method(
+        { name: 'owner', type: ABIDataTypes.ADDRESS },
+        { name: 'operator', type: ABIDataTypes.ADDRESS },
+    )
+    @returns({ name: 'approved', type: ABIDataTypes.BOOL })
+    public isPositionOperator(calldata: Calldata): BytesWriter {
+        const owner: Address = calldata.readAddress();
+        const operator: Address = calldata.readAddress();
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(this.hasPositionOperator(owner, operator));
+        return writer;
+    }
+
+    @method({ name: 'marketId', type: ABIDataTypes.UINT256 })
+    @returns({ name: 'targetPrice', type: ABIDataTypes.UINT256 })
+    public getPriceTarget(calldata: Calldata): BytesWriter {
+        const marketId: u256 = calldata.readU256();
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+
+        const writer: BytesWriter = new BytesWriter(32);
+        writer.writeU256(this.getMarketStore(this.marketPriceTargetPointer, marketIdBytes).value);
+        return writer;
+    }
+
+    @method({ name: 'signer', type: ABIDataTypes.EXTENDED_ADDRESS })
+    @returns({ name: 'approved', type: ABIDataTypes.BOOL })
+    public isPriceSigner(calldata: Calldata): BytesWriter {
+        const signer: ExtendedAddress = calldata.readExtendedAddress();
+
+        const writer: BytesWriter = new BytesWriter(1);
+        writer.writeBoolean(this.hasPriceSigner(this.toPriceSignerKey(signer)));
+        return writer;
+    }
+
+    @method(
+        { name: 'creator', type: ABIDataTypes.ADDRESS },
+        { name: 'offset', type: ABIDataTypes.UINT256 },
+        { name: 'limit', type: ABIDataTypes.UINT256 },
+    )
+    @returns(
+        { name: 'total', type: ABIDataTypes.UINT256 },
+        { name: 'marketIds', type: ABIDataTypes.ARRAY_OF_UINT256 },
+    )
+    public getMarketsByCreator(calldata: Calldata): BytesWriter {
+        return this.readIndexPage(this.creatorMarketsPointer, calldata);
+    }
+
+    @method(
+        { name: 'oracle', type: ABIDataTypes.ADDRESS },
+        { name: 'offset', type: ABIDataTypes.UINT256 },
+        { name: 'limit', type: ABIDataTypes.UINT256 },
+    )
+    @returns(
+        { name: 'total', type: ABIDataTypes.UINT256 },
+        { name: 'marketIds', type: ABIDataTypes.ARRAY_OF_UINT256 },
+    )
+    public getMarketsByOracle(calldata: Calldata): BytesWriter {
+        return this.readIndexPage(this.oracleMarketsPointer, calldata);
+    }
+
+    @method(
+        { name: 'bettor', type: ABIDataTypes.ADDRESS },
+        { name: 'offset', type: ABIDataTypes.UINT256 },
+        { name: 'limit', type: ABIDataTypes.UINT256 },
+    )
+    @returns(
+        { name: 'total', type: ABIDataTypes.UINT256 },
+        { name: 'marketIds', type: ABIDataTypes.ARRAY_OF_UINT256 },
+    )
+    public getMarketsByBettor(calldata: Calldata): BytesWriter {
+        return this.readIndexPage(this.bettorMarketsPointer, calldata);
+    }
+
+    /**
+     * A page of markets by id (offset 0 is market 1), packed back to back.
+     * Each record is the market id, the getMarket fields minus the legacy
+     * yes/no pools, then a u16 outcome count and every outcome pool.
+     */
+    @method(
+        { name: 'offset', type: ABIDataTypes.UINT256 },
+        { name: 'limit', type: ABIDataTypes.UINT256 },
+    )
+    @returns(
+        { name: 'total', type: ABIDataTypes.UINT256 },
+        { name: 'records', type: ABIDataTypes.BYTES },
+    )
+    public getMarkets(calldata: Calldata): BytesWriter {
+        const offset: u256 = calldata.readU256();
+        const limit: u256 = calldata.readU256();
+
+        const total: u256 = this._marketCount.value;
+        let count: u32 = 0;
+        if (offset < total) {
+            const remaining: u256 = SafeMath.sub(total, offset);
+            const maxBatch: u256 = u256.fromU32(MAX_BATCH_SIZE);
+            const capped: u256 = limit > maxBatch ? maxBatch : limit;
+            count = (remaining < capped ? remaining : capped).toU32();
+        }
+
+        let size: u32 = 0;
+        for (let i: u32 = 0; i < count; i++) {
+            const marketIdBytes: Uint8Array = this.toSubPointer(SafeMath.add(offset, u256.fromU32(i + 1)));
+            size += 540 + 32 * this.getOutcomeCount(marketIdBytes).toU32();
+        }
+
+        const records: BytesWriter = new BytesWriter(size);
+        for (let i: u32 = 0; i < count; i++) {
+            this.writeMarketRecord(records, SafeMath.add(offset, u256.fromU32(i + 1)));
+        }
+
+        const writer: BytesWriter = new BytesWriter(36 + size);
+        writer.writeU256(total);
+        writer.writeBytesWithLength(records.getBuffer());
+        return writer;
+    }
+
+    /**
+     * A user's stakes in several markets, one record per requested id in
+     * order: a u16 outcome count, each stake, and the claimed flag.
+     */
+    @method(
+        { name: 'user', type: ABIDataTypes.ADDRESS },
+        { name: 'marketIds', type: ABIDataTypes.ARRAY_OF_UINT256 },
+    )
+    @returns({ name: 'records', type: ABIDataTypes.BYTES })
+    public getUserPositions(calldata: Calldata): BytesWriter {
+        const user: Address = calldata.readAddress();
+        const marketIds: u256[] = calldata.readU256Array();
+
+        if (<u32>marketIds.length > MAX_BATCH_SIZE) {
+            throw new Revert('Too many markets requested');
+        }
+
+        let size: u32 = 0;
+        for (let i: i32 = 0; i < marketIds.length; i++) {
+            size += 3 + 32 * this.getOutcomeCount(this.toSubPointer(marketIds[i])).toU32();
+        }
+
+        const records: BytesWriter = new BytesWriter(size);
+        for (let i: i32 = 0; i < marketIds.length; i++) {
+            const marketId: u256 = marketIds[i];
+            const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+            const outcomeCount: u32 = this.getOutcomeCount(marketIdBytes).toU32();
+
+            records.writeU16(<u16>outcomeCount);
+            for (let o: u32 = 1; o <= outcomeCount; o++) {
+                records.writeU256(this.getUserStake(marketId, marketIdBytes, u256.fromU32(o), user));
+            }
+            records.writeBoolean(!u256.eq(this.getUserBet(this.userClaimedPointer, marketIdBytes, user), u256.Zero));
+        }
+
+        const writer: BytesWriter = new BytesWriter(4 + size);
+        writer.writeBytesWithLength(records.getBuffer());
+        return writer;
+    }
+
+    /**
+     * An oracle's registry entry. registeredAt is zero for addresses that
+     * never registered; marketCount counts the markets naming it as oracle
+     * or committee member.
+     */
+    @method({ name: 'oracle', type: ABIDataTypes.ADDRESS })
+    @returns(
+        { name: 'stake', type: ABIDataTypes.UINT256 },
+        { name: 'unstaking', type: ABIDataTypes.UINT256 },
+        { name: 'unlockBlock', type: ABIDataTypes.UINT64 },
+        { name: 'slashed', type: ABIDataTypes.UINT256 },
+        { name: 'profileHash', type: ABIDataTypes.UINT256 },
+        { name: 'registeredAt', type: ABIDataTypes.UINT64 },
+        { name: 'marketCount', type: ABIDataTypes.UINT256 },
+    )
+    public getOracle(calldata: Calldata): BytesWriter {
+        const oracle: Address = calldata.readAddress();
+
+        const writer: BytesWriter = new BytesWriter(176);
+        this.writeOracleRecord(writer, oracle);
+        return writer;
+    }
+
+    /**
+     * A page of registered oracles in registration order: the total, then
+     * per oracle its address followed by the getOracle fields.
+     */
+    @method(
+        { name: 'offset', type: ABIDataTypes.UINT256 },
+        { name: 'limit', type: ABIDataTypes.UINT256 },
+    )
+    @returns(
+        { name: 'total', type: ABIDataTypes.UINT256 },
+        { name: 'records', type: ABIDataTypes.BYTES },
+    )
+    public getOracles(calldata: Calldata): BytesWriter {
+        const offset: u256 = calldata.readU256();
+        const limit: u256 = calldata.readU256();
+
+        const total: u256 = this._oracleCount.value;
+        let count: u32 = 0;
+        if (offset < total) {
+            const remaining: u256 = SafeMath.sub(total, offset);
+            const maxBatch: u256 = u256.fromU32(MAX_BATCH_SIZE);
+            const capped: u256 = limit > maxBatch ? maxBatch : limit;
+            count = (remaining < capped ? remaining : capped).toU32();
+        }
+
+        const records: BytesWriter = new BytesWriter(208 * count);
+        for (let i: u32 = 0; i < count; i++) {
+            const index: u256 = SafeMath.add(offset, u256.fromU32(i + 1));
+            const oracleKey: u256 = this.getMarketStore(this.oracleListPointer, this.toSubPointer(index)).value;
+            records.writeU256(oracleKey);
+            this.writeOracleRecord(records, Address.fromUint8Array(oracleKey.toUint8Array(true)));
+        }
+
+        const writer: BytesWriter = new BytesWriter(36 + 208 * count);
+        writer.writeU256(total);
+        writer.writeBytesWithLength(records.getBuffer());
+        return writer;
+    }
+
+    @method()
+    @returns(
+        { name: 'minStake', type: ABIDataTypes.UINT256 },
+        { name: 'unbondingBlocks', type: ABIDataTypes.UINT64 },
+        { name: 'disputeSlashBps', type: ABIDataTypes.UINT256 },
+    )
+    public getOracleConfigView(_calldata: Calldata): BytesWriter {
+        const writer: BytesWriter = new BytesWriter(72);
+        writer.writeU256(this._minOracleStake.value);
+        writer.writeU64(ORACLE_UNBONDING_BLOCKS);
+        writer.writeU256(ORACLE_DISPUTE_SLASH_BPS);
+        return writer;
+    }
+
+    /**
+     * Whether `account` may bet on a market: `member` if it already can
+     * (public market, explicit allowlist, or joined under the current root),
+     * `proofValid` if `proof` would let it join now.
+     */
+    @method(
+        { name: 'marketId', type: ABIDataTypes.UINT256 },
+        { name: 'account', type: ABIDataTypes.ADDRESS },
+        { name: 'proof', type: ABIDataTypes.ARRAY_OF_UINT256 },
+    )
+    @returns(
+        { name: 'isPrivate', type: ABIDataTypes.BOOL },
+        { name: 'member', type: ABIDataTypes.BOOL },
+        { name: 'proofValid', type: ABIDataTypes.BOOL },
+    )
+    public isAllowlisted(calldata: Calldata): BytesWriter {
+        const marketId: u256 = calldata.readU256();
+        const account: Address = calldata.readAddress();
+        const proof: u256[] = calldata.readU256Array();
+
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+        const isPrivate: bool = this.isPrivate(marketIdBytes);
+        const root: u256 = this.getMarketStore(this.marketAllowlistRootPointer, marketIdBytes).value;
+        const proofValid: bool = isPrivate
+            && !u256.eq(root, u256.Zero)
+            && proof.length <= MAX_ALLOWLIST_PROOF_DEPTH
+            && this.verifyAllowlistProof(root, account, proof);
+
+        const writer: BytesWriter = new BytesWriter(3);
+        writer.writeBoolean(isPrivate);
+        writer.writeBoolean(!isPrivate || this.isAllowlistMember(marketIdBytes, account));
+        writer.writeBoolean(proofValid);
+        return writer;
+    }
+
+    private registerMarket(
+        question: string,
+        closeBlock: u64,
+        resolveAfterBlock: u64,
+        oracleParam: Address,
+        fallbackOracle: Address,
+        creatorFeeBps: u256,
+        metadataHash: u256,
+        outcomeLabels: string[],
+    ): u256 {
+        if (this.isFlagSet(this._creationPaused)) {
+            throw new Revert('Market creation is paused');
+        }
+
+        if (closeBlock <= Blockchain.block.number) {
+            throw new Revert('Close block must be in the future');
+        }
+
+        // Betting may close before the observation, never after it
+        if (resolveAfterBlock < closeBlock) {
+            throw new Revert('Resolution block must not be before the close block');
+        }
+
+        if (question.length == 0) {
+            throw new Revert('Question must not be empty');
+        }
+
+        if (creatorFeeBps > MAX_CREATOR_FEE_BPS) {
+            throw new Revert('Creator fee exceeds maximum');
+        }
+
+        if (u256.eq(metadataHash, u256.Zero)) {
+            throw new Revert('Metadata hash must be set');
+        }
+
+        const currentCount: u256 = this._marketCount.value;
+        if (currentCount >= this.getMaxMarkets()) {
+            throw new Revert('Maximum markets reached');
+        }
+
+        const marketId: u256 = SafeMath.add(currentCount, u256.One);
+        this._marketCount.value = marketId;
+
+        const creator: Address = Blockchain.tx.sender;
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+
+        // Use tx.sender as oracle if the passed oracle matches the sender's
+        // WalletConnect address (which differs from tx.sender). To handle this,
+        // always use tx.sender when oracle param equals the default.
+        // If the oracle param is all zeros or matches tx.sender, use tx.sender.
+        const oracleU256: u256 = u256.fromUint8ArrayBE(oracleParam);
+        const senderU256: u256 = u256.fromUint8ArrayBE(creator);
+        const effectiveOracle: u256 = u256.eq(oracleU256, u256.Zero) ? senderU256 : oracleU256;
+
+        // Zero leaves the owner as the only fallback once the timeout passes
+        const fallbackU256: u256 = u256.fromUint8ArrayBE(fallbackOracle);
+        if (u256.eq(fallbackU256, effectiveOracle)) {
+            throw new Revert('Fallback oracle must differ from the oracle');
+        }
+        if (!u256.eq(fallbackU256, u256.Zero)) {
+            this.bindOracle(fallbackU256);
+        }
+
+        this.getMarketStore(this.marketCreatorPointer, marketIdBytes).value = senderU256;
+        this.setMarketBlock(this.marketCloseBlockPointer, marketIdBytes, closeBlock);
+        this.setMarketBlock(this.marketResolveAfterBlockPointer, marketIdBytes, resolveAfterBlock);
+        this.setMarketBlock(
+            this.marketTimeoutBlockPointer,
+            marketIdBytes,
+            SafeMath.add64(resolveAfterBlock, this.getResolutionTimeout()),
+        );
+        this.getMarketStore(this.marketFallbackOraclePointer, marketIdBytes).value = fallbackU256;
+        this.getMarketStore(this.marketOraclePointer, marketIdBytes).value = effectiveOracle;
+        this.getMarketStore(this.marketStatusPointer, marketIdBytes).value = STATUS_OPEN;
+        this.getMarketStore(this.marketOutcomePointer, marketIdBytes).value = u256.Zero;
+        this.getMarketStore(this.marketYesPoolPointer, marketIdBytes).value = u256.Zero;
+        this.getMarketStore(this.marketNoPoolPointer, marketIdBytes).value = u256.Zero;
+        this.getMarketStore(this.marketProtocolFeeBpsPointer, marketIdBytes).value = this._protocolFeeBps.value;
+        this.getMarketStore(this.marketCreatorFeeBpsPointer, marketIdBytes).value = creatorFeeBps;
+        this.getMarketStore(this.marketContentHashPointer, marketIdBytes).value = this.computeContentHash(
+            question,
+            outcomeLabels,
+            metadataHash,
+        );
+        this.appendToIndex(this.creatorMarketsPointer, creator, marketId);
+
+        this.emitEvent(new MarketCreated(marketId, creator, closeBlock, resolveAfterBlock));
+
+        return marketId;
+    }
+
+    /**
+     * The hash a market commits to: sha256 over the sha256 of the question,
+     * of each outcome label in order, and the creator's hash of the rest of
+     * the off-chain metadata. Deriving it from the calldata binds the stored
+     * hash to the text the market was created with.
+     */
+    private computeContentHash(question: string, outcomeLabels: string[], metadataHash: u256): u256 {
+        const parts: Uint8Array = new Uint8Array(32 * (outcomeLabels.length + 2));
+        parts.set(Blockchain.sha256(Uint8Array.wrap(String.UTF8.encode(question))), 0);
+        for (let i: i32 = 0; i < outcomeLabels.length; i++) {
+            parts.set(Blockchain.sha256(Uint8Array.wrap(String.UTF8.encode(outcomeLabels[i]))), 32 * (i + 1));
+        }
+        parts.set(metadataHash.toUint8Array(true), 32 * (outcomeLabels.length + 1));
+        return u256.fromUint8ArrayBE(Blockchain.sha256(parts));
+    }
+
+    /**
+     * Stores an M-of-N oracle committee for a new market. An empty committee
+     * keeps the single oracle; otherwise the market's oracle slot is cleared
+     * so only committee votes can propose an outcome. Either way whoever can
+     * resolve it must be a staked oracle, and the market is added to their
+     * oracle index.
+     */
+    private registerCommittee(marketId: u256, committee: Address[], threshold: u256): void {
+        const size: i32 = committee.length;
+        if (size == 0) {
+            const oracle: u256 = this.getMarketStore(this.marketOraclePointer, this.toSubPointer(marketId)).value;
+            this.bindOracle(oracle);
+            this.appendToIndex(this.oracleMarketsPointer, Address.fromUint8Array(oracle.toUint8Array(true)), marketId);
+            return;
+        }
+
+        if (size < <i32>MIN_COMMITTEE_SIZE || size > <i32>MAX_COMMITTEE_SIZE) {
+            throw new Revert('Oracle committees need between 2 and 10 members');
+        }
+
+        if (u256.eq(threshold, u256.Zero) || threshold > u256.fromU32(<u32>size)) {
+            throw new Revert('Vote threshold must be between 1 and the committee size');
+        }
+
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+        for (let i: i32 = 0; i < size; i++) {
+            const member: Address = committee[i];
+            if (member.isZero()) {
+                throw new Revert('Committee members must be set');
+            }
+
+            for (let j: i32 = 0; j < i; j++) {
+                if (member.equals(committee[j])) {
+                    throw new Revert('Committee members must be unique');
+                }
+            }
+
+            const memberKey: u256 = u256.fromUint8ArrayBE(member);
+            this.bindOracle(memberKey);
+
+            const memberSub: Uint8Array = this.toOutcomeSubPointer(marketId, u256.fromU32(<u32>i + 1));
+            this.getMarketStore(this.marketCommitteePointer, memberSub).value = memberKey;
+            this.appendToIndex(this.oracleMarketsPointer, member, marketId);
+        }
+
+        this.getMarketStore(this.marketCommitteeSizePointer, marketIdBytes).value = u256.fromU32(<u32>size);
+        this.getMarketStore(this.marketVoteThresholdPointer, marketIdBytes).value = threshold;
+        this.getMarketStore(this.marketOraclePointer, marketIdBytes).value = u256.Zero;
+    }
+
+    /**
+     * Makes a new market private when it is created with a Merkle root or an
+     * explicit allowlist (or both). Public markets stay public for good, and
+     * private ones private.
+     */
+    private registerAllowlist(marketId: u256, root: u256, members: Address[]): void {
+        if (u256.eq(root, u256.Zero) && members.length == 0) {
+            return;
+        }
+
+        if (members.length > MAX_ALLOWLIST_BATCH) {
+            throw new Revert('Allowlist updates take between 1 and 50 addresses');
+        }
+
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+        this.getMarketStore(this.marketPrivatePointer, marketIdBytes).value = u256.One;
+        this.getMarketStore(this.marketAllowlistRootPointer, marketIdBytes).value = root;
+        for (let i: i32 = 0; i < members.length; i++) {
+            this.setAllowlistMember(marketId, marketIdBytes, members[i], true);
+        }
+    }
+
+    private setAllowlistMember(marketId: u256, marketIdBytes: Uint8Array, member: Address, allowed: bool): void {
+        if (member.isZero()) {
+            throw new Revert('Allowlisted addresses must be set');
+        }
+
+        this.setUserBet(this.allowlistMembersPointer, marketIdBytes, member, allowed ? u256.One : u256.Zero);
+        this.emitEvent(new AllowlistMemberSet(marketId, member, allowed));
+    }
+
+    /** Reverts unless the sender created the market, it is private and still open. */
+    private assertAllowlistManager(marketIdBytes: Uint8Array): void {
+        const creatorU256: u256 = this.getMarketStore(this.marketCreatorPointer, marketIdBytes).value;
+        if (!u256.eq(u256.fromUint8ArrayBE(Blockchain.tx.sender), creatorU256)) {
+            throw new Revert('Only the creator can manage the allowlist');
+        }
+
+        if (!this.isPrivate(marketIdBytes)) {
+            throw new Revert('Market is not private');
+        }
+
+        const status: u256 = this.getMarketStore(this.marketStatusPointer, marketIdBytes).value;
+        if (!u256.eq(status, STATUS_OPEN)) {
+            throw new Revert('Market is not open');
+        }
+    }
+
+    private isPrivate(marketIdBytes: Uint8Array): bool {
+        return !u256.eq(this.getMarketStore(this.marketPrivatePointer, marketIdBytes).value, u256.Zero);
+    }
+
+    /** Explicitly allowlisted, or joined with a proof against the current root. */
+    private isAllowlistMember(marketIdBytes: Uint8Array, account: Address): bool {
+        if (!u256.eq(this.getUserBet(this.allowlistMembersPointer, marketIdBytes, account), u256.Zero)) {
+            return true;
+        }
+
+        const root: u256 = this.getMarketStore(this.marketAllowlistRootPointer, marketIdBytes).value;
+        const joinedRoot: u256 = this.getUserBet(this.allowlistJoinedRootPointer, marketIdBytes, account);
+        return !u256.eq(root, u256.Zero) && u256.eq(joinedRoot, root);
+    }
+
+    private verifyAllowlistProof(root: u256, account: Address, proof: u256[]): bool {
+        if (proof.length > MAX_ALLOWLIST_PROOF_DEPTH) {
+            throw new Revert('Allowlist proof is too long');
+        }
+
+        let node: u256 = u256.fromUint8ArrayBE(Blockchain.sha256(account));
+        for (let i: i32 = 0; i < proof.length; i++) {
+            const sibling: u256 = proof[i];
+            const pair: Uint8Array = new Uint8Array(64);
+            pair.set(node < sibling ? node.toUint8Array(true) : sibling.toUint8Array(true), 0);
+            pair.set(node < sibling ? sibling.toUint8Array(true) : node.toUint8Array(true), 32);
+            node = u256.fromUint8ArrayBE(Blockchain.sha256(pair));
+        }
+
+        return u256.eq(node, root);
+    }
+
+    private hasCommittee(marketIdBytes: Uint8Array): bool {
+        return !u256.eq(this.getMarketStore(this.marketCommitteeSizePointer, marketIdBytes).value, u256.Zero);
+    }
+
+    /**
+     * Who `caller` may resolve the market as. The designated oracle can always
+     * resolve; once the market's timeout block passes without an outcome, the
+     * fallback oracle and then the owner can too, so a silent oracle or
+     * committee never locks funds.
+     */
+    private getResolverAuthority(marketIdBytes: Uint8Array, caller: Address): u8 {
+        const callerU256: u256 = u256.fromUint8ArrayBE(caller);
+        const committee: bool = this.hasCommittee(marketIdBytes);
+        const oracle: u256 = this.getMarketStore(this.marketOraclePointer, marketIdBytes).value;
+        if (!committee && u256.eq(callerU256, oracle)) {
+            return RESOLVED_BY_ORACLE;
+        }
+
+        if (Blockchain.block.number >= this.getMarketBlock(this.marketTimeoutBlockPointer, marketIdBytes)) {
+            const fallbackOracle: u256 = this.getMarketStore(this.marketFallbackOraclePointer, marketIdBytes).value;
+            if (!u256.eq(fallbackOracle, u256.Zero) && u256.eq(callerU256, fallbackOracle)) {
+                return RESOLVED_BY_FALLBACK_ORACLE;
+            }
+            if (this.isOwner(caller)) {
+                return RESOLVED_BY_OWNER;
+            }
+        }
+
+        if (committee) {
+            throw new Revert('Market is resolved by its oracle committee');
+        }
+        throw new Revert('Only the designated oracle can resolve');
+    }
+
+    private getCommitteeMember(marketId: u256, index: u32): Address {
+        const member: u256 = this.getMarketStore(
+            this.marketCommitteePointer,
+            this.toOutcomeSubPointer(marketId, u256.fromU32(index + 1)),
+        ).value;
+        return Address.fromUint8Array(member.toUint8Array(true));
+    }
+
+    private isCommitteeMember(marketId: u256, marketIdBytes: Uint8Array, account: Address): bool {
+        const size: u32 = this.getMarketStore(this.marketCommitteeSizePointer, marketIdBytes).value.toU32();
+        for (let i: u32 = 0; i < size; i++) {
+            if (this.getCommitteeMember(marketId, i).equals(account)) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Records a proposed outcome and opens the dispute window. The outcome
+     * becomes final once the window passes unchallenged or the arbitrator
+     * rules on a dispute.
+     */
+    private proposeOutcome(marketId: u256, marketIdBytes: Uint8Array, outcome: u256, proposedBy: u8): void {
+        const proposedAt: u64 = Blockchain.block.number;
+        this.getMarketStore(this.marketResolvedByPointer, marketIdBytes).value = u256.fromU32(<u32>proposedBy);
+        this.getMarketStore(this.marketStatusPointer, marketIdBytes).value = STATUS_PROPOSED;
+        this.getMarketStore(this.marketOutcomePointer, marketIdBytes).value = outcome;
+        this.getMarketStore(this.marketProposedOutcomePointer, marketIdBytes).value = outcome;
+        this.setMarketBlock(this.marketProposedAtPointer, marketIdBytes, proposedAt);
+
+        this.emitEvent(new OutcomeProposed(marketId, outcome, SafeMath.add64(proposedAt, this.getDisputeWindow())));
+    }
+
+    /**
+     * Collateral paid for selling `shares` of stake on an outcome before the
+     * deadline. Shares are priced off the pool ratio like a constant-product
+     * pool: each is worth the other outcomes' share of the total, so a stake
+     * on the favourite sells cheap and one on the long shot dear. The sale
+     * pays that less a spread from MIN_EXIT_SPREAD_BPS up to
+     * MAX_EXIT_SPREAD_BPS for selling the whole pool. Whatever the sale
+     * gives up stays in the pot for the winners.
+     */
+    private getSellQuote(marketId: u256, marketIdBytes: Uint8Array, outcome: u256, shares: u256): u256 {
+        const pool: u256 = this.getOutcomePoolStore(marketId, marketIdBytes, outcome).value;
+        if (u256.eq(shares, u256.Zero) || shares > pool) {
+            return u256.Zero;
+        }
+
+        const total: u256 = this.getTotalPool(marketId, marketIdBytes);
+        const otherPool: u256 = SafeMath.sub(total, pool);
+
+        const impactBps: u256 = SafeMath.div(
+            SafeMath.mul(SafeMath.sub(MAX_EXIT_SPREAD_BPS, MIN_EXIT_SPREAD_BPS), shares),
+            pool,
+        );
+        const spreadBps: u256 = SafeMath.add(MIN_EXIT_SPREAD_BPS, impactBps);
+        return SafeMath.div(
+            SafeMath.mul(SafeMath.mul(shares, otherPool), SafeMath.sub(BPS_DENOMINATOR, spreadBps)),
+            SafeMath.mul(total, BPS_DENOMINATOR),
+        );
+    }
+
+    /** Early exits are for YES/NO and categorical stakes; scalar positions ride to resolution. */
+    private assertSellable(marketIdBytes: Uint8Array, outcome: u256): void {
+        if (this.isScalar(marketIdBytes)) {
+            throw new Revert('Scalar positions cannot be sold');
+        }
+        this.assertValidOutcome(marketIdBytes, outcome);
+    }
+
+    /** Every outcome pool plus the exit spread: what winners share before fees. */
+    private getPayoutPot(marketId: u256, marketIdBytes: Uint8Array): u256 {
+        return SafeMath.add(
+            this.getTotalPool(marketId, marketIdBytes),
+            this.getMarketStore(this.marketExitSpreadPointer, marketIdBytes).value,
+        );
+    }
+
+    /**
+     * Moves stake on one outcome between holders. Stakes work as fungible
+     * share balances per (market, outcome): pools are untouched, and whoever
+     * holds the shares when the market settles claims the winnings or the
+     * refund. Holders that already claimed can neither send nor receive, so
+     * a claimed stake can't be claimed twice, and a private market's stake
+     * only moves to its allowlist members.
+     */
+    private moveStake(marketId: u256, outcome: u256, from: Address, to: Address, shares: u256): void {
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+        this.assertValidOutcome(marketIdBytes, outcome);
+
+        if (u256.eq(this.getMarketStore(this.marketStatusPointer, marketIdBytes).value, u256.Zero)) {
+            throw new Revert('Market does not exist');
+        }
+
+        if (to.isZero()) {
+            throw new Revert('Recipient must be set');
+        }
+
+        if (to.equals(from)) {
+            throw new Revert('Cannot transfer a position to its holder');
+        }
+
+        if (this.isPrivate(marketIdBytes) && !this.isAllowlistMember(marketIdBytes, to)) {
+            throw new Revert('Recipient is not on the market allowlist');
+        }
+
+        if (u256.eq(shares, u256.Zero)) {
+            throw new Revert('Shares must be greater than zero');
+        }
+
+        if (!u256.eq(this.getUserBet(this.userClaimedPointer, marketIdBytes, from), u256.Zero)) {
+            throw new Revert('Position has already been claimed');
+        }
+
+        if (!u256.eq(this.getUserBet(this.userClaimedPointer, marketIdBytes, to), u256.Zero)) {
+            throw new Revert('Recipient has already claimed on this market');
+        }
+
+        const stake: u256 = this.getUserStake(marketId, marketIdBytes, outcome, from);
+        if (shares > stake) {
+            throw new Revert('Not enough shares to transfer');
+        }
+
+        this.setUserStake(marketId, marketIdBytes, outcome, from, SafeMath.sub(stake, shares));
+        this.addUserStake(marketId, marketIdBytes, outcome, to, shares);
+        this.indexBettor(marketId, marketIdBytes, to);
+
+        this.emitEvent(new PositionTransferred(marketId, from, to, outcome, shares));
+    }
+
+    private writeMarketRecord(writer: BytesWriter, marketId: u256): void {
+        const marketIdBytes: Uint8Array = this.toSubPointer(marketId);
+        const outcomeCount: u32 = this.getOutcomeCount(marketIdBytes).toU32();
+
+        writer.writeU256(marketId);
+        writer.writeU256(this.getMarketStore(this.marketCreatorPointer, marketIdBytes).value);
+        writer.writeU64(this.getMarketCloseBlock(marketIdBytes));
+        writer.writeU64(this.getResolveAfterBlock(marketIdBytes));
+        writer.writeU256(this.getMarketStore(this.marketOraclePointer, marketIdBytes).value);
+        writer.writeU256(this.getMarketStore(this.marketStatusPointer, marketIdBytes).value);
+        writer.writeU256(this.getMarketStore(this.marketOutcomePointer, marketIdBytes).value);
+        writer.writeU256(this.getMarketStore(this.marketProtocolFeeBpsPointer, marketIdBytes).value);
+        writer.writeU256(this.getMarketStore(this.marketCreatorFeeBpsPointer, marketIdBytes).value);
+        writer.writeU256(this.getMarketStore(this.marketProtocolFeePointer, marketIdBytes).value);
+        writer.writeU256(this.getMarketStore(this.marketCreatorFeePointer, marketIdBytes).value);
+        writer.writeU256(this.getMarketStore(this.marketCommitteeSizePointer, marketIdBytes).value);
+        writer.writeU256(this.getMarketStore(this.marketExitSpreadPointer, marketIdBytes).value);
+        writer.writeU256(this.getMarketStore(this.marketContentHashPointer, marketIdBytes).value);
+        writer.writeU256(this.getMarketStore(this.marketScalarLowerPointer, marketIdBytes).value);
+        writer.writeU256(this.getMarketStore(this.marketScalarUpperPointer, marketIdBytes).value);
+        writer.writeU256(this.getMarketStore(this.marketFallbackOraclePointer, marketIdBytes).value);
+        writer.writeU64(this.getMarketBlock(this.marketTimeoutBlockPointer, marketIdBytes));
+        writer.writeU8(<u8>this.getMarketStore(this.marketResolvedByPointer, marketIdBytes).value.toU32());
+        writer.writeBoolean(this.isPrivate(marketIdBytes));
+        writer.writeU256(this.getMarketStore(this.marketAllowlistRootPointer, marketIdBytes).value);
+        writer.writeU16(<u16>outcomeCount);
+        for (let o: u32 = 1; o <= outcomeCount; o++) {
+            writer.writeU256(this.getOutcomePoolStore(marketId, marketIdBytes, u256.fromU32(o)).value);
+        }
+    }
+
+    private indexBettor(marketId: u256, marketIdBytes: Uint8Array, bettor: Address): void {
+        if (!u256.eq(this.getUserBet(this.bettorIndexedPointer, marketIdBytes, bettor), u256.Zero)) {
+            return;
+        }
+
+        this.setUserBet(this.bettorIndexedPointer, marketIdBytes, bettor, u256.One);
+        this.appendToIndex(this.bettorMarketsPointer, bettor, marketId);
+    }
+
+    private appendToIndex(basePointer: u16, account: Address, marketId: u256): void {
+        const length: u256 = SafeMath.add(this.getIndexLength(basePointer, account), u256.One);
+        this.setUserBet(basePointer, this.toSubPointer(length), account, marketId);
+        this.setUserBet(basePointer, this.toSubPointer(u256.Zero), account, length);
+    }
+
+    private getIndexLength(basePointer: u16, account: Address): u256 {
+        return this.getUserBet(basePointer, this.toSubPointer(u256.Zero), account);
+    }
+
+    /** Reads (account, offset, limit) and writes the index's total length and one page of market ids. */
+    private readIndexPage(basePointer: u16, calldata: Calldata): BytesWriter {
+        const account: Address = calldata.readAddress();
+        const offset: u256 = calldata.readU256();
+        const limit: u256 = calldata.readU256();
+
+        const total: u256 = this.getIndexLength(basePointer, account);
+        let count: u32 = 0;
+        if (offset < total) {
+            const remaining: u256 = SafeMath.sub(total, offset);
+            const maxPage: u256 = u256.fromU32(MAX_INDEX_PAGE);
+            const capped: u256 = limit > maxPage ? maxPage : limit;
+            count = (remaining < capped ? remaining : capped).toU32();
+        }
+
+        const marketIds: u256[] = new Array<u256>(count);
+        for (let i: u32 = 0; i < count; i++) {
+            const index: u256 = SafeMath.add(offset, u256.fromU32(i + 1));
+            marketIds[i] = this.getUserBet(basePointer, this.toSubPointer(index), account);
+        }
+
+        const writer: BytesWriter = new BytesWriter(34 + 32 * count);
+        writer.writeU256(total);
+        writer.writeU256Array(marketIds);
+        return writer;
+    }
+
+    private hasPositionOperator(owner: Address, operator: Address): bool {
+        const operators: StoredMapU256 = new StoredMapU256(this.positionOperatorsPointer, EMPTY_POINTER);
+        return !u256.eq(operators.get(this.toOperatorKey(owner, operator)), u256.Zero);
+    }
+
+    private toOperatorKey(owner: Address, operator: Address): u256 {
+        const pair: Uint8Array = new Uint8Array(64);
+        pair.set(owner, 0);
+        pair.set(operator, 32);
+        return u256.fromUint8ArrayBE(Blockchain.sha256(pair));
+    }
+
+    /**
+     * Names a staked oracle on a new market: registered, not unstaking and
+     * holding at least the minimum. Its stake stays locked until the market
+     * settles or is cancelled, so there is always something to slash.
+     */
+    private bindOracle(oracleKey: u256): void {
+        if (u256.eq(new StoredMapU256(this.oracleRegisteredAtPointer, EMPTY_POINTER).get(oracleKey), u256.Zero)) {
+            throw new Revert('Oracle is not registered');
+        }
+
+        if (!u256.eq(new StoredMapU256(this.oracleUnbondingPointer, EMPTY_POINTER).get(oracleKey), u256.Zero)) {
+            throw new Revert('Oracle is unstaking');
+        }
+
+        const stake: u256 = new StoredMapU256(this.oracleStakePointer, EMPTY_POINTER).get(oracleKey);
+        if (u256.eq(stake, u256.Zero) || stake < this._minOracleStake.value) {
+            throw new Revert('Oracle stake is below the minimum');
+        }
+
+        const open: StoredMapU256 = new StoredMapU256(this.oracleOpenMarketsPointer, EMPTY_POINTER);
+        open.set(oracleKey, SafeMath.add(open.get(oracleKey), u256.One));
+    }
+
+    /** Unlocks the stake of every oracle bound to a market once it settles or is cancelled. */
+    private releaseOracles(marketId: u256, marketIdBytes: Uint8Array): void {
+        const open: StoredMapU256 = new StoredMapU256(this.oracleOpenMarketsPointer, EMPTY_POINTER);
+        const size: u32 = this.getMarketStore(this.marketCommitteeSizePointer, marketIdBytes).value.toU32();
+        if (size == 0) {
+            const oracle: u256 = this.getMarketStore(this.marketOraclePointer, marketIdBytes).value;
+            open.set(oracle, SafeMath.sub(open.get(oracle), u256.One));
+        }
+        for (let i: u32 = 0; i < size; i++) {
+            const member: u256 = u256.fromUint8ArrayBE(this.getCommitteeMember(marketId, i));
+            open.set(member, SafeMath.sub(open.get(member), u256.One));
+        }
+
+        const fallbackOracle: u256 = this.getMarketStore(this.marketFallbackOraclePointer, marketIdBytes).value;
+        if (!u256.eq(fallbackOracle, u256.Zero)) {
+            open.set(fallbackOracle, SafeMath.sub(open.get(fallbackOracle), u256.One));
+        }
+    }
+
+    private assertNoOpenMarkets(oracleKey: u256): void {
+        if (!u256.eq(new StoredMapU256(this.oracleOpenMarketsPointer, EMPTY_POINTER).get(oracleKey), u256.Zero)) {
+            throw new Revert('Oracle has unresolved markets');
+        }
+    }
+
+    private writeOracleRecord(writer: BytesWriter, oracle: Address): void {
+        const oracleKey: u256 = u256.fromUint8ArrayBE(oracle);
+
+        writer.writeU256(new StoredMapU256(this.oracleStakePointer, EMPTY_POINTER).get(oracleKey));
+        writer.writeU256(new StoredMapU256(this.oracleUnbondingPointer, EMPTY_POINTER).get(oracleKey));
+        writer.writeU64(new StoredMapU256(this.oracleUnlockBlockPointer, EMPTY_POINTER).get(oracleKey).toU64());
+        writer.writeU256(new StoredMapU256(this.oracleSlashedPointer, EMPTY_POINTER).get(oracleKey));
+        writer.writeU256(new StoredMapU256(this.oracleProfileHashPointer, EMPTY_POINTER).get(oracleKey));
+        writer.writeU64(new StoredMapU256(this.oracleRegisteredAtPointer, EMPTY_POINTER).get(oracleKey).toU64());
+        writer.writeU256(this.getIndexLength(this.oracleMarketsPointer, oracle));
+    }
+
+    /**
+     * Takes up to `amount` from an oracle's active stake, then its unbonding
+     * stake, and returns what was taken. The caller decides where it goes.
+     */
+    private slashOracleStake(oracleKey: u256, amount: u256): u256 {
+        const stakes: StoredMapU256 = new StoredMapU256(this.oracleStakePointer, EMPTY_POINTER);
+        const unbonding: StoredMapU256 = new StoredMapU256(this.oracleUnbondingPointer, EMPTY_POINTER);
+
+        const stake: u256 = stakes.get(oracleKey);
+        const fromStake: u256 = amount < stake ? amount : stake;
+        const pending: u256 = unbonding.get(oracleKey);
+        const rest: u256 = SafeMath.sub(amount, fromStake);
+        const fromPending: u256 = rest < pending ? rest : pending;
+
+        stakes.set(oracleKey, SafeMath.sub(stake, fromStake));
+        unbonding.set(oracleKey, SafeMath.sub(pending, fromPending));
+
+        const slashed: u256 = SafeMath.add(fromStake, fromPending);
+        const totals: StoredMapU256 = new StoredMapU256(this.oracleSlashedPointer, EMPTY_POINTER);
+        totals.set(oracleKey, SafeMath.add(totals.get(oracleKey), slashed));
+        return slashed;
+    }
+
+    /**
+     * Slashes the oracle whose proposal the arbitrator overturned and returns
+     * the amount taken. Committee and price-signer proposals have no single
+     * staked proposer, and unregistered oracles have nothing to take.
+     */
+    private slashProposer(marketId: u256, marketIdBytes: Uint8Array): u256 {
+        const proposedBy: u8 = <u8>this.getMarketStore(this.marketResolvedByPointer, marketIdBytes).value.toU32();
+        let proposerKey: u256 = u256.Zero;
+        if (proposedBy == RESOLVED_BY_ORACLE) {
+            proposerKey = this.getMarketStore(this.marketOraclePointer, marketIdBytes).value;
+        } else if (proposedBy == RESOLVED_BY_FALLBACK_ORACLE) {
+            proposerKey = this.getMarketStore(this.marketFallbackOraclePointer, marketIdBytes).value;
+        } else {
+            return u256.Zero;
+        }
+
+        const staked: u256 = SafeMath.add(
+            new StoredMapU256(this.oracleStakePointer, EMPTY_POINTER).get(proposerKey),
+            new StoredMapU256(this.oracleUnbondingPointer, EMPTY_POINTER).get(proposerKey),
+        );
+        const amount: u256 = SafeMath.div(SafeMath.mul(staked, ORACLE_DISPUTE_SLASH_BPS), BPS_DENOMINATOR);
+        if (u256.eq(amount, u256.Zero)) {
+            return u256.Zero;
+        }
+
+        const slashed: u256 = this.slashOracleStake(proposerKey, amount);
+        this.emitEvent(new OracleSlashed(Address.fromUint8Array(proposerKey.toUint8Array(true)), slashed, marketId));
+        return slashed;
+    }
+
+    /**
+     * Binds both halves of a signer's identity, so a whitelisted tweaked key
+     * paired with any other ML-DSA key is a different, unapproved signer.
+     */
+    private toPriceSignerKey(signer: ExtendedAddress): u256 {
+        const identity: Uint8Array = new Uint8Array(64);
+        identity.set(signer, 0);
+        identity.set(signer.tweakedPublicKey, 32);
+        return u256.fromUint8ArrayBE(Blockchain.sha256(identity));
+    }
+
+    private hasPriceSigner(signerKey: u256): bool {
+        const signers: StoredMapU256 = new StoredMapU256(this.priceSignersPointer, EMPTY_POINTER);
+        return !u256.eq(signers.get(signerKey), u256.Zero);
+    }
+
+    /** The message a price signer signs; binding the contract address stops replays on other deployments. */
+    private encodePriceAttestation(marketId: u256, price: u256, observedBlock: u64): Uint8Array {
+        const writer: BytesWriter = new BytesWriter(PRICE_ATTESTATION_LENGTH);
+        writer.writeAddress(Blockchain.contractAddress);
+        writer.writeU256(marketId);
+        writer.writeU256(price);
+        writer.writeU64(observedBlock);
+        return writer.getBuffer();
+    }
+
+    /** Makes an outcome final: claims open and fees are taken. */
+    private settleMarket(marketId: u256, marketIdBytes: Uint8Array, outcome: u256, resolvedBy: u8): void {
+        this.getMarketStore(this.marketStatusPointer, marketIdBytes).value = STATUS_RESOLVED;
+        this.getMarketStore(this.marketOutcomePointer, marketIdBytes).value = outcome;
+        this.getMarketStore(this.marketResolvedByPointer, marketIdBytes).value = u256.fromU32(<u32>resolvedBy);
+
+        this.emitEvent(new MarketResolved(marketId, outcome, resolvedBy));
+
+        this.takeFees(marketId, marketIdBytes, outcome);
+        this.releaseOracles(marketId, marketIdBytes);
+    }
+
+    private getDisputeEndBlock(marketIdBytes: Uint8Array): u64 {
+        const proposedAt: u64 = this.getMarketBlock(this.marketProposedAtPointer, marketIdBytes);
+        return SafeMath.add64(proposedAt, this.getDisputeWindow());
+    }
+
+    private getDisputeWindow(): u64 {
+        const stored: StoredU64 = new StoredU64(this.disputeWindowPointer, EMPTY_POINTER);
+        const blocks: u64 = stored.get(0);
+        return blocks == 0 ? DEFAULT_DISPUTE_WINDOW_BLOCKS : blocks;
+    }
+
+    private getArbitrator(): u256 {
+        const arbitrator: u256 = this._arbitrator.value;
+        return u256.eq(arbitrator, u256.Zero) ? this._ownerAddress.value : arbitrator;
+    }
+
+    /**
+     * Takes the protocol and creator fees out of the losing pools and credits
+     * them for withdrawal. Winners are never charged on their own stake.
+     */
+    private takeFees(marketId: u256, marketIdBytes: Uint8Array, winningOutcome: u256): void {
+        const losingPool: u256 = this.getLosingStake(marketId, marketIdBytes, winningOutcome);
+
+        const protocolFeeBps: u256 = this.getMarketStore(this.marketProtocolFeeBpsPointer, marketIdBytes).value;
+        const creatorFeeBps: u256 = this.getMarketStore(this.marketCreatorFeeBpsPointer, marketIdBytes).value;
+        const protocolFee: u256 = SafeMath.div(SafeMath.mul(losingPool, protocolFeeBps), BPS_DENOMINATOR);
+        const creatorFee: u256 = SafeMath.div(SafeMath.mul(losingPool, creatorFeeBps), BPS_DENOMINATOR);
+
+        this.getMarketStore(this.marketProtocolFeePointer, marketIdBytes).value = protocolFee;
+        this.getMarketStore(this.marketCreatorFeePointer, marketIdBytes).value = creatorFee;
+
+        this._accruedProtocolFees.value = SafeMath.add(this._accruedProtocolFees.value, protocolFee);
+
+        const creatorFees: StoredMapU256 = new StoredMapU256(this.creatorFeesPointer, EMPTY_POINTER);
+        const creatorKey: u256 = this.getMarketStore(this.marketCreatorPointer, marketIdBytes).value;
+        creatorFees.set(creatorKey, SafeMath.add(creatorFees.get(creatorKey), creatorFee));
+
+        this.emitEvent(new FeesAccrued(marketId, protocolFee, creatorFee));
+    }
+
+    /**
+     * Stake that goes to the other side at resolution, which fees are charged
+     * on: the losing pools, or for a scalar market however much of one side's
+     * pool its share of the pot falls short of.
+     */
+    private getLosingStake(marketId: u256, marketIdBytes: Uint8Array, outcome: u256): u256 {
+        const total: u256 = this.getTotalPool(marketId, marketIdBytes);
+        if (!this.isScalar(marketIdBytes)) {
+            return SafeMath.sub(total, this.getOutcomePoolStore(marketId, marketIdBytes, outcome).value);
+        }
+
+        const longPool: u256 = this.getOutcomePoolStore(marketId, marketIdBytes, OUTCOME_YES).value;
+        const longShare: u256 = this.getScalarLongShare(marketId, marketIdBytes, total);
+        return longShare > longPool ? SafeMath.sub(longShare, longPool) : SafeMath.sub(longPool, longShare);
+    }
+
+    /**
+     * A claimant's payout from a resolved scalar market: LONG stakes split
+     * LONG's share of the payout pool and SHORT stakes the rest, each pro
+     * rata within its side.
+     */
+    private getScalarPayout(marketId: u256, marketIdBytes: Uint8Array, claimant: Address, payoutPool: u256): u256 {
+        const longPot: u256 = this.getScalarLongShare(marketId, marketIdBytes, payoutPool);
+        const shortPot: u256 = SafeMath.sub(payoutPool, longPot);
+
+        let payout: u256 = u256.Zero;
+        const longStake: u256 = this.getUserStake(marketId, marketIdBytes, OUTCOME_YES, claimant);
+        if (!u256.eq(longStake, u256.Zero)) {
+            const longPool: u256 = this.getOutcomePoolStore(marketId, marketIdBytes, OUTCOME_YES).value;
+            payout = SafeMath.div(SafeMath.mul(longStake, longPot), longPool);
+        }
+
+        const shortStake: u256 = this.getUserStake(marketId, marketIdBytes, OUTCOME_NO, claimant);
+        if (!u256.eq(shortStake, u256.Zero)) {
+            const shortPool: u256 = this.getOutcomePoolStore(marketId, marketIdBytes, OUTCOME_NO).value;
+            payout = SafeMath.add(payout, SafeMath.div(SafeMath.mul(shortStake, shortPot), shortPool));
+        }
+        return payout;
+    }
+
+    /**
+     * LONG's part of `amount` once a scalar market has resolved: the fraction
+     * of the range between the bounds that lies below the value. A side
+     * nobody backed can't be paid, so its part goes to the other side.
+     */
+    private getScalarLongShare(marketId: u256, marketIdBytes: Uint8Array, amount: u256): u256 {
+        if (u256.eq(this.getOutcomePoolStore(marketId, marketIdBytes, OUTCOME_YES).value, u256.Zero)) {
+            return u256.Zero;
+        }
+        if (u256.eq(this.getOutcomePoolStore(marketId, marketIdBytes, OUTCOME_NO).value, u256.Zero)) {
+            return amount;
+        }
+
+        const lower: u256 = this.getMarketStore(this.marketScalarLowerPointer, marketIdBytes).value;
+        const upper: u256 = this.getMarketStore(this.marketScalarUpperPointer, marketIdBytes).value;
+        const value: u256 = this.getMarketStore(this.marketOutcomePointer, marketIdBytes).value;
+        return SafeMath.div(SafeMath.mul(amount, SafeMath.sub(value, lower)), SafeMath.sub(upper, lower));
+    }
+
+    private getMarketFees(marketIdBytes: Uint8Array): u256 {
+        return SafeMath.add(
+            this.getMarketStore(this.marketProtocolFeePointer, marketIdBytes).value,
+            this.getMarketStore(this.marketCreatorFeePointer, marketIdBytes).value,
+        );
+    }
+
+    private isOwner(account: Address): bool {
+        return u256.eq(u256.fromUint8ArrayBE(account), this._ownerAddress.value);
+    }
+
+    private isFlagSet(flag: StoredU256): bool {
+        return !u256.eq(flag.value, u256.Zero);
+    }
+
+    private getMaxMarkets(): u256 {
+        const stored: u256 = this._maxMarkets.value;
+        return u256.eq(stored, u256.Zero) ? DEFAULT_MAX_MARKETS : stored;
+    }
+
+    private isCategorical(marketIdBytes: Uint8Array): bool {
+        return !u256.eq(this.getMarketStore(this.marketOutcomeCountPointer, marketIdBytes).value, u256.Zero);
+    }
+
+    private isScalar(marketIdBytes: Uint8Array): bool {
+        return !u256.eq(this.getMarketStore(this.marketScalarUpperPointer, marketIdBytes).value, u256.Zero);
+    }
+
+    /** A reported value moved inside the scalar market's bounds. */
+    private clampToBounds(marketIdBytes: Uint8Array, value: u256): u256 {
+        const lower: u256 = this.getMarketStore(this.marketScalarLowerPointer, marketIdBytes).value;
+        const upper: u256 = this.getMarketStore(this.marketScalarUpperPointer, marketIdBytes).value;
+        if (value < lower) return lower;
+        if (value > upper) return upper;
+        return value;
+    }
+
+    private getOutcomeCount(marketIdBytes: Uint8Array): u256 {
+        const stored: u256 = this.getMarketStore(this.marketOutcomeCountPointer, marketIdBytes).value;
+        return u256.eq(stored, u256.Zero) ? BINARY_OUTCOME_COUNT : stored;
+    }
+
+    private assertValidOutcome(marketIdBytes: Uint8Array, outcome: u256): void {
+        if (!this.isCategorical(marketIdBytes)) {
+            if (!u256.eq(outcome, OUTCOME_YES) && !u256.eq(outcome, OUTCOME_NO)) {
+                throw new Revert('Invalid outcome: must be 1 (YES) or 2 (NO)');
+            }
+            return;
+        }
+
+        if (u256.eq(outcome, u256.Zero) || outcome > this.getOutcomeCount(marketIdBytes)) {
+            throw new Revert('Invalid outcome for this market');
+        }
+    }
+
+    /**
+     * An outcome a dispute or ruling puts forward. Scalar markets resolve to
+     * a value rather than an outcome index, clamped to their bounds.
+     */
+    private toResolutionOutcome(marketIdBytes: Uint8Array, outcome: u256): u256 {
+        if (this.isScalar(marketIdBytes)) {
+            return this.clampToBounds(marketIdBytes, outcome);
+        }
+
+        this.assertValidOutcome(marketIdBytes, outcome);
+        return outcome;
+    }
+
+    /**
+     * Sub-pointer for a (market, outcome) pair. Market ids are capped well
+     * below 2^232, so the leading byte of the market sub-pointer is always
+     * free to carry the outcome index.
+     */
+    private toOutcomeSubPointer(marketId: u256, outcome: u256): Uint8Array {
+        const sub: Uint8Array = this.toSubPointer(marketId);
+        sub[0] = <u8>outcome.toU32();
+        return sub;
+    }
+
+    private getOutcomePoolStore(marketId: u256, marketIdBytes: Uint8Array, outcome: u256): StoredU256 {
+        if (!this.isCategorical(marketIdBytes)) {
+            const pointer: u16 = u256.eq(outcome, OUTCOME_YES) ? this.marketYesPoolPointer : this.marketNoPoolPointer;
+            return this.getMarketStore(pointer, marketIdBytes);
+        }
+
+        return this.getMarketStore(this.outcomePoolPointer, this.toOutcomeSubPointer(marketId, outcome));
+    }
+
+    private getTotalPool(marketId: u256, marketIdBytes: Uint8Array): u256 {
+        const count: u32 = this.getOutcomeCount(marketIdBytes).toU32();
+        let total: u256 = u256.Zero;
+        for (let i: u32 = 1; i <= count; i++) {
+            total = SafeMath.add(total, this.getOutcomePoolStore(marketId, marketIdBytes, u256.fromU32(i)).value);
+        }
+        return total;
+    }
+
+    private getUserStake(marketId: u256, marketIdBytes: Uint8Array, outcome: u256, user: Address): u256 {
+        if (!this.isCategorical(marketIdBytes)) {
+            const pointer: u16 = u256.eq(outcome, OUTCOME_YES) ? this.userYesBetsPointer : this.userNoBetsPointer;
+            return this.getUserBet(pointer, marketIdBytes, user);
+        }
+
+        return this.getUserBet(this.userOutcomeBetsPointer, this.toOutcomeSubPointer(marketId, outcome), user);
+    }
+
+    /** A user's stake summed across every outcome of a market. */
+    private getUserTotalStake(marketId: u256, marketIdBytes: Uint8Array, user: Address): u256 {
+        const count: u32 = this.getOutcomeCount(marketIdBytes).toU32();
+        let total: u256 = u256.Zero;
+        for (let i: u32 = 1; i <= count; i++) {
+            total = SafeMath.add(total, this.getUserStake(marketId, marketIdBytes, u256.fromU32(i), user));
+        }
+        return total;
+    }
+
+    private addUserStake(
+        marketId: u256,
+        marketIdBytes: Uint8Array,
+        outcome: u256,
+        user: Address,
+        amount: u256,
+    ): void {
+        if (!this.isCategorical(marketIdBytes)) {
+            const pointer: u16 = u256.eq(outcome, OUTCOME_YES) ? this.userYesBetsPointer : this.userNoBetsPointer;
+            this.addUserBet(pointer, marketIdBytes, user, amount);
+            return;
+        }
+
+        this.addUserBet(this.userOutcomeBetsPointer, this.toOutcomeSubPointer(marketId, outcome), user, amount);
+    }
+
+    private setUserStake(
+        marketId: u256,
+        marketIdBytes: Uint8Array,
+        outcome: u256,
+        user: Address,
+        amount: u256,
+    ): void {
+        if (!this.isCategorical(marketIdBytes)) {
+            const pointer: u16 = u256.eq(outcome, OUTCOME_YES) ? this.userYesBetsPointer : this.userNoBetsPointer;
+            this.setUserBet(pointer, marketIdBytes, user, amount);
+            return;
+        }
+
+        this.setUserBet(this.userOutcomeBetsPointer, this.toOutcomeSubPointer(marketId, outcome), user, amount);
+    }
+
+    @method()
+    @returns({ name: 'blocks', type: ABIDataTypes.UINT64 })
+    public getCancelGracePeriodView(_calldata: Calldata): BytesWriter {
+        const writer: BytesWriter = new BytesWriter(8);
+        writer.writeU64(this.getCancelGracePeriod());
+        return writer;
+    }
+
+    private getCancelGracePeriod(): u64 {
+        const stored: StoredU64 = new StoredU64(this.cancelGracePeriodPointer, EMPTY_POINTER);
+        const blocks: u64 = stored.get(0);
+        return blocks == 0 ? DEFAULT_CANCEL_GRACE_BLOCKS : blocks;
+    }
+
+    @method()
+    @returns({ name: 'blocks', type: ABIDataTypes.UINT64 })
+    public getResolutionTimeoutView(_calldata: Calldata): BytesWriter {
+        const writer: BytesWriter = new BytesWriter(8);
+        writer.writeU64(this.getResolutionTimeout());
+        return writer;
+    }
+
+    private getResolutionTimeout(): u64 {
+        const stored: StoredU64 = new StoredU64(this.resolutionTimeoutPointer, EMPTY_POINTER);
+        const blocks: u64 = stored.get(0);
+        return blocks == 0 ? DEFAULT_RESOLUTION_TIMEOUT_BLOCKS : blocks;
+    }
+
+    private getCollateralToken(): Address {
+        return Address.fromUint8Array(this._collateralToken.value.toUint8Array(true));
+    }
+
+    private toSubPointer(marketId: u256): Uint8Array {
+        const full: Uint8Array = marketId.toUint8Array(true);
+        const sub: Uint8Array = new Uint8Array(30);
         for (let i: i32 = 0; i < 30; i++) {
             sub[i] = full[i + 2];
         }
@@ -441,14 +3897,22 @@ export class PredictionMarket extends OP_NET {
         return new StoredU256(basePointer, subPointer);
     }
 
-    private getMarketEndBlock(subPointer: Uint8Array): u64 {
-        const stored: StoredU64 = new StoredU64(this.marketEndBlockPointer, subPointer);
+    private getMarketCloseBlock(subPointer: Uint8Array): u64 {
+        return this.getMarketBlock(this.marketCloseBlockPointer, subPointer);
+    }
+
+    private getResolveAfterBlock(subPointer: Uint8Array): u64 {
+        return this.getMarketBlock(this.marketResolveAfterBlockPointer, subPointer);
+    }
+
+    private getMarketBlock(basePointer: u16, subPointer: Uint8Array): u64 {
+        const stored: StoredU64 = new StoredU64(basePointer, subPointer);
         return stored.get(0);
     }
 
-    private setMarketEndBlock(subPointer: Uint8Array, endBlock: u64): void {
-        const stored: StoredU64 = new StoredU64(this.marketEndBlockPointer, subPointer);
-        stored.set(0, endBlock);
+    private setMarketBlock(basePointer: u16, subPointer: Uint8Array, block: u64): void {
+        const stored: StoredU64 = new StoredU64(basePointer, subPointer);
+        stored.set(0, block);
         stored.save();
     }
 
@@ -0,0 +1,1170 @@
+import { createHash } from 'crypto';
+import { Address } from '@btc-vision/transaction';
+import { Assert, Blockchain, OP20, opnet, OPNetUnit } from '@btc-vision/unit-test-framework';
+import {
+    DEFAULT_DISPUTE_BOND,
+    DEFAULT_DISPUTE_WINDOW,
+    DEFAULT_RESOLUTION_TIMEOUT,
+    OUTCOME_NO,
+    OUTCOME_YES,
+    ORACLE_DISPUTE_SLASH_BPS,
+    ORACLE_UNBONDING_BLOCKS,
+    PredictionMarketRuntime,
+    RESOLVED_BY_FALLBACK_ORACLE,
+    RESOLVED_BY_ORACLE,
+    RESOLVED_BY_OWNER,
+    STATUS_OPEN,
+    STATUS_PROPOSED,
+    STATUS_RESOLVED,
+    ZERO_ADDRESS,
+} from './runtime/PredictionMarketRuntime';
+
+// Runs offline against the compiled contracts: npm run build && npm run build:test-token
+// first, or just `npm test`.
+
+const START_BLOCK = 1_000n;
+const END_BLOCK = 1_010n;
+
+const deployer: Address = Blockchain.generateRandomAddress();
+const alice: Address = Blockchain.generateRandomAddress();
+const bob: Address = Blockchain.generateRandomAddress();
+const carol: Address = Blockchain.generateRandomAddress();
+const oracle: Address = Blockchain.generateRandomAddress();
+
+// Markets can only name staked oracles, and the creator is the default
+// oracle, so deploy() registers the usual oracles and creators up front
+const DEFAULT_ORACLES: Address[] = [oracle, alice, bob, carol];
+const ORACLE_STAKE = 1_000n;
+const ESCROWED_STAKE = ORACLE_STAKE * BigInt(DEFAULT_ORACLES.length);
+
+let token: OP20;
+let market: PredictionMarketRuntime;
+
+function toU256(address: Address): bigint {
+    return BigInt(address.toHex());
+}
+
+/** Deploys the contracts and registers DEFAULT_ORACLES. */
+async function deploy(): Promise<void> {
+    await deployContracts();
+    for (const account of DEFAULT_ORACLES) {
+        await fund(account, ORACLE_STAKE);
+        await market.registerOracle(account, ORACLE_STAKE, 1n);
+    }
+}
+
+async function deployContracts(): Promise<void> {
+    Blockchain.dispose();
+    Blockchain.clearContracts();
+    await Blockchain.init();
+
+    token = new OP20({
+        address: Blockchain.generateRandomAddress(),
+        deployer,
+        file: './build/TestToken.wasm',
+        decimals: 8,
+    });
+    Blockchain.register(token);
+    await token.init();
+
+    market = new PredictionMarketRuntime(Blockchain.generateRandomAddress(), deployer, token.address);
+    Blockchain.register(market);
+    await market.init();
+
+    Blockchain.blockNumber = START_BLOCK;
+    Blockchain.msgSender = deployer;
+    Blockchain.txOrigin = deployer;
+}
+
+function dispose(): void {
+    market.dispose();
+    token.dispose();
+    Blockchain.dispose();
+}
+
+/** Mints collateral to `bettor` and approves the market to pull it. */
+async function fund(bettor: Address, amount: bigint): Promise<void> {
+    await token.mintRaw(bettor, amount);
+    await token.increaseAllowance(bettor, market.address, amount);
+}
+
+async function bet(bettor: Address, marketId: bigint, outcome: bigint, amount: bigint): Promise<void> {
+    await fund(bettor, amount);
+    await market.placeBet(bettor, marketId, outcome, amount);
+}
+
+/** Proposes `outcome` as the market's oracle at the end block and finalizes once the dispute window passes. */
+async function resolve(marketId: bigint, outcome: bigint, resolver: Address = oracle): Promise<void> {
+    Blockchain.blockNumber = END_BLOCK;
+    await market.resolveMarket(resolver, marketId, outcome);
+    Blockchain.blockNumber = END_BLOCK + DEFAULT_DISPUTE_WINDOW;
+    await market.finalizeMarket(carol, marketId);
+}
+
+/**
+ * vm.it that also fails the process: the runner only logs failed tests,
+ * which would let CI pass on a broken suite.
+ */
+async function it(vm: OPNetUnit, name: string, fn: () => Promise<void>): Promise<void> {
+    await vm.it(name, async () => {
+        try {
+            await fn();
+        } catch (err) {
+            process.exitCode = 1;
+            throw err;
+        }
+    });
+}
+
+await opnet('PredictionMarket: createMarket', async (vm: OPNetUnit) => {
+    vm.beforeEach(deploy);
+    vm.afterEach(dispose);
+
+    await it(vm, 'creates markets with sequential ids and emits MarketCreated', async () => {
+        const first = await market.createMarket(alice, { closeBlock: END_BLOCK, oracle });
+        const second = await market.createMarket(bob, { closeBlock: END_BLOCK + 5n, oracle });
+
+        Assert.expect(first.marketId).toEqual(1n);
+        Assert.expect(second.marketId).toEqual(2n);
+        Assert.expect(await market.getMarketCount()).toEqual(2n);
+
+        const event = PredictionMarketRuntime.decodeMarketCreatedEvent(
+            PredictionMarketRuntime.findEvent(first.response, 'MarketCreated').data,
+        );
+        Assert.expect(event.marketId).toEqual(1n);
+        Assert.expect(event.creator).toEqualAddress(alice);
+        Assert.expect(event.closeBlock).toEqual(END_BLOCK);
+        Assert.expect(event.resolveAfterBlock).toEqual(END_BLOCK);
+
+        const state = await market.getMarket(1n);
+        Assert.expect(state.creator).toEqual(toU256(alice));
+        Assert.expect(state.oracle).toEqual(toU256(oracle));
+        Assert.expect(state.status).toEqual(STATUS_OPEN);
+        Assert.expect(state.closeBlock).toEqual(END_BLOCK);
+        Assert.expect(state.resolveAfterBlock).toEqual(END_BLOCK);
+    });
+
+    await it(vm, 'stores a resolution block after the close block', async () => {
+        const { marketId } = await market.createMarket(alice, {
+            closeBlock: END_BLOCK,
+            resolveAfterBlock: END_BLOCK + 6n,
+            oracle,
+        });
+        const state = await market.getMarket(marketId);
+        Assert.expect(state.closeBlock).toEqual(END_BLOCK);
+        Assert.expect(state.resolveAfterBlock).toEqual(END_BLOCK + 6n);
+    });
+
+    await it(vm, 'makes the creator the oracle when none is given', async () => {
+        const { marketId } = await market.createMarket(alice, { closeBlock: END_BLOCK, oracle: ZERO_ADDRESS });
+        Assert.expect((await market.getMarket(marketId)).oracle).toEqual(toU256(alice));
+    });
+
+    await it(vm, 'rejects a close block that is not in the future', async () => {
+        await Assert.expect(async () => {
+            await market.createMarket(alice, { closeBlock: START_BLOCK });
+        }).toThrow('Close block must be in the future');
+    });
+
+    await it(vm, 'rejects a resolution block before the close block', async () => {
+        await Assert.expect(async () => {
+            await market.createMarket(alice, { closeBlock: END_BLOCK, resolveAfterBlock: END_BLOCK - 1n });
+        }).toThrow('Resolution block must not be before the close block');
+    });
+
+    await it(vm, 'rejects an empty question', async () => {
+        await Assert.expect(async () => {
+            await market.createMarket(alice, { closeBlock: END_BLOCK, question: '' });
+        }).toThrow('Question must not be empty');
+    });
+
+    await it(vm, 'rejects a creator fee above 10%', async () => {
+        await Assert.expect(async () => {
+            await market.createMarket(alice, { closeBlock: END_BLOCK, creatorFeeBps: 1_001n });
+        }).toThrow('Creator fee exceeds maximum');
+    });
+
+    await it(vm, 'rejects a missing metadata hash', async () => {
+        await Assert.expect(async () => {
+            await market.createMarket(alice, { closeBlock: END_BLOCK, metadataHash: 0n });
+        }).toThrow('Metadata hash must be set');
+    });
+
+    await it(vm, 'derives the content hash from the question, outcome labels and metadata hash', async () => {
+        const sha256 = (data: Uint8Array | string): Buffer => createHash('sha256').update(data).digest();
+        const metadataHash = BigInt(`0x${sha256('{"category":"crypto"}').toString('hex')}`);
+        const metadata = Buffer.from(metadataHash.toString(16).padStart(64, '0'), 'hex');
+        const contentHash = (parts: Buffer[]): bigint => BigInt(`0x${sha256(Buffer.concat(parts)).toString('hex')}`);
+
+        const question = 'Will BTC close above $100,000?';
+        const binary = await market.createMarket(alice, { closeBlock: END_BLOCK, question, metadataHash });
+        Assert.expect((await market.getMarket(binary.marketId)).contentHash)
+            .toEqual(contentHash([sha256(question), metadata]));
+
+        const outcomes = ['Bitcoin', 'Ethereum', 'Solana'];
+        const categorical = await market.createCategoricalMarket(alice, {
+            closeBlock: END_BLOCK,
+            question: 'Which chain settles the most volume?',
+            outcomes,
+            metadataHash,
+        });
+        Assert.expect((await market.getMarket(categorical.marketId)).contentHash).toEqual(
+            contentHash([sha256('Which chain settles the most volume?'), ...outcomes.map((o) => sha256(o)), metadata]),
+        );
+    });
+
+    await it(vm, 'rejects creation while paused', async () => {
+        await market.setPaused(deployer, false, true);
+        await Assert.expect(async () => {
+            await market.createMarket(alice, { closeBlock: END_BLOCK });
+        }).toThrow('Market creation is paused');
+    });
+
+    await it(vm, 'rejects creation past the market cap', async () => {
+        await market.createMarket(alice, { closeBlock: END_BLOCK });
+        await market.setMaxMarkets(deployer, 1n);
+        await Assert.expect(async () => {
+            await market.createMarket(alice, { closeBlock: END_BLOCK });
+        }).toThrow('Maximum markets reached');
+    });
+
+    await it(vm, 'rejects committees outside 2 to 10 members', async () => {
+        await Assert.expect(async () => {
+            await market.createMarket(alice, { closeBlock: END_BLOCK, committee: [bob], threshold: 1n });
+        }).toThrow('Oracle committees need between 2 and 10 members');
+    });
+
+    await it(vm, 'rejects a vote threshold outside 1 to the committee size', async () => {
+        await Assert.expect(async () => {
+            await market.createMarket(alice, { closeBlock: END_BLOCK, committee: [bob, carol], threshold: 3n });
+        }).toThrow('Vote threshold must be between 1 and the committee size');
+        await Assert.expect(async () => {
+            await market.createMarket(alice, { closeBlock: END_BLOCK, committee: [bob, carol], threshold: 0n });
+        }).toThrow('Vote threshold must be between 1 and the committee size');
+    });
+
+    await it(vm, 'rejects zero and duplicate committee members', async () => {
+        await Assert.expect(async () => {
+            await market.createMarket(alice, { closeBlock: END_BLOCK, committee: [bob, ZERO_ADDRESS], threshold: 1n });
+        }).toThrow('Committee members must be set');
+        await Assert.expect(async () => {
+            await market.createMarket(alice, { closeBlock: END_BLOCK, committee: [bob, bob], threshold: 1n });
+        }).toThrow('Committee members must be unique');
+    });
+});
+
+await opnet('PredictionMarket: placeBet', async (vm: OPNetUnit) => {
+    let marketId: bigint;
+
+    vm.beforeEach(async () => {
+        await deploy();
+        ({ marketId } = await market.createMarket(alice, { closeBlock: END_BLOCK, oracle }));
+    });
+    vm.afterEach(dispose);
+
+    await it(vm, 'escrows the stake, credits the pool and emits BetPlaced', async () => {
+        await fund(bob, 5_000n);
+        const response = await market.placeBet(bob, marketId, OUTCOME_YES, 5_000n);
+
+        const event = PredictionMarketRuntime.decodeBetPlacedEvent(
+            PredictionMarketRuntime.findEvent(response, 'BetPlaced').data,
+        );
+        Assert.expect(event.marketId).toEqual(marketId);
+        Assert.expect(event.bettor).toEqualAddress(bob);
+        Assert.expect(event.outcome).toEqual(OUTCOME_YES);
+        Assert.expect(event.amount).toEqual(5_000n);
+
+        const state = await market.getMarket(marketId);
+        Assert.expect(state.yesPool).toEqual(5_000n);
+        Assert.expect(state.noPool).toEqual(0n);
+        Assert.expect(await token.balanceOf(bob)).toEqual(0n);
+        Assert.expect(await token.balanceOf(market.address)).toEqual(5_000n + ESCROWED_STAKE);
+    });
+
+    await it(vm, 'accepts bets up to the block before the close block', async () => {
+        Blockchain.blockNumber = END_BLOCK - 1n;
+        await bet(bob, marketId, OUTCOME_NO, 1_000n);
+        Assert.expect((await market.getMarket(marketId)).noPool).toEqual(1_000n);
+    });
+
+    await it(vm, 'rejects bets while betting is paused', async () => {
+        await fund(bob, 1_000n);
+        await market.setPaused(deployer, true, false);
+        await Assert.expect(async () => {
+            await market.placeBet(bob, marketId, OUTCOME_YES, 1_000n);
+        }).toThrow('Betting is paused');
+    });
+
+    await it(vm, 'rejects outcomes other than YES and NO', async () => {
+        await fund(bob, 1_000n);
+        for (const outcome of [0n, 3n]) {
+            await Assert.expect(async () => {
+                await market.placeBet(bob, marketId, outcome, 1_000n);
+            }).toThrow('Invalid outcome: must be 1 (YES) or 2 (NO)');
+        }
+    });
+
+    await it(vm, 'rejects bets on unknown and settled markets', async () => {
+        await fund(bob, 2_000n);
+        await Assert.expect(async () => {
+            await market.placeBet(bob, 99n, OUTCOME_YES, 1_000n);
+        }).toThrow('Market is not open');
+
+        await resolve(marketId, OUTCOME_YES);
+        await Assert.expect(async () => {
+            await market.placeBet(bob, marketId, OUTCOME_YES, 1_000n);
+        }).toThrow('Market is not open');
+    });
+
+    await it(vm, 'rejects bets from the close block on', async () => {
+        await fund(bob, 1_000n);
+        Blockchain.blockNumber = END_BLOCK;
+        await Assert.expect(async () => {
+            await market.placeBet(bob, marketId, OUTCOME_YES, 1_000n);
+        }).toThrow('Market betting period has ended');
+    });
+
+    await it(vm, 'rejects a zero amount', async () => {
+        await Assert.expect(async () => {
+            await market.placeBet(bob, marketId, OUTCOME_YES, 0n);
+        }).toThrow('Amount must be greater than zero');
+    });
+
+    await it(vm, 'rejects bets below the minimum', async () => {
+        await market.setMinBet(deployer, 500n);
+        await fund(bob, 499n);
+        await Assert.expect(async () => {
+            await market.placeBet(bob, marketId, OUTCOME_YES, 499n);
+        }).toThrow('Bet below minimum');
+    });
+
+    await it(vm, 'rolls the bet back when collateral was not approved', async () => {
+        await token.mintRaw(bob, 1_000n);
+        await Assert.expect(async () => {
+            await market.placeBet(bob, marketId, OUTCOME_YES, 1_000n);
+        }).toThrow();
+
+        Assert.expect((await market.getMarket(marketId)).yesPool).toEqual(0n);
+        Assert.expect(await token.balanceOf(bob)).toEqual(1_000n);
+    });
+});
+
+await opnet('PredictionMarket: resolveMarket', async (vm: OPNetUnit) => {
+    let marketId: bigint;
+
+    vm.beforeEach(async () => {
+        await deploy();
+        ({ marketId } = await market.createMarket(alice, { closeBlock: END_BLOCK, oracle }));
+    });
+    vm.afterEach(dispose);
+
+    await it(vm, 'proposes the outcome and opens the dispute window', async () => {
+        Blockchain.blockNumber = END_BLOCK;
+        const response = await market.resolveMarket(oracle, marketId, OUTCOME_NO);
+
+        const event = PredictionMarketRuntime.decodeOutcomeProposedEvent(
+            PredictionMarketRuntime.findEvent(response, 'OutcomeProposed').data,
+        );
+        Assert.expect(event.marketId).toEqual(marketId);
+        Assert.expect(event.outcome).toEqual(OUTCOME_NO);
+        Assert.expect(event.disputeEndBlock).toEqual(END_BLOCK + DEFAULT_DISPUTE_WINDOW);
+
+        const state = await market.getMarket(marketId);
+        Assert.expect(state.status).toEqual(STATUS_PROPOSED);
+        Assert.expect(state.outcome).toEqual(OUTCOME_NO);
+    });
+
+    await it(vm, 'settles once the dispute window passes unchallenged', async () => {
+        Blockchain.blockNumber = END_BLOCK;
+        await market.resolveMarket(oracle, marketId, OUTCOME_YES);
+
+        Blockchain.blockNumber = END_BLOCK + DEFAULT_DISPUTE_WINDOW - 1n;
+        await Assert.expect(async () => {
+            await market.finalizeMarket(carol, marketId);
+        }).toThrow('Dispute window is still open');
+
+        Blockchain.blockNumber = END_BLOCK + DEFAULT_DISPUTE_WINDOW;
+        const response = await market.finalizeMarket(carol, marketId);
+        const event = PredictionMarketRuntime.decodeMarketResolvedEvent(
+            PredictionMarketRuntime.findEvent(response, 'MarketResolved').data,
+        );
+        Assert.expect(event.outcome).toEqual(OUTCOME_YES);
+        Assert.expect(event.resolvedBy).toEqual(RESOLVED_BY_ORACLE);
+        Assert.expect((await market.getMarket(marketId)).status).toEqual(STATUS_RESOLVED);
+    });
+
+    await it(vm, 'rejects outcomes other than YES and NO', async () => {
+        Blockchain.blockNumber = END_BLOCK;
+        await Assert.expect(async () => {
+            await market.resolveMarket(oracle, marketId, 3n);
+        }).toThrow('Invalid outcome: must be 1 (YES) or 2 (NO)');
+    });
+
+    await it(vm, 'rejects a second proposal', async () => {
+        Blockchain.blockNumber = END_BLOCK;
+        await market.resolveMarket(oracle, marketId, OUTCOME_YES);
+        await Assert.expect(async () => {
+            await market.resolveMarket(oracle, marketId, OUTCOME_NO);
+        }).toThrow('Market is not open');
+    });
+
+    await it(vm, 'rejects committee markets', async () => {
+        const committeeMarket = await market.createMarket(alice, {
+            closeBlock: END_BLOCK,
+            committee: [oracle, carol],
+            threshold: 2n,
+        });
+        Blockchain.blockNumber = END_BLOCK;
+        await Assert.expect(async () => {
+            await market.resolveMarket(oracle, committeeMarket.marketId, OUTCOME_YES);
+        }).toThrow('Market is resolved by its oracle committee');
+    });
+
+    await it(vm, 'rejects anyone but the oracle', async () => {
+        Blockchain.blockNumber = END_BLOCK;
+        for (const caller of [alice, bob, deployer]) {
+            await Assert.expect(async () => {
+                await market.resolveMarket(caller, marketId, OUTCOME_YES);
+            }).toThrow('Only the designated oracle can resolve');
+        }
+    });
+
+    await it(vm, 'rejects resolution before the resolution block', async () => {
+        Blockchain.blockNumber = END_BLOCK - 1n;
+        await Assert.expect(async () => {
+            await market.resolveMarket(oracle, marketId, OUTCOME_YES);
+        }).toThrow('Market cannot be resolved yet');
+    });
+
+    await it(vm, 'keeps betting closed while resolution waits for its block', async () => {
+        const delayed = await market.createMarket(alice, {
+            closeBlock: END_BLOCK,
+            resolveAfterBlock: END_BLOCK + 6n,
+            oracle,
+        });
+        await fund(bob, 1_000n);
+
+        Blockchain.blockNumber = END_BLOCK + 5n;
+        await Assert.expect(async () => {
+            await market.placeBet(bob, delayed.marketId, OUTCOME_YES, 1_000n);
+        }).toThrow('Market betting period has ended');
+        await Assert.expect(async () => {
+            await market.resolveMarket(oracle, delayed.marketId, OUTCOME_YES);
+        }).toThrow('Market cannot be resolved yet');
+
+        Blockchain.blockNumber = END_BLOCK + 6n;
+        await market.resolveMarket(oracle, delayed.marketId, OUTCOME_YES);
+        Assert.expect((await market.getMarket(delayed.marketId)).status).toEqual(STATUS_PROPOSED);
+    });
+});
+
+await opnet('PredictionMarket: resolution timeout', async (vm: OPNetUnit) => {
+    const TIMEOUT_BLOCK = END_BLOCK + DEFAULT_RESOLUTION_TIMEOUT;
+    let marketId: bigint;
+
+    vm.beforeEach(async () => {
+        await deploy();
+        ({ marketId } = await market.createMarket(alice, { closeBlock: END_BLOCK, oracle, fallbackOracle: bob }));
+    });
+    vm.afterEach(dispose);
+
+    await it(vm, 'stores the fallback oracle and timeout block', async () => {
+        const state = await market.getMarket(marketId);
+        Assert.expect(state.fallbackOracle).toEqual(toU256(bob));
+        Assert.expect(state.timeoutBlock).toEqual(TIMEOUT_BLOCK);
+        Assert.expect(state.resolvedBy).toEqual(0);
+    });
+
+    await it(vm, 'rejects a fallback oracle equal to the oracle', async () => {
+        await Assert.expect(async () => {
+            await market.createMarket(alice, { closeBlock: END_BLOCK, oracle, fallbackOracle: oracle });
+        }).toThrow('Fallback oracle must differ from the oracle');
+    });
+
+    await it(vm, 'rejects the fallback oracle and owner before the timeout', async () => {
+        Blockchain.blockNumber = TIMEOUT_BLOCK - 1n;
+        for (const caller of [bob, deployer]) {
+            await Assert.expect(async () => {
+                await market.resolveMarket(caller, marketId, OUTCOME_YES);
+            }).toThrow('Only the designated oracle can resolve');
+        }
+    });
+
+    await it(vm, 'lets the fallback oracle resolve once the timeout passes', async () => {
+        Blockchain.blockNumber = TIMEOUT_BLOCK;
+        await market.resolveMarket(bob, marketId, OUTCOME_NO);
+        Assert.expect((await market.getMarket(marketId)).resolvedBy).toEqual(RESOLVED_BY_FALLBACK_ORACLE);
+
+        Blockchain.blockNumber = TIMEOUT_BLOCK + DEFAULT_DISPUTE_WINDOW;
+        const response = await market.finalizeMarket(carol, marketId);
+        const event = PredictionMarketRuntime.decodeMarketResolvedEvent(
+            PredictionMarketRuntime.findEvent(response, 'MarketResolved').data,
+        );
+        Assert.expect(event.outcome).toEqual(OUTCOME_NO);
+        Assert.expect(event.resolvedBy).toEqual(RESOLVED_BY_FALLBACK_ORACLE);
+    });
+
+    await it(vm, 'lets the owner resolve once the timeout passes', async () => {
+        Blockchain.blockNumber = TIMEOUT_BLOCK;
+        await Assert.expect(async () => {
+            await market.resolveMarket(alice, marketId, OUTCOME_YES);
+        }).toThrow('Only the designated oracle can resolve');
+
+        await market.resolveMarket(deployer, marketId, OUTCOME_YES);
+        Assert.expect((await market.getMarket(marketId)).resolvedBy).toEqual(RESOLVED_BY_OWNER);
+    });
+
+    await it(vm, 'lets the fallback oracle resolve a silent committee', async () => {
+        const committeeMarket = await market.createMarket(alice, {
+            closeBlock: END_BLOCK,
+            committee: [oracle, carol],
+            threshold: 2n,
+            fallbackOracle: bob,
+        });
+        Blockchain.blockNumber = TIMEOUT_BLOCK - 1n;
+        await Assert.expect(async () => {
+            await market.resolveMarket(bob, committeeMarket.marketId, OUTCOME_YES);
+        }).toThrow('Market is resolved by its oracle committee');
+
+        Blockchain.blockNumber = TIMEOUT_BLOCK;
+        await market.resolveMarket(bob, committeeMarket.marketId, OUTCOME_YES);
+        Assert.expect((await market.getMarket(committeeMarket.marketId)).status).toEqual(STATUS_PROPOSED);
+    });
+
+    await it(vm, 'applies a new timeout only to markets created afterwards', async () => {
+        await Assert.expect(async () => {
+            await market.setResolutionTimeout(alice, 10n);
+        }).toThrow('Only the owner can set the resolution timeout');
+
+        await market.setResolutionTimeout(deployer, 10n);
+        const later = await market.createMarket(alice, { closeBlock: END_BLOCK, oracle });
+
+        Assert.expect((await market.getMarket(marketId)).timeoutBlock).toEqual(TIMEOUT_BLOCK);
+        Assert.expect((await market.getMarket(later.marketId)).timeoutBlock).toEqual(END_BLOCK + 10n);
+    });
+});
+
+await opnet('PredictionMarket: oracle registry', async (vm: OPNetUnit) => {
+    const STAKE = 50_000n;
+    const PROFILE_HASH = 0xabcdefn;
+
+    vm.beforeEach(async () => {
+        await deployContracts();
+        await fund(oracle, STAKE);
+        await market.registerOracle(oracle, STAKE, PROFILE_HASH);
+    });
+    vm.afterEach(dispose);
+
+    await it(vm, 'pulls the stake and records the profile', async () => {
+        Assert.expect(await token.balanceOf(oracle)).toEqual(0n);
+        Assert.expect(await token.balanceOf(market.address)).toEqual(STAKE);
+
+        await market.createMarket(alice, { closeBlock: END_BLOCK, oracle });
+        const state = await market.getOracle(oracle);
+        Assert.expect(state.stake).toEqual(STAKE);
+        Assert.expect(state.profileHash).toEqual(PROFILE_HASH);
+        Assert.expect(state.registeredAt).toEqual(START_BLOCK);
+        Assert.expect(state.marketCount).toEqual(1n);
+    });
+
+    await it(vm, 'rejects a missing profile hash or a stake below the minimum', async () => {
+        await Assert.expect(async () => {
+            await market.registerOracle(bob, 0n, 0n);
+        }).toThrow('Profile hash must be set');
+        await Assert.expect(async () => {
+            await market.registerOracle(bob, 0n, PROFILE_HASH);
+        }).toThrow('Stake is below the oracle minimum');
+
+        await market.setMinOracleStake(deployer, 10_000n);
+        await fund(bob, 5_000n);
+        await Assert.expect(async () => {
+            await market.registerOracle(bob, 5_000n, PROFILE_HASH);
+        }).toThrow('Stake is below the oracle minimum');
+    });
+
+    await it(vm, 'rejects markets naming an unregistered oracle', async () => {
+        const markets = [
+            { closeBlock: END_BLOCK },
+            { closeBlock: END_BLOCK, oracle: bob },
+            { closeBlock: END_BLOCK, oracle, fallbackOracle: bob },
+            { closeBlock: END_BLOCK, committee: [oracle, bob], threshold: 1n },
+        ];
+        for (const params of markets) {
+            await Assert.expect(async () => {
+                await market.createMarket(alice, params);
+            }).toThrow('Oracle is not registered');
+        }
+    });
+
+    await it(vm, 'rejects markets naming an under-staked or unstaking oracle', async () => {
+        await market.setMinOracleStake(deployer, STAKE + 1n);
+        await Assert.expect(async () => {
+            await market.createMarket(alice, { closeBlock: END_BLOCK, oracle });
+        }).toThrow('Oracle stake is below the minimum');
+
+        await market.setMinOracleStake(deployer, 0n);
+        await market.unstakeOracle(oracle, 1n);
+        await Assert.expect(async () => {
+            await market.createMarket(alice, { closeBlock: END_BLOCK, oracle });
+        }).toThrow('Oracle is unstaking');
+    });
+
+    await it(vm, 'locks the stake until the oracle has no unresolved markets', async () => {
+        const { marketId } = await market.createMarket(alice, { closeBlock: END_BLOCK, oracle });
+        await Assert.expect(async () => {
+            await market.unstakeOracle(oracle, 1n);
+        }).toThrow('Oracle has unresolved markets');
+
+        await resolve(marketId, OUTCOME_YES);
+        await market.unstakeOracle(oracle, STAKE);
+        Assert.expect((await market.getOracle(oracle)).unstaking).toEqual(STAKE);
+    });
+
+    await it(vm, 'holds unstaked collateral until the unbonding period ends', async () => {
+        await market.unstakeOracle(oracle, 20_000n);
+        const unlockBlock = START_BLOCK + ORACLE_UNBONDING_BLOCKS;
+        const state = await market.getOracle(oracle);
+        Assert.expect(state.stake).toEqual(STAKE - 20_000n);
+        Assert.expect(state.unstaking).toEqual(20_000n);
+        Assert.expect(state.unlockBlock).toEqual(unlockBlock);
+
+        Blockchain.blockNumber = unlockBlock - 1n;
+        await Assert.expect(async () => {
+            await market.withdrawOracleStake(oracle);
+        }).toThrow('Stake is still unbonding');
+
+        Blockchain.blockNumber = unlockBlock;
+        const { amount } = await market.withdrawOracleStake(oracle);
+        Assert.expect(amount).toEqual(20_000n);
+        Assert.expect(await token.balanceOf(oracle)).toEqual(20_000n);
+        Assert.expect((await market.getOracle(oracle)).unstaking).toEqual(0n);
+    });
+
+    await it(vm, 'lets only the owner slash, taking unbonding stake last', async () => {
+        await market.unstakeOracle(oracle, 20_000n);
+        await Assert.expect(async () => {
+            await market.slashOracle(alice, oracle, 1_000n);
+        }).toThrow('Only the owner can slash oracles');
+
+        const response = await market.slashOracle(deployer, oracle, 40_000n);
+        const event = PredictionMarketRuntime.decodeOracleSlashedEvent(
+            PredictionMarketRuntime.findEvent(response, 'OracleSlashed').data,
+        );
+        Assert.expect(event.oracle).toEqualAddress(oracle);
+        Assert.expect(event.amount).toEqual(40_000n);
+        Assert.expect(event.marketId).toEqual(0n);
+
+        const state = await market.getOracle(oracle);
+        Assert.expect(state.stake).toEqual(0n);
+        Assert.expect(state.unstaking).toEqual(10_000n);
+        Assert.expect(state.slashed).toEqual(40_000n);
+    });
+
+    await it(vm, 'slashes the oracle to the challenger when its proposal is overturned', async () => {
+        const { marketId } = await market.createMarket(alice, { closeBlock: END_BLOCK, oracle });
+        Blockchain.blockNumber = END_BLOCK;
+        await market.resolveMarket(oracle, marketId, OUTCOME_YES);
+        await fund(bob, DEFAULT_DISPUTE_BOND);
+        await market.disputeOutcome(bob, marketId, OUTCOME_NO);
+
+        const response = await market.ruleDispute(deployer, marketId, OUTCOME_NO);
+        const slash = (STAKE * ORACLE_DISPUTE_SLASH_BPS) / 10_000n;
+        const event = PredictionMarketRuntime.decodeOracleSlashedEvent(
+            PredictionMarketRuntime.findEvent(response, 'OracleSlashed').data,
+        );
+        Assert.expect(event.amount).toEqual(slash);
+        Assert.expect(event.marketId).toEqual(marketId);
+        Assert.expect(await token.balanceOf(bob)).toEqual(DEFAULT_DISPUTE_BOND + slash);
+        Assert.expect((await market.getOracle(oracle)).stake).toEqual(STAKE - slash);
+    });
+
+    await it(vm, 'leaves the oracle stake alone when its proposal is upheld', async () => {
+        const { marketId } = await market.createMarket(alice, { closeBlock: END_BLOCK, oracle });
+        Blockchain.blockNumber = END_BLOCK;
+        await market.resolveMarket(oracle, marketId, OUTCOME_YES);
+        await fund(bob, DEFAULT_DISPUTE_BOND);
+        await market.disputeOutcome(bob, marketId, OUTCOME_NO);
+
+        const response = await market.ruleDispute(deployer, marketId, OUTCOME_YES);
+        Assert.expect(response.events.some((e) => e.type === 'OracleSlashed')).toEqual(false);
+        Assert.expect((await market.getOracle(oracle)).stake).toEqual(STAKE);
+    });
+
+    await it(vm, 'returns only the bond when the ruling backs neither side', async () => {
+        const { marketId } = await market.createCategoricalMarket(alice, {
+            closeBlock: END_BLOCK,
+            oracle,
+            outcomes: ['Bitcoin', 'Ethereum', 'Solana'],
+        });
+        Blockchain.blockNumber = END_BLOCK;
+        await market.resolveMarket(oracle, marketId, 1n);
+        await fund(bob, DEFAULT_DISPUTE_BOND);
+        await market.disputeOutcome(bob, marketId, 2n);
+
+        const response = await market.ruleDispute(deployer, marketId, 3n);
+        const slash = (STAKE * ORACLE_DISPUTE_SLASH_BPS) / 10_000n;
+        const event = PredictionMarketRuntime.decodeOracleSlashedEvent(
+            PredictionMarketRuntime.findEvent(response, 'OracleSlashed').data,
+        );
+        Assert.expect(event.amount).toEqual(slash);
+        Assert.expect(await token.balanceOf(bob)).toEqual(DEFAULT_DISPUTE_BOND);
+        // The slashed stake stays in escrow as protocol fees
+        Assert.expect(await token.balanceOf(market.address)).toEqual(STAKE);
+        Assert.expect((await market.getMarket(marketId)).outcome).toEqual(3n);
+    });
+});
+
+await opnet('PredictionMarket: sellPosition', async (vm: OPNetUnit) => {
+    let marketId: bigint;
+
+    vm.beforeEach(async () => {
+        await deploy();
+        ({ marketId } = await market.createMarket(alice, { closeBlock: END_BLOCK, oracle }));
+        await bet(bob, marketId, OUTCOME_YES, 10_000n);
+        await bet(carol, marketId, OUTCOME_NO, 5_000n);
+    });
+    vm.afterEach(dispose);
+
+    await it(vm, 'prices a sale at the pool odds less a spread that grows with the share of the pool sold', async () => {
+        // YES holds 10,000 of 15,000, so a share is worth a third; a tenth of
+        // the pool adds a tenth of the 9% range to the 1% spread
+        Assert.expect(await market.quoteSell(marketId, OUTCOME_YES, 1_000n)).toEqual(327n);
+
+        const { amountOut } = await market.sellPosition(bob, marketId, OUTCOME_YES, 1_000n, 327n);
+        Assert.expect(amountOut).toEqual(327n);
+        Assert.expect(await token.balanceOf(bob)).toEqual(327n);
+
+        const state = await market.getMarket(marketId);
+        Assert.expect(state.yesPool).toEqual(9_000n);
+        Assert.expect(state.exitSpread).toEqual(673n);
+    });
+
+    await it(vm, 'pays more for the outcome the pools back less', async () => {
+        // NO is the underdog at 5,000 of 15,000: two thirds, less 1% + 1.8%
+        Assert.expect(await market.quoteSell(marketId, OUTCOME_NO, 1_000n)).toEqual(648n);
+
+        const skewed = await market.createMarket(alice, { closeBlock: END_BLOCK, oracle });
+        await bet(bob, skewed.marketId, OUTCOME_YES, 9_000n);
+        await bet(carol, skewed.marketId, OUTCOME_NO, 1_000n);
+
+        // At 9:1 a YES share is worth a tenth and a NO share nine tenths
+        Assert.expect(await market.quoteSell(skewed.marketId, OUTCOME_YES, 1_000n)).toEqual(98n);
+        Assert.expect(await market.quoteSell(skewed.marketId, OUTCOME_NO, 1_000n)).toEqual(810n);
+    });
+
+    await it(vm, 'lets the only bettor on an outcome close the whole position', async () => {
+        const { amountOut } = await market.sellPosition(bob, marketId, OUTCOME_YES, 10_000n, 3_000n);
+        Assert.expect(amountOut).toEqual(3_000n);
+
+        const state = await market.getMarket(marketId);
+        Assert.expect(state.yesPool).toEqual(0n);
+        Assert.expect(state.exitSpread).toEqual(7_000n);
+
+        // What the sale gave up goes to the winners
+        await resolve(marketId, OUTCOME_NO);
+        Assert.expect((await market.claimWinnings(carol, marketId)).payout).toEqual(12_000n);
+    });
+
+    await it(vm, 'rejects a sale paying less than minOut', async () => {
+        await Assert.expect(async () => {
+            await market.sellPosition(bob, marketId, OUTCOME_YES, 1_000n, 328n);
+        }).toThrow('Slippage: output below minimum');
+        Assert.expect((await market.getMarket(marketId)).yesPool).toEqual(10_000n);
+    });
+
+    await it(vm, 'rejects sales on scalar markets', async () => {
+        const scalar = await market.createScalarMarket(alice, {
+            closeBlock: END_BLOCK,
+            oracle,
+            lowerBound: 50_000n,
+            upperBound: 150_000n,
+        });
+        await bet(bob, scalar.marketId, OUTCOME_YES, 1_000n);
+        await Assert.expect(async () => {
+            await market.sellPosition(bob, scalar.marketId, OUTCOME_YES, 1_000n, 0n);
+        }).toThrow('Scalar positions cannot be sold');
+    });
+});
+
+await opnet('PredictionMarket: claimWinnings', async (vm: OPNetUnit) => {
+    let marketId: bigint;
+
+    vm.beforeEach(async () => {
+        await deploy();
+        ({ marketId } = await market.createMarket(alice, { closeBlock: END_BLOCK, oracle }));
+    });
+    vm.afterEach(dispose);
+
+    await it(vm, 'pays the whole pot to a sole winner and emits WinningsClaimed', async () => {
+        await bet(bob, marketId, OUTCOME_YES, 4_000n);
+        await bet(carol, marketId, OUTCOME_NO, 6_000n);
+        await resolve(marketId, OUTCOME_YES);
+
+        const { payout, response } = await market.claimWinnings(bob, marketId);
+        Assert.expect(payout).toEqual(10_000n);
+        Assert.expect(await token.balanceOf(bob)).toEqual(10_000n);
+
+        const event = PredictionMarketRuntime.decodeWinningsClaimedEvent(
+            PredictionMarketRuntime.findEvent(response, 'WinningsClaimed').data,
+        );
+        Assert.expect(event.marketId).toEqual(marketId);
+        Assert.expect(event.claimant).toEqualAddress(bob);
+        Assert.expect(event.amount).toEqual(10_000n);
+    });
+
+    await it(vm, 'rejects claims before the market is resolved', async () => {
+        await bet(bob, marketId, OUTCOME_YES, 1_000n);
+        await Assert.expect(async () => {
+            await market.claimWinnings(bob, marketId);
+        }).toThrow('Market is not resolved yet');
+
+        // A proposal alone is not final
+        Blockchain.blockNumber = END_BLOCK;
+        await market.resolveMarket(oracle, marketId, OUTCOME_YES);
+        await Assert.expect(async () => {
+            await market.claimWinnings(bob, marketId);
+        }).toThrow('Market is not resolved yet');
+    });
+
+    await it(vm, 'pays out only once', async () => {
+        await bet(bob, marketId, OUTCOME_YES, 1_000n);
+        await bet(carol, marketId, OUTCOME_NO, 1_000n);
+        await resolve(marketId, OUTCOME_YES);
+
+        await market.claimWinnings(bob, marketId);
+        await Assert.expect(async () => {
+            await market.claimWinnings(bob, marketId);
+        }).toThrow('Already claimed');
+        Assert.expect(await token.balanceOf(bob)).toEqual(2_000n);
+    });
+
+    await it(vm, 'rejects losers and non-bettors', async () => {
+        await bet(bob, marketId, OUTCOME_YES, 1_000n);
+        await bet(carol, marketId, OUTCOME_NO, 1_000n);
+        await resolve(marketId, OUTCOME_YES);
+
+        for (const claimant of [carol, alice]) {
+            await Assert.expect(async () => {
+                await market.claimWinnings(claimant, marketId);
+            }).toThrow('No winning bet found');
+        }
+    });
+
+    await it(vm, 'rounds every payout down and never pays out more than the pot', async () => {
+        const winners: [Address, bigint][] = [[alice, 100n], [bob, 200n], [oracle, 333n]];
+        for (const [winner, stake] of winners) {
+            await bet(winner, marketId, OUTCOME_NO, stake);
+        }
+        await bet(carol, marketId, OUTCOME_YES, 1_000n);
+        await resolve(marketId, OUTCOME_NO);
+
+        const winningPool = 633n;
+        const pot = 1_633n;
+        let paid = 0n;
+        for (const [winner, stake] of winners) {
+            const { payout } = await market.claimWinnings(winner, marketId);
+            Assert.expect(payout).toEqual((stake * pot) / winningPool);
+            paid += payout;
+        }
+
+        // 257 + 515 + 859: the two units of rounding dust stay in escrow
+        Assert.expect(paid).toEqual(1_631n);
+        Assert.expect(await token.balanceOf(market.address)).toEqual(pot - paid + ESCROWED_STAKE);
+        Assert.expect(pot - paid).toBeLessThan(BigInt(winners.length));
+    });
+
+    await it(vm, 'takes fees from the losing pool only, rounding them down', async () => {
+        await market.setProtocolFee(deployer, 250n);
+        const feeMarket = await market.createMarket(alice, { closeBlock: END_BLOCK, oracle, creatorFeeBps: 100n });
+
+        await bet(bob, feeMarket.marketId, OUTCOME_YES, 3_000n);
+        await bet(carol, feeMarket.marketId, OUTCOME_NO, 7_001n);
+        await resolve(feeMarket.marketId, OUTCOME_YES);
+
+        // 2.5% and 1% of 7,001 are 175.025 and 70.01
+        const state = await market.getMarket(feeMarket.marketId);
+        Assert.expect(state.protocolFee).toEqual(175n);
+        Assert.expect(state.creatorFee).toEqual(70n);
+
+        const { payout } = await market.claimWinnings(bob, feeMarket.marketId);
+        Assert.expect(payout).toEqual(10_001n - 175n - 70n);
+        Assert.expect(await token.balanceOf(market.address)).toEqual(175n + 70n + ESCROWED_STAKE);
+    });
+
+    await it(vm, 'refunds every bettor pro rata, less fees, when nobody backed the outcome', async () => {
+        await market.setProtocolFee(deployer, 250n);
+        const feeMarket = await market.createMarket(alice, { closeBlock: END_BLOCK, oracle, creatorFeeBps: 100n });
+
+        await bet(bob, feeMarket.marketId, OUTCOME_NO, 3_000n);
+        await bet(carol, feeMarket.marketId, OUTCOME_NO, 1_000n);
+        await resolve(feeMarket.marketId, OUTCOME_YES);
+
+        // Fees come out of the whole 4,000 pool: 100 protocol and 40 creator
+        Assert.expect((await market.claimWinnings(bob, feeMarket.marketId)).payout).toEqual(2_895n);
+        Assert.expect((await market.claimWinnings(carol, feeMarket.marketId)).payout).toEqual(965n);
+        Assert.expect(await token.balanceOf(market.address)).toEqual(100n + 40n + ESCROWED_STAKE);
+
+        await Assert.expect(async () => {
+            await market.claimWinnings(alice, feeMarket.marketId);
+        }).toThrow('No stake to refund');
+    });
+});
+
+await opnet('PredictionMarket: scalar markets', async (vm: OPNetUnit) => {
+    const LOWER = 50_000n;
+    const UPPER = 150_000n;
+    let marketId: bigint;
+
+    /** Proposes `value` as the oracle at the end block and finalizes once the dispute window passes. */
+    async function resolveScalar(value: bigint): Promise<void> {
+        Blockchain.blockNumber = END_BLOCK;
+        await market.resolveScalarMarket(oracle, marketId, value);
+        Blockchain.blockNumber = END_BLOCK + DEFAULT_DISPUTE_WINDOW;
+        await market.finalizeMarket(carol, marketId);
+    }
+
+    vm.beforeEach(async () => {
+        await deploy();
+        ({ marketId } = await market.createScalarMarket(alice, {
+            closeBlock: END_BLOCK,
+            oracle,
+            lowerBound: LOWER,
+            upperBound: UPPER,
+        }));
+    });
+    vm.afterEach(dispose);
+
+    await it(vm, 'stores the bounds on a binary-shaped market', async () => {
+        const state = await market.getMarket(marketId);
+        Assert.expect(state.lowerBound).toEqual(LOWER);
+        Assert.expect(state.upperBound).toEqual(UPPER);
+        Assert.expect(state.outcomeCount).toEqual(2n);
+        Assert.expect(state.committeeSize).toEqual(0n);
+    });
+
+    await it(vm, 'rejects an upper bound that is not above the lower bound', async () => {
+        for (const upperBound of [LOWER, LOWER - 1n]) {
+            await Assert.expect(async () => {
+                await market.createScalarMarket(alice, { closeBlock: END_BLOCK, lowerBound: LOWER, upperBound });
+            }).toThrow('Upper bound must be above the lower bound');
+        }
+    });
+
+    await it(vm, 'splits the pot linearly between LONG and SHORT', async () => {
+        await bet(bob, marketId, OUTCOME_YES, 6_000n);
+        await bet(carol, marketId, OUTCOME_NO, 4_000n);
+
+        // 125,000 is three quarters of the way from the lower to the upper bound
+        await resolveScalar(125_000n);
+        const state = await market.getMarket(marketId);
+        Assert.expect(state.status).toEqual(STATUS_RESOLVED);
+        Assert.expect(state.outcome).toEqual(125_000n);
+
+        Assert.expect((await market.claimWinnings(bob, marketId)).payout).toEqual(7_500n);
+        Assert.expect((await market.claimWinnings(carol, marketId)).payout).toEqual(2_500n);
+    });
+
+    await it(vm, 'clamps the value to the bounds', async () => {
+        await bet(bob, marketId, OUTCOME_YES, 6_000n);
+        await bet(carol, marketId, OUTCOME_NO, 4_000n);
+        await resolveScalar(UPPER * 2n);
+
+        Assert.expect((await market.getMarket(marketId)).outcome).toEqual(UPPER);
+        Assert.expect((await market.claimWinnings(bob, marketId)).payout).toEqual(10_000n);
+        await Assert.expect(async () => {
+            await market.claimWinnings(carol, marketId);
+        }).toThrow('No winning bet found');
+    });
+
+    await it(vm, 'charges fees only on stake that changes sides', async () => {
+        await market.setProtocolFee(deployer, 250n);
+        ({ marketId } = await market.createScalarMarket(alice, {
+            closeBlock: END_BLOCK,
+            oracle,
+            lowerBound: LOWER,
+            upperBound: UPPER,
+        }));
+        await bet(bob, marketId, OUTCOME_YES, 6_000n);
+        await bet(carol, marketId, OUTCOME_NO, 4_000n);
+        await resolveScalar(125_000n);
+
+        // LONG's share is 7,500 of a 6,000 pool: 2.5% of the 1,500 that moved
+        Assert.expect((await market.getMarket(marketId)).protocolFee).toEqual(37n);
+        Assert.expect((await market.claimWinnings(bob, marketId)).payout).toEqual(((10_000n - 37n) * 3n) / 4n);
+    });
+
+    await it(vm, 'rejects signed prices unless the creator opted in', async () => {
+        await market.setPriceSigner(deployer, oracle, true);
+
+        Blockchain.blockNumber = END_BLOCK;
+        await Assert.expect(async () => {
+            await market.resolveWithPrice(bob, marketId, 125_000n, END_BLOCK, oracle, new Uint8Array(64));
+        }).toThrow('Market has no price target');
+    });
+
+    await it(vm, 'rejects a whitelisted tweaked key paired with another ML-DSA key', async () => {
+        await market.setPriceTarget(alice, marketId, 1n);
+        await market.setPriceSigner(deployer, oracle, true);
+        const impostor = new Address(Blockchain.generateRandomAddress(), oracle.tweakedPublicKeyToBuffer());
+        Assert.expect(await market.isPriceSigner(oracle)).toEqual(true);
+        Assert.expect(await market.isPriceSigner(impostor)).toEqual(false);
+
+        Blockchain.blockNumber = END_BLOCK;
+        await Assert.expect(async () => {
+            await market.resolveWithPrice(bob, marketId, 125_000n, END_BLOCK, impostor, new Uint8Array(64));
+        }).toThrow('Signer is not an approved price signer');
+    });
+
+    await it(vm, 'resolves only through resolveScalarMarket', async () => {
+        Blockchain.blockNumber = END_BLOCK;
+        await Assert.expect(async () => {
+            await market.resolveMarket(oracle, marketId, OUTCOME_YES);
+        }).toThrow('Scalar markets resolve with resolveScalarMarket');
+
+        const binary = await market.createMarket(alice, { closeBlock: END_BLOCK + 10n, oracle });
+        Blockchain.blockNumber = END_BLOCK + 10n;
+        await Assert.expect(async () => {
+            await market.resolveScalarMarket(oracle, binary.marketId, 100_000n);
+        }).toThrow('Market is not a scalar market');
+    });
+});
+
+await opnet('PredictionMarket: private markets', async (vm: OPNetUnit) => {
+    const dave: Address = Blockchain.generateRandomAddress();
+
+    function sha256(data: Uint8Array): bigint {
+        return BigInt(`0x${createHash('sha256').update(data).digest('hex')}`);
+    }
+
+    function toBytes32(value: bigint): Uint8Array {
+        return Uint8Array.from(Buffer.from(value.toString(16).padStart(64, '0'), 'hex'));
+    }
+
+    /** Same tree the contract verifies: sha256 leaves, sorted pairs, odd nodes carried up. */
+    function merkleTree(members: Address[]): { root: bigint; proof: (member: Address) => bigint[] } {
+        const levels: bigint[][] = [members.map((m) => sha256(m))];
+        while (levels[levels.length - 1].length > 1) {
+            const level = levels[levels.length - 1];
+            const next: bigint[] = [];
+            for (let i = 0; i < level.length; i += 2) {
+                if (i + 1 === level.length) {
+                    next.push(level[i]);
+                    continue;
+                }
+                const [low, high] = level[i] < level[i + 1] ? [level[i], level[i + 1]] : [level[i + 1], level[i]];
+                next.push(sha256(Buffer.concat([toBytes32(low), toBytes32(high)])));
+            }
+            levels.push(next);
+        }
+
+        return {
+            root: levels[levels.length - 1][0],
+            proof: (member: Address) => {
+                const proof: bigint[] = [];
+                let index = members.findIndex((m) => m.equals(member));
+                for (const level of levels.slice(0, -1)) {
+                    const sibling = index ^ 1;
+                    if (sibling < level.length) proof.push(level[sibling]);
+                    index >>= 1;
+                }
+                return proof;
+            },
+        };
+    }
+
+    const tree = merkleTree([bob, carol, dave]);
+    let marketId: bigint;
+
+    vm.beforeEach(async () => {
+        await deploy();
+        ({ marketId } = await market.createMarket(alice, { closeBlock: END_BLOCK, oracle, allowlistRoot: tree.root }));
+    });
+    vm.afterEach(dispose);
+
+    await it(vm, 'keeps markets public unless created with an allowlist', async () => {
+        const open = await market.createMarket(alice, { closeBlock: END_BLOCK, oracle });
+        Assert.expect((await market.getMarket(open.marketId)).isPrivate).toEqual(false);
+        Assert.expect((await market.isAllowlisted(open.marketId, bob)).member).toEqual(true);
+        await bet(bob, open.marketId, OUTCOME_YES, 1_000n);
+
+        const state = await market.getMarket(marketId);
+        Assert.expect(state.isPrivate).toEqual(true);
+        Assert.expect(state.allowlistRoot).toEqual(tree.root);
+        await Assert.expect(async () => {
+            await market.setAllowlistRoot(alice, open.marketId, tree.root);
+        }).toThrow('Market is not private');
+    });
+
+    await it(vm, 'rejects bets until the bettor joins with a valid proof', async () => {
+        await Assert.expect(async () => {
+            await bet(bob, marketId, OUTCOME_YES, 1_000n);
+        }).toThrow('Bettor is not on the market allowlist');
+
+        Assert.expect((await market.isAllowlisted(marketId, bob, tree.proof(bob))).proofValid).toEqual(true);
+        await market.joinMarket(bob, marketId, tree.proof(bob));
+        Assert.expect((await market.isAllowlisted(marketId, bob)).member).toEqual(true);
+
+        await bet(bob, marketId, OUTCOME_YES, 1_000n);
+        Assert.expect((await market.getMarket(marketId)).yesPool).toEqual(1_000n);
+    });
+
+    await it(vm, 'rejects proofs for addresses outside the allowlist', async () => {
+        Assert.expect((await market.isAllowlisted(marketId, alice, tree.proof(bob))).proofValid).toEqual(false);
+        await Assert.expect(async () => {
+            await market.joinMarket(alice, marketId, tree.proof(bob));
+        }).toThrow('Not on the market allowlist');
+        await Assert.expect(async () => {
+            await market.joinMarket(bob, marketId, new Array<bigint>(33).fill(1n));
+        }).toThrow('Allowlist proof is too long');
+    });
+
+    await it(vm, 'revokes joins made under a replaced root', async () => {
+        await market.joinMarket(dave, marketId, tree.proof(dave));
+        await Assert.expect(async () => {
+            await market.setAllowlistRoot(bob, marketId, 0n);
+        }).toThrow('Only the creator can manage the allowlist');
+
+        const next = merkleTree([bob, carol]);
+        await market.setAllowlistRoot(alice, marketId, next.root);
+        Assert.expect((await market.isAllowlisted(marketId, dave)).member).toEqual(false);
+        await Assert.expect(async () => {
+            await bet(dave, marketId, OUTCOME_YES, 1_000n);
+        }).toThrow('Bettor is not on the market allowlist');
+
+        await market.joinMarket(carol, marketId, next.proof(carol));
+        await bet(carol, marketId, OUTCOME_NO, 1_000n);
+    });
+
+    await it(vm, 'lets the creator allow and remove addresses explicitly', async () => {
+        const listed = await market.createMarket(alice, { closeBlock: END_BLOCK, oracle, allowlist: [bob] });
+        Assert.expect((await market.getMarket(listed.marketId)).isPrivate).toEqual(true);
+        await bet(bob, listed.marketId, OUTCOME_YES, 1_000n);
+
+        await market.setAllowlistMembers(alice, listed.marketId, [bob], false);
+        await Assert.expect(async () => {
+            await bet(bob, listed.marketId, OUTCOME_YES, 1_000n);
+        }).toThrow('Bettor is not on the market allowlist');
+        await Assert.expect(async () => {
+            await market.joinMarket(bob, listed.marketId, tree.proof(bob));
+        }).toThrow('Market has no allowlist root');
+
+        await market.setAllowlistMembers(alice, listed.marketId, [carol], true);
+        await bet(carol, listed.marketId, OUTCOME_NO, 1_000n);
+    });
+
+    await it(vm, 'transfers positions only to allowlist members', async () => {
+        await market.joinMarket(bob, marketId, tree.proof(bob));
+        await bet(bob, marketId, OUTCOME_YES, 1_000n);
+
+        for (const recipient of [alice, dave]) {
+            await Assert.expect(async () => {
+                await market.transferPosition(bob, marketId, OUTCOME_YES, recipient, 500n);
+            }).toThrow('Recipient is not on the market allowlist');
+        }
+
+        await market.joinMarket(dave, marketId, tree.proof(dave));
+        await market.transferPosition(bob, marketId, OUTCOME_YES, dave, 500n);
+        await resolve(marketId, OUTCOME_YES);
+        Assert.expect((await market.claimWinnings(dave, marketId)).payout).toEqual(500n);
+    });
+});
@@ -0,0 +1,54 @@
+import { u256 } from '@btc-vision/as-bignum/assembly';
+import {
+    Address,
+    Blockchain,
+    BytesWriter,
+    Calldata,
+    encodeSelector,
+    OP20,
+    OP20InitParameters,
+    Selector,
+} from '@btc-vision/btc-runtime/runtime';
+
+/**
+ * Collateral token for the test suite: a plain OP20 whose deployer can mint,
+ * so bettors can be funded before they approve the market contract.
+ */
+@final
+export class TestToken extends OP20 {
+    private readonly mintSelector: Selector = encodeSelector('mint(address,uint256)');
+
+    public constructor() {
+        super();
+    }
+
+    public override onDeployment(_calldata: Calldata): void {
+        this.instantiate(new OP20InitParameters(u256.Max, 8, 'Test Collateral', 'TEST'));
+    }
+
+    public callMethod(calldata: Calldata): BytesWriter {
+        const selector: Selector = calldata.readSelector();
+
+        switch (selector) {
+            case this.mintSelector:
+                return this.mint(calldata);
+            default:
+                return super.callMethod(calldata);
+        }
+    }
+
+    @method(
+        { name: 'to', type: ABIDataTypes.ADDRESS },
+        { name: 'amount', type: ABIDataTypes.UINT256 },
+    )
+    @emit('Minted')
+    public mint(calldata: Calldata): BytesWriter {
+        this.onlyDeployer(Blockchain.tx.sender);
+
+        const to: Address = calldata.readAddress();
+        const amount: u256 = calldata.readU256();
+        this._mint(to, amount);
+
+        return new BytesWriter(0);
+    }
+}
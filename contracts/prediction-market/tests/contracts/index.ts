@@ -0,0 +1,13 @@
+import { Blockchain } from '@btc-vision/btc-runtime/runtime';
+import { TestToken } from './TestToken';
+import { revertOnError } from '@btc-vision/btc-runtime/runtime/abort/abort';
+
+Blockchain.contract = (): TestToken => {
+    return new TestToken();
+};
+
+export * from '@btc-vision/btc-runtime/runtime/exports';
+
+export function abort(message: string, fileName: string, line: u32, column: u32): void {
+    revertOnError(message, fileName, line, column);
+}
@@ -0,0 +1,675 @@
+import { Address, BinaryReader, BinaryWriter, NetEvent } from '@btc-vision/transaction';
+import { BytecodeManager, CallResponse, ContractRuntime } from '@btc-vision/unit-test-framework';
+
+export const OUTCOME_YES = 1n;
+export const OUTCOME_NO = 2n;
+
+export const STATUS_OPEN = 1n;
+export const STATUS_RESOLVED = 2n;
+export const STATUS_PROPOSED = 4n;
+
+/** Blocks an unchallenged proposal waits before it can be finalized (contract default). */
+export const DEFAULT_DISPUTE_WINDOW = 144n;
+
+/** Blocks after resolveAfterBlock before the fallback oracle or owner may resolve (contract default). */
+export const DEFAULT_RESOLUTION_TIMEOUT = 432n;
+
+// Who resolved a market, as recorded in MarketResolved and getMarket
+export const RESOLVED_BY_ORACLE = 1;
+export const RESOLVED_BY_FALLBACK_ORACLE = 4;
+export const RESOLVED_BY_OWNER = 5;
+
+/** Blocks unstaked oracle collateral stays slashable before withdrawal. */
+export const ORACLE_UNBONDING_BLOCKS = 2016n;
+
+/** Share of an overturned oracle's stake that is slashed, in basis points. */
+export const ORACLE_DISPUTE_SLASH_BPS = 1000n;
+
+/** Collateral a challenger posts when disputing (contract default). */
+export const DEFAULT_DISPUTE_BOND = 100_000n;
+
+export const ZERO_ADDRESS = new Address(new Uint8Array(32));
+
+export interface CreateMarketParams {
+    readonly closeBlock: bigint;
+    /** Defaults to closeBlock. */
+    readonly resolveAfterBlock?: bigint;
+    readonly question?: string;
+    /** Zero (the default) makes the creator the oracle. */
+    readonly oracle?: Address;
+    /** Zero (the default) leaves only the owner to resolve after the timeout. */
+    readonly fallbackOracle?: Address;
+    readonly creatorFeeBps?: bigint;
+    readonly committee?: Address[];
+    readonly threshold?: bigint;
+    /** The creator's hash of the off-chain metadata; the contract derives the content hash from it. */
+    readonly metadataHash?: bigint;
+    /** A non-zero root or a non-empty allowlist makes the market private. */
+    readonly allowlistRoot?: bigint;
+    readonly allowlist?: Address[];
+}
+
+export interface CreateCategoricalMarketParams extends CreateMarketParams {
+    /** Between 3 and 16 labels. */
+    readonly outcomes: string[];
+}
+
+export interface CreateScalarMarketParams {
+    readonly closeBlock: bigint;
+    /** Defaults to closeBlock. */
+    readonly resolveAfterBlock?: bigint;
+    readonly lowerBound: bigint;
+    readonly upperBound: bigint;
+    readonly question?: string;
+    /** Zero (the default) makes the creator the oracle. */
+    readonly oracle?: Address;
+    /** Zero (the default) leaves only the owner to resolve after the timeout. */
+    readonly fallbackOracle?: Address;
+    readonly creatorFeeBps?: bigint;
+    /** The creator's hash of the off-chain metadata; the contract derives the content hash from it. */
+    readonly metadataHash?: bigint;
+}
+
+/** Decoded getMarket response. Addresses come back as u256. */
+export interface MarketState {
+    readonly creator: bigint;
+    readonly closeBlock: bigint;
+    readonly resolveAfterBlock: bigint;
+    readonly oracle: bigint;
+    readonly status: bigint;
+    readonly outcome: bigint;
+    readonly yesPool: bigint;
+    readonly noPool: bigint;
+    readonly outcomeCount: bigint;
+    readonly protocolFeeBps: bigint;
+    readonly creatorFeeBps: bigint;
+    readonly protocolFee: bigint;
+    readonly creatorFee: bigint;
+    readonly committeeSize: bigint;
+    readonly exitSpread: bigint;
+    readonly contentHash: bigint;
+    /** Scalar markets only; both are zero otherwise. */
+    readonly lowerBound: bigint;
+    readonly upperBound: bigint;
+    readonly fallbackOracle: bigint;
+    /** Block from which the fallback oracle or owner may resolve. */
+    readonly timeoutBlock: bigint;
+    /** Who proposed or ruled on the outcome; zero until then. */
+    readonly resolvedBy: number;
+    readonly isPrivate: boolean;
+    readonly allowlistRoot: bigint;
+}
+
+/** Decoded isAllowlisted response. */
+export interface AllowlistState {
+    readonly isPrivate: boolean;
+    readonly member: boolean;
+    readonly proofValid: boolean;
+}
+
+/** Decoded getOracle response. registeredAt is zero for unregistered addresses. */
+export interface OracleState {
+    readonly stake: bigint;
+    readonly unstaking: bigint;
+    readonly unlockBlock: bigint;
+    readonly slashed: bigint;
+    readonly profileHash: bigint;
+    readonly registeredAt: bigint;
+    readonly marketCount: bigint;
+}
+
+export interface MarketCreatedEvent {
+    readonly marketId: bigint;
+    readonly creator: Address;
+    readonly closeBlock: bigint;
+    readonly resolveAfterBlock: bigint;
+}
+
+export interface BetPlacedEvent {
+    readonly marketId: bigint;
+    readonly bettor: Address;
+    readonly outcome: bigint;
+    readonly amount: bigint;
+}
+
+export interface OutcomeProposedEvent {
+    readonly marketId: bigint;
+    readonly outcome: bigint;
+    readonly disputeEndBlock: bigint;
+}
+
+export interface MarketResolvedEvent {
+    readonly marketId: bigint;
+    readonly outcome: bigint;
+    readonly resolvedBy: number;
+}
+
+export interface WinningsClaimedEvent {
+    readonly marketId: bigint;
+    readonly claimant: Address;
+    readonly amount: bigint;
+}
+
+export interface OracleSlashedEvent {
+    readonly oracle: Address;
+    readonly amount: bigint;
+    /** Zero for owner slashes. */
+    readonly marketId: bigint;
+}
+
+/** Test wrapper around build/PredictionMarket.wasm. Every write takes the sender it runs as. */
+export class PredictionMarketRuntime extends ContractRuntime {
+    private readonly createMarketSelector = this.getSelector(
+        'createMarket(string,uint64,uint64,address,address,uint256,address[],uint256,uint256,uint256,address[])',
+    );
+    private readonly createCategoricalMarketSelector = this.getSelector(
+        'createCategoricalMarket(string,uint64,uint64,address,address,uint256,address[],uint256,uint256,uint256,address[],string[])',
+    );
+    private readonly createScalarMarketSelector = this.getSelector(
+        'createScalarMarket(string,uint64,uint64,address,address,uint256,uint256,uint256,address[],uint256,uint256)',
+    );
+    private readonly placeBetSelector = this.getSelector('placeBet(uint256,uint256,uint256)');
+    private readonly resolveMarketSelector = this.getSelector('resolveMarket(uint256,uint256)');
+    private readonly resolveScalarMarketSelector = this.getSelector('resolveScalarMarket(uint256,uint256)');
+    private readonly setPriceTargetSelector = this.getSelector('setPriceTarget(uint256,uint256)');
+    private readonly resolveWithPriceSelector = this.getSelector(
+        'resolveWithPrice(uint256,uint256,uint64,extendedAddress,bytes)',
+    );
+    private readonly finalizeMarketSelector = this.getSelector('finalizeMarket(uint256)');
+    private readonly disputeOutcomeSelector = this.getSelector('disputeOutcome(uint256,uint256)');
+    private readonly ruleDisputeSelector = this.getSelector('ruleDispute(uint256,uint256)');
+    private readonly sellPositionSelector = this.getSelector('sellPosition(uint256,uint256,uint256,uint256)');
+    private readonly quoteSellSelector = this.getSelector('quoteSell(uint256,uint256,uint256)');
+    private readonly transferPositionSelector = this.getSelector('transferPosition(uint256,uint256,address,uint256)');
+    private readonly claimWinningsSelector = this.getSelector('claimWinnings(uint256)');
+    private readonly setPausedSelector = this.getSelector('setPaused(bool,bool)');
+    private readonly setMaxMarketsSelector = this.getSelector('setMaxMarkets(uint256)');
+    private readonly setMinBetSelector = this.getSelector('setMinBet(uint256)');
+    private readonly setProtocolFeeSelector = this.getSelector('setProtocolFee(uint256)');
+    private readonly setResolutionTimeoutSelector = this.getSelector('setResolutionTimeout(uint64)');
+    private readonly setPriceSignerSelector = this.getSelector('setPriceSigner(extendedAddress,bool)');
+    private readonly isPriceSignerSelector = this.getSelector('isPriceSigner(extendedAddress)');
+    private readonly getMarketSelector = this.getSelector('getMarket(uint256)');
+    private readonly getMarketCountSelector = this.getSelector('getMarketCountView()');
+    private readonly registerOracleSelector = this.getSelector('registerOracle(uint256,uint256)');
+    private readonly unstakeOracleSelector = this.getSelector('unstakeOracle(uint256)');
+    private readonly withdrawOracleStakeSelector = this.getSelector('withdrawOracleStake()');
+    private readonly slashOracleSelector = this.getSelector('slashOracle(address,uint256)');
+    private readonly setMinOracleStakeSelector = this.getSelector('setMinOracleStake(uint256)');
+    private readonly getOracleSelector = this.getSelector('getOracle(address)');
+    private readonly setAllowlistRootSelector = this.getSelector('setAllowlistRoot(uint256,uint256)');
+    private readonly setAllowlistMembersSelector = this.getSelector('setAllowlistMembers(uint256,address[],bool)');
+    private readonly joinMarketSelector = this.getSelector('joinMarket(uint256,uint256[])');
+    private readonly isAllowlistedSelector = this.getSelector('isAllowlisted(uint256,address,uint256[])');
+
+    public constructor(address: Address, deployer: Address, collateralToken: Address) {
+        const deployment = new BinaryWriter();
+        deployment.writeAddress(collateralToken);
+
+        super({
+            address,
+            deployer,
+            deploymentCalldata: Buffer.from(deployment.getBuffer()),
+        });
+    }
+
+    public static decodeMarketCreatedEvent(data: Uint8Array): MarketCreatedEvent {
+        const reader = new BinaryReader(data);
+        return {
+            marketId: reader.readU256(),
+            creator: reader.readAddress(),
+            closeBlock: reader.readU64(),
+            resolveAfterBlock: reader.readU64(),
+        };
+    }
+
+    public static decodeBetPlacedEvent(data: Uint8Array): BetPlacedEvent {
+        const reader = new BinaryReader(data);
+        return {
+            marketId: reader.readU256(),
+            bettor: reader.readAddress(),
+            outcome: reader.readU256(),
+            amount: reader.readU256(),
+        };
+    }
+
+    public static decodeOutcomeProposedEvent(data: Uint8Array): OutcomeProposedEvent {
+        const reader = new BinaryReader(data);
+        return { marketId: reader.readU256(), outcome: reader.readU256(), disputeEndBlock: reader.readU64() };
+    }
+
+    public static decodeMarketResolvedEvent(data: Uint8Array): MarketResolvedEvent {
+        const reader = new BinaryReader(data);
+        return { marketId: reader.readU256(), outcome: reader.readU256(), resolvedBy: reader.readU8() };
+    }
+
+    public static decodeWinningsClaimedEvent(data: Uint8Array): WinningsClaimedEvent {
+        const reader = new BinaryReader(data);
+        return { marketId: reader.readU256(), claimant: reader.readAddress(), amount: reader.readU256() };
+    }
+
+    public static decodeOracleSlashedEvent(data: Uint8Array): OracleSlashedEvent {
+        const reader = new BinaryReader(data);
+        return { oracle: reader.readAddress(), amount: reader.readU256(), marketId: reader.readU256() };
+    }
+
+    /** The single event of `type` a call emitted; throws if there is none or more than one. */
+    public static findEvent(response: CallResponse, type: string): NetEvent {
+        const matches = response.events.filter((event) => event.type === type);
+        if (matches.length !== 1) {
+            throw new Error(`Expected one ${type} event, got ${matches.length}`);
+        }
+        return matches[0];
+    }
+
+    public async createMarket(
+        sender: Address,
+        params: CreateMarketParams,
+    ): Promise<{ marketId: bigint; response: CallResponse }> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.createMarketSelector);
+        calldata.writeStringWithLength(params.question ?? 'Will BTC close above $100,000?');
+        calldata.writeU64(params.closeBlock);
+        calldata.writeU64(params.resolveAfterBlock ?? params.closeBlock);
+        calldata.writeAddress(params.oracle ?? ZERO_ADDRESS);
+        calldata.writeAddress(params.fallbackOracle ?? ZERO_ADDRESS);
+        calldata.writeU256(params.creatorFeeBps ?? 0n);
+        calldata.writeAddressArray(params.committee ?? []);
+        calldata.writeU256(params.threshold ?? 0n);
+        calldata.writeU256(params.metadataHash ?? 1n);
+        calldata.writeU256(params.allowlistRoot ?? 0n);
+        calldata.writeAddressArray(params.allowlist ?? []);
+
+        const response = await this.send(sender, calldata);
+        return { marketId: new BinaryReader(response.response).readU256(), response };
+    }
+
+    public async createCategoricalMarket(
+        sender: Address,
+        params: CreateCategoricalMarketParams,
+    ): Promise<{ marketId: bigint; response: CallResponse }> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.createCategoricalMarketSelector);
+        calldata.writeStringWithLength(params.question ?? 'Which chain settles the most volume this year?');
+        calldata.writeU64(params.closeBlock);
+        calldata.writeU64(params.resolveAfterBlock ?? params.closeBlock);
+        calldata.writeAddress(params.oracle ?? ZERO_ADDRESS);
+        calldata.writeAddress(params.fallbackOracle ?? ZERO_ADDRESS);
+        calldata.writeU256(params.creatorFeeBps ?? 0n);
+        calldata.writeAddressArray(params.committee ?? []);
+        calldata.writeU256(params.threshold ?? 0n);
+        calldata.writeU256(params.metadataHash ?? 1n);
+        calldata.writeU256(params.allowlistRoot ?? 0n);
+        calldata.writeAddressArray(params.allowlist ?? []);
+        calldata.writeU16(params.outcomes.length);
+        for (const label of params.outcomes) {
+            calldata.writeStringWithLength(label);
+        }
+
+        const response = await this.send(sender, calldata);
+        return { marketId: new BinaryReader(response.response).readU256(), response };
+    }
+
+    public async createScalarMarket(
+        sender: Address,
+        params: CreateScalarMarketParams,
+    ): Promise<{ marketId: bigint; response: CallResponse }> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.createScalarMarketSelector);
+        calldata.writeStringWithLength(params.question ?? 'Where will BTC close?');
+        calldata.writeU64(params.closeBlock);
+        calldata.writeU64(params.resolveAfterBlock ?? params.closeBlock);
+        calldata.writeAddress(params.oracle ?? ZERO_ADDRESS);
+        calldata.writeAddress(params.fallbackOracle ?? ZERO_ADDRESS);
+        calldata.writeU256(params.creatorFeeBps ?? 0n);
+        calldata.writeU256(params.metadataHash ?? 1n);
+        calldata.writeU256(0n);
+        calldata.writeAddressArray([]);
+        calldata.writeU256(params.lowerBound);
+        calldata.writeU256(params.upperBound);
+
+        const response = await this.send(sender, calldata);
+        return { marketId: new BinaryReader(response.response).readU256(), response };
+    }
+
+    public async placeBet(sender: Address, marketId: bigint, outcome: bigint, amount: bigint): Promise<CallResponse> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.placeBetSelector);
+        calldata.writeU256(marketId);
+        calldata.writeU256(outcome);
+        calldata.writeU256(amount);
+        return this.send(sender, calldata);
+    }
+
+    public async resolveMarket(sender: Address, marketId: bigint, outcome: bigint): Promise<CallResponse> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.resolveMarketSelector);
+        calldata.writeU256(marketId);
+        calldata.writeU256(outcome);
+        return this.send(sender, calldata);
+    }
+
+    public async resolveScalarMarket(sender: Address, marketId: bigint, value: bigint): Promise<CallResponse> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.resolveScalarMarketSelector);
+        calldata.writeU256(marketId);
+        calldata.writeU256(value);
+        return this.send(sender, calldata);
+    }
+
+    public async setPriceTarget(sender: Address, marketId: bigint, targetPrice: bigint): Promise<CallResponse> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.setPriceTargetSelector);
+        calldata.writeU256(marketId);
+        calldata.writeU256(targetPrice);
+        return this.send(sender, calldata);
+    }
+
+    public async resolveWithPrice(
+        sender: Address,
+        marketId: bigint,
+        price: bigint,
+        observedBlock: bigint,
+        signer: Address,
+        signature: Uint8Array,
+    ): Promise<CallResponse> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.resolveWithPriceSelector);
+        calldata.writeU256(marketId);
+        calldata.writeU256(price);
+        calldata.writeU64(observedBlock);
+        calldata.writeExtendedAddress(signer);
+        calldata.writeBytesWithLength(signature);
+        return this.send(sender, calldata);
+    }
+
+    public async finalizeMarket(sender: Address, marketId: bigint): Promise<CallResponse> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.finalizeMarketSelector);
+        calldata.writeU256(marketId);
+        return this.send(sender, calldata);
+    }
+
+    public async disputeOutcome(sender: Address, marketId: bigint, outcome: bigint): Promise<CallResponse> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.disputeOutcomeSelector);
+        calldata.writeU256(marketId);
+        calldata.writeU256(outcome);
+        return this.send(sender, calldata);
+    }
+
+    public async ruleDispute(sender: Address, marketId: bigint, outcome: bigint): Promise<CallResponse> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.ruleDisputeSelector);
+        calldata.writeU256(marketId);
+        calldata.writeU256(outcome);
+        return this.send(sender, calldata);
+    }
+
+    public async sellPosition(
+        sender: Address,
+        marketId: bigint,
+        outcome: bigint,
+        shares: bigint,
+        minOut: bigint,
+    ): Promise<{ amountOut: bigint; response: CallResponse }> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.sellPositionSelector);
+        calldata.writeU256(marketId);
+        calldata.writeU256(outcome);
+        calldata.writeU256(shares);
+        calldata.writeU256(minOut);
+
+        const response = await this.send(sender, calldata);
+        return { amountOut: new BinaryReader(response.response).readU256(), response };
+    }
+
+    public async quoteSell(marketId: bigint, outcome: bigint, shares: bigint): Promise<bigint> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.quoteSellSelector);
+        calldata.writeU256(marketId);
+        calldata.writeU256(outcome);
+        calldata.writeU256(shares);
+
+        const result = await this.executeThrowOnError({ calldata: calldata.getBuffer(), saveStates: false });
+        return new BinaryReader(result.response).readU256();
+    }
+
+    public async transferPosition(
+        sender: Address,
+        marketId: bigint,
+        outcome: bigint,
+        to: Address,
+        shares: bigint,
+    ): Promise<CallResponse> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.transferPositionSelector);
+        calldata.writeU256(marketId);
+        calldata.writeU256(outcome);
+        calldata.writeAddress(to);
+        calldata.writeU256(shares);
+        return this.send(sender, calldata);
+    }
+
+    public async claimWinnings(sender: Address, marketId: bigint): Promise<{ payout: bigint; response: CallResponse }> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.claimWinningsSelector);
+        calldata.writeU256(marketId);
+
+        const response = await this.send(sender, calldata);
+        return { payout: new BinaryReader(response.response).readU256(), response };
+    }
+
+    public async setPaused(sender: Address, bettingPaused: boolean, creationPaused: boolean): Promise<CallResponse> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.setPausedSelector);
+        calldata.writeBoolean(bettingPaused);
+        calldata.writeBoolean(creationPaused);
+        return this.send(sender, calldata);
+    }
+
+    public async setMaxMarkets(sender: Address, maxMarkets: bigint): Promise<CallResponse> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.setMaxMarketsSelector);
+        calldata.writeU256(maxMarkets);
+        return this.send(sender, calldata);
+    }
+
+    public async setMinBet(sender: Address, minBet: bigint): Promise<CallResponse> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.setMinBetSelector);
+        calldata.writeU256(minBet);
+        return this.send(sender, calldata);
+    }
+
+    public async setProtocolFee(sender: Address, feeBps: bigint): Promise<CallResponse> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.setProtocolFeeSelector);
+        calldata.writeU256(feeBps);
+        return this.send(sender, calldata);
+    }
+
+    public async setResolutionTimeout(sender: Address, blocks: bigint): Promise<CallResponse> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.setResolutionTimeoutSelector);
+        calldata.writeU64(blocks);
+        return this.send(sender, calldata);
+    }
+
+    public async setPriceSigner(sender: Address, signer: Address, approved: boolean): Promise<CallResponse> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.setPriceSignerSelector);
+        calldata.writeExtendedAddress(signer);
+        calldata.writeBoolean(approved);
+        return this.send(sender, calldata);
+    }
+
+    public async isPriceSigner(signer: Address): Promise<boolean> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.isPriceSignerSelector);
+        calldata.writeExtendedAddress(signer);
+
+        const result = await this.executeThrowOnError({ calldata: calldata.getBuffer(), saveStates: false });
+        return new BinaryReader(result.response).readBoolean();
+    }
+
+    public async getMarket(marketId: bigint): Promise<MarketState> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.getMarketSelector);
+        calldata.writeU256(marketId);
+
+        const result = await this.executeThrowOnError({ calldata: calldata.getBuffer(), saveStates: false });
+        const reader = new BinaryReader(result.response);
+        return {
+            creator: reader.readU256(),
+            closeBlock: reader.readU64(),
+            resolveAfterBlock: reader.readU64(),
+            oracle: reader.readU256(),
+            status: reader.readU256(),
+            outcome: reader.readU256(),
+            yesPool: reader.readU256(),
+            noPool: reader.readU256(),
+            outcomeCount: reader.readU256(),
+            protocolFeeBps: reader.readU256(),
+            creatorFeeBps: reader.readU256(),
+            protocolFee: reader.readU256(),
+            creatorFee: reader.readU256(),
+            committeeSize: reader.readU256(),
+            exitSpread: reader.readU256(),
+            contentHash: reader.readU256(),
+            lowerBound: reader.readU256(),
+            upperBound: reader.readU256(),
+            fallbackOracle: reader.readU256(),
+            timeoutBlock: reader.readU64(),
+            resolvedBy: reader.readU8(),
+            isPrivate: reader.readBoolean(),
+            allowlistRoot: reader.readU256(),
+        };
+    }
+
+    public async setAllowlistRoot(sender: Address, marketId: bigint, root: bigint): Promise<CallResponse> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.setAllowlistRootSelector);
+        calldata.writeU256(marketId);
+        calldata.writeU256(root);
+        return this.send(sender, calldata);
+    }
+
+    public async setAllowlistMembers(
+        sender: Address,
+        marketId: bigint,
+        members: Address[],
+        allowed: boolean,
+    ): Promise<CallResponse> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.setAllowlistMembersSelector);
+        calldata.writeU256(marketId);
+        calldata.writeAddressArray(members);
+        calldata.writeBoolean(allowed);
+        return this.send(sender, calldata);
+    }
+
+    public async joinMarket(sender: Address, marketId: bigint, proof: bigint[]): Promise<CallResponse> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.joinMarketSelector);
+        calldata.writeU256(marketId);
+        calldata.writeU256Array(proof);
+        return this.send(sender, calldata);
+    }
+
+    public async isAllowlisted(marketId: bigint, account: Address, proof: bigint[] = []): Promise<AllowlistState> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.isAllowlistedSelector);
+        calldata.writeU256(marketId);
+        calldata.writeAddress(account);
+        calldata.writeU256Array(proof);
+
+        const result = await this.executeThrowOnError({ calldata: calldata.getBuffer(), saveStates: false });
+        const reader = new BinaryReader(result.response);
+        return {
+            isPrivate: reader.readBoolean(),
+            member: reader.readBoolean(),
+            proofValid: reader.readBoolean(),
+        };
+    }
+
+    public async registerOracle(sender: Address, stake: bigint, profileHash: bigint): Promise<CallResponse> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.registerOracleSelector);
+        calldata.writeU256(stake);
+        calldata.writeU256(profileHash);
+        return this.send(sender, calldata);
+    }
+
+    public async unstakeOracle(sender: Address, amount: bigint): Promise<CallResponse> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.unstakeOracleSelector);
+        calldata.writeU256(amount);
+        return this.send(sender, calldata);
+    }
+
+    public async withdrawOracleStake(sender: Address): Promise<{ amount: bigint; response: CallResponse }> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.withdrawOracleStakeSelector);
+
+        const response = await this.send(sender, calldata);
+        return { amount: new BinaryReader(response.response).readU256(), response };
+    }
+
+    public async slashOracle(sender: Address, oracle: Address, amount: bigint): Promise<CallResponse> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.slashOracleSelector);
+        calldata.writeAddress(oracle);
+        calldata.writeU256(amount);
+        return this.send(sender, calldata);
+    }
+
+    public async setMinOracleStake(sender: Address, minStake: bigint): Promise<CallResponse> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.setMinOracleStakeSelector);
+        calldata.writeU256(minStake);
+        return this.send(sender, calldata);
+    }
+
+    public async getOracle(oracle: Address): Promise<OracleState> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.getOracleSelector);
+        calldata.writeAddress(oracle);
+
+        const result = await this.executeThrowOnError({ calldata: calldata.getBuffer(), saveStates: false });
+        const reader = new BinaryReader(result.response);
+        return {
+            stake: reader.readU256(),
+            unstaking: reader.readU256(),
+            unlockBlock: reader.readU64(),
+            slashed: reader.readU256(),
+            profileHash: reader.readU256(),
+            registeredAt: reader.readU64(),
+            marketCount: reader.readU256(),
+        };
+    }
+
+    public async getMarketCount(): Promise<bigint> {
+        const calldata = new BinaryWriter();
+        calldata.writeSelector(this.getMarketCountSelector);
+
+        const result = await this.executeThrowOnError({ calldata: calldata.getBuffer(), saveStates: false });
+        return new BinaryReader(result.response).readU256();
+    }
+
+    protected handleError(error: Error): Error {
+        return new Error(`(in prediction market: ${this.address.toHex()}) OP_NET: ${error.message}`);
+    }
+
+    protected defineRequiredBytecodes(): void {
+        BytecodeManager.loadBytecode('./build/PredictionMarket.wasm', this.address);
+    }
+
+    private send(sender: Address, calldata: BinaryWriter): Promise<CallResponse> {
+        return this.executeThrowOnError({ calldata: calldata.getBuffer(), sender, txOrigin: sender });
+    }
+
+    private getSelector(signature: string): number {
+        return Number(`0x${this.abiCoder.encodeSelector(signature)}`);
+    }
+}
@@ -1,4 +1,4 @@
-import { Mnemonic, TransactionFactory, OPNetLimitedProvider } from '@btc-vision/transaction';
+import { Mnemonic, TransactionFactory, OPNetLimitedProvider, BinaryWriter } from '@btc-vision/transaction';
 import { MLDSASecurityLevel } from '@btc-vision/bip32';
 import { networks } from '@btc-vision/bitcoin';
 import { JSONRpcProvider } from 'opnet';
@@ -6,13 +6,28 @@ import * as fs from 'fs';
 import * as path from 'path';
 
 // --- Configuration ---
-const MNEMONIC = process.env.MNEMONIC;
-if (!MNEMONIC) {
-    console.error('ERROR: Set MNEMONIC environment variable or create a .env file.');
-    console.error('Run: npm run generate-wallet');
-    process.exit(1);
+/** Reads a required environment variable, printing `help` and exiting when it is unset. */
+function requireEnv(name: string, ...help: string[]): string {
+    const value = process.env[name];
+    if (!value) {
+        for (const line of help) console.error(line);
+        process.exit(1);
+    }
+    return value;
 }
 
+const MNEMONIC: string = requireEnv(
+    'MNEMONIC',
+    'ERROR: Set MNEMONIC environment variable or create a .env file.',
+    'Run: npm run generate-wallet',
+);
+
+// OP20 token used as bet collateral (contract address, e.g. opt1...)
+const COLLATERAL_TOKEN: string = requireEnv(
+    'COLLATERAL_TOKEN',
+    'ERROR: Set COLLATERAL_TOKEN to the OP20 contract address used for bets.',
+);
+
 const network = networks.opnetTestnet;
 const RPC_URL = 'https://testnet.opnet.org';
 const WASM_PATH = path.resolve('../contracts/prediction-market/build/PredictionMarket.wasm');
@@ -72,7 +87,15 @@ async function main(): Promise<void> {
     const challenge = await rpcProvider.getChallenge();
     console.log('Challenge obtained.');
 
-    // 5. Build deployment transaction
+    // 5. Encode constructor calldata (collateral token)
+    console.log('\nResolving collateral token...');
+    const collateralToken = await rpcProvider.getPublicKeyInfo(COLLATERAL_TOKEN, true);
+    console.log('Collateral token:', COLLATERAL_TOKEN);
+    const calldataWriter = new BinaryWriter();
+    calldataWriter.writeAddress(collateralToken);
+    const calldata = calldataWriter.getBuffer();
+
+    // 6. Build deployment transaction
     console.log('\nBuilding deployment transaction...');
     const factory = new TransactionFactory();
 
@@ -82,6 +105,7 @@ async function main(): Promise<void> {
         network: network,
         from: wallet.p2tr,
         bytecode: bytecode,
+        calldata: calldata,
         utxos: utxos,
         challenge: challenge,
         feeRate: 5,
@@ -94,7 +118,7 @@ async function main(): Promise<void> {
     console.log('\nContract address:', result.contractAddress);
     console.log('Contract public key:', result.contractPubKey);
 
-    // 6. Broadcast transactions
+    // 7. Broadcast transactions
     console.log('\nBroadcasting funding transaction...');
     const fundingResult = await limitedProvider.broadcastTransaction(
         result.transaction[0],
@@ -109,10 +133,11 @@ async function main(): Promise<void> {
     );
     console.log('Deployment TX:', deployResult?.result ?? 'broadcast sent');
 
-    // 7. Save result
+    // 8. Save result
     const deploymentInfo = {
         contractAddress: result.contractAddress,
         contractPubKey: result.contractPubKey,
+        collateralToken: COLLATERAL_TOKEN,
         network: 'opnetTestnet',
         deployedAt: new Date().toISOString(),
     };
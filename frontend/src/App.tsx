@@ -6,7 +6,9 @@ import { MarketDetail } from './components/market/MarketDetail';
 import { CreateMarketForm } from './components/market/CreateMarketForm';
 import { AnalyticsPage } from './components/analytics/AnalyticsPage';
 import { UserDashboard } from './components/dashboard/UserDashboard';
+import { AdminPanel } from './components/admin/AdminPanel';
 import { ThemeToggle } from './components/common/ThemeToggle';
+import { useAdminRole } from './hooks/useAdminRole';
 import { bootMarketQuestions } from './utils/marketQuestions';
 import { bootCoinList } from './utils/coinList';
 
@@ -28,6 +30,7 @@ function NavLink({ to, label }: { to: string; label: string }): React.JSX.Elemen
 
 export function App(): React.JSX.Element {
     useEffect(() => { void bootMarketQuestions(); bootCoinList(); }, []);
+    const { isOwner, isPendingOwner } = useAdminRole();
 
     return (
         <div className="min-h-screen">
@@ -46,6 +49,7 @@ export function App(): React.JSX.Element {
                         </nav>
                     </div>
                     <div className="flex items-center gap-3">
+                        {(isOwner || isPendingOwner) && <NavLink to="/admin" label="Admin" />}
                         <NavLink to="/dashboard" label="My Dashboard" />
                         <WalletButton />
                         <ThemeToggle />
@@ -61,6 +65,7 @@ export function App(): React.JSX.Element {
                     <Route path="/market/:id" element={<MarketDetail />} />
                     <Route path="/analytics" element={<AnalyticsPage />} />
                     <Route path="/how-it-works" element={<HowItWorksPage />} />
+                    <Route path="/admin" element={<AdminPage />} />
                 </Routes>
             </main>
 
@@ -105,7 +110,7 @@ function HowItWorksPage(): React.JSX.Element {
         },
         {
             title: '3. Place Your Bets',
-            description: 'Bet sats on YES or NO for any open market. Your bet is locked on-chain until the market is resolved. The odds shift as more sats flow into each side.',
+            description: 'Bet the collateral token on YES or NO for any open market. Your stake is escrowed by the contract until the market is resolved. The odds shift as more tokens flow into each side.',
         },
         {
             title: '4. Wait for Resolution',
@@ -124,7 +129,7 @@ function HowItWorksPage(): React.JSX.Element {
         },
         {
             q: 'What currency do I bet with?',
-            a: 'You bet with sats (satoshis) — the smallest unit of Bitcoin. 100,000,000 sats = 1 BTC.',
+            a: 'You bet with the OP20 collateral token the contract was deployed with. The first bet asks you to approve the contract to spend your tokens; winnings are paid out in the same token. Gas and fees are still paid in sats.',
         },
         {
             q: 'How long do blocks take?',
@@ -140,7 +145,7 @@ function HowItWorksPage(): React.JSX.Element {
         },
         {
             q: 'What happens if I bet on the losing side?',
-            a: 'Your sats go to the winners. There is no refund for losing bets — that\'s the risk and reward of prediction markets.',
+            a: 'Your stake goes to the winners. There is no refund for losing bets — that\'s the risk and reward of prediction markets.',
         },
         {
             q: 'Can I cancel a bet?',
@@ -200,3 +205,15 @@ function DashboardPage(): React.JSX.Element {
         </div>
     );
 }
+
+function AdminPage(): React.JSX.Element {
+    return (
+        <div>
+            <div className="mb-8">
+                <h1 className="text-3xl font-bold text-[var(--color-text-primary)]">Admin</h1>
+                <p className="text-[var(--color-text-secondary)] mt-1">Contract owner settings.</p>
+            </div>
+            <AdminPanel />
+        </div>
+    );
+}
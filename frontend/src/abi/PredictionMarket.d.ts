@@ -0,0 +1,1020 @@
+import { Address, AddressMap, ExtendedAddressMap, SchnorrSignature } from '@btc-vision/transaction';
+import { CallResult, OPNetEvent, IOP_NETContract } from 'opnet';
+
+// ------------------------------------------------------------------
+// Event Definitions
+// ------------------------------------------------------------------
+export type MarketCreatedEvent = {
+    readonly marketId: bigint;
+    readonly creator: Address;
+    readonly closeBlock: bigint;
+    readonly resolveAfterBlock: bigint;
+};
+export type BetPlacedEvent = {
+    readonly marketId: bigint;
+    readonly bettor: Address;
+    readonly outcome: bigint;
+    readonly amount: bigint;
+};
+export type MarketResolvedEvent = {
+    readonly marketId: bigint;
+    readonly outcome: bigint;
+    readonly resolvedBy: number;
+};
+export type WinningsClaimedEvent = {
+    readonly marketId: bigint;
+    readonly claimant: Address;
+    readonly amount: bigint;
+};
+export type MarketCancelledEvent = {
+    readonly marketId: bigint;
+    readonly cancelledBy: Address;
+};
+export type RefundClaimedEvent = {
+    readonly marketId: bigint;
+    readonly claimant: Address;
+    readonly amount: bigint;
+};
+export type FeesAccruedEvent = {
+    readonly marketId: bigint;
+    readonly protocolFee: bigint;
+    readonly creatorFee: bigint;
+};
+export type FeesWithdrawnEvent = {
+    readonly recipient: Address;
+    readonly amount: bigint;
+};
+export type ProtocolFeeUpdatedEvent = {
+    readonly feeBps: bigint;
+};
+export type PauseUpdatedEvent = {
+    readonly bettingPaused: boolean;
+    readonly creationPaused: boolean;
+};
+export type OwnershipTransferStartedEvent = {
+    readonly owner: Address;
+    readonly pendingOwner: Address;
+};
+export type OwnershipTransferredEvent = {
+    readonly previousOwner: Address;
+    readonly newOwner: Address;
+};
+export type MaxMarketsUpdatedEvent = {
+    readonly maxMarkets: bigint;
+};
+export type MinBetUpdatedEvent = {
+    readonly minBet: bigint;
+};
+export type PriceTargetSetEvent = {
+    readonly marketId: bigint;
+    readonly targetPrice: bigint;
+};
+export type PriceSignerSetEvent = {
+    readonly signerKey: bigint;
+    readonly approved: boolean;
+};
+export type PriceAttestedEvent = {
+    readonly marketId: bigint;
+    readonly price: bigint;
+    readonly observedBlock: bigint;
+    readonly signerKey: bigint;
+};
+export type OutcomeProposedEvent = {
+    readonly marketId: bigint;
+    readonly outcome: bigint;
+    readonly disputeEndBlock: bigint;
+};
+export type OutcomeDisputedEvent = {
+    readonly marketId: bigint;
+    readonly disputer: Address;
+    readonly outcome: bigint;
+    readonly bond: bigint;
+};
+export type DisputeRuledEvent = {
+    readonly marketId: bigint;
+    readonly outcome: bigint;
+    readonly disputerWon: boolean;
+};
+export type OracleVotedEvent = {
+    readonly marketId: bigint;
+    readonly oracle: Address;
+    readonly outcome: bigint;
+};
+export type PositionSoldEvent = {
+    readonly marketId: bigint;
+    readonly seller: Address;
+    readonly outcome: bigint;
+    readonly shares: bigint;
+    readonly amountOut: bigint;
+};
+export type PositionTransferredEvent = {
+    readonly marketId: bigint;
+    readonly from: Address;
+    readonly to: Address;
+    readonly outcome: bigint;
+    readonly shares: bigint;
+};
+export type PositionOperatorSetEvent = {
+    readonly owner: Address;
+    readonly operator: Address;
+    readonly approved: boolean;
+};
+export type OracleRegisteredEvent = {
+    readonly oracle: Address;
+    readonly stake: bigint;
+    readonly profileHash: bigint;
+};
+export type OracleUnstakedEvent = {
+    readonly oracle: Address;
+    readonly amount: bigint;
+    readonly unlockBlock: bigint;
+};
+export type OracleStakeWithdrawnEvent = {
+    readonly oracle: Address;
+    readonly amount: bigint;
+};
+export type OracleSlashedEvent = {
+    readonly oracle: Address;
+    readonly amount: bigint;
+    readonly marketId: bigint;
+};
+export type MinOracleStakeUpdatedEvent = {
+    readonly minStake: bigint;
+};
+export type AllowlistRootUpdatedEvent = {
+    readonly marketId: bigint;
+    readonly root: bigint;
+};
+export type AllowlistMemberSetEvent = {
+    readonly marketId: bigint;
+    readonly member: Address;
+    readonly allowed: boolean;
+};
+export type MarketJoinedEvent = {
+    readonly marketId: bigint;
+    readonly member: Address;
+    readonly root: bigint;
+};
+
+// ------------------------------------------------------------------
+// Call Results
+// ------------------------------------------------------------------
+
+/**
+ * @description Represents the result of the createMarket function call.
+ */
+export type CreateMarket = CallResult<
+    {
+        marketId: bigint;
+    },
+    (OPNetEvent<MarketCreatedEvent> | OPNetEvent<AllowlistMemberSetEvent>)[]
+>;
+
+/**
+ * @description Represents the result of the createCategoricalMarket function call.
+ */
+export type CreateCategoricalMarket = CallResult<
+    {
+        marketId: bigint;
+    },
+    (OPNetEvent<MarketCreatedEvent> | OPNetEvent<AllowlistMemberSetEvent>)[]
+>;
+
+/**
+ * @description Represents the result of the createScalarMarket function call.
+ */
+export type CreateScalarMarket = CallResult<
+    {
+        marketId: bigint;
+    },
+    (OPNetEvent<MarketCreatedEvent> | OPNetEvent<AllowlistMemberSetEvent>)[]
+>;
+
+/**
+ * @description Represents the result of the placeBet function call.
+ */
+export type PlaceBet = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<BetPlacedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the resolveMarket function call.
+ */
+export type ResolveMarket = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<OutcomeProposedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the resolveScalarMarket function call.
+ */
+export type ResolveScalarMarket = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<OutcomeProposedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the setPriceTarget function call.
+ */
+export type SetPriceTarget = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<PriceTargetSetEvent>[]
+>;
+
+/**
+ * @description Represents the result of the resolveWithPrice function call.
+ */
+export type ResolveWithPrice = CallResult<
+    {
+        outcome: bigint;
+    },
+    (OPNetEvent<PriceAttestedEvent> | OPNetEvent<OutcomeProposedEvent>)[]
+>;
+
+/**
+ * @description Represents the result of the voteOutcome function call.
+ */
+export type VoteOutcome = CallResult<
+    {
+        success: boolean;
+    },
+    (OPNetEvent<OracleVotedEvent> | OPNetEvent<OutcomeProposedEvent>)[]
+>;
+
+/**
+ * @description Represents the result of the disputeOutcome function call.
+ */
+export type DisputeOutcome = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<OutcomeDisputedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the finalizeMarket function call.
+ */
+export type FinalizeMarket = CallResult<
+    {
+        success: boolean;
+    },
+    (OPNetEvent<MarketResolvedEvent> | OPNetEvent<FeesAccruedEvent>)[]
+>;
+
+/**
+ * @description Represents the result of the ruleDispute function call.
+ */
+export type RuleDispute = CallResult<
+    {
+        success: boolean;
+    },
+    (OPNetEvent<DisputeRuledEvent> | OPNetEvent<OracleSlashedEvent> | OPNetEvent<MarketResolvedEvent> | OPNetEvent<FeesAccruedEvent>)[]
+>;
+
+/**
+ * @description Represents the result of the sellPosition function call.
+ */
+export type SellPosition = CallResult<
+    {
+        amountOut: bigint;
+    },
+    OPNetEvent<PositionSoldEvent>[]
+>;
+
+/**
+ * @description Represents the result of the transferPosition function call.
+ */
+export type TransferPosition = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<PositionTransferredEvent>[]
+>;
+
+/**
+ * @description Represents the result of the transferPositionFrom function call.
+ */
+export type TransferPositionFrom = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<PositionTransferredEvent>[]
+>;
+
+/**
+ * @description Represents the result of the setPositionOperator function call.
+ */
+export type SetPositionOperator = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<PositionOperatorSetEvent>[]
+>;
+
+/**
+ * @description Represents the result of the claimWinnings function call.
+ */
+export type ClaimWinnings = CallResult<
+    {
+        amount: bigint;
+    },
+    OPNetEvent<WinningsClaimedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the cancelMarket function call.
+ */
+export type CancelMarket = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<MarketCancelledEvent>[]
+>;
+
+/**
+ * @description Represents the result of the claimRefund function call.
+ */
+export type ClaimRefund = CallResult<
+    {
+        amount: bigint;
+    },
+    OPNetEvent<RefundClaimedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the setCancelGracePeriod function call.
+ */
+export type SetCancelGracePeriod = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the setResolutionTimeout function call.
+ */
+export type SetResolutionTimeout = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the setProtocolFee function call.
+ */
+export type SetProtocolFee = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<ProtocolFeeUpdatedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the withdrawFees function call.
+ */
+export type WithdrawFees = CallResult<
+    {
+        amount: bigint;
+    },
+    OPNetEvent<FeesWithdrawnEvent>[]
+>;
+
+/**
+ * @description Represents the result of the setDisputeWindow function call.
+ */
+export type SetDisputeWindow = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the setDisputeBond function call.
+ */
+export type SetDisputeBond = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the setArbitrator function call.
+ */
+export type SetArbitrator = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the setPaused function call.
+ */
+export type SetPaused = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<PauseUpdatedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the transferOwnership function call.
+ */
+export type TransferOwnership = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<OwnershipTransferStartedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the acceptOwnership function call.
+ */
+export type AcceptOwnership = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<OwnershipTransferredEvent>[]
+>;
+
+/**
+ * @description Represents the result of the setMaxMarkets function call.
+ */
+export type SetMaxMarkets = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<MaxMarketsUpdatedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the setMinBet function call.
+ */
+export type SetMinBet = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<MinBetUpdatedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the setPriceSigner function call.
+ */
+export type SetPriceSigner = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<PriceSignerSetEvent>[]
+>;
+
+/**
+ * @description Represents the result of the registerOracle function call.
+ */
+export type RegisterOracle = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<OracleRegisteredEvent>[]
+>;
+
+/**
+ * @description Represents the result of the unstakeOracle function call.
+ */
+export type UnstakeOracle = CallResult<
+    {
+        unlockBlock: bigint;
+    },
+    OPNetEvent<OracleUnstakedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the withdrawOracleStake function call.
+ */
+export type WithdrawOracleStake = CallResult<
+    {
+        amount: bigint;
+    },
+    OPNetEvent<OracleStakeWithdrawnEvent>[]
+>;
+
+/**
+ * @description Represents the result of the slashOracle function call.
+ */
+export type SlashOracle = CallResult<
+    {
+        slashed: bigint;
+    },
+    OPNetEvent<OracleSlashedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the setMinOracleStake function call.
+ */
+export type SetMinOracleStake = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<MinOracleStakeUpdatedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the setAllowlistRoot function call.
+ */
+export type SetAllowlistRoot = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<AllowlistRootUpdatedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the setAllowlistMembers function call.
+ */
+export type SetAllowlistMembers = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<AllowlistMemberSetEvent>[]
+>;
+
+/**
+ * @description Represents the result of the joinMarket function call.
+ */
+export type JoinMarket = CallResult<
+    {
+        success: boolean;
+    },
+    OPNetEvent<MarketJoinedEvent>[]
+>;
+
+/**
+ * @description Represents the result of the getMarket function call.
+ */
+export type GetMarket = CallResult<
+    {
+        creator: bigint;
+        closeBlock: bigint;
+        resolveAfterBlock: bigint;
+        oracle: bigint;
+        status: bigint;
+        outcome: bigint;
+        yesPool: bigint;
+        noPool: bigint;
+        outcomeCount: bigint;
+        protocolFeeBps: bigint;
+        creatorFeeBps: bigint;
+        protocolFee: bigint;
+        creatorFee: bigint;
+        committeeSize: bigint;
+        exitSpread: bigint;
+        contentHash: bigint;
+        lowerBound: bigint;
+        upperBound: bigint;
+        fallbackOracle: bigint;
+        timeoutBlock: bigint;
+        resolvedBy: number;
+        isPrivate: boolean;
+        allowlistRoot: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getUserPosition function call.
+ */
+export type GetUserPosition = CallResult<
+    {
+        yesBet: bigint;
+        noBet: bigint;
+        claimed: boolean;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getOutcomePools function call.
+ */
+export type GetOutcomePools = CallResult<
+    {
+        pools: bigint[];
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getUserStakes function call.
+ */
+export type GetUserStakes = CallResult<
+    {
+        stakes: bigint[];
+        claimed: boolean;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getMarketCountView function call.
+ */
+export type GetMarketCountView = CallResult<
+    {
+        count: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getOwnerView function call.
+ */
+export type GetOwnerView = CallResult<
+    {
+        owner: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getAdminConfigView function call.
+ */
+export type GetAdminConfigView = CallResult<
+    {
+        owner: bigint;
+        pendingOwner: bigint;
+        bettingPaused: boolean;
+        creationPaused: boolean;
+        maxMarkets: bigint;
+        minBet: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getCallerAddressView function call.
+ */
+export type GetCallerAddressView = CallResult<
+    {
+        callerAddress: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getCollateralTokenView function call.
+ */
+export type GetCollateralTokenView = CallResult<
+    {
+        token: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getFees function call.
+ */
+export type GetFees = CallResult<
+    {
+        protocolFeeBps: bigint;
+        protocolFees: bigint;
+        creatorFees: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getResolution function call.
+ */
+export type GetResolution = CallResult<
+    {
+        proposedOutcome: bigint;
+        proposedAtBlock: bigint;
+        disputeEndBlock: bigint;
+        disputer: bigint;
+        disputedOutcome: bigint;
+        bond: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getDisputeConfigView function call.
+ */
+export type GetDisputeConfigView = CallResult<
+    {
+        windowBlocks: bigint;
+        bond: bigint;
+        arbitrator: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getOracleVotes function call.
+ */
+export type GetOracleVotes = CallResult<
+    {
+        threshold: bigint;
+        members: Address[];
+        votes: bigint[];
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the quoteSell function call.
+ */
+export type QuoteSell = CallResult<
+    {
+        amountOut: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the isPositionOperator function call.
+ */
+export type IsPositionOperator = CallResult<
+    {
+        approved: boolean;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getPriceTarget function call.
+ */
+export type GetPriceTarget = CallResult<
+    {
+        targetPrice: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the isPriceSigner function call.
+ */
+export type IsPriceSigner = CallResult<
+    {
+        approved: boolean;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getMarketsByCreator function call.
+ */
+export type GetMarketsByCreator = CallResult<
+    {
+        total: bigint;
+        marketIds: bigint[];
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getMarketsByOracle function call.
+ */
+export type GetMarketsByOracle = CallResult<
+    {
+        total: bigint;
+        marketIds: bigint[];
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getMarketsByBettor function call.
+ */
+export type GetMarketsByBettor = CallResult<
+    {
+        total: bigint;
+        marketIds: bigint[];
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getMarkets function call.
+ */
+export type GetMarkets = CallResult<
+    {
+        total: bigint;
+        records: Uint8Array;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getUserPositions function call.
+ */
+export type GetUserPositions = CallResult<
+    {
+        records: Uint8Array;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getOracle function call.
+ */
+export type GetOracle = CallResult<
+    {
+        stake: bigint;
+        unstaking: bigint;
+        unlockBlock: bigint;
+        slashed: bigint;
+        profileHash: bigint;
+        registeredAt: bigint;
+        marketCount: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getOracles function call.
+ */
+export type GetOracles = CallResult<
+    {
+        total: bigint;
+        records: Uint8Array;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getOracleConfigView function call.
+ */
+export type GetOracleConfigView = CallResult<
+    {
+        minStake: bigint;
+        unbondingBlocks: bigint;
+        disputeSlashBps: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the isAllowlisted function call.
+ */
+export type IsAllowlisted = CallResult<
+    {
+        isPrivate: boolean;
+        member: boolean;
+        proofValid: boolean;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getCancelGracePeriodView function call.
+ */
+export type GetCancelGracePeriodView = CallResult<
+    {
+        blocks: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+/**
+ * @description Represents the result of the getResolutionTimeoutView function call.
+ */
+export type GetResolutionTimeoutView = CallResult<
+    {
+        blocks: bigint;
+    },
+    OPNetEvent<never>[]
+>;
+
+// ------------------------------------------------------------------
+// IPredictionMarket
+// ------------------------------------------------------------------
+export interface IPredictionMarket extends IOP_NETContract {
+    createMarket(
+        question: string,
+        closeBlock: bigint,
+        resolveAfterBlock: bigint,
+        oracle: Address,
+        fallbackOracle: Address,
+        creatorFeeBps: bigint,
+        committee: Address[],
+        threshold: bigint,
+        metadataHash: bigint,
+        allowlistRoot: bigint,
+        allowlist: Address[],
+    ): Promise<CreateMarket>;
+    createCategoricalMarket(
+        question: string,
+        closeBlock: bigint,
+        resolveAfterBlock: bigint,
+        oracle: Address,
+        fallbackOracle: Address,
+        creatorFeeBps: bigint,
+        committee: Address[],
+        threshold: bigint,
+        metadataHash: bigint,
+        allowlistRoot: bigint,
+        allowlist: Address[],
+        outcomes: string[],
+    ): Promise<CreateCategoricalMarket>;
+    createScalarMarket(
+        question: string,
+        closeBlock: bigint,
+        resolveAfterBlock: bigint,
+        oracle: Address,
+        fallbackOracle: Address,
+        creatorFeeBps: bigint,
+        metadataHash: bigint,
+        allowlistRoot: bigint,
+        allowlist: Address[],
+        lowerBound: bigint,
+        upperBound: bigint,
+    ): Promise<CreateScalarMarket>;
+    placeBet(marketId: bigint, outcome: bigint, amount: bigint): Promise<PlaceBet>;
+    resolveMarket(marketId: bigint, outcome: bigint): Promise<ResolveMarket>;
+    resolveScalarMarket(marketId: bigint, value: bigint): Promise<ResolveScalarMarket>;
+    setPriceTarget(marketId: bigint, targetPrice: bigint): Promise<SetPriceTarget>;
+    resolveWithPrice(
+        marketId: bigint,
+        price: bigint,
+        observedBlock: bigint,
+        signer: Address,
+        signature: Uint8Array,
+    ): Promise<ResolveWithPrice>;
+    voteOutcome(marketId: bigint, outcome: bigint): Promise<VoteOutcome>;
+    disputeOutcome(marketId: bigint, outcome: bigint): Promise<DisputeOutcome>;
+    finalizeMarket(marketId: bigint): Promise<FinalizeMarket>;
+    ruleDispute(marketId: bigint, outcome: bigint): Promise<RuleDispute>;
+    sellPosition(marketId: bigint, outcome: bigint, shares: bigint, minOut: bigint): Promise<SellPosition>;
+    transferPosition(marketId: bigint, outcome: bigint, to: Address, shares: bigint): Promise<TransferPosition>;
+    transferPositionFrom(
+        from: Address,
+        to: Address,
+        marketId: bigint,
+        outcome: bigint,
+        shares: bigint,
+    ): Promise<TransferPositionFrom>;
+    setPositionOperator(operator: Address, approved: boolean): Promise<SetPositionOperator>;
+    claimWinnings(marketId: bigint): Promise<ClaimWinnings>;
+    cancelMarket(marketId: bigint): Promise<CancelMarket>;
+    claimRefund(marketId: bigint): Promise<ClaimRefund>;
+    setCancelGracePeriod(blocks: bigint): Promise<SetCancelGracePeriod>;
+    setResolutionTimeout(blocks: bigint): Promise<SetResolutionTimeout>;
+    setProtocolFee(feeBps: bigint): Promise<SetProtocolFee>;
+    withdrawFees(): Promise<WithdrawFees>;
+    setDisputeWindow(blocks: bigint): Promise<SetDisputeWindow>;
+    setDisputeBond(bond: bigint): Promise<SetDisputeBond>;
+    setArbitrator(arbitrator: Address): Promise<SetArbitrator>;
+    setPaused(bettingPaused: boolean, creationPaused: boolean): Promise<SetPaused>;
+    transferOwnership(newOwner: Address): Promise<TransferOwnership>;
+    acceptOwnership(): Promise<AcceptOwnership>;
+    setMaxMarkets(maxMarkets: bigint): Promise<SetMaxMarkets>;
+    setMinBet(minBet: bigint): Promise<SetMinBet>;
+    setPriceSigner(signer: Address, approved: boolean): Promise<SetPriceSigner>;
+    registerOracle(stake: bigint, profileHash: bigint): Promise<RegisterOracle>;
+    unstakeOracle(amount: bigint): Promise<UnstakeOracle>;
+    withdrawOracleStake(): Promise<WithdrawOracleStake>;
+    slashOracle(oracle: Address, amount: bigint): Promise<SlashOracle>;
+    setMinOracleStake(minStake: bigint): Promise<SetMinOracleStake>;
+    setAllowlistRoot(marketId: bigint, root: bigint): Promise<SetAllowlistRoot>;
+    setAllowlistMembers(marketId: bigint, members: Address[], allowed: boolean): Promise<SetAllowlistMembers>;
+    joinMarket(marketId: bigint, proof: bigint[]): Promise<JoinMarket>;
+    getMarket(marketId: bigint): Promise<GetMarket>;
+    getUserPosition(marketId: bigint, user: Address): Promise<GetUserPosition>;
+    getOutcomePools(marketId: bigint): Promise<GetOutcomePools>;
+    getUserStakes(marketId: bigint, user: Address): Promise<GetUserStakes>;
+    getMarketCountView(): Promise<GetMarketCountView>;
+    getOwnerView(): Promise<GetOwnerView>;
+    getAdminConfigView(): Promise<GetAdminConfigView>;
+    getCallerAddressView(): Promise<GetCallerAddressView>;
+    getCollateralTokenView(): Promise<GetCollateralTokenView>;
+    getFees(account: Address): Promise<GetFees>;
+    getResolution(marketId: bigint): Promise<GetResolution>;
+    getDisputeConfigView(): Promise<GetDisputeConfigView>;
+    getOracleVotes(marketId: bigint): Promise<GetOracleVotes>;
+    quoteSell(marketId: bigint, outcome: bigint, shares: bigint): Promise<QuoteSell>;
+    isPositionOperator(owner: Address, operator: Address): Promise<IsPositionOperator>;
+    getPriceTarget(marketId: bigint): Promise<GetPriceTarget>;
+    isPriceSigner(signer: Address): Promise<IsPriceSigner>;
+    getMarketsByCreator(creator: Address, offset: bigint, limit: bigint): Promise<GetMarketsByCreator>;
+    getMarketsByOracle(oracle: Address, offset: bigint, limit: bigint): Promise<GetMarketsByOracle>;
+    getMarketsByBettor(bettor: Address, offset: bigint, limit: bigint): Promise<GetMarketsByBettor>;
+    getMarkets(offset: bigint, limit: bigint): Promise<GetMarkets>;
+    getUserPositions(user: Address, marketIds: bigint[]): Promise<GetUserPositions>;
+    getOracle(oracle: Address): Promise<GetOracle>;
+    getOracles(offset: bigint, limit: bigint): Promise<GetOracles>;
+    getOracleConfigView(): Promise<GetOracleConfigView>;
+    isAllowlisted(marketId: bigint, account: Address, proof: bigint[]): Promise<IsAllowlisted>;
+    getCancelGracePeriodView(): Promise<GetCancelGracePeriodView>;
+    getResolutionTimeoutView(): Promise<GetResolutionTimeoutView>;
+}
@@ -7,8 +7,57 @@ export const PREDICTION_MARKET_ABI: BitcoinInterfaceAbi = [
         name: 'createMarket',
         inputs: [
             { name: 'question', type: ABIDataTypes.STRING },
-            { name: 'endBlock', type: ABIDataTypes.UINT64 },
+            { name: 'closeBlock', type: ABIDataTypes.UINT64 },
+            { name: 'resolveAfterBlock', type: ABIDataTypes.UINT64 },
             { name: 'oracle', type: ABIDataTypes.ADDRESS },
+            { name: 'fallbackOracle', type: ABIDataTypes.ADDRESS },
+            { name: 'creatorFeeBps', type: ABIDataTypes.UINT256 },
+            { name: 'committee', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+            { name: 'threshold', type: ABIDataTypes.UINT256 },
+            { name: 'metadataHash', type: ABIDataTypes.UINT256 },
+            { name: 'allowlistRoot', type: ABIDataTypes.UINT256 },
+            { name: 'allowlist', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+        ],
+        outputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'createCategoricalMarket',
+        inputs: [
+            { name: 'question', type: ABIDataTypes.STRING },
+            { name: 'closeBlock', type: ABIDataTypes.UINT64 },
+            { name: 'resolveAfterBlock', type: ABIDataTypes.UINT64 },
+            { name: 'oracle', type: ABIDataTypes.ADDRESS },
+            { name: 'fallbackOracle', type: ABIDataTypes.ADDRESS },
+            { name: 'creatorFeeBps', type: ABIDataTypes.UINT256 },
+            { name: 'committee', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+            { name: 'threshold', type: ABIDataTypes.UINT256 },
+            { name: 'metadataHash', type: ABIDataTypes.UINT256 },
+            { name: 'allowlistRoot', type: ABIDataTypes.UINT256 },
+            { name: 'allowlist', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+            { name: 'outcomes', type: ABIDataTypes.ARRAY_OF_STRING },
+        ],
+        outputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'createScalarMarket',
+        inputs: [
+            { name: 'question', type: ABIDataTypes.STRING },
+            { name: 'closeBlock', type: ABIDataTypes.UINT64 },
+            { name: 'resolveAfterBlock', type: ABIDataTypes.UINT64 },
+            { name: 'oracle', type: ABIDataTypes.ADDRESS },
+            { name: 'fallbackOracle', type: ABIDataTypes.ADDRESS },
+            { name: 'creatorFeeBps', type: ABIDataTypes.UINT256 },
+            { name: 'metadataHash', type: ABIDataTypes.UINT256 },
+            { name: 'allowlistRoot', type: ABIDataTypes.UINT256 },
+            { name: 'allowlist', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+            { name: 'lowerBound', type: ABIDataTypes.UINT256 },
+            { name: 'upperBound', type: ABIDataTypes.UINT256 },
         ],
         outputs: [
             { name: 'marketId', type: ABIDataTypes.UINT256 },
@@ -26,6 +75,19 @@ export const PREDICTION_MARKET_ABI: BitcoinInterfaceAbi = [
             { name: 'success', type: ABIDataTypes.BOOL },
         ],
     },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'sellPosition',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+            { name: 'outcome', type: ABIDataTypes.UINT256 },
+            { name: 'shares', type: ABIDataTypes.UINT256 },
+            { name: 'minOut', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'amountOut', type: ABIDataTypes.UINT256 },
+        ],
+    },
     {
         type: BitcoinAbiTypes.Function,
         name: 'resolveMarket',
@@ -37,6 +99,98 @@ export const PREDICTION_MARKET_ABI: BitcoinInterfaceAbi = [
             { name: 'success', type: ABIDataTypes.BOOL },
         ],
     },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'resolveScalarMarket',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+            { name: 'value', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'voteOutcome',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+            { name: 'outcome', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'disputeOutcome',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+            { name: 'outcome', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'finalizeMarket',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'ruleDispute',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+            { name: 'outcome', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'transferPosition',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+            { name: 'outcome', type: ABIDataTypes.UINT256 },
+            { name: 'to', type: ABIDataTypes.ADDRESS },
+            { name: 'shares', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'transferPositionFrom',
+        inputs: [
+            { name: 'from', type: ABIDataTypes.ADDRESS },
+            { name: 'to', type: ABIDataTypes.ADDRESS },
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+            { name: 'outcome', type: ABIDataTypes.UINT256 },
+            { name: 'shares', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'setPositionOperator',
+        inputs: [
+            { name: 'operator', type: ABIDataTypes.ADDRESS },
+            { name: 'approved', type: ABIDataTypes.BOOL },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
     {
         type: BitcoinAbiTypes.Function,
         name: 'claimWinnings',
@@ -47,6 +201,179 @@ export const PREDICTION_MARKET_ABI: BitcoinInterfaceAbi = [
             { name: 'amount', type: ABIDataTypes.UINT256 },
         ],
     },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'cancelMarket',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'claimRefund',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'amount', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'setCancelGracePeriod',
+        inputs: [
+            { name: 'blocks', type: ABIDataTypes.UINT64 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'setResolutionTimeout',
+        inputs: [
+            { name: 'blocks', type: ABIDataTypes.UINT64 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'setProtocolFee',
+        inputs: [
+            { name: 'feeBps', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'withdrawFees',
+        inputs: [],
+        outputs: [
+            { name: 'amount', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'setDisputeWindow',
+        inputs: [
+            { name: 'blocks', type: ABIDataTypes.UINT64 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'setDisputeBond',
+        inputs: [
+            { name: 'bond', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'setArbitrator',
+        inputs: [
+            { name: 'arbitrator', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'setPaused',
+        inputs: [
+            { name: 'bettingPaused', type: ABIDataTypes.BOOL },
+            { name: 'creationPaused', type: ABIDataTypes.BOOL },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'transferOwnership',
+        inputs: [
+            { name: 'newOwner', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'acceptOwnership',
+        inputs: [],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'setMaxMarkets',
+        inputs: [
+            { name: 'maxMarkets', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'setMinBet',
+        inputs: [
+            { name: 'minBet', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'setPriceTarget',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+            { name: 'targetPrice', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'resolveWithPrice',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+            { name: 'price', type: ABIDataTypes.UINT256 },
+            { name: 'observedBlock', type: ABIDataTypes.UINT64 },
+            { name: 'signer', type: ABIDataTypes.EXTENDED_ADDRESS },
+            { name: 'signature', type: ABIDataTypes.BYTES },
+        ],
+        outputs: [
+            { name: 'outcome', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'setPriceSigner',
+        inputs: [
+            { name: 'signer', type: ABIDataTypes.EXTENDED_ADDRESS },
+            { name: 'approved', type: ABIDataTypes.BOOL },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
     {
         type: BitcoinAbiTypes.Function,
         name: 'getMarket',
@@ -55,12 +382,28 @@ export const PREDICTION_MARKET_ABI: BitcoinInterfaceAbi = [
         ],
         outputs: [
             { name: 'creator', type: ABIDataTypes.UINT256 },
-            { name: 'endBlock', type: ABIDataTypes.UINT64 },
+            { name: 'closeBlock', type: ABIDataTypes.UINT64 },
+            { name: 'resolveAfterBlock', type: ABIDataTypes.UINT64 },
             { name: 'oracle', type: ABIDataTypes.UINT256 },
             { name: 'status', type: ABIDataTypes.UINT256 },
             { name: 'outcome', type: ABIDataTypes.UINT256 },
             { name: 'yesPool', type: ABIDataTypes.UINT256 },
             { name: 'noPool', type: ABIDataTypes.UINT256 },
+            { name: 'outcomeCount', type: ABIDataTypes.UINT256 },
+            { name: 'protocolFeeBps', type: ABIDataTypes.UINT256 },
+            { name: 'creatorFeeBps', type: ABIDataTypes.UINT256 },
+            { name: 'protocolFee', type: ABIDataTypes.UINT256 },
+            { name: 'creatorFee', type: ABIDataTypes.UINT256 },
+            { name: 'committeeSize', type: ABIDataTypes.UINT256 },
+            { name: 'exitSpread', type: ABIDataTypes.UINT256 },
+            { name: 'contentHash', type: ABIDataTypes.UINT256 },
+            { name: 'lowerBound', type: ABIDataTypes.UINT256 },
+            { name: 'upperBound', type: ABIDataTypes.UINT256 },
+            { name: 'fallbackOracle', type: ABIDataTypes.UINT256 },
+            { name: 'timeoutBlock', type: ABIDataTypes.UINT64 },
+            { name: 'resolvedBy', type: ABIDataTypes.UINT8 },
+            { name: 'isPrivate', type: ABIDataTypes.BOOL },
+            { name: 'allowlistRoot', type: ABIDataTypes.UINT256 },
         ],
     },
     {
@@ -76,6 +419,28 @@ export const PREDICTION_MARKET_ABI: BitcoinInterfaceAbi = [
             { name: 'claimed', type: ABIDataTypes.BOOL },
         ],
     },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'getOutcomePools',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'pools', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'getUserStakes',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+            { name: 'user', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [
+            { name: 'stakes', type: ABIDataTypes.ARRAY_OF_UINT256 },
+            { name: 'claimed', type: ABIDataTypes.BOOL },
+        ],
+    },
     {
         type: BitcoinAbiTypes.Function,
         name: 'getMarketCountView',
@@ -92,6 +457,19 @@ export const PREDICTION_MARKET_ABI: BitcoinInterfaceAbi = [
             { name: 'owner', type: ABIDataTypes.UINT256 },
         ],
     },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'getAdminConfigView',
+        inputs: [],
+        outputs: [
+            { name: 'owner', type: ABIDataTypes.UINT256 },
+            { name: 'pendingOwner', type: ABIDataTypes.UINT256 },
+            { name: 'bettingPaused', type: ABIDataTypes.BOOL },
+            { name: 'creationPaused', type: ABIDataTypes.BOOL },
+            { name: 'maxMarkets', type: ABIDataTypes.UINT256 },
+            { name: 'minBet', type: ABIDataTypes.UINT256 },
+        ],
+    },
     {
         type: BitcoinAbiTypes.Function,
         name: 'getCallerAddressView',
@@ -100,4 +478,302 @@ export const PREDICTION_MARKET_ABI: BitcoinInterfaceAbi = [
             { name: 'callerAddress', type: ABIDataTypes.UINT256 },
         ],
     },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'getCollateralTokenView',
+        inputs: [],
+        outputs: [
+            { name: 'token', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'getFees',
+        inputs: [
+            { name: 'account', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [
+            { name: 'protocolFeeBps', type: ABIDataTypes.UINT256 },
+            { name: 'protocolFees', type: ABIDataTypes.UINT256 },
+            { name: 'creatorFees', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'getResolution',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'proposedOutcome', type: ABIDataTypes.UINT256 },
+            { name: 'proposedAtBlock', type: ABIDataTypes.UINT64 },
+            { name: 'disputeEndBlock', type: ABIDataTypes.UINT64 },
+            { name: 'disputer', type: ABIDataTypes.UINT256 },
+            { name: 'disputedOutcome', type: ABIDataTypes.UINT256 },
+            { name: 'bond', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'getOracleVotes',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'threshold', type: ABIDataTypes.UINT256 },
+            { name: 'members', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+            { name: 'votes', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'quoteSell',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+            { name: 'outcome', type: ABIDataTypes.UINT256 },
+            { name: 'shares', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'amountOut', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'isPositionOperator',
+        inputs: [
+            { name: 'owner', type: ABIDataTypes.ADDRESS },
+            { name: 'operator', type: ABIDataTypes.ADDRESS },
+        ],
+        outputs: [
+            { name: 'approved', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'getMarketsByCreator',
+        inputs: [
+            { name: 'creator', type: ABIDataTypes.ADDRESS },
+            { name: 'offset', type: ABIDataTypes.UINT256 },
+            { name: 'limit', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'total', type: ABIDataTypes.UINT256 },
+            { name: 'marketIds', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'getMarketsByOracle',
+        inputs: [
+            { name: 'oracle', type: ABIDataTypes.ADDRESS },
+            { name: 'offset', type: ABIDataTypes.UINT256 },
+            { name: 'limit', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'total', type: ABIDataTypes.UINT256 },
+            { name: 'marketIds', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'getMarketsByBettor',
+        inputs: [
+            { name: 'bettor', type: ABIDataTypes.ADDRESS },
+            { name: 'offset', type: ABIDataTypes.UINT256 },
+            { name: 'limit', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'total', type: ABIDataTypes.UINT256 },
+            { name: 'marketIds', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'getMarkets',
+        inputs: [
+            { name: 'offset', type: ABIDataTypes.UINT256 },
+            { name: 'limit', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'total', type: ABIDataTypes.UINT256 },
+            { name: 'records', type: ABIDataTypes.BYTES },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'getUserPositions',
+        inputs: [
+            { name: 'user', type: ABIDataTypes.ADDRESS },
+            { name: 'marketIds', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        ],
+        outputs: [
+            { name: 'records', type: ABIDataTypes.BYTES },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'getDisputeConfigView',
+        inputs: [],
+        outputs: [
+            { name: 'windowBlocks', type: ABIDataTypes.UINT64 },
+            { name: 'bond', type: ABIDataTypes.UINT256 },
+            { name: 'arbitrator', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'getCancelGracePeriodView',
+        inputs: [],
+        outputs: [
+            { name: 'blocks', type: ABIDataTypes.UINT64 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'getResolutionTimeoutView',
+        inputs: [],
+        outputs: [
+            { name: 'blocks', type: ABIDataTypes.UINT64 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'getPriceTarget',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'targetPrice', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'isPriceSigner',
+        inputs: [
+            { name: 'signer', type: ABIDataTypes.EXTENDED_ADDRESS },
+        ],
+        outputs: [
+            { name: 'approved', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'registerOracle',
+        inputs: [
+            { name: 'stake', type: ABIDataTypes.UINT256 },
+            { name: 'profileHash', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'unstakeOracle',
+        inputs: [
+            { name: 'amount', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'unlockBlock', type: ABIDataTypes.UINT64 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'withdrawOracleStake',
+        inputs: [],
+        outputs: [
+            { name: 'amount', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'slashOracle',
+        inputs: [
+            { name: 'oracle', type: ABIDataTypes.ADDRESS },
+            { name: 'amount', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'slashed', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'setMinOracleStake',
+        inputs: [
+            { name: 'minStake', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'getOracles',
+        inputs: [
+            { name: 'offset', type: ABIDataTypes.UINT256 },
+            { name: 'limit', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'total', type: ABIDataTypes.UINT256 },
+            { name: 'records', type: ABIDataTypes.BYTES },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'getOracleConfigView',
+        inputs: [],
+        outputs: [
+            { name: 'minStake', type: ABIDataTypes.UINT256 },
+            { name: 'unbondingBlocks', type: ABIDataTypes.UINT64 },
+            { name: 'disputeSlashBps', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'setAllowlistRoot',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+            { name: 'root', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'setAllowlistMembers',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+            { name: 'members', type: ABIDataTypes.ARRAY_OF_ADDRESSES },
+            { name: 'allowed', type: ABIDataTypes.BOOL },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'joinMarket',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+            { name: 'proof', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'isAllowlisted',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+            { name: 'account', type: ABIDataTypes.ADDRESS },
+            { name: 'proof', type: ABIDataTypes.ARRAY_OF_UINT256 },
+        ],
+        outputs: [
+            { name: 'isPrivate', type: ABIDataTypes.BOOL },
+            { name: 'member', type: ABIDataTypes.BOOL },
+            { name: 'proofValid', type: ABIDataTypes.BOOL },
+        ],
+    },
 ];
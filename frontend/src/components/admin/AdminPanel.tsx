@@ -0,0 +1,384 @@
+import { useEffect, useState } from 'react';
+import { Card } from '../common/Card';
+import { Button } from '../common/Button';
+import { usePredictionMarket } from '../../hooks/usePredictionMarket';
+import { useAdminRole } from '../../hooks/useAdminRole';
+import { FeeBalances, OracleConfig } from '../../types';
+
+const ADDRESS_PATTERN = /^(0x)?[0-9a-fA-F]{64}$/;
+const MAX_PROTOCOL_FEE_BPS = 1000;
+
+function formatSats(sats: bigint): string {
+    const btc = Number(sats) / 100_000_000;
+    if (btc >= 0.001) return `${btc.toFixed(4)} BTC`;
+    return `${sats.toLocaleString()} sats`;
+}
+
+function truncateAddress(addr: string): string {
+    if (addr.length <= 16) return addr;
+    return `${addr.slice(0, 8)}...${addr.slice(-6)}`;
+}
+
+function parseAmount(value: string): bigint | null {
+    return /^\d+$/.test(value.trim()) ? BigInt(value.trim()) : null;
+}
+
+const inputClass = 'w-full bg-[var(--color-bg-input)] border border-[var(--color-border)] rounded-xl px-4 py-3 text-sm text-[var(--color-text-primary)] placeholder-[var(--color-text-muted)] focus:border-[var(--color-btc-orange)] focus:outline-none';
+
+/** Owner controls: pausing, market limits, protocol fee, oracle stakes and the two-step ownership transfer. */
+export function AdminPanel(): React.JSX.Element {
+    const { config, isOwner, isPendingOwner, refresh } = useAdminRole();
+    const {
+        fetchMarketCount,
+        fetchFees,
+        setPaused,
+        setMaxMarkets,
+        setMinBet,
+        setProtocolFee,
+        withdrawFees,
+        transferOwnership,
+        acceptOwnership,
+        fetchOracleConfig,
+        setMinOracleStake,
+        slashOracle,
+        loading,
+        error,
+    } = usePredictionMarket();
+
+    const [marketCount, setMarketCount] = useState<bigint | null>(null);
+    const [fees, setFees] = useState<FeeBalances | null>(null);
+    const [maxMarketsInput, setMaxMarketsInput] = useState('');
+    const [minBetInput, setMinBetInput] = useState('');
+    const [feeInput, setFeeInput] = useState('');
+    const [newOwnerInput, setNewOwnerInput] = useState('');
+    const [oracleConfig, setOracleConfig] = useState<OracleConfig | null>(null);
+    const [minOracleStakeInput, setMinOracleStakeInput] = useState('');
+    const [slashAddressInput, setSlashAddressInput] = useState('');
+    const [slashAmountInput, setSlashAmountInput] = useState('');
+    const [submitted, setSubmitted] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOwner) return;
+        fetchMarketCount().then(setMarketCount).catch(() => {
+            // only used to warn about caps below the current count
+        });
+        fetchFees().then(setFees).catch(() => {
+            // fee card falls back to the inputs alone
+        });
+        fetchOracleConfig().then(setOracleConfig).catch(() => {
+            // display-only
+        });
+    }, [isOwner, fetchMarketCount, fetchFees, fetchOracleConfig]);
+
+    const submit = async (label: string, action: () => Promise<void>): Promise<void> => {
+        setSubmitted(null);
+        try {
+            await action();
+            setSubmitted(label);
+            void refresh();
+        } catch {
+            // error handled by hook
+        }
+    };
+
+    if (!config) {
+        return (
+            <div className="text-center py-20">
+                <div className="animate-spin rounded-full h-8 w-8 border-2 border-[var(--color-btc-orange)] border-t-transparent mx-auto mb-4" />
+                <p className="text-[var(--color-text-muted)]">Loading contract settings...</p>
+            </div>
+        );
+    }
+
+    if (!isOwner && !isPendingOwner) {
+        return (
+            <Card className="text-center py-12">
+                <p className="text-[var(--color-text-secondary)]">Only the contract owner can manage these settings.</p>
+            </Card>
+        );
+    }
+
+    const maxMarkets = parseAmount(maxMarketsInput);
+    const maxMarketsValid = maxMarkets !== null && maxMarkets > 0n && (marketCount === null || maxMarkets >= marketCount);
+    const minBet = parseAmount(minBetInput);
+    const feeBps = parseAmount(feeInput);
+    const feeValid = feeBps !== null && feeBps <= BigInt(MAX_PROTOCOL_FEE_BPS);
+    const newOwnerValid = ADDRESS_PATTERN.test(newOwnerInput.trim());
+    const minOracleStake = parseAmount(minOracleStakeInput);
+    const slashAmount = parseAmount(slashAmountInput);
+    const slashValid = ADDRESS_PATTERN.test(slashAddressInput.trim()) && slashAmount !== null && slashAmount > 0n;
+
+    return (
+        <div className="space-y-6">
+            {error && (
+                <div className="text-red-400 text-sm bg-red-400/10 px-4 py-3 rounded-lg">{error}</div>
+            )}
+            {submitted && !error && (
+                <div className="text-green-400 text-sm bg-green-400/10 px-4 py-3 rounded-lg">
+                    {submitted} submitted! Settings update after the next block confirmation (~10 min).
+                </div>
+            )}
+
+            {isPendingOwner && (
+                <Card>
+                    <h2 className="text-lg font-bold text-[var(--color-text-primary)] mb-2">Accept Ownership</h2>
+                    <p className="text-sm text-[var(--color-text-secondary)] mb-4">
+                        The current owner has offered you ownership of the contract. Accepting gives this wallet every owner control below.
+                    </p>
+                    <Button
+                        onClick={() => void submit('Ownership acceptance', acceptOwnership)}
+                        disabled={loading}
+                    >
+                        {loading ? 'Accepting...' : 'Accept Ownership'}
+                    </Button>
+                </Card>
+            )}
+
+            {isOwner && (
+                <>
+                    <Card>
+                        <h2 className="text-lg font-bold text-[var(--color-text-primary)] mb-2">Pause</h2>
+                        <p className="text-sm text-[var(--color-text-secondary)] mb-4">
+                            Pausing stops new bets or new markets. Resolution, claims, refunds and early exits keep working.
+                        </p>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            <Button
+                                variant={config.bettingPaused ? 'primary' : 'ghost'}
+                                onClick={() => void submit(
+                                    config.bettingPaused ? 'Resume betting' : 'Pause betting',
+                                    () => setPaused(!config.bettingPaused, config.creationPaused),
+                                )}
+                                disabled={loading}
+                            >
+                                {config.bettingPaused ? 'Resume Betting' : 'Pause Betting'}
+                            </Button>
+                            <Button
+                                variant={config.creationPaused ? 'primary' : 'ghost'}
+                                onClick={() => void submit(
+                                    config.creationPaused ? 'Resume market creation' : 'Pause market creation',
+                                    () => setPaused(config.bettingPaused, !config.creationPaused),
+                                )}
+                                disabled={loading}
+                            >
+                                {config.creationPaused ? 'Resume Market Creation' : 'Pause Market Creation'}
+                            </Button>
+                        </div>
+                        <p className="mt-3 text-xs text-[var(--color-text-muted)]">
+                            Betting: {config.bettingPaused ? 'paused' : 'open'} · Market creation: {config.creationPaused ? 'paused' : 'open'}
+                        </p>
+                    </Card>
+
+                    <Card>
+                        <h2 className="text-lg font-bold text-[var(--color-text-primary)] mb-4">Market Limits</h2>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                            <div>
+                                <label className="block text-sm text-[var(--color-text-secondary)] mb-1">Market cap</label>
+                                <p className="text-xs text-[var(--color-text-muted)] mb-2">
+                                    Current: {config.maxMarkets.toLocaleString()}
+                                    {marketCount !== null && ` · ${marketCount.toLocaleString()} created`}
+                                </p>
+                                <input
+                                    type="number"
+                                    min="1"
+                                    value={maxMarketsInput}
+                                    onChange={(e) => setMaxMarketsInput(e.target.value)}
+                                    placeholder="New cap"
+                                    className={`${inputClass} mb-3`}
+                                />
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => {
+                                        if (maxMarkets !== null) void submit('Market cap', () => setMaxMarkets(maxMarkets));
+                                    }}
+                                    disabled={loading || !maxMarketsValid}
+                                >
+                                    Set Cap
+                                </Button>
+                            </div>
+                            <div>
+                                <label className="block text-sm text-[var(--color-text-secondary)] mb-1">Minimum bet</label>
+                                <p className="text-xs text-[var(--color-text-muted)] mb-2">
+                                    Current: {config.minBet === 0n ? 'none' : formatSats(config.minBet)}
+                                </p>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    value={minBetInput}
+                                    onChange={(e) => setMinBetInput(e.target.value)}
+                                    placeholder="Amount (0 for none)"
+                                    className={`${inputClass} mb-3`}
+                                />
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => {
+                                        if (minBet !== null) void submit('Minimum bet', () => setMinBet(minBet));
+                                    }}
+                                    disabled={loading || minBet === null}
+                                >
+                                    Set Minimum
+                                </Button>
+                            </div>
+                        </div>
+                    </Card>
+
+                    <Card>
+                        <h2 className="text-lg font-bold text-[var(--color-text-primary)] mb-4">Protocol Fee</h2>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                            <div>
+                                <p className="text-xs text-[var(--color-text-muted)] mb-2">
+                                    Current: {fees ? `${(fees.protocolFeeBps / 100).toFixed(2)}%` : '—'} · applies to markets created afterwards
+                                </p>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    max={MAX_PROTOCOL_FEE_BPS}
+                                    value={feeInput}
+                                    onChange={(e) => setFeeInput(e.target.value)}
+                                    placeholder="Fee in basis points (max 1000)"
+                                    className={`${inputClass} mb-3`}
+                                />
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => {
+                                        if (feeBps !== null) void submit('Protocol fee', () => setProtocolFee(Number(feeBps)));
+                                    }}
+                                    disabled={loading || !feeValid}
+                                >
+                                    Set Fee
+                                </Button>
+                            </div>
+                            <div>
+                                <p className="text-xs text-[var(--color-text-muted)] mb-2">Accrued protocol fees</p>
+                                <p className="text-2xl font-bold text-[var(--color-btc-orange)] mb-3">
+                                    {fees ? formatSats(fees.protocolFees) : '—'}
+                                </p>
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => void submit('Fee withdrawal', withdrawFees)}
+                                    disabled={loading || !fees || fees.protocolFees + fees.creatorFees === 0n}
+                                >
+                                    Withdraw
+                                </Button>
+                            </div>
+                        </div>
+                    </Card>
+
+                    <Card>
+                        <h2 className="text-lg font-bold text-[var(--color-text-primary)] mb-4">Oracle Registry</h2>
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                            <div>
+                                <label className="block text-sm text-[var(--color-text-secondary)] mb-1">Minimum oracle stake</label>
+                                <p className="text-xs text-[var(--color-text-muted)] mb-2">
+                                    Current: {!oracleConfig ? '—' : oracleConfig.minStake === 0n ? 'none' : formatSats(oracleConfig.minStake)}
+                                </p>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    value={minOracleStakeInput}
+                                    onChange={(e) => setMinOracleStakeInput(e.target.value)}
+                                    placeholder="Amount (0 for none)"
+                                    className={`${inputClass} mb-3`}
+                                />
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => {
+                                        if (minOracleStake !== null) {
+                                            void submit('Minimum oracle stake', () => setMinOracleStake(minOracleStake));
+                                        }
+                                    }}
+                                    disabled={loading || minOracleStake === null}
+                                >
+                                    Set Minimum
+                                </Button>
+                            </div>
+                            <div>
+                                <label className="block text-sm text-[var(--color-text-secondary)] mb-1">Slash an oracle</label>
+                                <p className="text-xs text-[var(--color-text-muted)] mb-2">
+                                    Takes active stake first, then stake still unbonding, into protocol fees.
+                                </p>
+                                <input
+                                    type="text"
+                                    value={slashAddressInput}
+                                    onChange={(e) => setSlashAddressInput(e.target.value)}
+                                    placeholder="Oracle address (0x...)"
+                                    className={`${inputClass} font-mono mb-3`}
+                                />
+                                <input
+                                    type="number"
+                                    min="1"
+                                    value={slashAmountInput}
+                                    onChange={(e) => setSlashAmountInput(e.target.value)}
+                                    placeholder="Amount"
+                                    className={`${inputClass} mb-3`}
+                                />
+                                <Button
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => {
+                                        if (slashAmount !== null) {
+                                            void submit('Oracle slash', () => slashOracle(slashAddressInput.trim(), slashAmount));
+                                        }
+                                    }}
+                                    disabled={loading || !slashValid}
+                                >
+                                    Slash
+                                </Button>
+                            </div>
+                        </div>
+                        {oracleConfig && (
+                            <p className="mt-3 text-xs text-[var(--color-text-muted)]">
+                                Overturned proposals also cost the oracle {(oracleConfig.disputeSlashBps / 100).toFixed(0)}% of its stake,
+                                paid to the challenger when the ruling backs their outcome and to protocol fees otherwise. Unstaked collateral unlocks after {oracleConfig.unbondingBlocks.toString()} blocks.
+                            </p>
+                        )}
+                    </Card>
+
+                    <Card>
+                        <h2 className="text-lg font-bold text-[var(--color-text-primary)] mb-2">Ownership</h2>
+                        <p className="text-sm text-[var(--color-text-secondary)] mb-4">
+                            Ownership moves in two steps: propose a new owner here, then that wallet accepts from this page.
+                        </p>
+                        {config.pendingOwner !== '' && (
+                            <div className="flex items-center justify-between bg-[var(--color-bg-input)] border border-[var(--color-border)] rounded-lg px-4 py-3 mb-4 text-sm">
+                                <span className="text-[var(--color-text-secondary)]">
+                                    Pending: <span className="font-mono text-[var(--color-text-primary)]">{truncateAddress(config.pendingOwner)}</span>
+                                </span>
+                                <button
+                                    type="button"
+                                    onClick={() => void submit('Transfer cancellation', () => transferOwnership(''))}
+                                    disabled={loading}
+                                    className="text-xs text-red-400 hover:underline cursor-pointer disabled:opacity-50"
+                                >
+                                    Cancel
+                                </button>
+                            </div>
+                        )}
+                        <input
+                            type="text"
+                            value={newOwnerInput}
+                            onChange={(e) => setNewOwnerInput(e.target.value)}
+                            placeholder="New owner address (0x...)"
+                            className={`${inputClass} font-mono mb-3`}
+                        />
+                        {newOwnerInput.trim() !== '' && !newOwnerValid && (
+                            <p className="text-xs text-red-400 mb-3">Enter a 32-byte hex address.</p>
+                        )}
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => void submit('Ownership transfer', () => transferOwnership(newOwnerInput.trim()))}
+                            disabled={loading || !newOwnerValid}
+                        >
+                            Propose New Owner
+                        </Button>
+                    </Card>
+                </>
+            )}
+        </div>
+    );
+}
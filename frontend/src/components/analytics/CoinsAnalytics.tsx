@@ -9,6 +9,7 @@ import { Card } from '../common/Card';
 import { AnalyticsData, MarketAnalytics } from '../../hooks/useAnalytics';
 import { MarketStatus } from '../../types';
 import { filterMarkets } from '../../utils/filterMarkets';
+import { useBlockClock } from '../../hooks/useBlockClock';
 import { getAllMarketMetadata } from '../../utils/marketQuestions';
 import { searchCoins } from '../../utils/coinList';
 
@@ -101,12 +102,13 @@ function CoinFilter({ value, onChange }: { value: string; onChange: (v: string)
 }
 
 export function CoinsAnalytics({ data, search, blockRange, dateRange }: Props): React.JSX.Element {
+    const clock = useBlockClock();
     const [coinFilter, setCoinFilter] = useState('');
 
     const metadataMap = useMemo(() => getAllMarketMetadata(), [data.markets]);
 
     const filtered = useMemo((): MarketAnalytics[] => {
-        let markets = filterMarkets({ markets: data.markets, search, blockRange, dateRange });
+        let markets = filterMarkets({ markets: data.markets, search, blockRange, dateRange, clock });
         // Only show price prediction markets (those with coin metadata)
         markets = markets.filter((m) => {
             const meta = metadataMap.get(m.id.toString());
@@ -121,7 +123,7 @@ export function CoinsAnalytics({ data, search, blockRange, dateRange }: Props):
             });
         }
         return markets;
-    }, [data.markets, search, blockRange, dateRange, coinFilter, metadataMap]);
+    }, [data.markets, search, blockRange, dateRange, clock, coinFilter, metadataMap]);
 
     const totalSats = filtered.reduce((acc, m) => acc + Number(m.totalPool), 0);
     const totalYes = filtered.reduce((acc, m) => acc + Number(m.yesPool), 0);
@@ -8,6 +8,8 @@ import { Card } from '../common/Card';
 import { AnalyticsData, MarketAnalytics } from '../../hooks/useAnalytics';
 import { MarketStatus } from '../../types';
 import { filterMarkets } from '../../utils/filterMarkets';
+import { useBlockClock } from '../../hooks/useBlockClock';
+import { outcomeColor } from '../../utils/outcomes';
 
 interface Props {
     data: AnalyticsData;
@@ -16,6 +18,14 @@ interface Props {
     dateRange: { from: string; to: string };
 }
 
+const STATUS_TEXT: Partial<Record<MarketStatus, string>> = {
+    [MarketStatus.OPEN]: 'LIVE',
+    [MarketStatus.RESOLVED]: 'RESOLVED',
+    [MarketStatus.CANCELLED]: 'CANCELLED',
+    [MarketStatus.PROPOSED]: 'PROPOSED',
+    [MarketStatus.DISPUTED]: 'DISPUTED',
+};
+
 function formatSats(sats: bigint): string {
     const btc = Number(sats) / 100_000_000;
     if (btc >= 0.001) return `${btc.toFixed(4)} BTC`;
@@ -49,20 +59,25 @@ function CustomTooltip({ active, payload, label }: any): React.JSX.Element | nul
 }
 
 export function MarketsAnalytics({ data, search, blockRange, dateRange }: Props): React.JSX.Element {
+    const clock = useBlockClock();
     const navigate = useNavigate();
     const { overview } = data;
 
     const filtered = useMemo((): MarketAnalytics[] => {
-        return filterMarkets({ markets: data.markets, search, blockRange, dateRange });
-    }, [data.markets, search, blockRange, dateRange]);
+        return filterMarkets({ markets: data.markets, search, blockRange, dateRange, clock });
+    }, [data.markets, search, blockRange, dateRange, clock]);
 
     const volumeData = filtered.map((m) => ({
         name: `#${m.id}`,
         question: m.question,
         YES: Number(m.yesPool),
         NO: Number(m.noPool),
+        Categorical: m.outcomeCount > 2 ? Number(m.totalPool) : 0,
     }));
 
+    const filteredIds = new Set(filtered.map((m) => m.id));
+    const categoricalData = data.categoricalDistribution.filter((d) => filteredIds.has(d.id));
+
     return (
         <div className="space-y-6">
             {/* Overview stats */}
@@ -78,6 +93,12 @@ export function MarketsAnalytics({ data, search, blockRange, dateRange }: Props)
                 <StatCard label="YES Volume" value={formatSats(overview.totalYesVolume)} color="text-green-400" />
                 <StatCard label="NO Volume" value={formatSats(overview.totalNoVolume)} color="text-red-400" />
             </div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <StatCard label="Fee Revenue" value={formatSats(overview.totalProtocolFees + overview.totalCreatorFees)} color="text-[var(--color-btc-orange)]" />
+                <StatCard label="Protocol Fees" value={formatSats(overview.totalProtocolFees)} />
+                <StatCard label="Creator Fees" value={formatSats(overview.totalCreatorFees)} />
+                <StatCard label="Cancelled" value={String(overview.cancelledMarkets)} color="text-red-400" />
+            </div>
 
             {/* Charts row */}
             <div className="grid md:grid-cols-2 gap-6">
@@ -92,6 +113,7 @@ export function MarketsAnalytics({ data, search, blockRange, dateRange }: Props)
                                 <Tooltip content={<CustomTooltip />} />
                                 <Bar dataKey="YES" stackId="a" fill="#22c55e" radius={[0, 0, 0, 0]} />
                                 <Bar dataKey="NO" stackId="a" fill="#ef4444" radius={[4, 4, 0, 0]} />
+                                <Bar dataKey="Categorical" stackId="a" fill="#a855f7" radius={[4, 4, 0, 0]} />
                             </BarChart>
                         </ResponsiveContainer>
                     ) : (
@@ -133,6 +155,50 @@ export function MarketsAnalytics({ data, search, blockRange, dateRange }: Props)
                 </Card>
             </div>
 
+            {/* Categorical outcome distribution */}
+            {categoricalData.length > 0 && (
+                <Card>
+                    <h3 className="text-sm font-semibold text-[var(--color-text-primary)] mb-4">
+                        Categorical Outcome Distribution
+                    </h3>
+                    <div className="grid md:grid-cols-2 gap-6">
+                        {categoricalData.map((d) => (
+                            <div key={d.name}>
+                                <p
+                                    className="text-xs text-[var(--color-text-secondary)] mb-2 truncate cursor-pointer hover:text-[var(--color-btc-orange)]"
+                                    title={d.question}
+                                    onClick={() => navigate(`/market/${d.id}`)}
+                                >
+                                    <span className="text-[var(--color-btc-orange)] font-medium">{d.name}</span> {d.question}
+                                </p>
+                                <ResponsiveContainer width="100%" height={28 * d.outcomes.length + 20}>
+                                    <BarChart data={d.outcomes} layout="vertical" margin={{ left: 8, right: 8 }}>
+                                        <XAxis type="number" tick={{ fill: '#8888a0', fontSize: 11 }} axisLine={{ stroke: '#2a2a3a' }} />
+                                        <YAxis
+                                            type="category"
+                                            dataKey="label"
+                                            width={90}
+                                            tick={{ fill: '#8888a0', fontSize: 11 }}
+                                            axisLine={{ stroke: '#2a2a3a' }}
+                                        />
+                                        <Tooltip
+                                            formatter={(value) => [`${Number(value ?? 0).toLocaleString()} sats`, 'Pool']}
+                                            contentStyle={{ backgroundColor: '#1a1a2a', border: '1px solid #2a2a3a', borderRadius: 8, fontSize: 12 }}
+                                            itemStyle={{ color: '#e4e4ec' }}
+                                        />
+                                        <Bar dataKey="value" radius={[0, 4, 4, 0]}>
+                                            {d.outcomes.map((_, i) => (
+                                                <Cell key={i} fill={outcomeColor(i)} />
+                                            ))}
+                                        </Bar>
+                                    </BarChart>
+                                </ResponsiveContainer>
+                            </div>
+                        ))}
+                    </div>
+                </Card>
+            )}
+
             {/* Market table */}
             <Card>
                 <h3 className="text-sm font-semibold text-[var(--color-text-primary)] mb-4">
@@ -148,7 +214,7 @@ export function MarketsAnalytics({ data, search, blockRange, dateRange }: Props)
                                 <th className="text-right py-2 pr-3">YES</th>
                                 <th className="text-right py-2 pr-3">NO</th>
                                 <th className="text-right py-2 pr-3">Total</th>
-                                <th className="text-right py-2">End Block</th>
+                                <th className="text-right py-2">Close Block</th>
                             </tr>
                         </thead>
                         <tbody>
@@ -164,15 +230,19 @@ export function MarketsAnalytics({ data, search, blockRange, dateRange }: Props)
                                         <span className={`text-xs font-bold px-2 py-0.5 rounded-full ${
                                             m.status === MarketStatus.OPEN
                                                 ? 'text-green-400 bg-green-400/10'
-                                                : 'text-[var(--color-text-secondary)] bg-[var(--color-text-secondary)]/10'
+                                                : m.status === MarketStatus.CANCELLED || m.status === MarketStatus.DISPUTED
+                                                    ? 'text-red-400 bg-red-400/10'
+                                                    : m.status === MarketStatus.PROPOSED
+                                                        ? 'text-[var(--color-btc-orange)] bg-[var(--color-btc-orange)]/10'
+                                                        : 'text-[var(--color-text-secondary)] bg-[var(--color-text-secondary)]/10'
                                         }`}>
-                                            {m.status === MarketStatus.OPEN ? 'LIVE' : 'RESOLVED'}
+                                            {STATUS_TEXT[m.status] ?? 'UNKNOWN'}
                                         </span>
                                     </td>
-                                    <td className="py-2.5 pr-3 text-right text-green-400">{formatSats(m.yesPool)}</td>
-                                    <td className="py-2.5 pr-3 text-right text-red-400">{formatSats(m.noPool)}</td>
+                                    <td className="py-2.5 pr-3 text-right text-green-400">{m.outcomeCount > 2 ? '—' : formatSats(m.yesPool)}</td>
+                                    <td className="py-2.5 pr-3 text-right text-red-400">{m.outcomeCount > 2 ? '—' : formatSats(m.noPool)}</td>
                                     <td className="py-2.5 pr-3 text-right text-[var(--color-btc-orange)] font-medium">{formatSats(m.totalPool)}</td>
-                                    <td className="py-2.5 text-right text-[var(--color-text-secondary)]">#{m.endBlock.toLocaleString()}</td>
+                                    <td className="py-2.5 text-right text-[var(--color-text-secondary)]">#{m.closeBlock.toLocaleString()}</td>
                                 </tr>
                             ))}
                             {filtered.length === 0 && (
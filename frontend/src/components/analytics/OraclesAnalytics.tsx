@@ -6,7 +6,10 @@ import {
 } from 'recharts';
 import { Card } from '../common/Card';
 import { AnalyticsData, MarketAnalytics } from '../../hooks/useAnalytics';
+import { useBlockClock } from '../../hooks/useBlockClock';
+import { estimateCurrentBlock } from '../../services/BlockTimeService';
 import { MarketStatus, MarketOutcome } from '../../types';
+import { marketOracles } from '../../utils/outcomes';
 
 interface Props {
     data: AnalyticsData;
@@ -22,6 +25,9 @@ interface OracleStats {
     resolvedNo: number;
     totalVolume: bigint;
     avgPoolSize: bigint;
+    /** Committee votes on markets that have since resolved, and how many matched the final outcome. */
+    settledVotes: number;
+    agreedVotes: number;
     markets: MarketAnalytics[];
 }
 
@@ -36,38 +42,67 @@ function formatSats(sats: bigint): string {
     return `${Number(sats).toLocaleString()} sats`;
 }
 
-type SortKey = 'marketsServed' | 'marketsResolved' | 'totalVolume';
+function agreementRate(o: OracleStats): number | null {
+    return o.settledVotes > 0 ? (o.agreedVotes / o.settledVotes) * 100 : null;
+}
+
+function formatAgreement(o: OracleStats): string {
+    const rate = agreementRate(o);
+    return rate === null ? '—' : `${rate.toFixed(0)}%`;
+}
+
+type SortKey = 'marketsServed' | 'marketsResolved' | 'totalVolume' | 'agreement';
+
+const SORT_LABELS: Record<SortKey, string> = {
+    marketsServed: 'Served',
+    marketsResolved: 'Resolved',
+    totalVolume: 'Volume',
+    agreement: 'Agreement',
+};
 
 export function OraclesAnalytics({ data, search }: Props): React.JSX.Element {
     const [sortBy, setSortBy] = useState<SortKey>('marketsServed');
     const [expandedOracle, setExpandedOracle] = useState<string | null>(null);
+    const clock = useBlockClock();
 
     const oracleStats = useMemo((): OracleStats[] => {
         const map = new Map<string, OracleStats>();
         for (const m of data.markets) {
-            if (!map.has(m.oracle)) {
-                map.set(m.oracle, {
-                    address: m.oracle,
-                    marketsServed: 0,
-                    marketsResolved: 0,
-                    marketsPending: 0,
-                    resolvedYes: 0,
-                    resolvedNo: 0,
-                    totalVolume: 0n,
-                    avgPoolSize: 0n,
-                    markets: [],
-                });
-            }
-            const o = map.get(m.oracle)!;
-            o.marketsServed++;
-            o.totalVolume += m.totalPool;
-            o.markets.push(m);
-            if (m.status === MarketStatus.RESOLVED) {
-                o.marketsResolved++;
-                if (m.outcome === MarketOutcome.YES) o.resolvedYes++;
-                if (m.outcome === MarketOutcome.NO) o.resolvedNo++;
-            } else {
-                o.marketsPending++;
+            // Committee markets count towards every member
+            for (const [i, addr] of marketOracles(m).entries()) {
+                if (!map.has(addr)) {
+                    map.set(addr, {
+                        address: addr,
+                        marketsServed: 0,
+                        marketsResolved: 0,
+                        marketsPending: 0,
+                        resolvedYes: 0,
+                        resolvedNo: 0,
+                        totalVolume: 0n,
+                        avgPoolSize: 0n,
+                        settledVotes: 0,
+                        agreedVotes: 0,
+                        markets: [],
+                    });
+                }
+                const o = map.get(addr)!;
+                o.marketsServed++;
+                o.totalVolume += m.totalPool;
+                o.markets.push(m);
+                if (m.status === MarketStatus.RESOLVED) {
+                    o.marketsResolved++;
+                    // Categorical outcomes reuse indices 1 and 2, so only binary markets count here
+                    if (m.outcomeCount <= 2 && m.outcome === MarketOutcome.YES) o.resolvedYes++;
+                    if (m.outcomeCount <= 2 && m.outcome === MarketOutcome.NO) o.resolvedNo++;
+
+                    const vote = m.committee?.votes[i] ?? MarketOutcome.NONE;
+                    if (vote !== MarketOutcome.NONE) {
+                        o.settledVotes++;
+                        if (vote === m.outcome) o.agreedVotes++;
+                    }
+                } else if (m.status !== MarketStatus.CANCELLED) {
+                    o.marketsPending++;
+                }
             }
         }
         for (const o of map.values()) {
@@ -84,14 +119,30 @@ export function OraclesAnalytics({ data, search }: Props): React.JSX.Element {
         }
         const sortFn = (a: OracleStats, b: OracleStats): number => {
             if (sortBy === 'totalVolume') return Number(b.totalVolume - a.totalVolume);
+            if (sortBy === 'agreement') return (agreementRate(b) ?? -1) - (agreementRate(a) ?? -1);
             return b[sortBy] - a[sortBy];
         };
         return [...oracles].sort(sortFn);
     }, [oracleStats, search, sortBy]);
 
+    // Open markets whose oracle missed the resolution timeout; the fallback
+    // oracle or the owner can resolve them now
+    const overdueMarkets = useMemo(() => {
+        if (!clock) return [];
+        const currentBlock = estimateCurrentBlock(clock);
+        return data.markets
+            .filter((m) => m.status === MarketStatus.OPEN
+                && m.resolutionTimeoutBlock > 0n
+                && currentBlock >= m.resolutionTimeoutBlock)
+            .map((m) => ({ market: m, blocksOverdue: currentBlock - m.resolutionTimeoutBlock }))
+            .sort((a, b) => Number(b.blocksOverdue - a.blocksOverdue));
+    }, [data.markets, clock]);
+
     const totalOracles = oracleStats.length;
     const totalResolved = oracleStats.reduce((acc, o) => acc + o.marketsResolved, 0);
     const totalPending = oracleStats.reduce((acc, o) => acc + o.marketsPending, 0);
+    const totalSettledVotes = oracleStats.reduce((acc, o) => acc + o.settledVotes, 0);
+    const totalAgreedVotes = oracleStats.reduce((acc, o) => acc + o.agreedVotes, 0);
 
     // Top oracles by markets served
     const topOracles = filtered.slice(0, 10).map((o) => ({
@@ -126,6 +177,7 @@ export function OraclesAnalytics({ data, search }: Props): React.JSX.Element {
             { metric: 'Volume', value: (Number(o.totalVolume) / maxVolume) * 100 },
             { metric: 'YES Rate', value: o.marketsResolved > 0 ? (o.resolvedYes / o.marketsResolved) * 100 : 0 },
             { metric: 'Completion', value: o.marketsServed > 0 ? (o.marketsResolved / o.marketsServed) * 100 : 0 },
+            { metric: 'Agreement', value: agreementRate(o) ?? 0 },
         ];
     }, [expandedOracle, oracleStats]);
 
@@ -134,7 +186,7 @@ export function OraclesAnalytics({ data, search }: Props): React.JSX.Element {
     return (
         <div className="space-y-6">
             {/* Summary stats */}
-            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
                 <div className="bg-[var(--color-bg-card)] border border-[var(--color-border)] rounded-xl px-4 py-3">
                     <p className="text-xs uppercase tracking-wider text-[var(--color-text-muted)] mb-1">Total Oracles</p>
                     <p className="text-xl font-bold text-[var(--color-btc-orange)]">{totalOracles}</p>
@@ -147,12 +199,24 @@ export function OraclesAnalytics({ data, search }: Props): React.JSX.Element {
                     <p className="text-xs uppercase tracking-wider text-[var(--color-text-muted)] mb-1">Pending Resolution</p>
                     <p className="text-xl font-bold text-[var(--color-btc-orange)]">{totalPending}</p>
                 </div>
+                <div className="bg-[var(--color-bg-card)] border border-[var(--color-border)] rounded-xl px-4 py-3">
+                    <p className="text-xs uppercase tracking-wider text-[var(--color-text-muted)] mb-1">Overdue</p>
+                    <p className={`text-xl font-bold ${overdueMarkets.length > 0 ? 'text-red-400' : 'text-[var(--color-text-primary)]'}`}>
+                        {clock ? overdueMarkets.length : '—'}
+                    </p>
+                </div>
                 <div className="bg-[var(--color-bg-card)] border border-[var(--color-border)] rounded-xl px-4 py-3">
                     <p className="text-xs uppercase tracking-wider text-[var(--color-text-muted)] mb-1">Avg Markets/Oracle</p>
                     <p className="text-xl font-bold text-[var(--color-text-primary)]">
                         {totalOracles > 0 ? (data.markets.length / totalOracles).toFixed(1) : '0'}
                     </p>
                 </div>
+                <div className="bg-[var(--color-bg-card)] border border-[var(--color-border)] rounded-xl px-4 py-3">
+                    <p className="text-xs uppercase tracking-wider text-[var(--color-text-muted)] mb-1">Committee Agreement</p>
+                    <p className="text-xl font-bold text-[var(--color-text-primary)]">
+                        {totalSettledVotes > 0 ? `${((totalAgreedVotes / totalSettledVotes) * 100).toFixed(0)}%` : '—'}
+                    </p>
+                </div>
             </div>
 
             {/* Charts row */}
@@ -216,6 +280,51 @@ export function OraclesAnalytics({ data, search }: Props): React.JSX.Element {
                 </Card>
             </div>
 
+            {/* Markets past their resolution timeout */}
+            {overdueMarkets.length > 0 && (
+                <Card>
+                    <h3 className="text-sm font-semibold text-[var(--color-text-primary)] mb-1">
+                        Overdue Markets ({overdueMarkets.length})
+                    </h3>
+                    <p className="text-xs text-[var(--color-text-muted)] mb-4">
+                        The oracle missed the resolution timeout. The fallback oracle, or the owner, can resolve these now.
+                    </p>
+                    <div className="overflow-x-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-[var(--color-text-muted)] text-xs uppercase tracking-wider border-b border-[var(--color-border)]">
+                                    <th className="text-left py-2 pr-3">Market</th>
+                                    <th className="text-left py-2 pr-3">Oracle</th>
+                                    <th className="text-left py-2 pr-3">Fallback</th>
+                                    <th className="text-right py-2 pr-3">Pool</th>
+                                    <th className="text-right py-2">Overdue</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {overdueMarkets.map(({ market: m, blocksOverdue }) => (
+                                    <tr key={m.id.toString()} className="border-b border-[var(--color-border)]/50">
+                                        <td className="py-2.5 pr-3 text-xs text-[var(--color-text-secondary)]">
+                                            <span className="text-[var(--color-btc-orange)]">#{m.id.toString()}</span>{' '}
+                                            {m.question}
+                                        </td>
+                                        <td className="py-2.5 pr-3 font-mono text-xs text-[var(--color-text-primary)]">
+                                            {m.committee ? `${m.committee.members.length}-member committee` : truncateAddr(m.oracle)}
+                                        </td>
+                                        <td className="py-2.5 pr-3 font-mono text-xs text-[var(--color-text-secondary)]">
+                                            {m.fallbackOracle ? truncateAddr(m.fallbackOracle) : 'Owner only'}
+                                        </td>
+                                        <td className="py-2.5 pr-3 text-right text-[var(--color-text-primary)]">{formatSats(m.totalPool)}</td>
+                                        <td className="py-2.5 text-right text-red-400 font-medium">
+                                            {blocksOverdue.toLocaleString()} blocks
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </Card>
+            )}
+
             {/* Oracle radar detail (if expanded) */}
             {expandedOracleData && radarData.length > 0 && (
                 <Card>
@@ -269,6 +378,14 @@ export function OraclesAnalytics({ data, search }: Props): React.JSX.Element {
                                     {expandedOracleData.resolvedYes}Y / {expandedOracleData.resolvedNo}N
                                 </span>
                             </div>
+                            <div className="flex justify-between text-sm">
+                                <span className="text-[var(--color-text-secondary)]">Committee Agreement</span>
+                                <span className="text-[var(--color-text-primary)]">
+                                    {expandedOracleData.settledVotes > 0
+                                        ? `${expandedOracleData.agreedVotes} / ${expandedOracleData.settledVotes} votes`
+                                        : 'No committee votes'}
+                                </span>
+                            </div>
                         </div>
                     </div>
                     {/* Oracle's markets */}
@@ -283,11 +400,13 @@ export function OraclesAnalytics({ data, search }: Props): React.JSX.Element {
                                     </span>
                                     <span className="shrink-0 ml-2">
                                         <span className={`font-bold ${
-                                            m.status === MarketStatus.RESOLVED ? 'text-[var(--color-text-secondary)]' : 'text-green-400'
+                                            m.status === MarketStatus.OPEN ? 'text-green-400' : 'text-[var(--color-text-secondary)]'
                                         }`}>
                                             {m.status === MarketStatus.RESOLVED
                                                 ? m.outcome === MarketOutcome.YES ? 'YES' : 'NO'
-                                                : 'LIVE'}
+                                                : m.status === MarketStatus.CANCELLED
+                                                    ? 'CANCELLED'
+                                                    : m.status === MarketStatus.OPEN ? 'LIVE' : 'SETTLING'}
                                         </span>
                                         {' '}{formatSats(m.totalPool)}
                                     </span>
@@ -305,7 +424,7 @@ export function OraclesAnalytics({ data, search }: Props): React.JSX.Element {
                         All Oracles ({filtered.length})
                     </h3>
                     <div className="flex gap-1">
-                        {(['marketsServed', 'marketsResolved', 'totalVolume'] as SortKey[]).map((key) => (
+                        {(['marketsServed', 'marketsResolved', 'totalVolume', 'agreement'] as SortKey[]).map((key) => (
                             <button
                                 key={key}
                                 onClick={() => setSortBy(key)}
@@ -315,7 +434,7 @@ export function OraclesAnalytics({ data, search }: Props): React.JSX.Element {
                                         : 'text-[var(--color-text-muted)] hover:text-[var(--color-text-secondary)]'
                                 }`}
                             >
-                                {key === 'marketsServed' ? 'Served' : key === 'marketsResolved' ? 'Resolved' : 'Volume'}
+                                {SORT_LABELS[key]}
                             </button>
                         ))}
                     </div>
@@ -329,7 +448,8 @@ export function OraclesAnalytics({ data, search }: Props): React.JSX.Element {
                                 <th className="text-right py-2 pr-3">Resolved</th>
                                 <th className="text-right py-2 pr-3">Pending</th>
                                 <th className="text-right py-2 pr-3">Volume</th>
-                                <th className="text-right py-2">Completion</th>
+                                <th className="text-right py-2 pr-3">Completion</th>
+                                <th className="text-right py-2">Agreement</th>
                             </tr>
                         </thead>
                         <tbody>
@@ -350,7 +470,7 @@ export function OraclesAnalytics({ data, search }: Props): React.JSX.Element {
                                     <td className="py-2.5 pr-3 text-right text-green-400">{o.marketsResolved}</td>
                                     <td className="py-2.5 pr-3 text-right text-[var(--color-btc-orange)]">{o.marketsPending}</td>
                                     <td className="py-2.5 pr-3 text-right text-[var(--color-text-primary)]">{formatSats(o.totalVolume)}</td>
-                                    <td className="py-2.5 text-right">
+                                    <td className="py-2.5 pr-3 text-right">
                                         <span className={`font-medium ${
                                             o.marketsServed > 0 && o.marketsResolved === o.marketsServed
                                                 ? 'text-green-400'
@@ -361,11 +481,14 @@ export function OraclesAnalytics({ data, search }: Props): React.JSX.Element {
                                                 : '—'}
                                         </span>
                                     </td>
+                                    <td className="py-2.5 text-right text-[var(--color-text-secondary)]">
+                                        {formatAgreement(o)}
+                                    </td>
                                 </tr>
                             ))}
                             {filtered.length === 0 && (
                                 <tr>
-                                    <td colSpan={6} className="py-8 text-center text-[var(--color-text-muted)]">
+                                    <td colSpan={7} className="py-8 text-center text-[var(--color-text-muted)]">
                                         No oracles match your search
                                     </td>
                                 </tr>
@@ -6,6 +6,8 @@ import {
 import { Card } from '../common/Card';
 import { AnalyticsData, MarketAnalytics } from '../../hooks/useAnalytics';
 import { filterMarkets } from '../../utils/filterMarkets';
+import { useBlockClock } from '../../hooks/useBlockClock';
+import { marketOracles } from '../../utils/outcomes';
 
 interface Props {
     data: AnalyticsData;
@@ -38,9 +40,10 @@ function ChartTooltip({ active, payload, label }: any): React.JSX.Element | null
 }
 
 export function OverviewAnalytics({ data, search, blockRange, dateRange }: Props): React.JSX.Element {
+    const clock = useBlockClock();
     const filtered = useMemo((): MarketAnalytics[] => {
-        return filterMarkets({ markets: data.markets, search, blockRange, dateRange });
-    }, [data.markets, search, blockRange, dateRange]);
+        return filterMarkets({ markets: data.markets, search, blockRange, dateRange, clock });
+    }, [data.markets, search, blockRange, dateRange, clock]);
 
     const tvl = useMemo(() => filtered.reduce((acc, m) => acc + m.totalPool, 0n), [filtered]);
     const tvlOpen = useMemo(
@@ -87,9 +90,10 @@ export function OverviewAnalytics({ data, search, blockRange, dateRange }: Props
         question: m.question,
         YES: Number(m.yesPool),
         NO: Number(m.noPool),
+        Categorical: m.outcomeCount > 2 ? Number(m.totalPool) : 0,
     }));
 
-    const uniqueOracles = new Set(filtered.map((m) => m.oracle)).size;
+    const uniqueOracles = new Set(filtered.flatMap(marketOracles)).size;
     const uniqueCreators = new Set(filtered.map((m) => m.creator)).size;
 
     return (
@@ -189,6 +193,7 @@ export function OverviewAnalytics({ data, search, blockRange, dateRange }: Props
                                 <Tooltip content={<ChartTooltip />} />
                                 <Bar dataKey="YES" stackId="a" fill="#22c55e" radius={[0, 0, 0, 0]} />
                                 <Bar dataKey="NO" stackId="a" fill="#ef4444" radius={[4, 4, 0, 0]} />
+                                <Bar dataKey="Categorical" stackId="a" fill="#a855f7" radius={[4, 4, 0, 0]} />
                             </BarChart>
                         </ResponsiveContainer>
                     ) : (
@@ -8,6 +8,8 @@ import {
 import { Card } from '../common/Card';
 import { AnalyticsData, MarketAnalytics } from '../../hooks/useAnalytics';
 import { filterMarkets } from '../../utils/filterMarkets';
+import { useBlockClock } from '../../hooks/useBlockClock';
+import { buildDailyActivity } from '../../utils/activitySeries';
 
 interface Props {
     data: AnalyticsData;
@@ -34,9 +36,10 @@ function ChartTooltip({ active, payload, label }: any): React.JSX.Element | null
 }
 
 export function TrendsAnalytics({ data, search, blockRange, dateRange }: Props): React.JSX.Element {
+    const clock = useBlockClock();
     const filtered = useMemo((): MarketAnalytics[] => {
-        return filterMarkets({ markets: data.markets, search, blockRange, dateRange });
-    }, [data.markets, search, blockRange, dateRange]);
+        return filterMarkets({ markets: data.markets, search, blockRange, dateRange, clock });
+    }, [data.markets, search, blockRange, dateRange, clock]);
 
     // Cumulative volume over markets
     const cumulativeVolume = useMemo(() => {
@@ -70,13 +73,25 @@ export function TrendsAnalytics({ data, search, blockRange, dateRange }: Props):
         Pool: Number(m.totalPool),
     }));
 
-    // Market duration (endBlock spread)
+    // Market duration (closeBlock spread)
     const durationData = filtered.map((m) => ({
         name: `#${m.id}`,
         question: m.question,
-        'End Block': Number(m.endBlock),
+        'Close Block': Number(m.closeBlock),
     }));
 
+    // Daily activity from indexed events, limited to the filtered markets
+    const dailyActivity = useMemo(() => {
+        if (!data.activity) return [];
+        const ids = new Set(filtered.map((m) => m.id));
+        return buildDailyActivity(data.activity, ids).map((d) => ({
+            name: d.day,
+            Volume: Number(d.volume),
+            'New Markets': d.newMarkets,
+            'Active Bettors': d.activeBettors,
+        }));
+    }, [data.activity, filtered]);
+
     const totalFiltered = filtered.reduce((acc, m) => acc + Number(m.totalPool), 0);
     const avgYesBias = filtered.length > 0
         ? filtered.reduce((acc, m) => acc + m.yesPercent, 0) / filtered.length
@@ -136,6 +151,61 @@ export function TrendsAnalytics({ data, search, blockRange, dateRange }: Props):
                 )}
             </Card>
 
+            {/* Daily activity from indexed events */}
+            <Card>
+                <h3 className="text-sm font-semibold text-[var(--color-text-primary)] mb-4">Daily Volume</h3>
+                {!data.activity ? (
+                    <p className="text-[var(--color-text-muted)] text-sm text-center py-10">
+                        Daily activity is unavailable until the event indexer has populated Supabase
+                    </p>
+                ) : dailyActivity.length > 0 ? (
+                    <ResponsiveContainer width="100%" height={240}>
+                        <BarChart data={dailyActivity}>
+                            <XAxis dataKey="name" tick={{ fill: '#8888a0', fontSize: 11 }} axisLine={{ stroke: '#2a2a3a' }} />
+                            <YAxis tick={{ fill: '#8888a0', fontSize: 11 }} axisLine={{ stroke: '#2a2a3a' }} />
+                            <Tooltip content={<ChartTooltip />} />
+                            <Bar dataKey="Volume" fill="#f7931a" radius={[4, 4, 0, 0]} />
+                        </BarChart>
+                    </ResponsiveContainer>
+                ) : (
+                    <p className="text-[var(--color-text-muted)] text-sm text-center py-10">No data to display</p>
+                )}
+            </Card>
+
+            {data.activity && dailyActivity.length > 0 && (
+                <div className="grid md:grid-cols-2 gap-6">
+                    <Card>
+                        <h3 className="text-sm font-semibold text-[var(--color-text-primary)] mb-4">New Markets per Day</h3>
+                        <ResponsiveContainer width="100%" height={220}>
+                            <BarChart data={dailyActivity}>
+                                <XAxis dataKey="name" tick={{ fill: '#8888a0', fontSize: 11 }} axisLine={{ stroke: '#2a2a3a' }} />
+                                <YAxis allowDecimals={false} tick={{ fill: '#8888a0', fontSize: 11 }} axisLine={{ stroke: '#2a2a3a' }} />
+                                <Tooltip
+                                    contentStyle={{ backgroundColor: '#1a1a2a', border: '1px solid #2a2a3a', borderRadius: 8, fontSize: 12 }}
+                                    itemStyle={{ color: '#e4e4ec' }}
+                                />
+                                <Bar dataKey="New Markets" fill="#8888a0" radius={[4, 4, 0, 0]} />
+                            </BarChart>
+                        </ResponsiveContainer>
+                    </Card>
+
+                    <Card>
+                        <h3 className="text-sm font-semibold text-[var(--color-text-primary)] mb-4">Active Bettors per Day</h3>
+                        <ResponsiveContainer width="100%" height={220}>
+                            <LineChart data={dailyActivity}>
+                                <XAxis dataKey="name" tick={{ fill: '#8888a0', fontSize: 11 }} axisLine={{ stroke: '#2a2a3a' }} />
+                                <YAxis allowDecimals={false} tick={{ fill: '#8888a0', fontSize: 11 }} axisLine={{ stroke: '#2a2a3a' }} />
+                                <Tooltip
+                                    contentStyle={{ backgroundColor: '#1a1a2a', border: '1px solid #2a2a3a', borderRadius: 8, fontSize: 12 }}
+                                    itemStyle={{ color: '#e4e4ec' }}
+                                />
+                                <Line type="monotone" dataKey="Active Bettors" stroke="#22c55e" strokeWidth={2} dot={{ fill: '#22c55e', r: 3 }} />
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </Card>
+                </div>
+            )}
+
             <div className="grid md:grid-cols-2 gap-6">
                 {/* YES/NO ratio line chart */}
                 <Card>
@@ -208,14 +278,14 @@ export function TrendsAnalytics({ data, search, blockRange, dateRange }: Props):
                 </Card>
 
                 <Card>
-                    <h3 className="text-sm font-semibold text-[var(--color-text-primary)] mb-4">Market End Blocks</h3>
+                    <h3 className="text-sm font-semibold text-[var(--color-text-primary)] mb-4">Market Close Blocks</h3>
                     {durationData.length > 0 ? (
                         <ResponsiveContainer width="100%" height={220}>
                             <BarChart data={durationData}>
                                 <XAxis dataKey="name" tick={{ fill: '#8888a0', fontSize: 11 }} axisLine={{ stroke: '#2a2a3a' }} />
                                 <YAxis tick={{ fill: '#8888a0', fontSize: 11 }} axisLine={{ stroke: '#2a2a3a' }} />
                                 <Tooltip content={<ChartTooltip />} />
-                                <Bar dataKey="End Block" fill="#8888a0" radius={[4, 4, 0, 0]} />
+                                <Bar dataKey="Close Block" fill="#8888a0" radius={[4, 4, 0, 0]} />
                             </BarChart>
                         </ResponsiveContainer>
                     ) : (
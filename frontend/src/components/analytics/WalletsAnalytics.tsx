@@ -4,20 +4,190 @@ import {
     PieChart, Pie, Cell, Legend,
 } from 'recharts';
 import { Card } from '../common/Card';
-import { AnalyticsData, WalletStats } from '../../hooks/useAnalytics';
+import { AnalyticsData, MarketAnalytics, WalletStats } from '../../hooks/useAnalytics';
+import { marketOracles } from '../../utils/outcomes';
+import { BettorStats, computeBettorStats } from '../../utils/bettorStats';
 
 interface Props {
     data: AnalyticsData;
     search: string;
 }
 
-type SortKey = 'totalActivity' | 'marketsCreated' | 'marketsAsOracle';
+type SortKey = 'totalActivity' | 'marketsCreated' | 'marketsAsOracle' | 'volumeBet' | 'realizedPnl';
+
+const SORT_LABELS: Record<SortKey, string> = {
+    totalActivity: 'Activity',
+    marketsCreated: 'Created',
+    marketsAsOracle: 'Oracle',
+    volumeBet: 'Volume',
+    realizedPnl: 'PnL',
+};
+
+type LeaderboardSort = 'realizedPnl' | 'volumeBet' | 'winRate' | 'largestWin';
+
+const LEADERBOARD_SORT_LABELS: Record<LeaderboardSort, string> = {
+    realizedPnl: 'PnL',
+    volumeBet: 'Volume',
+    winRate: 'Win Rate',
+    largestWin: 'Largest Win',
+};
+
+type TimeWindow = '24h' | '7d' | '30d' | 'all';
+
+const WINDOWS: { key: TimeWindow; label: string; ms: number | null }[] = [
+    { key: '24h', label: '24H', ms: 24 * 60 * 60 * 1000 },
+    { key: '7d', label: '7D', ms: 7 * 24 * 60 * 60 * 1000 },
+    { key: '30d', label: '30D', ms: 30 * 24 * 60 * 60 * 1000 },
+    { key: 'all', label: 'All', ms: null },
+];
+
+const LEADERBOARD_SIZE = 25;
 
 function truncateAddr(addr: string): string {
     if (addr.length <= 16) return addr;
     return `${addr.slice(0, 8)}...${addr.slice(-6)}`;
 }
 
+function formatSats(sats: bigint): string {
+    const btc = Number(sats) / 100_000_000;
+    if (Math.abs(btc) >= 0.001) return `${btc.toFixed(4)} BTC`;
+    return `${Number(sats).toLocaleString()} sats`;
+}
+
+function formatPnl(pnl: bigint): string {
+    return pnl > 0n ? `+${formatSats(pnl)}` : formatSats(pnl);
+}
+
+function pnlColor(pnl: bigint): string {
+    if (pnl > 0n) return 'text-green-400';
+    if (pnl < 0n) return 'text-red-400';
+    return 'text-[var(--color-text-secondary)]';
+}
+
+function formatWinRate(rate: number | null): string {
+    return rate === null ? '—' : `${rate.toFixed(0)}%`;
+}
+
+function compareBigint(a: bigint, b: bigint): number {
+    return a > b ? 1 : a < b ? -1 : 0;
+}
+
+function BettorLeaderboard({ data, search }: Props): React.JSX.Element {
+    const [sortBy, setSortBy] = useState<LeaderboardSort>('realizedPnl');
+    const [timeWindow, setTimeWindow] = useState<TimeWindow>('all');
+
+    const rows = useMemo((): BettorStats[] => {
+        if (!data.activity) return [];
+        const ms = WINDOWS.find((w) => w.key === timeWindow)?.ms ?? null;
+        const since = ms === null ? null : new Date(Date.now() - ms);
+        let bettors = computeBettorStats(data.markets, data.activity, since);
+        if (search) {
+            const q = search.toLowerCase();
+            bettors = bettors.filter((b) => b.address.toLowerCase().includes(q));
+        }
+        return bettors.sort((a, b) => {
+            if (sortBy === 'winRate') return (b.winRate ?? -1) - (a.winRate ?? -1);
+            return compareBigint(b[sortBy], a[sortBy]);
+        }).slice(0, LEADERBOARD_SIZE);
+    }, [data.markets, data.activity, search, sortBy, timeWindow]);
+
+    return (
+        <Card>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                <h3 className="text-sm font-semibold text-[var(--color-text-primary)]">Bettor Leaderboard</h3>
+                <div className="flex flex-wrap gap-3">
+                    <div className="flex gap-1">
+                        {WINDOWS.map((w) => (
+                            <button
+                                key={w.key}
+                                onClick={() => setTimeWindow(w.key)}
+                                className={`px-3 py-1 rounded-lg text-xs transition-colors cursor-pointer ${
+                                    timeWindow === w.key
+                                        ? 'bg-[var(--color-btc-orange)]/20 text-[var(--color-btc-orange)]'
+                                        : 'text-[var(--color-text-muted)] hover:text-[var(--color-text-secondary)]'
+                                }`}
+                            >
+                                {w.label}
+                            </button>
+                        ))}
+                    </div>
+                    <div className="flex gap-1">
+                        {(Object.keys(LEADERBOARD_SORT_LABELS) as LeaderboardSort[]).map((key) => (
+                            <button
+                                key={key}
+                                onClick={() => setSortBy(key)}
+                                className={`px-3 py-1 rounded-lg text-xs transition-colors cursor-pointer ${
+                                    sortBy === key
+                                        ? 'bg-[var(--color-btc-orange)]/20 text-[var(--color-btc-orange)]'
+                                        : 'text-[var(--color-text-muted)] hover:text-[var(--color-text-secondary)]'
+                                }`}
+                            >
+                                {LEADERBOARD_SORT_LABELS[key]}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+            </div>
+            {!data.activity ? (
+                <p className="text-[var(--color-text-muted)] text-sm text-center py-10">
+                    Betting stats are unavailable until the event indexer has populated Supabase
+                </p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-[var(--color-text-muted)] text-xs uppercase tracking-wider border-b border-[var(--color-border)]">
+                                <th className="text-left py-2 pr-3">#</th>
+                                <th className="text-left py-2 pr-3">Address</th>
+                                <th className="text-right py-2 pr-3">Volume</th>
+                                <th className="text-right py-2 pr-3">Markets</th>
+                                <th className="text-right py-2 pr-3">Win Rate</th>
+                                <th className="text-right py-2 pr-3">Largest Win</th>
+                                <th className="text-right py-2">PnL</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {rows.map((b, i) => (
+                                <tr key={b.address} className="border-b border-[var(--color-border)]/50">
+                                    <td className="py-2.5 pr-3 text-[var(--color-text-muted)]">{i + 1}</td>
+                                    <td className="py-2.5 pr-3">
+                                        <span className="text-[var(--color-text-primary)] font-mono text-xs">
+                                            {truncateAddr(b.address)}
+                                        </span>
+                                    </td>
+                                    <td className="py-2.5 pr-3 text-right text-[var(--color-text-secondary)]">{formatSats(b.volumeBet)}</td>
+                                    <td className="py-2.5 pr-3 text-right text-[var(--color-text-secondary)]">{b.marketsParticipated}</td>
+                                    <td className="py-2.5 pr-3 text-right text-[var(--color-text-secondary)]">
+                                        {formatWinRate(b.winRate)}
+                                        {b.marketsSettled > 0 && (
+                                            <span className="text-[var(--color-text-muted)] text-xs ml-1">
+                                                ({b.marketsWon}/{b.marketsSettled})
+                                            </span>
+                                        )}
+                                    </td>
+                                    <td className="py-2.5 pr-3 text-right text-[var(--color-text-secondary)]">
+                                        {b.largestWin > 0n ? formatSats(b.largestWin) : '—'}
+                                    </td>
+                                    <td className={`py-2.5 text-right font-medium ${pnlColor(b.realizedPnl)}`}>
+                                        {formatPnl(b.realizedPnl)}
+                                    </td>
+                                </tr>
+                            ))}
+                            {rows.length === 0 && (
+                                <tr>
+                                    <td colSpan={7} className="py-8 text-center text-[var(--color-text-muted)]">
+                                        No betting activity in this window
+                                    </td>
+                                </tr>
+                            )}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </Card>
+    );
+}
+
 export function WalletsAnalytics({ data, search }: Props): React.JSX.Element {
     const [sortBy, setSortBy] = useState<SortKey>('totalActivity');
     const [expandedWallet, setExpandedWallet] = useState<string | null>(null);
@@ -28,7 +198,10 @@ export function WalletsAnalytics({ data, search }: Props): React.JSX.Element {
             const q = search.toLowerCase();
             wallets = wallets.filter((w) => w.address.toLowerCase().includes(q));
         }
-        return [...wallets].sort((a, b) => b[sortBy] - a[sortBy]);
+        return [...wallets].sort((a, b) => {
+            if (sortBy === 'volumeBet' || sortBy === 'realizedPnl') return compareBigint(b[sortBy], a[sortBy]);
+            return b[sortBy] - a[sortBy];
+        });
     }, [data.wallets, search, sortBy]);
 
     const topCreators = filtered.slice(0, 10).map((w) => ({
@@ -40,25 +213,40 @@ export function WalletsAnalytics({ data, search }: Props): React.JSX.Element {
         const creatorsOnly = data.wallets.filter((w) => w.marketsCreated > 0 && w.marketsAsOracle === 0).length;
         const oraclesOnly = data.wallets.filter((w) => w.marketsAsOracle > 0 && w.marketsCreated === 0).length;
         const both = data.wallets.filter((w) => w.marketsCreated > 0 && w.marketsAsOracle > 0).length;
+        const bettorsOnly = data.wallets.filter(
+            (w) => w.marketsParticipated > 0 && w.marketsCreated === 0 && w.marketsAsOracle === 0,
+        ).length;
         return [
             { name: 'Creator Only', value: creatorsOnly, color: '#f7931a' },
             { name: 'Oracle Only', value: oraclesOnly, color: '#8888a0' },
             { name: 'Both', value: both, color: '#22c55e' },
+            { name: 'Bettor Only', value: bettorsOnly, color: '#3b82f6' },
         ].filter((d) => d.value > 0);
     }, [data.wallets]);
 
-    // Markets created by each wallet for the expanded detail
+    // Markets each wallet created, oracled or bet on for the expanded detail
+    const walletBets = useMemo((): Set<bigint> => {
+        if (!expandedWallet || !data.activity) return new Set();
+        return new Set(data.activity.bets.filter((b) => b.bettor === expandedWallet).map((b) => b.marketId));
+    }, [expandedWallet, data.activity]);
+
     const walletMarkets = useMemo(() => {
         if (!expandedWallet) return [];
         return data.markets.filter(
-            (m) => m.creator === expandedWallet || m.oracle === expandedWallet,
+            (m) => m.creator === expandedWallet || marketOracles(m).includes(expandedWallet) || walletBets.has(m.id),
         );
-    }, [expandedWallet, data.markets]);
+    }, [expandedWallet, data.markets, walletBets]);
+
+    const walletRoles = (m: MarketAnalytics, addr: string): string => [
+        m.creator === addr ? 'Creator' : null,
+        marketOracles(m).includes(addr) ? 'Oracle' : null,
+        walletBets.has(m.id) ? 'Bettor' : null,
+    ].filter(Boolean).join(' + ');
 
     return (
         <div className="space-y-6">
             {/* Summary stats */}
-            <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
                 <div className="bg-[var(--color-bg-card)] border border-[var(--color-border)] rounded-xl px-4 py-3">
                     <p className="text-xs uppercase tracking-wider text-[var(--color-text-muted)] mb-1">Unique Wallets</p>
                     <p className="text-xl font-bold text-[var(--color-btc-orange)]">{data.wallets.length}</p>
@@ -75,6 +263,12 @@ export function WalletsAnalytics({ data, search }: Props): React.JSX.Element {
                         {data.wallets.filter((w) => w.marketsAsOracle > 0).length}
                     </p>
                 </div>
+                <div className="bg-[var(--color-bg-card)] border border-[var(--color-border)] rounded-xl px-4 py-3">
+                    <p className="text-xs uppercase tracking-wider text-[var(--color-text-muted)] mb-1">Bettors</p>
+                    <p className="text-xl font-bold text-[var(--color-text-primary)]">
+                        {data.activity ? data.wallets.filter((w) => w.marketsParticipated > 0).length : '—'}
+                    </p>
+                </div>
             </div>
 
             {/* Charts row */}
@@ -137,6 +331,8 @@ export function WalletsAnalytics({ data, search }: Props): React.JSX.Element {
                 </Card>
             </div>
 
+            <BettorLeaderboard data={data} search={search} />
+
             {/* Wallet table */}
             <Card>
                 <div className="flex items-center justify-between mb-4">
@@ -144,7 +340,7 @@ export function WalletsAnalytics({ data, search }: Props): React.JSX.Element {
                         All Wallets ({filtered.length})
                     </h3>
                     <div className="flex gap-1">
-                        {(['totalActivity', 'marketsCreated', 'marketsAsOracle'] as SortKey[]).map((key) => (
+                        {(Object.keys(SORT_LABELS) as SortKey[]).map((key) => (
                             <button
                                 key={key}
                                 onClick={() => setSortBy(key)}
@@ -154,7 +350,7 @@ export function WalletsAnalytics({ data, search }: Props): React.JSX.Element {
                                         : 'text-[var(--color-text-muted)] hover:text-[var(--color-text-secondary)]'
                                 }`}
                             >
-                                {key === 'totalActivity' ? 'Activity' : key === 'marketsCreated' ? 'Created' : 'Oracle'}
+                                {SORT_LABELS[key]}
                             </button>
                         ))}
                     </div>
@@ -166,6 +362,9 @@ export function WalletsAnalytics({ data, search }: Props): React.JSX.Element {
                                 <th className="text-left py-2 pr-3">Address</th>
                                 <th className="text-right py-2 pr-3">Created</th>
                                 <th className="text-right py-2 pr-3">Oracle</th>
+                                <th className="text-right py-2 pr-3">Bet Volume</th>
+                                <th className="text-right py-2 pr-3">Win Rate</th>
+                                <th className="text-right py-2 pr-3">PnL</th>
                                 <th className="text-right py-2">Activity</th>
                             </tr>
                         </thead>
@@ -183,11 +382,18 @@ export function WalletsAnalytics({ data, search }: Props): React.JSX.Element {
                                         </td>
                                         <td className="py-2.5 pr-3 text-right text-[var(--color-btc-orange)]">{w.marketsCreated}</td>
                                         <td className="py-2.5 pr-3 text-right text-[var(--color-text-secondary)]">{w.marketsAsOracle}</td>
+                                        <td className="py-2.5 pr-3 text-right text-[var(--color-text-secondary)]">
+                                            {w.marketsParticipated > 0 ? formatSats(w.volumeBet) : '—'}
+                                        </td>
+                                        <td className="py-2.5 pr-3 text-right text-[var(--color-text-secondary)]">{formatWinRate(w.winRate)}</td>
+                                        <td className={`py-2.5 pr-3 text-right ${pnlColor(w.realizedPnl)}`}>
+                                            {w.marketsParticipated > 0 ? formatPnl(w.realizedPnl) : '—'}
+                                        </td>
                                         <td className="py-2.5 text-right text-[var(--color-text-primary)] font-medium">{w.totalActivity}</td>
                                     </tr>
                                     {expandedWallet === w.address && (
                                         <tr>
-                                            <td colSpan={4} className="py-3 px-4 bg-[var(--color-bg-input)]">
+                                            <td colSpan={7} className="py-3 px-4 bg-[var(--color-bg-input)]">
                                                 <p className="text-xs text-[var(--color-text-muted)] mb-2 font-mono break-all">{w.address}</p>
                                                 {walletMarkets.length > 0 ? (
                                                     <div className="space-y-1">
@@ -197,11 +403,7 @@ export function WalletsAnalytics({ data, search }: Props): React.JSX.Element {
                                                                     <span className="text-[var(--color-btc-orange)]">#{m.id.toString()}</span>{' '}
                                                                     {m.question}
                                                                 </span>
-                                                                <span className="shrink-0 ml-2">
-                                                                    {m.creator === w.address ? 'Creator' : ''}
-                                                                    {m.creator === w.address && m.oracle === w.address ? ' + ' : ''}
-                                                                    {m.oracle === w.address ? 'Oracle' : ''}
-                                                                </span>
+                                                                <span className="shrink-0 ml-2">{walletRoles(m, w.address)}</span>
                                                             </div>
                                                         ))}
                                                     </div>
@@ -215,7 +417,7 @@ export function WalletsAnalytics({ data, search }: Props): React.JSX.Element {
                             ))}
                             {filtered.length === 0 && (
                                 <tr>
-                                    <td colSpan={4} className="py-8 text-center text-[var(--color-text-muted)]">
+                                    <td colSpan={7} className="py-8 text-center text-[var(--color-text-muted)]">
                                         No wallets match your search
                                     </td>
                                 </tr>
@@ -0,0 +1,213 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useWalletConnect } from '@btc-vision/walletconnect';
+import { Card } from '../common/Card';
+import { Button } from '../common/Button';
+import { usePredictionMarket } from '../../hooks/usePredictionMarket';
+import { OracleConfig, OracleRegistryEntry } from '../../types';
+
+function formatSats(sats: bigint): string {
+    const btc = Number(sats) / 100_000_000;
+    if (btc >= 0.001) return `${btc.toFixed(4)} BTC`;
+    return `${Number(sats).toLocaleString()} sats`;
+}
+
+function parseAmount(value: string): bigint | null {
+    return /^\d+$/.test(value.trim()) ? BigInt(value.trim()) : null;
+}
+
+function sameAddress(a: string, b: string): boolean {
+    return a.toLowerCase().replace(/^0x/, '') === b.toLowerCase().replace(/^0x/, '');
+}
+
+const inputClass = 'w-full bg-[var(--color-bg-input)] border border-[var(--color-border)] rounded-xl px-4 py-3 text-sm text-[var(--color-text-primary)] placeholder-[var(--color-text-muted)] focus:border-[var(--color-btc-orange)] focus:outline-none';
+
+/**
+ * The connected wallet's oracle registration: stake collateral and publish a
+ * profile so market creators can pick it, then unstake and withdraw once the
+ * unbonding period has passed.
+ */
+export function OracleRegistration({ currentBlock }: { currentBlock: bigint | null }): React.JSX.Element {
+    const { address } = useWalletConnect();
+    const {
+        fetchOracles,
+        fetchOracleConfig,
+        registerOracle,
+        unstakeOracle,
+        withdrawOracleStake,
+        loading,
+        error,
+    } = usePredictionMarket();
+
+    const [entry, setEntry] = useState<OracleRegistryEntry | null>(null);
+    const [config, setConfig] = useState<OracleConfig | null>(null);
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+    const [url, setUrl] = useState('');
+    const [stakeInput, setStakeInput] = useState('');
+    const [unstakeInput, setUnstakeInput] = useState('');
+    const [submitted, setSubmitted] = useState<string | null>(null);
+
+    const load = useCallback(async () => {
+        if (!address) return;
+        try {
+            const [oracles, oracleConfig] = await Promise.all([fetchOracles(), fetchOracleConfig()]);
+            const mine = oracles.find((o) => sameAddress(o.address, String(address))) ?? null;
+            setEntry(mine);
+            setConfig(oracleConfig);
+            if (mine?.profile) {
+                setName(mine.profile.name);
+                setDescription(mine.profile.description ?? '');
+                setUrl(mine.profile.url ?? '');
+            }
+        } catch {
+            // registration card still works without the current entry
+        }
+    }, [address, fetchOracles, fetchOracleConfig]);
+
+    useEffect(() => { void load(); }, [load]);
+
+    const submit = async (label: string, action: () => Promise<unknown>): Promise<void> => {
+        setSubmitted(null);
+        try {
+            const result = await action();
+            setSubmitted(result === 'approval-submitted' ? 'Collateral approval' : label);
+        } catch {
+            // error handled by hook
+        }
+    };
+
+    const registered = entry !== null && entry.registeredAt > 0n;
+    const stake = parseAmount(stakeInput === '' ? '0' : stakeInput);
+    const minStake = config?.minStake ?? 0n;
+    const stakeAfter = (entry?.stake ?? 0n) + (stake ?? 0n);
+    const registerValid = name.trim() !== '' && stake !== null && stakeAfter > 0n && stakeAfter >= minStake;
+    const unstake = parseAmount(unstakeInput);
+    const unstakeValid = unstake !== null && unstake > 0n && entry !== null && unstake <= entry.stake;
+    const unlocked = entry !== null && entry.unstaking > 0n && currentBlock !== null && currentBlock >= entry.unlockBlock;
+
+    return (
+        <Card className="mb-4">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-bold text-[var(--color-text-primary)]">Oracle Registration</h2>
+                {registered && (
+                    <span className="text-xs text-[var(--color-text-muted)]">
+                        {entry.profile ? 'Profile verified' : 'Profile not found'} · {entry.marketCount.toString()} markets
+                    </span>
+                )}
+            </div>
+
+            {registered && (
+                <div className="grid grid-cols-3 gap-3 mb-4">
+                    <div>
+                        <p className="text-xs uppercase tracking-wider text-[var(--color-text-muted)] mb-1">Staked</p>
+                        <p className="text-lg font-bold text-[var(--color-btc-orange)]">{formatSats(entry.stake)}</p>
+                    </div>
+                    <div>
+                        <p className="text-xs uppercase tracking-wider text-[var(--color-text-muted)] mb-1">Unstaking</p>
+                        <p className="text-lg font-bold text-[var(--color-text-primary)]">{formatSats(entry.unstaking)}</p>
+                        {entry.unstaking > 0n && (
+                            <p className="text-xs text-[var(--color-text-muted)]">unlocks at block #{entry.unlockBlock.toString()}</p>
+                        )}
+                    </div>
+                    <div>
+                        <p className="text-xs uppercase tracking-wider text-[var(--color-text-muted)] mb-1">Slashed</p>
+                        <p className={`text-lg font-bold ${entry.slashed > 0n ? 'text-red-400' : 'text-[var(--color-text-primary)]'}`}>
+                            {formatSats(entry.slashed)}
+                        </p>
+                    </div>
+                </div>
+            )}
+
+            <div className="space-y-3">
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Display name"
+                    className={inputClass}
+                />
+                <input
+                    type="text"
+                    value={description}
+                    onChange={(e) => setDescription(e.target.value)}
+                    placeholder="What you resolve and how (optional)"
+                    className={inputClass}
+                />
+                <input
+                    type="url"
+                    value={url}
+                    onChange={(e) => setUrl(e.target.value)}
+                    placeholder="Website (optional)"
+                    className={inputClass}
+                />
+                <input
+                    type="number"
+                    min="0"
+                    value={stakeInput}
+                    onChange={(e) => setStakeInput(e.target.value)}
+                    placeholder={registered ? 'Add stake (optional)' : `Stake${minStake > 0n ? ` (min ${formatSats(minStake)})` : ''}`}
+                    className={inputClass}
+                />
+                <Button
+                    onClick={() => void submit(
+                        registered ? 'Profile update' : 'Oracle registration',
+                        () => registerOracle(stake ?? 0n, { name: name.trim(), description: description.trim(), url: url.trim() }),
+                    )}
+                    disabled={loading || !registerValid}
+                >
+                    {registered ? 'Update Profile' : 'Register as Oracle'}
+                </Button>
+                {config && (
+                    <p className="text-xs text-[var(--color-text-muted)]">
+                        If the arbitrator overturns one of your proposals, {(config.disputeSlashBps / 100).toFixed(0)}% of your stake
+                        goes to the challenger. Your stake is locked while you are named on an unresolved market, and unstaked
+                        collateral can be withdrawn {config.unbondingBlocks.toString()} blocks later. Unstaking also stops new
+                        markets from naming you.
+                    </p>
+                )}
+            </div>
+
+            {registered && (
+                <div className="flex flex-wrap items-center gap-3 mt-4 pt-4 border-t border-[var(--color-border)]">
+                    <input
+                        type="number"
+                        min="1"
+                        value={unstakeInput}
+                        onChange={(e) => setUnstakeInput(e.target.value)}
+                        placeholder="Amount to unstake"
+                        className={`${inputClass} flex-1 min-w-40`}
+                    />
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                            if (unstake !== null) void submit('Unstake', () => unstakeOracle(unstake));
+                        }}
+                        disabled={loading || !unstakeValid}
+                    >
+                        Unstake
+                    </Button>
+                    <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => void submit('Withdrawal', withdrawOracleStake)}
+                        disabled={loading || !unlocked}
+                    >
+                        Withdraw
+                    </Button>
+                </div>
+            )}
+
+            {error && (
+                <div className="mt-3 text-red-400 text-sm bg-red-400/10 px-4 py-3 rounded-lg">{error}</div>
+            )}
+            {submitted && !error && (
+                <div className="mt-3 text-green-400 text-sm bg-green-400/10 px-4 py-3 rounded-lg">
+                    {submitted} submitted! {submitted === 'Collateral approval'
+                        ? 'Submit again once it confirms (~10 min).'
+                        : 'Your registry entry updates after the next block confirmation (~10 min).'}
+                </div>
+            )}
+        </Card>
+    );
+}
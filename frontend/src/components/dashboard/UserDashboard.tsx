@@ -3,7 +3,10 @@ import { useNavigate } from 'react-router-dom';
 import { useWalletConnect } from '@btc-vision/walletconnect';
 import { usePredictionMarket } from '../../hooks/usePredictionMarket';
 import { Card } from '../common/Card';
-import { MarketData, MarketStatus, MarketOutcome, UserPosition } from '../../types';
+import { Button } from '../common/Button';
+import { OracleRegistration } from './OracleRegistration';
+import { MarketData, MarketIndex, MarketStatus, UserPosition } from '../../types';
+import { outcomeLabel, resolvedLabel, sumPools, winningStake } from '../../utils/outcomes';
 
 interface MarketWithPosition {
     market: MarketData;
@@ -16,64 +19,103 @@ function formatSats(sats: bigint): string {
     return `${Number(sats).toLocaleString()} sats`;
 }
 
-function normalize(v: unknown): string {
-    if (!v) return '';
-    if (v instanceof Uint8Array) {
-        return Array.from(v).map((b) => b.toString(16).padStart(2, '0')).join('');
-    }
-    return String(v).toLowerCase().replace(/^0x/, '');
-}
+// Market ids requested per call when walking the on-chain indexes
+const INDEX_PAGE_SIZE = 100n;
 
 type DashTab = 'bets' | 'created' | 'oracle' | 'claims';
 
 export function UserDashboard(): React.JSX.Element {
     const { address } = useWalletConnect();
-    const { fetchMarketCount, fetchMarket, fetchUserPosition, fetchCurrentBlock } = usePredictionMarket();
+    const {
+        fetchMarketIds,
+        fetchMarket,
+        fetchUserPositions,
+        fetchCurrentBlock,
+        fetchFees,
+        withdrawFees,
+        loading: txLoading,
+        error: txError,
+    } = usePredictionMarket();
     const navigate = useNavigate();
 
     const [markets, setMarkets] = useState<MarketData[]>([]);
+    const [createdIds, setCreatedIds] = useState<Set<string>>(new Set());
+    const [oracleIds, setOracleIds] = useState<Set<string>>(new Set());
     const [positions, setPositions] = useState<Map<string, UserPosition>>(new Map());
     const [currentBlock, setCurrentBlock] = useState<bigint | null>(null);
+    const [creatorFees, setCreatorFees] = useState<bigint>(0n);
+    const [withdrawSubmitted, setWithdrawSubmitted] = useState(false);
     const [loading, setLoading] = useState(true);
     const [tab, setTab] = useState<DashTab>('bets');
 
-    const walletHex = useMemo(() => normalize(address).replace(/^0+/, ''), [address]);
-
     const load = useCallback(async () => {
         if (!address) { setLoading(false); return; }
         setLoading(true);
         try {
-            const [count, block] = await Promise.all([fetchMarketCount(), fetchCurrentBlock()]);
+            // The contract indexes markets per address, so only markets this
+            // wallet touched are fetched instead of every market on-chain
+            const readIndex = async (index: MarketIndex): Promise<bigint[]> => {
+                const ids: bigint[] = [];
+                for (;;) {
+                    const page = await fetchMarketIds(index, BigInt(ids.length), INDEX_PAGE_SIZE);
+                    ids.push(...page.marketIds);
+                    if (page.marketIds.length === 0 || BigInt(ids.length) >= page.total) return ids;
+                }
+            };
+
+            const [block, created, oracle, bets] = await Promise.all([
+                fetchCurrentBlock(),
+                readIndex('creator'),
+                readIndex('oracle'),
+                readIndex('bettor'),
+            ]);
             setCurrentBlock(block);
+            fetchFees().then((fees) => setCreatorFees(fees.creatorFees)).catch(() => {
+                // fee balance is optional
+            });
 
+            const ids = [...new Set([...created, ...oracle, ...bets].map(String))];
             const allMarkets: MarketData[] = [];
             const posMap = new Map<string, UserPosition>();
 
-            for (let i = 1n; i <= count; i++) {
+            for (const id of ids) {
                 try {
-                    const m = await fetchMarket(i);
-                    allMarkets.push(m);
-                    try {
-                        const pos = await fetchUserPosition(i);
-                        if (pos.yesBet > 0n || pos.noBet > 0n) {
-                            posMap.set(m.id.toString(), pos);
-                        }
-                    } catch {
-                        // no position
-                    }
+                    allMarkets.push(await fetchMarket(BigInt(id)));
                 } catch {
                     // skip
                 }
             }
 
+            try {
+                const fetchedPositions = await fetchUserPositions(bets);
+                for (const [id, pos] of fetchedPositions) {
+                    // Positions that were sold or transferred away stay indexed but are empty
+                    if (pos.stakes.some((s) => s > 0n)) posMap.set(id, pos);
+                }
+            } catch {
+                // no positions
+            }
+
+            allMarkets.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
             setMarkets(allMarkets);
+            setCreatedIds(new Set(created.map(String)));
+            setOracleIds(new Set(oracle.map(String)));
             setPositions(posMap);
         } catch {
             // empty state
         } finally {
             setLoading(false);
         }
-    }, [address, fetchMarketCount, fetchMarket, fetchUserPosition, fetchCurrentBlock]);
+    }, [address, fetchMarketIds, fetchMarket, fetchUserPositions, fetchCurrentBlock, fetchFees]);
+
+    const handleWithdrawFees = async (): Promise<void> => {
+        try {
+            await withdrawFees();
+            setWithdrawSubmitted(true);
+        } catch {
+            // error is set by the hook
+        }
+    };
 
     useEffect(() => { void load(); }, [load]);
 
@@ -89,50 +131,36 @@ export function UserDashboard(): React.JSX.Element {
 
     // Markets created by this wallet
     const myCreated = useMemo(() => {
-        if (!walletHex) return [];
-        return markets.filter((m) => {
-            const creatorHex = m.creator.toLowerCase().replace(/^0x/, '').replace(/^0+/, '');
-            return creatorHex === walletHex;
-        });
-    }, [markets, walletHex]);
+        return markets.filter((m) => createdIds.has(m.id.toString()));
+    }, [markets, createdIds]);
 
-    // Markets where user is oracle
+    // Markets where user is oracle or sits on the oracle committee
     const myOracle = useMemo(() => {
-        if (!walletHex) return [];
-        return markets.filter((m) => {
-            const oracleHex = m.oracle.toLowerCase().replace(/^0x/, '').replace(/^0+/, '');
-            return oracleHex === walletHex;
-        });
-    }, [markets, walletHex]);
+        return markets.filter((m) => oracleIds.has(m.id.toString()));
+    }, [markets, oracleIds]);
 
-    // Pending claims: resolved markets where user has a winning position and hasn't claimed
+    // Pending claims: resolved markets with an unclaimed winning position, or cancelled markets with an unclaimed refund
     const pendingClaims = useMemo((): MarketWithPosition[] => {
         return myBets.filter(({ market, position }) => {
-            if (market.status !== MarketStatus.RESOLVED) return false;
             if (position.claimed) return false;
-            if (market.outcome === MarketOutcome.YES && position.yesBet > 0n) return true;
-            if (market.outcome === MarketOutcome.NO && position.noBet > 0n) return true;
-            return false;
+            return claimableStake(market, position) > 0n;
         });
     }, [myBets]);
 
-    // Already claimed rewards
+    // Already claimed rewards and refunds
     const claimedRewards = useMemo((): MarketWithPosition[] => {
         return myBets.filter(({ market, position }) => {
-            if (market.status !== MarketStatus.RESOLVED) return false;
             if (!position.claimed) return false;
-            if (market.outcome === MarketOutcome.YES && position.yesBet > 0n) return true;
-            if (market.outcome === MarketOutcome.NO && position.noBet > 0n) return true;
-            return false;
+            return claimableStake(market, position) > 0n;
         });
     }, [myBets]);
 
     const totalClaims = pendingClaims.length + claimedRewards.length;
 
-    // Pending resolution: oracle markets past deadline but not resolved
+    // Pending resolution: oracle markets past their resolution block but not resolved
     const pendingResolution = useMemo(() => {
         if (!currentBlock) return [];
-        return myOracle.filter((m) => m.status === MarketStatus.OPEN && currentBlock >= m.endBlock);
+        return myOracle.filter((m) => m.status === MarketStatus.OPEN && currentBlock >= m.resolveAfterBlock);
     }, [myOracle, currentBlock]);
 
     if (!address) {
@@ -233,12 +261,18 @@ export function UserDashboard(): React.JSX.Element {
                                             <p className="text-xs text-[var(--color-text-muted)] mt-0.5">Market #{market.id.toString()}</p>
                                         </div>
                                         <div className="flex items-center gap-4 shrink-0">
-                                            {position.yesBet > 0n && (
-                                                <span className="text-sm text-green-400 font-medium">YES {formatSats(position.yesBet)}</span>
-                                            )}
-                                            {position.noBet > 0n && (
-                                                <span className="text-sm text-red-400 font-medium">NO {formatSats(position.noBet)}</span>
-                                            )}
+                                            {position.stakes.map((stake, i) => stake > 0n && (
+                                                <span
+                                                    key={i}
+                                                    className={`text-sm font-medium ${
+                                                        market.outcomeCount > 2
+                                                            ? 'text-[var(--color-btc-orange)]'
+                                                            : i === 0 ? 'text-green-400' : 'text-red-400'
+                                                    }`}
+                                                >
+                                                    {outcomeLabel(market, i + 1)} {formatSats(stake)}
+                                                </span>
+                                            ))}
                                             <StatusBadge market={market} currentBlock={currentBlock} />
                                         </div>
                                     </div>
@@ -251,6 +285,29 @@ export function UserDashboard(): React.JSX.Element {
 
             {tab === 'created' && (
                 <div>
+                    {creatorFees > 0n && (
+                        <Card className="mb-4 border-[var(--color-btc-orange)]/50">
+                            <div className="flex items-center justify-between gap-4">
+                                <div>
+                                    <p className="text-xs uppercase tracking-wider text-[var(--color-text-muted)] mb-1">Creator Fees Earned</p>
+                                    <p className="text-2xl font-bold text-[var(--color-btc-orange)]">{formatSats(creatorFees)}</p>
+                                </div>
+                                <Button
+                                    variant="primary"
+                                    size="md"
+                                    onClick={handleWithdrawFees}
+                                    disabled={txLoading || withdrawSubmitted}
+                                >
+                                    {txLoading ? 'Withdrawing...' : withdrawSubmitted ? 'Withdrawal Pending...' : 'Withdraw'}
+                                </Button>
+                            </div>
+                            {txError && (
+                                <div className="mt-3 text-red-400 text-sm bg-red-400/10 px-4 py-3 rounded-lg">
+                                    {txError}
+                                </div>
+                            )}
+                        </Card>
+                    )}
                     {myCreated.length === 0 ? (
                         <div className="text-center py-12 text-[var(--color-text-secondary)]">
                             You haven&apos;t created any markets yet.
@@ -269,7 +326,7 @@ export function UserDashboard(): React.JSX.Element {
                                             <p className="text-xs text-[var(--color-text-muted)] mt-0.5">Market #{market.id.toString()}</p>
                                         </div>
                                         <div className="flex items-center gap-3 shrink-0">
-                                            <span className="text-sm text-[var(--color-text-secondary)]">Pool: {formatSats(market.yesPool + market.noPool)}</span>
+                                            <span className="text-sm text-[var(--color-text-secondary)]">Pool: {formatSats(sumPools(market.outcomePools))}</span>
                                             <StatusBadge market={market} currentBlock={currentBlock} />
                                         </div>
                                     </div>
@@ -282,6 +339,7 @@ export function UserDashboard(): React.JSX.Element {
 
             {tab === 'oracle' && (
                 <div>
+                    <OracleRegistration currentBlock={currentBlock} />
                     {myOracle.length === 0 ? (
                         <div className="text-center py-12 text-[var(--color-text-secondary)]">
                             You are not an oracle for any markets.
@@ -289,7 +347,7 @@ export function UserDashboard(): React.JSX.Element {
                     ) : (
                         <div className="space-y-3">
                             {myOracle.map((market) => {
-                                const needsResolution = market.status === MarketStatus.OPEN && currentBlock !== null && currentBlock >= market.endBlock;
+                                const needsResolution = market.status === MarketStatus.OPEN && currentBlock !== null && currentBlock >= market.resolveAfterBlock;
                                 return (
                                     <Card
                                         key={market.id.toString()}
@@ -355,10 +413,14 @@ export function UserDashboard(): React.JSX.Element {
                                                     </div>
                                                     <div className="flex items-center gap-3 shrink-0">
                                                         <span className="text-sm font-medium text-[var(--color-btc-orange)]">
-                                                            Won with {market.outcome === MarketOutcome.YES ? 'YES' : 'NO'}
+                                                            {market.status === MarketStatus.CANCELLED
+                                                                ? 'Refund'
+                                                                : market.scalar
+                                                                    ? `Resolved at ${resolvedLabel(market)}`
+                                                                    : `Won with ${resolvedLabel(market)}`}
                                                         </span>
                                                         <span className="text-sm text-[var(--color-text-secondary)]">
-                                                            Bet: {formatSats(market.outcome === MarketOutcome.YES ? position.yesBet : position.noBet)}
+                                                            Bet: {formatSats(claimableStake(market, position))}
                                                         </span>
                                                     </div>
                                                 </div>
@@ -395,13 +457,13 @@ export function UserDashboard(): React.JSX.Element {
                                                     </div>
                                                     <div className="flex items-center gap-3 shrink-0">
                                                         <span className="text-xs font-bold px-2 py-0.5 rounded-full text-green-400 bg-green-400/10">
-                                                            CLAIMED
+                                                            {market.status === MarketStatus.CANCELLED ? 'REFUNDED' : 'CLAIMED'}
                                                         </span>
                                                         <span className="text-sm font-medium text-[var(--color-text-secondary)]">
-                                                            {market.outcome === MarketOutcome.YES ? 'YES' : 'NO'}
+                                                            {market.status === MarketStatus.CANCELLED ? 'Cancelled' : resolvedLabel(market)}
                                                         </span>
                                                         <span className="text-sm text-[var(--color-text-muted)]">
-                                                            Bet: {formatSats(market.outcome === MarketOutcome.YES ? position.yesBet : position.noBet)}
+                                                            Bet: {formatSats(claimableStake(market, position))}
                                                         </span>
                                                     </div>
                                                 </div>
@@ -418,21 +480,50 @@ export function UserDashboard(): React.JSX.Element {
     );
 }
 
+/** Stake the user can still claim: the winning stake once resolved, or the full stake once cancelled. */
+function claimableStake(market: MarketData, position: UserPosition): bigint {
+    if (market.status === MarketStatus.CANCELLED) return sumPools(position.stakes);
+    if (market.status === MarketStatus.RESOLVED) return winningStake(market, position);
+    return 0n;
+}
+
 function StatusBadge({ market, currentBlock }: { market: MarketData; currentBlock: bigint | null }): React.JSX.Element {
+    if (market.status === MarketStatus.CANCELLED) {
+        return (
+            <span className="text-xs font-bold px-2 py-0.5 rounded-full text-red-400 bg-red-400/10">
+                CANCELLED
+            </span>
+        );
+    }
     if (market.status === MarketStatus.RESOLVED) {
         return (
             <span className="text-xs font-bold px-2 py-0.5 rounded-full text-[var(--color-text-secondary)] bg-[var(--color-text-secondary)]/10">
-                {market.outcome === MarketOutcome.YES ? 'YES' : 'NO'}
+                {resolvedLabel(market)}
             </span>
         );
     }
-    if (currentBlock !== null && currentBlock >= market.endBlock) {
+    if (market.status === MarketStatus.PROPOSED || market.status === MarketStatus.DISPUTED) {
+        return (
+            <span className="text-xs font-bold px-2 py-0.5 rounded-full text-[var(--color-btc-orange)] bg-[var(--color-btc-orange)]/10">
+                {market.status === MarketStatus.PROPOSED ? 'PROPOSED' : 'DISPUTED'}
+            </span>
+        );
+    }
+    if (currentBlock !== null && currentBlock >= market.resolveAfterBlock) {
         return (
             <span className="text-xs font-bold px-2 py-0.5 rounded-full text-yellow-400 bg-yellow-400/10">
                 AWAITING
             </span>
         );
     }
+    // Betting has closed but resolution waits for resolveAfterBlock
+    if (currentBlock !== null && currentBlock >= market.closeBlock) {
+        return (
+            <span className="text-xs font-bold px-2 py-0.5 rounded-full text-purple-400 bg-purple-400/10">
+                CLOSED
+            </span>
+        );
+    }
     return (
         <span className="text-xs font-bold px-2 py-0.5 rounded-full text-green-400 bg-green-400/10">
             LIVE
@@ -2,20 +2,42 @@ import { useState, useRef, useEffect, FormEvent } from 'react';
 import { useWalletConnect } from '@btc-vision/walletconnect';
 import { Button } from '../common/Button';
 import { Card } from '../common/Card';
+import { OraclePicker } from './OraclePicker';
 import { usePredictionMarket } from '../../hooks/usePredictionMarket';
 import { MarketCategory } from '../../types';
 import { searchCoins } from '../../utils/coinList';
 import { useTheme } from '../../hooks/useTheme';
-
-const BLOCK_TIME_MINUTES = 10;
-
-function deadlineToBlocks(deadline: string): bigint {
-    const target = new Date(deadline).getTime();
-    const now = Date.now();
-    const diffMs = target - now;
-    if (diffMs <= 0) return 1n;
-    const blocks = Math.ceil(diffMs / (BLOCK_TIME_MINUTES * 60 * 1000));
-    return BigInt(blocks);
+import { useBlockClock } from '../../hooks/useBlockClock';
+import { BlockClock, blocksUntil } from '../../services/BlockTimeService';
+import { toFixedPrice } from '../../utils/prices';
+import { buildAllowlist, saveAllowlist } from '../../utils/allowlist';
+
+// Must match the bounds enforced by createCategoricalMarket in the contract
+const MIN_OUTCOMES = 3;
+const MAX_OUTCOMES = 16;
+// Must match MAX_CREATOR_FEE_BPS in the contract
+const MAX_CREATOR_FEE_PERCENT = 10;
+// Must match MIN_COMMITTEE_SIZE / MAX_COMMITTEE_SIZE in the contract
+const MIN_COMMITTEE = 2;
+const MAX_COMMITTEE = 10;
+
+type MarketType = 'binary' | 'categorical';
+type OracleMode = 'single' | 'committee';
+
+const ADDRESS_PATTERN = /^(0x)?[0-9a-fA-F]{64}$/;
+
+// How long before the deadline betting closes on price markets, so nobody can
+// bet once the price is all but known. Resolution still waits for the deadline.
+const CLOSE_BEFORE_OPTIONS: { label: string; blocks: bigint }[] = [
+    { label: 'At the deadline', blocks: 0n },
+    { label: '~1 hour before', blocks: 6n },
+    { label: '~6 hours before', blocks: 36n },
+    { label: '~1 day before', blocks: 144n },
+];
+const DEFAULT_CLOSE_BEFORE = 6n;
+
+function deadlineToBlocks(clock: BlockClock, deadline: string): bigint {
+    return blocksUntil(clock, new Date(deadline));
 }
 
 function formatPrice(value: string): string {
@@ -113,6 +135,75 @@ function CategoryToggle({ value, onChange }: { value: MarketCategory; onChange:
             >
                 Event Prediction
             </button>
+            <button
+                type="button"
+                onClick={() => onChange('scalar')}
+                className={`flex-1 py-2.5 px-4 rounded-lg text-sm font-medium transition-all cursor-pointer ${
+                    value === 'scalar'
+                        ? 'bg-[var(--color-btc-orange)] text-black'
+                        : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]'
+                }`}
+            >
+                Price Range
+            </button>
+        </div>
+    );
+}
+
+function MarketTypeToggle({ value, onChange }: { value: MarketType; onChange: (v: MarketType) => void }): React.JSX.Element {
+    return (
+        <div className="flex bg-[var(--color-bg-input)] border border-[var(--color-border)] rounded-xl p-1">
+            <button
+                type="button"
+                onClick={() => onChange('binary')}
+                className={`flex-1 py-2 px-4 rounded-lg text-sm font-medium transition-all cursor-pointer ${
+                    value === 'binary'
+                        ? 'bg-[var(--color-btc-orange)] text-black'
+                        : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]'
+                }`}
+            >
+                Yes / No
+            </button>
+            <button
+                type="button"
+                onClick={() => onChange('categorical')}
+                className={`flex-1 py-2 px-4 rounded-lg text-sm font-medium transition-all cursor-pointer ${
+                    value === 'categorical'
+                        ? 'bg-[var(--color-btc-orange)] text-black'
+                        : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]'
+                }`}
+            >
+                Multiple Outcomes
+            </button>
+        </div>
+    );
+}
+
+function OracleModeToggle({ value, onChange }: { value: OracleMode; onChange: (v: OracleMode) => void }): React.JSX.Element {
+    return (
+        <div className="flex bg-[var(--color-bg-input)] border border-[var(--color-border)] rounded-xl p-1">
+            <button
+                type="button"
+                onClick={() => onChange('single')}
+                className={`flex-1 py-2 px-4 rounded-lg text-sm font-medium transition-all cursor-pointer ${
+                    value === 'single'
+                        ? 'bg-[var(--color-btc-orange)] text-black'
+                        : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]'
+                }`}
+            >
+                Single Oracle
+            </button>
+            <button
+                type="button"
+                onClick={() => onChange('committee')}
+                className={`flex-1 py-2 px-4 rounded-lg text-sm font-medium transition-all cursor-pointer ${
+                    value === 'committee'
+                        ? 'bg-[var(--color-btc-orange)] text-black'
+                        : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]'
+                }`}
+            >
+                Oracle Committee
+            </button>
         </div>
     );
 }
@@ -121,16 +212,36 @@ const inputClasses = 'w-full bg-[var(--color-bg-input)] border border-[var(--col
 
 export function CreateMarketForm(): React.JSX.Element {
     const { address } = useWalletConnect();
-    const { createMarket, loading, error } = usePredictionMarket();
+    const { createMarket, createCategoricalMarket, createScalarMarket, fetchFees, loading, error } = usePredictionMarket();
     const { theme } = useTheme();
+    const clock = useBlockClock();
     const [category, setCategory] = useState<MarketCategory>('price');
     const [coin, setCoin] = useState('BTC');
     const [price, setPrice] = useState('');
+    // Scalar markets take the lower bound from `price`
+    const [upperPrice, setUpperPrice] = useState('');
     const [deadline, setDeadline] = useState('');
+    const [closeBefore, setCloseBefore] = useState(DEFAULT_CLOSE_BEFORE);
     const [eventQuestion, setEventQuestion] = useState('');
     const [oracleAddress, setOracleAddress] = useState('');
+    const [fallbackOracle, setFallbackOracle] = useState('');
+    const [oracleMode, setOracleMode] = useState<OracleMode>('single');
+    const [committee, setCommittee] = useState<string[]>(['', '', '']);
+    const [threshold, setThreshold] = useState('2');
+    const [marketType, setMarketType] = useState<MarketType>('binary');
+    const [outcomes, setOutcomes] = useState<string[]>(['', '', '']);
+    const [creatorFee, setCreatorFee] = useState('0');
+    const [isPrivate, setIsPrivate] = useState(false);
+    const [invitees, setInvitees] = useState('');
+    const [protocolFeeBps, setProtocolFeeBps] = useState<number | null>(null);
     const [success, setSuccess] = useState(false);
 
+    useEffect(() => {
+        fetchFees().then((fees) => setProtocolFeeBps(fees.protocolFeeBps)).catch(() => {
+            // display-only
+        });
+    }, [fetchFees]);
+
     const addressStr = address ? String(address) : '';
 
     // Format deadline for display
@@ -141,7 +252,23 @@ export function CreateMarketForm(): React.JSX.Element {
     // Build question preview progressively based on category
     let questionPreview = '';
     let hasUserInput = false;
-    if (category === 'price') {
+    const isScalar = category === 'scalar';
+    // Scalar markets are always LONG/SHORT with a single oracle
+    const isCategorical = !isScalar && marketType === 'categorical';
+    const rangeValid = !!formatPrice(price) && !!formatPrice(upperPrice) && Number(upperPrice) > Number(price);
+    if (isScalar) {
+        const coinPart = coin || '[COIN]';
+        const lowerPart = formatPrice(price) ? `$${formatPrice(price)}` : '$[LOW]';
+        const upperPart = formatPrice(upperPrice) ? `$${formatPrice(upperPrice)}` : '$[HIGH]';
+        const datePart = deadlineLabel || '[DEADLINE]';
+        questionPreview = `Where will ${coinPart} trade between ${lowerPart} and ${upperPart} on ${datePart}?`;
+        hasUserInput = !!coin || !!price || !!upperPrice || !!deadline;
+    } else if (category === 'price' && isCategorical) {
+        const coinPart = coin || '[COIN]';
+        const datePart = deadlineLabel || '[DEADLINE]';
+        questionPreview = `Where will ${coinPart} trade on ${datePart}?`;
+        hasUserInput = !!coin || !!deadline;
+    } else if (category === 'price') {
         const coinPart = coin || '[COIN]';
         const pricePart = price && formatPrice(price) ? `$${formatPrice(price)}` : '$[PRICE]';
         const datePart = deadlineLabel || '[DEADLINE]';
@@ -155,49 +282,170 @@ export function CreateMarketForm(): React.JSX.Element {
     }
 
     // Final question string for submission (only when all required fields are filled)
-    const submittableQuestion = category === 'price'
-        ? (coin && price && formatPrice(price) && deadline
-            ? `Will ${coin} reach $${formatPrice(price)} by ${deadlineLabel}?`
+    const submittableQuestion = isScalar
+        ? (coin && rangeValid && deadline
+            ? `Where will ${coin} trade between $${formatPrice(price)} and $${formatPrice(upperPrice)} on ${deadlineLabel}?`
             : '')
+        : category === 'price'
+        ? (isCategorical
+            ? (coin && deadline ? `Where will ${coin} trade on ${deadlineLabel}?` : '')
+            : (coin && price && formatPrice(price) && deadline
+                ? `Will ${coin} reach $${formatPrice(price)} by ${deadlineLabel}?`
+                : ''))
         : (eventQuestion.trim()
             ? (deadlineLabel ? `Will ${eventQuestion.trim()} by ${deadlineLabel}?` : eventQuestion.trim())
             : '');
 
+    const outcomeLabels = outcomes.map((o) => o.trim());
+    const outcomesValid = outcomeLabels.length >= MIN_OUTCOMES
+        && outcomeLabels.length <= MAX_OUTCOMES
+        && outcomeLabels.every((o) => o.length > 0)
+        && new Set(outcomeLabels.map((o) => o.toLowerCase())).size === outcomeLabels.length;
+
+    const creatorFeeBps = Math.round(Number(creatorFee) * 100);
+    const creatorFeeValid = creatorFee.trim() !== ''
+        && !isNaN(creatorFeeBps)
+        && creatorFeeBps >= 0
+        && creatorFeeBps <= MAX_CREATOR_FEE_PERCENT * 100;
+
+    const isCommittee = !isScalar && oracleMode === 'committee';
+    const committeeMembers = committee.map((m) => m.trim());
+    const thresholdValue = Number(threshold);
+    const committeeValid = committeeMembers.length >= MIN_COMMITTEE
+        && committeeMembers.length <= MAX_COMMITTEE
+        && committeeMembers.every((m) => ADDRESS_PATTERN.test(m))
+        && new Set(committeeMembers.map((m) => m.toLowerCase().replace(/^0x/, ''))).size === committeeMembers.length
+        && Number.isInteger(thresholdValue)
+        && thresholdValue >= 1
+        && thresholdValue <= committeeMembers.length;
+    const fallbackValid = fallbackOracle.trim() === '' || ADDRESS_PATTERN.test(fallbackOracle.trim());
+    const inviteeList = invitees.split(/[\s,]+/).filter((a) => a !== '');
+    const inviteesValid = !isPrivate || (inviteeList.length > 0 && inviteeList.every((a) => ADDRESS_PATTERN.test(a)));
+
+    const updateOutcome = (index: number, value: string): void => {
+        setOutcomes((prev) => prev.map((o, i) => (i === index ? value : o)));
+    };
+
+    const updateMember = (index: number, value: string): void => {
+        setCommittee((prev) => prev.map((m, i) => (i === index ? value : m)));
+    };
+
     // Compute minimum deadline: tomorrow
     const minDate = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split('T')[0];
 
+    // Event markets close at the deadline; price markets may close betting earlier
+    const closesEarly = category === 'price' || isScalar;
+    const schedule = (c: BlockClock): { closeIn: bigint; resolveIn: bigint } => {
+        const resolveIn = deadlineToBlocks(c, deadline);
+        const lead = closesEarly ? closeBefore : 0n;
+        return { closeIn: resolveIn > lead ? resolveIn - lead : 1n, resolveIn };
+    };
+    const plannedSchedule = deadline && clock ? schedule(clock) : null;
+
     const handleSubmit = async (e: FormEvent): Promise<void> => {
         e.preventDefault();
         setSuccess(false);
 
         if (!submittableQuestion || !deadline) return;
-        if (category === 'price' && (!coin || !price)) return;
-
-        const blocks = deadlineToBlocks(deadline);
-        if (!addressStr) return;
+        if (category === 'price' && (!coin || (!isCategorical && !price))) return;
+        if (isScalar && (!coin || !rangeValid)) return;
+        if (isCategorical && !outcomesValid) return;
+        if (!creatorFeeValid) return;
+        if (isCommittee && !committeeValid) return;
+        if (!fallbackValid) return;
+        if (!inviteesValid) return;
+
+        if (!clock || !addressStr) return;
+        const { closeIn, resolveIn } = schedule(clock);
         // Pass empty string when no custom oracle → contract will use tx.sender
-        const oracle = oracleAddress.trim() || '';
+        const oracle = isCommittee ? '' : oracleAddress.trim() || '';
+        const fallback = fallbackOracle.trim();
+        const committeeParams = isCommittee ? { members: committeeMembers, threshold: thresholdValue } : undefined;
+
+        const metadata = {
+            category,
+            coin: category === 'price' || isScalar ? coin : undefined,
+            targetPrice: category === 'price' && !isCategorical ? Number(price) : undefined,
+            deadline,
+        };
 
         try {
-            await createMarket(submittableQuestion, blocks, oracle, {
-                category,
-                coin: category === 'price' ? coin : undefined,
-                targetPrice: category === 'price' ? Number(price) : undefined,
-                deadline,
-            });
+            // The creator is always on their own allowlist
+            const allowlistMembers = [addressStr, ...inviteeList];
+            const allowlistRoot = isPrivate ? (await buildAllowlist(allowlistMembers)).root : undefined;
+
+            if (isScalar) {
+                await createScalarMarket(
+                    submittableQuestion,
+                    closeIn,
+                    resolveIn,
+                    oracle,
+                    fallback,
+                    creatorFeeBps,
+                    toFixedPrice(Number(price)),
+                    toFixedPrice(Number(upperPrice)),
+                    metadata,
+                    allowlistRoot,
+                );
+            } else if (isCategorical) {
+                await createCategoricalMarket(
+                    submittableQuestion,
+                    closeIn,
+                    resolveIn,
+                    oracle,
+                    fallback,
+                    creatorFeeBps,
+                    outcomeLabels,
+                    metadata,
+                    committeeParams,
+                    allowlistRoot,
+                );
+            } else {
+                await createMarket(
+                    submittableQuestion,
+                    closeIn,
+                    resolveIn,
+                    oracle,
+                    fallback,
+                    creatorFeeBps,
+                    metadata,
+                    committeeParams,
+                    allowlistRoot,
+                );
+            }
+            // Only the root goes on-chain; invite links are rebuilt from this list
+            if (allowlistRoot !== undefined) saveAllowlist(allowlistRoot, allowlistMembers);
             setSuccess(true);
             setCoin('BTC');
             setPrice('');
+            setUpperPrice('');
             setDeadline('');
+            setCloseBefore(DEFAULT_CLOSE_BEFORE);
             setEventQuestion('');
+            setOutcomes(['', '', '']);
+            setCreatorFee('0');
+            setCommittee(['', '', '']);
+            setThreshold('2');
+            setFallbackOracle('');
+            setIsPrivate(false);
+            setInvitees('');
         } catch {
             // error is set by the hook
         }
     };
 
-    const isValid = category === 'price'
-        ? !!coin && !!price && Number(price) > 0 && !!deadline
-        : !!eventQuestion.trim() && !!deadline;
+    const isValid = (isScalar
+        ? !!coin && rangeValid && !!deadline
+        : category === 'price'
+            ? !!coin && (isCategorical || (!!price && Number(price) > 0)) && !!deadline
+            : !!eventQuestion.trim() && !!deadline)
+        && (!isCategorical || outcomesValid)
+        && creatorFeeValid
+        && (!isCommittee || committeeValid)
+        && fallbackValid
+        && inviteesValid
+        // Deadlines are converted to blocks with the sampled block clock
+        && clock !== null;
 
     return (
         <Card className="max-w-2xl mx-auto">
@@ -214,7 +462,45 @@ export function CreateMarketForm(): React.JSX.Element {
             </div>
 
             <form onSubmit={handleSubmit} className="space-y-5">
-                {category === 'price' ? (
+                {isScalar ? (
+                    <>
+                        <div>
+                            <label className="block text-sm font-medium text-[var(--color-text-secondary)] mb-2">
+                                Coin
+                            </label>
+                            <CoinAutocomplete value={coin} onChange={setCoin} />
+                        </div>
+
+                        {/* Range bounds */}
+                        <div className="grid grid-cols-2 gap-3">
+                            {([['Lower Bound (USD)', price, setPrice, '50000'], ['Upper Bound (USD)', upperPrice, setUpperPrice, '150000']] as const)
+                                .map(([label, value, setValue, placeholder]) => (
+                                    <div key={label}>
+                                        <label className="block text-sm font-medium text-[var(--color-text-secondary)] mb-2">
+                                            {label}
+                                        </label>
+                                        <div className="relative">
+                                            <span className="absolute left-4 top-1/2 -translate-y-1/2 text-[var(--color-text-muted)]">$</span>
+                                            <input
+                                                type="number"
+                                                value={value}
+                                                onChange={(e) => setValue(e.target.value)}
+                                                placeholder={placeholder}
+                                                min="0.01"
+                                                step="any"
+                                                className={`${inputClasses} pl-8 pr-4`}
+                                                required
+                                            />
+                                        </div>
+                                    </div>
+                                ))}
+                        </div>
+                        <p className="text-xs text-[var(--color-text-muted)] -mt-2">
+                            Bet LONG or SHORT. The oracle resolves with the price, and the pot is split linearly between
+                            the bounds: LONG takes it all at or above the upper bound, SHORT at or below the lower one.
+                        </p>
+                    </>
+                ) : category === 'price' ? (
                     <>
                         {/* Coin autocomplete */}
                         <div>
@@ -225,7 +511,7 @@ export function CreateMarketForm(): React.JSX.Element {
                         </div>
 
                         {/* Target price */}
-                        <div>
+                        {!isCategorical && <div>
                             <label className="block text-sm font-medium text-[var(--color-text-secondary)] mb-2">
                                 Target Price (USD)
                             </label>
@@ -242,7 +528,7 @@ export function CreateMarketForm(): React.JSX.Element {
                                     required
                                 />
                             </div>
-                        </div>
+                        </div>}
                     </>
                 ) : (
                     /* Event question */
@@ -261,6 +547,53 @@ export function CreateMarketForm(): React.JSX.Element {
                     </div>
                 )}
 
+                {/* Outcomes */}
+                {!isScalar && <div>
+                    <label className="block text-sm font-medium text-[var(--color-text-secondary)] mb-2">
+                        Outcomes
+                    </label>
+                    <MarketTypeToggle value={marketType} onChange={setMarketType} />
+                    {isCategorical && (
+                        <div className="mt-3 space-y-2">
+                            {outcomes.map((outcome, i) => (
+                                <div key={i} className="flex gap-2">
+                                    <input
+                                        type="text"
+                                        value={outcome}
+                                        onChange={(e) => updateOutcome(i, e.target.value)}
+                                        placeholder={category === 'price' ? `Range ${i + 1} (e.g. $90k – $100k)` : `Outcome ${i + 1}`}
+                                        className={inputClasses}
+                                        required
+                                    />
+                                    {outcomes.length > MIN_OUTCOMES && (
+                                        <Button
+                                            type="button"
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() => setOutcomes((prev) => prev.filter((_, j) => j !== i))}
+                                        >
+                                            Remove
+                                        </Button>
+                                    )}
+                                </div>
+                            ))}
+                            {outcomes.length < MAX_OUTCOMES && (
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setOutcomes((prev) => [...prev, ''])}
+                                >
+                                    + Add outcome
+                                </Button>
+                            )}
+                            <p className="text-xs text-[var(--color-text-muted)]">
+                                {MIN_OUTCOMES}–{MAX_OUTCOMES} distinct outcomes. Winners split every outcome pool in proportion to their stake.
+                            </p>
+                        </div>
+                    )}
+                </div>}
+
                 {/* Deadline date picker */}
                 <div>
                     <label className="block text-sm font-medium text-[var(--color-text-secondary)] mb-2">
@@ -274,30 +607,178 @@ export function CreateMarketForm(): React.JSX.Element {
                         className={`${inputClasses} ${theme === 'dark' ? '[color-scheme:dark]' : '[color-scheme:light]'}`}
                         required
                     />
-                    {deadline && (
+                    {plannedSchedule && (
                         <p className="text-xs text-[var(--color-text-muted)] mt-1">
-                            ~{deadlineToBlocks(deadline).toLocaleString()} blocks from now
+                            {plannedSchedule.closeIn < plannedSchedule.resolveIn
+                                ? `Betting closes in ~${plannedSchedule.closeIn.toLocaleString()} blocks, resolution opens in ~${plannedSchedule.resolveIn.toLocaleString()}`
+                                : `~${plannedSchedule.resolveIn.toLocaleString()} blocks from now`}
                         </p>
                     )}
                 </div>
 
-                {/* Oracle address */}
+                {/* Betting close, ahead of the price observation */}
+                {closesEarly && (
+                    <div>
+                        <label className="block text-sm font-medium text-[var(--color-text-secondary)] mb-2">
+                            Close Betting
+                        </label>
+                        <select
+                            value={closeBefore.toString()}
+                            onChange={(e) => setCloseBefore(BigInt(e.target.value))}
+                            className={`${inputClasses} cursor-pointer`}
+                        >
+                            {CLOSE_BEFORE_OPTIONS.map((o) => (
+                                <option key={o.label} value={o.blocks.toString()}>{o.label}</option>
+                            ))}
+                        </select>
+                        <p className="text-xs text-[var(--color-text-muted)] mt-1">
+                            Stops last-minute bets once the price is nearly known. The market still resolves on the deadline price.
+                        </p>
+                    </div>
+                )}
+
+                {/* Oracle address or committee */}
                 <div>
                     <label className="block text-sm font-medium text-[var(--color-text-secondary)] mb-2">
-                        Oracle Address
+                        Oracle
                     </label>
+                    {!isScalar && <OracleModeToggle value={oracleMode} onChange={setOracleMode} />}
+                    {isCommittee ? (
+                        <div className="mt-3 space-y-2">
+                            {committee.map((member, i) => (
+                                <div key={i} className="flex gap-2">
+                                    <input
+                                        type="text"
+                                        value={member}
+                                        onChange={(e) => updateMember(i, e.target.value)}
+                                        placeholder={`Member ${i + 1} address (0x...)`}
+                                        className={`${inputClasses} font-mono text-sm`}
+                                        required
+                                    />
+                                    {committee.length > MIN_COMMITTEE && (
+                                        <Button
+                                            type="button"
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() => setCommittee((prev) => prev.filter((_, j) => j !== i))}
+                                        >
+                                            Remove
+                                        </Button>
+                                    )}
+                                </div>
+                            ))}
+                            {committee.length < MAX_COMMITTEE && (
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="sm"
+                                    onClick={() => setCommittee((prev) => [...prev, ''])}
+                                >
+                                    + Add member
+                                </Button>
+                            )}
+                            <div className="flex items-center gap-3 pt-1">
+                                <input
+                                    type="number"
+                                    value={threshold}
+                                    onChange={(e) => setThreshold(e.target.value)}
+                                    min="1"
+                                    max={committee.length}
+                                    step="1"
+                                    className={`${inputClasses} w-24`}
+                                />
+                                <span className="text-sm text-[var(--color-text-secondary)]">
+                                    of {committee.length} matching votes resolve the market
+                                </span>
+                            </div>
+                            <p className="text-xs text-[var(--color-text-muted)]">
+                                {MIN_COMMITTEE}–{MAX_COMMITTEE} distinct staked oracles. Each casts one vote after the deadline; the first outcome
+                                to reach the threshold is proposed and can still be disputed.
+                            </p>
+                        </div>
+                    ) : (
+                        <>
+                            <input
+                                type="text"
+                                value={oracleAddress}
+                                onChange={(e) => setOracleAddress(e.target.value)}
+                                placeholder={addressStr ? `Default: your wallet (${addressStr.slice(0, 8)}...)` : 'Who resolves this market'}
+                                className={`${inputClasses} font-mono text-sm ${isScalar ? '' : 'mt-3'}`}
+                            />
+                            <p className="text-xs text-[var(--color-text-muted)] mt-1">
+                                {isScalar
+                                    ? 'The oracle reports the price after the deadline and must be a staked, registered oracle. Leave empty to use your own wallet.'
+                                    : 'The oracle decides the outcome after the deadline and must be a staked, registered oracle. Leave empty to use your own wallet.'}
+                            </p>
+                            <OraclePicker value={oracleAddress} onSelect={setOracleAddress} />
+                        </>
+                    )}
                     <input
                         type="text"
-                        value={oracleAddress}
-                        onChange={(e) => setOracleAddress(e.target.value)}
-                        placeholder={addressStr ? `Default: your wallet (${addressStr.slice(0, 8)}...)` : 'Who resolves this market'}
-                        className={`${inputClasses} font-mono text-sm`}
+                        value={fallbackOracle}
+                        onChange={(e) => setFallbackOracle(e.target.value)}
+                        placeholder="Fallback oracle (optional, 0x...)"
+                        className={`${inputClasses} font-mono text-sm mt-3`}
                     />
                     <p className="text-xs text-[var(--color-text-muted)] mt-1">
-                        The oracle decides the outcome after the deadline. Leave empty to use your own wallet.
+                        {fallbackValid
+                            ? `Can resolve the market if the ${isCommittee ? 'committee' : 'oracle'} has not done so a few days after the deadline, and must be a staked oracle too. The contract owner always can.`
+                            : 'Enter a valid address, or leave it empty.'}
                     </p>
                 </div>
 
+                {/* Creator fee */}
+                <div>
+                    <label className="block text-sm font-medium text-[var(--color-text-secondary)] mb-2">
+                        Creator Fee (%)
+                    </label>
+                    <input
+                        type="number"
+                        value={creatorFee}
+                        onChange={(e) => setCreatorFee(e.target.value)}
+                        min="0"
+                        max={MAX_CREATOR_FEE_PERCENT}
+                        step="0.01"
+                        className={inputClasses}
+                    />
+                    <p className="text-xs text-[var(--color-text-muted)] mt-1">
+                        Taken from {isScalar ? 'the stake that changes sides' : 'the losing side'} at resolution and paid to you, up to {MAX_CREATOR_FEE_PERCENT}%.
+                        {protocolFeeBps !== null && protocolFeeBps > 0 && ` A ${protocolFeeBps / 100}% protocol fee also applies.`}
+                    </p>
+                </div>
+
+                {/* Private market */}
+                <div>
+                    <label className="flex items-center gap-2 text-sm font-medium text-[var(--color-text-secondary)] cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={isPrivate}
+                            onChange={(e) => setIsPrivate(e.target.checked)}
+                            className="accent-[var(--color-btc-orange)] cursor-pointer"
+                        />
+                        Private market
+                    </label>
+                    <p className="text-xs text-[var(--color-text-muted)] mt-1">
+                        Only invited addresses can bet, and the market is left out of public listings.
+                    </p>
+                    {isPrivate && (
+                        <>
+                            <textarea
+                                value={invitees}
+                                onChange={(e) => setInvitees(e.target.value)}
+                                placeholder="Invited addresses, one per line (0x...)"
+                                rows={4}
+                                className={`${inputClasses} font-mono text-sm mt-3`}
+                            />
+                            <p className="text-xs text-[var(--color-text-muted)] mt-1">
+                                {inviteesValid
+                                    ? 'You are always included. Invite links appear on the market page once it is confirmed.'
+                                    : 'Enter at least one address, and only valid addresses.'}
+                            </p>
+                        </>
+                    )}
+                </div>
+
                 {error && (
                     <div className="text-red-400 text-sm bg-red-400/10 px-4 py-2 rounded-lg">
                         {error}
@@ -0,0 +1,62 @@
+import { useState } from 'react';
+import { Card } from '../common/Card';
+import { Button } from '../common/Button';
+import { useTheme } from '../../hooks/useTheme';
+
+type EmbedTheme = 'dark' | 'light';
+
+/** Copyable iframe snippet for the market's /embed widget. */
+export function EmbedCode({ marketId }: { marketId: bigint }): React.JSX.Element {
+    const { theme: appTheme } = useTheme();
+    const [theme, setTheme] = useState<EmbedTheme>(appTheme);
+    const [copied, setCopied] = useState(false);
+
+    const src = `${window.location.origin}/embed/market/${marketId}?theme=${theme}`;
+    const snippet = `<iframe src="${src}" width="420" height="260" style="border:0" loading="lazy" title="OProphet market #${marketId}"></iframe>`;
+
+    const handleCopy = (): void => {
+        navigator.clipboard.writeText(snippet).then(() => {
+            setCopied(true);
+            setTimeout(() => setCopied(false), 2000);
+        }).catch(() => {
+            // the snippet stays selectable for a manual copy
+        });
+    };
+
+    return (
+        <Card>
+            <div className="flex items-center justify-between mb-3">
+                <h3 className="text-lg font-semibold text-[var(--color-text-primary)]">Embed</h3>
+                <div className="flex gap-2">
+                    {(['dark', 'light'] as const).map((t) => (
+                        <button
+                            key={t}
+                            type="button"
+                            onClick={() => setTheme(t)}
+                            className={`px-3 py-1 rounded-lg text-xs font-medium capitalize transition-colors ${
+                                theme === t
+                                    ? 'bg-[var(--color-btc-orange)]/20 text-[var(--color-btc-orange)]'
+                                    : 'text-[var(--color-text-secondary)] hover:text-[var(--color-text-primary)]'
+                            }`}
+                        >
+                            {t}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <p className="text-sm text-[var(--color-text-secondary)] mb-3">
+                Show this market's live odds on your site. The widget refreshes its pools and links back here to bet.
+            </p>
+            <textarea
+                readOnly
+                value={snippet}
+                rows={3}
+                onFocus={(e) => e.target.select()}
+                className="w-full bg-[var(--color-bg-input)] border border-[var(--color-border)] rounded-xl px-3 py-2 text-xs font-mono text-[var(--color-text-primary)] resize-none mb-3"
+            />
+            <Button variant="ghost" size="sm" onClick={handleCopy}>
+                {copied ? 'Copied' : 'Copy code'}
+            </Button>
+        </Card>
+    );
+}
@@ -1,10 +1,18 @@
 import { useNavigate } from 'react-router-dom';
 import { Card } from '../common/Card';
+import { MarketOdds } from './MarketOdds';
+import { MarketCountdown } from './MarketCountdown';
 import { MarketData, MarketStatus } from '../../types';
+import { sumPools } from '../../utils/outcomes';
+import { BlockClock } from '../../services/BlockTimeService';
 
 interface MarketCardProps {
     market: MarketData;
     isAwaitingResolution?: boolean;
+    /** Betting has closed but the market can't be resolved yet. */
+    isBettingClosed?: boolean;
+    /** Block clock for the close-time countdown; the card shows the close block until it is sampled. */
+    clock?: BlockClock | null;
 }
 
 function formatSats(sats: bigint): string {
@@ -13,8 +21,15 @@ function formatSats(sats: bigint): string {
     return `${sats.toLocaleString()} sats`;
 }
 
-function getStatusLabel(status: MarketStatus, isAwaitingResolution?: boolean): { text: string; color: string } {
-    if (isAwaitingResolution) {
+function getStatusLabel(
+    status: MarketStatus,
+    isAwaitingResolution?: boolean,
+    isBettingClosed?: boolean,
+): { text: string; color: string } {
+    if (isBettingClosed && status === MarketStatus.OPEN) {
+        return { text: 'BETTING CLOSED', color: 'text-yellow-400 bg-yellow-400/10' };
+    }
+    if (isAwaitingResolution && status === MarketStatus.OPEN) {
         return { text: 'AWAITING RESOLUTION', color: 'text-[var(--color-btc-orange)] bg-[var(--color-btc-orange)]/10' };
     }
     switch (status) {
@@ -22,19 +37,21 @@ function getStatusLabel(status: MarketStatus, isAwaitingResolution?: boolean): {
             return { text: 'LIVE', color: 'text-green-400 bg-green-400/10' };
         case MarketStatus.RESOLVED:
             return { text: 'RESOLVED', color: 'text-[var(--color-text-secondary)] bg-[var(--color-text-secondary)]/10' };
+        case MarketStatus.CANCELLED:
+            return { text: 'CANCELLED', color: 'text-red-400 bg-red-400/10' };
+        case MarketStatus.PROPOSED:
+            return { text: 'PROPOSED', color: 'text-[var(--color-btc-orange)] bg-[var(--color-btc-orange)]/10' };
+        case MarketStatus.DISPUTED:
+            return { text: 'DISPUTED', color: 'text-red-400 bg-red-400/10' };
         default:
             return { text: 'UNKNOWN', color: 'text-[var(--color-text-secondary)] bg-[var(--color-text-secondary)]/10' };
     }
 }
 
-export function MarketCard({ market, isAwaitingResolution }: MarketCardProps): React.JSX.Element {
+export function MarketCard({ market, isAwaitingResolution, isBettingClosed, clock }: MarketCardProps): React.JSX.Element {
     const navigate = useNavigate();
-    const totalPool = market.yesPool + market.noPool;
-    const yesPercent = totalPool > 0n
-        ? Number((market.yesPool * 10000n) / totalPool) / 100
-        : 50;
-    const noPercent = totalPool > 0n ? 100 - yesPercent : 50;
-    const status = getStatusLabel(market.status, isAwaitingResolution);
+    const totalPool = sumPools(market.outcomePools);
+    const status = getStatusLabel(market.status, isAwaitingResolution, isBettingClosed);
 
     return (
         <Card
@@ -45,6 +62,14 @@ export function MarketCard({ market, isAwaitingResolution }: MarketCardProps): R
             <div className="flex items-start justify-between mb-4">
                 <h3 className="text-lg font-semibold text-[var(--color-text-primary)] group-hover:text-[var(--color-btc-orange)] transition-colors leading-snug flex-1 mr-3">
                     {market.question}
+                    {!market.questionVerified && (
+                        <span
+                            className="ml-2 align-middle text-xs font-medium px-2 py-0.5 rounded-full text-yellow-400 bg-yellow-400/10"
+                            title="The question text is missing or does not match the hash committed on-chain"
+                        >
+                            Unverified
+                        </span>
+                    )}
                 </h3>
                 <span className={`text-xs font-bold px-2.5 py-1 rounded-full shrink-0 ${status.color}`}>
                     {status.text}
@@ -52,21 +77,12 @@ export function MarketCard({ market, isAwaitingResolution }: MarketCardProps): R
             </div>
 
             <div className="mb-4">
-                <div className="flex justify-between text-sm mb-1.5">
-                    <span className="text-green-400 font-medium">YES {yesPercent.toFixed(1)}%</span>
-                    <span className="text-red-400 font-medium">NO {noPercent.toFixed(1)}%</span>
-                </div>
-                <div className="w-full h-2.5 bg-red-500/30 rounded-full overflow-hidden">
-                    <div
-                        className="h-full bg-green-500 rounded-full transition-all duration-500"
-                        style={{ width: `${yesPercent}%` }}
-                    />
-                </div>
+                <MarketOdds market={market} />
             </div>
 
             <div className="flex items-center justify-between text-sm text-[var(--color-text-secondary)]">
                 <span>Pool: {formatSats(totalPool)}</span>
-                <span>Ends block #{market.endBlock.toLocaleString()}</span>
+                <MarketCountdown market={market} clock={clock} />
             </div>
         </Card>
     );
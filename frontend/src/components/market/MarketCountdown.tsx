@@ -0,0 +1,39 @@
+import { MarketData, MarketStatus } from '../../types';
+import { BlockClock, blockToDate } from '../../services/BlockTimeService';
+
+interface MarketCountdownProps {
+    market: MarketData;
+    /** Falls back to the close block while the clock hasn't been sampled. */
+    clock: BlockClock | null | undefined;
+}
+
+function formatDuration(ms: number): string {
+    const minutes = Math.max(1, Math.round(ms / 60_000));
+    if (minutes < 60) return `${minutes}m`;
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours}h ${minutes % 60}m`;
+    return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+}
+
+function formatCountdown(clock: BlockClock, market: MarketData): { text: string; title: string } {
+    const now = Date.now();
+    const untilClose = blockToDate(clock, market.closeBlock).getTime() - now;
+    if (untilClose > 0) {
+        return { text: `Closes in ~${formatDuration(untilClose)}`, title: `Betting closes at block #${market.closeBlock.toLocaleString()}` };
+    }
+    // Betting has closed; resolution may still be waiting for its block
+    const untilResolve = blockToDate(clock, market.resolveAfterBlock).getTime() - now;
+    if (untilResolve > 0) {
+        return { text: `Resolves in ~${formatDuration(untilResolve)}`, title: `Resolvable from block #${market.resolveAfterBlock.toLocaleString()}` };
+    }
+    return { text: `Closed ~${formatDuration(-untilClose)} ago`, title: `Betting closed at block #${market.closeBlock.toLocaleString()}` };
+}
+
+/** Time left until an open market closes (or becomes resolvable), or the close block itself. */
+export function MarketCountdown({ market, clock }: MarketCountdownProps): React.JSX.Element {
+    if (clock && market.status === MarketStatus.OPEN) {
+        const { text, title } = formatCountdown(clock, market);
+        return <span title={title}>{text}</span>;
+    }
+    return <span>Closes block #{market.closeBlock.toLocaleString()}</span>;
+}
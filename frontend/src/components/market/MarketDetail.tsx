@@ -1,11 +1,43 @@
 import { useEffect, useState, useCallback } from 'react';
-import { useParams } from 'react-router-dom';
+import { useParams, useSearchParams } from 'react-router-dom';
 import { useWalletConnect } from '@btc-vision/walletconnect';
 import { Card } from '../common/Card';
 import { Button } from '../common/Button';
 import { usePredictionMarket } from '../../hooks/usePredictionMarket';
 import type { PendingTx } from '../../hooks/usePredictionMarket';
-import { MarketData, MarketStatus, MarketOutcome, UserPosition } from '../../types';
+import { OutcomeBar } from './OutcomeBar';
+import { ResolutionTimeline } from './ResolutionTimeline';
+import { OracleCommitteePanel } from './OracleCommitteePanel';
+import { SellPosition } from './SellPosition';
+import { TransferPosition } from './TransferPosition';
+import { PriceHistoryChart } from './PriceHistoryChart';
+import { EmbedCode } from './EmbedCode';
+import { PrivateMarketPanel } from './PrivateMarketPanel';
+import {
+    MarketData,
+    MarketStatus,
+    MarketOutcome,
+    UserPosition,
+    CollateralToken,
+    MarketResolution,
+    DisputeConfig,
+    ResolutionAuthority,
+    AllowlistStatus,
+} from '../../types';
+import {
+    impliedScalarValue,
+    outcomeColor,
+    outcomeLabel,
+    outcomePercents,
+    positionPayout,
+    resolvedLabel,
+    sumPools,
+    winningStake,
+} from '../../utils/outcomes';
+import { getMarketMetadata } from '../../utils/marketQuestions';
+import { buildAllowlist, decodeInvite, findInviteProof, saveAllowlist, saveInvite } from '../../utils/allowlist';
+import { formatFixedPrice, fromFixedPrice, toFixedPrice } from '../../utils/prices';
+import { BetEvent, fetchMarketBets } from '../../services/indexedEvents';
 
 function formatSats(sats: bigint): string {
     const btc = Number(sats) / 100_000_000;
@@ -13,16 +45,34 @@ function formatSats(sats: bigint): string {
     return `${sats.toLocaleString()} sats`;
 }
 
+const RESOLVED_BY_LABELS: Record<ResolutionAuthority, string> = {
+    [ResolutionAuthority.NONE]: '',
+    [ResolutionAuthority.ORACLE]: 'the oracle',
+    [ResolutionAuthority.COMMITTEE]: 'the oracle committee',
+    [ResolutionAuthority.PRICE_SIGNER]: 'the signed price feed',
+    [ResolutionAuthority.FALLBACK_ORACLE]: 'the fallback oracle, after the resolution timeout',
+    [ResolutionAuthority.OWNER]: 'the contract owner, after the resolution timeout',
+    [ResolutionAuthority.ARBITRATOR]: 'the arbitrator, after a dispute',
+};
+
 function truncateId(id: string): string {
     if (id.length <= 16) return id;
     return `${id.slice(0, 8)}...${id.slice(-8)}`;
 }
 
-function pendingLabel(tx: PendingTx): string {
+function pendingLabel(tx: PendingTx, outcomeLabels: string[]): string {
     switch (tx.txType) {
-        case 'placeBet': return `Bet ${tx.betOutcome === 1 ? 'YES' : tx.betOutcome === 2 ? 'NO' : ''} — ${tx.betAmount !== undefined ? formatSats(tx.betAmount) : ''}`;
+        case 'placeBet': return `Bet ${tx.betOutcome !== undefined ? outcomeLabels[tx.betOutcome - 1] ?? '' : ''} — ${tx.betAmount !== undefined ? formatSats(tx.betAmount) : ''}`;
+        case 'sellPosition': return `Sell ${tx.betOutcome !== undefined ? outcomeLabels[tx.betOutcome - 1] ?? '' : ''} — ${tx.betAmount !== undefined ? formatSats(tx.betAmount) : ''}`;
+        case 'transferPosition': return `Transfer ${tx.betOutcome !== undefined ? outcomeLabels[tx.betOutcome - 1] ?? '' : ''} — ${tx.betAmount !== undefined ? formatSats(tx.betAmount) : ''}`;
         case 'resolveMarket': return 'Market resolution';
+        case 'voteOutcome': return 'Committee vote';
         case 'claimWinnings': return 'Claim winnings';
+        case 'cancelMarket': return 'Market cancellation';
+        case 'claimRefund': return 'Refund claim';
+        case 'disputeOutcome': return 'Dispute';
+        case 'finalizeMarket': return 'Outcome finalization';
+        case 'ruleDispute': return 'Arbitrator ruling';
         case 'createMarket': return tx.question ?? 'New market';
         default: return 'Transaction';
     }
@@ -38,6 +88,7 @@ function timeAgo(date: Date): string {
 
 export function MarketDetail(): React.JSX.Element {
     const { id } = useParams<{ id: string }>();
+    const [searchParams] = useSearchParams();
     const { address } = useWalletConnect();
     const {
         fetchMarket,
@@ -45,9 +96,30 @@ export function MarketDetail(): React.JSX.Element {
         fetchCurrentBlock,
         fetchCallerAddress,
         fetchPendingTxs,
+        fetchCollateralToken,
+        fetchCancelGracePeriod,
+        fetchResolution,
+        fetchDisputeConfig,
+        fetchPriceTarget,
+        fetchAdminConfig,
+        fetchAllowlistStatus,
+        joinMarket,
+        setAllowlistRoot,
+        setAllowlistMembers,
+        setPriceTarget,
         placeBet,
+        quoteSell,
+        sellPosition,
+        transferPosition,
         resolveMarket,
+        resolveScalarMarket,
+        voteOutcome,
+        disputeOutcome,
+        finalizeMarket,
+        ruleDispute,
         claimWinnings,
+        cancelMarket,
+        claimRefund,
         loading,
         error,
     } = usePredictionMarket();
@@ -58,12 +130,35 @@ export function MarketDetail(): React.JSX.Element {
     const [callerAddress, setCallerAddress] = useState<string | null>(null);
     const [loadingData, setLoadingData] = useState(true);
     const [pendingTxs, setPendingTxs] = useState<PendingTx[]>([]);
+    const [collateral, setCollateral] = useState<CollateralToken | null>(null);
+    const [gracePeriod, setGracePeriod] = useState<bigint | null>(null);
+    const [resolution, setResolution] = useState<MarketResolution | null>(null);
+    const [disputeConfig, setDisputeConfig] = useState<DisputeConfig | null>(null);
+    const [priceTarget, setPriceTargetValue] = useState<bigint | null>(null);
+    const [owner, setOwner] = useState<string | null>(null);
+    const [betHistory, setBetHistory] = useState<BetEvent[] | null>(null);
+    const [allowlistStatus, setAllowlistStatus] = useState<AllowlistStatus | null>(null);
+    const [allowlistSubmitted, setAllowlistSubmitted] = useState<string | null>(null);
+    const [disputeApprovalPending, setDisputeApprovalPending] = useState(false);
     const [betAmount, setBetAmount] = useState('10000');
-    const [errorSource, setErrorSource] = useState<'bet' | 'resolve' | 'claim' | null>(null);
+    const [scalarValue, setScalarValue] = useState('');
+    const [errorSource, setErrorSource] = useState<
+        'bet' | 'sell' | 'transfer' | 'resolve' | 'dispute' | 'claim' | 'cancel' | 'refund' | 'priceTarget' | 'allowlist' | null
+    >(null);
     const [betSuccess, setBetSuccess] = useState(false);
+    const [sellSuccess, setSellSuccess] = useState(false);
+    const [transferSuccess, setTransferSuccess] = useState(false);
+    const [approvalPending, setApprovalPending] = useState(false);
 
     const marketId = BigInt(id ?? '0');
 
+    // Keep the proof from an invite link so the market stays reachable without it
+    useEffect(() => {
+        const invite = searchParams.get('invite');
+        const proof = invite ? decodeInvite(invite) : null;
+        if (proof) saveInvite(marketId, proof);
+    }, [marketId, searchParams]);
+
     const loadData = useCallback(async (): Promise<void> => {
         setLoadingData(true);
         try {
@@ -75,6 +170,31 @@ export function MarketDetail(): React.JSX.Element {
             setMarket(m);
             setCurrentBlock(block);
             setPendingTxs(pending.filter((tx) => tx.marketId !== undefined && tx.marketId === marketId));
+            fetchCollateralToken().then(setCollateral).catch(() => {
+                // token metadata is display-only
+            });
+            fetchCancelGracePeriod().then(setGracePeriod).catch(() => {
+                // only used to show when public cancellation opens
+            });
+            fetchDisputeConfig().then(setDisputeConfig).catch(() => {
+                // bond and arbitrator are display-only until a proposal exists
+            });
+            fetchMarketBets(marketId).then(setBetHistory).catch(() => {
+                // the price history chart stays hidden without the indexer
+            });
+            if (m.status === MarketStatus.OPEN) {
+                fetchAdminConfig().then((c) => setOwner(c.owner)).catch(() => {
+                    // the owner only gets resolve controls once the timeout passes
+                });
+            }
+            if (m.status === MarketStatus.OPEN && m.outcomeCount === 2) {
+                fetchPriceTarget(marketId).then(setPriceTargetValue).catch(() => {
+                    // without it the market simply shows no price-feed resolution
+                });
+            }
+            if (m.status !== MarketStatus.OPEN && m.status !== MarketStatus.CANCELLED) {
+                setResolution(await fetchResolution(marketId));
+            }
             if (address) {
                 const [p, caller] = await Promise.all([
                     fetchUserPosition(marketId),
@@ -82,13 +202,19 @@ export function MarketDetail(): React.JSX.Element {
                 ]);
                 setPosition(p);
                 setCallerAddress(caller);
+                if (m.isPrivate && m.allowlistRoot !== null) {
+                    const proof = await findInviteProof(marketId, m.allowlistRoot, String(address));
+                    setAllowlistStatus(await fetchAllowlistStatus(marketId, proof ?? []));
+                } else if (m.isPrivate) {
+                    setAllowlistStatus(await fetchAllowlistStatus(marketId));
+                }
             }
         } catch {
             // error handled by hook
         } finally {
             setLoadingData(false);
         }
-    }, [marketId, address, fetchMarket, fetchUserPosition, fetchCurrentBlock, fetchCallerAddress, fetchPendingTxs]);
+    }, [marketId, address, fetchMarket, fetchUserPosition, fetchCurrentBlock, fetchCallerAddress, fetchPendingTxs, fetchCollateralToken, fetchCancelGracePeriod, fetchResolution, fetchDisputeConfig, fetchPriceTarget, fetchAdminConfig, fetchAllowlistStatus]);
 
     useEffect(() => {
         void loadData();
@@ -97,10 +223,15 @@ export function MarketDetail(): React.JSX.Element {
     const handleBet = async (outcome: MarketOutcome): Promise<void> => {
         setErrorSource('bet');
         setBetSuccess(false);
+        setApprovalPending(false);
         try {
             const amount = BigInt(betAmount);
-            await placeBet(marketId, outcome, amount);
+            const result = await placeBet(marketId, outcome, amount);
             setErrorSource(null);
+            if (result === 'approval-submitted') {
+                setApprovalPending(true);
+                return;
+            }
             setBetSuccess(true);
             await loadData();
         } catch {
@@ -108,6 +239,61 @@ export function MarketDetail(): React.JSX.Element {
         }
     };
 
+    const submitAllowlist = async (label: string, action: () => Promise<void>): Promise<void> => {
+        setErrorSource('allowlist');
+        setAllowlistSubmitted(null);
+        try {
+            await action();
+            setErrorSource(null);
+            setAllowlistSubmitted(label);
+        } catch {
+            // error is set by the hook
+        }
+    };
+
+    const handleJoin = (): Promise<void> => submitAllowlist('Join', async () => {
+        if (!market?.allowlistRoot || !address) return;
+        const proof = await findInviteProof(marketId, market.allowlistRoot, String(address));
+        await joinMarket(marketId, proof ?? []);
+    });
+
+    const handleUpdateInvitees = (addresses: string[]): Promise<void> => submitAllowlist('Invite list update', async () => {
+        // The creator stays on every list they publish
+        const members = address ? [String(address), ...addresses] : addresses;
+        const { root } = await buildAllowlist(members);
+        await setAllowlistRoot(marketId, root);
+        saveAllowlist(root, members);
+    });
+
+    const handleAllow = (member: string, allowed: boolean): Promise<void> =>
+        submitAllowlist(allowed ? 'Allowlist addition' : 'Allowlist removal', () => setAllowlistMembers(marketId, [member], allowed));
+
+    const handleSell = async (outcome: MarketOutcome, shares: bigint, minOut: bigint): Promise<void> => {
+        setErrorSource('sell');
+        setSellSuccess(false);
+        try {
+            await sellPosition(marketId, outcome, shares, minOut);
+            setErrorSource(null);
+            setSellSuccess(true);
+            await loadData();
+        } catch {
+            // error is set by the hook
+        }
+    };
+
+    const handleTransfer = async (outcome: MarketOutcome, to: string, shares: bigint): Promise<void> => {
+        setErrorSource('transfer');
+        setTransferSuccess(false);
+        try {
+            await transferPosition(marketId, outcome, to, shares);
+            setErrorSource(null);
+            setTransferSuccess(true);
+            await loadData();
+        } catch {
+            // error is set by the hook
+        }
+    };
+
     const handleResolve = async (outcome: MarketOutcome): Promise<void> => {
         setErrorSource('resolve');
         try {
@@ -119,6 +305,66 @@ export function MarketDetail(): React.JSX.Element {
         }
     };
 
+    const handleResolveScalar = async (value: number): Promise<void> => {
+        setErrorSource('resolve');
+        try {
+            await resolveScalarMarket(marketId, toFixedPrice(value));
+            setErrorSource(null);
+            await loadData();
+        } catch {
+            // error is set by the hook
+        }
+    };
+
+    const handleVote = async (outcome: MarketOutcome): Promise<void> => {
+        setErrorSource('resolve');
+        try {
+            await voteOutcome(marketId, outcome);
+            setErrorSource(null);
+            await loadData();
+        } catch {
+            // error is set by the hook
+        }
+    };
+
+    const handleDispute = async (outcome: MarketOutcome | bigint): Promise<void> => {
+        setErrorSource('dispute');
+        setDisputeApprovalPending(false);
+        try {
+            const result = await disputeOutcome(marketId, outcome);
+            setErrorSource(null);
+            if (result === 'approval-submitted') {
+                setDisputeApprovalPending(true);
+                return;
+            }
+            await loadData();
+        } catch {
+            // error is set by the hook
+        }
+    };
+
+    const handleFinalize = async (): Promise<void> => {
+        setErrorSource('dispute');
+        try {
+            await finalizeMarket(marketId);
+            setErrorSource(null);
+            await loadData();
+        } catch {
+            // error is set by the hook
+        }
+    };
+
+    const handleRule = async (outcome: MarketOutcome | bigint): Promise<void> => {
+        setErrorSource('dispute');
+        try {
+            await ruleDispute(marketId, outcome);
+            setErrorSource(null);
+            await loadData();
+        } catch {
+            // error is set by the hook
+        }
+    };
+
     const handleClaim = async (): Promise<void> => {
         setErrorSource('claim');
         try {
@@ -130,6 +376,39 @@ export function MarketDetail(): React.JSX.Element {
         }
     };
 
+    const handleCancel = async (): Promise<void> => {
+        setErrorSource('cancel');
+        try {
+            await cancelMarket(marketId);
+            setErrorSource(null);
+            await loadData();
+        } catch {
+            // error is set by the hook
+        }
+    };
+
+    const handleSetPriceTarget = async (targetPrice: number): Promise<void> => {
+        setErrorSource('priceTarget');
+        try {
+            await setPriceTarget(marketId, toFixedPrice(targetPrice));
+            setErrorSource(null);
+            await loadData();
+        } catch {
+            // error is set by the hook
+        }
+    };
+
+    const handleRefund = async (): Promise<void> => {
+        setErrorSource('refund');
+        try {
+            await claimRefund(marketId);
+            setErrorSource(null);
+            await loadData();
+        } catch {
+            // error is set by the hook
+        }
+    };
+
     if (loadingData) {
         return (
             <div className="flex items-center justify-center py-20">
@@ -146,13 +425,18 @@ export function MarketDetail(): React.JSX.Element {
         );
     }
 
-    const totalPool = market.yesPool + market.noPool;
+    const isCategorical = market.outcomeCount > 2;
+    const totalPool = sumPools(market.outcomePools);
+    const percents = outcomePercents(market.outcomePools);
     const yesPercent = totalPool > 0n
         ? Number((market.yesPool * 10000n) / totalPool) / 100
         : 50;
     const noPercent = totalPool > 0n ? 100 - yesPercent : 50;
     const isOpen = market.status === MarketStatus.OPEN;
     const isResolved = market.status === MarketStatus.RESOLVED;
+    const isCancelled = market.status === MarketStatus.CANCELLED;
+    const isProposed = market.status === MarketStatus.PROPOSED;
+    const isDisputed = market.status === MarketStatus.DISPUTED;
     // Convert wallet address (Uint8Array with custom toString, or string) to lowercase hex
     const normalize = (v: unknown): string => {
         if (!v) return '';
@@ -162,15 +446,56 @@ export function MarketDetail(): React.JSX.Element {
         return String(v).toLowerCase().replace(/^0x/, '');
     };
     const oracleHex = normalize(market.oracle).replace(/^0+/, '');
+    const creatorHex = normalize(market.creator).replace(/^0+/, '');
     const callerHex = normalize(callerAddress).replace(/^0+/, '');
     const walletHex = normalize(address).replace(/^0+/, '');
     const isOracle = (callerHex !== '' && oracleHex === callerHex) || (walletHex !== '' && oracleHex === walletHex);
-    const deadlineReached = currentBlock !== null && currentBlock >= market.endBlock;
-    const pendingBets = pendingTxs.filter((tx) => tx.txType !== 'resolveMarket' && tx.txType !== 'claimWinnings');
-    const pendingResolutions = pendingTxs.filter((tx) => tx.txType === 'resolveMarket');
-    const pendingClaims = pendingTxs.filter((tx) => tx.txType === 'claimWinnings');
+    const isCreator = (callerHex !== '' && creatorHex === callerHex) || (walletHex !== '' && creatorHex === walletHex);
+    // Price markets can commit their target so the signed price feed resolves them
+    const metadataTarget = market.questionVerified ? getMarketMetadata(market.id)?.targetPrice : undefined;
+    const hasPriceTarget = priceTarget !== null && priceTarget > 0n;
+    const canSetPriceTarget = isOpen && !isCategorical && !market.scalar && isCreator && !hasPriceTarget
+        && metadataTarget !== undefined && metadataTarget > 0 && totalPool === 0n;
+    const arbitratorHex = disputeConfig ? normalize(disputeConfig.arbitrator).replace(/^0+/, '') : '';
+    const isArbitrator = arbitratorHex !== '' && (arbitratorHex === callerHex || arbitratorHex === walletHex);
+    const committeeIndex = market.committee
+        ? market.committee.members.findIndex((m) => {
+            const memberHex = normalize(m).replace(/^0+/, '');
+            return (callerHex !== '' && memberHex === callerHex) || (walletHex !== '' && memberHex === walletHex);
+        })
+        : -1;
+    const bettingClosed = currentBlock !== null && currentBlock >= market.closeBlock;
+    // Private markets only take bets from wallets on their allowlist
+    const canBet = !market.isPrivate || allowlistStatus?.member === true;
+    // Price markets can close betting ahead of the observation they resolve on
+    const resolvable = currentBlock !== null && currentBlock >= market.resolveAfterBlock;
+    const resolutionDelayed = market.resolveAfterBlock > market.closeBlock;
+    // Past the timeout the fallback oracle and the owner may resolve in place of a silent oracle
+    const timedOut = currentBlock !== null && currentBlock >= market.resolutionTimeoutBlock;
+    const fallbackHex = normalize(market.fallbackOracle).replace(/^0+/, '');
+    const ownerHex = normalize(owner).replace(/^0+/, '');
+    const isFallbackOracle = fallbackHex !== '' && (fallbackHex === callerHex || fallbackHex === walletHex);
+    const isOwner = ownerHex !== '' && (ownerHex === callerHex || ownerHex === walletHex);
+    const resolvesAfterTimeout = timedOut && (isFallbackOracle || isOwner) && !(isOracle && !market.committee);
+    const canResolve = (isOracle && !market.committee) || resolvesAfterTimeout;
+    const pendingBets = pendingTxs.filter(
+        (tx) => tx.txType === 'placeBet' || tx.txType === 'sellPosition' || tx.txType === 'unknown',
+    );
+    const pendingResolutions = pendingTxs.filter(
+        (tx) => tx.txType === 'resolveMarket' || tx.txType === 'voteOutcome' || tx.txType === 'cancelMarket',
+    );
+    const pendingClaims = pendingTxs.filter((tx) => tx.txType === 'claimWinnings' || tx.txType === 'claimRefund');
     const hasPendingResolution = pendingResolutions.length > 0;
     const hasPendingClaim = pendingClaims.length > 0;
+    const hasPendingDisputeAction = pendingTxs.some(
+        (tx) => tx.txType === 'disputeOutcome' || tx.txType === 'finalizeMarket' || tx.txType === 'ruleDispute',
+    );
+    // Anyone may cancel once the oracle has been silent for the grace period
+    const cancellableAt = gracePeriod !== null ? market.resolveAfterBlock + gracePeriod : null;
+    const publicCancelOpen = cancellableAt !== null && currentBlock !== null && currentBlock >= cancellableAt;
+    const impliedValue = impliedScalarValue(market);
+    const parsedScalarValue = Number(scalarValue);
+    const scalarValueValid = scalarValue !== '' && Number.isFinite(parsedScalarValue) && parsedScalarValue >= 0;
 
     return (
         <div className="max-w-3xl mx-auto space-y-6">
@@ -180,70 +505,208 @@ export function MarketDetail(): React.JSX.Element {
                         {market.question}
                     </h1>
                     <span className={`text-xs font-bold px-3 py-1.5 rounded-full shrink-0 ml-4 ${
-                        isOpen ? 'text-green-400 bg-green-400/10' : 'text-[var(--color-text-secondary)] bg-[var(--color-text-secondary)]/10'
+                        isOpen
+                            ? 'text-green-400 bg-green-400/10'
+                            : isCancelled || isDisputed
+                                ? 'text-red-400 bg-red-400/10'
+                                : isProposed
+                                    ? 'text-[var(--color-btc-orange)] bg-[var(--color-btc-orange)]/10'
+                                    : 'text-[var(--color-text-secondary)] bg-[var(--color-text-secondary)]/10'
                     }`}>
-                        {isOpen ? 'LIVE' : 'RESOLVED'}
+                        {isOpen ? 'LIVE' : isCancelled ? 'CANCELLED' : isProposed ? 'PROPOSED' : isDisputed ? 'DISPUTED' : 'RESOLVED'}
                     </span>
                 </div>
 
-                <div className="mb-6">
-                    <div className="flex justify-between text-base mb-2">
-                        <span className="text-green-400 font-bold">YES {yesPercent.toFixed(1)}%</span>
-                        <span className="text-red-400 font-bold">NO {noPercent.toFixed(1)}%</span>
-                    </div>
-                    <div className="w-full h-4 bg-red-500/30 rounded-full overflow-hidden">
-                        <div
-                            className="h-full bg-green-500 rounded-full transition-all duration-700"
-                            style={{ width: `${yesPercent}%` }}
+                {!market.questionVerified && (
+                    <p className="-mt-4 mb-6 text-xs text-yellow-400">
+                        The question text for this market is missing or does not match the hash committed on-chain.
+                    </p>
+                )}
+
+                {isCategorical ? (
+                    <div className="mb-6">
+                        <OutcomeBar
+                            labels={market.outcomeLabels}
+                            pools={market.outcomePools}
+                            winningOutcome={isResolved ? market.outcome : undefined}
                         />
                     </div>
-                </div>
-
-                <div className="grid grid-cols-2 gap-4 text-sm text-[var(--color-text-secondary)] mb-6">
-                    <div>
-                        <span className="block text-xs uppercase tracking-wider mb-1">YES Pool</span>
-                        <span className="text-green-400 font-semibold text-base">{formatSats(market.yesPool)}</span>
+                ) : (
+                    <div className="mb-6">
+                        <div className="flex justify-between text-base mb-2">
+                            <span className="text-green-400 font-bold">{market.outcomeLabels[0]} {yesPercent.toFixed(1)}%</span>
+                            <span className="text-red-400 font-bold">{market.outcomeLabels[1]} {noPercent.toFixed(1)}%</span>
+                        </div>
+                        <div className="w-full h-4 bg-red-500/30 rounded-full overflow-hidden">
+                            <div
+                                className="h-full bg-green-500 rounded-full transition-all duration-700"
+                                style={{ width: `${yesPercent}%` }}
+                            />
+                        </div>
                     </div>
-                    <div className="text-right">
-                        <span className="block text-xs uppercase tracking-wider mb-1">NO Pool</span>
-                        <span className="text-red-400 font-semibold text-base">{formatSats(market.noPool)}</span>
+                )}
+
+                {market.scalar && (
+                    <div className="mb-6">
+                        <div className="grid grid-cols-3 gap-4 text-sm text-[var(--color-text-secondary)]">
+                            <div>
+                                <span className="block text-xs uppercase tracking-wider mb-1">Lower Bound</span>
+                                <span className="text-[var(--color-text-primary)] font-semibold text-base">{formatFixedPrice(market.scalar.lowerBound)}</span>
+                            </div>
+                            <div className="text-center">
+                                <span className="block text-xs uppercase tracking-wider mb-1">{isResolved ? 'Resolved At' : 'Implied Value'}</span>
+                                <span className="text-[var(--color-btc-orange)] font-semibold text-base">
+                                    {isResolved ? resolvedLabel(market) : impliedValue !== null ? formatFixedPrice(impliedValue) : '—'}
+                                </span>
+                            </div>
+                            <div className="text-right">
+                                <span className="block text-xs uppercase tracking-wider mb-1">Upper Bound</span>
+                                <span className="text-[var(--color-text-primary)] font-semibold text-base">{formatFixedPrice(market.scalar.upperBound)}</span>
+                            </div>
+                        </div>
+                        <p className="text-xs text-[var(--color-text-muted)] mt-3">
+                            The pot is split linearly on the resolved value: LONG takes it all at or above the upper bound,
+                            SHORT at or below the lower bound, and in between each side gets its share of the range.
+                        </p>
                     </div>
-                    <div>
+                )}
+
+                <div className="grid grid-cols-2 gap-4 text-sm text-[var(--color-text-secondary)] mb-6">
+                    {market.outcomeLabels.map((label, i) => (
+                        <div key={i} className={i % 2 === 1 ? 'text-right' : ''}>
+                            <span className="block text-xs uppercase tracking-wider mb-1">{label} Pool</span>
+                            <span
+                                className={`font-semibold text-base ${isCategorical ? '' : i === 0 ? 'text-green-400' : 'text-red-400'}`}
+                                style={{ color: isCategorical ? outcomeColor(i) : undefined }}
+                            >
+                                {formatSats(market.outcomePools[i] ?? 0n)}
+                            </span>
+                        </div>
+                    ))}
+                    <div className={market.outcomeLabels.length % 2 === 1 ? 'text-right' : ''}>
                         <span className="block text-xs uppercase tracking-wider mb-1">Total Pool</span>
                         <span className="text-[var(--color-btc-orange)] font-semibold text-base">{formatSats(totalPool)}</span>
                     </div>
-                    <div className="text-right">
-                        <span className="block text-xs uppercase tracking-wider mb-1">Ends at Block</span>
-                        <span className="text-[var(--color-text-primary)] font-semibold text-base">#{market.endBlock.toLocaleString()}</span>
+                    <div className={market.outcomeLabels.length % 2 === 1 ? '' : 'text-right'}>
+                        <span className="block text-xs uppercase tracking-wider mb-1">Betting Closes</span>
+                        <span className="text-[var(--color-text-primary)] font-semibold text-base">#{market.closeBlock.toLocaleString()}</span>
+                        {resolutionDelayed && (
+                            <span className="block text-xs mt-1">Resolves after #{market.resolveAfterBlock.toLocaleString()}</span>
+                        )}
                     </div>
                 </div>
 
+                {(market.protocolFeeBps > 0 || market.creatorFeeBps > 0) && (
+                    <p className="text-xs text-[var(--color-text-muted)] -mt-2 mb-6">
+                        Fees: {market.protocolFeeBps / 100}% protocol + {market.creatorFeeBps / 100}% creator, taken from
+                        {market.scalar ? ' the stake that changes sides' : ' the losing side'} at resolution
+                        {isResolved && ` (${formatSats(market.protocolFee + market.creatorFee)} collected)`}.
+                    </p>
+                )}
+
                 {isResolved && (
                     <div className={`text-center py-4 rounded-xl mb-4 ${
-                        market.outcome === MarketOutcome.YES
-                            ? 'bg-green-500/10 text-green-400'
-                            : 'bg-red-500/10 text-red-400'
+                        isCategorical || market.scalar
+                            ? 'bg-[var(--color-btc-orange)]/10 text-[var(--color-btc-orange)]'
+                            : market.outcome === MarketOutcome.YES
+                                ? 'bg-green-500/10 text-green-400'
+                                : 'bg-red-500/10 text-red-400'
                     }`}>
                         <span className="text-lg font-bold">
-                            Resolved: {market.outcome === MarketOutcome.YES ? 'YES' : 'NO'}
+                            Resolved: {resolvedLabel(market)}
                         </span>
+                        {market.resolvedBy !== ResolutionAuthority.NONE && (
+                            <p className="text-xs mt-1 text-[var(--color-text-secondary)]">
+                                Resolved by {RESOLVED_BY_LABELS[market.resolvedBy]}
+                            </p>
+                        )}
+                    </div>
+                )}
+
+                {isCancelled && (
+                    <div className="text-center py-4 rounded-xl mb-4 bg-red-500/10 text-red-400">
+                        <span className="text-lg font-bold">Cancelled</span>
+                        <p className="text-sm mt-1">Every bettor can claim back their full stake.</p>
                     </div>
                 )}
             </Card>
 
-            {isOpen && deadlineReached && (
+            {market.isPrivate && (
+                <PrivateMarketPanel
+                    market={market}
+                    status={address ? allowlistStatus : null}
+                    isOpen={isOpen && !bettingClosed}
+                    isCreator={isCreator}
+                    loading={loading}
+                    error={errorSource === 'allowlist' ? error : null}
+                    submitted={allowlistSubmitted}
+                    onJoin={() => void handleJoin()}
+                    onUpdateInvitees={(addresses) => void handleUpdateInvitees(addresses)}
+                    onAllow={(member, allowed) => void handleAllow(member, allowed)}
+                />
+            )}
+
+            <PriceHistoryChart market={market} bets={betHistory} />
+
+            {isOpen && hasPriceTarget && (
                 <Card>
                     <p className="text-sm text-[var(--color-text-secondary)]">
-                        Betting is closed — the deadline (block #{market.endBlock.toLocaleString()}) has passed. Awaiting oracle resolution.
+                        {market.scalar ? (
+                            <>Resolves from the signed price feed at the price observed at block #{market.resolveAfterBlock.toLocaleString()}.</>
+                        ) : (
+                            <>
+                                Resolves from the signed price feed: YES if the price is at or above
+                                {' '}<span className="font-semibold text-[var(--color-text-primary)]">${fromFixedPrice(priceTarget).toLocaleString()}</span>
+                                {' '}at block #{market.resolveAfterBlock.toLocaleString()}.
+                            </>
+                        )}
+                        {' '}The proposed outcome can still be disputed.
+                    </p>
+                </Card>
+            )}
+
+            {canSetPriceTarget && (
+                <Card>
+                    <h2 className="text-lg font-bold text-[var(--color-text-primary)] mb-2">Price-Feed Resolution</h2>
+                    <p className="text-sm text-[var(--color-text-secondary)] mb-4">
+                        Commit the ${metadataTarget.toLocaleString()} target on-chain so an approved price signer can resolve
+                        this market from a signed price instead of waiting on the oracle. This is only possible before the first bet.
                     </p>
+                    <Button
+                        variant="ghost"
+                        size="md"
+                        className="w-full"
+                        onClick={() => void handleSetPriceTarget(metadataTarget)}
+                        disabled={loading}
+                    >
+                        {loading ? 'Committing...' : 'Commit Price Target On-Chain'}
+                    </Button>
+                    {error && errorSource === 'priceTarget' && (
+                        <div className="mt-3 text-red-400 text-sm bg-red-400/10 px-4 py-3 rounded-lg">
+                            {error}
+                        </div>
+                    )}
                 </Card>
             )}
 
-            {isOpen && address && !deadlineReached && (
+            {isOpen && bettingClosed && (
+                <Card>
+                    <p className="text-sm text-[var(--color-text-secondary)]">
+                        Betting closed at block #{market.closeBlock.toLocaleString()}.
+                        {resolvable
+                            ? ' Awaiting oracle resolution.'
+                            : ` The market can be resolved from block #${market.resolveAfterBlock.toLocaleString()}.`}
+                    </p>
+                </Card>
+            )}
+
+            {isOpen && address && !bettingClosed && canBet && (
                 <Card>
                     <h2 className="text-lg font-bold text-[var(--color-text-primary)] mb-4">Place Your Bet</h2>
                     <div className="mb-4">
-                        <label className="block text-sm text-[var(--color-text-secondary)] mb-2">Bet Amount (sats)</label>
+                        <label className="block text-sm text-[var(--color-text-secondary)] mb-2">
+                            Bet Amount ({collateral ? collateral.symbol : 'collateral token'}, base units)
+                        </label>
                         <input
                             type="number"
                             value={betAmount}
@@ -253,36 +716,70 @@ export function MarketDetail(): React.JSX.Element {
                             placeholder="10000"
                         />
                     </div>
-                    <div className="flex gap-4">
-                        <Button
-                            variant="yes"
-                            size="lg"
-                            className="flex-1"
-                            onClick={() => handleBet(MarketOutcome.YES)}
-                            disabled={loading}
-                        >
-                            {loading ? 'Placing...' : `Bet YES (${yesPercent.toFixed(0)}%)`}
-                        </Button>
-                        <Button
-                            variant="no"
-                            size="lg"
-                            className="flex-1"
-                            onClick={() => handleBet(MarketOutcome.NO)}
-                            disabled={loading}
-                        >
-                            {loading ? 'Placing...' : `Bet NO (${noPercent.toFixed(0)}%)`}
-                        </Button>
-                    </div>
+                    {isCategorical ? (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            {market.outcomeLabels.map((label, i) => (
+                                <Button
+                                    key={i}
+                                    variant="ghost"
+                                    size="md"
+                                    onClick={() => handleBet(i + 1)}
+                                    disabled={loading}
+                                    style={{ borderColor: outcomeColor(i) }}
+                                >
+                                    {loading ? 'Placing...' : `Bet ${label} (${percents[i].toFixed(0)}%)`}
+                                </Button>
+                            ))}
+                        </div>
+                    ) : (
+                        <div className="flex gap-4">
+                            <Button
+                                variant="yes"
+                                size="lg"
+                                className="flex-1"
+                                onClick={() => handleBet(MarketOutcome.YES)}
+                                disabled={loading}
+                            >
+                                {loading ? 'Placing...' : `Bet ${market.outcomeLabels[0]} (${yesPercent.toFixed(0)}%)`}
+                            </Button>
+                            <Button
+                                variant="no"
+                                size="lg"
+                                className="flex-1"
+                                onClick={() => handleBet(MarketOutcome.NO)}
+                                disabled={loading}
+                            >
+                                {loading ? 'Placing...' : `Bet ${market.outcomeLabels[1]} (${noPercent.toFixed(0)}%)`}
+                            </Button>
+                        </div>
+                    )}
                     {error && errorSource === 'bet' && (
                         <div className="mt-3 text-red-400 text-sm bg-red-400/10 px-4 py-3 rounded-lg">
                             {error}
                         </div>
                     )}
+                    {approvalPending && !error && (
+                        <div className="mt-3 text-[var(--color-btc-orange)] text-sm bg-[var(--color-btc-orange)]/10 px-4 py-3 rounded-lg">
+                            Token approval submitted. Once it confirms in the next block (~10 min), place your bet again.
+                        </div>
+                    )}
                     {betSuccess && !error && (
                         <div className="mt-3 text-green-400 text-sm bg-green-400/10 px-4 py-3 rounded-lg">
                             Bet submitted! It will be reflected after the next block confirmation (~10 min).
                         </div>
                     )}
+                    {!market.scalar && position && position.stakes.some((s) => s > 0n) && (
+                        <SellPosition
+                            market={market}
+                            position={position}
+                            loading={loading}
+                            error={errorSource === 'sell' ? error : null}
+                            hasPendingSell={pendingTxs.some((tx) => tx.txType === 'sellPosition')}
+                            success={sellSuccess}
+                            quoteSell={quoteSell}
+                            onSell={(outcome, shares, minOut) => void handleSell(outcome, shares, minOut)}
+                        />
+                    )}
                 </Card>
             )}
 
@@ -306,7 +803,7 @@ export function MarketDetail(): React.JSX.Element {
                                     className="bg-[var(--color-bg-input)] border border-[var(--color-border)] rounded-lg px-4 py-3"
                                 >
                                     <p className="text-sm font-medium text-[var(--color-text-primary)] mb-2">
-                                        {pendingLabel(tx)}
+                                        {pendingLabel(tx, market.outcomeLabels)}
                                     </p>
                                     <div className="flex items-center justify-between text-sm mb-1">
                                         <span className="text-[var(--color-text-muted)]">TxID</span>
@@ -329,30 +826,75 @@ export function MarketDetail(): React.JSX.Element {
                 </Card>
             )}
 
-            {position && (position.yesBet > 0n || position.noBet > 0n) && (() => {
-                // Calculate winnings when market is resolved
-                const wonYes = isResolved && market.outcome === MarketOutcome.YES && position.yesBet > 0n;
-                const wonNo = isResolved && market.outcome === MarketOutcome.NO && position.noBet > 0n;
-                const isWinner = wonYes || wonNo;
-                const userWinningBet = wonYes ? position.yesBet : wonNo ? position.noBet : 0n;
-                const winningPool = wonYes ? market.yesPool : wonNo ? market.noPool : 0n;
-                const winnings = winningPool > 0n ? (userWinningBet * totalPool) / winningPool : 0n;
-                const profit = winnings - userWinningBet;
+            {market.committee && (
+                <OracleCommitteePanel
+                    market={market}
+                    committee={market.committee}
+                    memberIndex={committeeIndex}
+                    canVote={isOpen && resolvable}
+                    currentBlock={currentBlock}
+                    hasPendingVote={hasPendingResolution}
+                    loading={loading}
+                    error={errorSource === 'resolve' ? error : null}
+                    onVote={(outcome) => void handleVote(outcome)}
+                />
+            )}
+
+            {resolution && resolution.proposedAtBlock > 0n && (
+                <ResolutionTimeline
+                    market={market}
+                    resolution={resolution}
+                    disputeConfig={disputeConfig}
+                    currentBlock={currentBlock}
+                    canAct={!!address}
+                    isArbitrator={isArbitrator}
+                    hasPendingAction={hasPendingDisputeAction}
+                    loading={loading}
+                    error={errorSource === 'dispute' ? error : null}
+                    approvalPending={disputeApprovalPending}
+                    onDispute={(outcome) => void handleDispute(outcome)}
+                    onFinalize={() => void handleFinalize()}
+                    onRule={(outcome) => void handleRule(outcome)}
+                />
+            )}
+
+            {position && position.stakes.some((s) => s > 0n) && (() => {
+                // Calculate winnings when market is resolved (parimutuel over all outcome pools, net of fees)
+                const winnings = isResolved ? positionPayout(market, position) : 0n;
+                const isWinner = winnings > 0n;
+                const profit = winnings - winningStake(market, position);
 
                 return (
                     <Card>
                         <h2 className="text-lg font-bold text-[var(--color-text-primary)] mb-4">Your Position</h2>
                         <div className="grid grid-cols-2 gap-4 text-sm">
-                            <div>
-                                <span className="block text-xs uppercase tracking-wider text-[var(--color-text-secondary)] mb-1">Your YES Bet</span>
-                                <span className="text-green-400 font-semibold">{formatSats(position.yesBet)}</span>
-                            </div>
-                            <div>
-                                <span className="block text-xs uppercase tracking-wider text-[var(--color-text-secondary)] mb-1">Your NO Bet</span>
-                                <span className="text-red-400 font-semibold">{formatSats(position.noBet)}</span>
-                            </div>
+                            {position.stakes.map((stake, i) => (
+                                <div key={i}>
+                                    <span className="block text-xs uppercase tracking-wider text-[var(--color-text-secondary)] mb-1">
+                                        Your {outcomeLabel(market, i + 1)} Bet
+                                    </span>
+                                    <span
+                                        className={`font-semibold ${isCategorical ? '' : i === 0 ? 'text-green-400' : 'text-red-400'}`}
+                                        style={{ color: isCategorical ? outcomeColor(i) : undefined }}
+                                    >
+                                        {formatSats(stake)}
+                                    </span>
+                                </div>
+                            ))}
                         </div>
 
+                        {!position.claimed && (
+                            <TransferPosition
+                                market={market}
+                                position={position}
+                                loading={loading}
+                                error={errorSource === 'transfer' ? error : null}
+                                hasPendingTransfer={pendingTxs.some((tx) => tx.txType === 'transferPosition')}
+                                success={transferSuccess}
+                                onTransfer={(outcome, to, shares) => void handleTransfer(outcome, to, shares)}
+                            />
+                        )}
+
                         {isResolved && isWinner && !position.claimed && (
                             <>
                                 <div className="mt-6 mb-4 text-center py-6 rounded-2xl bg-[var(--color-btc-orange)]/10 border border-[var(--color-btc-orange)]/30">
@@ -404,12 +946,48 @@ export function MarketDetail(): React.JSX.Element {
                         {isResolved && !isWinner && !position.claimed && (
                             <div className="mt-4 text-center py-4 rounded-xl bg-red-500/10 border border-red-500/20">
                                 <p className="text-sm text-red-400 font-medium">
-                                    Market resolved {market.outcome === MarketOutcome.YES ? 'YES' : 'NO'} — your bet was on the losing side.
+                                    {market.scalar
+                                        ? `Market resolved at ${resolvedLabel(market)} — your position pays nothing.`
+                                        : `Market resolved ${resolvedLabel(market)} — your bet was on the losing side.`}
                                 </p>
                             </div>
                         )}
 
-                        {position.claimed && (
+                        {isCancelled && (() => {
+                            const refund = sumPools(position.stakes);
+                            if (position.claimed) {
+                                return (
+                                    <div className="mt-4 text-center py-4 rounded-xl bg-green-500/10 border border-green-500/20">
+                                        <p className="text-sm text-green-400 font-medium">Refund claimed</p>
+                                        <p className="text-lg font-bold text-green-400 mt-1">{formatSats(refund)}</p>
+                                    </div>
+                                );
+                            }
+                            return (
+                                <>
+                                    <div className="mt-6 mb-4 text-center py-6 rounded-2xl bg-[var(--color-btc-orange)]/10 border border-[var(--color-btc-orange)]/30">
+                                        <p className="text-xs uppercase tracking-wider text-[var(--color-text-secondary)] mb-2">Your Refund</p>
+                                        <p className="text-3xl font-black text-[var(--color-btc-orange)]">{formatSats(refund)}</p>
+                                    </div>
+                                    <Button
+                                        variant="primary"
+                                        size="lg"
+                                        className="w-full"
+                                        onClick={handleRefund}
+                                        disabled={loading || hasPendingClaim}
+                                    >
+                                        {loading ? 'Claiming...' : hasPendingClaim ? 'Refund Pending...' : `Claim Refund ${formatSats(refund)}`}
+                                    </Button>
+                                    {error && errorSource === 'refund' && (
+                                        <div className="mt-3 text-red-400 text-sm bg-red-400/10 px-4 py-3 rounded-lg">
+                                            {error}
+                                        </div>
+                                    )}
+                                </>
+                            );
+                        })()}
+
+                        {isResolved && position.claimed && (
                             <div className="mt-4 text-center py-4 rounded-xl bg-green-500/10 border border-green-500/20">
                                 <p className="text-sm text-green-400 font-medium">Winnings claimed</p>
                                 {winnings > 0n && (
@@ -421,7 +999,7 @@ export function MarketDetail(): React.JSX.Element {
                 );
             })()}
 
-            {isOpen && (
+            {isOpen && (!market.committee || resolvesAfterTimeout) && (
                 <Card>
                     <h2 className="text-lg font-bold text-[var(--color-text-primary)] mb-4">Oracle Resolution</h2>
                     {!address ? (
@@ -432,11 +1010,18 @@ export function MarketDetail(): React.JSX.Element {
                                 <span className="text-[var(--color-text-primary)] font-mono text-sm break-all">{market.oracle}</span>
                             </div>
                         </div>
-                    ) : isOracle ? (
+                    ) : canResolve ? (
                         <>
-                            {!deadlineReached ? (
+                            {resolvesAfterTimeout && (
+                                <p className="text-sm text-[var(--color-btc-orange)] mb-4">
+                                    The {market.committee ? 'oracle committee' : 'oracle'} missed the resolution timeout at
+                                    block #{market.resolutionTimeoutBlock.toLocaleString()}, so you can resolve this market
+                                    as the {isFallbackOracle ? 'fallback oracle' : 'contract owner'}.
+                                </p>
+                            )}
+                            {!resolvable ? (
                                 <p className="text-sm text-[var(--color-text-secondary)] mb-4">
-                                    Resolution will be available after block #{market.endBlock.toLocaleString()}.
+                                    Resolution will be available from block #{market.resolveAfterBlock.toLocaleString()}.
                                     {currentBlock !== null && (
                                         <span className="text-[var(--color-text-muted)]">
                                             {' '}(current: #{currentBlock.toLocaleString()})
@@ -449,7 +1034,8 @@ export function MarketDetail(): React.JSX.Element {
                                 </p>
                             ) : (
                                 <p className="text-sm text-[var(--color-text-secondary)] mb-4">
-                                    The deadline has passed. You can now resolve this market.
+                                    The deadline has passed. Propose the outcome below. It becomes final once the
+                                    {disputeConfig ? ` ${disputeConfig.windowBlocks.toLocaleString()}-block` : ''} dispute window passes without a challenge.
                                 </p>
                             )}
                             {hasPendingResolution && (
@@ -480,26 +1066,63 @@ export function MarketDetail(): React.JSX.Element {
                                     ))}
                                 </div>
                             )}
-                            <div className="flex gap-4">
-                                <Button
-                                    variant="yes"
-                                    size="md"
-                                    className="flex-1"
-                                    onClick={() => handleResolve(MarketOutcome.YES)}
-                                    disabled={loading || !deadlineReached || hasPendingResolution}
-                                >
-                                    Resolve YES
-                                </Button>
-                                <Button
-                                    variant="no"
-                                    size="md"
-                                    className="flex-1"
-                                    onClick={() => handleResolve(MarketOutcome.NO)}
-                                    disabled={loading || !deadlineReached || hasPendingResolution}
-                                >
-                                    Resolve NO
-                                </Button>
-                            </div>
+                            {market.scalar ? (
+                                <div className="flex gap-3">
+                                    <input
+                                        type="number"
+                                        value={scalarValue}
+                                        onChange={(e) => setScalarValue(e.target.value)}
+                                        min="0"
+                                        step="any"
+                                        placeholder="Observed value (USD)"
+                                        className="flex-1 bg-[var(--color-bg-input)] border border-[var(--color-border)] rounded-xl px-4 py-2 text-[var(--color-text-primary)] placeholder-[var(--color-text-muted)] focus:border-[var(--color-btc-orange)] focus:outline-none transition-colors"
+                                    />
+                                    <Button
+                                        variant="primary"
+                                        size="md"
+                                        onClick={() => void handleResolveScalar(parsedScalarValue)}
+                                        disabled={loading || !resolvable || hasPendingResolution || !scalarValueValid}
+                                    >
+                                        Propose Value
+                                    </Button>
+                                </div>
+                            ) : isCategorical ? (
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                    {market.outcomeLabels.map((label, i) => (
+                                        <Button
+                                            key={i}
+                                            variant="ghost"
+                                            size="md"
+                                            onClick={() => handleResolve(i + 1)}
+                                            disabled={loading || !resolvable || hasPendingResolution}
+                                            style={{ borderColor: outcomeColor(i) }}
+                                        >
+                                            Resolve {label}
+                                        </Button>
+                                    ))}
+                                </div>
+                            ) : (
+                                <div className="flex gap-4">
+                                    <Button
+                                        variant="yes"
+                                        size="md"
+                                        className="flex-1"
+                                        onClick={() => handleResolve(MarketOutcome.YES)}
+                                        disabled={loading || !resolvable || hasPendingResolution}
+                                    >
+                                        Resolve YES
+                                    </Button>
+                                    <Button
+                                        variant="no"
+                                        size="md"
+                                        className="flex-1"
+                                        onClick={() => handleResolve(MarketOutcome.NO)}
+                                        disabled={loading || !resolvable || hasPendingResolution}
+                                    >
+                                        Resolve NO
+                                    </Button>
+                                </div>
+                            )}
                             {error && errorSource === 'resolve' && (
                                 <div className="mt-3 text-red-400 text-sm bg-red-400/10 px-4 py-3 rounded-lg">
                                     {error}
@@ -515,14 +1138,24 @@ export function MarketDetail(): React.JSX.Element {
                                 <span className="text-xs uppercase tracking-wider text-[var(--color-text-muted)] block mb-1">Oracle Address</span>
                                 <span className="text-[var(--color-text-primary)] font-mono text-sm break-all">{market.oracle}</span>
                             </div>
-                            {currentBlock !== null && !deadlineReached && (
+                            {currentBlock !== null && !resolvable && (
                                 <p className="mt-3 text-[var(--color-text-muted)] text-xs">
-                                    Deadline: block #{market.endBlock.toLocaleString()} (current: #{currentBlock.toLocaleString()})
+                                    Resolvable from block #{market.resolveAfterBlock.toLocaleString()} (current: #{currentBlock.toLocaleString()})
                                 </p>
                             )}
-                            {deadlineReached && !hasPendingResolution && (
+                            {resolvable && !hasPendingResolution && (
                                 <p className="mt-3 text-[var(--color-btc-orange)] text-xs">
-                                    Deadline reached. Waiting for oracle to resolve.
+                                    {timedOut
+                                        ? 'The oracle missed the resolution timeout. Waiting for the fallback oracle or the contract owner to resolve.'
+                                        : 'Deadline reached. Waiting for oracle to resolve.'}
+                                </p>
+                            )}
+                            {!timedOut && (
+                                <p className="mt-3 text-[var(--color-text-muted)] text-xs">
+                                    If the oracle has not resolved by block #{market.resolutionTimeoutBlock.toLocaleString()},
+                                    {market.fallbackOracle
+                                        ? ` the fallback oracle (${truncateId(market.fallbackOracle)}) or the contract owner`
+                                        : ' the contract owner'} can resolve it instead.
                                 </p>
                             )}
                             {hasPendingResolution && (
@@ -542,6 +1175,39 @@ export function MarketDetail(): React.JSX.Element {
                     )}
                 </Card>
             )}
+
+            {isOpen && address && (isOracle || publicCancelOpen) && (
+                <Card>
+                    <h2 className="text-lg font-bold text-[var(--color-text-primary)] mb-2">Cancel Market</h2>
+                    <p className="text-sm text-[var(--color-text-secondary)] mb-4">
+                        {isOracle
+                            ? 'As the oracle you can cancel this market at any time, for example if the question turns out to be invalid. Every bettor can then claim a full refund.'
+                            : 'The oracle has not resolved this market within the grace period, so anyone can now cancel it and unlock full refunds.'}
+                    </p>
+                    <Button
+                        variant="ghost"
+                        size="md"
+                        className="w-full"
+                        onClick={handleCancel}
+                        disabled={loading || hasPendingResolution}
+                    >
+                        {loading ? 'Cancelling...' : 'Cancel Market'}
+                    </Button>
+                    {error && errorSource === 'cancel' && (
+                        <div className="mt-3 text-red-400 text-sm bg-red-400/10 px-4 py-3 rounded-lg">
+                            {error}
+                        </div>
+                    )}
+                </Card>
+            )}
+
+            {isOpen && !isOracle && resolvable && !publicCancelOpen && cancellableAt !== null && (
+                <p className="text-xs text-center text-[var(--color-text-muted)]">
+                    If the oracle does not resolve this market, anyone can cancel it for a full refund from block #{cancellableAt.toLocaleString()}.
+                </p>
+            )}
+
+            {!market.isPrivate && <EmbedCode marketId={market.id} />}
         </div>
     );
 }
@@ -0,0 +1,116 @@
+import { useEffect, useState, useCallback } from 'react';
+import { useParams } from 'react-router-dom';
+import { Card } from '../common/Card';
+import { MarketOdds } from './MarketOdds';
+import { MarketCountdown } from './MarketCountdown';
+import { usePredictionMarket } from '../../hooks/usePredictionMarket';
+import { useBlockClock } from '../../hooks/useBlockClock';
+import { MarketData, MarketStatus } from '../../types';
+import { resolvedLabel, sumPools } from '../../utils/outcomes';
+import { bootMarketQuestions } from '../../utils/marketQuestions';
+
+// Pools are re-read this often while the embedding page is visible
+const REFRESH_INTERVAL = 30_000;
+
+function formatSats(sats: bigint): string {
+    const btc = Number(sats) / 100_000_000;
+    if (btc >= 0.001) return `${btc.toFixed(4)} BTC`;
+    return `${sats.toLocaleString()} sats`;
+}
+
+/**
+ * Chrome-less market widget served at /embed/market/:id for iframes on other
+ * sites. Takes its theme from the ?theme= query parameter (see ThemeProvider)
+ * and opens the full market page in a new tab to bet.
+ */
+export function MarketEmbed(): React.JSX.Element {
+    const { id } = useParams<{ id: string }>();
+    const { fetchMarket } = usePredictionMarket();
+    const clock = useBlockClock();
+    const [market, setMarket] = useState<MarketData | null>(null);
+    const [unavailable, setUnavailable] = useState(false);
+
+    const validId = id !== undefined && /^\d+$/.test(id) && BigInt(id) > 0n;
+    const marketUrl = `${window.location.origin}/market/${id ?? ''}`;
+
+    const load = useCallback(async (): Promise<void> => {
+        if (!validId) {
+            setUnavailable(true);
+            return;
+        }
+        try {
+            // Titles and outcome labels come from the question cache
+            await bootMarketQuestions();
+            setMarket(await fetchMarket(BigInt(id)));
+        } catch {
+            // Only shown before the first successful read; later failures keep the last pools
+            setUnavailable(true);
+        }
+    }, [id, validId, fetchMarket]);
+
+    useEffect(() => {
+        void load();
+        const timer = setInterval(() => {
+            if (document.visibilityState === 'visible') void load();
+        }, REFRESH_INTERVAL);
+        return () => clearInterval(timer);
+    }, [load]);
+
+    if (!market) {
+        return (
+            <Card className="text-center text-sm">
+                {unavailable ? (
+                    <p className="text-[var(--color-text-secondary)]">Market unavailable</p>
+                ) : (
+                    <p className="animate-pulse text-[var(--color-btc-orange)]">Loading market...</p>
+                )}
+            </Card>
+        );
+    }
+
+    const isResolved = market.status === MarketStatus.RESOLVED;
+
+    return (
+        <Card>
+            <div className="flex items-center justify-between mb-3 text-xs">
+                <span className="font-bold text-[var(--color-btc-orange)]">OProphet</span>
+                <span className="text-[var(--color-text-muted)]">Market #{market.id.toString()}</span>
+            </div>
+
+            <a
+                href={marketUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block mb-4 text-lg font-semibold leading-snug text-[var(--color-text-primary)] hover:text-[var(--color-btc-orange)] no-underline transition-colors"
+            >
+                {market.question}
+            </a>
+
+            <div className="mb-4">
+                <MarketOdds market={market} />
+            </div>
+
+            <div className="flex items-center justify-between text-sm text-[var(--color-text-secondary)] mb-4">
+                <span>Pool: {formatSats(sumPools(market.outcomePools))}</span>
+                {isResolved ? (
+                    <span className="font-medium text-[var(--color-text-primary)]">
+                        Resolved: {resolvedLabel(market)}
+                    </span>
+                ) : market.status === MarketStatus.CANCELLED ? (
+                    <span>Cancelled</span>
+                ) : (
+                    <MarketCountdown market={market} clock={clock} />
+                )}
+            </div>
+
+            <a
+                href={marketUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block w-full text-center bg-[var(--color-btc-orange)] hover:bg-[var(--color-btc-orange-light)] text-black font-semibold px-4 py-2 rounded-xl transition-colors no-underline text-sm"
+            >
+                {market.status === MarketStatus.OPEN ? 'Bet on OPNet' : 'View on OPNet'}
+            </a>
+        </Card>
+    );
+}
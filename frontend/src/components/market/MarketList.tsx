@@ -1,10 +1,13 @@
 import { useEffect, useState, useCallback, useMemo } from 'react';
-import { usePredictionMarket } from '../../hooks/usePredictionMarket';
+import { useWalletConnect } from '@btc-vision/walletconnect';
+import { usePredictionMarket, BATCH_SIZE } from '../../hooks/usePredictionMarket';
 import type { PendingTx } from '../../hooks/usePredictionMarket';
+import { useBlockClock } from '../../hooks/useBlockClock';
 import { MarketCard } from './MarketCard';
 import { MarketData, MarketStatus, MarketCategory } from '../../types';
 import { Card } from '../common/Card';
 import { getMarketMetadata } from '../../utils/marketQuestions';
+import { getInvite, normalizeAddress } from '../../utils/allowlist';
 
 const PAGE_SIZE = 10;
 
@@ -62,10 +65,12 @@ function PendingTxCard({ tx }: { tx: PendingTx }): React.JSX.Element {
 }
 
 export function MarketList(): React.JSX.Element {
-    const { fetchMarketCount, fetchMarket, fetchCurrentBlock, fetchPendingTxs } = usePredictionMarket();
+    const { address } = useWalletConnect();
+    const { fetchMarketCount, fetchMarkets, fetchCurrentBlock, fetchPendingTxs, fetchAllowlistStatus } = usePredictionMarket();
     const [markets, setMarkets] = useState<MarketData[]>([]);
     const [pendingTxs, setPendingTxs] = useState<PendingTx[]>([]);
     const [currentBlock, setCurrentBlock] = useState<bigint | null>(null);
+    const clock = useBlockClock();
     const [loading, setLoading] = useState(true);
     const [search, setSearch] = useState('');
     const [page, setPage] = useState(1);
@@ -83,40 +88,54 @@ export function MarketList(): React.JSX.Element {
             setPendingTxs(pending);
             const fetched: MarketData[] = [];
 
-            const MAX_DISPLAY = 100;
-            const start = count > BigInt(MAX_DISPLAY) ? count - BigInt(MAX_DISPLAY) + 1n : 1n;
+            const MAX_DISPLAY = 100n;
+            const start = count > MAX_DISPLAY ? count - MAX_DISPLAY : 0n;
 
-            for (let i = count; i >= start; i--) {
+            for (let offset = start; offset < count; offset += BigInt(BATCH_SIZE)) {
                 try {
-                    const market = await fetchMarket(i);
-                    fetched.push(market);
+                    const page = await fetchMarkets(offset, BigInt(BATCH_SIZE));
+                    fetched.push(...page.markets);
                 } catch {
-                    // skip individual market errors
+                    // skip pages that fail to load
                 }
             }
 
-            setMarkets(fetched);
+            // Private markets are only listed for their creator, invitees and members
+            const walletHex = address ? normalizeAddress(String(address)) : '';
+            const listed: MarketData[] = [];
+            for (const m of fetched) {
+                if (!m.isPrivate || getInvite(m.id) !== null || (walletHex !== '' && normalizeAddress(m.creator) === walletHex)) {
+                    listed.push(m);
+                } else if (walletHex !== '') {
+                    const status = await fetchAllowlistStatus(m.id).catch(() => null);
+                    if (status?.member) listed.push(m);
+                }
+            }
+
+            // Newest first
+            setMarkets(listed.reverse());
         } catch {
             // contract not deployed yet — show empty state
         } finally {
             setLoading(false);
         }
-    }, [fetchMarketCount, fetchMarket, fetchCurrentBlock, fetchPendingTxs]);
+    }, [address, fetchMarketCount, fetchMarkets, fetchCurrentBlock, fetchPendingTxs, fetchAllowlistStatus]);
 
     useEffect(() => {
         void loadMarkets();
     }, [loadMarkets]);
 
-    // Split confirmed markets into live, awaiting resolution, and resolved
+    // Split confirmed markets into live, awaiting resolution, and resolved (cancelled markets count as resolved).
+    // Betting closes at closeBlock, so markets still waiting for their resolveAfterBlock are awaiting too.
     const { liveMarkets, awaitingMarkets, resolvedMarkets } = useMemo(() => {
         const live: MarketData[] = [];
         const awaiting: MarketData[] = [];
         const resolved: MarketData[] = [];
 
         for (const m of markets) {
-            if (m.status === MarketStatus.RESOLVED) {
+            if (m.status === MarketStatus.RESOLVED || m.status === MarketStatus.CANCELLED) {
                 resolved.push(m);
-            } else if (currentBlock !== null && currentBlock >= m.endBlock) {
+            } else if (currentBlock !== null && currentBlock >= m.closeBlock) {
                 awaiting.push(m);
             } else {
                 live.push(m);
@@ -157,8 +176,13 @@ export function MarketList(): React.JSX.Element {
             if (!buckets.has(cat)) buckets.set(cat, []);
             buckets.get(cat)!.push(m);
         }
-        const categoryLabels: Record<string, string> = { price: 'Price Predictions', event: 'Event Predictions', other: 'Other' };
-        const order: string[] = ['price', 'event', 'other'];
+        const categoryLabels: Record<string, string> = {
+            price: 'Price Predictions',
+            scalar: 'Price Ranges',
+            event: 'Event Predictions',
+            other: 'Other',
+        };
+        const order: string[] = ['price', 'scalar', 'event', 'other'];
         for (const key of order) {
             const list = buckets.get(key);
             if (list && list.length > 0) {
@@ -311,7 +335,7 @@ export function MarketList(): React.JSX.Element {
                             {grouped.length > 1 && (
                                 <div className="flex items-center gap-2 mb-3">
                                     <span className={`text-xs font-bold px-2.5 py-1 rounded-full ${
-                                        group.category === 'price'
+                                        group.category === 'price' || group.category === 'scalar'
                                             ? 'text-[var(--color-btc-orange)] bg-[var(--color-btc-orange)]/10'
                                             : group.category === 'event'
                                                 ? 'text-purple-400 bg-purple-400/10'
@@ -330,6 +354,8 @@ export function MarketList(): React.JSX.Element {
                                         key={market.id.toString()}
                                         market={market}
                                         isAwaitingResolution={tab === 'awaiting'}
+                                        isBettingClosed={tab === 'awaiting' && currentBlock !== null && currentBlock < market.resolveAfterBlock}
+                                        clock={clock}
                                     />
                                 ))}
                             </div>
@@ -0,0 +1,31 @@
+import { OutcomeBar } from './OutcomeBar';
+import { MarketData } from '../../types';
+import { sumPools } from '../../utils/outcomes';
+
+/** Compact odds bar: YES/NO (or LONG/SHORT) split for two-sided markets, the stacked outcome bar otherwise. */
+export function MarketOdds({ market }: { market: MarketData }): React.JSX.Element {
+    if (market.outcomeCount > 2) {
+        return <OutcomeBar labels={market.outcomeLabels} pools={market.outcomePools} compact />;
+    }
+
+    const totalPool = sumPools(market.outcomePools);
+    const yesPercent = totalPool > 0n
+        ? Number((market.yesPool * 10000n) / totalPool) / 100
+        : 50;
+    const noPercent = totalPool > 0n ? 100 - yesPercent : 50;
+
+    return (
+        <div>
+            <div className="flex justify-between text-sm mb-1.5">
+                <span className="text-green-400 font-medium">{market.outcomeLabels[0]} {yesPercent.toFixed(1)}%</span>
+                <span className="text-red-400 font-medium">{market.outcomeLabels[1]} {noPercent.toFixed(1)}%</span>
+            </div>
+            <div className="w-full h-2.5 bg-red-500/30 rounded-full overflow-hidden">
+                <div
+                    className="h-full bg-green-500 rounded-full transition-all duration-500"
+                    style={{ width: `${yesPercent}%` }}
+                />
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,134 @@
+import { Card } from '../common/Card';
+import { Button } from '../common/Button';
+import { MarketData, MarketOutcome, OracleCommittee } from '../../types';
+import { outcomeColor, outcomeLabel } from '../../utils/outcomes';
+
+function truncateAddress(addr: string): string {
+    if (addr.length <= 16) return addr;
+    return `${addr.slice(0, 8)}...${addr.slice(-6)}`;
+}
+
+interface OracleCommitteePanelProps {
+    market: MarketData;
+    committee: OracleCommittee;
+    /** Index of the connected wallet in the committee, or -1. */
+    memberIndex: number;
+    /** Voting is open: the market is still open and the deadline has passed. */
+    canVote: boolean;
+    currentBlock: bigint | null;
+    hasPendingVote: boolean;
+    loading: boolean;
+    error: string | null;
+    onVote: (outcome: MarketOutcome) => void;
+}
+
+/** Members, votes and running tally of a market's M-of-N oracle committee, with voting for members. */
+export function OracleCommitteePanel({
+    market,
+    committee,
+    memberIndex,
+    canVote,
+    currentBlock,
+    hasPendingVote,
+    loading,
+    error,
+    onVote,
+}: OracleCommitteePanelProps): React.JSX.Element {
+    const outcomes = market.outcomeLabels.map((_, i) => i + 1);
+    const tally = outcomes.map((o) => committee.votes.filter((v: number) => v === o).length);
+    const votesCast = committee.votes.filter((v) => v !== MarketOutcome.NONE).length;
+    const myVote = memberIndex >= 0 ? committee.votes[memberIndex] ?? MarketOutcome.NONE : MarketOutcome.NONE;
+    const hasVoted = myVote !== MarketOutcome.NONE;
+
+    return (
+        <Card>
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-bold text-[var(--color-text-primary)]">Oracle Committee</h2>
+                <span className="text-xs text-[var(--color-text-muted)]">
+                    {committee.threshold} of {committee.members.length} needed · {votesCast} voted
+                </span>
+            </div>
+
+            <div className="space-y-2 mb-4">
+                {outcomes.map((o, i) => (
+                    <div key={o}>
+                        <div className="flex items-center justify-between text-sm mb-1">
+                            <span className="text-[var(--color-text-secondary)]">{outcomeLabel(market, o)}</span>
+                            <span className="text-[var(--color-text-primary)] font-medium">
+                                {tally[i]} / {committee.threshold}
+                            </span>
+                        </div>
+                        <div className="h-1.5 bg-[var(--color-bg-input)] rounded-full overflow-hidden">
+                            <div
+                                className="h-full rounded-full"
+                                style={{
+                                    width: `${Math.min(100, ((tally[i] ?? 0) / committee.threshold) * 100)}%`,
+                                    backgroundColor: outcomeColor(i),
+                                }}
+                            />
+                        </div>
+                    </div>
+                ))}
+            </div>
+
+            <div className="bg-[var(--color-bg-input)] border border-[var(--color-border)] rounded-lg divide-y divide-[var(--color-border)]">
+                {committee.members.map((member, i) => {
+                    const vote = committee.votes[i] ?? MarketOutcome.NONE;
+                    return (
+                        <div key={member} className="flex items-center justify-between px-4 py-2 text-sm">
+                            <span className="font-mono text-[var(--color-text-primary)]">
+                                {truncateAddress(member)}
+                                {i === memberIndex && <span className="ml-2 text-xs text-[var(--color-btc-orange)]">(you)</span>}
+                            </span>
+                            <span className={vote === MarketOutcome.NONE ? 'text-[var(--color-text-muted)]' : 'font-semibold text-[var(--color-text-primary)]'}>
+                                {vote === MarketOutcome.NONE ? 'Not voted' : outcomeLabel(market, vote)}
+                            </span>
+                        </div>
+                    );
+                })}
+            </div>
+
+            {memberIndex >= 0 && canVote && !hasVoted && (
+                <div className="mt-5">
+                    <p className="text-sm text-[var(--color-text-secondary)] mb-3">
+                        {hasPendingVote
+                            ? 'Your vote is pending. Waiting for block confirmation (~10 min).'
+                            : 'You are on this committee. Cast your vote; it cannot be changed afterwards.'}
+                    </p>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                        {outcomes.map((o) => (
+                            <Button
+                                key={o}
+                                variant="ghost"
+                                size="md"
+                                onClick={() => onVote(o as MarketOutcome)}
+                                disabled={loading || hasPendingVote}
+                                style={{ borderColor: outcomeColor(o - 1) }}
+                            >
+                                Vote {outcomeLabel(market, o)}
+                            </Button>
+                        ))}
+                    </div>
+                </div>
+            )}
+
+            {memberIndex >= 0 && hasVoted && canVote && (
+                <p className="mt-4 text-sm text-[var(--color-text-secondary)]">
+                    You voted {outcomeLabel(market, myVote)}. Waiting for the other members.
+                </p>
+            )}
+
+            {!canVote && currentBlock !== null && currentBlock < market.resolveAfterBlock && (
+                <p className="mt-4 text-xs text-[var(--color-text-muted)]">
+                    Voting opens at block #{market.resolveAfterBlock.toLocaleString()} (current: #{currentBlock.toLocaleString()}).
+                </p>
+            )}
+
+            {error && (
+                <div className="mt-3 text-red-400 text-sm bg-red-400/10 px-4 py-3 rounded-lg">
+                    {error}
+                </div>
+            )}
+        </Card>
+    );
+}
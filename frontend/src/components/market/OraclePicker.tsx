@@ -0,0 +1,98 @@
+import { useEffect, useState } from 'react';
+import { usePredictionMarket } from '../../hooks/usePredictionMarket';
+import { OracleRegistryEntry } from '../../types';
+
+function formatSats(sats: bigint): string {
+    const btc = Number(sats) / 100_000_000;
+    if (btc >= 0.001) return `${btc.toFixed(4)} BTC`;
+    return `${Number(sats).toLocaleString()} sats`;
+}
+
+function truncateAddress(addr: string): string {
+    if (addr.length <= 16) return addr;
+    return `${addr.slice(0, 8)}...${addr.slice(-6)}`;
+}
+
+function sameAddress(a: string, b: string): boolean {
+    return a.toLowerCase().replace(/^0x/, '') === b.toLowerCase().replace(/^0x/, '');
+}
+
+interface OraclePickerProps {
+    /** Address currently entered in the oracle field. */
+    value: string;
+    onSelect: (address: string) => void;
+}
+
+/**
+ * Registered oracles to pick from when creating a market, most stake first.
+ * Only oracles the contract accepts are listed: staked at least the minimum
+ * and not unstaking.
+ */
+export function OraclePicker({ value, onSelect }: OraclePickerProps): React.JSX.Element | null {
+    const { fetchOracles, fetchOracleConfig } = usePredictionMarket();
+    const [oracles, setOracles] = useState<OracleRegistryEntry[] | null>(null);
+
+    useEffect(() => {
+        Promise.all([fetchOracles(), fetchOracleConfig()])
+            .then(([all, config]) => {
+                const staked = all.filter((o) => o.stake > 0n && o.stake >= config.minStake && o.unstaking === 0n);
+                staked.sort((a, b) => (a.stake > b.stake ? -1 : a.stake < b.stake ? 1 : 0));
+                setOracles(staked);
+            })
+            .catch(() => setOracles([]));
+    }, [fetchOracles, fetchOracleConfig]);
+
+    if (oracles === null) {
+        return <p className="text-xs text-[var(--color-text-muted)] mt-3">Loading registered oracles...</p>;
+    }
+    if (oracles.length === 0) return null;
+
+    return (
+        <div className="mt-3">
+            <p className="text-xs uppercase tracking-wider text-[var(--color-text-muted)] mb-2">Registered oracles</p>
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+                {oracles.map((oracle) => {
+                    const selected = value !== '' && sameAddress(value, oracle.address);
+                    return (
+                        <button
+                            key={oracle.address}
+                            type="button"
+                            onClick={() => onSelect(oracle.address)}
+                            className={`w-full text-left px-4 py-3 rounded-xl border transition-colors cursor-pointer ${
+                                selected
+                                    ? 'border-[var(--color-btc-orange)] bg-[var(--color-btc-orange)]/10'
+                                    : 'border-[var(--color-border)] bg-[var(--color-bg-input)] hover:border-[var(--color-btc-orange)]/50'
+                            }`}
+                        >
+                            <div className="flex items-center justify-between gap-3">
+                                <div className="min-w-0">
+                                    <p className="text-sm font-semibold text-[var(--color-text-primary)] truncate">
+                                        {oracle.profile?.name ?? truncateAddress(oracle.address)}
+                                    </p>
+                                    <p className="text-xs text-[var(--color-text-muted)] truncate">
+                                        {oracle.profile
+                                            ? oracle.profile.description || truncateAddress(oracle.address)
+                                            : 'No verified profile'}
+                                    </p>
+                                </div>
+                                <span className="text-sm font-medium text-[var(--color-btc-orange)] shrink-0">
+                                    {formatSats(oracle.stake)} staked
+                                </span>
+                            </div>
+                            <div className="flex gap-4 mt-1 text-xs text-[var(--color-text-secondary)]">
+                                <span>{oracle.marketCount.toString()} markets</span>
+                                {oracle.slashed > 0n
+                                    ? <span className="text-red-400">{formatSats(oracle.slashed)} slashed</span>
+                                    : <span>Never slashed</span>}
+                            </div>
+                        </button>
+                    );
+                })}
+            </div>
+            <p className="text-xs text-[var(--color-text-muted)] mt-1">
+                Staked oracles lose part of their stake to the challenger when a proposal of theirs is overturned, and
+                can't unstake while they are named on an unresolved market.
+            </p>
+        </div>
+    );
+}
@@ -0,0 +1,45 @@
+import { outcomeColor, outcomePercents } from '../../utils/outcomes';
+
+interface OutcomeBarProps {
+    labels: string[];
+    pools: bigint[];
+    /** Highlight the winning outcome (1-based) once a market is resolved. */
+    winningOutcome?: number;
+    compact?: boolean;
+}
+
+/** Stacked pool bar with a legend, used for categorical markets in place of the YES/NO bar. */
+export function OutcomeBar({ labels, pools, winningOutcome, compact }: OutcomeBarProps): React.JSX.Element {
+    const percents = outcomePercents(pools);
+
+    return (
+        <div>
+            <div className={`w-full ${compact ? 'h-2.5' : 'h-4'} bg-[var(--color-border)] rounded-full overflow-hidden flex`}>
+                {percents.map((pct, i) => (
+                    <div
+                        key={i}
+                        className="h-full transition-all duration-500"
+                        style={{ width: `${pct}%`, backgroundColor: outcomeColor(i) }}
+                        title={`${labels[i]}: ${pct.toFixed(1)}%`}
+                    />
+                ))}
+            </div>
+            <div className={`grid ${compact ? 'grid-cols-2 gap-x-3 gap-y-0.5 mt-1.5 text-xs' : 'grid-cols-2 md:grid-cols-3 gap-2 mt-3 text-sm'}`}>
+                {labels.map((label, i) => (
+                    <div key={i} className="flex items-center gap-1.5 min-w-0">
+                        <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: outcomeColor(i) }} />
+                        <span
+                            className={`truncate ${winningOutcome === i + 1 ? 'text-[var(--color-text-primary)] font-bold' : 'text-[var(--color-text-secondary)]'}`}
+                            title={label}
+                        >
+                            {label}
+                        </span>
+                        <span className="ml-auto font-medium" style={{ color: outcomeColor(i) }}>
+                            {percents[i].toFixed(1)}%
+                        </span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    );
+}
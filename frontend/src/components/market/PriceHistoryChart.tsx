@@ -0,0 +1,98 @@
+import { useMemo, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, Legend } from 'recharts';
+import { Card } from '../common/Card';
+import { MarketData } from '../../types';
+import { BetEvent } from '../../services/indexedEvents';
+import { buildPoolHistory } from '../../utils/activitySeries';
+import { outcomeColor } from '../../utils/outcomes';
+
+type View = 'probability' | 'pools';
+
+interface PriceHistoryChartProps {
+    market: MarketData;
+    /** Indexed bets on the market, or null until loaded or when the indexer tables are unavailable. */
+    bets: BetEvent[] | null;
+}
+
+function lineColor(market: MarketData, index: number): string {
+    if (market.outcomeCount > 2) return outcomeColor(index);
+    return index === 0 ? '#22c55e' : '#ef4444';
+}
+
+export function PriceHistoryChart({ market, bets }: PriceHistoryChartProps): React.JSX.Element | null {
+    const [view, setView] = useState<View>('probability');
+
+    const series = useMemo(() => {
+        if (!bets) return [];
+        return buildPoolHistory(bets, market.outcomeCount).map((p) => {
+            const row: Record<string, number> = { block: Number(p.blockHeight) };
+            market.outcomeLabels.forEach((label, i) => {
+                row[label] = view === 'probability' ? p.percents[i] : Number(p.pools[i]);
+            });
+            return row;
+        });
+    }, [bets, market.outcomeCount, market.outcomeLabels, view]);
+
+    // Hidden without indexed bets: before the first bet, or when the indexer isn't deployed
+    if (series.length === 0) return null;
+
+    return (
+        <Card>
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-lg font-bold text-[var(--color-text-primary)]">Price History</h2>
+                <div className="flex gap-1">
+                    {(['probability', 'pools'] as View[]).map((key) => (
+                        <button
+                            key={key}
+                            onClick={() => setView(key)}
+                            className={`px-3 py-1 rounded-lg text-xs transition-colors cursor-pointer ${
+                                view === key
+                                    ? 'bg-[var(--color-btc-orange)]/20 text-[var(--color-btc-orange)]'
+                                    : 'text-[var(--color-text-muted)] hover:text-[var(--color-text-secondary)]'
+                            }`}
+                        >
+                            {key === 'probability' ? 'Probability' : 'Pools'}
+                        </button>
+                    ))}
+                </div>
+            </div>
+            <ResponsiveContainer width="100%" height={240}>
+                <LineChart data={series}>
+                    <XAxis
+                        dataKey="block"
+                        type="number"
+                        domain={['dataMin', 'dataMax']}
+                        tickFormatter={(b: number) => `#${b}`}
+                        tick={{ fill: '#8888a0', fontSize: 11 }}
+                        axisLine={{ stroke: '#2a2a3a' }}
+                    />
+                    <YAxis
+                        domain={view === 'probability' ? [0, 100] : [0, 'auto']}
+                        tickFormatter={(v: number) => (view === 'probability' ? `${v}%` : v.toLocaleString())}
+                        tick={{ fill: '#8888a0', fontSize: 11 }}
+                        axisLine={{ stroke: '#2a2a3a' }}
+                    />
+                    <Tooltip
+                        contentStyle={{ backgroundColor: '#1a1a2a', border: '1px solid #2a2a3a', borderRadius: 8, fontSize: 12 }}
+                        itemStyle={{ color: '#e4e4ec' }}
+                        labelFormatter={(b) => `Block #${String(b)}`}
+                        formatter={(v) => (view === 'probability' ? `${Number(v).toFixed(1)}%` : `${Number(v).toLocaleString()} sats`)}
+                    />
+                    <Legend
+                        formatter={(value: string) => <span className="text-[var(--color-text-secondary)] text-xs">{value}</span>}
+                    />
+                    {market.outcomeLabels.map((label, i) => (
+                        <Line
+                            key={label}
+                            type="stepAfter"
+                            dataKey={label}
+                            stroke={lineColor(market, i)}
+                            strokeWidth={2}
+                            dot={false}
+                        />
+                    ))}
+                </LineChart>
+            </ResponsiveContainer>
+        </Card>
+    );
+}
@@ -0,0 +1,194 @@
+import { useEffect, useState } from 'react';
+import { Card } from '../common/Card';
+import { Button } from '../common/Button';
+import { AllowlistStatus, MarketData } from '../../types';
+import { buildAllowlist, buildInviteLink, getAllowlist } from '../../utils/allowlist';
+
+function truncateAddress(addr: string): string {
+    if (addr.length <= 16) return addr;
+    return `${addr.slice(0, 8)}...${addr.slice(-6)}`;
+}
+
+const ADDRESS_PATTERN = /^(0x)?[0-9a-fA-F]{64}$/;
+
+const inputClass = 'w-full bg-[var(--color-bg-input)] border border-[var(--color-border)] rounded-xl px-4 py-3 text-sm text-[var(--color-text-primary)] placeholder-[var(--color-text-muted)] focus:border-[var(--color-btc-orange)] focus:outline-none';
+
+interface InviteLink {
+    address: string;
+    link: string;
+}
+
+interface PrivateMarketPanelProps {
+    market: MarketData;
+    /** Allowlist status of the connected wallet; null until checked or when disconnected. */
+    status: AllowlistStatus | null;
+    /** The market is open, so the creator can still change who may bet. */
+    isOpen: boolean;
+    isCreator: boolean;
+    loading: boolean;
+    error: string | null;
+    /** What the last submitted allowlist transaction did, for the confirmation note. */
+    submitted: string | null;
+    onJoin: () => void;
+    onUpdateInvitees: (addresses: string[]) => void;
+    onAllow: (address: string, allowed: boolean) => void;
+}
+
+/**
+ * Membership of a private market: invitees join with the proof from their
+ * invite link, and the creator gets a link per invitee and can change the list.
+ */
+export function PrivateMarketPanel({
+    market,
+    status,
+    isOpen,
+    isCreator,
+    loading,
+    error,
+    submitted,
+    onJoin,
+    onUpdateInvitees,
+    onAllow,
+}: PrivateMarketPanelProps): React.JSX.Element {
+    const [links, setLinks] = useState<InviteLink[] | null>(null);
+    const [copied, setCopied] = useState<string | null>(null);
+    const [invitees, setInvitees] = useState('');
+    const [member, setMember] = useState('');
+
+    useEffect(() => {
+        if (!isCreator || market.allowlistRoot === null) return;
+        const addresses = getAllowlist(market.allowlistRoot);
+        if (!addresses) {
+            setLinks(null);
+            return;
+        }
+        setInvitees(addresses.join('\n'));
+        buildAllowlist(addresses)
+            .then((tree) => setLinks(addresses.map((address) => ({
+                address,
+                link: buildInviteLink(market.id, tree.proofs.get(address) ?? []),
+            }))))
+            .catch(() => setLinks(null));
+    }, [isCreator, market.id, market.allowlistRoot]);
+
+    const handleCopy = (link: string): void => {
+        navigator.clipboard.writeText(link).then(() => {
+            setCopied(link);
+            setTimeout(() => setCopied(null), 2000);
+        }).catch(() => {
+            // the link stays selectable for a manual copy
+        });
+    };
+
+    const inviteeList = invitees.split(/[\s,]+/).filter((a) => a !== '');
+    const inviteesValid = inviteeList.length > 0 && inviteeList.every((a) => ADDRESS_PATTERN.test(a));
+    const memberValid = ADDRESS_PATTERN.test(member.trim());
+
+    return (
+        <Card>
+            <div className="flex items-center justify-between mb-3">
+                <h2 className="text-lg font-bold text-[var(--color-text-primary)]">Private Market</h2>
+                {status && (
+                    <span className={`text-xs font-medium ${status.member ? 'text-green-400' : 'text-[var(--color-text-muted)]'}`}>
+                        {status.member ? 'You are a member' : status.proofValid ? 'Invited' : 'Not invited'}
+                    </span>
+                )}
+            </div>
+            <p className="text-sm text-[var(--color-text-secondary)] mb-4">
+                Only invited wallets can bet here. The market stays out of public listings and link previews,
+                but its pools and bets are on-chain like any other market.
+            </p>
+
+            {status === null && (
+                <p className="text-sm text-[var(--color-text-muted)]">Connect your wallet to check your invite.</p>
+            )}
+            {status && !status.member && status.proofValid && isOpen && (
+                <Button size="md" className="w-full" onClick={onJoin} disabled={loading}>
+                    {loading ? 'Joining...' : 'Join Market'}
+                </Button>
+            )}
+            {status && !status.member && !status.proofValid && (
+                <p className="text-sm text-[var(--color-text-muted)]">
+                    Open the invite link the creator sent you to join. Links from an older invite list no longer work.
+                </p>
+            )}
+
+            {isCreator && isOpen && (
+                <div className="mt-4 pt-4 border-t border-[var(--color-border)] space-y-4">
+                    <div>
+                        <p className="text-xs uppercase tracking-wider text-[var(--color-text-muted)] mb-2">Invite links</p>
+                        {links === null ? (
+                            <p className="text-sm text-[var(--color-text-muted)]">
+                                The invite list for this market isn't saved in this browser. Enter it again below to rebuild the links.
+                            </p>
+                        ) : (
+                            <div className="space-y-2 max-h-64 overflow-y-auto">
+                                {links.map(({ address, link }) => (
+                                    <div key={address} className="flex items-center justify-between gap-3">
+                                        <span className="text-sm font-mono text-[var(--color-text-primary)]">{truncateAddress(address)}</span>
+                                        <Button variant="ghost" size="sm" onClick={() => handleCopy(link)}>
+                                            {copied === link ? 'Copied' : 'Copy link'}
+                                        </Button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+
+                    <div>
+                        <p className="text-xs uppercase tracking-wider text-[var(--color-text-muted)] mb-2">Invite list</p>
+                        <textarea
+                            value={invitees}
+                            onChange={(e) => setInvitees(e.target.value)}
+                            rows={4}
+                            placeholder="One address per line"
+                            className={`${inputClass} font-mono resize-none mb-2`}
+                        />
+                        <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => onUpdateInvitees(inviteeList)}
+                            disabled={loading || !inviteesValid}
+                        >
+                            Update Invite List
+                        </Button>
+                        <p className="text-xs text-[var(--color-text-muted)] mt-1">
+                            Publishes a new root. Wallets that already joined under the old list must join again with a new link.
+                        </p>
+                    </div>
+
+                    <div>
+                        <p className="text-xs uppercase tracking-wider text-[var(--color-text-muted)] mb-2">Allow directly</p>
+                        <div className="flex flex-wrap items-center gap-3">
+                            <input
+                                type="text"
+                                value={member}
+                                onChange={(e) => setMember(e.target.value)}
+                                placeholder="Wallet address"
+                                className={`${inputClass} flex-1 min-w-40 font-mono`}
+                            />
+                            <Button variant="ghost" size="sm" onClick={() => onAllow(member.trim(), true)} disabled={loading || !memberValid}>
+                                Allow
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => onAllow(member.trim(), false)} disabled={loading || !memberValid}>
+                                Remove
+                            </Button>
+                        </div>
+                        <p className="text-xs text-[var(--color-text-muted)] mt-1">
+                            Allowed wallets can bet without an invite link and keep access when the invite list changes.
+                        </p>
+                    </div>
+                </div>
+            )}
+
+            {error && (
+                <div className="mt-3 text-red-400 text-sm bg-red-400/10 px-4 py-3 rounded-lg">{error}</div>
+            )}
+            {submitted && !error && (
+                <div className="mt-3 text-green-400 text-sm bg-green-400/10 px-4 py-3 rounded-lg">
+                    {submitted} submitted! It takes effect after the next block confirmation (~10 min).
+                </div>
+            )}
+        </Card>
+    );
+}
@@ -0,0 +1,231 @@
+import { useState } from 'react';
+import { Card } from '../common/Card';
+import { Button } from '../common/Button';
+import { MarketData, MarketStatus, MarketOutcome, MarketResolution, DisputeConfig } from '../../types';
+import { outcomeColor, outcomeLabel, resolvedLabel } from '../../utils/outcomes';
+import { formatFixedPrice, toFixedPrice } from '../../utils/prices';
+
+function formatSats(sats: bigint): string {
+    const btc = Number(sats) / 100_000_000;
+    if (btc >= 0.001) return `${btc.toFixed(4)} BTC`;
+    return `${sats.toLocaleString()} sats`;
+}
+
+function truncateAddress(addr: string): string {
+    if (addr.length <= 16) return addr;
+    return `${addr.slice(0, 8)}...${addr.slice(-6)}`;
+}
+
+type StepState = 'done' | 'active' | 'pending';
+
+function Step({ state, title, children }: { state: StepState; title: string; children?: React.ReactNode }): React.JSX.Element {
+    const dot = state === 'done'
+        ? 'bg-green-400'
+        : state === 'active'
+            ? 'bg-[var(--color-btc-orange)] animate-pulse'
+            : 'bg-[var(--color-border)]';
+    return (
+        <li className="relative pl-6 pb-5 last:pb-0 border-l border-[var(--color-border)] last:border-transparent">
+            <span className={`absolute -left-[5px] top-1 w-2.5 h-2.5 rounded-full ${dot}`} />
+            <p className={`text-sm font-semibold ${state === 'pending' ? 'text-[var(--color-text-muted)]' : 'text-[var(--color-text-primary)]'}`}>
+                {title}
+            </p>
+            {children && <div className="text-xs text-[var(--color-text-secondary)] mt-1">{children}</div>}
+        </li>
+    );
+}
+
+interface ResolutionTimelineProps {
+    market: MarketData;
+    resolution: MarketResolution;
+    disputeConfig: DisputeConfig | null;
+    currentBlock: bigint | null;
+    /** Connected wallet can place a dispute or finalize. */
+    canAct: boolean;
+    isArbitrator: boolean;
+    hasPendingAction: boolean;
+    loading: boolean;
+    error: string | null;
+    approvalPending: boolean;
+    /** Scalar markets dispute and rule with a value rather than an outcome. */
+    onDispute: (outcome: MarketOutcome | bigint) => void;
+    onFinalize: () => void;
+    onRule: (outcome: MarketOutcome | bigint) => void;
+}
+
+/** Proposed → disputed → final view of a market's optimistic resolution, with the actions open at each stage. */
+export function ResolutionTimeline({
+    market,
+    resolution,
+    disputeConfig,
+    currentBlock,
+    canAct,
+    isArbitrator,
+    hasPendingAction,
+    loading,
+    error,
+    approvalPending,
+    onDispute,
+    onFinalize,
+    onRule,
+}: ResolutionTimelineProps): React.JSX.Element {
+    const isProposed = market.status === MarketStatus.PROPOSED;
+    const isDisputed = market.status === MarketStatus.DISPUTED;
+    const isFinal = market.status === MarketStatus.RESOLVED;
+    const wasDisputed = resolution.disputer !== '';
+    const windowOpen = isProposed && currentBlock !== null && currentBlock < resolution.disputeEndBlock;
+    const readyToFinalize = isProposed && currentBlock !== null && currentBlock >= resolution.disputeEndBlock;
+    const bond = resolution.bond > 0n ? resolution.bond : disputeConfig?.bond ?? 0n;
+    const outcomes = market.outcomeLabels.map((_, i) => i + 1);
+    const proposedOutcome: number = resolution.proposedOutcome;
+    const [disputeValue, setDisputeValue] = useState('');
+    const proposedLabel = market.scalar
+        ? formatFixedPrice(resolution.proposedValue)
+        : outcomeLabel(market, resolution.proposedOutcome);
+    const disputedLabel = market.scalar
+        ? formatFixedPrice(resolution.disputedValue)
+        : outcomeLabel(market, resolution.disputedOutcome);
+    const parsedDisputeValue = Number(disputeValue);
+    const canDisputeValue = disputeValue !== '' && Number.isFinite(parsedDisputeValue) && parsedDisputeValue >= 0
+        && toFixedPrice(parsedDisputeValue) !== resolution.proposedValue;
+
+    return (
+        <Card>
+            <h2 className="text-lg font-bold text-[var(--color-text-primary)] mb-4">Resolution</h2>
+
+            <ol className="ml-1">
+                <Step state="done" title="Outcome proposed">
+                    The {market.committee ? 'oracle committee' : 'oracle'} proposed <span className="font-semibold">{proposedLabel}</span> at
+                    block #{resolution.proposedAtBlock.toLocaleString()}.
+                </Step>
+
+                {wasDisputed ? (
+                    <Step state={isDisputed ? 'active' : 'done'} title="Disputed">
+                        {truncateAddress(resolution.disputer)} challenged with a {formatSats(resolution.bond)} bond, backing{' '}
+                        <span className="font-semibold">{disputedLabel}</span>.
+                        {isDisputed && ' Waiting for the arbitrator to rule.'}
+                    </Step>
+                ) : (
+                    <Step state={windowOpen ? 'active' : 'done'} title={windowOpen ? 'Dispute window open' : 'Dispute window closed'}>
+                        {windowOpen
+                            ? `Anyone can challenge until block #${resolution.disputeEndBlock.toLocaleString()} by posting a ${formatSats(bond)} bond.`
+                            : `No dispute was raised before block #${resolution.disputeEndBlock.toLocaleString()}.`}
+                    </Step>
+                )}
+
+                <Step state={isFinal ? 'done' : readyToFinalize ? 'active' : 'pending'} title={isFinal ? 'Final' : 'Final outcome'}>
+                    {isFinal
+                        ? <>Settled on <span className="font-semibold">{resolvedLabel(market)}</span>. Winnings can be claimed.</>
+                        : readyToFinalize
+                            ? 'The proposal went unchallenged and can now be finalized by anyone.'
+                            : 'Claims open once the outcome is final.'}
+                </Step>
+            </ol>
+
+            {windowOpen && canAct && (
+                <div className="mt-5">
+                    <p className="text-sm text-[var(--color-text-secondary)] mb-3">
+                        Think the oracle got it wrong? Back a different {market.scalar ? 'value' : 'outcome'}. The bond is returned if the arbitrator overturns the proposal and forfeited if it stands.
+                    </p>
+                    {market.scalar ? (
+                        <div className="flex gap-3">
+                            <input
+                                type="number"
+                                value={disputeValue}
+                                onChange={(e) => setDisputeValue(e.target.value)}
+                                min="0"
+                                step="any"
+                                placeholder="Correct value (USD)"
+                                className="flex-1 bg-[var(--color-bg-input)] border border-[var(--color-border)] rounded-xl px-4 py-2 text-[var(--color-text-primary)] placeholder-[var(--color-text-muted)] focus:border-[var(--color-btc-orange)] focus:outline-none transition-colors"
+                            />
+                            <Button
+                                variant="ghost"
+                                size="md"
+                                onClick={() => onDispute(toFixedPrice(parsedDisputeValue))}
+                                disabled={loading || hasPendingAction || !canDisputeValue}
+                            >
+                                Dispute
+                            </Button>
+                        </div>
+                    ) : (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            {outcomes.filter((o) => o !== proposedOutcome).map((o) => (
+                                <Button
+                                    key={o}
+                                    variant="ghost"
+                                    size="md"
+                                    onClick={() => onDispute(o as MarketOutcome)}
+                                    disabled={loading || hasPendingAction}
+                                    style={{ borderColor: outcomeColor(o - 1) }}
+                                >
+                                    Dispute: {outcomeLabel(market, o)}
+                                </Button>
+                            ))}
+                        </div>
+                    )}
+                    {approvalPending && (
+                        <p className="mt-3 text-sm text-[var(--color-btc-orange)]">
+                            Bond approval submitted. Dispute again once it confirms (~10 min).
+                        </p>
+                    )}
+                </div>
+            )}
+
+            {readyToFinalize && canAct && (
+                <Button
+                    variant="primary"
+                    size="md"
+                    className="w-full mt-5"
+                    onClick={onFinalize}
+                    disabled={loading || hasPendingAction}
+                >
+                    {loading ? 'Finalizing...' : hasPendingAction ? 'Finalization Pending...' : 'Finalize Outcome'}
+                </Button>
+            )}
+
+            {isDisputed && isArbitrator && (
+                <div className="mt-5">
+                    <p className="text-sm text-[var(--color-text-secondary)] mb-3">
+                        As arbitrator, rule on the final {market.scalar ? 'value' : 'outcome'}.
+                    </p>
+                    {market.scalar ? (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            {[resolution.proposedValue, resolution.disputedValue].map((value, i) => (
+                                <Button
+                                    key={i}
+                                    variant="ghost"
+                                    size="md"
+                                    onClick={() => onRule(value)}
+                                    disabled={loading || hasPendingAction}
+                                >
+                                    Rule {formatFixedPrice(value)}
+                                </Button>
+                            ))}
+                        </div>
+                    ) : (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                            {outcomes.map((o) => (
+                                <Button
+                                    key={o}
+                                    variant="ghost"
+                                    size="md"
+                                    onClick={() => onRule(o as MarketOutcome)}
+                                    disabled={loading || hasPendingAction}
+                                    style={{ borderColor: outcomeColor(o - 1) }}
+                                >
+                                    Rule {outcomeLabel(market, o)}
+                                </Button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
+            {error && (
+                <div className="mt-3 text-red-400 text-sm bg-red-400/10 px-4 py-3 rounded-lg">
+                    {error}
+                </div>
+            )}
+        </Card>
+    );
+}
@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react';
+import { Button } from '../common/Button';
+import { MarketData, MarketOutcome, UserPosition } from '../../types';
+import { outcomeLabel } from '../../utils/outcomes';
+
+// Default slippage tolerance applied to the quote when building minOut
+const DEFAULT_SLIPPAGE_PERCENT = 1;
+const QUOTE_DEBOUNCE_MS = 400;
+
+function formatSats(sats: bigint): string {
+    const btc = Number(sats) / 100_000_000;
+    if (btc >= 0.001) return `${btc.toFixed(4)} BTC`;
+    return `${sats.toLocaleString()} sats`;
+}
+
+function parseShares(value: string): bigint | null {
+    if (!/^\d+$/.test(value.trim())) return null;
+    const shares = BigInt(value.trim());
+    return shares > 0n ? shares : null;
+}
+
+interface SellPositionProps {
+    market: MarketData;
+    position: UserPosition;
+    loading: boolean;
+    error: string | null;
+    hasPendingSell: boolean;
+    success: boolean;
+    quoteSell: (marketId: bigint, outcome: MarketOutcome, shares: bigint) => Promise<bigint>;
+    onSell: (outcome: MarketOutcome, shares: bigint, minOut: bigint) => void;
+}
+
+/** Early exit: sell stake on one outcome back to the market before the deadline, with a live quote. */
+export function SellPosition({
+    market,
+    position,
+    loading,
+    error,
+    hasPendingSell,
+    success,
+    quoteSell,
+    onSell,
+}: SellPositionProps): React.JSX.Element {
+    const held = position.stakes
+        .map((stake, i) => ({ outcome: (i + 1) as MarketOutcome, stake }))
+        .filter((h) => h.stake > 0n);
+    const [outcome, setOutcome] = useState<MarketOutcome>(held[0]?.outcome ?? MarketOutcome.YES);
+    const [shares, setShares] = useState('');
+    const [slippage, setSlippage] = useState(String(DEFAULT_SLIPPAGE_PERCENT));
+    const [quote, setQuote] = useState<bigint | null>(null);
+    const [quoting, setQuoting] = useState(false);
+
+    const stake = position.stakes[outcome - 1] ?? 0n;
+    const parsedShares = parseShares(shares);
+    const sharesValid = parsedShares !== null && parsedShares <= stake;
+    const slippageBps = Math.round(Number(slippage) * 100);
+    const slippageValid = !isNaN(slippageBps) && slippageBps >= 0 && slippageBps <= 5000;
+
+    useEffect(() => {
+        setQuote(null);
+        if (!sharesValid) return;
+        let cancelled = false;
+        const timer = setTimeout(() => {
+            setQuoting(true);
+            quoteSell(market.id, outcome, parsedShares)
+                .then((amountOut) => {
+                    if (!cancelled) setQuote(amountOut);
+                })
+                .catch(() => {
+                    // quote is display-only; the sell simulation re-checks
+                })
+                .finally(() => {
+                    if (!cancelled) setQuoting(false);
+                });
+        }, QUOTE_DEBOUNCE_MS);
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [market.id, outcome, parsedShares, sharesValid, quoteSell]);
+
+    const minOut = quote !== null && slippageValid ? (quote * BigInt(10000 - slippageBps)) / 10000n : null;
+    // Shortfall against the stake: the pool odds plus the exit spread
+    const impactPercent = quote !== null && parsedShares !== null && parsedShares > 0n
+        ? Number(((parsedShares - quote) * 10000n) / parsedShares) / 100
+        : null;
+
+    return (
+        <div className="mt-6 border-t border-[var(--color-border)] pt-5">
+            <h3 className="text-sm font-semibold text-[var(--color-text-primary)] mb-1">Sell Position</h3>
+            <p className="text-xs text-[var(--color-text-muted)] mb-3">
+                Exit before the deadline at the pool odds: each share is worth the other outcomes&apos; share of the pool, less a 1&ndash;10% spread that grows with your share of the outcome&apos;s pool. What the sale gives up stays with the winners.
+            </p>
+
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-3">
+                <select
+                    value={outcome}
+                    onChange={(e) => setOutcome(Number(e.target.value) as MarketOutcome)}
+                    className="bg-[var(--color-bg-input)] border border-[var(--color-border)] rounded-xl px-4 py-3 text-[var(--color-text-primary)] focus:border-[var(--color-btc-orange)] focus:outline-none"
+                >
+                    {held.map((h) => (
+                        <option key={h.outcome} value={h.outcome}>
+                            {outcomeLabel(market, h.outcome)} ({formatSats(h.stake)})
+                        </option>
+                    ))}
+                </select>
+                <div className="relative">
+                    <input
+                        type="number"
+                        value={shares}
+                        onChange={(e) => setShares(e.target.value)}
+                        min="1"
+                        placeholder="Shares"
+                        className="w-full bg-[var(--color-bg-input)] border border-[var(--color-border)] rounded-xl px-4 py-3 pr-14 text-[var(--color-text-primary)] placeholder-[var(--color-text-muted)] focus:border-[var(--color-btc-orange)] focus:outline-none"
+                    />
+                    <button
+                        type="button"
+                        onClick={() => setShares(stake.toString())}
+                        className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-[var(--color-btc-orange)] cursor-pointer"
+                    >
+                        Max
+                    </button>
+                </div>
+                <div className="relative">
+                    <input
+                        type="number"
+                        value={slippage}
+                        onChange={(e) => setSlippage(e.target.value)}
+                        min="0"
+                        max="50"
+                        step="0.1"
+                        className="w-full bg-[var(--color-bg-input)] border border-[var(--color-border)] rounded-xl px-4 py-3 pr-20 text-[var(--color-text-primary)] focus:border-[var(--color-btc-orange)] focus:outline-none"
+                    />
+                    <span className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-[var(--color-text-muted)]">% slippage</span>
+                </div>
+            </div>
+
+            {parsedShares !== null && parsedShares > stake && (
+                <p className="text-xs text-red-400 mb-3">You only hold {formatSats(stake)} on this outcome.</p>
+            )}
+
+            {sharesValid && (
+                <div className="bg-[var(--color-bg-input)] border border-[var(--color-border)] rounded-lg px-4 py-3 mb-3 text-sm space-y-1">
+                    <div className="flex justify-between">
+                        <span className="text-[var(--color-text-secondary)]">You receive</span>
+                        <span className="text-[var(--color-text-primary)] font-semibold">
+                            {quoting ? 'Quoting...' : quote !== null ? formatSats(quote) : '—'}
+                        </span>
+                    </div>
+                    {impactPercent !== null && (
+                        <div className="flex justify-between text-xs">
+                            <span className="text-[var(--color-text-muted)]">Below your stake</span>
+                            <span className="text-[var(--color-text-secondary)]">
+                                {impactPercent.toFixed(2)}%
+                            </span>
+                        </div>
+                    )}
+                    {minOut !== null && (
+                        <div className="flex justify-between text-xs">
+                            <span className="text-[var(--color-text-muted)]">Minimum received</span>
+                            <span className="text-[var(--color-text-secondary)]">{formatSats(minOut)}</span>
+                        </div>
+                    )}
+                </div>
+            )}
+
+            <Button
+                variant="ghost"
+                size="md"
+                className="w-full"
+                onClick={() => {
+                    if (parsedShares !== null && minOut !== null) onSell(outcome, parsedShares, minOut);
+                }}
+                disabled={loading || hasPendingSell || !sharesValid || minOut === null || minOut === 0n}
+            >
+                {loading ? 'Selling...' : hasPendingSell ? 'Sale Pending...' : 'Sell'}
+            </Button>
+
+            {error && (
+                <div className="mt-3 text-red-400 text-sm bg-red-400/10 px-4 py-3 rounded-lg">
+                    {error}
+                </div>
+            )}
+            {success && !error && (
+                <div className="mt-3 text-green-400 text-sm bg-green-400/10 px-4 py-3 rounded-lg">
+                    Sale submitted! Your position updates after the next block confirmation (~10 min).
+                </div>
+            )}
+        </div>
+    );
+}
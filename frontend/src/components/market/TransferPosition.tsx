@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { Button } from '../common/Button';
+import { MarketData, MarketOutcome, UserPosition } from '../../types';
+import { outcomeLabel } from '../../utils/outcomes';
+
+const ADDRESS_PATTERN = /^(0x)?[0-9a-fA-F]{64}$/;
+
+function formatSats(sats: bigint): string {
+    const btc = Number(sats) / 100_000_000;
+    if (btc >= 0.001) return `${btc.toFixed(4)} BTC`;
+    return `${sats.toLocaleString()} sats`;
+}
+
+interface TransferPositionProps {
+    market: MarketData;
+    position: UserPosition;
+    loading: boolean;
+    error: string | null;
+    hasPendingTransfer: boolean;
+    success: boolean;
+    onTransfer: (outcome: MarketOutcome, to: string, shares: bigint) => void;
+}
+
+/** Gift or hand over stake on one outcome; the recipient holds the claim from then on. */
+export function TransferPosition({
+    market,
+    position,
+    loading,
+    error,
+    hasPendingTransfer,
+    success,
+    onTransfer,
+}: TransferPositionProps): React.JSX.Element {
+    const held = position.stakes
+        .map((stake, i) => ({ outcome: (i + 1) as MarketOutcome, stake }))
+        .filter((h) => h.stake > 0n);
+    const [open, setOpen] = useState(false);
+    const [outcome, setOutcome] = useState<MarketOutcome>(held[0]?.outcome ?? MarketOutcome.YES);
+    const [recipient, setRecipient] = useState('');
+    const [shares, setShares] = useState('');
+
+    const stake = position.stakes[outcome - 1] ?? 0n;
+    const parsedShares = /^\d+$/.test(shares.trim()) ? BigInt(shares.trim()) : 0n;
+    const recipientValid = ADDRESS_PATTERN.test(recipient.trim());
+    const sharesValid = parsedShares > 0n && parsedShares <= stake;
+
+    if (!open) {
+        return (
+            <button
+                type="button"
+                onClick={() => setOpen(true)}
+                className="mt-4 text-sm text-[var(--color-btc-orange)] hover:underline cursor-pointer"
+            >
+                Transfer position...
+            </button>
+        );
+    }
+
+    return (
+        <div className="mt-6 border-t border-[var(--color-border)] pt-5">
+            <h3 className="text-sm font-semibold text-[var(--color-text-primary)] mb-1">Transfer Position</h3>
+            <p className="text-xs text-[var(--color-text-muted)] mb-3">
+                Send stake to another wallet. Whoever holds it when the market settles claims the winnings or refund.
+                {market.isPrivate && ' This market is private, so the recipient must already be a member.'}
+            </p>
+
+            <input
+                type="text"
+                value={recipient}
+                onChange={(e) => setRecipient(e.target.value)}
+                placeholder="Recipient address (0x...)"
+                className="w-full mb-3 bg-[var(--color-bg-input)] border border-[var(--color-border)] rounded-xl px-4 py-3 font-mono text-sm text-[var(--color-text-primary)] placeholder-[var(--color-text-muted)] focus:border-[var(--color-btc-orange)] focus:outline-none"
+            />
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 mb-3">
+                <select
+                    value={outcome}
+                    onChange={(e) => setOutcome(Number(e.target.value) as MarketOutcome)}
+                    className="bg-[var(--color-bg-input)] border border-[var(--color-border)] rounded-xl px-4 py-3 text-[var(--color-text-primary)] focus:border-[var(--color-btc-orange)] focus:outline-none"
+                >
+                    {held.map((h) => (
+                        <option key={h.outcome} value={h.outcome}>
+                            {outcomeLabel(market, h.outcome)} ({formatSats(h.stake)})
+                        </option>
+                    ))}
+                </select>
+                <div className="relative">
+                    <input
+                        type="number"
+                        value={shares}
+                        onChange={(e) => setShares(e.target.value)}
+                        min="1"
+                        placeholder="Shares"
+                        className="w-full bg-[var(--color-bg-input)] border border-[var(--color-border)] rounded-xl px-4 py-3 pr-14 text-[var(--color-text-primary)] placeholder-[var(--color-text-muted)] focus:border-[var(--color-btc-orange)] focus:outline-none"
+                    />
+                    <button
+                        type="button"
+                        onClick={() => setShares(stake.toString())}
+                        className="absolute right-3 top-1/2 -translate-y-1/2 text-xs text-[var(--color-btc-orange)] cursor-pointer"
+                    >
+                        Max
+                    </button>
+                </div>
+            </div>
+
+            {recipient.trim() !== '' && !recipientValid && (
+                <p className="text-xs text-red-400 mb-3">Enter a 32-byte hex address.</p>
+            )}
+            {parsedShares > stake && (
+                <p className="text-xs text-red-400 mb-3">You only hold {formatSats(stake)} on this outcome.</p>
+            )}
+
+            <Button
+                variant="ghost"
+                size="md"
+                className="w-full"
+                onClick={() => onTransfer(outcome, recipient.trim(), parsedShares)}
+                disabled={loading || hasPendingTransfer || !recipientValid || !sharesValid}
+            >
+                {loading ? 'Transferring...' : hasPendingTransfer ? 'Transfer Pending...' : 'Transfer'}
+            </Button>
+
+            {error && (
+                <div className="mt-3 text-red-400 text-sm bg-red-400/10 px-4 py-3 rounded-lg">
+                    {error}
+                </div>
+            )}
+            {success && !error && (
+                <div className="mt-3 text-green-400 text-sm bg-green-400/10 px-4 py-3 rounded-lg">
+                    Transfer submitted! Balances update after the next block confirmation (~10 min).
+                </div>
+            )}
+        </div>
+    );
+}
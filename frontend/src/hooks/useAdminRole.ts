@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useWalletConnect } from '@btc-vision/walletconnect';
+import { usePredictionMarket } from './usePredictionMarket';
+import { AdminConfig } from '../types';
+
+// Lowercase hex without 0x or leading zeros, so wallet and contract forms compare equal
+function bareHex(value: unknown): string {
+    if (!value) return '';
+    if (value instanceof Uint8Array) {
+        return Array.from(value).map((b) => b.toString(16).padStart(2, '0')).join('').replace(/^0+/, '');
+    }
+    return String(value).toLowerCase().replace(/^0x/, '').replace(/^0+/, '');
+}
+
+/** Admin settings plus whether the connected wallet is the owner or the pending owner. */
+export function useAdminRole(): {
+    config: AdminConfig | null;
+    isOwner: boolean;
+    isPendingOwner: boolean;
+    refresh: () => Promise<void>;
+} {
+    const { address } = useWalletConnect();
+    const { fetchAdminConfig, fetchCallerAddress } = usePredictionMarket();
+    const [config, setConfig] = useState<AdminConfig | null>(null);
+    const [callerAddress, setCallerAddress] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setConfig(await fetchAdminConfig());
+            setCallerAddress(address ? await fetchCallerAddress() : null);
+        } catch {
+            // no admin controls until the config loads
+        }
+    }, [address, fetchAdminConfig, fetchCallerAddress]);
+
+    useEffect(() => {
+        void refresh();
+    }, [refresh]);
+
+    const walletHex = bareHex(address);
+    const callerHex = bareHex(callerAddress);
+    const matches = (target: string): boolean => {
+        const targetHex = bareHex(target);
+        return targetHex !== '' && (targetHex === walletHex || targetHex === callerHex);
+    };
+
+    return {
+        config,
+        isOwner: address !== null && config !== null && matches(config.owner),
+        isPendingOwner: address !== null && config !== null && matches(config.pendingOwner),
+        refresh,
+    };
+}
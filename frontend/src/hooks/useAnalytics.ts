@@ -1,13 +1,19 @@
 import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
-import { usePredictionMarket } from './usePredictionMarket';
-import { MarketData, MarketStatus, MarketOutcome } from '../types';
+import { usePredictionMarket, BATCH_SIZE } from './usePredictionMarket';
+import { MarketData, MarketStatus, MarketOutcome, OracleCommittee, ScalarRange, ResolutionAuthority } from '../types';
 import { supabase } from '../services/supabase';
+import { marketOracles, sumPools } from '../utils/outcomes';
+import { BettingActivity, fetchBettingActivity } from '../services/indexedEvents';
+import { computeBettorStats } from '../utils/bettorStats';
 
 const CACHE_TTL = 4 * 60 * 60 * 1000; // 4 hours
 
 interface SerializedMarket {
     id: string;
-    endBlock: string;
+    // Caches written before resolution could trail the close only have endBlock
+    closeBlock?: string;
+    resolveAfterBlock?: string;
+    endBlock?: string;
     yesPool: string;
     noPool: string;
     question: string;
@@ -15,12 +21,35 @@ interface SerializedMarket {
     oracle: string;
     status: number;
     outcome: number;
+    // Absent in caches written before categorical markets existed
+    outcomeCount?: number;
+    outcomePools?: string[];
+    outcomeLabels?: string[];
+    // Absent in caches written before fees existed
+    protocolFeeBps?: number;
+    creatorFeeBps?: number;
+    protocolFee?: string;
+    creatorFee?: string;
+    // Absent in caches written before early exits existed
+    exitSpread?: string;
+    // Absent in caches written before oracle committees existed
+    committee?: OracleCommittee | null;
+    // Absent in caches written before content hashes existed
+    contentHash?: string;
+    questionVerified?: boolean;
+    // Absent in caches written before scalar markets existed
+    scalar?: { lowerBound: string; upperBound: string; value: string | null } | null;
+    // Absent in caches written before resolution timeouts existed
+    fallbackOracle?: string | null;
+    resolutionTimeoutBlock?: string;
+    resolvedBy?: number;
 }
 
 function serializeMarkets(markets: MarketData[]): SerializedMarket[] {
     return markets.map((m) => ({
         id: m.id.toString(),
-        endBlock: m.endBlock.toString(),
+        closeBlock: m.closeBlock.toString(),
+        resolveAfterBlock: m.resolveAfterBlock.toString(),
         yesPool: m.yesPool.toString(),
         noPool: m.noPool.toString(),
         question: m.question,
@@ -28,13 +57,33 @@ function serializeMarkets(markets: MarketData[]): SerializedMarket[] {
         oracle: m.oracle,
         status: m.status,
         outcome: m.outcome,
+        outcomeCount: m.outcomeCount,
+        outcomePools: m.outcomePools.map((p) => p.toString()),
+        outcomeLabels: m.outcomeLabels,
+        protocolFeeBps: m.protocolFeeBps,
+        creatorFeeBps: m.creatorFeeBps,
+        protocolFee: m.protocolFee.toString(),
+        creatorFee: m.creatorFee.toString(),
+        exitSpread: m.exitSpread.toString(),
+        committee: m.committee,
+        contentHash: m.contentHash,
+        questionVerified: m.questionVerified,
+        scalar: m.scalar && {
+            lowerBound: m.scalar.lowerBound.toString(),
+            upperBound: m.scalar.upperBound.toString(),
+            value: m.scalar.value?.toString() ?? null,
+        },
+        fallbackOracle: m.fallbackOracle,
+        resolutionTimeoutBlock: m.resolutionTimeoutBlock.toString(),
+        resolvedBy: m.resolvedBy,
     }));
 }
 
 function deserializeMarkets(rows: SerializedMarket[]): MarketData[] {
     return rows.map((m) => ({
         id: BigInt(m.id),
-        endBlock: BigInt(m.endBlock),
+        closeBlock: BigInt(m.closeBlock ?? m.endBlock ?? '0'),
+        resolveAfterBlock: BigInt(m.resolveAfterBlock ?? m.endBlock ?? '0'),
         yesPool: BigInt(m.yesPool),
         noPool: BigInt(m.noPool),
         question: m.question,
@@ -42,6 +91,31 @@ function deserializeMarkets(rows: SerializedMarket[]): MarketData[] {
         oracle: m.oracle,
         status: m.status as MarketStatus,
         outcome: m.outcome as MarketOutcome,
+        outcomeCount: m.outcomeCount ?? 2,
+        outcomePools: m.outcomePools?.map((p) => BigInt(p)) ?? [BigInt(m.yesPool), BigInt(m.noPool)],
+        outcomeLabels: m.outcomeLabels ?? ['YES', 'NO'],
+        protocolFeeBps: m.protocolFeeBps ?? 0,
+        creatorFeeBps: m.creatorFeeBps ?? 0,
+        protocolFee: BigInt(m.protocolFee ?? '0'),
+        creatorFee: BigInt(m.creatorFee ?? '0'),
+        exitSpread: BigInt(m.exitSpread ?? '0'),
+        committee: m.committee ?? null,
+        contentHash: m.contentHash ?? '',
+        questionVerified: m.questionVerified ?? false,
+        scalar: m.scalar
+            ? {
+                lowerBound: BigInt(m.scalar.lowerBound),
+                upperBound: BigInt(m.scalar.upperBound),
+                value: m.scalar.value !== null ? BigInt(m.scalar.value) : null,
+            }
+            : null,
+        fallbackOracle: m.fallbackOracle ?? null,
+        // Zero marks the timeout as unknown rather than passed
+        resolutionTimeoutBlock: BigInt(m.resolutionTimeoutBlock ?? '0'),
+        resolvedBy: (m.resolvedBy ?? ResolutionAuthority.NONE) as ResolutionAuthority,
+        // The cache only ever holds public markets
+        isPrivate: false,
+        allowlistRoot: null,
     }));
 }
 
@@ -81,6 +155,17 @@ async function saveCache(markets: MarketData[]): Promise<void> {
     }
 }
 
+// Betting stats are optional: without the indexer tables the rest of the
+// analytics still loads from the contract
+async function loadActivity(): Promise<BettingActivity | null> {
+    try {
+        return await fetchBettingActivity();
+    } catch (err) {
+        console.warn('Indexed betting activity unavailable:', err instanceof Error ? err.message : err);
+        return null;
+    }
+}
+
 export interface MarketAnalytics {
     id: bigint;
     question: string;
@@ -88,18 +173,43 @@ export interface MarketAnalytics {
     outcome: MarketOutcome;
     yesPool: bigint;
     noPool: bigint;
+    outcomeCount: number;
+    outcomePools: bigint[];
+    outcomeLabels: string[];
+    protocolFeeBps: number;
+    creatorFeeBps: number;
+    protocolFee: bigint;
+    creatorFee: bigint;
+    exitSpread: bigint;
+    committee: OracleCommittee | null;
+    contentHash: string;
+    questionVerified: boolean;
+    scalar: ScalarRange | null;
     totalPool: bigint;
     yesPercent: number;
     noPercent: number;
-    endBlock: bigint;
+    closeBlock: bigint;
+    resolveAfterBlock: bigint;
     creator: string;
     oracle: string;
+    fallbackOracle: string | null;
+    /** Zero when unknown (cached before resolution timeouts existed). */
+    resolutionTimeoutBlock: bigint;
+    resolvedBy: ResolutionAuthority;
+    isPrivate: boolean;
+    allowlistRoot: bigint | null;
 }
 
 export interface WalletStats {
     address: string;
     marketsCreated: number;
     marketsAsOracle: number;
+    /** Betting stats from indexed BetPlaced and WinningsClaimed events (see utils/bettorStats). */
+    marketsParticipated: number;
+    volumeBet: bigint;
+    winRate: number | null;
+    realizedPnl: bigint;
+    largestWin: bigint;
     totalActivity: number;
 }
 
@@ -107,6 +217,9 @@ export interface OverviewStats {
     totalMarkets: number;
     openMarkets: number;
     resolvedMarkets: number;
+    cancelledMarkets: number;
+    /** Proposed or disputed: the oracle has answered but the outcome is not final yet. */
+    settlingMarkets: number;
     totalVolume: bigint;
     totalYesVolume: bigint;
     totalNoVolume: bigint;
@@ -114,6 +227,11 @@ export interface OverviewStats {
     largestPool: bigint;
     resolvedYes: number;
     resolvedNo: number;
+    categoricalMarkets: number;
+    resolvedCategorical: number;
+    /** Fees taken from losing pools at resolution, across all markets. */
+    totalProtocolFees: bigint;
+    totalCreatorFees: bigint;
 }
 
 export interface AnalyticsData {
@@ -124,6 +242,15 @@ export interface AnalyticsData {
     statusDistribution: { name: string; value: number; color: string }[];
     outcomeDistribution: { name: string; value: number; color: string }[];
     volumeByMarket: { name: string; yes: number; no: number; total: number }[];
+    /** Pool split per outcome for each categorical market. */
+    categoricalDistribution: {
+        id: bigint;
+        name: string;
+        question: string;
+        outcomes: { label: string; value: number }[];
+    }[];
+    /** Indexed betting events, or null when the indexer tables are unavailable. */
+    activity: BettingActivity | null;
 }
 
 export function useAnalytics(): {
@@ -132,8 +259,9 @@ export function useAnalytics(): {
     error: string | null;
     refresh: (force?: boolean) => Promise<void>;
 } {
-    const { fetchMarketCount, fetchMarket } = usePredictionMarket();
+    const { fetchMarkets } = usePredictionMarket();
     const [rawMarkets, setRawMarkets] = useState<MarketData[]>([]);
+    const [activity, setActivity] = useState<BettingActivity | null>(null);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const lastFetch = useRef(0);
@@ -149,6 +277,7 @@ export function useAnalytics(): {
                 lastFetch.current = cached.timestamp;
             }
         });
+        void loadActivity().then(setActivity);
     }, []);
 
     const refresh = useCallback(async (force = false): Promise<void> => {
@@ -158,16 +287,16 @@ export function useAnalytics(): {
         setLoading(true);
         setError(null);
         try {
-            const count = await fetchMarketCount();
             const markets: MarketData[] = [];
-            for (let i = 1n; i <= count; i++) {
-                try {
-                    markets.push(await fetchMarket(i));
-                } catch {
-                    // skip individual errors
-                }
+            let total = 1n;
+            for (let offset = 0n; offset < total; offset += BigInt(BATCH_SIZE)) {
+                const page = await fetchMarkets(offset, BigInt(BATCH_SIZE));
+                total = page.total;
+                // Private markets stay out of analytics and its public cache
+                markets.push(...page.markets.filter((m) => !m.isPrivate));
             }
             setRawMarkets(markets);
+            setActivity(await loadActivity());
             lastFetch.current = Date.now();
             void saveCache(markets);
         } catch (err) {
@@ -175,13 +304,13 @@ export function useAnalytics(): {
         } finally {
             setLoading(false);
         }
-    }, [fetchMarketCount, fetchMarket, rawMarkets.length]);
+    }, [fetchMarkets, rawMarkets.length]);
 
     const data = useMemo((): AnalyticsData | null => {
         if (rawMarkets.length === 0) return null;
 
         const markets: MarketAnalytics[] = rawMarkets.map((m) => {
-            const totalPool = m.yesPool + m.noPool;
+            const totalPool = sumPools(m.outcomePools);
             const yesPercent = totalPool > 0n
                 ? Number((m.yesPool * 10000n) / totalPool) / 100
                 : 50;
@@ -195,18 +324,29 @@ export function useAnalytics(): {
 
         const openMarkets = markets.filter((m) => m.status === MarketStatus.OPEN).length;
         const resolvedMarkets = markets.filter((m) => m.status === MarketStatus.RESOLVED).length;
+        const cancelledMarkets = markets.filter((m) => m.status === MarketStatus.CANCELLED).length;
+        const settlingMarkets = markets.filter(
+            (m) => m.status === MarketStatus.PROPOSED || m.status === MarketStatus.DISPUTED,
+        ).length;
         const totalVolume = markets.reduce((acc, m) => acc + m.totalPool, 0n);
         const totalYesVolume = markets.reduce((acc, m) => acc + m.yesPool, 0n);
         const totalNoVolume = markets.reduce((acc, m) => acc + m.noPool, 0n);
         const avgPoolSize = markets.length > 0 ? totalVolume / BigInt(markets.length) : 0n;
         const largestPool = markets.reduce((max, m) => m.totalPool > max ? m.totalPool : max, 0n);
-        const resolvedYes = markets.filter((m) => m.outcome === MarketOutcome.YES).length;
-        const resolvedNo = markets.filter((m) => m.outcome === MarketOutcome.NO).length;
+        const binary = markets.filter((m) => m.outcomeCount <= 2);
+        const categorical = markets.filter((m) => m.outcomeCount > 2);
+        const resolvedYes = binary.filter((m) => m.status === MarketStatus.RESOLVED && m.outcome === MarketOutcome.YES).length;
+        const resolvedNo = binary.filter((m) => m.status === MarketStatus.RESOLVED && m.outcome === MarketOutcome.NO).length;
+        const resolvedCategorical = categorical.filter((m) => m.status === MarketStatus.RESOLVED).length;
+        const totalProtocolFees = markets.reduce((acc, m) => acc + m.protocolFee, 0n);
+        const totalCreatorFees = markets.reduce((acc, m) => acc + m.creatorFee, 0n);
 
         const overview: OverviewStats = {
             totalMarkets: markets.length,
             openMarkets,
             resolvedMarkets,
+            cancelledMarkets,
+            settlingMarkets,
             totalVolume,
             totalYesVolume,
             totalNoVolume,
@@ -214,13 +354,27 @@ export function useAnalytics(): {
             largestPool,
             resolvedYes,
             resolvedNo,
+            categoricalMarkets: categorical.length,
+            resolvedCategorical,
+            totalProtocolFees,
+            totalCreatorFees,
         };
 
         // Wallet aggregation
         const walletMap = new Map<string, WalletStats>();
         const getOrCreate = (addr: string): WalletStats => {
             if (!walletMap.has(addr)) {
-                walletMap.set(addr, { address: addr, marketsCreated: 0, marketsAsOracle: 0, totalActivity: 0 });
+                walletMap.set(addr, {
+                    address: addr,
+                    marketsCreated: 0,
+                    marketsAsOracle: 0,
+                    marketsParticipated: 0,
+                    volumeBet: 0n,
+                    winRate: null,
+                    realizedPnl: 0n,
+                    largestWin: 0n,
+                    totalActivity: 0,
+                });
             }
             return walletMap.get(addr)!;
         };
@@ -228,9 +382,20 @@ export function useAnalytics(): {
             const creator = getOrCreate(m.creator);
             creator.marketsCreated++;
             creator.totalActivity++;
-            const oracle = getOrCreate(m.oracle);
-            oracle.marketsAsOracle++;
-            if (m.oracle !== m.creator) oracle.totalActivity++;
+            for (const addr of marketOracles(m)) {
+                const oracle = getOrCreate(addr);
+                oracle.marketsAsOracle++;
+                if (addr !== m.creator) oracle.totalActivity++;
+            }
+        }
+        for (const b of activity ? computeBettorStats(markets, activity) : []) {
+            const wallet = getOrCreate(b.address);
+            wallet.marketsParticipated = b.marketsParticipated;
+            wallet.volumeBet = b.volumeBet;
+            wallet.winRate = b.winRate;
+            wallet.realizedPnl = b.realizedPnl;
+            wallet.largestWin = b.largestWin;
+            wallet.totalActivity += b.marketsParticipated;
         }
         const wallets = Array.from(walletMap.values()).sort((a, b) => b.totalActivity - a.totalActivity);
 
@@ -242,13 +407,16 @@ export function useAnalytics(): {
 
         const statusDistribution = [
             { name: 'Open', value: openMarkets, color: '#22c55e' },
+            { name: 'Proposed / Disputed', value: settlingMarkets, color: '#f7931a' },
             { name: 'Resolved', value: resolvedMarkets, color: '#8888a0' },
+            { name: 'Cancelled', value: cancelledMarkets, color: '#ef4444' },
         ].filter((d) => d.value > 0);
 
         const outcomeDistribution = [
             { name: 'YES', value: resolvedYes, color: '#22c55e' },
             { name: 'NO', value: resolvedNo, color: '#ef4444' },
-            { name: 'Pending', value: openMarkets, color: '#f7931a' },
+            { name: 'Categorical', value: resolvedCategorical, color: '#a855f7' },
+            { name: 'Pending', value: openMarkets + settlingMarkets, color: '#f7931a' },
         ].filter((d) => d.value > 0);
 
         const volumeByMarket = markets.map((m) => ({
@@ -258,6 +426,13 @@ export function useAnalytics(): {
             total: Number(m.totalPool),
         }));
 
+        const categoricalDistribution = categorical.map((m) => ({
+            id: m.id,
+            name: `#${m.id}`,
+            question: m.question,
+            outcomes: m.outcomeLabels.map((label, i) => ({ label, value: Number(m.outcomePools[i] ?? 0n) })),
+        }));
+
         return {
             markets,
             wallets,
@@ -266,8 +441,10 @@ export function useAnalytics(): {
             statusDistribution,
             outcomeDistribution,
             volumeByMarket,
+            categoricalDistribution,
+            activity,
         };
-    }, [rawMarkets]);
+    }, [rawMarkets, activity]);
 
     return { data, loading, error, refresh };
 }
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react';
+import { useNetwork } from './useNetwork';
+import { BlockClock, blockTimeService } from '../services/BlockTimeService';
+
+/** The shared block clock for the current network, or null until it has been sampled. */
+export function useBlockClock(): BlockClock | null {
+    const { network } = useNetwork();
+    const [clock, setClock] = useState<BlockClock | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        blockTimeService.getClock(network).then((c) => {
+            if (!cancelled) setClock(c);
+        }).catch(() => {
+            // callers fall back to showing block heights only
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [network]);
+
+    return clock;
+}
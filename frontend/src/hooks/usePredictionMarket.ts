@@ -1,17 +1,47 @@
 import { useState, useCallback } from 'react';
 import { useWalletConnect } from '@btc-vision/walletconnect';
 import { networks } from '@btc-vision/bitcoin';
-import { Address, ABICoder } from '@btc-vision/transaction';
-import { JSONRpcProvider, getContract, BaseContractProperties, ABIDataTypes } from 'opnet';
-import type { BitcoinInterfaceAbi } from 'opnet';
+import { Address, ABICoder, BinaryReader } from '@btc-vision/transaction';
+import { JSONRpcProvider, getContract, ABIDataTypes, OP_20_ABI } from 'opnet';
+import type { IOP20Contract } from 'opnet';
 import { useNetwork } from './useNetwork';
 import { getNetworkConfig } from '../config';
 import { PREDICTION_MARKET_ABI } from '../abi/PredictionMarketABI';
-import { MarketData, MarketStatus, MarketOutcome, UserPosition, MarketMetadata } from '../types';
-import { getMarketTitle, saveMarketQuestion } from '../utils/marketQuestions';
-
-// eslint-disable-next-line @typescript-eslint/no-explicit-any
-type AnyContract = ReturnType<typeof getContract<BaseContractProperties>> & Record<string, (...args: any[]) => Promise<any>>;
+import type { IPredictionMarket } from '../abi/PredictionMarket';
+import {
+    MarketData,
+    MarketStatus,
+    MarketOutcome,
+    UserPosition,
+    MarketMetadata,
+    CollateralToken,
+    FeeBalances,
+    MarketResolution,
+    DisputeConfig,
+    OracleCommittee,
+    OracleCommitteeParams,
+    MarketIndex,
+    MarketIdPage,
+    AdminConfig,
+    ResolutionAuthority,
+    OracleProfile,
+    OracleRegistryEntry,
+    OracleConfig,
+    AllowlistStatus,
+} from '../types';
+import {
+    getMarketTitle,
+    getMarketOutcomeLabels,
+    saveMarketQuestion,
+    computeMetadataHash,
+    verifyMarketQuestion,
+} from '../utils/marketQuestions';
+import {
+    computeProfileHash,
+    getVerifiedOracleProfile,
+    loadOracleProfiles,
+    saveOracleProfile,
+} from '../utils/oracleProfiles';
 
 function friendlyError(raw: string): string {
     if (raw.includes('Insufficient UTXOs') || raw.includes('No UTXOs found')) {
@@ -35,9 +65,114 @@ function friendlyError(raw: string): string {
     if (raw.includes('Market has not ended') || raw.includes('not ended')) {
         return 'This market has not ended yet. It can only be resolved after the end block is reached.';
     }
+    if (raw.includes('Dispute window has closed')) {
+        return 'The dispute window for this outcome has closed.';
+    }
+    if (raw.includes('Dispute window is still open')) {
+        return 'This outcome can only be finalized once the dispute window has closed.';
+    }
+    if (raw.includes('Dispute must propose a different outcome')) {
+        return 'A dispute has to back a different outcome than the one the oracle proposed.';
+    }
+    if (raw.includes('Slippage: output below minimum')) {
+        return 'The sale price moved past your slippage tolerance before the transaction ran. Refresh the quote and try again.';
+    }
+    if (raw.includes('Not enough shares to sell')) {
+        return 'You are trying to sell more than your stake on this outcome.';
+    }
+    if (raw.includes('Sale amount too small')) {
+        return 'This sale would return nothing. Sell fewer shares or wait for more liquidity on this outcome.';
+    }
+    if (raw.includes('Not enough shares to transfer')) {
+        return 'You are trying to transfer more than your stake on this outcome.';
+    }
+    if (raw.includes('Recipient has already claimed')) {
+        return 'The recipient has already claimed on this market, so they can no longer receive positions in it.';
+    }
+    if (raw.includes('Position has already been claimed')) {
+        return 'You have already claimed on this market, so your position can no longer be transferred.';
+    }
+    if (raw.includes('Cannot transfer a position to its holder')) {
+        return 'The recipient is the wallet that already holds this position.';
+    }
+    if (raw.includes('resolved by its oracle committee')) {
+        return 'This market is resolved by its oracle committee. Members vote on the outcome instead.';
+    }
+    if (raw.includes('Only committee members can vote')) {
+        return 'Only members of this market\'s oracle committee can vote.';
+    }
+    if (raw.includes('Already voted')) {
+        return 'You have already voted on this market. Votes cannot be changed.';
+    }
+    if (raw.includes('Oracle committees need between')) {
+        return 'An oracle committee needs between 2 and 10 members.';
+    }
+    if (raw.includes('Vote threshold must be')) {
+        return 'The vote threshold must be at least 1 and no more than the number of committee members.';
+    }
+    if (raw.includes('Committee members must be')) {
+        return 'Committee members must be distinct, non-empty addresses.';
+    }
+    if (raw.includes('Only the arbitrator')) {
+        return 'Only the arbitrator can rule on disputed markets.';
+    }
     if (raw.includes('Market is not open') || raw.includes('not open')) {
         return 'This market is no longer open for betting.';
     }
+    if (raw.includes('Only the oracle can cancel')) {
+        return 'Only the oracle can cancel this market until the grace period after the deadline has passed.';
+    }
+    if (raw.includes('Market is not cancelled')) {
+        return 'This market has not been cancelled, so there is nothing to refund.';
+    }
+    if (raw.includes('No stake to refund')) {
+        return 'You have no stake in this market to refund.';
+    }
+    if (raw.includes('Already claimed')) {
+        return 'You have already claimed from this market.';
+    }
+    if (raw.includes('No fees to withdraw')) {
+        return 'You have no accrued fees to withdraw.';
+    }
+    if (raw.includes('fee exceeds maximum')) {
+        return 'The fee is above the maximum of 10% of the losing pools.';
+    }
+    if (raw.includes('Betting is paused')) {
+        return 'Betting is paused by the contract owner. Try again once it resumes.';
+    }
+    if (raw.includes('Market creation is paused')) {
+        return 'Market creation is paused by the contract owner. Try again once it resumes.';
+    }
+    if (raw.includes('Bet below minimum')) {
+        return 'This bet is below the minimum bet size set by the contract owner.';
+    }
+    if (raw.includes('Maximum markets reached')) {
+        return 'The contract has reached its market cap. No new markets can be created until the owner raises it.';
+    }
+    if (raw.includes('Price target must be set before any bets')) {
+        return 'The price target can only be committed while the market has no bets.';
+    }
+    if (raw.includes('Price target already set')) {
+        return 'This market already has a price target committed on-chain.';
+    }
+    if (raw.includes('Invalid price signature')) {
+        return 'The price attestation signature does not match the signer.';
+    }
+    if (raw.includes('Market cap is below')) {
+        return 'The market cap cannot be lower than the number of markets that already exist.';
+    }
+    if (raw.includes('Only the pending owner')) {
+        return 'Only the wallet ownership was offered to can accept it.';
+    }
+    if (raw.includes('Only the owner')) {
+        return 'Only the contract owner can change this setting.';
+    }
+    if (raw.includes('Insufficient allowance')) {
+        return 'The market contract is not approved to spend enough of your collateral tokens. Approve the amount and wait for the approval to confirm before betting.';
+    }
+    if (raw.includes('Insufficient balance')) {
+        return 'Insufficient token balance. Your wallet does not hold enough of the collateral token for this bet.';
+    }
     if (raw.includes('Error in calling function:')) {
         const reason = raw.replace(/.*Error in calling function:\s*/i, '').replace(/\s*at\s+src\/.*$/i, '').trim();
         return `Contract error: ${reason}`;
@@ -72,6 +207,12 @@ function u256ToHex(value: unknown): string {
     }
 }
 
+/** Committee calldata for market creation: no members and a zero threshold keep a single oracle. */
+function committeeArgs(committee?: OracleCommitteeParams): [Address[], bigint] {
+    if (!committee || committee.members.length === 0) return [[], 0n];
+    return [committee.members.map(hexToAddress), BigInt(committee.threshold)];
+}
+
 function createProvider(network: typeof networks.bitcoin): JSONRpcProvider {
     const config = getNetworkConfig(network);
     const provider = new JSONRpcProvider({ url: config.rpcUrl, network });
@@ -102,23 +243,215 @@ function createProvider(network: typeof networks.bitcoin): JSONRpcProvider {
     return provider;
 }
 
+/** On-chain market fields shared by getMarket and the packed getMarkets records. */
+interface MarketFields {
+    creator: bigint;
+    closeBlock: bigint;
+    resolveAfterBlock: bigint;
+    oracle: bigint;
+    status: bigint;
+    outcome: bigint;
+    protocolFeeBps: bigint;
+    creatorFeeBps: bigint;
+    protocolFee: bigint;
+    creatorFee: bigint;
+    exitSpread: bigint;
+    contentHash: bigint;
+    /** Zero for every market but scalar ones. */
+    lowerBound: bigint;
+    upperBound: bigint;
+    /** Zero when the market has no fallback oracle. */
+    fallbackOracle: bigint;
+    timeoutBlock: bigint;
+    resolvedBy: number;
+    isPrivate: boolean;
+    /** Zero when the market has no Merkle allowlist. */
+    allowlistRoot: bigint;
+}
+
+/** Builds MarketData once the off-chain question has been checked against the on-chain hash. */
+async function toMarketData(
+    marketId: bigint,
+    fields: MarketFields,
+    outcomePools: bigint[],
+    committee: OracleCommittee | null,
+): Promise<MarketData> {
+    const questionVerified = await verifyMarketQuestion(marketId, fields.contentHash);
+    const outcomeCount = outcomePools.length;
+    const status = Number(fields.status) as MarketStatus;
+    // A scalar market's outcome slot holds the value it resolved at
+    const isScalar = fields.upperBound > 0n;
+    return {
+        id: marketId,
+        creator: u256ToHex(fields.creator),
+        closeBlock: fields.closeBlock,
+        resolveAfterBlock: fields.resolveAfterBlock,
+        oracle: u256ToHex(fields.oracle),
+        status,
+        outcome: isScalar ? MarketOutcome.NONE : Number(fields.outcome) as MarketOutcome,
+        yesPool: outcomePools[0] ?? 0n,
+        noPool: outcomePools[1] ?? 0n,
+        question: getMarketTitle(marketId),
+        outcomeCount,
+        outcomePools,
+        outcomeLabels: isScalar ? ['LONG', 'SHORT'] : getMarketOutcomeLabels(marketId, outcomeCount),
+        protocolFeeBps: Number(fields.protocolFeeBps),
+        creatorFeeBps: Number(fields.creatorFeeBps),
+        protocolFee: fields.protocolFee,
+        creatorFee: fields.creatorFee,
+        exitSpread: fields.exitSpread,
+        committee,
+        contentHash: u256ToHex(fields.contentHash),
+        questionVerified,
+        scalar: isScalar
+            ? {
+                lowerBound: fields.lowerBound,
+                upperBound: fields.upperBound,
+                value: status === MarketStatus.RESOLVED ? fields.outcome : null,
+            }
+            : null,
+        fallbackOracle: fields.fallbackOracle === 0n ? null : u256ToHex(fields.fallbackOracle),
+        resolutionTimeoutBlock: fields.timeoutBlock,
+        resolvedBy: fields.resolvedBy as ResolutionAuthority,
+        isPrivate: fields.isPrivate,
+        allowlistRoot: fields.allowlistRoot === 0n ? null : fields.allowlistRoot,
+    };
+}
+
+/** Decodes one packed getMarkets record (see PredictionMarket.getMarkets). */
+function readMarketRecord(reader: BinaryReader): { marketId: bigint; fields: MarketFields; committeeSize: bigint; outcomePools: bigint[] } {
+    const marketId = reader.readU256();
+    const creator = reader.readU256();
+    const closeBlock = reader.readU64();
+    const resolveAfterBlock = reader.readU64();
+    const oracle = reader.readU256();
+    const status = reader.readU256();
+    const outcome = reader.readU256();
+    const protocolFeeBps = reader.readU256();
+    const creatorFeeBps = reader.readU256();
+    const protocolFee = reader.readU256();
+    const creatorFee = reader.readU256();
+    const committeeSize = reader.readU256();
+    const exitSpread = reader.readU256();
+    const contentHash = reader.readU256();
+    const lowerBound = reader.readU256();
+    const upperBound = reader.readU256();
+    const fallbackOracle = reader.readU256();
+    const timeoutBlock = reader.readU64();
+    const resolvedBy = reader.readU8();
+    const isPrivate = reader.readBoolean();
+    const allowlistRoot = reader.readU256();
+    const outcomeCount = reader.readU16();
+    const outcomePools: bigint[] = [];
+    for (let i = 0; i < outcomeCount; i++) outcomePools.push(reader.readU256());
+    return {
+        marketId,
+        fields: {
+            creator,
+            closeBlock,
+            resolveAfterBlock,
+            oracle,
+            status,
+            outcome,
+            protocolFeeBps,
+            creatorFeeBps,
+            protocolFee,
+            creatorFee,
+            exitSpread,
+            contentHash,
+            lowerBound,
+            upperBound,
+            fallbackOracle,
+            timeoutBlock,
+            resolvedBy,
+            isPrivate,
+            allowlistRoot,
+        },
+        committeeSize,
+        outcomePools,
+    };
+}
+
+async function fetchCommittee(contract: IPredictionMarket, marketId: bigint): Promise<OracleCommittee> {
+    const votes = await contract.getOracleVotes(marketId);
+    if (votes.revert) throw new Error(`Failed to fetch oracle votes for market ${marketId}`);
+    return {
+        members: votes.properties.members.map((m) => m.toHex()),
+        threshold: Number(votes.properties.threshold),
+        votes: votes.properties.votes.map((v) => Number(v) as MarketOutcome),
+    };
+}
+
 function createContract(
     contractAddress: string,
     network: typeof networks.bitcoin,
     sender?: Address,
-): AnyContract {
+): IPredictionMarket {
+    const provider = createProvider(network);
+    return getContract<IPredictionMarket>(contractAddress, PREDICTION_MARKET_ABI, provider, network, sender);
+}
+
+/** Where a write's leftover sats are refunded: the connected wallet's address. */
+function refundAddress(walletAddress: string | null): string {
+    if (!walletAddress) throw new Error('Wallet not connected');
+    return walletAddress;
+}
+
+function createTokenContract(
+    tokenAddress: string | Address,
+    network: typeof networks.bitcoin,
+    sender?: Address,
+): IOP20Contract {
     const provider = createProvider(network);
-    const contract = getContract<BaseContractProperties>(
-        contractAddress,
-        PREDICTION_MARKET_ABI as BitcoinInterfaceAbi,
-        provider,
-        network,
-        sender,
-    ) as unknown as AnyContract;
-    return contract;
+    return getContract<IOP20Contract>(tokenAddress, OP_20_ABI, provider, network, sender);
+}
+
+/**
+ * Build a full Address with legacy public key so simulations know the real
+ * tx.sender (needed for oracle identity, bet ownership and token transfers).
+ */
+async function resolveWalletSender(): Promise<Address | undefined> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const opwallet = (window as any).opnet;
+    if (!opwallet) return undefined;
+    try {
+        const [pubKey, mldsaPubKey] = await Promise.all([
+            opwallet.getPublicKey() as Promise<string>,
+            opwallet.getMLDSAPublicKey() as Promise<string>,
+        ]);
+        if (mldsaPubKey && pubKey) {
+            return Address.fromString(mldsaPubKey, pubKey);
+        }
+    } catch {
+        // best-effort; proceed without sender
+    }
+    return undefined;
 }
 
-export type PendingTxType = 'createMarket' | 'placeBet' | 'resolveMarket' | 'claimWinnings' | 'unknown';
+/** Outcome of placeBet: either the bet was sent, or an allowance top-up was sent first. */
+export type PlaceBetResult = 'bet-submitted' | 'approval-submitted';
+
+/** Outcome of registerOracle: either the registration was sent, or an allowance top-up for the stake was sent first. */
+export type RegisterOracleResult = 'oracle-registered' | 'approval-submitted';
+
+/** Outcome of disputeOutcome: either the dispute was sent, or an allowance top-up for the bond was sent first. */
+export type DisputeResult = 'dispute-submitted' | 'approval-submitted';
+
+export type PendingTxType =
+    | 'createMarket'
+    | 'placeBet'
+    | 'sellPosition'
+    | 'transferPosition'
+    | 'resolveMarket'
+    | 'voteOutcome'
+    | 'claimWinnings'
+    | 'cancelMarket'
+    | 'claimRefund'
+    | 'withdrawFees'
+    | 'disputeOutcome'
+    | 'finalizeMarket'
+    | 'ruleDispute'
+    | 'unknown';
 
 export interface PendingTx {
     txId: string;
@@ -126,22 +459,46 @@ export interface PendingTx {
     firstSeen: Date;
     /** Decoded function name if recognized. */
     txType: PendingTxType;
-    /** Question string from createMarket calls. */
+    /** Question string from createMarket / createCategoricalMarket / createScalarMarket calls. */
     question?: string;
-    /** Market ID from placeBet / resolveMarket / claimWinnings calls. */
+    /** Market ID from placeBet / resolveMarket / voteOutcome / claimWinnings / cancelMarket / claimRefund / dispute calls. */
     marketId?: bigint;
-    /** Bet outcome from placeBet calls (1=YES, 2=NO). */
+    /** Bet outcome from placeBet / sellPosition / transferPosition calls (1=YES, 2=NO, or the 1-based categorical outcome). */
     betOutcome?: number;
-    /** Bet amount from placeBet calls. */
+    /** Bet amount from placeBet calls, shares moved by sellPosition / transferPosition calls. */
     betAmount?: bigint;
 }
 
+/** Most markets the contract packs into one getMarkets / getUserPositions response. */
+export const BATCH_SIZE = 50;
+
 /** Pre-compute function selectors (SHA256 first 4 bytes of canonical signature). */
 const abiCoder = new ABICoder();
-const SELECTOR_CREATE_MARKET = abiCoder.encodeSelector('createMarket(string,uint64,address)');
+const SELECTOR_CREATE_MARKET = abiCoder.encodeSelector(
+    'createMarket(string,uint64,uint64,address,address,uint256,address[],uint256,uint256,uint256,address[])',
+);
+const SELECTOR_CREATE_CATEGORICAL_MARKET = abiCoder.encodeSelector(
+    'createCategoricalMarket(string,uint64,uint64,address,address,uint256,address[],uint256,uint256,uint256,address[],string[])',
+);
+const SELECTOR_CREATE_SCALAR_MARKET = abiCoder.encodeSelector(
+    'createScalarMarket(string,uint64,uint64,address,address,uint256,uint256,uint256,address[],uint256,uint256)',
+);
 const SELECTOR_PLACE_BET = abiCoder.encodeSelector('placeBet(uint256,uint256,uint256)');
+const SELECTOR_SELL_POSITION = abiCoder.encodeSelector('sellPosition(uint256,uint256,uint256,uint256)');
+const SELECTOR_TRANSFER_POSITION = abiCoder.encodeSelector('transferPosition(uint256,uint256,address,uint256)');
 const SELECTOR_RESOLVE_MARKET = abiCoder.encodeSelector('resolveMarket(uint256,uint256)');
+const SELECTOR_RESOLVE_SCALAR_MARKET = abiCoder.encodeSelector('resolveScalarMarket(uint256,uint256)');
+const SELECTOR_RESOLVE_WITH_PRICE = abiCoder.encodeSelector(
+    'resolveWithPrice(uint256,uint256,uint64,extendedAddress,bytes)',
+);
+const SELECTOR_VOTE_OUTCOME = abiCoder.encodeSelector('voteOutcome(uint256,uint256)');
 const SELECTOR_CLAIM_WINNINGS = abiCoder.encodeSelector('claimWinnings(uint256)');
+const SELECTOR_CANCEL_MARKET = abiCoder.encodeSelector('cancelMarket(uint256)');
+const SELECTOR_CLAIM_REFUND = abiCoder.encodeSelector('claimRefund(uint256)');
+const SELECTOR_WITHDRAW_FEES = abiCoder.encodeSelector('withdrawFees()');
+const SELECTOR_DISPUTE_OUTCOME = abiCoder.encodeSelector('disputeOutcome(uint256,uint256)');
+const SELECTOR_FINALIZE_MARKET = abiCoder.encodeSelector('finalizeMarket(uint256)');
+const SELECTOR_RULE_DISPUTE = abiCoder.encodeSelector('ruleDispute(uint256,uint256)');
 
 function calldataSelector(calldata: Uint8Array): string {
     return Array.from(calldata.subarray(0, 4)).map((b) => b.toString(16).padStart(2, '0')).join('');
@@ -160,7 +517,12 @@ function decodePendingCalldata(calldata: Uint8Array): DecodedCalldata {
     const sel = calldataSelector(calldata);
     const params = calldata.subarray(4);
     try {
-        if (sel === SELECTOR_CREATE_MARKET) {
+        if (
+            sel === SELECTOR_CREATE_MARKET
+            || sel === SELECTOR_CREATE_CATEGORICAL_MARKET
+            || sel === SELECTOR_CREATE_SCALAR_MARKET
+        ) {
+            // Every creation call starts with the question, which is all we surface
             const decoded = abiCoder.decodeData(params, [ABIDataTypes.STRING, ABIDataTypes.UINT64, ABIDataTypes.ADDRESS]);
             return { txType: 'createMarket', question: decoded[0] as string };
         }
@@ -173,14 +535,64 @@ function decodePendingCalldata(calldata: Uint8Array): DecodedCalldata {
                 betAmount: decoded[2] as bigint,
             };
         }
-        if (sel === SELECTOR_RESOLVE_MARKET) {
-            const decoded = abiCoder.decodeData(params, [ABIDataTypes.UINT256, ABIDataTypes.UINT256]);
+        if (sel === SELECTOR_SELL_POSITION) {
+            const decoded = abiCoder.decodeData(params, [ABIDataTypes.UINT256, ABIDataTypes.UINT256, ABIDataTypes.UINT256]);
+            return {
+                txType: 'sellPosition',
+                marketId: decoded[0] as bigint,
+                betOutcome: Number(decoded[1] as bigint),
+                betAmount: decoded[2] as bigint,
+            };
+        }
+        if (sel === SELECTOR_TRANSFER_POSITION) {
+            const decoded = abiCoder.decodeData(params, [
+                ABIDataTypes.UINT256,
+                ABIDataTypes.UINT256,
+                ABIDataTypes.ADDRESS,
+                ABIDataTypes.UINT256,
+            ]);
+            return {
+                txType: 'transferPosition',
+                marketId: decoded[0] as bigint,
+                betOutcome: Number(decoded[1] as bigint),
+                betAmount: decoded[3] as bigint,
+            };
+        }
+        if (sel === SELECTOR_RESOLVE_MARKET || sel === SELECTOR_RESOLVE_SCALAR_MARKET || sel === SELECTOR_RESOLVE_WITH_PRICE) {
+            // All start with the market id; a price attestation still proposes an outcome
+            const decoded = abiCoder.decodeData(params, [ABIDataTypes.UINT256]);
             return { txType: 'resolveMarket', marketId: decoded[0] as bigint };
         }
+        if (sel === SELECTOR_VOTE_OUTCOME) {
+            const decoded = abiCoder.decodeData(params, [ABIDataTypes.UINT256, ABIDataTypes.UINT256]);
+            return { txType: 'voteOutcome', marketId: decoded[0] as bigint };
+        }
         if (sel === SELECTOR_CLAIM_WINNINGS) {
             const decoded = abiCoder.decodeData(params, [ABIDataTypes.UINT256]);
             return { txType: 'claimWinnings', marketId: decoded[0] as bigint };
         }
+        if (sel === SELECTOR_CANCEL_MARKET) {
+            const decoded = abiCoder.decodeData(params, [ABIDataTypes.UINT256]);
+            return { txType: 'cancelMarket', marketId: decoded[0] as bigint };
+        }
+        if (sel === SELECTOR_CLAIM_REFUND) {
+            const decoded = abiCoder.decodeData(params, [ABIDataTypes.UINT256]);
+            return { txType: 'claimRefund', marketId: decoded[0] as bigint };
+        }
+        if (sel === SELECTOR_WITHDRAW_FEES) {
+            return { txType: 'withdrawFees' };
+        }
+        if (sel === SELECTOR_DISPUTE_OUTCOME || sel === SELECTOR_RULE_DISPUTE) {
+            const decoded = abiCoder.decodeData(params, [ABIDataTypes.UINT256, ABIDataTypes.UINT256]);
+            return {
+                txType: sel === SELECTOR_DISPUTE_OUTCOME ? 'disputeOutcome' : 'ruleDispute',
+                marketId: decoded[0] as bigint,
+            };
+        }
+        if (sel === SELECTOR_FINALIZE_MARKET) {
+            const decoded = abiCoder.decodeData(params, [ABIDataTypes.UINT256]);
+            return { txType: 'finalizeMarket', marketId: decoded[0] as bigint };
+        }
     } catch {
         // decoding failed — return unknown
     }
@@ -192,14 +604,90 @@ export function usePredictionMarket(): {
     error: string | null;
     fetchMarketCount: () => Promise<bigint>;
     fetchMarket: (marketId: bigint) => Promise<MarketData>;
+    fetchMarkets: (offset: bigint, limit: bigint) => Promise<{ total: bigint; markets: MarketData[] }>;
     fetchUserPosition: (marketId: bigint) => Promise<UserPosition>;
+    fetchUserPositions: (marketIds: bigint[]) => Promise<Map<string, UserPosition>>;
     fetchCurrentBlock: () => Promise<bigint>;
     fetchCallerAddress: () => Promise<string>;
     fetchPendingTxs: () => Promise<PendingTx[]>;
-    createMarket: (question: string, endBlock: bigint, oracle: string, metadata?: MarketMetadata) => Promise<void>;
-    placeBet: (marketId: bigint, outcome: MarketOutcome, amount: bigint) => Promise<void>;
+    fetchCollateralToken: () => Promise<CollateralToken>;
+    fetchCancelGracePeriod: () => Promise<bigint>;
+    fetchFees: () => Promise<FeeBalances>;
+    fetchResolution: (marketId: bigint) => Promise<MarketResolution>;
+    fetchDisputeConfig: () => Promise<DisputeConfig>;
+    quoteSell: (marketId: bigint, outcome: MarketOutcome, shares: bigint) => Promise<bigint>;
+    fetchMarketIds: (index: MarketIndex, offset: bigint, limit: bigint) => Promise<MarketIdPage>;
+    fetchAdminConfig: () => Promise<AdminConfig>;
+    fetchPriceTarget: (marketId: bigint) => Promise<bigint>;
+    fetchOracles: () => Promise<OracleRegistryEntry[]>;
+    fetchOracleConfig: () => Promise<OracleConfig>;
+    createMarket: (
+        question: string,
+        closeInBlocks: bigint,
+        resolveInBlocks: bigint,
+        oracle: string,
+        fallbackOracle: string,
+        creatorFeeBps: number,
+        metadata?: MarketMetadata,
+        committee?: OracleCommitteeParams,
+        allowlistRoot?: bigint,
+    ) => Promise<void>;
+    createCategoricalMarket: (
+        question: string,
+        closeInBlocks: bigint,
+        resolveInBlocks: bigint,
+        oracle: string,
+        fallbackOracle: string,
+        creatorFeeBps: number,
+        outcomes: string[],
+        metadata?: MarketMetadata,
+        committee?: OracleCommitteeParams,
+        allowlistRoot?: bigint,
+    ) => Promise<void>;
+    createScalarMarket: (
+        question: string,
+        closeInBlocks: bigint,
+        resolveInBlocks: bigint,
+        oracle: string,
+        fallbackOracle: string,
+        creatorFeeBps: number,
+        lowerBound: bigint,
+        upperBound: bigint,
+        metadata?: MarketMetadata,
+        allowlistRoot?: bigint,
+    ) => Promise<void>;
+    placeBet: (marketId: bigint, outcome: MarketOutcome, amount: bigint) => Promise<PlaceBetResult>;
+    sellPosition: (marketId: bigint, outcome: MarketOutcome, shares: bigint, minOut: bigint) => Promise<void>;
+    transferPosition: (marketId: bigint, outcome: MarketOutcome, to: string, shares: bigint) => Promise<void>;
     resolveMarket: (marketId: bigint, outcome: MarketOutcome) => Promise<void>;
+    resolveScalarMarket: (marketId: bigint, value: bigint) => Promise<void>;
+    voteOutcome: (marketId: bigint, outcome: MarketOutcome) => Promise<void>;
+    /** Scalar markets take the disputed value in place of an outcome, as does ruleDispute. */
+    disputeOutcome: (marketId: bigint, outcome: MarketOutcome | bigint) => Promise<DisputeResult>;
+    finalizeMarket: (marketId: bigint) => Promise<void>;
+    ruleDispute: (marketId: bigint, outcome: MarketOutcome | bigint) => Promise<void>;
     claimWinnings: (marketId: bigint) => Promise<void>;
+    cancelMarket: (marketId: bigint) => Promise<void>;
+    claimRefund: (marketId: bigint) => Promise<void>;
+    withdrawFees: () => Promise<void>;
+    setProtocolFee: (feeBps: number) => Promise<void>;
+    setPaused: (bettingPaused: boolean, creationPaused: boolean) => Promise<void>;
+    transferOwnership: (newOwner: string) => Promise<void>;
+    acceptOwnership: () => Promise<void>;
+    setMaxMarkets: (maxMarkets: bigint) => Promise<void>;
+    setMinBet: (minBet: bigint) => Promise<void>;
+    setPriceTarget: (marketId: bigint, targetPrice: bigint) => Promise<void>;
+    /** Registers the connected wallet as an oracle, or updates its profile and adds `stake`. */
+    registerOracle: (stake: bigint, profile: OracleProfile) => Promise<RegisterOracleResult>;
+    unstakeOracle: (amount: bigint) => Promise<void>;
+    withdrawOracleStake: () => Promise<void>;
+    slashOracle: (oracle: string, amount: bigint) => Promise<void>;
+    setMinOracleStake: (minStake: bigint) => Promise<void>;
+    /** Checks the connected wallet against a market's allowlist, and `proof` if one is given. */
+    fetchAllowlistStatus: (marketId: bigint, proof?: bigint[]) => Promise<AllowlistStatus>;
+    joinMarket: (marketId: bigint, proof: bigint[]) => Promise<void>;
+    setAllowlistRoot: (marketId: bigint, root: bigint) => Promise<void>;
+    setAllowlistMembers: (marketId: bigint, members: string[], allowed: boolean) => Promise<void>;
 } {
     const { network } = useNetwork();
     const { address, walletAddress } = useWalletConnect();
@@ -214,7 +702,7 @@ export function usePredictionMarket(): {
         const contract = createContract(contractAddress, network);
         const result = await contract.getMarketCountView();
         if (result.revert) throw new Error('Failed to fetch market count');
-        return result.properties.count as bigint;
+        return result.properties.count;
     }, [network, contractAddress]);
 
     const fetchMarket = useCallback(async (marketId: bigint): Promise<MarketData> => {
@@ -222,38 +710,92 @@ export function usePredictionMarket(): {
         const result = await contract.getMarket(marketId);
         if (result.revert) throw new Error(`Failed to fetch market ${marketId}`);
 
-        const props = result.properties;
-        return {
-            id: marketId,
-            creator: u256ToHex(props.creator),
-            endBlock: props.endBlock as bigint,
-            oracle: u256ToHex(props.oracle),
-            status: Number(props.status) as MarketStatus,
-            outcome: Number(props.outcome) as MarketOutcome,
-            yesPool: props.yesPool as bigint,
-            noPool: props.noPool as bigint,
-            question: getMarketTitle(marketId),
+        const props = result.properties as MarketFields & {
+            yesPool: bigint;
+            noPool: bigint;
+            outcomeCount: bigint;
+            committeeSize: bigint;
         };
+        let outcomePools = [props.yesPool, props.noPool];
+        if (Number(props.outcomeCount) > 2) {
+            const pools = await contract.getOutcomePools(marketId);
+            if (pools.revert) throw new Error(`Failed to fetch outcome pools for market ${marketId}`);
+            outcomePools = pools.properties.pools;
+        }
+
+        const committee = props.committeeSize > 0n ? await fetchCommittee(contract, marketId) : null;
+        return toMarketData(marketId, props, outcomePools, committee);
+    }, [network, contractAddress]);
+
+    /**
+     * A page of markets by id, offset 0 being market 1, in one packed call.
+     * Only committee markets need a follow-up call for their votes.
+     */
+    const fetchMarkets = useCallback(async (
+        offset: bigint,
+        limit: bigint,
+    ): Promise<{ total: bigint; markets: MarketData[] }> => {
+        const contract = createContract(contractAddress, network);
+        const result = await contract.getMarkets(offset, limit);
+        if (result.revert) throw new Error('Failed to fetch markets');
+
+        const { total, records } = result.properties;
+        const reader = new BinaryReader(records);
+        const markets: MarketData[] = [];
+        const remaining = total > offset ? total - offset : 0n;
+        const count = Math.min(Number(remaining), Number(limit), BATCH_SIZE);
+        for (let i = 0; i < count; i++) {
+            const record = readMarketRecord(reader);
+            const committee = record.committeeSize > 0n ? await fetchCommittee(contract, record.marketId) : null;
+            markets.push(await toMarketData(record.marketId, record.fields, record.outcomePools, committee));
+        }
+        return { total, markets };
     }, [network, contractAddress]);
 
     const fetchUserPosition = useCallback(async (marketId: bigint): Promise<UserPosition> => {
         if (!address) throw new Error('Wallet not connected');
         const contract = createContract(contractAddress, network);
         const userAddr = hexToAddress(String(address));
-        const result = await contract.getUserPosition(marketId, userAddr);
+        // getUserStakes covers binary markets too (stakes = [yes, no])
+        const result = await contract.getUserStakes(marketId, userAddr);
         if (result.revert) throw new Error('Failed to fetch user position');
 
+        const { stakes, claimed } = result.properties;
         return {
-            yesBet: result.properties.yesBet as bigint,
-            noBet: result.properties.noBet as bigint,
-            claimed: result.properties.claimed as boolean,
+            yesBet: stakes[0] ?? 0n,
+            noBet: stakes[1] ?? 0n,
+            stakes,
+            claimed,
         };
     }, [network, address, contractAddress]);
 
+    /** The connected wallet's positions in several markets at once, keyed by market id. */
+    const fetchUserPositions = useCallback(async (marketIds: bigint[]): Promise<Map<string, UserPosition>> => {
+        if (!address) throw new Error('Wallet not connected');
+        const contract = createContract(contractAddress, network);
+        const userAddr = hexToAddress(String(address));
+        const positions = new Map<string, UserPosition>();
+
+        for (let i = 0; i < marketIds.length; i += BATCH_SIZE) {
+            const batch = marketIds.slice(i, i + BATCH_SIZE);
+            const result = await contract.getUserPositions(userAddr, batch);
+            if (result.revert) throw new Error('Failed to fetch user positions');
+
+            const reader = new BinaryReader(result.properties.records);
+            for (const marketId of batch) {
+                const count = reader.readU16();
+                const stakes: bigint[] = [];
+                for (let o = 0; o < count; o++) stakes.push(reader.readU256());
+                const claimed = reader.readBoolean();
+                positions.set(marketId.toString(), { yesBet: stakes[0] ?? 0n, noBet: stakes[1] ?? 0n, stakes, claimed });
+            }
+        }
+        return positions;
+    }, [network, address, contractAddress]);
+
     const fetchCurrentBlock = useCallback(async (): Promise<bigint> => {
         const provider = createProvider(network);
-        const blockNumber = await provider.getBlockNumber();
-        return BigInt(blockNumber);
+        return provider.getBlockNumber();
     }, [network]);
 
     /** Returns the connected wallet's tx.sender address as a hex string (0x-prefixed). */
@@ -291,11 +833,257 @@ export function usePredictionMarket(): {
         }
     }, [network, contractAddress]);
 
+    /** Resolve the OP20 token the contract escrows bets in, with its display metadata. */
+    const fetchCollateralToken = useCallback(async (): Promise<CollateralToken> => {
+        const contract = createContract(contractAddress, network);
+        const result = await contract.getCollateralTokenView();
+        if (result.revert) throw new Error('Failed to fetch collateral token');
+        const tokenHex = u256ToHex(result.properties.token);
+
+        const token = createTokenContract(hexToAddress(tokenHex), network);
+        const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+        return {
+            address: tokenHex,
+            symbol: symbol.properties.symbol,
+            decimals: decimals.properties.decimals,
+        };
+    }, [network, contractAddress]);
+
+    /** Save question (and outcome labels) to Supabase for display. */
+    const saveCreatedMarket = useCallback(async (
+        marketId: bigint | undefined,
+        question: string,
+        metadata?: MarketMetadata,
+        outcomes?: string[],
+    ): Promise<void> => {
+        if (marketId) {
+            void saveMarketQuestion(marketId, question, metadata, outcomes);
+            return;
+        }
+        // Fallback: save for next market count
+        try {
+            const count = await fetchMarketCount();
+            void saveMarketQuestion(count, question, metadata, outcomes);
+        } catch {
+            // best-effort
+        }
+    }, [fetchMarketCount]);
+
+    /** Blocks past a market's resolveAfterBlock after which anyone may cancel it. */
+    const fetchCancelGracePeriod = useCallback(async (): Promise<bigint> => {
+        const contract = createContract(contractAddress, network);
+        const result = await contract.getCancelGracePeriodView();
+        if (result.revert) throw new Error('Failed to fetch cancel grace period');
+        return result.properties.blocks;
+    }, [network, contractAddress]);
+
+    /** Current protocol fee rate plus the fees withdrawable by the connected wallet. */
+    const fetchFees = useCallback(async (): Promise<FeeBalances> => {
+        const contract = createContract(contractAddress, network);
+        const account = address ? hexToAddress(String(address)) : Address.wrap(new Uint8Array(32));
+        const result = await contract.getFees(account);
+        if (result.revert) throw new Error('Failed to fetch fees');
+
+        const { protocolFeeBps, protocolFees, creatorFees } = result.properties;
+        return {
+            protocolFeeBps: Number(protocolFeeBps),
+            protocolFees,
+            creatorFees,
+        };
+    }, [network, address, contractAddress]);
+
+    /** Proposal and dispute state for a market's optimistic resolution. */
+    const fetchResolution = useCallback(async (marketId: bigint): Promise<MarketResolution> => {
+        const contract = createContract(contractAddress, network);
+        const result = await contract.getResolution(marketId);
+        if (result.revert) throw new Error(`Failed to fetch resolution for market ${marketId}`);
+
+        const props = result.properties;
+        return {
+            proposedOutcome: Number(props.proposedOutcome) as MarketOutcome,
+            proposedValue: props.proposedOutcome,
+            proposedAtBlock: props.proposedAtBlock,
+            disputeEndBlock: props.disputeEndBlock,
+            disputer: props.disputer === 0n ? '' : u256ToHex(props.disputer),
+            disputedOutcome: Number(props.disputedOutcome) as MarketOutcome,
+            disputedValue: props.disputedOutcome,
+            bond: props.bond,
+        };
+    }, [network, contractAddress]);
+
+    const fetchDisputeConfig = useCallback(async (): Promise<DisputeConfig> => {
+        const contract = createContract(contractAddress, network);
+        const result = await contract.getDisputeConfigView();
+        if (result.revert) throw new Error('Failed to fetch dispute config');
+
+        const { windowBlocks, bond, arbitrator } = result.properties;
+        return { windowBlocks, bond, arbitrator: u256ToHex(arbitrator) };
+    }, [network, contractAddress]);
+
+    /** Owner, pending owner, pause flags and market limits. */
+    const fetchAdminConfig = useCallback(async (): Promise<AdminConfig> => {
+        const contract = createContract(contractAddress, network);
+        const result = await contract.getAdminConfigView();
+        if (result.revert) throw new Error('Failed to fetch admin config');
+
+        const props = result.properties;
+        return {
+            owner: u256ToHex(props.owner),
+            pendingOwner: props.pendingOwner === 0n ? '' : u256ToHex(props.pendingOwner),
+            bettingPaused: props.bettingPaused,
+            creationPaused: props.creationPaused,
+            maxMarkets: props.maxMarkets,
+            minBet: props.minBet,
+        };
+    }, [network, contractAddress]);
+
+    /** Fixed-point price target (see utils/prices), 0 when none is committed. */
+    const fetchPriceTarget = useCallback(async (marketId: bigint): Promise<bigint> => {
+        const contract = createContract(contractAddress, network);
+        const result = await contract.getPriceTarget(marketId);
+        if (result.revert) throw new Error('Failed to fetch price target');
+        return result.properties.targetPrice;
+    }, [network, contractAddress]);
+
+    /** Every registered oracle in registration order, with its verified off-chain profile. */
+    const fetchOracles = useCallback(async (): Promise<OracleRegistryEntry[]> => {
+        const contract = createContract(contractAddress, network);
+        await loadOracleProfiles();
+
+        const oracles: OracleRegistryEntry[] = [];
+        let total = 1n;
+        for (let offset = 0n; offset < total; offset += BigInt(BATCH_SIZE)) {
+            const result = await contract.getOracles(offset, BigInt(BATCH_SIZE));
+            if (result.revert) throw new Error('Failed to fetch oracles');
+
+            total = result.properties.total;
+            const reader = new BinaryReader(result.properties.records);
+            const count = Math.min(Number(total - offset), BATCH_SIZE);
+            for (let i = 0; i < count; i++) {
+                const oracle = u256ToHex(reader.readU256());
+                const stake = reader.readU256();
+                const unstaking = reader.readU256();
+                const unlockBlock = reader.readU64();
+                const slashed = reader.readU256();
+                const profileHash = reader.readU256();
+                const registeredAt = reader.readU64();
+                const marketCount = reader.readU256();
+                oracles.push({
+                    address: oracle,
+                    stake,
+                    unstaking,
+                    unlockBlock,
+                    slashed,
+                    profileHash: u256ToHex(profileHash),
+                    profile: await getVerifiedOracleProfile(oracle, profileHash),
+                    registeredAt,
+                    marketCount,
+                });
+            }
+        }
+        return oracles;
+    }, [network, contractAddress]);
+
+    const fetchOracleConfig = useCallback(async (): Promise<OracleConfig> => {
+        const contract = createContract(contractAddress, network);
+        const result = await contract.getOracleConfigView();
+        if (result.revert) throw new Error('Failed to fetch oracle config');
+
+        const props = result.properties;
+        return {
+            minStake: props.minStake,
+            unbondingBlocks: props.unbondingBlocks,
+            disputeSlashBps: Number(props.disputeSlashBps),
+        };
+    }, [network, contractAddress]);
+
+    const fetchAllowlistStatus = useCallback(async (marketId: bigint, proof: bigint[] = []): Promise<AllowlistStatus> => {
+        if (!address) throw new Error('Wallet not connected');
+        const contract = createContract(contractAddress, network);
+        const result = await contract.isAllowlisted(marketId, hexToAddress(String(address)), proof);
+        if (result.revert) throw new Error('Failed to check the market allowlist');
+
+        const { isPrivate, member, proofValid } = result.properties;
+        return { isPrivate, member, proofValid };
+    }, [network, address, contractAddress]);
+
+    /** One page of the markets the connected wallet created, resolves, or holds a position in. */
+    const fetchMarketIds = useCallback(async (
+        index: MarketIndex,
+        offset: bigint,
+        limit: bigint,
+    ): Promise<MarketIdPage> => {
+        if (!address) throw new Error('Wallet not connected');
+        const contract = createContract(contractAddress, network);
+        const account = hexToAddress(String(address));
+        const call = index === 'creator'
+            ? contract.getMarketsByCreator(account, offset, limit)
+            : index === 'oracle'
+                ? contract.getMarketsByOracle(account, offset, limit)
+                : contract.getMarketsByBettor(account, offset, limit);
+        const result = await call;
+        if (result.revert) throw new Error(`Failed to fetch ${index} markets`);
+
+        return { total: result.properties.total, marketIds: result.properties.marketIds };
+    }, [network, address, contractAddress]);
+
+    /** Collateral returned for selling `shares` of stake on an outcome right now. */
+    const quoteSell = useCallback(async (
+        marketId: bigint,
+        outcome: MarketOutcome,
+        shares: bigint,
+    ): Promise<bigint> => {
+        const contract = createContract(contractAddress, network);
+        const result = await contract.quoteSell(marketId, BigInt(outcome), shares);
+        if (result.revert) throw new Error('Failed to fetch sell quote');
+        return result.properties.amountOut;
+    }, [network, contractAddress]);
+
+    /**
+     * Make sure the market contract may pull `amount` of collateral from the
+     * connected wallet. Returns true if an allowance top-up had to be sent,
+     * in which case the caller must wait for it to confirm.
+     */
+    const ensureCollateralAllowance = useCallback(async (
+        amount: bigint,
+        sender: Address | undefined,
+    ): Promise<boolean> => {
+        if (!address) throw new Error('Wallet not connected');
+        const provider = createProvider(network);
+
+        const collateral = await fetchCollateralToken();
+        const token = createTokenContract(hexToAddress(collateral.address), network, sender);
+        const spender = await provider.getPublicKeyInfo(contractAddress, true);
+        const owner = hexToAddress(String(address));
+        const allowance = await token.allowance(owner, spender);
+        if (allowance.revert) throw new Error(`Allowance check failed: ${allowance.revert}`);
+
+        const remaining = allowance.properties.remaining;
+        if (remaining >= amount) return false;
+
+        const approveSim = await token.increaseAllowance(spender, amount - remaining);
+        if (approveSim.revert) throw new Error(`Approve failed: ${approveSim.revert}`);
+
+        await approveSim.sendTransaction({
+            signer: null,
+            mldsaSigner: null,
+            refundTo: refundAddress(walletAddress),
+            maximumAllowedSatToSpend: 50000n,
+            network,
+        });
+        return true;
+    }, [network, address, walletAddress, contractAddress, fetchCollateralToken]);
+
     const createMarket = useCallback(async (
         question: string,
-        blocksFromNow: bigint,
+        closeInBlocks: bigint,
+        resolveInBlocks: bigint,
         oracle: string,
+        fallbackOracle: string,
+        creatorFeeBps: number,
         metadata?: MarketMetadata,
+        committee?: OracleCommitteeParams,
+        allowlistRoot?: bigint,
     ): Promise<void> => {
         setLoading(true);
         setError(null);
@@ -303,35 +1091,37 @@ export function usePredictionMarket(): {
             if (!address) throw new Error('Wallet not connected');
             const provider = createProvider(network);
             const currentBlock = await provider.getBlockNumber();
-            const endBlock = BigInt(currentBlock) + blocksFromNow;
+            const closeBlock = currentBlock + closeInBlocks;
+            const resolveAfterBlock = currentBlock + resolveInBlocks;
 
             const contract = createContract(contractAddress, network);
             // Empty oracle → send zero address so contract uses tx.sender
             const oracleAddr = oracle ? hexToAddress(oracle) : Address.wrap(new Uint8Array(32));
-            const sim = await contract.createMarket(question, endBlock, oracleAddr);
-            if (sim.revert) throw new Error(`Create market failed: ${String(sim.revert)}`);
+            // Empty fallback → zero address, leaving only the owner once the timeout passes
+            const fallbackAddr = fallbackOracle ? hexToAddress(fallbackOracle) : Address.wrap(new Uint8Array(32));
+            const sim = await contract.createMarket(
+                question,
+                closeBlock,
+                resolveAfterBlock,
+                oracleAddr,
+                fallbackAddr,
+                BigInt(creatorFeeBps),
+                ...committeeArgs(committee),
+                await computeMetadataHash(metadata),
+                allowlistRoot ?? 0n,
+                [],
+            );
+            if (sim.revert) throw new Error(`Create market failed: ${sim.revert}`);
 
             await sim.sendTransaction({
                 signer: null,
                 mldsaSigner: null,
-                refundTo: walletAddress!,
+                refundTo: refundAddress(walletAddress),
                 maximumAllowedSatToSpend: 50000n,
                 network,
             });
 
-            // Save question to Supabase for display
-            const marketId = sim.properties?.marketId as bigint | undefined;
-            if (marketId) {
-                void saveMarketQuestion(marketId, question, metadata);
-            } else {
-                // Fallback: save for next market count
-                try {
-                    const count = await fetchMarketCount();
-                    void saveMarketQuestion(count, question, metadata);
-                } catch {
-                    // best-effort
-                }
-            }
+            await saveCreatedMarket(sim.properties?.marketId as bigint | undefined, question, metadata);
         } catch (err) {
             const msg = err instanceof Error ? err.message : 'Unknown error';
             setError(friendlyError(msg));
@@ -339,28 +1129,57 @@ export function usePredictionMarket(): {
         } finally {
             setLoading(false);
         }
-    }, [network, address, contractAddress]);
+    }, [network, address, walletAddress, contractAddress, saveCreatedMarket]);
 
-    const placeBet = useCallback(async (
-        marketId: bigint,
-        outcome: MarketOutcome,
-        amount: bigint,
+    const createCategoricalMarket = useCallback(async (
+        question: string,
+        closeInBlocks: bigint,
+        resolveInBlocks: bigint,
+        oracle: string,
+        fallbackOracle: string,
+        creatorFeeBps: number,
+        outcomes: string[],
+        metadata?: MarketMetadata,
+        committee?: OracleCommitteeParams,
+        allowlistRoot?: bigint,
     ): Promise<void> => {
         setLoading(true);
         setError(null);
         try {
             if (!address) throw new Error('Wallet not connected');
+            const provider = createProvider(network);
+            const currentBlock = await provider.getBlockNumber();
+            const closeBlock = currentBlock + closeInBlocks;
+            const resolveAfterBlock = currentBlock + resolveInBlocks;
+
             const contract = createContract(contractAddress, network);
-            const sim = await contract.placeBet(marketId, BigInt(outcome), amount);
-            if (sim.revert) throw new Error(`Place bet failed: ${String(sim.revert)}`);
+            const oracleAddr = oracle ? hexToAddress(oracle) : Address.wrap(new Uint8Array(32));
+            const fallbackAddr = fallbackOracle ? hexToAddress(fallbackOracle) : Address.wrap(new Uint8Array(32));
+            const sim = await contract.createCategoricalMarket(
+                question,
+                closeBlock,
+                resolveAfterBlock,
+                oracleAddr,
+                fallbackAddr,
+                BigInt(creatorFeeBps),
+                ...committeeArgs(committee),
+                await computeMetadataHash(metadata),
+                allowlistRoot ?? 0n,
+                [],
+                outcomes,
+            );
+            if (sim.revert) throw new Error(`Create market failed: ${sim.revert}`);
 
             await sim.sendTransaction({
                 signer: null,
                 mldsaSigner: null,
-                refundTo: walletAddress!,
+                refundTo: refundAddress(walletAddress),
                 maximumAllowedSatToSpend: 50000n,
                 network,
             });
+
+            // Outcome labels are stored off-chain alongside the question
+            await saveCreatedMarket(sim.properties?.marketId as bigint | undefined, question, metadata, outcomes);
         } catch (err) {
             const msg = err instanceof Error ? err.message : 'Unknown error';
             setError(friendlyError(msg));
@@ -368,47 +1187,57 @@ export function usePredictionMarket(): {
         } finally {
             setLoading(false);
         }
-    }, [network, address, contractAddress]);
+    }, [network, address, walletAddress, contractAddress, saveCreatedMarket]);
 
-    const resolveMarket = useCallback(async (
-        marketId: bigint,
-        outcome: MarketOutcome,
+    /** Scalar market on a price between two bounds (8-decimal fixed point); the oracle later resolves with the price itself. */
+    const createScalarMarket = useCallback(async (
+        question: string,
+        closeInBlocks: bigint,
+        resolveInBlocks: bigint,
+        oracle: string,
+        fallbackOracle: string,
+        creatorFeeBps: number,
+        lowerBound: bigint,
+        upperBound: bigint,
+        metadata?: MarketMetadata,
+        allowlistRoot?: bigint,
     ): Promise<void> => {
         setLoading(true);
         setError(null);
         try {
             if (!address) throw new Error('Wallet not connected');
+            const provider = createProvider(network);
+            const currentBlock = await provider.getBlockNumber();
+            const closeBlock = currentBlock + closeInBlocks;
+            const resolveAfterBlock = currentBlock + resolveInBlocks;
 
-            // Build a full Address with legacy public key so the simulation
-            // knows the real tx.sender (needed for oracle identity check).
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const opwallet = (window as any).opnet;
-            let sender: Address | undefined;
-            if (opwallet) {
-                try {
-                    const [pubKey, mldsaPubKey] = await Promise.all([
-                        opwallet.getPublicKey() as Promise<string>,
-                        opwallet.getMLDSAPublicKey() as Promise<string>,
-                    ]);
-                    if (mldsaPubKey && pubKey) {
-                        sender = Address.fromString(mldsaPubKey, pubKey);
-                    }
-                } catch {
-                    // best-effort; proceed without sender
-                }
-            }
-
-            const contract = createContract(contractAddress, network, sender);
-            const sim = await contract.resolveMarket(marketId, BigInt(outcome));
-            if (sim.revert) throw new Error(`Resolve market failed: ${String(sim.revert)}`);
+            const contract = createContract(contractAddress, network);
+            const oracleAddr = oracle ? hexToAddress(oracle) : Address.wrap(new Uint8Array(32));
+            const fallbackAddr = fallbackOracle ? hexToAddress(fallbackOracle) : Address.wrap(new Uint8Array(32));
+            const sim = await contract.createScalarMarket(
+                question,
+                closeBlock,
+                resolveAfterBlock,
+                oracleAddr,
+                fallbackAddr,
+                BigInt(creatorFeeBps),
+                await computeMetadataHash(metadata),
+                allowlistRoot ?? 0n,
+                [],
+                lowerBound,
+                upperBound,
+            );
+            if (sim.revert) throw new Error(`Create market failed: ${sim.revert}`);
 
             await sim.sendTransaction({
                 signer: null,
                 mldsaSigner: null,
-                refundTo: walletAddress!,
+                refundTo: refundAddress(walletAddress),
                 maximumAllowedSatToSpend: 50000n,
                 network,
             });
+
+            await saveCreatedMarket(sim.properties?.marketId as bigint | undefined, question, metadata);
         } catch (err) {
             const msg = err instanceof Error ? err.message : 'Unknown error';
             setError(friendlyError(msg));
@@ -416,41 +1245,323 @@ export function usePredictionMarket(): {
         } finally {
             setLoading(false);
         }
-    }, [network, address, contractAddress]);
+    }, [network, address, walletAddress, contractAddress, saveCreatedMarket]);
 
-    const claimWinnings = useCallback(async (marketId: bigint): Promise<void> => {
+    const placeBet = useCallback(async (
+        marketId: bigint,
+        outcome: MarketOutcome,
+        amount: bigint,
+    ): Promise<PlaceBetResult> => {
         setLoading(true);
         setError(null);
         try {
             if (!address) throw new Error('Wallet not connected');
+            const sender = await resolveWalletSender();
 
-            // Build a full Address with legacy public key so the simulation
-            // knows the real tx.sender (needed for bet ownership check).
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const opwallet = (window as any).opnet;
-            let sender: Address | undefined;
-            if (opwallet) {
-                try {
-                    const [pubKey, mldsaPubKey] = await Promise.all([
-                        opwallet.getPublicKey() as Promise<string>,
-                        opwallet.getMLDSAPublicKey() as Promise<string>,
-                    ]);
-                    if (mldsaPubKey && pubKey) {
-                        sender = Address.fromString(mldsaPubKey, pubKey);
-                    }
-                } catch {
-                    // best-effort; proceed without sender
-                }
+            // The contract pulls the stake with transferFrom. The bet
+            // simulation would revert until an approval top-up is mined.
+            if (await ensureCollateralAllowance(amount, sender)) {
+                return 'approval-submitted';
             }
 
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.placeBet(marketId, BigInt(outcome), amount);
+            if (sim.revert) throw new Error(`Place bet failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+            return 'bet-submitted';
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress, ensureCollateralAllowance]);
+
+    /** Sell stake back before the deadline. Reverts if the payout would come in under `minOut`. */
+    const sellPosition = useCallback(async (
+        marketId: bigint,
+        outcome: MarketOutcome,
+        shares: bigint,
+        minOut: bigint,
+    ): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.sellPosition(marketId, BigInt(outcome), shares, minOut);
+            if (sim.revert) throw new Error(`Sell failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    /** Move stake on one outcome to another wallet, which then holds the claim on it. */
+    const transferPosition = useCallback(async (
+        marketId: bigint,
+        outcome: MarketOutcome,
+        to: string,
+        shares: bigint,
+    ): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.transferPosition(marketId, BigInt(outcome), hexToAddress(to), shares);
+            if (sim.revert) throw new Error(`Transfer failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    const resolveMarket = useCallback(async (
+        marketId: bigint,
+        outcome: MarketOutcome,
+    ): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.resolveMarket(marketId, BigInt(outcome));
+            if (sim.revert) throw new Error(`Resolve market failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    /** Oracle only: propose the value a scalar market resolves at. The contract clamps it to the bounds. */
+    const resolveScalarMarket = useCallback(async (
+        marketId: bigint,
+        value: bigint,
+    ): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.resolveScalarMarket(marketId, value);
+            if (sim.revert) throw new Error(`Resolve market failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    /** Committee members only: cast this wallet's vote. M matching votes propose the outcome. */
+    const voteOutcome = useCallback(async (
+        marketId: bigint,
+        outcome: MarketOutcome,
+    ): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.voteOutcome(marketId, BigInt(outcome));
+            if (sim.revert) throw new Error(`Vote failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    /** Challenge the oracle's proposed outcome, posting the dispute bond in collateral. */
+    const disputeOutcome = useCallback(async (
+        marketId: bigint,
+        outcome: MarketOutcome | bigint,
+    ): Promise<DisputeResult> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+            const sender = await resolveWalletSender();
+
+            const { bond } = await fetchDisputeConfig();
+            if (await ensureCollateralAllowance(bond, sender)) {
+                return 'approval-submitted';
+            }
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.disputeOutcome(marketId, BigInt(outcome));
+            if (sim.revert) throw new Error(`Dispute failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+            return 'dispute-submitted';
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress, fetchDisputeConfig, ensureCollateralAllowance]);
+
+    /** Anyone can finalize an unchallenged proposal once the dispute window has closed. */
+    const finalizeMarket = useCallback(async (marketId: bigint): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.finalizeMarket(marketId);
+            if (sim.revert) throw new Error(`Finalize failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    /** Arbitrator only: settle a disputed market on the given outcome. */
+    const ruleDispute = useCallback(async (
+        marketId: bigint,
+        outcome: MarketOutcome | bigint,
+    ): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.ruleDispute(marketId, BigInt(outcome));
+            if (sim.revert) throw new Error(`Ruling failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    const claimWinnings = useCallback(async (marketId: bigint): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
             const contract = createContract(contractAddress, network, sender);
             const sim = await contract.claimWinnings(marketId);
-            if (sim.revert) throw new Error(`Claim failed: ${String(sim.revert)}`);
+            if (sim.revert) throw new Error(`Claim failed: ${sim.revert}`);
 
             await sim.sendTransaction({
                 signer: null,
                 mldsaSigner: null,
-                refundTo: walletAddress!,
+                refundTo: refundAddress(walletAddress),
                 maximumAllowedSatToSpend: 50000n,
                 network,
             });
@@ -461,20 +1572,584 @@ export function usePredictionMarket(): {
         } finally {
             setLoading(false);
         }
-    }, [network, address, contractAddress]);
+    }, [network, address, walletAddress, contractAddress]);
+
+    const cancelMarket = useCallback(async (marketId: bigint): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.cancelMarket(marketId);
+            if (sim.revert) throw new Error(`Cancel failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    const claimRefund = useCallback(async (marketId: bigint): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.claimRefund(marketId);
+            if (sim.revert) throw new Error(`Refund failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    const withdrawFees = useCallback(async (): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.withdrawFees();
+            if (sim.revert) throw new Error(`Withdraw failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    /** Owner only: protocol fee for markets created from now on, in basis points. */
+    const setProtocolFee = useCallback(async (feeBps: number): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.setProtocolFee(BigInt(feeBps));
+            if (sim.revert) throw new Error(`Set protocol fee failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    /** Owner only: pause or resume bet placement and market creation independently. */
+    const setPaused = useCallback(async (bettingPaused: boolean, creationPaused: boolean): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.setPaused(bettingPaused, creationPaused);
+            if (sim.revert) throw new Error(`Set paused failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    /** Owner only: offer ownership to `newOwner`, who has to accept it. An empty address cancels the offer. */
+    const transferOwnership = useCallback(async (newOwner: string): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.transferOwnership(newOwner ? hexToAddress(newOwner) : Address.wrap(new Uint8Array(32)));
+            if (sim.revert) throw new Error(`Transfer ownership failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    /** Pending owner only: take over ownership offered with transferOwnership. */
+    const acceptOwnership = useCallback(async (): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.acceptOwnership();
+            if (sim.revert) throw new Error(`Accept ownership failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    /** Owner only: cap on the total number of markets; cannot go below the current count. */
+    const setMaxMarkets = useCallback(async (maxMarkets: bigint): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.setMaxMarkets(maxMarkets);
+            if (sim.revert) throw new Error(`Set market cap failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    /** Owner only: smallest accepted bet, 0 to remove the minimum. */
+    const setMinBet = useCallback(async (minBet: bigint): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.setMinBet(minBet);
+            if (sim.revert) throw new Error(`Set minimum bet failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    /** Creator only, before any bets: lets approved price signers resolve the market. */
+    const setPriceTarget = useCallback(async (marketId: bigint, targetPrice: bigint): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.setPriceTarget(marketId, targetPrice);
+            if (sim.revert) throw new Error(`Set price target failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    const registerOracle = useCallback(async (
+        stake: bigint,
+        profile: OracleProfile,
+    ): Promise<RegisterOracleResult> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+            const sender = await resolveWalletSender();
+
+            // The stake is pulled with transferFrom, like a bet
+            if (stake > 0n && await ensureCollateralAllowance(stake, sender)) {
+                return 'approval-submitted';
+            }
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.registerOracle(stake, await computeProfileHash(profile));
+            if (sim.revert) throw new Error(`Register oracle failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+
+            await saveOracleProfile(u256ToHex(String(address)), profile);
+            return 'oracle-registered';
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress, ensureCollateralAllowance]);
+
+    /** Starts unbonding `amount` of the connected oracle's stake; it stays slashable until unlocked. */
+    const unstakeOracle = useCallback(async (amount: bigint): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.unstakeOracle(amount);
+            if (sim.revert) throw new Error(`Unstake failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    const withdrawOracleStake = useCallback(async (): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.withdrawOracleStake();
+            if (sim.revert) throw new Error(`Withdraw stake failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    /** Owner only: takes up to `amount` of an oracle's stake into protocol fees. */
+    const slashOracle = useCallback(async (oracle: string, amount: bigint): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.slashOracle(hexToAddress(oracle), amount);
+            if (sim.revert) throw new Error(`Slash oracle failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    const setMinOracleStake = useCallback(async (minStake: bigint): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.setMinOracleStake(minStake);
+            if (sim.revert) throw new Error(`Set minimum oracle stake failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    const joinMarket = useCallback(async (marketId: bigint, proof: bigint[]): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.joinMarket(marketId, proof);
+            if (sim.revert) throw new Error(`Join market failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    const setAllowlistRoot = useCallback(async (marketId: bigint, root: bigint): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.setAllowlistRoot(marketId, root);
+            if (sim.revert) throw new Error(`Set allowlist root failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
+
+    const setAllowlistMembers = useCallback(async (marketId: bigint, members: string[], allowed: boolean): Promise<void> => {
+        setLoading(true);
+        setError(null);
+        try {
+            if (!address) throw new Error('Wallet not connected');
+
+            const sender = await resolveWalletSender();
+
+            const contract = createContract(contractAddress, network, sender);
+            const sim = await contract.setAllowlistMembers(marketId, members.map(hexToAddress), allowed);
+            if (sim.revert) throw new Error(`Update allowlist failed: ${sim.revert}`);
+
+            await sim.sendTransaction({
+                signer: null,
+                mldsaSigner: null,
+                refundTo: refundAddress(walletAddress),
+                maximumAllowedSatToSpend: 50000n,
+                network,
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : 'Unknown error';
+            setError(friendlyError(msg));
+            throw err;
+        } finally {
+            setLoading(false);
+        }
+    }, [network, address, walletAddress, contractAddress]);
 
     return {
         loading,
         error,
         fetchMarketCount,
         fetchMarket,
+        fetchMarkets,
         fetchUserPosition,
+        fetchUserPositions,
         fetchCurrentBlock,
         fetchCallerAddress,
         fetchPendingTxs,
+        fetchCollateralToken,
+        fetchCancelGracePeriod,
+        fetchFees,
+        fetchResolution,
+        fetchDisputeConfig,
+        quoteSell,
+        fetchMarketIds,
+        fetchAdminConfig,
+        fetchPriceTarget,
+        fetchOracles,
+        fetchOracleConfig,
         createMarket,
+        createCategoricalMarket,
+        createScalarMarket,
         placeBet,
+        sellPosition,
+        transferPosition,
         resolveMarket,
+        resolveScalarMarket,
+        voteOutcome,
+        disputeOutcome,
+        finalizeMarket,
+        ruleDispute,
         claimWinnings,
+        cancelMarket,
+        claimRefund,
+        withdrawFees,
+        setProtocolFee,
+        setPaused,
+        transferOwnership,
+        acceptOwnership,
+        setMaxMarkets,
+        setMinBet,
+        setPriceTarget,
+        registerOracle,
+        unstakeOracle,
+        withdrawOracleStake,
+        slashOracle,
+        setMinOracleStake,
+        fetchAllowlistStatus,
+        joinMarket,
+        setAllowlistRoot,
+        setAllowlistMembers,
     };
 }
@@ -22,17 +22,26 @@ function getInitialTheme(): Theme {
     return 'dark';
 }
 
+// Embeds pass ?theme= to match the host page; it overrides the stored preference
+function getQueryTheme(): Theme | null {
+    const param = new URLSearchParams(window.location.search).get('theme');
+    return param === 'light' || param === 'dark' ? param : null;
+}
+
 export function ThemeProvider({ children }: { children: ReactNode }): React.JSX.Element {
-    const [theme, setTheme] = useState<Theme>(getInitialTheme);
+    const [queryTheme] = useState(getQueryTheme);
+    const [theme, setTheme] = useState<Theme>(() => queryTheme ?? getInitialTheme());
 
     useEffect(() => {
         document.documentElement.setAttribute('data-theme', theme);
+        // A host page's choice is not the visitor's preference, so don't save it
+        if (queryTheme) return;
         try {
             localStorage.setItem('oprophet-theme', theme);
         } catch {
             // ignore
         }
-    }, [theme]);
+    }, [theme, queryTheme]);
 
     const toggleTheme = (): void => {
         setTheme((t) => (t === 'dark' ? 'light' : 'dark'));
@@ -1,9 +1,10 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import { WalletConnectProvider } from '@btc-vision/walletconnect';
-import { BrowserRouter } from 'react-router-dom';
+import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { ThemeProvider } from './hooks/useTheme';
 import { App } from './App';
+import { MarketEmbed } from './components/market/MarketEmbed';
 import './styles/index.css';
 
 const root = document.getElementById('root');
@@ -14,7 +15,11 @@ createRoot(root).render(
         <ThemeProvider>
             <WalletConnectProvider theme="dark">
                 <BrowserRouter>
-                    <App />
+                    <Routes>
+                        {/* Embeds render without the app's header, footer and wallet UI */}
+                        <Route path="/embed/market/:id" element={<MarketEmbed />} />
+                        <Route path="*" element={<App />} />
+                    </Routes>
                 </BrowserRouter>
             </WalletConnectProvider>
         </ThemeProvider>
@@ -0,0 +1,150 @@
+import { Network } from '@btc-vision/bitcoin';
+import { getNetworkId } from '../config';
+import { providerService } from './ProviderService';
+
+// Nominal Bitcoin block time, used only when the chain is too short to measure
+const NOMINAL_BLOCK_TIME_MS = 10 * 60 * 1000;
+
+// Sampled depths below the tip: ~1 day, ~1 week and ~1 month of blocks
+const SAMPLE_DEPTHS = [144n, 1008n, 4320n];
+
+// Headers are resampled this often so the tip and average stay current
+const CLOCK_TTL = 5 * 60 * 1000;
+
+interface BlockSample {
+    height: bigint;
+    timeMs: number;
+}
+
+/**
+ * Snapshot of sampled block headers for converting between block heights and
+ * wall-clock time. Heights inside the sampled range are interpolated between
+ * the surrounding headers; outside it they are extrapolated with the average
+ * block time measured across the samples.
+ */
+export interface BlockClock {
+    /** Sampled headers, oldest first. The last one is the tip when sampled. */
+    samples: BlockSample[];
+    /** Measured average block time over the sampled range, in ms. */
+    blockTimeMs: number;
+}
+
+// Accept block times in either seconds or milliseconds
+function toMs(time: number): number {
+    return time < 1e12 ? time * 1000 : time;
+}
+
+/** Estimated time the block at `height` was (or will be) mined. */
+export function blockToDate(clock: BlockClock, height: bigint): Date {
+    const { samples, blockTimeMs } = clock;
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+
+    if (height <= first.height) return new Date(first.timeMs - Number(first.height - height) * blockTimeMs);
+    if (height >= last.height) return new Date(last.timeMs + Number(height - last.height) * blockTimeMs);
+
+    for (let i = 1; i < samples.length; i++) {
+        const a = samples[i - 1];
+        const b = samples[i];
+        if (height > b.height) continue;
+        const fraction = Number(height - a.height) / Number(b.height - a.height);
+        return new Date(a.timeMs + fraction * (b.timeMs - a.timeMs));
+    }
+    return new Date(last.timeMs);
+}
+
+/** Estimated height of the block mined at `date`, never below zero. */
+export function dateToBlock(clock: BlockClock, date: Date): bigint {
+    const { samples, blockTimeMs } = clock;
+    const first = samples[0];
+    const last = samples[samples.length - 1];
+    const ms = date.getTime();
+
+    let height: bigint;
+    if (ms <= first.timeMs) {
+        height = first.height - BigInt(Math.ceil((first.timeMs - ms) / blockTimeMs));
+    } else if (ms >= last.timeMs) {
+        height = last.height + BigInt(Math.floor((ms - last.timeMs) / blockTimeMs));
+    } else {
+        height = last.height;
+        for (let i = 1; i < samples.length; i++) {
+            const a = samples[i - 1];
+            const b = samples[i];
+            if (ms > b.timeMs) continue;
+            const fraction = b.timeMs === a.timeMs ? 0 : (ms - a.timeMs) / (b.timeMs - a.timeMs);
+            height = a.height + BigInt(Math.floor(fraction * Number(b.height - a.height)));
+            break;
+        }
+    }
+    return height > 0n ? height : 0n;
+}
+
+/** Estimated height of the chain right now, including blocks mined since sampling. */
+export function estimateCurrentBlock(clock: BlockClock): bigint {
+    const tip = clock.samples[clock.samples.length - 1].height;
+    const now = dateToBlock(clock, new Date());
+    return now > tip ? now : tip;
+}
+
+/** Blocks from now until `date`, at least 1. */
+export function blocksUntil(clock: BlockClock, date: Date): bigint {
+    const blocks = dateToBlock(clock, date) - estimateCurrentBlock(clock);
+    return blocks > 0n ? blocks : 1n;
+}
+
+/**
+ * Samples real block headers from the provider to build a BlockClock per
+ * network. Clocks are cached for CLOCK_TTL and concurrent callers share one
+ * in-flight request.
+ */
+class BlockTimeService {
+    private static instance: BlockTimeService;
+    private clocks: Map<string, { clock: Promise<BlockClock>; sampledAt: number }> = new Map();
+
+    private constructor() {}
+
+    public static getInstance(): BlockTimeService {
+        if (!BlockTimeService.instance) {
+            BlockTimeService.instance = new BlockTimeService();
+        }
+        return BlockTimeService.instance;
+    }
+
+    public getClock(network: Network): Promise<BlockClock> {
+        const networkId = getNetworkId(network);
+        const cached = this.clocks.get(networkId);
+        if (cached && Date.now() - cached.sampledAt < CLOCK_TTL) return cached.clock;
+
+        const clock = this.sample(network);
+        this.clocks.set(networkId, { clock, sampledAt: Date.now() });
+        // A failed sample is not cached, so the next caller retries
+        void clock.catch(() => {
+            this.clocks.delete(networkId);
+        });
+        return clock;
+    }
+
+    public clearCache(): void {
+        this.clocks.clear();
+    }
+
+    private async sample(network: Network): Promise<BlockClock> {
+        const provider = providerService.getProvider(network);
+        const tip = await provider.getBlockNumber();
+
+        const heights = [...SAMPLE_DEPTHS.filter((d) => d < tip).map((d) => tip - d).reverse(), tip];
+        const blocks = await provider.getBlocks(heights);
+        const samples = blocks.map((b) => ({ height: BigInt(b.height), timeMs: toMs(b.time) }));
+
+        const first = samples[0];
+        const last = samples[samples.length - 1];
+        const span = Number(last.height - first.height);
+        const blockTimeMs = span > 0 && last.timeMs > first.timeMs
+            ? (last.timeMs - first.timeMs) / span
+            : NOMINAL_BLOCK_TIME_MS;
+
+        return { samples, blockTimeMs };
+    }
+}
+
+export const blockTimeService = BlockTimeService.getInstance();
@@ -0,0 +1,147 @@
+import { supabase } from './supabase';
+
+// Reads the contract events the indexer (indexer/) writes to Supabase. Addresses
+// are 0x-prefixed hex, the same form the dApp uses for market creators.
+
+export interface MarketCreatedEvent {
+    marketId: bigint;
+    creator: string;
+    blockHeight: bigint;
+    blockTime: Date;
+}
+
+export interface BetEvent {
+    marketId: bigint;
+    bettor: string;
+    outcome: number;
+    amount: bigint;
+    blockHeight: bigint;
+    blockTime: Date;
+}
+
+export interface ClaimEvent {
+    marketId: bigint;
+    claimant: string;
+    amount: bigint;
+    blockHeight: bigint;
+    blockTime: Date;
+}
+
+export interface ResolutionEvent {
+    marketId: bigint;
+    /** Winning outcome, or the resolved value for scalar markets. */
+    outcome: bigint;
+    blockHeight: bigint;
+    blockTime: Date;
+}
+
+export interface BettingActivity {
+    markets: MarketCreatedEvent[];
+    bets: BetEvent[];
+    claims: ClaimEvent[];
+    resolutions: ResolutionEvent[];
+}
+
+// PostgREST caps each response, so larger tables are read in pages. Amounts
+// are selected as text since numeric columns come back as lossy JSON numbers.
+const PAGE_SIZE = 1000;
+
+async function fetchAll<T>(table: string, columns: string, marketId?: bigint): Promise<T[]> {
+    const rows: T[] = [];
+    for (let from = 0; ; from += PAGE_SIZE) {
+        let query = supabase.from(table).select(columns);
+        if (marketId !== undefined) query = query.eq('market_id', marketId.toString());
+        const { data, error } = await query
+            .order('block_height', { ascending: true })
+            .order('tx_id', { ascending: true })
+            .order('event_index', { ascending: true })
+            .range(from, from + PAGE_SIZE - 1);
+        if (error) throw new Error(`Failed to read ${table}: ${error.message}`);
+
+        rows.push(...(data as T[]));
+        if (data.length < PAGE_SIZE) return rows;
+    }
+}
+
+interface MarketRow {
+    market_id: number;
+    creator: string;
+    block_height: number;
+    block_time: string;
+}
+
+interface BetRow {
+    market_id: number;
+    bettor: string;
+    outcome: number;
+    amount: string;
+    block_height: number;
+    block_time: string;
+}
+
+interface ClaimRow {
+    market_id: number;
+    claimant: string;
+    amount: string;
+    block_height: number;
+    block_time: string;
+}
+
+interface ResolutionRow {
+    market_id: number;
+    outcome: string;
+    block_height: number;
+    block_time: string;
+}
+
+const BET_COLUMNS = 'market_id, bettor, outcome, amount::text, block_height, block_time';
+
+function toBetEvent(r: BetRow): BetEvent {
+    return {
+        marketId: BigInt(r.market_id),
+        bettor: r.bettor.toLowerCase(),
+        outcome: r.outcome,
+        amount: BigInt(r.amount),
+        blockHeight: BigInt(r.block_height),
+        blockTime: new Date(r.block_time),
+    };
+}
+
+/** Every indexed market creation, bet, claim and resolution, oldest first. */
+export async function fetchBettingActivity(): Promise<BettingActivity> {
+    const [markets, bets, claims, resolutions] = await Promise.all([
+        fetchAll<MarketRow>('markets', 'market_id, creator, block_height, block_time'),
+        fetchAll<BetRow>('bets', BET_COLUMNS),
+        fetchAll<ClaimRow>('claims', 'market_id, claimant, amount::text, block_height, block_time'),
+        fetchAll<ResolutionRow>('resolutions', 'market_id, outcome::text, block_height, block_time'),
+    ]);
+
+    return {
+        markets: markets.map((r) => ({
+            marketId: BigInt(r.market_id),
+            creator: r.creator.toLowerCase(),
+            blockHeight: BigInt(r.block_height),
+            blockTime: new Date(r.block_time),
+        })),
+        bets: bets.map(toBetEvent),
+        claims: claims.map((r) => ({
+            marketId: BigInt(r.market_id),
+            claimant: r.claimant.toLowerCase(),
+            amount: BigInt(r.amount),
+            blockHeight: BigInt(r.block_height),
+            blockTime: new Date(r.block_time),
+        })),
+        resolutions: resolutions.map((r) => ({
+            marketId: BigInt(r.market_id),
+            outcome: BigInt(r.outcome),
+            blockHeight: BigInt(r.block_height),
+            blockTime: new Date(r.block_time),
+        })),
+    };
+}
+
+/** Indexed bets on one market, oldest first. */
+export async function fetchMarketBets(marketId: bigint): Promise<BetEvent[]> {
+    const rows = await fetchAll<BetRow>('bets', BET_COLUMNS, marketId);
+    return rows.map(toBetEvent);
+}
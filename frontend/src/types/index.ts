@@ -1,19 +1,78 @@
 export interface MarketData {
     id: bigint;
     creator: string;
-    endBlock: bigint;
+    /** Betting stops at this block. */
+    closeBlock: bigint;
+    /** First block the market can be resolved at; never before closeBlock. */
+    resolveAfterBlock: bigint;
     oracle: string;
     status: MarketStatus;
+    /** Winning outcome. YES/NO for binary markets, the 1-based outcome index for categorical ones, NONE for scalar ones. */
     outcome: MarketOutcome;
     yesPool: bigint;
     noPool: bigint;
     question: string;
+    /** 2 for binary YES/NO markets, 3+ for categorical markets. */
+    outcomeCount: number;
+    /** Pool per outcome (index 0 = outcome 1). Mirrors [yesPool, noPool] for binary markets. */
+    outcomePools: bigint[];
+    outcomeLabels: string[];
+    /** Fee rates in basis points of the losing pools, fixed when the market was created. */
+    protocolFeeBps: number;
+    creatorFeeBps: number;
+    /** Fee amounts taken at resolution (zero until resolved). */
+    protocolFee: bigint;
+    creatorFee: bigint;
+    /** Collateral left behind by early exits; paid out to the winners with the pools. */
+    exitSpread: bigint;
+    /** M-of-N oracle committee, null for markets resolved by a single oracle. */
+    committee: OracleCommittee | null;
+    /** Hash committed at creation over the question, metadata and outcome labels (0x-prefixed hex). */
+    contentHash: string;
+    /** The question and labels shown match the on-chain hash; false when they are missing or were altered. */
+    questionVerified: boolean;
+    /** Range and result of a scalar (LONG/SHORT) market, null for every other kind. */
+    scalar: ScalarRange | null;
+    /** May resolve once resolutionTimeoutBlock passes without an outcome; null when only the owner can. */
+    fallbackOracle: string | null;
+    /** From this block the fallback oracle and the owner may resolve in place of a silent oracle. */
+    resolutionTimeoutBlock: bigint;
+    /** Who proposed or ruled on the outcome; NONE until then. */
+    resolvedBy: ResolutionAuthority;
+    /** Only allowlisted addresses can bet; hidden from listings unless the viewer was invited. */
+    isPrivate: boolean;
+    /** Merkle root of the invited addresses, null when the market has none. */
+    allowlistRoot: bigint | null;
+}
+
+/** A scalar market's range. The bounds and value are 8-decimal fixed point, like price targets. */
+export interface ScalarRange {
+    lowerBound: bigint;
+    upperBound: bigint;
+    /** Value the market resolved at, clamped to the bounds; null until resolved. */
+    value: bigint | null;
 }
 
 export enum MarketStatus {
     UNKNOWN = 0,
     OPEN = 1,
     RESOLVED = 2,
+    CANCELLED = 3,
+    /** The oracle has proposed an outcome; the dispute window is running. */
+    PROPOSED = 4,
+    /** The proposed outcome was challenged and awaits the arbitrator. */
+    DISPUTED = 5,
+}
+
+/** Mirrors the contract's RESOLVED_BY_* codes. */
+export enum ResolutionAuthority {
+    NONE = 0,
+    ORACLE = 1,
+    COMMITTEE = 2,
+    PRICE_SIGNER = 3,
+    FALLBACK_ORACLE = 4,
+    OWNER = 5,
+    ARBITRATOR = 6,
 }
 
 export enum MarketOutcome {
@@ -25,10 +84,129 @@ export enum MarketOutcome {
 export interface UserPosition {
     yesBet: bigint;
     noBet: bigint;
+    /** Stake per outcome (index 0 = outcome 1). Mirrors [yesBet, noBet] for binary markets. */
+    stakes: bigint[];
     claimed: boolean;
 }
 
-export type MarketCategory = 'price' | 'event';
+export interface CollateralToken {
+    address: string;
+    symbol: string;
+    decimals: number;
+}
+
+export interface MarketResolution {
+    /** Outcome the oracle proposed (may differ from the final outcome after a dispute). */
+    proposedOutcome: MarketOutcome;
+    /** The proposed and disputed values for scalar markets, whose outcome slots carry values. */
+    proposedValue: bigint;
+    disputedValue: bigint;
+    /** Block the oracle proposed the outcome at (0 if not proposed yet). */
+    proposedAtBlock: bigint;
+    /** First block at which an unchallenged proposal can be finalized. */
+    disputeEndBlock: bigint;
+    /** Challenger address, empty if nobody disputed. */
+    disputer: string;
+    disputedOutcome: MarketOutcome;
+    bond: bigint;
+}
+
+export interface DisputeConfig {
+    windowBlocks: bigint;
+    bond: bigint;
+    arbitrator: string;
+}
+
+export interface OracleCommittee {
+    members: string[];
+    /** Matching votes needed to propose an outcome. */
+    threshold: number;
+    /** Each member's vote, same order as members (NONE if not voted yet). */
+    votes: MarketOutcome[];
+}
+
+/** Committee settings chosen at market creation. */
+export interface OracleCommitteeParams {
+    members: string[];
+    threshold: number;
+}
+
+export interface FeeBalances {
+    /** Protocol fee applied to newly created markets, in basis points. */
+    protocolFeeBps: number;
+    /** Protocol fees not yet withdrawn by the owner. */
+    protocolFees: bigint;
+    /** Creator fees the connected wallet can withdraw. */
+    creatorFees: bigint;
+}
+
+/** Contract-wide settings only the owner can change. */
+export interface AdminConfig {
+    owner: string;
+    /** Address proposed by transferOwnership, empty if no transfer is pending. */
+    pendingOwner: string;
+    bettingPaused: boolean;
+    creationPaused: boolean;
+    maxMarkets: bigint;
+    /** Smallest accepted bet (0 = no minimum). */
+    minBet: bigint;
+}
+
+/** An oracle's off-chain display name and links, committed to on-chain by its profile hash. */
+export interface OracleProfile {
+    name: string;
+    description?: string;
+    url?: string;
+}
+
+/** A registered oracle's stake and track record. */
+export interface OracleRegistryEntry {
+    address: string;
+    stake: bigint;
+    /** Unstaked collateral, still slashable until unlockBlock. */
+    unstaking: bigint;
+    unlockBlock: bigint;
+    /** Total slashed by the owner or by overturned proposals. */
+    slashed: bigint;
+    profileHash: string;
+    /** Null when Supabase has no profile matching profileHash. */
+    profile: OracleProfile | null;
+    registeredAt: bigint;
+    /** Markets naming this address as oracle or committee member. */
+    marketCount: bigint;
+}
+
+/** Oracle registry settings. */
+export interface OracleConfig {
+    /** Smallest stake an oracle can register or top up to (0 = any non-zero stake). */
+    minStake: bigint;
+    /** Blocks unstaked collateral stays slashable before it can be withdrawn. */
+    unbondingBlocks: bigint;
+    /** Share of an oracle's stake a successful challenger receives, in basis points. */
+    disputeSlashBps: number;
+}
+
+/** Whether an address may bet on a market (the isAllowlisted view). */
+export interface AllowlistStatus {
+    isPrivate: boolean;
+    /** Public market, explicitly allowlisted, or joined under the current root. */
+    member: boolean;
+    /** The proof checked would let the address join now. */
+    proofValid: boolean;
+}
+
+/** Per-address market lists the contract keeps on-chain. */
+export type MarketIndex = 'creator' | 'oracle' | 'bettor';
+
+/** One page of an on-chain market index. */
+export interface MarketIdPage {
+    /** Length of the whole index, not just this page. */
+    total: bigint;
+    marketIds: bigint[];
+}
+
+/** Scalar markets reuse the price fields: a coin, with its range committed on-chain. */
+export type MarketCategory = 'price' | 'event' | 'scalar';
 
 export interface MarketMetadata {
     category: MarketCategory;
@@ -39,6 +217,7 @@ export interface MarketMetadata {
 
 export interface CreateMarketParams {
     question: string;
-    endBlock: bigint;
+    closeBlock: bigint;
+    resolveAfterBlock: bigint;
     oracleAddress: string;
 }
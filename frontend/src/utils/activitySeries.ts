@@ -0,0 +1,79 @@
+import { BetEvent, BettingActivity } from '../services/indexedEvents';
+import { outcomePercents } from './outcomes';
+
+export interface PoolHistoryPoint {
+    blockHeight: bigint;
+    /** Pool per outcome (index 0 = outcome 1) after the block's bets. */
+    pools: bigint[];
+    /** Implied probability per outcome, in percent: its share of the total pool. */
+    percents: number[];
+}
+
+/**
+ * Replays a market's bets into its pools after each block that had one. Early
+ * exits are not indexed, so pools only ever grow here and can run ahead of
+ * the on-chain pools once someone has sold.
+ */
+export function buildPoolHistory(bets: BetEvent[], outcomeCount: number): PoolHistoryPoint[] {
+    const pools: bigint[] = Array.from({ length: outcomeCount }, () => 0n);
+    const points: PoolHistoryPoint[] = [];
+
+    for (const bet of bets) {
+        const index = bet.outcome - 1;
+        if (index < 0 || index >= outcomeCount) continue;
+        pools[index] += bet.amount;
+
+        const point = { blockHeight: bet.blockHeight, pools: [...pools], percents: outcomePercents(pools) };
+        // Several bets in one block collapse into a single point
+        if (points.length > 0 && points[points.length - 1].blockHeight === bet.blockHeight) {
+            points[points.length - 1] = point;
+        } else {
+            points.push(point);
+        }
+    }
+    return points;
+}
+
+export interface DailyActivity {
+    /** UTC day, YYYY-MM-DD. */
+    day: string;
+    volume: bigint;
+    newMarkets: number;
+    activeBettors: number;
+}
+
+function utcDay(time: Date): string {
+    return time.toISOString().slice(0, 10);
+}
+
+/**
+ * Buckets indexed activity by UTC day, oldest first. With `marketIds` only
+ * those markets count. Days without any activity are left out.
+ */
+export function buildDailyActivity(activity: BettingActivity, marketIds?: Set<bigint>): DailyActivity[] {
+    const days = new Map<string, { volume: bigint; newMarkets: number; bettors: Set<string> }>();
+    const getDay = (time: Date): { volume: bigint; newMarkets: number; bettors: Set<string> } => {
+        const key = utcDay(time);
+        let day = days.get(key);
+        if (!day) {
+            day = { volume: 0n, newMarkets: 0, bettors: new Set() };
+            days.set(key, day);
+        }
+        return day;
+    };
+
+    for (const m of activity.markets) {
+        if (marketIds && !marketIds.has(m.marketId)) continue;
+        getDay(m.blockTime).newMarkets++;
+    }
+    for (const bet of activity.bets) {
+        if (marketIds && !marketIds.has(bet.marketId)) continue;
+        const day = getDay(bet.blockTime);
+        day.volume += bet.amount;
+        day.bettors.add(bet.bettor);
+    }
+
+    return Array.from(days.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([day, d]) => ({ day, volume: d.volume, newMarkets: d.newMarkets, activeBettors: d.bettors.size }));
+}
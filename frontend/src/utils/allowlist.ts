@@ -0,0 +1,150 @@
+// Private markets: the creator commits a Merkle root of invited addresses
+// on-chain and hands each invitee a link carrying their proof.
+
+const INVITES_KEY = 'oprophet-invites';
+const ALLOWLISTS_KEY = 'oprophet-allowlists';
+
+export interface AllowlistTree {
+    root: bigint;
+    /** Proof per invited address, keyed by normalized address. */
+    proofs: Map<string, bigint[]>;
+}
+
+/** Lowercase hex without the 0x prefix, the form allowlists are keyed by. */
+export function normalizeAddress(address: string): string {
+    return address.toLowerCase().replace(/^0x/, '');
+}
+
+function toHex(value: bigint): string {
+    return value.toString(16).padStart(64, '0');
+}
+
+function hexToBytes(hex: string): Uint8Array<ArrayBuffer> {
+    const bytes = new Uint8Array(hex.length / 2);
+    for (let i = 0; i < bytes.length; i++) bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+    return bytes;
+}
+
+async function sha256(data: Uint8Array<ArrayBuffer>): Promise<bigint> {
+    const digest = await crypto.subtle.digest('SHA-256', data);
+    const hex = Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+    return BigInt(`0x${hex}`);
+}
+
+async function hashPair(a: bigint, b: bigint): Promise<bigint> {
+    const [low, high] = a < b ? [a, b] : [b, a];
+    return sha256(hexToBytes(toHex(low) + toHex(high)));
+}
+
+/**
+ * Builds the tree PredictionMarket.joinMarket verifies against: leaves are
+ * sha256 of the 32-byte address, each level hashes the sorted pair and an
+ * odd node is carried up unchanged. Duplicate addresses are dropped.
+ */
+export async function buildAllowlist(addresses: string[]): Promise<AllowlistTree> {
+    const members = [...new Set(addresses.map(normalizeAddress))];
+    if (members.length === 0) throw new Error('Allowlist must not be empty');
+
+    const levels: bigint[][] = [await Promise.all(members.map((m) => sha256(hexToBytes(m))))];
+    while (levels[levels.length - 1].length > 1) {
+        const level = levels[levels.length - 1];
+        const next: bigint[] = [];
+        for (let i = 0; i < level.length; i += 2) {
+            next.push(i + 1 < level.length ? await hashPair(level[i], level[i + 1]) : level[i]);
+        }
+        levels.push(next);
+    }
+
+    const proofs = new Map<string, bigint[]>();
+    members.forEach((member, leafIndex) => {
+        const proof: bigint[] = [];
+        let index = leafIndex;
+        for (const level of levels.slice(0, -1)) {
+            const sibling = index ^ 1;
+            if (sibling < level.length) proof.push(level[sibling]);
+            index >>= 1;
+        }
+        proofs.set(member, proof);
+    });
+
+    return { root: levels[levels.length - 1][0], proofs };
+}
+
+/** The ?invite= value for a proof: its 32-byte nodes concatenated, base64url-encoded. */
+export function encodeInvite(proof: bigint[]): string {
+    const bytes = hexToBytes(proof.map(toHex).join(''));
+    return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** Decodes an ?invite= value; null when it is not a whole number of 32-byte nodes. */
+export function decodeInvite(param: string): bigint[] | null {
+    try {
+        const binary = atob(param.replace(/-/g, '+').replace(/_/g, '/'));
+        if (binary.length % 32 !== 0) return null;
+        const hex = Array.from(binary, (c) => c.charCodeAt(0).toString(16).padStart(2, '0')).join('');
+        const proof: bigint[] = [];
+        for (let i = 0; i < hex.length; i += 64) proof.push(BigInt(`0x${hex.slice(i, i + 64)}`));
+        return proof;
+    } catch {
+        return null;
+    }
+}
+
+export function buildInviteLink(marketId: bigint, proof: bigint[]): string {
+    return `${window.location.origin}/market/${marketId}?invite=${encodeInvite(proof)}`;
+}
+
+function readStore(key: string): Record<string, string[]> {
+    try {
+        const stored = localStorage.getItem(key);
+        return stored ? JSON.parse(stored) as Record<string, string[]> : {};
+    } catch {
+        return {};
+    }
+}
+
+function writeStore(key: string, store: Record<string, string[]>): void {
+    try {
+        localStorage.setItem(key, JSON.stringify(store));
+    } catch {
+        // localStorage unavailable — invites only last for this visit
+    }
+}
+
+/** Remembers an invite this browser opened, so the market shows up in listings. */
+export function saveInvite(marketId: bigint, proof: bigint[]): void {
+    const store = readStore(INVITES_KEY);
+    store[marketId.toString()] = proof.map(toHex);
+    writeStore(INVITES_KEY, store);
+}
+
+export function getInvite(marketId: bigint): bigint[] | null {
+    const proof = readStore(INVITES_KEY)[marketId.toString()];
+    return proof ? proof.map((node) => BigInt(`0x${node}`)) : null;
+}
+
+/**
+ * Keeps the creator's invitee list next to the root it produced. Only the
+ * root goes on-chain, so this is what the invite links are rebuilt from.
+ */
+export function saveAllowlist(root: bigint, addresses: string[]): void {
+    const store = readStore(ALLOWLISTS_KEY);
+    store[toHex(root)] = [...new Set(addresses.map(normalizeAddress))];
+    writeStore(ALLOWLISTS_KEY, store);
+}
+
+export function getAllowlist(root: bigint): string[] | null {
+    return readStore(ALLOWLISTS_KEY)[toHex(root)] ?? null;
+}
+
+/**
+ * The proof this browser holds for `address` on a market: the invite it
+ * opened, or else one rebuilt from the creator's saved list for `root`.
+ */
+export async function findInviteProof(marketId: bigint, root: bigint, address: string): Promise<bigint[] | null> {
+    const invite = getInvite(marketId);
+    if (invite) return invite;
+    const addresses = getAllowlist(root);
+    if (!addresses) return null;
+    return (await buildAllowlist(addresses)).proofs.get(normalizeAddress(address)) ?? null;
+}
@@ -0,0 +1,134 @@
+import { MarketData, MarketStatus } from '../types';
+import { BettingActivity } from '../services/indexedEvents';
+import { scalarPayout } from './outcomes';
+
+export interface BettorStats {
+    address: string;
+    /** Total staked by bets placed in the window. */
+    volumeBet: bigint;
+    /** Distinct markets bet on in the window. */
+    marketsParticipated: number;
+    /** Markets bet on that resolved in the window, and how many of them the wallet backed the winner in. */
+    marketsSettled: number;
+    marketsWon: number;
+    /** Percentage of settled markets won, or null before any have settled. */
+    winRate: number | null;
+    /** Payouts minus stakes over settled markets whose result is final for the wallet. */
+    realizedPnl: bigint;
+    /** Best single-market profit, 0 if the wallet has never come out ahead. */
+    largestWin: bigint;
+}
+
+interface Position {
+    staked: bigint;
+    /** Stake on each outcome index. */
+    byOutcome: Map<number, bigint>;
+    claimed: bigint;
+    claimedAt: Date | null;
+}
+
+/**
+ * Aggregates indexed bets and claims into per-wallet stats. Only markets
+ * resolved with a winner count towards win rate and PnL: cancelled markets
+ * are refunded in full. A losing position is realised at resolution, a
+ * winning one once it has been claimed. Both sides of a scalar market can
+ * be paid, so a position there wins whenever it pays anything. Early exits and position transfers
+ * are not indexed, so stakes sold before resolution still count as staked.
+ *
+ * With `since`, volume and participation count bets placed after it, and win
+ * rate and PnL count markets resolved after it. Markets whose resolution was
+ * not indexed only count with no `since`.
+ */
+export function computeBettorStats(
+    markets: MarketData[],
+    activity: BettingActivity,
+    since: Date | null = null,
+): BettorStats[] {
+    const marketById = new Map(markets.map((m) => [m.id, m]));
+    const resolvedAt = new Map<bigint, Date>();
+    for (const r of activity.resolutions) resolvedAt.set(r.marketId, r.blockTime);
+
+    const stats = new Map<string, BettorStats>();
+    const getOrCreate = (addr: string): BettorStats => {
+        let s = stats.get(addr);
+        if (!s) {
+            s = {
+                address: addr,
+                volumeBet: 0n,
+                marketsParticipated: 0,
+                marketsSettled: 0,
+                marketsWon: 0,
+                winRate: null,
+                realizedPnl: 0n,
+                largestWin: 0n,
+            };
+            stats.set(addr, s);
+        }
+        return s;
+    };
+
+    // Positions are built from every bet: PnL needs the whole stake even when
+    // some of it was placed before the window
+    const positions = new Map<string, Map<bigint, Position>>();
+    const getPosition = (addr: string, marketId: bigint): Position => {
+        let byMarket = positions.get(addr);
+        if (!byMarket) {
+            byMarket = new Map();
+            positions.set(addr, byMarket);
+        }
+        let position = byMarket.get(marketId);
+        if (!position) {
+            position = { staked: 0n, byOutcome: new Map(), claimed: 0n, claimedAt: null };
+            byMarket.set(marketId, position);
+        }
+        return position;
+    };
+
+    const participated = new Map<string, Set<bigint>>();
+    for (const bet of activity.bets) {
+        const position = getPosition(bet.bettor, bet.marketId);
+        position.staked += bet.amount;
+        position.byOutcome.set(bet.outcome, (position.byOutcome.get(bet.outcome) ?? 0n) + bet.amount);
+
+        const s = getOrCreate(bet.bettor);
+        if (since && bet.blockTime < since) continue;
+        s.volumeBet += bet.amount;
+        const seen = participated.get(bet.bettor) ?? new Set<bigint>();
+        seen.add(bet.marketId);
+        participated.set(bet.bettor, seen);
+    }
+    for (const [addr, seen] of participated) getOrCreate(addr).marketsParticipated = seen.size;
+
+    for (const claim of activity.claims) {
+        const position = getPosition(claim.claimant, claim.marketId);
+        position.claimed += claim.amount;
+        position.claimedAt = claim.blockTime;
+    }
+
+    for (const [addr, byMarket] of positions) {
+        const s = getOrCreate(addr);
+        for (const [marketId, position] of byMarket) {
+            const market = marketById.get(marketId);
+            if (!market || market.status !== MarketStatus.RESOLVED || position.staked === 0n) continue;
+
+            const settledAt = resolvedAt.get(marketId);
+            if (since && (!settledAt || settledAt < since)) continue;
+
+            const won = market.scalar
+                ? scalarPayout(market, position.byOutcome.get(1) ?? 0n, position.byOutcome.get(2) ?? 0n) > 0n
+                : (position.byOutcome.get(market.outcome) ?? 0n) > 0n;
+            s.marketsSettled++;
+            if (won) s.marketsWon++;
+
+            // A winning position stays unrealised until it is claimed
+            if (won && position.claimedAt === null) continue;
+            const pnl = position.claimed - position.staked;
+            s.realizedPnl += pnl;
+            if (pnl > s.largestWin) s.largestWin = pnl;
+        }
+        s.winRate = s.marketsSettled > 0 ? (s.marketsWon / s.marketsSettled) * 100 : null;
+    }
+
+    // Wallets with nothing in the window are left out
+    return Array.from(stats.values()).filter((s) => s.marketsParticipated > 0 || s.marketsSettled > 0);
+}
@@ -1,25 +1,19 @@
 import { MarketAnalytics } from '../hooks/useAnalytics';
+import { BlockClock, dateToBlock } from '../services/BlockTimeService';
 
 interface FilterParams {
     markets: MarketAnalytics[];
     search?: string;
     blockRange?: { from: string; to: string };
     dateRange?: { from: string; to: string };
-    // Reference block for date conversion (latest endBlock from all markets)
-    referenceBlock?: bigint;
+    // Converts the date range to close blocks; the date filter waits until it is sampled
+    clock?: BlockClock | null;
 }
 
-// OPNet: ~10 min per block
-const BLOCK_TIME_MS = 10 * 60 * 1000;
-
-function dateToBlock(dateStr: string, refBlock: bigint, addEndOfDay: boolean): bigint {
+function dayToBlock(clock: BlockClock, dateStr: string, addEndOfDay: boolean): bigint {
     const d = new Date(addEndOfDay ? dateStr + 'T23:59:59' : dateStr);
     if (isNaN(d.getTime())) return 0n;
-    const now = new Date();
-    const diffMs = d.getTime() - now.getTime();
-    const diffBlocks = Math.floor(diffMs / BLOCK_TIME_MS);
-    const result = refBlock + BigInt(diffBlocks);
-    return result > 0n ? result : 0n;
+    return dateToBlock(clock, d);
 }
 
 export function filterMarkets({
@@ -27,7 +21,7 @@ export function filterMarkets({
     search,
     blockRange,
     dateRange,
-    referenceBlock,
+    clock,
 }: FilterParams): MarketAnalytics[] {
     let filtered = markets;
 
@@ -44,25 +38,21 @@ export function filterMarkets({
 
     if (blockRange?.from) {
         const from = BigInt(blockRange.from);
-        filtered = filtered.filter((m) => m.endBlock >= from);
+        filtered = filtered.filter((m) => m.closeBlock >= from);
     }
     if (blockRange?.to) {
         const to = BigInt(blockRange.to);
-        filtered = filtered.filter((m) => m.endBlock <= to);
+        filtered = filtered.filter((m) => m.closeBlock <= to);
     }
 
-    if (dateRange?.from || dateRange?.to) {
-        const refBlock = referenceBlock ?? (markets.length > 0
-            ? markets.reduce((max, m) => m.endBlock > max ? m.endBlock : max, 0n)
-            : 2300n);
-
+    if (clock && (dateRange?.from || dateRange?.to)) {
         if (dateRange.from) {
-            const fromBlock = dateToBlock(dateRange.from, refBlock, false);
-            if (fromBlock > 0n) filtered = filtered.filter((m) => m.endBlock >= fromBlock);
+            const fromBlock = dayToBlock(clock, dateRange.from, false);
+            if (fromBlock > 0n) filtered = filtered.filter((m) => m.closeBlock >= fromBlock);
         }
         if (dateRange.to) {
-            const toBlock = dateToBlock(dateRange.to, refBlock, true);
-            if (toBlock > 0n) filtered = filtered.filter((m) => m.endBlock <= toBlock);
+            const toBlock = dayToBlock(clock, dateRange.to, true);
+            if (toBlock > 0n) filtered = filtered.filter((m) => m.closeBlock <= toBlock);
         }
     }
 
@@ -7,21 +7,99 @@ interface MarketQuestionEntry {
     coin?: string;
     targetPrice?: number;
     deadline?: string;
+    /** Outcome labels of a categorical market, in on-chain outcome order (index 0 = outcome 1). */
+    outcomes?: string[];
 }
 
-// In-memory cache so synchronous getMarketTitle() always returns fast
+const METADATA_COLUMNS = 'market_id, question, category, coin, target_price, deadline';
+
+// In-memory cache of Supabase rows, verified or not
 const cache = new Map<string, MarketQuestionEntry>();
 
+// On-chain content hash of each entry that matched it. The getters below
+// only return verified entries, so nothing unchecked is ever shown.
+const verifiedHashes = new Map<string, bigint>();
+
+/**
+ * Canonical form of the metadata for hashing. Rows read back from Supabase
+ * come with the column default category and a reformatted timestamp, so
+ * both are normalized to what the creator hashed.
+ */
+function canonicalMetadata(entry: Omit<MarketQuestionEntry, 'question'>): string {
+    return JSON.stringify({
+        category: entry.category ?? 'price',
+        coin: entry.coin || null,
+        targetPrice: entry.targetPrice || null,
+        deadline: entry.deadline ? new Date(entry.deadline).toISOString() : null,
+    });
+}
+
+async function sha256(data: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+    return new Uint8Array(await crypto.subtle.digest('SHA-256', data));
+}
+
+function toBigInt(bytes: Uint8Array): bigint {
+    return BigInt(`0x${Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('')}`);
+}
+
+/** The metadata hash a new market is created with: sha256 of its canonical off-chain metadata. */
+export async function computeMetadataHash(metadata?: MarketMetadata): Promise<bigint> {
+    return toBigInt(await sha256(new TextEncoder().encode(canonicalMetadata(metadata ?? {}))));
+}
+
+/**
+ * The content hash the contract derives at creation: sha256 over the sha256
+ * of the question, of each outcome label in order, and the metadata hash.
+ */
+async function hashEntry(entry: MarketQuestionEntry): Promise<bigint> {
+    const encoder = new TextEncoder();
+    const texts = [entry.question, ...(entry.outcomes ?? [])];
+    const parts = new Uint8Array(32 * (texts.length + 1));
+    const digests = await Promise.all(texts.map((text) => sha256(encoder.encode(text))));
+    digests.forEach((digest, i) => parts.set(digest, 32 * i));
+    parts.set(await sha256(encoder.encode(canonicalMetadata(entry))), 32 * texts.length);
+    return toBigInt(await sha256(parts));
+}
+
+/**
+ * Checks the cached Supabase copy of a market against its on-chain hash.
+ * The table is publicly writable, so an entry that doesn't match stays
+ * unverified and the market shows its generic title and labels.
+ */
+export async function verifyMarketQuestion(marketId: bigint, contentHash: bigint): Promise<boolean> {
+    const key = marketId.toString();
+    const entry = cache.get(key);
+    if (!entry || contentHash === 0n) return false;
+    if (verifiedHashes.get(key) === contentHash) return true;
+
+    if (await hashEntry(entry) !== contentHash) {
+        verifiedHashes.delete(key);
+        return false;
+    }
+    verifiedHashes.set(key, contentHash);
+    return true;
+}
+
+function getVerifiedEntry(key: string): MarketQuestionEntry | undefined {
+    return verifiedHashes.has(key) ? cache.get(key) : undefined;
+}
+
 // Boot: load all questions from Supabase into memory
 let booted = false;
 export async function bootMarketQuestions(): Promise<void> {
     if (booted) return;
     booted = true;
     try {
-        // Try with metadata columns first; fall back to question-only if columns don't exist yet
-        const { data, error } = await supabase
+        // Try with outcome labels and metadata columns first; fall back to
+        // metadata-only, then question-only, if columns don't exist yet
+        let { data, error } = await supabase
             .from('market_questions')
-            .select('market_id, question, category, coin, target_price, deadline');
+            .select(`${METADATA_COLUMNS}, outcomes`);
+        if (error && error.code === '42703') {
+            ({ data, error } = await supabase
+                .from('market_questions')
+                .select(METADATA_COLUMNS));
+        }
         if (error && error.code === '42703') {
             // Columns don't exist yet — load question-only
             const { data: fallback } = await supabase
@@ -42,6 +120,9 @@ export async function bootMarketQuestions(): Promise<void> {
                     coin: (row.coin as string) || undefined,
                     targetPrice: (row.target_price as number) || undefined,
                     deadline: (row.deadline as string) || undefined,
+                    outcomes: ('outcomes' in row && Array.isArray(row.outcomes))
+                        ? (row.outcomes as string[])
+                        : undefined,
                 });
             }
         }
@@ -54,14 +135,17 @@ export async function saveMarketQuestion(
     marketId: bigint,
     question: string,
     metadata?: MarketMetadata,
+    outcomes?: string[],
 ): Promise<void> {
     const key = marketId.toString();
+    verifiedHashes.delete(key);
     cache.set(key, {
         question,
         category: metadata?.category,
         coin: metadata?.coin,
         targetPrice: metadata?.targetPrice,
         deadline: metadata?.deadline,
+        outcomes,
     });
 
     try {
@@ -76,9 +160,19 @@ export async function saveMarketQuestion(
             row.target_price = metadata.targetPrice;
             row.deadline = metadata.deadline;
         }
-        const { error } = await supabase
+        if (outcomes) {
+            row.outcomes = outcomes;
+        }
+        let { error } = await supabase
             .from('market_questions')
             .upsert(row, { onConflict: 'market_id' });
+        // If the outcomes column doesn't exist yet, retry without it
+        if (error && error.code === '42703' && outcomes) {
+            delete row.outcomes;
+            ({ error } = await supabase
+                .from('market_questions')
+                .upsert(row, { onConflict: 'market_id' }));
+        }
         // If metadata columns don't exist yet, retry without them
         if (error && error.code === '42703' && metadata) {
             await supabase
@@ -90,16 +184,27 @@ export async function saveMarketQuestion(
     }
 }
 
+/** The verified question of a market, or null until verifyMarketQuestion has matched it on-chain. */
 export function getMarketQuestion(marketId: bigint): string | null {
-    return cache.get(marketId.toString())?.question ?? null;
+    return getVerifiedEntry(marketId.toString())?.question ?? null;
 }
 
 export function getMarketTitle(marketId: bigint, fallback?: string): string {
     return getMarketQuestion(marketId) ?? fallback ?? `Market #${marketId}`;
 }
 
+/**
+ * Labels for each outcome of a market. Binary markets are always YES/NO;
+ * categorical markets fall back to "Outcome N" when no labels were saved.
+ */
+export function getMarketOutcomeLabels(marketId: bigint, outcomeCount: number): string[] {
+    if (outcomeCount <= 2) return ['YES', 'NO'];
+    const saved = getVerifiedEntry(marketId.toString())?.outcomes ?? [];
+    return Array.from({ length: outcomeCount }, (_, i) => saved[i] || `Outcome ${i + 1}`);
+}
+
 export function getMarketMetadata(marketId: bigint): MarketMetadata | null {
-    const entry = cache.get(marketId.toString());
+    const entry = getVerifiedEntry(marketId.toString());
     if (!entry?.category) return null;
     return {
         category: entry.category,
@@ -112,7 +217,7 @@ export function getMarketMetadata(marketId: bigint): MarketMetadata | null {
 export function getAllMarketMetadata(): Map<string, MarketMetadata> {
     const result = new Map<string, MarketMetadata>();
     for (const [id, entry] of cache) {
-        if (entry.category) {
+        if (entry.category && verifiedHashes.has(id)) {
             result.set(id, {
                 category: entry.category,
                 coin: entry.coin,
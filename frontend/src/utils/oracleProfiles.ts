@@ -0,0 +1,74 @@
+import { supabase } from '../services/supabase';
+import { OracleProfile } from '../types';
+
+// Profiles by lowercase oracle address, as last read from Supabase
+const cache = new Map<string, OracleProfile>();
+
+function toKey(oracle: string): string {
+    return oracle.toLowerCase();
+}
+
+/** Canonical form of a profile for hashing; empty optional fields hash as null. */
+function canonicalProfile(profile: OracleProfile): string {
+    return JSON.stringify({
+        name: profile.name,
+        description: profile.description || null,
+        url: profile.url || null,
+    });
+}
+
+/** The hash an oracle stakes on-chain with registerOracle: sha256 of its canonical profile. */
+export async function computeProfileHash(profile: OracleProfile): Promise<bigint> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalProfile(profile)));
+    const hex = Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+    return BigInt(`0x${hex}`);
+}
+
+/** Reloads every oracle profile from Supabase. Keeps the previous cache if the read fails. */
+export async function loadOracleProfiles(): Promise<void> {
+    try {
+        const { data, error } = await supabase
+            .from('oracle_profiles')
+            .select('oracle, name, description, url');
+        if (error || !data) return;
+
+        cache.clear();
+        for (const row of data) {
+            cache.set(toKey(row.oracle as string), {
+                name: row.name as string,
+                description: (row.description as string) || undefined,
+                url: (row.url as string) || undefined,
+            });
+        }
+    } catch {
+        // Supabase unavailable — oracles show without profiles
+    }
+}
+
+/**
+ * The cached profile for an oracle if it matches the hash the oracle staked.
+ * oracle_profiles is publicly writable, so anything else is ignored.
+ */
+export async function getVerifiedOracleProfile(oracle: string, profileHash: bigint): Promise<OracleProfile | null> {
+    const profile = cache.get(toKey(oracle));
+    if (!profile || profileHash === 0n) return null;
+    return await computeProfileHash(profile) === profileHash ? profile : null;
+}
+
+export async function saveOracleProfile(oracle: string, profile: OracleProfile): Promise<void> {
+    cache.set(toKey(oracle), profile);
+
+    try {
+        await supabase
+            .from('oracle_profiles')
+            .upsert({
+                oracle: toKey(oracle),
+                name: profile.name,
+                description: profile.description || null,
+                url: profile.url || null,
+                updated_at: new Date().toISOString(),
+            }, { onConflict: 'oracle' });
+    } catch {
+        // best-effort
+    }
+}
@@ -0,0 +1,102 @@
+import { MarketData, MarketOutcome, UserPosition } from '../types';
+import { formatFixedPrice } from './prices';
+
+/** Segment colours for categorical outcomes, cycled by outcome index. */
+const OUTCOME_COLORS = ['#f7931a', '#3b82f6', '#a855f7', '#14b8a6', '#eab308', '#ec4899', '#22c55e', '#ef4444'];
+
+export function outcomeColor(index: number): string {
+    return OUTCOME_COLORS[index % OUTCOME_COLORS.length];
+}
+
+export function sumPools(pools: bigint[]): bigint {
+    return pools.reduce((acc, p) => acc + p, 0n);
+}
+
+/** Share of the total pool held by each outcome, in percent. Splits evenly while the market is empty. */
+export function outcomePercents(pools: bigint[]): number[] {
+    const total = sumPools(pools);
+    if (total === 0n) return pools.map(() => 100 / pools.length);
+    return pools.map((p) => Number((p * 10000n) / total) / 100);
+}
+
+/** Pool left for winners (every outcome pool plus the exit spread) once the resolution fees have been taken out. */
+export function payoutPool(market: MarketData): bigint {
+    return sumPools(market.outcomePools) + market.exitSpread - market.protocolFee - market.creatorFee;
+}
+
+/** What a resolved market settled on: the winning outcome's label, or a scalar market's value. */
+export function resolvedLabel(market: MarketData): string {
+    if (market.scalar) return market.scalar.value !== null ? formatFixedPrice(market.scalar.value) : '';
+    return outcomeLabel(market, market.outcome);
+}
+
+/** Display label for a 1-based outcome of the given market. */
+export function outcomeLabel(market: MarketData, outcome: number): string {
+    return market.outcomeLabels[outcome - 1] ?? `Outcome ${outcome}`;
+}
+
+/** Addresses that resolve the market: its committee members, or the single oracle. */
+export function marketOracles(market: MarketData): string[] {
+    return market.committee ? market.committee.members : [market.oracle];
+}
+
+/** Resolved on an outcome nobody backed, so every bettor is refunded pro rata instead. */
+function hasNoWinners(market: MarketData): boolean {
+    return market.outcome !== MarketOutcome.NONE && (market.outcomePools[market.outcome - 1] ?? 0n) === 0n;
+}
+
+/**
+ * The user's stake on the market's winning outcome (zero until resolved).
+ * Both sides of a scalar market can be paid, so a position there counts in
+ * full whenever it pays anything, as does every stake on a market nobody won.
+ */
+export function winningStake(market: MarketData, position: UserPosition): bigint {
+    if (market.scalar) {
+        return positionPayout(market, position) > 0n ? sumPools(position.stakes) : 0n;
+    }
+    if (market.outcome === MarketOutcome.NONE) return 0n;
+    if (hasNoWinners(market)) return sumPools(position.stakes);
+    return position.stakes[market.outcome - 1] ?? 0n;
+}
+
+/** What a position pays once the market has resolved, net of fees, as claimWinnings computes it. */
+export function positionPayout(market: MarketData, position: UserPosition): bigint {
+    if (market.scalar) return scalarPayout(market, position.stakes[0] ?? 0n, position.stakes[1] ?? 0n);
+    const stake = winningStake(market, position);
+    const pool = hasNoWinners(market) ? sumPools(market.outcomePools) : (market.outcomePools[market.outcome - 1] ?? 0n);
+    return pool > 0n ? (stake * payoutPool(market)) / pool : 0n;
+}
+
+/**
+ * LONG's part of `amount` at the value a scalar market resolved at: the
+ * fraction of the range below the value. A side nobody backed can't be
+ * paid, so its part goes to the other side.
+ */
+function scalarLongShare(market: MarketData, amount: bigint): bigint {
+    const scalar = market.scalar;
+    if (!scalar || scalar.value === null) return 0n;
+    const [longPool = 0n, shortPool = 0n] = market.outcomePools;
+    if (longPool === 0n) return 0n;
+    if (shortPool === 0n) return amount;
+    return (amount * (scalar.value - scalar.lowerBound)) / (scalar.upperBound - scalar.lowerBound);
+}
+
+/** What LONG and SHORT stakes pay out of a resolved scalar market (zero until resolved). */
+export function scalarPayout(market: MarketData, longStake: bigint, shortStake: bigint): bigint {
+    const pot = payoutPool(market);
+    const longPot = scalarLongShare(market, pot);
+    const [longPool = 0n, shortPool = 0n] = market.outcomePools;
+    let payout = 0n;
+    if (longStake > 0n && longPool > 0n) payout += (longStake * longPot) / longPool;
+    if (shortStake > 0n && shortPool > 0n) payout += (shortStake * (pot - longPot)) / shortPool;
+    return payout;
+}
+
+/** The value at which LONG and SHORT both break even given the current pools; null while nothing is staked. */
+export function impliedScalarValue(market: MarketData): bigint | null {
+    if (!market.scalar) return null;
+    const total = sumPools(market.outcomePools);
+    if (total === 0n) return null;
+    const { lowerBound, upperBound } = market.scalar;
+    return lowerBound + ((upperBound - lowerBound) * (market.outcomePools[0] ?? 0n)) / total;
+}
@@ -0,0 +1,14 @@
+/** Decimals of the fixed-point prices committed on-chain as price targets and attested by the resolver. */
+export const PRICE_DECIMALS = 8;
+
+export function toFixedPrice(price: number): bigint {
+    return BigInt(Math.round(price * 10 ** PRICE_DECIMALS));
+}
+
+export function fromFixedPrice(fixed: bigint): number {
+    return Number(fixed) / 10 ** PRICE_DECIMALS;
+}
+
+export function formatFixedPrice(fixed: bigint): string {
+    return `$${fromFixedPrice(fixed).toLocaleString()}`;
+}
@@ -0,0 +1,37 @@
+import { networks, Network } from '@btc-vision/bitcoin';
+
+export interface IndexerConfig {
+    contractAddress: string;
+    network: Network;
+    rpcUrl: string;
+    supabaseUrl: string;
+    /** Service role key: the indexed tables are read-only for the anon key. */
+    supabaseKey: string;
+    /** First block to index when the database is empty, normally the deployment block. */
+    startBlock: bigint;
+    pollIntervalMs: number;
+    /** Deepest reorg the indexer unwinds before giving up. */
+    maxReorgDepth: number;
+}
+
+function required(name: string, hint: string): string {
+    const value = process.env[name];
+    if (!value) {
+        console.error(`ERROR: Set ${name}. ${hint}`);
+        process.exit(1);
+    }
+    return value;
+}
+
+export function loadConfig(): IndexerConfig {
+    return {
+        contractAddress: required('CONTRACT_ADDRESS', 'Use the address from deploy/deployment.json.'),
+        network: networks.opnetTestnet,
+        rpcUrl: process.env.RPC_URL ?? 'https://testnet.opnet.org',
+        supabaseUrl: required('SUPABASE_URL', 'Indexed events are written to Supabase.'),
+        supabaseKey: required('SUPABASE_SERVICE_KEY', 'Use the service role key; the anon key cannot write the indexed tables.'),
+        startBlock: BigInt(required('START_BLOCK', 'Use the block the contract was deployed in.')),
+        pollIntervalMs: Number(process.env.POLL_INTERVAL_MS ?? 60 * 1000),
+        maxReorgDepth: Number(process.env.MAX_REORG_DEPTH ?? 100),
+    };
+}
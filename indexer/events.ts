@@ -0,0 +1,92 @@
+import { BinaryReader, NetEvent } from '@btc-vision/transaction';
+
+/** Where an event was emitted; (txId, eventIndex) identifies it across re-runs. */
+export interface EventPosition {
+    txId: string;
+    /** Position among the contract's events in the transaction. */
+    eventIndex: number;
+    blockHeight: bigint;
+    blockTime: Date;
+}
+
+export interface MarketCreated extends EventPosition {
+    kind: 'MarketCreated';
+    marketId: bigint;
+    creator: string;
+    /** Betting stops at this block. */
+    closeBlock: bigint;
+    /** The market can be resolved from this block. */
+    resolveAfterBlock: bigint;
+}
+
+export interface BetPlaced extends EventPosition {
+    kind: 'BetPlaced';
+    marketId: bigint;
+    bettor: string;
+    outcome: number;
+    amount: bigint;
+}
+
+export interface MarketResolved extends EventPosition {
+    kind: 'MarketResolved';
+    marketId: bigint;
+    /** Winning outcome, or the resolved value for scalar markets. */
+    outcome: bigint;
+    /** Who proposed or ruled on the outcome (RESOLVED_BY_* in PredictionMarket.ts). */
+    resolvedBy: number;
+}
+
+export interface WinningsClaimed extends EventPosition {
+    kind: 'WinningsClaimed';
+    marketId: bigint;
+    claimant: string;
+    amount: bigint;
+}
+
+export type IndexedEvent = MarketCreated | BetPlaced | MarketResolved | WinningsClaimed;
+
+/**
+ * Decodes one PredictionMarket event (see the encode*Event functions in
+ * PredictionMarket.ts). Event types the indexer does not store return null.
+ */
+export function decodeEvent(event: NetEvent, position: EventPosition): IndexedEvent | null {
+    const reader = new BinaryReader(event.data);
+    switch (event.type) {
+        case 'MarketCreated':
+            return {
+                ...position,
+                kind: 'MarketCreated',
+                marketId: reader.readU256(),
+                creator: reader.readAddress().toHex(),
+                closeBlock: reader.readU64(),
+                resolveAfterBlock: reader.readU64(),
+            };
+        case 'BetPlaced':
+            return {
+                ...position,
+                kind: 'BetPlaced',
+                marketId: reader.readU256(),
+                bettor: reader.readAddress().toHex(),
+                outcome: Number(reader.readU256()),
+                amount: reader.readU256(),
+            };
+        case 'MarketResolved':
+            return {
+                ...position,
+                kind: 'MarketResolved',
+                marketId: reader.readU256(),
+                outcome: reader.readU256(),
+                resolvedBy: reader.readU8(),
+            };
+        case 'WinningsClaimed':
+            return {
+                ...position,
+                kind: 'WinningsClaimed',
+                marketId: reader.readU256(),
+                claimant: reader.readAddress().toHex(),
+                amount: reader.readU256(),
+            };
+        default:
+            return null;
+    }
+}
@@ -0,0 +1,123 @@
+import { JSONRpcProvider } from 'opnet';
+import type { Block } from 'opnet';
+import { createClient } from '@supabase/supabase-js';
+import { loadConfig, IndexerConfig } from './config';
+import { decodeEvent, IndexedEvent } from './events';
+import { IndexStore } from './store';
+
+// Event indexer: follows blocks from the RPC, decodes the PredictionMarket
+// events and writes them to the markets, bets, resolutions and claims tables
+// (see supabase-schema.sql). Each indexed block's hash is kept so a reorg is
+// detected when the next block doesn't build on it; the indexer then walks
+// back to the last common block and drops everything above it.
+//
+//   npm start      follow the chain, polling every POLL_INTERVAL_MS
+//   npm run once   catch up to the current tip, then exit
+
+interface Indexer {
+    config: IndexerConfig;
+    provider: JSONRpcProvider;
+    store: IndexStore;
+}
+
+// Accept block times in either seconds or milliseconds
+function blockTime(block: Block): Date {
+    return new Date(block.time < 1e12 ? block.time * 1000 : block.time);
+}
+
+function extractEvents(indexer: Indexer, block: Block): IndexedEvent[] {
+    const height = BigInt(block.height);
+    const time = blockTime(block);
+    const events: IndexedEvent[] = [];
+
+    for (const tx of block.transactions) {
+        if (tx.failed) continue;
+        const contractEvents = tx.events[indexer.config.contractAddress] ?? [];
+        contractEvents.forEach((event, eventIndex) => {
+            const decoded = decodeEvent(event, { txId: tx.id, eventIndex, blockHeight: height, blockTime: time });
+            if (decoded) events.push(decoded);
+        });
+    }
+    return events;
+}
+
+/**
+ * Finds the highest block whose stored hash still matches the chain, at most
+ * maxReorgDepth blocks below `height`.
+ */
+async function findCommonAncestor(indexer: Indexer, height: bigint): Promise<bigint> {
+    const floor = height - BigInt(indexer.config.maxReorgDepth);
+    for (let h = height; h >= indexer.config.startBlock && h > floor; h--) {
+        const stored = await indexer.store.getBlockHash(h);
+        const block = await indexer.provider.getBlock(h);
+        if (stored === block.hash) return h;
+    }
+    throw new Error(`Reorg deeper than ${indexer.config.maxReorgDepth} blocks below #${height}; reindex from START_BLOCK`);
+}
+
+/** Indexes every block up to the chain tip. Returns how many blocks were written. */
+async function catchUp(indexer: Indexer): Promise<number> {
+    const chainTip = await indexer.provider.getBlockNumber();
+    const tip = await indexer.store.getTip();
+    let height = tip ? tip.height + 1n : indexer.config.startBlock;
+    let previousHash = tip?.hash ?? null;
+    let written = 0;
+
+    while (height <= chainTip) {
+        const block = await indexer.provider.getBlock(height, true);
+
+        if (previousHash !== null && block.previousBlockHash !== previousHash) {
+            const ancestor = await findCommonAncestor(indexer, height - 1n);
+            console.warn(`Reorg at #${height}: rolling back to #${ancestor}`);
+            await indexer.store.rollbackTo(ancestor);
+            height = ancestor + 1n;
+            previousHash = await indexer.store.getBlockHash(ancestor);
+            continue;
+        }
+
+        const events = extractEvents(indexer, block);
+        await indexer.store.saveBlock(height, block.hash, events);
+        if (events.length > 0) {
+            console.log(`Block #${height}: ${events.length} event${events.length === 1 ? '' : 's'}`);
+        }
+
+        previousHash = block.hash;
+        height++;
+        written++;
+    }
+    return written;
+}
+
+async function main(): Promise<void> {
+    const config = loadConfig();
+    const once = process.argv.includes('--once');
+
+    console.log('=== OPNet Event Indexer ===\n');
+    console.log('Contract:', config.contractAddress);
+
+    const indexer: Indexer = {
+        config,
+        provider: new JSONRpcProvider({ url: config.rpcUrl, network: config.network }),
+        store: new IndexStore(createClient(config.supabaseUrl, config.supabaseKey)),
+    };
+
+    const tip = await indexer.store.getTip();
+    console.log(tip ? `Resuming after block #${tip.height}\n` : `Starting at block #${config.startBlock}\n`);
+
+    for (;;) {
+        try {
+            const written = await catchUp(indexer);
+            if (written > 0) console.log(`Indexed ${written} block${written === 1 ? '' : 's'}`);
+        } catch (err) {
+            console.error('Indexing failed:', err instanceof Error ? err.message : err);
+            if (once) process.exit(1);
+        }
+        if (once) break;
+        await new Promise((resolve) => setTimeout(resolve, config.pollIntervalMs));
+    }
+}
+
+main().catch((err) => {
+    console.error('Indexer failed:', err);
+    process.exit(1);
+});
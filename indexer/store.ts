@@ -0,0 +1,116 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { EventPosition, IndexedEvent } from './events';
+
+// Event tables, each keyed by (tx_id, event_index) except markets
+const EVENT_TABLES = ['markets', 'bets', 'resolutions', 'claims'] as const;
+
+function positionColumns(e: EventPosition): Record<string, string | number> {
+    return {
+        tx_id: e.txId,
+        event_index: e.eventIndex,
+        block_height: e.blockHeight.toString(),
+        block_time: e.blockTime.toISOString(),
+    };
+}
+
+/**
+ * Supabase persistence for the indexer. Every write is an idempotent upsert,
+ * and a block is only recorded in indexed_blocks once its events are stored,
+ * so a crash mid-block is repaired by indexing that block again.
+ */
+export class IndexStore {
+    public constructor(private readonly supabase: SupabaseClient) {}
+
+    /** Highest indexed block, or null when nothing has been indexed yet. */
+    public async getTip(): Promise<{ height: bigint; hash: string } | null> {
+        const { data, error } = await this.supabase
+            .from('indexed_blocks')
+            .select('height, hash')
+            .order('height', { ascending: false })
+            .limit(1);
+        if (error) throw new Error(`Failed to read indexed_blocks: ${error.message}`);
+
+        const row = (data as { height: number; hash: string }[])[0];
+        return row ? { height: BigInt(row.height), hash: row.hash } : null;
+    }
+
+    public async getBlockHash(height: bigint): Promise<string | null> {
+        const { data, error } = await this.supabase
+            .from('indexed_blocks')
+            .select('hash')
+            .eq('height', height.toString())
+            .maybeSingle();
+        if (error) throw new Error(`Failed to read indexed_blocks: ${error.message}`);
+        return (data as { hash: string } | null)?.hash ?? null;
+    }
+
+    public async saveBlock(height: bigint, hash: string, events: IndexedEvent[]): Promise<void> {
+        const markets = [];
+        const bets = [];
+        const resolutions = [];
+        const claims = [];
+
+        for (const e of events) {
+            switch (e.kind) {
+                case 'MarketCreated':
+                    markets.push({
+                        ...positionColumns(e),
+                        market_id: e.marketId.toString(),
+                        creator: e.creator,
+                        close_block: e.closeBlock.toString(),
+                        resolve_after_block: e.resolveAfterBlock.toString(),
+                    });
+                    break;
+                case 'BetPlaced':
+                    bets.push({
+                        ...positionColumns(e),
+                        market_id: e.marketId.toString(),
+                        bettor: e.bettor,
+                        outcome: e.outcome,
+                        amount: e.amount.toString(),
+                    });
+                    break;
+                case 'MarketResolved':
+                    resolutions.push({
+                        ...positionColumns(e),
+                        market_id: e.marketId.toString(),
+                        outcome: e.outcome.toString(),
+                        resolved_by: e.resolvedBy,
+                    });
+                    break;
+                case 'WinningsClaimed':
+                    claims.push({
+                        ...positionColumns(e),
+                        market_id: e.marketId.toString(),
+                        claimant: e.claimant,
+                        amount: e.amount.toString(),
+                    });
+                    break;
+            }
+        }
+
+        await this.upsert('markets', markets, 'market_id');
+        await this.upsert('bets', bets, 'tx_id,event_index');
+        await this.upsert('resolutions', resolutions, 'tx_id,event_index');
+        await this.upsert('claims', claims, 'tx_id,event_index');
+        await this.upsert('indexed_blocks', [{ height: height.toString(), hash }], 'height');
+    }
+
+    /** Drops everything indexed above `height`, the last block both chains agree on. */
+    public async rollbackTo(height: bigint): Promise<void> {
+        for (const table of EVENT_TABLES) {
+            const { error } = await this.supabase.from(table).delete().gt('block_height', height.toString());
+            if (error) throw new Error(`Failed to roll back ${table}: ${error.message}`);
+        }
+
+        // Last, so an interrupted rollback is retried from the same tip
+        const { error } = await this.supabase.from('indexed_blocks').delete().gt('height', height.toString());
+        if (error) throw new Error(`Failed to roll back indexed_blocks: ${error.message}`);
+    }
+
+    private async upsert(table: string, rows: object[], onConflict: string): Promise<void> {
+        if (rows.length === 0) return;
+        const { error } = await this.supabase.from(table).upsert(rows, { onConflict });
+        if (error) throw new Error(`Failed to write ${table}: ${error.message}`);
+    }
+}
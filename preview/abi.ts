@@ -0,0 +1,18 @@
+import { ABIDataTypes, BitcoinAbiTypes } from 'opnet';
+import type { BitcoinInterfaceAbi } from 'opnet';
+
+/** The subset of the PredictionMarket ABI the preview server calls. */
+export const PREVIEW_ABI: BitcoinInterfaceAbi = [
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'getMarkets',
+        inputs: [
+            { name: 'offset', type: ABIDataTypes.UINT256 },
+            { name: 'limit', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'total', type: ABIDataTypes.UINT256 },
+            { name: 'records', type: ABIDataTypes.BYTES },
+        ],
+    },
+];
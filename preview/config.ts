@@ -0,0 +1,39 @@
+import { networks, Network } from '@btc-vision/bitcoin';
+
+export interface PreviewConfig {
+    contractAddress: string;
+    network: Network;
+    rpcUrl: string;
+    supabaseUrl: string;
+    supabaseKey: string;
+    port: number;
+    /** Built dApp (vite build output) served for every other route. */
+    distDir: string;
+    /** Public origin of the dApp, used for the absolute URLs crawlers require. */
+    publicUrl: string;
+    /** How long a market's preview is reused before it is read again. */
+    cacheTtlMs: number;
+}
+
+function required(name: string, hint: string): string {
+    const value = process.env[name];
+    if (!value) {
+        console.error(`ERROR: Set ${name}. ${hint}`);
+        process.exit(1);
+    }
+    return value;
+}
+
+export function loadConfig(): PreviewConfig {
+    return {
+        contractAddress: required('CONTRACT_ADDRESS', 'Use the address from deploy/deployment.json.'),
+        network: networks.opnetTestnet,
+        rpcUrl: process.env.RPC_URL ?? 'https://testnet.opnet.org',
+        supabaseUrl: required('SUPABASE_URL', 'Market questions are read from Supabase.'),
+        supabaseKey: required('SUPABASE_ANON_KEY', 'Market questions are read from Supabase.'),
+        port: Number(process.env.PORT ?? 3000),
+        distDir: process.env.DIST_DIR ?? '../frontend/dist',
+        publicUrl: required('PUBLIC_URL', 'The https origin the dApp is served from, e.g. https://oprophet.app.').replace(/\/$/, ''),
+        cacheTtlMs: Number(process.env.CACHE_TTL_MS ?? 60 * 1000),
+    };
+}
@@ -0,0 +1,161 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import * as fs from 'fs';
+import * as path from 'path';
+import { JSONRpcProvider, getContract, BaseContractProperties } from 'opnet';
+import { createClient } from '@supabase/supabase-js';
+import { loadConfig, PreviewConfig } from './config';
+import { PREVIEW_ABI } from './abi';
+import { fetchMarketPreview, MarketPreview } from './market';
+import { injectMeta, renderImage } from './render';
+
+// Market preview server: serves the built dApp, and for /market/:id adds Open
+// Graph and Twitter tags (verified question, current odds, close date) to
+// index.html so shared links unfurl in chat apps and social sites. The card
+// image is rendered at /og/market/:id.png. Run it in front of the build, or
+// route /market/* and /og/* to it from the static host.
+//
+//   cd ../frontend && npm run build
+//   npm start
+
+const MARKET_PAGE = /^\/market\/(\d+)\/?$/;
+const MARKET_IMAGE = /^\/og\/market\/(\d+)\.png$/;
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript; charset=utf-8',
+    '.css': 'text/css; charset=utf-8',
+    '.json': 'application/json',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.ico': 'image/x-icon',
+    '.woff': 'font/woff',
+    '.woff2': 'font/woff2',
+    '.wasm': 'application/wasm',
+};
+
+type MarketContract = Record<string, (...args: any[]) => Promise<any>>;
+
+interface PreviewServer {
+    config: PreviewConfig;
+    provider: JSONRpcProvider;
+    contract: MarketContract;
+    supabase: ReturnType<typeof createClient>;
+    distDir: string;
+    indexHtml: string;
+    /** Recent previews by market id; null records an unknown id. */
+    cache: Map<string, { preview: Promise<MarketPreview | null>; fetchedAt: number }>;
+}
+
+function getPreview(server: PreviewServer, id: bigint): Promise<MarketPreview | null> {
+    const key = id.toString();
+    const cached = server.cache.get(key);
+    if (cached && Date.now() - cached.fetchedAt < server.config.cacheTtlMs) return cached.preview;
+
+    const preview = fetchMarketPreview(server.contract, server.provider, server.supabase, id);
+    server.cache.set(key, { preview, fetchedAt: Date.now() });
+    // Failed reads are retried on the next request rather than cached
+    preview.catch(() => server.cache.delete(key));
+    return preview;
+}
+
+function send(res: ServerResponse, status: number, type: string, body: string | Buffer, maxAge = 0): void {
+    res.writeHead(status, {
+        'Content-Type': type,
+        'Cache-Control': maxAge > 0 ? `public, max-age=${maxAge}` : 'no-cache',
+    });
+    res.end(body);
+}
+
+function serveStatic(server: PreviewServer, pathname: string, res: ServerResponse): void {
+    const file = path.resolve(server.distDir, `.${decodeURIComponent(pathname)}`);
+    if (file.startsWith(server.distDir + path.sep) && fs.existsSync(file) && fs.statSync(file).isFile()) {
+        const type = CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream';
+        // Vite fingerprints chunk names, so everything but index.html can be cached
+        send(res, 200, type, fs.readFileSync(file), 24 * 60 * 60);
+        return;
+    }
+    // Client-side routes fall back to the app shell
+    send(res, 200, CONTENT_TYPES['.html'], server.indexHtml);
+}
+
+async function handle(server: PreviewServer, req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+        send(res, 405, 'text/plain', 'Method not allowed');
+        return;
+    }
+    const { pathname } = new URL(req.url ?? '/', server.config.publicUrl);
+
+    const image = MARKET_IMAGE.exec(pathname);
+    if (image) {
+        const preview = await getPreview(server, BigInt(image[1]));
+        if (!preview) {
+            send(res, 404, 'text/plain', 'Market not found');
+            return;
+        }
+        send(res, 200, CONTENT_TYPES['.png'], renderImage(preview), Math.floor(server.config.cacheTtlMs / 1000));
+        return;
+    }
+
+    const page = MARKET_PAGE.exec(pathname);
+    if (page) {
+        // Unknown ids still get the app, which shows its own not-found state
+        const preview = await getPreview(server, BigInt(page[1]));
+        const html = preview
+            ? injectMeta(
+                server.indexHtml,
+                preview,
+                `${server.config.publicUrl}/market/${preview.id}`,
+                `${server.config.publicUrl}/og/market/${preview.id}.png`,
+            )
+            : server.indexHtml;
+        send(res, 200, CONTENT_TYPES['.html'], html);
+        return;
+    }
+
+    serveStatic(server, pathname, res);
+}
+
+function main(): void {
+    const config = loadConfig();
+    const distDir = path.resolve(config.distDir);
+    const indexPath = path.join(distDir, 'index.html');
+    if (!fs.existsSync(indexPath)) {
+        console.error(`ERROR: ${indexPath} not found. Run: cd ../frontend && npm run build`);
+        process.exit(1);
+    }
+
+    console.log('=== OPNet Market Preview Server ===\n');
+    console.log('Contract:', config.contractAddress);
+    console.log('Serving:', distDir);
+
+    const provider = new JSONRpcProvider({ url: config.rpcUrl, network: config.network });
+    const server: PreviewServer = {
+        config,
+        provider,
+        contract: getContract<BaseContractProperties>(
+            config.contractAddress,
+            PREVIEW_ABI,
+            provider,
+            config.network,
+        ) as unknown as MarketContract,
+        supabase: createClient(config.supabaseUrl, config.supabaseKey),
+        distDir,
+        indexHtml: fs.readFileSync(indexPath, 'utf-8'),
+        cache: new Map(),
+    };
+
+    createServer((req, res) => {
+        handle(server, req, res).catch((err) => {
+            console.error(`${req.url}:`, err instanceof Error ? err.message : err);
+            if (res.headersSent) return;
+            // A failed preview still serves pages as the plain app; only images error
+            if (MARKET_IMAGE.test(req.url ?? '')) send(res, 503, 'text/plain', 'Preview unavailable');
+            else send(res, 200, CONTENT_TYPES['.html'], server.indexHtml);
+        });
+    }).listen(config.port, () => {
+        console.log(`Listening on http://localhost:${config.port}`);
+    });
+}
+
+main();
@@ -0,0 +1,207 @@
+import { createHash } from 'crypto';
+import { BinaryReader } from '@btc-vision/transaction';
+import type { CallResult, JSONRpcProvider } from 'opnet';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Mirrors the contract's market status codes
+const STATUS_LABELS: Record<string, string> = {
+    '1': 'Live',
+    '2': 'Resolved',
+    '3': 'Cancelled',
+    '4': 'Proposed',
+    '5': 'Disputed',
+};
+
+// Depth of the header sample used to measure the average block time (~1 week)
+const CLOCK_DEPTH = 1008n;
+const NOMINAL_BLOCK_TIME_MS = 10 * 60 * 1000;
+
+type MarketContract = Record<string, (...args: any[]) => Promise<any>>;
+
+/** Everything a market's preview shows. */
+export interface MarketPreview {
+    id: bigint;
+    /** The verified question, or a generic title when Supabase has no matching row. */
+    title: string;
+    status: string;
+    /** Outcome labels and their share of the total pool, in percent. */
+    outcomes: { label: string; percent: number }[];
+    /** Winning outcome label once resolved. */
+    winner: string | null;
+    totalPool: bigint;
+    /** Block betting closes at, and its estimated date. */
+    closeBlock: bigint;
+    closeDate: Date;
+}
+
+interface ChainMarket {
+    id: bigint;
+    closeBlock: bigint;
+    status: bigint;
+    outcome: bigint;
+    contentHash: bigint;
+    /** Scalar markets only; the upper bound is zero otherwise. */
+    lowerBound: bigint;
+    upperBound: bigint;
+    isPrivate: boolean;
+    pools: bigint[];
+}
+
+interface QuestionRow {
+    question: string;
+    category: string | null;
+    coin: string | null;
+    target_price: number | null;
+    deadline: string | null;
+    outcomes: string[] | null;
+}
+
+/** Decodes one packed getMarkets record (see PredictionMarket.writeMarketRecord). */
+function readMarketRecord(reader: BinaryReader): ChainMarket {
+    const id = reader.readU256();
+    reader.readU256(); // creator
+    const closeBlock = reader.readU64();
+    reader.readU64(); // resolveAfterBlock
+    reader.readU256(); // oracle
+    const status = reader.readU256();
+    const outcome = reader.readU256();
+    reader.readU256(); // protocolFeeBps
+    reader.readU256(); // creatorFeeBps
+    reader.readU256(); // protocolFee
+    reader.readU256(); // creatorFee
+    reader.readU256(); // committeeSize
+    reader.readU256(); // exitSpread
+    const contentHash = reader.readU256();
+    const lowerBound = reader.readU256();
+    const upperBound = reader.readU256();
+    reader.readU256(); // fallbackOracle
+    reader.readU64(); // timeoutBlock
+    reader.readU8(); // resolvedBy
+    const isPrivate = reader.readBoolean();
+    reader.readU256(); // allowlistRoot
+    const outcomeCount = reader.readU16();
+    const pools: bigint[] = [];
+    for (let i = 0; i < outcomeCount; i++) pools.push(reader.readU256());
+    return { id, closeBlock, status, outcome, contentHash, lowerBound, upperBound, isPrivate, pools };
+}
+
+async function fetchChainMarket(contract: MarketContract, id: bigint): Promise<ChainMarket | null> {
+    if (id < 1n) return null;
+    const result = await contract.getMarkets(id - 1n, 1n) as CallResult<{ total: bigint; records: Uint8Array }>;
+    if (result.revert) throw new Error(`getMarkets reverted: ${String(result.revert)}`);
+    if (id > result.properties.total) return null;
+    return readMarketRecord(new BinaryReader(result.properties.records));
+}
+
+function sha256(data: string | Buffer): Buffer {
+    return createHash('sha256').update(data).digest();
+}
+
+/**
+ * The content hash the contract derives at creation, with the metadata
+ * hashed in the same canonical form as the dApp
+ * (frontend/src/utils/marketQuestions.ts). Rows that don't match are ignored,
+ * since market_questions is publicly writable.
+ */
+function contentHash(row: QuestionRow): bigint {
+    const metadata = JSON.stringify({
+        category: row.category || 'price',
+        coin: row.coin || null,
+        targetPrice: row.target_price || null,
+        deadline: row.deadline ? new Date(row.deadline).toISOString() : null,
+    });
+    const labels = Array.isArray(row.outcomes) ? row.outcomes : [];
+    const parts = Buffer.concat([row.question, ...labels, metadata].map((text) => sha256(text)));
+    return BigInt(`0x${sha256(parts).toString('hex')}`);
+}
+
+async function fetchVerifiedQuestion(supabase: SupabaseClient, market: ChainMarket): Promise<QuestionRow | null> {
+    const { data, error } = await supabase
+        .from('market_questions')
+        .select('question, category, coin, target_price, deadline, outcomes')
+        .eq('market_id', Number(market.id))
+        .maybeSingle();
+    if (error) throw new Error(`Failed to read market_questions: ${error.message}`);
+
+    const row = data as QuestionRow | null;
+    return row && contentHash(row) === market.contentHash ? row : null;
+}
+
+// Accept block times in either seconds or milliseconds
+function toMs(time: number): number {
+    return time < 1e12 ? time * 1000 : time;
+}
+
+/** Estimates when `height` is (or was) mined from the tip and a week of real headers. */
+async function estimateBlockDate(provider: JSONRpcProvider, height: bigint): Promise<Date> {
+    const tipHeight = await provider.getBlockNumber();
+    const [past, tip] = await provider.getBlocks([tipHeight > CLOCK_DEPTH ? tipHeight - CLOCK_DEPTH : 0n, tipHeight]);
+
+    const span = Number(BigInt(tip.height) - BigInt(past.height));
+    const blockTimeMs = span > 0 && toMs(tip.time) > toMs(past.time)
+        ? (toMs(tip.time) - toMs(past.time)) / span
+        : NOMINAL_BLOCK_TIME_MS;
+    return new Date(toMs(tip.time) + Number(height - BigInt(tip.height)) * blockTimeMs);
+}
+
+/**
+ * A scalar market's value for display. Price markets (with a coin) use the
+ * dApp's 8-decimal fixed point; other values are shown as plain integers.
+ */
+function formatScalarValue(value: bigint, coin: string | null): string {
+    if (!coin) return value.toLocaleString('en-US');
+    const price = Number(value) / 100_000_000;
+    return `${coin} $${price.toLocaleString('en-US', { maximumFractionDigits: 2 })}`;
+}
+
+function outcomePercents(pools: bigint[]): number[] {
+    const total = pools.reduce((acc, p) => acc + p, 0n);
+    if (total === 0n) return pools.map(() => 100 / pools.length);
+    return pools.map((p) => Number((p * 10000n) / total) / 100);
+}
+
+/**
+ * Reads a market's preview, or null when no market has that id. Private
+ * markets are treated as missing so their questions never reach link
+ * unfurlers or search engines.
+ */
+export async function fetchMarketPreview(
+    contract: MarketContract,
+    provider: JSONRpcProvider,
+    supabase: SupabaseClient,
+    id: bigint,
+): Promise<MarketPreview | null> {
+    const market = await fetchChainMarket(contract, id);
+    if (!market || market.isPrivate) return null;
+
+    const [row, closeDate] = await Promise.all([
+        fetchVerifiedQuestion(supabase, market),
+        estimateBlockDate(provider, market.closeBlock),
+    ]);
+
+    const scalar = market.upperBound > 0n;
+    const labels = market.pools.length > 2 && Array.isArray(row?.outcomes)
+        ? row.outcomes
+        : market.pools.length > 2
+            ? market.pools.map((_, i) => `Outcome ${i + 1}`)
+            : scalar ? ['LONG', 'SHORT'] : ['YES', 'NO'];
+    const percents = outcomePercents(market.pools);
+    const resolved = market.status === 2n && market.outcome > 0n;
+    // A scalar market's outcome is the value it resolved at
+    const winner = !resolved
+        ? null
+        : scalar
+            ? formatScalarValue(market.outcome, row?.coin ?? null)
+            : labels[Number(market.outcome) - 1] ?? null;
+
+    return {
+        id,
+        title: row?.question ?? `Prediction market #${id}`,
+        status: STATUS_LABELS[market.status.toString()] ?? 'Unknown',
+        outcomes: labels.map((label, i) => ({ label, percent: percents[i] ?? 0 })),
+        winner,
+        totalPool: market.pools.reduce((acc, p) => acc + p, 0n),
+        closeBlock: market.closeBlock,
+        closeDate,
+    };
+}
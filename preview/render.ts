@@ -0,0 +1,153 @@
+import { Resvg } from '@resvg/resvg-js';
+import { MarketPreview } from './market';
+
+const SITE_NAME = 'OProphet';
+
+// Open Graph's recommended card size
+const IMAGE_WIDTH = 1200;
+const IMAGE_HEIGHT = 630;
+
+// Same colours as the dApp: green/red for YES/NO, and the categorical
+// palette from frontend/src/utils/outcomes.ts otherwise
+const BINARY_COLORS = ['#22c55e', '#ef4444'];
+const OUTCOME_COLORS = ['#f7931a', '#3b82f6', '#a855f7', '#14b8a6', '#eab308', '#ec4899', '#22c55e', '#ef4444'];
+
+// Most outcomes the card lists; the rest are summarised
+const MAX_CARD_OUTCOMES = 4;
+
+function outcomeColor(preview: MarketPreview, index: number): string {
+    const palette = preview.outcomes.length > 2 ? OUTCOME_COLORS : BINARY_COLORS;
+    return palette[index % palette.length];
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+function formatSats(sats: bigint): string {
+    const btc = Number(sats) / 100_000_000;
+    if (btc >= 0.001) return `${btc.toFixed(4)} BTC`;
+    return `${sats.toLocaleString('en-US')} sats`;
+}
+
+function formatDate(date: Date): string {
+    return date.toLocaleDateString('en-US', { year: 'numeric', month: 'short', day: 'numeric', timeZone: 'UTC' });
+}
+
+/** One-line summary for the description tags. */
+function describeMarket(preview: MarketPreview): string {
+    const odds = preview.outcomes.map((o) => `${o.label} ${o.percent.toFixed(1)}%`).join(' · ');
+    const ending = preview.winner
+        ? `Resolved: ${preview.winner}`
+        : preview.closeDate.getTime() > Date.now()
+            ? `Closes ~${formatDate(preview.closeDate)}`
+            : `Closed ~${formatDate(preview.closeDate)}`;
+    return `${odds} — ${ending} — Pool ${formatSats(preview.totalPool)}`;
+}
+
+/** Splits the title into at most `maxLines` lines of roughly `width` characters. */
+function wrapTitle(title: string, width: number, maxLines: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of title.split(/\s+/)) {
+        if (line && line.length + word.length + 1 > width) {
+            lines.push(line);
+            line = word;
+        } else {
+            line = line ? `${line} ${word}` : word;
+        }
+    }
+    if (line) lines.push(line);
+    if (lines.length > maxLines) {
+        lines.length = maxLines;
+        lines[maxLines - 1] = `${lines[maxLines - 1].slice(0, width - 1)}…`;
+    }
+    return lines;
+}
+
+function renderSvg(preview: MarketPreview): string {
+    const titleLines = wrapTitle(preview.title, 38, 3);
+    const title = titleLines
+        .map((line, i) => `<text x="64" y="${180 + i * 64}" font-size="52" font-weight="700" fill="#e4e4ec">${escapeXml(line)}</text>`)
+        .join('');
+
+    // Stacked bar of each outcome's share of the pool
+    const barWidth = IMAGE_WIDTH - 128;
+    let x = 64;
+    const segments = preview.outcomes.map((o, i) => {
+        const width = (o.percent / 100) * barWidth;
+        const rect = `<rect x="${x}" y="420" width="${width}" height="28" fill="${outcomeColor(preview, i)}"/>`;
+        x += width;
+        return rect;
+    }).join('');
+
+    const shown = preview.outcomes.slice(0, MAX_CARD_OUTCOMES);
+    const legend = shown
+        .map((o, i) => {
+            const lx = 64 + i * (barWidth / shown.length);
+            return `<text x="${lx}" y="500" font-size="34" font-weight="700" fill="${outcomeColor(preview, i)}">`
+                + `${escapeXml(o.label.slice(0, 14))} ${o.percent.toFixed(1)}%</text>`;
+        })
+        .join('');
+    const more = preview.outcomes.length > MAX_CARD_OUTCOMES
+        ? `<text x="${IMAGE_WIDTH - 64}" y="380" text-anchor="end" font-size="24" fill="#8888a0">+${preview.outcomes.length - MAX_CARD_OUTCOMES} more outcomes</text>`
+        : '';
+
+    const footer = preview.winner
+        ? `Resolved: ${preview.winner}`
+        : `${preview.closeDate.getTime() > Date.now() ? 'Closes' : 'Closed'} ~${formatDate(preview.closeDate)} · block #${preview.closeBlock}`;
+
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="${IMAGE_WIDTH}" height="${IMAGE_HEIGHT}" font-family="Inter, Helvetica, Arial, sans-serif">`
+        + `<rect width="100%" height="100%" fill="#0f0f17"/>`
+        + `<text x="64" y="92" font-size="30" font-weight="700" fill="#f7931a">${SITE_NAME}</text>`
+        + `<text x="${IMAGE_WIDTH - 64}" y="92" text-anchor="end" font-size="26" fill="#8888a0">#${preview.id} · ${escapeXml(preview.status)}</text>`
+        + title
+        + more
+        + `<rect x="64" y="420" width="${barWidth}" height="28" fill="#2a2a3a"/>`
+        + segments
+        + legend
+        + `<text x="64" y="580" font-size="28" fill="#8888a0">${escapeXml(footer)}</text>`
+        + `<text x="${IMAGE_WIDTH - 64}" y="580" text-anchor="end" font-size="28" fill="#e4e4ec">Pool ${escapeXml(formatSats(preview.totalPool))}</text>`
+        + `</svg>`;
+}
+
+/** The market's preview card as a PNG; unfurlers don't accept SVG images. */
+export function renderImage(preview: MarketPreview): Buffer {
+    return new Resvg(renderSvg(preview), { fitTo: { mode: 'width', value: IMAGE_WIDTH } }).render().asPng();
+}
+
+/**
+ * Adds the market's Open Graph and Twitter tags to the dApp's index.html and
+ * retitles it, so crawlers that don't run JavaScript still see the market.
+ */
+export function injectMeta(indexHtml: string, preview: MarketPreview, pageUrl: string, imageUrl: string): string {
+    const title = `${preview.title} | ${SITE_NAME}`;
+    const description = describeMarket(preview);
+    const tags = [
+        ['property', 'og:type', 'website'],
+        ['property', 'og:site_name', SITE_NAME],
+        ['property', 'og:title', preview.title],
+        ['property', 'og:description', description],
+        ['property', 'og:url', pageUrl],
+        ['property', 'og:image', imageUrl],
+        ['property', 'og:image:width', String(IMAGE_WIDTH)],
+        ['property', 'og:image:height', String(IMAGE_HEIGHT)],
+        ['name', 'twitter:card', 'summary_large_image'],
+        ['name', 'twitter:title', preview.title],
+        ['name', 'twitter:description', description],
+        ['name', 'twitter:image', imageUrl],
+        ['name', 'description', description],
+    ]
+        .map(([attr, key, value]) => `    <meta ${attr}="${key}" content="${escapeXml(value)}" />`)
+        .join('\n');
+
+    // Replacer functions, so a `$` in the question isn't read as a pattern
+    return indexHtml
+        .replace(/<title>[^<]*<\/title>/, () => `<title>${escapeXml(title)}</title>`)
+        .replace('</head>', () => `${tags}\n</head>`);
+}
@@ -0,0 +1,63 @@
+import { ABIDataTypes, BitcoinAbiTypes } from 'opnet';
+import type { BitcoinInterfaceAbi } from 'opnet';
+
+/** The subset of the PredictionMarket ABI the resolver calls. */
+export const RESOLVER_ABI: BitcoinInterfaceAbi = [
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'getMarkets',
+        inputs: [
+            { name: 'offset', type: ABIDataTypes.UINT256 },
+            { name: 'limit', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'total', type: ABIDataTypes.UINT256 },
+            { name: 'records', type: ABIDataTypes.BYTES },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'getPriceTarget',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'targetPrice', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'isPriceSigner',
+        inputs: [
+            { name: 'signer', type: ABIDataTypes.EXTENDED_ADDRESS },
+        ],
+        outputs: [
+            { name: 'approved', type: ABIDataTypes.BOOL },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'resolveWithPrice',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+            { name: 'price', type: ABIDataTypes.UINT256 },
+            { name: 'observedBlock', type: ABIDataTypes.UINT64 },
+            { name: 'signer', type: ABIDataTypes.EXTENDED_ADDRESS },
+            { name: 'signature', type: ABIDataTypes.BYTES },
+        ],
+        outputs: [
+            { name: 'outcome', type: ABIDataTypes.UINT256 },
+        ],
+    },
+    {
+        type: BitcoinAbiTypes.Function,
+        name: 'resolveMarket',
+        inputs: [
+            { name: 'marketId', type: ABIDataTypes.UINT256 },
+            { name: 'outcome', type: ABIDataTypes.UINT256 },
+        ],
+        outputs: [
+            { name: 'success', type: ABIDataTypes.BOOL },
+        ],
+    },
+];
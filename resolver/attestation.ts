@@ -0,0 +1,73 @@
+import { Address, BinaryWriter, MessageSigner, Wallet } from '@btc-vision/transaction';
+import { Network } from '@btc-vision/bitcoin';
+import { PriceQuote } from './sources';
+
+// Prices go on-chain as fixed-point integers with 8 decimals
+export const PRICE_DECIMALS = 8;
+
+export interface SignedAttestation {
+    marketId: string;
+    coin: string;
+    /** Fixed-point price, PRICE_DECIMALS decimals. */
+    price: string;
+    observedBlock: string;
+    observedAt: string;
+    source: string;
+    /** Tweaked public key of the signer, hex. */
+    signer: string;
+    signature: string;
+    signedAt: string;
+}
+
+function toHex(bytes: Uint8Array): string {
+    return Array.from(bytes).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function toFixedPrice(price: number): bigint {
+    return BigInt(Math.round(price * 10 ** PRICE_DECIMALS));
+}
+
+/**
+ * The bytes an attestation signs, matching PredictionMarket's
+ * encodePriceAttestation: contract address, market id, price, observed block.
+ */
+export function encodeAttestation(contract: Address, marketId: bigint, price: bigint, observedBlock: bigint): Uint8Array {
+    const writer = new BinaryWriter();
+    writer.writeAddress(contract);
+    writer.writeU256(marketId);
+    writer.writeU256(price);
+    writer.writeU64(observedBlock);
+    return writer.getBuffer();
+}
+
+/**
+ * Schnorr-signs the attestation with the wallet's tweaked key. The contract
+ * whitelists the wallet's full address, ML-DSA key hash and tweaked key together.
+ */
+export function signAttestation(
+    wallet: Wallet,
+    network: Network,
+    contract: Address,
+    marketId: bigint,
+    quote: PriceQuote,
+    observedBlock: bigint,
+): { attestation: SignedAttestation; signature: Uint8Array } {
+    const price = toFixedPrice(quote.price);
+    const message = encodeAttestation(contract, marketId, price, observedBlock);
+    const { signature } = MessageSigner.tweakAndSignMessage(wallet.keypair, message, network);
+
+    return {
+        signature,
+        attestation: {
+            marketId: marketId.toString(),
+            coin: quote.coin,
+            price: price.toString(),
+            observedBlock: observedBlock.toString(),
+            observedAt: quote.observedAt.toISOString(),
+            source: quote.source,
+            signer: wallet.address.tweakedToHex(),
+            signature: toHex(signature),
+            signedAt: new Date().toISOString(),
+        },
+    };
+}
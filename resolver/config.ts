@@ -0,0 +1,50 @@
+import { networks, Network } from '@btc-vision/bitcoin';
+
+export type PriceSourceName = 'coingecko' | 'fixture';
+
+export interface ResolverConfig {
+    mnemonic: string;
+    contractAddress: string;
+    network: Network;
+    rpcUrl: string;
+    supabaseUrl: string;
+    supabaseKey: string;
+    priceSource: PriceSourceName;
+    fixturePath: string;
+    pollIntervalMs: number;
+    /** Fetch and sign, but never broadcast. */
+    dryRun: boolean;
+    /** Directory signed attestations are written to, one JSON file per market. */
+    attestationDir: string;
+}
+
+function required(name: string, hint: string): string {
+    const value = process.env[name];
+    if (!value) {
+        console.error(`ERROR: Set ${name}. ${hint}`);
+        process.exit(1);
+    }
+    return value;
+}
+
+export function loadConfig(): ResolverConfig {
+    const priceSource = (process.env.PRICE_SOURCE ?? 'coingecko') as PriceSourceName;
+    if (priceSource !== 'coingecko' && priceSource !== 'fixture') {
+        console.error(`ERROR: Unknown PRICE_SOURCE "${priceSource}". Use coingecko or fixture.`);
+        process.exit(1);
+    }
+
+    return {
+        mnemonic: required('MNEMONIC', 'Run: cd ../deploy && npm run generate-wallet'),
+        contractAddress: required('CONTRACT_ADDRESS', 'Use the address from deploy/deployment.json.'),
+        network: networks.opnetTestnet,
+        rpcUrl: process.env.RPC_URL ?? 'https://testnet.opnet.org',
+        supabaseUrl: required('SUPABASE_URL', 'Market metadata (coin, target, deadline) is read from Supabase.'),
+        supabaseKey: required('SUPABASE_ANON_KEY', 'Market metadata (coin, target, deadline) is read from Supabase.'),
+        priceSource,
+        fixturePath: process.env.FIXTURE_PATH ?? 'fixtures/prices.json',
+        pollIntervalMs: Number(process.env.POLL_INTERVAL_MS ?? 10 * 60 * 1000),
+        dryRun: process.env.DRY_RUN === '1' || process.env.DRY_RUN === 'true',
+        attestationDir: process.env.ATTESTATION_DIR ?? 'attestations',
+    };
+}
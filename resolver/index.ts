@@ -0,0 +1,214 @@
+import { Address, Mnemonic, Wallet } from '@btc-vision/transaction';
+import { MLDSASecurityLevel } from '@btc-vision/bip32';
+import { JSONRpcProvider, getContract, BaseContractProperties } from 'opnet';
+import type { CallResult } from 'opnet';
+import { createClient } from '@supabase/supabase-js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { loadConfig, ResolverConfig } from './config';
+import { RESOLVER_ABI } from './abi';
+import { createPriceSource, PriceSource } from './sources';
+import { signAttestation, toFixedPrice, PRICE_DECIMALS } from './attestation';
+import { fetchAllMarkets, fetchPriceMetadata, ChainMarket, PriceMarketMetadata, STATUS_OPEN } from './markets';
+
+// Price resolver: watches binary price markets whose resolution block has
+// passed and resolves them from a price feed. Markets with an on-chain price
+// target get a signed attestation relayed through resolveWithPrice (this wallet
+// must be an approved price signer); otherwise markets whose oracle is this
+// wallet are resolved directly with resolveMarket.
+//
+//   npm start          poll every POLL_INTERVAL_MS
+//   npm run once       one pass, then exit
+//   npm run fixture    one dry-run pass against fixtures/prices.json
+
+const OUTCOME_YES = 1n;
+const OUTCOME_NO = 2n;
+
+type MarketContract = Record<string, (...args: any[]) => Promise<any>>;
+
+interface Resolver {
+    config: ResolverConfig;
+    wallet: Wallet;
+    provider: JSONRpcProvider;
+    contract: MarketContract;
+    contractAddress: Address;
+    supabase: ReturnType<typeof createClient>;
+    source: PriceSource;
+    isPriceSigner: boolean;
+    /** Markets a resolution was broadcast for; skipped until they leave OPEN. */
+    submitted: Set<bigint>;
+}
+
+function formatPrice(fixed: bigint): string {
+    return (Number(fixed) / 10 ** PRICE_DECIMALS).toLocaleString('en-US', { maximumFractionDigits: PRICE_DECIMALS });
+}
+
+function saveAttestation(dir: string, marketId: bigint, attestation: object): string {
+    fs.mkdirSync(dir, { recursive: true });
+    const file = path.join(dir, `market-${marketId}.json`);
+    fs.writeFileSync(file, JSON.stringify(attestation, null, 2));
+    return file;
+}
+
+async function resolveMarket(r: Resolver, market: ChainMarket, meta: PriceMarketMetadata): Promise<void> {
+    const label = `Market #${market.id} (${meta.question})`;
+
+    if (meta.deadline.getTime() > Date.now()) {
+        console.log(`${label}: resolution block reached before the ${meta.deadline.toISOString()} deadline, waiting`);
+        return;
+    }
+
+    const targetResult = await r.contract.getPriceTarget(market.id) as CallResult<{ targetPrice: bigint }>;
+    if (targetResult.revert) throw new Error(`getPriceTarget reverted: ${String(targetResult.revert)}`);
+    const onChainTarget = targetResult.properties.targetPrice;
+    const isOracle = market.oracle === BigInt(r.wallet.address.toHex());
+
+    const attested = onChainTarget > 0n && r.isPriceSigner;
+    if (!attested && !isOracle) {
+        console.log(`${label}: no price target this wallet can attest to and not its oracle, skipping`);
+        return;
+    }
+
+    const quote = await r.source.getPrice(meta.coin, meta.deadline);
+    if (!quote) {
+        console.warn(`${label}: ${r.source.name} has no ${meta.coin} price for ${meta.deadline.toISOString()}`);
+        return;
+    }
+
+    const metadataTarget = toFixedPrice(meta.targetPrice);
+    if (onChainTarget > 0n && onChainTarget !== metadataTarget) {
+        console.warn(`${label}: on-chain target ${formatPrice(onChainTarget)} differs from metadata ${formatPrice(metadataTarget)}; the contract uses its own`);
+    }
+
+    // The attestation pins the price to the market's resolution block, the
+    // earliest block the contract accepts an observation for
+    const { attestation, signature } = signAttestation(
+        r.wallet,
+        r.config.network,
+        r.contractAddress,
+        market.id,
+        quote,
+        market.resolveAfterBlock,
+    );
+    const file = saveAttestation(r.config.attestationDir, market.id, attestation);
+    const price = BigInt(attestation.price);
+    console.log(`${label}: ${meta.coin} = ${formatPrice(price)} at ${attestation.observedAt} (${quote.source}), attestation saved to ${file}`);
+
+    const target = attested ? onChainTarget : metadataTarget;
+    const outcome = price >= target ? OUTCOME_YES : OUTCOME_NO;
+    const sim = attested
+        ? await r.contract.resolveWithPrice(market.id, price, market.resolveAfterBlock, r.wallet.address, signature)
+        : await r.contract.resolveMarket(market.id, outcome);
+    if (sim.revert) throw new Error(`Simulation reverted: ${String(sim.revert)}`);
+
+    const outcomeLabel = outcome === OUTCOME_YES ? 'YES' : 'NO';
+    if (r.config.dryRun) {
+        console.log(`${label}: would propose ${outcomeLabel} via ${attested ? 'resolveWithPrice' : 'resolveMarket'} (dry run)`);
+        return;
+    }
+
+    const receipt = await sim.sendTransaction({
+        signer: r.wallet.keypair,
+        mldsaSigner: r.wallet.mldsaKeypair,
+        refundTo: r.wallet.p2tr,
+        maximumAllowedSatToSpend: 50_000n,
+        feeRate: 5,
+        priorityFee: 330n,
+        network: r.config.network,
+    });
+    r.submitted.add(market.id);
+    console.log(`${label}: proposed ${outcomeLabel}, tx ${receipt.transactionId}`);
+}
+
+async function runPass(r: Resolver): Promise<void> {
+    const currentBlock = await r.provider.getBlockNumber();
+    const markets = await fetchAllMarkets(r.contract);
+
+    // Binary, single-oracle markets past their resolution block; committees vote instead
+    const due = markets.filter((m) =>
+        m.status === STATUS_OPEN
+        && m.outcomeCount === 2
+        && m.committeeSize === 0n
+        && m.resolveAfterBlock <= currentBlock
+        && !r.submitted.has(m.id),
+    );
+    for (const m of markets) {
+        if (m.status !== STATUS_OPEN) r.submitted.delete(m.id);
+    }
+
+    const metadata = await fetchPriceMetadata(r.supabase, due);
+    console.log(`Block ${currentBlock}: ${markets.length} markets, ${due.length} awaiting resolution, ${metadata.size} with price metadata`);
+
+    for (const market of due) {
+        const meta = metadata.get(market.id);
+        if (!meta) continue;
+        try {
+            await resolveMarket(r, market, meta);
+        } catch (err) {
+            console.error(`Market #${market.id}: resolution failed:`, err instanceof Error ? err.message : err);
+        }
+    }
+}
+
+async function main(): Promise<void> {
+    const config = loadConfig();
+    const once = process.argv.includes('--once');
+
+    console.log('=== OPNet Price Resolver ===\n');
+    const mnemonic = new Mnemonic(config.mnemonic, '', config.network, MLDSASecurityLevel.LEVEL2);
+    const wallet = mnemonic.derive(0);
+    console.log('Resolver address:', wallet.p2tr);
+
+    const provider = new JSONRpcProvider({ url: config.rpcUrl, network: config.network });
+    const contract = getContract<BaseContractProperties>(
+        config.contractAddress,
+        RESOLVER_ABI,
+        provider,
+        config.network,
+        wallet.address,
+    ) as unknown as MarketContract;
+    const contractAddress = await provider.getPublicKeyInfo(config.contractAddress, true);
+
+    const signerResult = await contract.isPriceSigner(wallet.address) as CallResult<{ approved: boolean }>;
+    const isPriceSigner = !signerResult.revert && signerResult.properties.approved;
+    console.log(`Price source: ${config.priceSource}${config.dryRun ? ' (dry run)' : ''}`);
+    console.log(`Approved price signer: ${isPriceSigner ? 'yes' : 'no (only markets this wallet is oracle of)'}\n`);
+
+    const resolver: Resolver = {
+        config,
+        wallet,
+        provider,
+        contract,
+        contractAddress,
+        supabase: createClient(config.supabaseUrl, config.supabaseKey),
+        source: createPriceSource(config),
+        isPriceSigner,
+        submitted: new Set(),
+    };
+
+    const shutdown = (): void => {
+        mnemonic.zeroize();
+        wallet.zeroize();
+        process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+
+    for (;;) {
+        try {
+            await runPass(resolver);
+        } catch (err) {
+            console.error('Pass failed:', err instanceof Error ? err.message : err);
+        }
+        if (once) break;
+        await new Promise((resolve) => setTimeout(resolve, config.pollIntervalMs));
+    }
+
+    mnemonic.zeroize();
+    wallet.zeroize();
+}
+
+main().catch((err) => {
+    console.error('Resolver failed:', err);
+    process.exit(1);
+});
@@ -0,0 +1,143 @@
+import { createHash } from 'crypto';
+import { BinaryReader } from '@btc-vision/transaction';
+import type { CallResult } from 'opnet';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// Mirrors the contract's market status codes
+export const STATUS_OPEN = 1n;
+
+// Most markets the contract packs into one getMarkets response
+const BATCH_SIZE = 50n;
+
+/** The on-chain fields the resolver needs from one getMarkets record. */
+export interface ChainMarket {
+    id: bigint;
+    /** First block the contract accepts a resolution or price observation at. */
+    resolveAfterBlock: bigint;
+    oracle: bigint;
+    status: bigint;
+    committeeSize: bigint;
+    contentHash: bigint;
+    outcomeCount: number;
+}
+
+/** A market_questions row, already checked against the market's content hash. */
+export interface PriceMarketMetadata {
+    question: string;
+    coin: string;
+    targetPrice: number;
+    deadline: Date;
+}
+
+interface QuestionRow {
+    market_id: number;
+    question: string;
+    category: string | null;
+    coin: string | null;
+    target_price: number | null;
+    deadline: string | null;
+    outcomes: string[] | null;
+}
+
+type MarketContract = Record<string, (...args: any[]) => Promise<any>>;
+
+/** Decodes one packed getMarkets record (see PredictionMarket.writeMarketRecord). */
+function readMarketRecord(reader: BinaryReader): ChainMarket {
+    const id = reader.readU256();
+    reader.readU256(); // creator
+    reader.readU64(); // closeBlock
+    const resolveAfterBlock = reader.readU64();
+    const oracle = reader.readU256();
+    const status = reader.readU256();
+    reader.readU256(); // outcome
+    reader.readU256(); // protocolFeeBps
+    reader.readU256(); // creatorFeeBps
+    reader.readU256(); // protocolFee
+    reader.readU256(); // creatorFee
+    const committeeSize = reader.readU256();
+    reader.readU256(); // exitSpread
+    const contentHash = reader.readU256();
+    reader.readU256(); // lowerBound
+    reader.readU256(); // upperBound
+    reader.readU256(); // fallbackOracle
+    reader.readU64(); // timeoutBlock
+    reader.readU8(); // resolvedBy
+    reader.readBoolean(); // isPrivate
+    reader.readU256(); // allowlistRoot
+    const outcomeCount = reader.readU16();
+    for (let i = 0; i < outcomeCount; i++) reader.readU256();
+    return { id, resolveAfterBlock, oracle, status, committeeSize, contentHash, outcomeCount };
+}
+
+export async function fetchAllMarkets(contract: MarketContract): Promise<ChainMarket[]> {
+    const markets: ChainMarket[] = [];
+    let offset = 0n;
+    for (;;) {
+        const result = await contract.getMarkets(offset, BATCH_SIZE) as CallResult<{ total: bigint; records: Uint8Array }>;
+        if (result.revert) throw new Error(`getMarkets reverted: ${String(result.revert)}`);
+
+        const { total, records } = result.properties;
+        const reader = new BinaryReader(records);
+        const count = Math.min(Number(total - offset), Number(BATCH_SIZE));
+        for (let i = 0; i < count; i++) markets.push(readMarketRecord(reader));
+
+        offset += BigInt(count);
+        if (count === 0 || offset >= total) return markets;
+    }
+}
+
+function sha256(data: string | Buffer): Buffer {
+    return createHash('sha256').update(data).digest();
+}
+
+/**
+ * The content hash the contract derives at creation, with the metadata
+ * hashed in the same canonical form as the dApp
+ * (frontend/src/utils/marketQuestions.ts), so rows can be checked here too.
+ */
+function contentHash(row: QuestionRow): bigint {
+    const metadata = JSON.stringify({
+        category: row.category || 'price',
+        coin: row.coin || null,
+        targetPrice: row.target_price || null,
+        deadline: row.deadline ? new Date(row.deadline).toISOString() : null,
+    });
+    const labels = Array.isArray(row.outcomes) ? row.outcomes : [];
+    const parts = Buffer.concat([row.question, ...labels, metadata].map((text) => sha256(text)));
+    return BigInt(`0x${sha256(parts).toString('hex')}`);
+}
+
+/**
+ * Price metadata for the given markets. Rows that are not price markets,
+ * lack a coin, target or deadline, or don't match the on-chain hash are left out.
+ */
+export async function fetchPriceMetadata(
+    supabase: SupabaseClient,
+    markets: ChainMarket[],
+): Promise<Map<bigint, PriceMarketMetadata>> {
+    const metadata = new Map<bigint, PriceMarketMetadata>();
+    if (markets.length === 0) return metadata;
+
+    const { data, error } = await supabase
+        .from('market_questions')
+        .select('market_id, question, category, coin, target_price, deadline, outcomes')
+        .in('market_id', markets.map((m) => Number(m.id)));
+    if (error) throw new Error(`Failed to read market_questions: ${error.message}`);
+
+    const hashes = new Map(markets.map((m) => [m.id, m.contentHash]));
+    for (const row of (data ?? []) as QuestionRow[]) {
+        const id = BigInt(row.market_id);
+        if ((row.category || 'price') !== 'price' || !row.coin || !row.target_price || !row.deadline) continue;
+        if (contentHash(row) !== hashes.get(id)) {
+            console.warn(`Market #${id}: metadata does not match the on-chain content hash, skipping`);
+            continue;
+        }
+        metadata.set(id, {
+            question: row.question,
+            coin: row.coin,
+            targetPrice: Number(row.target_price),
+            deadline: new Date(row.deadline),
+        });
+    }
+    return metadata;
+}
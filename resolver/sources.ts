@@ -0,0 +1,136 @@
+import * as fs from 'fs';
+import { ResolverConfig } from './config';
+
+/** A USD price for a coin at (or as close as the source gets to) a point in time. */
+export interface PriceQuote {
+    coin: string;
+    price: number;
+    /** When the source observed the price. */
+    observedAt: Date;
+    source: string;
+}
+
+export interface PriceSource {
+    readonly name: string;
+    /** Price of `coin` (a ticker symbol such as BTC) at `at`, or null if the source has none. */
+    getPrice(coin: string, at: Date): Promise<PriceQuote | null>;
+}
+
+// Ticker symbols the dApp offers by default, mapped to CoinGecko ids
+const COINGECKO_IDS: Record<string, string> = {
+    BTC: 'bitcoin',
+    ETH: 'ethereum',
+    SOL: 'solana',
+    XRP: 'ripple',
+    ADA: 'cardano',
+    DOGE: 'dogecoin',
+    DOT: 'polkadot',
+    AVAX: 'avalanche-2',
+    LINK: 'chainlink',
+    UNI: 'uniswap',
+    ATOM: 'cosmos',
+    LTC: 'litecoin',
+    NEAR: 'near',
+    APT: 'aptos',
+    ARB: 'arbitrum',
+    OP: 'optimism',
+    SUI: 'sui',
+    SEI: 'sei-network',
+    TIA: 'celestia',
+    INJ: 'injective-protocol',
+    FET: 'fetch-ai',
+    RNDR: 'render-token',
+    STX: 'blockstack',
+    RUNE: 'thorchain',
+    PEPE: 'pepe',
+    WIF: 'dogwifcoin',
+    BONK: 'bonk',
+};
+
+// How far either side of the deadline CoinGecko is searched for a data point
+const COINGECKO_WINDOW_SECONDS = 60 * 60;
+
+/** Historical USD prices from the public CoinGecko API. */
+export class CoinGeckoSource implements PriceSource {
+    public readonly name = 'coingecko';
+
+    private readonly baseUrl = 'https://api.coingecko.com/api/v3';
+    private readonly ids = new Map<string, string>(Object.entries(COINGECKO_IDS));
+
+    public async getPrice(coin: string, at: Date): Promise<PriceQuote | null> {
+        const id = await this.resolveId(coin);
+        if (!id) return null;
+
+        const target = Math.floor(at.getTime() / 1000);
+        const url = `${this.baseUrl}/coins/${id}/market_chart/range?vs_currency=usd`
+            + `&from=${target - COINGECKO_WINDOW_SECONDS}&to=${target + COINGECKO_WINDOW_SECONDS}`;
+        const resp = await fetch(url);
+        if (!resp.ok) throw new Error(`CoinGecko returned ${resp.status} for ${coin}`);
+
+        const data = await resp.json() as { prices?: [number, number][] };
+        const points = data.prices ?? [];
+        if (points.length === 0) return null;
+
+        // Closest data point to the deadline
+        let best = points[0];
+        for (const point of points) {
+            if (Math.abs(point[0] - at.getTime()) < Math.abs(best[0] - at.getTime())) best = point;
+        }
+        return { coin, price: best[1], observedAt: new Date(best[0]), source: this.name };
+    }
+
+    private async resolveId(coin: string): Promise<string | null> {
+        const symbol = coin.toUpperCase();
+        const known = this.ids.get(symbol);
+        if (known) return known;
+
+        const resp = await fetch(`${this.baseUrl}/search?query=${encodeURIComponent(coin)}`);
+        if (!resp.ok) return null;
+        const data = await resp.json() as { coins?: { id: string; symbol: string }[] };
+        const match = data.coins?.find((c) => c.symbol.toUpperCase() === symbol);
+        if (!match) return null;
+        this.ids.set(symbol, match.id);
+        return match.id;
+    }
+}
+
+interface FixturePoint {
+    at: string;
+    price: number;
+}
+
+/**
+ * Prices from a local JSON file, for testing without network access:
+ * `{ "BTC": [{ "at": "2026-01-01T00:00:00Z", "price": 97000 }] }`.
+ * Returns the last point at or before the requested time.
+ */
+export class FixtureSource implements PriceSource {
+    public readonly name = 'fixture';
+
+    private readonly prices: Record<string, FixturePoint[]>;
+
+    public constructor(path: string) {
+        if (!fs.existsSync(path)) {
+            throw new Error(`Price fixture not found at ${path}`);
+        }
+        this.prices = JSON.parse(fs.readFileSync(path, 'utf-8')) as Record<string, FixturePoint[]>;
+    }
+
+    public getPrice(coin: string, at: Date): Promise<PriceQuote | null> {
+        const points = (this.prices[coin.toUpperCase()] ?? [])
+            .filter((p) => new Date(p.at).getTime() <= at.getTime())
+            .sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+        const latest = points[points.length - 1];
+        if (!latest) return Promise.resolve(null);
+        return Promise.resolve({ coin, price: latest.price, observedAt: new Date(latest.at), source: this.name });
+    }
+}
+
+export function createPriceSource(config: ResolverConfig): PriceSource {
+    switch (config.priceSource) {
+        case 'fixture':
+            return new FixtureSource(config.fixturePath);
+        case 'coingecko':
+            return new CoinGeckoSource();
+    }
+}
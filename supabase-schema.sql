@@ -1,6 +1,7 @@
 -- Run this in your Supabase SQL Editor to create the required tables.
 
--- Market questions: stores the question text and structured metadata for each market ID
+-- Market questions: stores the question text, structured metadata and (for
+-- categorical markets) the outcome labels for each market ID
 create table if not exists market_questions (
     market_id bigint primary key,
     question text not null,
@@ -8,9 +9,20 @@ create table if not exists market_questions (
     coin text,
     target_price numeric,
     deadline timestamptz,
+    outcomes jsonb,
     created_at timestamptz default now()
 );
 
+-- Oracle profiles: the display name and links each registered oracle shows
+-- in the dApp's oracle picker, keyed by 0x-prefixed oracle address
+create table if not exists oracle_profiles (
+    oracle text primary key,
+    name text not null,
+    description text,
+    url text,
+    updated_at timestamptz default now()
+);
+
 -- Analytics cache: single-row cache with 4h TTL
 create table if not exists analytics_cache (
     id int primary key default 1 check (id = 1),
@@ -22,15 +34,90 @@ create table if not exists analytics_cache (
 insert into analytics_cache (id, markets) values (1, '[]'::jsonb)
 on conflict (id) do nothing;
 
+-- Indexed contract events, written by the event indexer (indexer/) with the
+-- service role key. Addresses are 0x-prefixed hex, amounts collateral base
+-- units. block_height lets the indexer drop rows from blocks lost to a reorg.
+
+-- Blocks the indexer has processed, with their hash for reorg detection
+create table if not exists indexed_blocks (
+    height bigint primary key,
+    hash text not null,
+    indexed_at timestamptz default now()
+);
+
+create table if not exists markets (
+    market_id bigint primary key,
+    creator text not null,
+    close_block bigint not null,
+    resolve_after_block bigint not null,
+    tx_id text not null,
+    event_index int not null,
+    block_height bigint not null,
+    block_time timestamptz not null
+);
+
+create table if not exists bets (
+    tx_id text not null,
+    event_index int not null,
+    market_id bigint not null,
+    bettor text not null,
+    outcome int not null,
+    amount numeric not null,
+    block_height bigint not null,
+    block_time timestamptz not null,
+    primary key (tx_id, event_index)
+);
+
+create index if not exists bets_market_id_idx on bets (market_id);
+create index if not exists bets_bettor_idx on bets (bettor);
+
+create table if not exists resolutions (
+    tx_id text not null,
+    event_index int not null,
+    market_id bigint not null,
+    -- Winning outcome, or the resolved value for scalar markets
+    outcome numeric not null,
+    -- 1 oracle, 2 committee, 3 price signer, 4 fallback oracle, 5 owner, 6 arbitrator
+    resolved_by smallint not null,
+    block_height bigint not null,
+    block_time timestamptz not null,
+    primary key (tx_id, event_index)
+);
+
+create index if not exists resolutions_market_id_idx on resolutions (market_id);
+
+create table if not exists claims (
+    tx_id text not null,
+    event_index int not null,
+    market_id bigint not null,
+    claimant text not null,
+    amount numeric not null,
+    block_height bigint not null,
+    block_time timestamptz not null,
+    primary key (tx_id, event_index)
+);
+
+create index if not exists claims_market_id_idx on claims (market_id);
+create index if not exists claims_claimant_idx on claims (claimant);
+
 -- Enable Row Level Security
 alter table market_questions enable row level security;
+alter table oracle_profiles enable row level security;
 alter table analytics_cache enable row level security;
+alter table indexed_blocks enable row level security;
+alter table markets enable row level security;
+alter table bets enable row level security;
+alter table resolutions enable row level security;
+alter table claims enable row level security;
 
 -- Allow anyone to read market questions (public data)
 create policy "Anyone can read market questions"
     on market_questions for select
     using (true);
 
+-- Rows are publicly writable: the dApp checks each row against the content
+-- hash the market committed on-chain and ignores rows that don't match.
+
 -- Allow anyone to insert market questions (no auth needed for dApp)
 create policy "Anyone can insert market questions"
     on market_questions for insert
@@ -41,6 +128,20 @@ create policy "Anyone can update market questions"
     on market_questions for update
     using (true);
 
+-- Oracle profiles are publicly writable too; the dApp only shows a profile
+-- whose hash matches the one the oracle staked on-chain.
+create policy "Anyone can read oracle profiles"
+    on oracle_profiles for select
+    using (true);
+
+create policy "Anyone can insert oracle profiles"
+    on oracle_profiles for insert
+    with check (true);
+
+create policy "Anyone can update oracle profiles"
+    on oracle_profiles for update
+    using (true);
+
 -- Allow anyone to read analytics cache
 create policy "Anyone can read analytics cache"
     on analytics_cache for select
@@ -51,9 +152,47 @@ create policy "Anyone can update analytics cache"
     on analytics_cache for update
     using (true);
 
+-- Indexed tables are public to read. There are no write policies: only the
+-- indexer, using the service role key (which bypasses RLS), writes them.
+create policy "Anyone can read indexed blocks"
+    on indexed_blocks for select
+    using (true);
+
+create policy "Anyone can read indexed markets"
+    on markets for select
+    using (true);
+
+create policy "Anyone can read bets"
+    on bets for select
+    using (true);
+
+create policy "Anyone can read resolutions"
+    on resolutions for select
+    using (true);
+
+create policy "Anyone can read claims"
+    on claims for select
+    using (true);
+
 -- Migration: add structured metadata columns to existing market_questions table
 -- Run this if the table already exists without these columns:
 -- ALTER TABLE market_questions ADD COLUMN IF NOT EXISTS category text DEFAULT 'price';
 -- ALTER TABLE market_questions ADD COLUMN IF NOT EXISTS coin text;
 -- ALTER TABLE market_questions ADD COLUMN IF NOT EXISTS target_price numeric;
 -- ALTER TABLE market_questions ADD COLUMN IF NOT EXISTS deadline timestamptz;
+
+-- Migration: add outcome labels for categorical markets
+-- ALTER TABLE market_questions ADD COLUMN IF NOT EXISTS outcomes jsonb;
+
+-- Migration: scalar markets resolve to values beyond the int range
+-- ALTER TABLE resolutions ALTER COLUMN outcome TYPE numeric;
+
+-- Migration: betting closes at close_block, resolution opens at resolve_after_block
+-- ALTER TABLE markets RENAME COLUMN end_block TO close_block;
+-- ALTER TABLE markets ADD COLUMN IF NOT EXISTS resolve_after_block bigint;
+-- UPDATE markets SET resolve_after_block = close_block WHERE resolve_after_block IS NULL;
+-- ALTER TABLE markets ALTER COLUMN resolve_after_block SET NOT NULL;
+
+-- Migration: record who resolved each market (older rows predate fallback
+-- resolution and are left as 0, unknown)
+-- ALTER TABLE resolutions ADD COLUMN IF NOT EXISTS resolved_by smallint not null default 0;